@@ -3,19 +3,27 @@ import Home from './pages/Home.tsx'
 import NewAssessment from './pages/NewAssessment.tsx'
 import Assessment from './pages/Assessment.tsx'
 import Summary from './pages/Summary.tsx'
+import ResolveConflicts from './pages/ResolveConflicts.tsx'
 import SchoolProfile from './pages/SchoolProfile.tsx'
 import LightSurveys from './pages/LightSurveys.tsx'
 import LightSurveyDetail from './pages/LightSurveyDetail.tsx'
 import LightWalk from './pages/LightWalk.tsx'
+import Search from './pages/Search.tsx'
+import SchoolCompliance from './pages/SchoolCompliance.tsx'
+import Templates from './pages/Templates.tsx'
 
 function App() {
   return (
     <div className="min-h-full">
       <Routes>
         <Route path="/" element={<Home />} />
+        <Route path="/search" element={<Search />} />
+        <Route path="/schools" element={<SchoolCompliance />} />
+        <Route path="/templates" element={<Templates />} />
         <Route path="/assessment/new" element={<NewAssessment />} />
         <Route path="/assessment/:id" element={<Assessment />} />
         <Route path="/assessment/:id/summary" element={<Summary />} />
+        <Route path="/assessment/:id/resolve" element={<ResolveConflicts />} />
         <Route path="/assessment/:id/school" element={<SchoolProfile />} />
         <Route path="/assessment/:id/light" element={<LightSurveys />} />
         <Route path="/assessment/:id/light/:surveyId" element={<LightSurveyDetail />} />
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_MAIN_BUILDING_NAME, buildingZoneKey, getZonesForType } from 'cpted-checklist';
+import {
+  addBuilding,
+  removeBuilding,
+  renameMainBuilding,
+  updateBuilding,
+  zonesWithWork,
+} from '../services/buildings';
+import { pinnedVersion } from '../services/template-upgrade';
+import ConfirmDialog from './ConfirmDialog';
+import type { Assessment, Building } from '../types';
+
+interface BuildingsDialogProps {
+  assessment: Assessment;
+  open: boolean;
+  onClose: () => void;
+}
+
+/** The building being edited: an existing one by id, or 'new'. */
+type Editing = { id: string | 'new'; name: string; zoneKeys: string[] };
+
+/** A change that would delete recorded work, held until the assessor confirms. */
+interface PendingLoss {
+  message: string;
+  apply: () => Promise<void>;
+}
+
+const FIELD =
+  'w-full rounded-lg border border-ink/20 px-3 py-2 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30';
+
+/**
+ * The campus's buildings: name the main one, and add further buildings, each
+ * repeating the template zones the assessor ticks. Changes are written as they
+ * are saved, one building at a time.
+ */
+export default function BuildingsDialog({ assessment, open, onClose }: BuildingsDialogProps) {
+  const [mainName, setMainName] = useState('');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [pending, setPending] = useState<PendingLoss | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildings = assessment.buildings ?? [];
+  const zones = getZonesForType(assessment.property_type, pinnedVersion(assessment));
+
+  useEffect(() => {
+    if (!open) return;
+    setMainName(assessment.main_building_name ?? '');
+    setEditing(null);
+    setError(null);
+    // Only on opening: the assessment re-renders under us as each save lands.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !working && !pending) onClose();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [open, working, pending, onClose]);
+
+  if (!open) return null;
+
+  async function run(action: () => Promise<void>) {
+    setWorking(true);
+    setError(null);
+    try {
+      await action();
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the buildings');
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  /** Run `action`, asking first if it deletes work recorded in `zoneKeys`. */
+  async function runChecked(zoneKeys: string[], what: string, action: () => Promise<void>) {
+    const worked = await zonesWithWork(assessment.id, zoneKeys);
+    if (worked.length === 0) {
+      await run(action);
+      return;
+    }
+    setPending({
+      message: `${what} deletes the scores, notes and photos recorded in ${worked.length} zone${worked.length === 1 ? '' : 's'}.`,
+      apply: action,
+    });
+  }
+
+  function zoneName(key: string): string {
+    return zones.find((z) => z.key === key)?.name ?? key;
+  }
+
+  function handleSave(edit: Editing) {
+    if (!edit.name.trim() || edit.zoneKeys.length === 0) return;
+    // Kept in template order, whatever order they were ticked in.
+    const zoneKeys = zones.map((z) => z.key).filter((key) => edit.zoneKeys.includes(key));
+    if (edit.id === 'new') {
+      void run(async () => {
+        await addBuilding(assessment.id, edit.name, zoneKeys);
+      });
+      return;
+    }
+    const id = edit.id;
+    const before = buildings.find((b) => b.id === id);
+    const dropped = (before?.zone_keys ?? [])
+      .filter((key) => !zoneKeys.includes(key))
+      .map((key) => buildingZoneKey(key, id));
+    void runChecked(dropped, 'Dropping those zones', () =>
+      updateBuilding(assessment.id, id, edit.name, zoneKeys),
+    );
+  }
+
+  function handleRemove(building: Building) {
+    void runChecked(
+      building.zone_keys.map((key) => buildingZoneKey(key, building.id)),
+      `Removing ${building.name}`,
+      () => removeBuilding(assessment.id, building.id),
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="buildings-title"
+    >
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={working ? undefined : onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative bg-surface rounded-2xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 pb-4">
+          <h3 id="buildings-title" className="text-lg font-bold text-ink mb-1">
+            Buildings
+          </h3>
+          <p className="text-sm text-ink/60">
+            Repeat zones for each building on the campus. Every building's zones are scored,
+            photographed and averaged on their own, and the report groups them by building.
+          </p>
+        </div>
+
+        <div className="px-6 overflow-y-auto flex-1 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-ink mb-1" htmlFor="main-building-name">
+              Main building
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="main-building-name"
+                type="text"
+                value={mainName}
+                onChange={(e) => setMainName(e.target.value)}
+                placeholder={DEFAULT_MAIN_BUILDING_NAME}
+                className={FIELD}
+              />
+              <button
+                type="button"
+                disabled={working || mainName.trim() === (assessment.main_building_name ?? '')}
+                onClick={() => void run(() => renameMainBuilding(assessment.id, mainName))}
+                className="px-3 rounded-lg text-sm font-semibold bg-navy text-white hover:bg-navy-light disabled:opacity-50"
+              >
+                Rename
+              </button>
+            </div>
+            <p className="text-xs text-ink/50 mt-1">The template's own zones.</p>
+          </div>
+
+          <ul className="space-y-2">
+            {buildings.map((building) =>
+              editing?.id === building.id ? (
+                <li key={building.id}>
+                  <BuildingForm
+                    editing={editing}
+                    zones={zones}
+                    working={working}
+                    onChange={setEditing}
+                    onSave={() => handleSave(editing)}
+                    onCancel={() => setEditing(null)}
+                    onRemove={() => handleRemove(building)}
+                  />
+                </li>
+              ) : (
+                <li
+                  key={building.id}
+                  className="rounded-lg border border-ink/10 px-3 py-2 flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-ink truncate">{building.name}</p>
+                    <p className="text-xs text-ink/50 truncate">
+                      {building.zone_keys.map(zoneName).join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    disabled={working || editing !== null}
+                    onClick={() =>
+                      setEditing({ id: building.id, name: building.name, zoneKeys: building.zone_keys })
+                    }
+                    className="text-sm font-medium text-blue-medium hover:underline disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                </li>
+              ),
+            )}
+          </ul>
+
+          {editing?.id === 'new' ? (
+            <BuildingForm
+              editing={editing}
+              zones={zones}
+              working={working}
+              onChange={setEditing}
+              onSave={() => handleSave(editing)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <button
+              type="button"
+              disabled={working || editing !== null}
+              onClick={() =>
+                setEditing({ id: 'new', name: `Building ${String.fromCharCode(66 + buildings.length)}`, zoneKeys: [] })
+              }
+              className="w-full py-2 rounded-lg border border-dashed border-ink/30 text-sm font-medium text-ink/60 hover:bg-ink/5 disabled:opacity-50"
+            >
+              + Add building
+            </button>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-6 pt-4 flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={working}
+            className="px-5 py-2.5 rounded-xl text-sm font-semibold bg-navy text-white hover:bg-navy-light disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={pending !== null}
+        title="Delete Recorded Work?"
+        variant="danger"
+        confirmLabel="Delete"
+        message={<p>{pending?.message} This cannot be undone.</p>}
+        onConfirm={() => {
+          const action = pending?.apply;
+          setPending(null);
+          if (action) void run(action);
+        }}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+}
+
+interface BuildingFormProps {
+  editing: Editing;
+  zones: { key: string; name: string }[];
+  working: boolean;
+  onChange: (editing: Editing) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  onRemove?: () => void;
+}
+
+function BuildingForm({ editing, zones, working, onChange, onSave, onCancel, onRemove }: BuildingFormProps) {
+  function toggle(key: string) {
+    onChange({
+      ...editing,
+      zoneKeys: editing.zoneKeys.includes(key)
+        ? editing.zoneKeys.filter((k) => k !== key)
+        : [...editing.zoneKeys, key],
+    });
+  }
+
+  return (
+    <div className="p-3 rounded-lg border border-dashed border-blue-medium/50 bg-blue-pale/40 space-y-2">
+      <input
+        type="text"
+        value={editing.name}
+        onChange={(e) => onChange({ ...editing, name: e.target.value })}
+        placeholder="Building name — e.g. Gymnasium"
+        className={FIELD}
+        aria-label="Building name"
+        autoFocus
+      />
+      <p className="text-xs font-semibold uppercase tracking-wide text-ink/50">Zones it repeats</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+        {zones.map((zone) => (
+          <label key={zone.key} className="flex items-center gap-2 text-sm text-ink">
+            <input
+              type="checkbox"
+              checked={editing.zoneKeys.includes(zone.key)}
+              onChange={() => toggle(zone.key)}
+            />
+            <span className="truncate">{zone.name}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 pt-1">
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={working}
+            className="px-3 h-9 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+        <span className="flex-1" />
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={working}
+          className="px-3 h-9 rounded-lg text-sm font-medium text-ink/60 hover:bg-ink/5"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={working || !editing.name.trim() || editing.zoneKeys.length === 0}
+          className="px-3 h-9 rounded-lg text-sm font-semibold bg-navy text-white hover:bg-navy-light disabled:opacity-50"
+        >
+          {editing.id === 'new' ? 'Add' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,11 @@ import ScoreButtons from './ScoreButtons';
 import RatingButtons from './RatingButtons';
 import PhotoThumbnail from './PhotoThumbnail';
 import PhotoViewer from './PhotoViewer';
+import ConfirmDialog from './ConfirmDialog';
+import CustomItemForm from './CustomItemForm';
 import { savePhoto, deletePhoto } from '../services/photos';
-import { getVerificationHint } from '../data/item-phases';
+import { removeCustomItem, updateCustomItem } from '../services/custom-items';
+import { getVerificationHint } from 'cpted-checklist';
 
 interface ChecklistItemProps {
   itemScore: ItemScore;
@@ -25,6 +28,8 @@ export default function ChecklistItem({
   const [noteText, setNoteText] = useState(itemScore.notes);
   const [saving, setSaving] = useState(false);
   const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [confirmRemove, setConfirmRemove] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -56,9 +61,24 @@ export default function ChecklistItem({
     }
   };
 
+  if (editing) {
+    return (
+      <CustomItemForm
+        initial={{ item_text: itemScore.item_text, custom_guidance: itemScore.custom_guidance ?? '' }}
+        submitLabel="Save"
+        onSubmit={async (text) => {
+          await updateCustomItem(itemScore.id, text);
+          setEditing(false);
+        }}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
   return (
     <div
-      className={`p-4 rounded-lg border transition-colors ${
+      id={`item-${itemScore.id}`}
+      className={`p-4 rounded-lg border transition-colors scroll-mt-20 ${
         isNa
           ? 'bg-ink/5 border-ink/10 opacity-60'
           : isScored
@@ -66,14 +86,47 @@ export default function ChecklistItem({
             : 'bg-surface border-ink/10'
       }`}
     >
+      {itemScore.is_custom && (
+        <div className="mb-1.5 flex items-center gap-2">
+          <span className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded bg-blue-pale text-navy">
+            Custom
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            className="text-xs font-medium text-blue-medium hover:underline"
+          >
+            Edit
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmRemove(true)}
+            className="text-xs font-medium text-red-600 hover:underline"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+      {isNa && itemScore.na_reason && (
+        <div className="mb-1.5">
+          <span className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded bg-ink/10 text-ink/70">
+            N/A — {itemScore.na_reason}
+          </span>
+        </div>
+      )}
       <p
         className={`text-sm leading-relaxed mb-3 ${isNa ? 'text-ink/50' : 'text-ink'}`}
       >
         {itemScore.item_text}
       </p>
+      {itemScore.custom_guidance && (
+        <p className={`-mt-2 mb-3 text-xs text-ink/60 leading-snug ${isNa ? 'opacity-50' : ''}`}>
+          <span className="font-semibold">Guidance:</span> {itemScore.custom_guidance}
+        </p>
+      )}
 
       {(() => {
-        const hint = getVerificationHint(itemScore.item_text);
+        const hint = getVerificationHint(itemScore.item_key);
         if (!hint) return null;
         return (
           <div
@@ -165,6 +218,21 @@ export default function ChecklistItem({
         />
       )}
 
+      {itemScore.is_custom && (
+        <ConfirmDialog
+          open={confirmRemove}
+          title="Remove custom item?"
+          message={`"${itemScore.item_text}" is removed from this assessment with its score, note and ${photoCount === 1 ? 'photo' : 'photos'}.`}
+          confirmLabel="Remove"
+          variant="danger"
+          onConfirm={() => {
+            setConfirmRemove(false);
+            void removeCustomItem(itemScore.id);
+          }}
+          onCancel={() => setConfirmRemove(false)}
+        />
+      )}
+
       {showNote && (
         <textarea
           value={noteText}
@@ -0,0 +1,76 @@
+import { Link } from 'react-router-dom';
+import type { CompletionViolation } from 'cpted-checklist';
+
+interface CompletionCheckProps {
+  assessmentId: string;
+  violations: CompletionViolation[];
+}
+
+/** Where a violation is fixed: the item or zone on the walk, or the signature below. */
+function fixLink(assessmentId: string, v: CompletionViolation): string {
+  if (v.zone_key === null) return '#assessor-signature';
+  const params = new URLSearchParams({ zone: v.zone_key });
+  if (v.item_id) params.set('item', v.item_id);
+  else params.set('findings', '1');
+  return `/assessment/${assessmentId}?${params}`;
+}
+
+function ViolationList({
+  assessmentId,
+  violations,
+  tone,
+}: {
+  assessmentId: string;
+  violations: CompletionViolation[];
+  tone: 'block' | 'warn';
+}) {
+  return (
+    <ul className="space-y-1.5">
+      {violations.map((v, i) => (
+        <li key={`${v.kind}-${v.item_id ?? v.zone_key ?? ''}-${i}`} className="flex items-start gap-2 text-sm">
+          <span
+            className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${tone === 'block' ? 'bg-red-500' : 'bg-yellow-400'}`}
+          />
+          {v.zone_key === null ? (
+            <a href={fixLink(assessmentId, v)} className="text-ink/80 hover:text-navy hover:underline">
+              {v.message}
+            </a>
+          ) : (
+            <Link to={fixLink(assessmentId, v)} className="text-ink/80 hover:text-navy hover:underline">
+              {v.message}
+            </Link>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * What the template's completion rules still want (see completion-rules.ts in
+ * cpted-checklist): the ones that stop Mark Complete first, then the warnings.
+ * Each line opens the zone, or the item, where it is put right.
+ */
+export default function CompletionCheck({ assessmentId, violations }: CompletionCheckProps) {
+  const blocking = violations.filter((v) => v.severity === 'block');
+  const warnings = violations.filter((v) => v.severity === 'warn');
+  return (
+    <div className="bg-surface rounded-xl border border-ink/10 shadow-sm p-6">
+      <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide mb-1">Before Completing</h2>
+      <p className="text-xs text-ink/50 mb-4">
+        {blocking.length > 0
+          ? `${blocking.length} thing${blocking.length === 1 ? '' : 's'} must be fixed before this can be marked complete.`
+          : 'Nothing stops completion, but these are worth a look first.'}
+      </p>
+      {blocking.length > 0 && (
+        <ViolationList assessmentId={assessmentId} violations={blocking} tone="block" />
+      )}
+      {warnings.length > 0 && (
+        <div className={blocking.length > 0 ? 'mt-4 pt-4 border-t border-ink/10' : ''}>
+          {blocking.length > 0 && <p className="text-xs font-semibold text-ink/50 mb-2">Warnings</p>}
+          <ViolationList assessmentId={assessmentId} violations={warnings} tone="warn" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import type { CustomItemText } from '../services/custom-items';
+
+interface CustomItemFormProps {
+  initial?: CustomItemText;
+  submitLabel: string;
+  onSubmit: (text: CustomItemText) => void;
+  onCancel: () => void;
+}
+
+const FIELD =
+  'w-full rounded-lg border border-ink/20 px-3 py-2 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30 resize-y';
+
+/** The wording and optional guidance of a custom item, for adding or editing one. */
+export default function CustomItemForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CustomItemFormProps) {
+  const [itemText, setItemText] = useState(initial?.item_text ?? '');
+  const [guidance, setGuidance] = useState(initial?.custom_guidance ?? '');
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (itemText.trim()) onSubmit({ item_text: itemText, custom_guidance: guidance });
+      }}
+      className="p-4 rounded-lg border border-dashed border-blue-medium/50 bg-blue-pale/40 space-y-2"
+    >
+      <textarea
+        value={itemText}
+        onChange={(e) => setItemText(e.target.value)}
+        placeholder="What to check — e.g. Pool gate is self-closing and self-latching"
+        rows={2}
+        className={FIELD}
+        aria-label="Item wording"
+        autoFocus
+      />
+      <textarea
+        value={guidance}
+        onChange={(e) => setGuidance(e.target.value)}
+        placeholder="Guidance (optional) — the recommended action if it falls short"
+        rows={2}
+        className={FIELD}
+        aria-label="Guidance"
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 h-9 rounded-lg text-sm font-medium text-ink/60 hover:bg-ink/5"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!itemText.trim()}
+          className="px-3 h-9 rounded-lg text-sm font-semibold bg-navy text-white hover:bg-navy-light disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react'
 import { touchAssessment } from '../services/touch'
-import { isWorshipType, isSchoolType, isCommercialType } from '../data/zone-registry'
-import type { Assessment, AssessmentType, TimeOfAssessment } from '../types'
+import { saveSiteFacts } from '../services/site-facts'
+import { sameValue } from '../services/merge'
+import { getSiteFactQuestions, isWorshipType, isSchoolType, isCommercialType } from 'cpted-checklist'
+import SiteFactsFields from './SiteFactsFields'
+import FollowedAssessmentSelect from './FollowedAssessmentSelect'
+import type { Assessment, AssessmentType, SiteFacts, TimeOfAssessment } from '../types'
 
 interface Props {
   assessment: Assessment
@@ -20,9 +24,11 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
   const [assessorName, setAssessorName] = useState('')
   const [assessorBadgeId, setAssessorBadgeId] = useState('')
   const [assessmentType, setAssessmentType] = useState<AssessmentType>('initial')
+  const [followsAssessmentId, setFollowsAssessmentId] = useState<string | null>(null)
   const [dateOfAssessment, setDateOfAssessment] = useState('')
   const [reportSignedOn, setReportSignedOn] = useState('')
   const [timeOfAssessment, setTimeOfAssessment] = useState<TimeOfAssessment>('daytime')
+  const [siteFacts, setSiteFacts] = useState<SiteFacts>({})
   const [errors, setErrors] = useState<Record<string, boolean>>({})
   const [saving, setSaving] = useState(false)
 
@@ -43,9 +49,11 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
       setAssessorName(assessment.assessor_name)
       setAssessorBadgeId(assessment.assessor_badge_id ?? '')
       setAssessmentType(assessment.assessment_type)
+      setFollowsAssessmentId(assessment.follows_assessment_id ?? null)
       setDateOfAssessment(assessment.date_of_assessment)
       setReportSignedOn(assessment.report_signed_on ?? '')
       setTimeOfAssessment(assessment.time_of_assessment)
+      setSiteFacts(assessment.site_facts ?? {})
       setErrors({})
     }
   }, [open, assessment])
@@ -84,6 +92,10 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
         assessor_name: assessorName.trim(),
         assessor_badge_id: assessorBadgeId.trim() || undefined,
         assessment_type: assessmentType,
+        // Null rather than undefined for the same reason as report_signed_on
+        // below: a follow-up turned into another type drops its link on the
+        // server too.
+        follows_assessment_id: assessmentType === 'follow_up' ? followsAssessmentId : null,
         date_of_assessment: dateOfAssessment,
         // Blank clears it, which puts the field back to being stamped with the
         // day the report is next generated. Explicitly null, not undefined —
@@ -93,6 +105,11 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
         report_signed_on: reportSignedOn || null,
         time_of_assessment: timeOfAssessment,
       })
+      // Its own write: a changed answer re-marks checklist items, and an
+      // unchanged one should not stamp every ruled-out row as edited.
+      if (!sameValue(siteFacts, assessment.site_facts ?? {})) {
+        await saveSiteFacts(assessment.id, siteFacts)
+      }
       onClose()
     } catch (err) {
       console.error('Failed to update assessment info:', err)
@@ -252,6 +269,20 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
               </div>
             </section>
 
+            {/* Site Facts */}
+            {getSiteFactQuestions(assessment.property_type).length > 0 && (
+              <section>
+                <h3 className="text-sm font-bold text-ink/60 uppercase tracking-wide mb-3">
+                  About the Site
+                </h3>
+                <SiteFactsFields
+                  propertyType={assessment.property_type}
+                  value={siteFacts}
+                  onChange={setSiteFacts}
+                />
+              </section>
+            )}
+
             {/* Assessor Information */}
             <section>
               <h3 className="text-sm font-bold text-ink/60 uppercase tracking-wide mb-3">
@@ -317,6 +348,21 @@ export default function EditAssessmentInfo({ assessment, open, onClose }: Props)
                   </div>
                 </div>
 
+                {assessmentType === 'follow_up' && (
+                  <div>
+                    <label className={labelClass}>Follows Up On</label>
+                    <FollowedAssessmentSelect
+                      value={followsAssessmentId}
+                      onChange={setFollowsAssessmentId}
+                      excludeId={assessment.id}
+                      className="w-full rounded-lg border border-ink/20 px-4 py-3 text-base bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+                    />
+                    <p className="text-xs text-ink/50 mt-1">
+                      Its recommendations' status prints on this report.
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className={labelClass}>Date of Assessment</label>
                   <input
@@ -0,0 +1,44 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+
+interface FollowedAssessmentSelectProps {
+  value: string | null;
+  onChange: (assessmentId: string | null) => void;
+  /** The assessment being edited, which can't follow itself. */
+  excludeId?: string;
+  className?: string;
+}
+
+/**
+ * Which earlier assessment a follow-up returns to, picked from those on this
+ * device, latest visit first. The follow-up's report prints where that
+ * assessment's recommendations stand. A link to one no longer on the device
+ * is kept and shown as such rather than silently dropped.
+ */
+export default function FollowedAssessmentSelect({ value, onChange, excludeId, className }: FollowedAssessmentSelectProps) {
+  const assessments = useLiveQuery(
+    async () => {
+      const all = await db.assessments.toArray();
+      return all.sort((a, b) => b.date_of_assessment.localeCompare(a.date_of_assessment));
+    },
+    [],
+  );
+  const options = (assessments ?? []).filter((a) => a.id !== excludeId);
+  const missing = value !== null && assessments !== undefined && !options.some((a) => a.id === value);
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className={className}
+    >
+      <option value="">Not linked</option>
+      {missing && <option value={value}>An assessment not on this device</option>}
+      {options.map((a) => (
+        <option key={a.id} value={a.id}>
+          {[a.address, a.city].filter(Boolean).join(', ') || 'Untitled'} — {a.date_of_assessment}
+        </option>
+      ))}
+    </select>
+  );
+}
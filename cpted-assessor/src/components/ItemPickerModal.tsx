@@ -5,7 +5,7 @@ import {
   buildDescription,
   getPriority,
 } from '../services/recommendations';
-import type { ItemScore, PropertyType, Recommendation, RecommendationType, SchoolRating } from '../types';
+import type { Building, ItemScore, PropertyType, Recommendation, RecommendationType, SchoolRating } from '../types';
 
 interface ItemPickerModalProps {
   open: boolean;
@@ -13,6 +13,9 @@ interface ItemPickerModalProps {
   onConfirm: (items: Recommendation[]) => void;
   itemScores: ItemScore[];
   propertyType: PropertyType;
+  templateVersion?: number;
+  buildings?: Building[];
+  mainBuildingName?: string;
   type: RecommendationType;
   assessmentId: string;
   existingDescriptions: Set<string>;
@@ -53,6 +56,9 @@ export default function ItemPickerModal({
   onConfirm,
   itemScores,
   propertyType,
+  templateVersion,
+  buildings,
+  mainBuildingName,
   type,
   assessmentId,
   existingDescriptions,
@@ -63,8 +69,8 @@ export default function ItemPickerModal({
 
   // Build scored items grouped by zone
   const contextItems = useMemo(
-    () => getItemContext(itemScores, propertyType),
-    [itemScores, propertyType],
+    () => getItemContext(itemScores, propertyType, templateVersion, buildings, mainBuildingName),
+    [itemScores, propertyType, templateVersion, buildings, mainBuildingName],
   );
 
   // Check if an item's description is already in existing recommendations
@@ -138,6 +144,7 @@ export default function ItemPickerModal({
       description: buildDescription(ctx, propertyType),
       priority: getPriority(ctx.item.score!),
       type,
+      item_id: ctx.item.id,
     }));
 
     onConfirm(recs);
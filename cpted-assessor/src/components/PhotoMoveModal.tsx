@@ -1,7 +1,7 @@
 import { useMemo, useState } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
-import { getZonesForType } from '../data/zone-registry';
+import { assessmentZones } from '../services/buildings';
 import type { SchoolRating } from '../types';
 
 // Badge text + color for a numeric 1-5 score, a school Yes/No/UTO rating, N/A, or unscored.
@@ -47,8 +47,8 @@ export default function PhotoMoveModal({
   );
 
   const zones = useMemo(
-    () => (assessment ? getZonesForType(assessment.property_type) : []),
-    [assessment?.property_type],
+    () => (assessment ? assessmentZones(assessment) : []),
+    [assessment?.property_type, assessment?.template_version, assessment?.buildings, assessment?.main_building_name],
   );
 
   // Group items by zone in the zone order defined by the template
@@ -0,0 +1,70 @@
+import { Link } from 'react-router-dom';
+import type { PreflightFix, PreflightIssue } from '../services/preflight';
+
+interface PreflightPanelProps {
+  issues: PreflightIssue[];
+  /** A fix is being applied; the buttons wait for it. */
+  busy: boolean;
+  onFix: (fix: PreflightFix) => void;
+  onGenerateAnyway: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * What pre-flight found in the report about to be printed (see preflight.ts).
+ * Each line either opens the place it is put right or carries its one-tap
+ * fix; none of them stops the report, so Generate Anyway prints it as it is.
+ */
+export default function PreflightPanel({ issues, busy, onFix, onGenerateAnyway, onDismiss }: PreflightPanelProps) {
+  return (
+    <div className="bg-surface rounded-xl border border-yellow-300 shadow-sm p-6">
+      <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide mb-1">Before Printing</h2>
+      <p className="text-xs text-ink/50 mb-4">
+        {issues.length} thing{issues.length === 1 ? '' : 's'} in this report worth fixing before it goes out.
+      </p>
+      <ul className="space-y-2">
+        {issues.map((issue, i) => (
+          <li key={`${issue.fix?.kind ?? issue.link ?? ''}-${i}`} className="flex items-start gap-2 text-sm">
+            <span className="mt-1.5 w-2 h-2 rounded-full flex-shrink-0 bg-yellow-400" />
+            <span className="flex-1">
+              {issue.link ? (
+                <Link to={issue.link} className="text-ink/80 hover:text-navy hover:underline">
+                  {issue.message}
+                </Link>
+              ) : (
+                <span className="text-ink/80">{issue.message}</span>
+              )}
+            </span>
+            {issue.fix && (
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => issue.fix && onFix(issue.fix)}
+                className="flex-shrink-0 px-3 py-1 rounded-lg text-xs font-semibold bg-navy text-white hover:bg-navy/90 disabled:opacity-50 transition-colors"
+              >
+                {issue.fix.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center justify-end gap-3 mt-5 pt-4 border-t border-ink/10">
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-ink/60 hover:bg-ink/5 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={onGenerateAnyway}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-yellow-500 text-white hover:bg-yellow-600 disabled:opacity-50 transition-colors"
+        >
+          Generate Anyway
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { formatMatrixValue } from 'cpted-checklist';
+import type { PrincipleMatrix as PrincipleMatrixData, PrincipleMatrixCell, PrincipleMatrixMode } from 'cpted-checklist';
+import { getComplianceBgColor, getComplianceColor, getScoreBgColor, getScoreColor } from '../services/scoring';
+
+interface PrincipleMatrixProps {
+  matrix: PrincipleMatrixData;
+}
+
+function cellClasses(mode: PrincipleMatrixMode, value: number): string {
+  return mode === 'compliance'
+    ? `${getComplianceBgColor(value)} ${getComplianceColor(value)}`
+    : `${getScoreBgColor(value)} ${getScoreColor(value)}`;
+}
+
+function Cell({ mode, cell, bold = false }: { mode: PrincipleMatrixMode; cell: PrincipleMatrixCell; bold?: boolean }) {
+  if (cell.value === null) {
+    return <td className="px-2 py-2 text-center text-xs text-ink/20">&mdash;</td>;
+  }
+  return (
+    <td className="px-1 py-1 text-center">
+      <span
+        title={`${cell.rated} item${cell.rated === 1 ? '' : 's'}`}
+        className={`block rounded px-2 py-1 text-sm ${bold ? 'font-bold' : 'font-semibold'} ${cellClasses(mode, cell.value)}`}
+      >
+        {formatMatrixValue(mode, cell.value)}
+      </span>
+    </td>
+  );
+}
+
+/**
+ * Zones down, CPTED principles across, each cell coloured by its score — or,
+ * for a school, its percent met — with each principle's site-wide figure in
+ * the last row. A column that runs red is a principle weak everywhere.
+ */
+export default function PrincipleMatrix({ matrix }: PrincipleMatrixProps) {
+  const { mode, principles, rows, totals, weakest } = matrix;
+  return (
+    <div className="bg-surface rounded-xl border border-ink/10 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-ink/10">
+        <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide">Principles by Zone</h2>
+        {weakest && (
+          <p className="text-xs text-ink/50 mt-1">
+            Weakest across the site: <span className="font-semibold text-ink/70">{weakest.name}</span> (
+            {formatMatrixValue(mode, weakest.value)}
+            {mode === 'compliance' ? ' met' : ''})
+          </p>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="text-xs font-bold text-ink/50 uppercase tracking-wide">
+              <th className="px-6 py-3 text-left">Zone</th>
+              {principles.map((p) => (
+                <th key={p.key} className="px-2 py-3 text-center align-bottom">
+                  {p.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-ink/5">
+            {rows.map((row) => (
+              <tr key={row.zone_key}>
+                <td className="px-6 py-2 text-sm font-medium text-ink">{row.zone_name}</td>
+                {row.cells.map((cell, i) => (
+                  <Cell key={principles[i].key} mode={mode} cell={cell} />
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t-2 border-ink/10">
+              <td className="px-6 py-2 text-sm font-bold text-ink">All zones</td>
+              {totals.map((cell, i) => (
+                <Cell key={principles[i].key} mode={mode} cell={cell} bold />
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState } from 'react';
 import type { ZonePrinciple, ItemScore, SchoolRating } from '../types';
 import ChecklistItem from './ChecklistItem';
+import CustomItemForm from './CustomItemForm';
+import { addCustomItem } from '../services/custom-items';
 
 interface PrincipleSectionProps {
+  assessmentId: string;
+  zoneKey: string;
   principle: ZonePrinciple;
   itemScores: ItemScore[];
   onScoreChange: (
@@ -15,6 +19,8 @@ interface PrincipleSectionProps {
 }
 
 export default function PrincipleSection({
+  assessmentId,
+  zoneKey,
   principle,
   itemScores,
   onScoreChange,
@@ -22,6 +28,7 @@ export default function PrincipleSection({
   ratingMode = false,
 }: PrincipleSectionProps) {
   const [expanded, setExpanded] = useState(true);
+  const [adding, setAdding] = useState(false);
 
   const addressed = itemScores.filter(
     (s) => s.score !== null || s.is_na,
@@ -67,6 +74,24 @@ export default function PrincipleSection({
               onNotesChange={(notes) => onNotesChange(itemScore.id, notes)}
             />
           ))}
+          {adding ? (
+            <CustomItemForm
+              submitLabel="Add Item"
+              onSubmit={async (text) => {
+                await addCustomItem(assessmentId, zoneKey, principle.key, text);
+                setAdding(false);
+              }}
+              onCancel={() => setAdding(false)}
+            />
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="w-full py-2 rounded-lg border border-dashed border-ink/20 text-sm text-ink/50 hover:text-ink hover:border-ink/40 transition-colors"
+            >
+              + Add custom item
+            </button>
+          )}
         </div>
       )}
     </div>
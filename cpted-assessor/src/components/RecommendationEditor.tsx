@@ -1,6 +1,14 @@
 import { useState, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Recommendation, Priority, RecommendationType, ItemScore, PropertyType } from '../types';
+import {
+  RECOMMENDATION_STATUSES,
+  RECOMMENDATION_STATUS_LABELS,
+  recommendationStatus,
+  withRecommendationStatus,
+} from 'cpted-checklist';
+import type { RecommendationStatus } from 'cpted-checklist';
+import { getDeviceName } from '../services/device';
+import type { Recommendation, Priority, RecommendationType, ItemScore, PropertyType, Building } from '../types';
 import ItemPickerModal from './ItemPickerModal';
 
 interface RecommendationEditorProps {
@@ -11,10 +19,16 @@ interface RecommendationEditorProps {
   onChange: (items: Recommendation[]) => void;
   itemScores?: ItemScore[];
   propertyType?: PropertyType;
+  templateVersion?: number;
+  buildings?: Building[];
+  mainBuildingName?: string;
   // Schools: every recommendation is a priority; the only distinction is whether
   // it's flagged "High Priority". Replaces the 3-way High/Med/Low selector with a
   // single toggle (on = 'high', off = 'medium').
   highToggleOnly?: boolean;
+  // Once the report is delivered: what became of each recommendation — its
+  // status, target date and who is responsible.
+  trackStatus?: boolean;
 }
 
 const PRIORITY_OPTIONS: { value: Priority; label: string; colors: string }[] = [
@@ -37,6 +51,17 @@ const PRIORITY_OPTIONS: { value: Priority; label: string; colors: string }[] = [
 
 const UNSELECTED = 'bg-surface text-ink/50 border-ink/20 hover:border-ink/40';
 
+const STATUS_COLORS: Record<RecommendationStatus, string> = {
+  open: 'bg-navy text-white border-navy',
+  in_progress: 'bg-amber-500 text-white border-amber-500',
+  implemented: 'bg-green-600 text-white border-green-600',
+  declined: 'bg-ink/60 text-white border-ink/60',
+};
+
+function formatChangedAt(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
 export default function RecommendationEditor({
   items,
   type,
@@ -45,7 +70,11 @@ export default function RecommendationEditor({
   onChange,
   itemScores,
   propertyType,
+  templateVersion,
+  buildings,
+  mainBuildingName,
   highToggleOnly = false,
+  trackStatus = false,
 }: RecommendationEditorProps) {
   const label = type === 'recommendation' ? 'Recommendation' : 'Quick Win';
   const atMax = maxItems !== undefined && items.length >= maxItems;
@@ -210,6 +239,69 @@ export default function RecommendationEditor({
               </div>
             </div>
           )}
+
+          {trackStatus && (
+            <div className="pt-3 border-t border-ink/10 space-y-3">
+              <div className="flex items-center gap-3 flex-wrap">
+                <span className="text-xs font-bold text-ink/50 uppercase tracking-wide">
+                  Status
+                </span>
+                <div className="flex gap-1 flex-wrap">
+                  {RECOMMENDATION_STATUSES.map((status) => (
+                    <button
+                      key={status}
+                      type="button"
+                      aria-pressed={recommendationStatus(item) === status}
+                      onClick={() =>
+                        handleUpdate(index, withRecommendationStatus(item, status, getDeviceName()))
+                      }
+                      className={`px-3 h-11 rounded-lg text-sm font-semibold border-2 transition-colors ${
+                        recommendationStatus(item) === status ? STATUS_COLORS[status] : UNSELECTED
+                      }`}
+                    >
+                      {RECOMMENDATION_STATUS_LABELS[status]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="block text-xs font-bold text-ink/50 uppercase tracking-wide mb-1">
+                    Target Date
+                  </span>
+                  <input
+                    type="date"
+                    value={item.target_date ?? ''}
+                    onChange={(e) => handleUpdate(index, { target_date: e.target.value || null })}
+                    className="w-full h-11 rounded-lg border border-ink/20 px-3 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+                  />
+                </label>
+                <label className="block">
+                  <span className="block text-xs font-bold text-ink/50 uppercase tracking-wide mb-1">
+                    Responsible
+                  </span>
+                  <input
+                    type="text"
+                    value={item.responsible_party ?? ''}
+                    onChange={(e) => handleUpdate(index, { responsible_party: e.target.value })}
+                    placeholder="Homeowner, district facilities..."
+                    className="w-full h-11 rounded-lg border border-ink/20 px-3 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+                  />
+                </label>
+              </div>
+              {item.status_history && item.status_history.length > 0 && (
+                <ul className="space-y-0.5 text-xs text-ink/40">
+                  {item.status_history.map((change, i) => (
+                    <li key={`${change.changed_at}-${i}`}>
+                      {RECOMMENDATION_STATUS_LABELS[change.status]} &middot; {formatChangedAt(change.changed_at)}
+                      {change.changed_by && ` by ${change.changed_by}`}
+                      {change.note && ` — ${change.note}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       ))}
 
@@ -248,6 +340,9 @@ export default function RecommendationEditor({
           onConfirm={handlePickerConfirm}
           itemScores={itemScores}
           propertyType={propertyType}
+          templateVersion={templateVersion}
+          buildings={buildings}
+          mainBuildingName={mainBuildingName}
           type={type}
           assessmentId={assessmentId}
           existingDescriptions={existingDescriptions}
@@ -0,0 +1,20 @@
+interface RecommendationTallyProps {
+  open: number;
+  closed: number;
+}
+
+/**
+ * How a delivered report's recommendations stand: still open (or in progress)
+ * against implemented or declined. Nothing at all before there are any.
+ */
+export default function RecommendationTally({ open, closed }: RecommendationTallyProps) {
+  if (open + closed === 0) return null;
+  return (
+    <p className="flex items-center gap-2 text-xs text-ink/40 mt-1">
+      <span className={open > 0 ? 'font-semibold text-amber-600' : undefined}>{open} open</span>
+      <span>&middot;</span>
+      <span className={closed > 0 ? 'font-semibold text-green-600' : undefined}>{closed} closed</span>
+      <span>recommendation{open + closed === 1 ? '' : 's'}</span>
+    </p>
+  );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import type { Assessment, ItemScore, ZoneScore, ReviewComment } from '../types';
+import { AuthRequiredError, canReview, userRole } from '../services/auth';
+import {
+  REVIEW_STATUS_LABELS,
+  addReviewComment,
+  approveAssessment,
+  isApprovedFinal,
+  refreshReview,
+  reopenApproval,
+  returnForChanges,
+  setCommentResolved,
+  submitForReview,
+} from '../services/review';
+import { useSession } from '../hooks/useSession';
+import SignInDialog from './SignInDialog';
+
+interface ReviewPanelProps {
+  assessment: Assessment;
+  zoneScores: ZoneScore[];
+  itemScores: ItemScore[];
+  online: boolean;
+}
+
+/**
+ * Submit / return / approve, and the supervisor's comments, on the Summary
+ * page. Everything here talks to the server (services/review.ts); the panel
+ * only decides which of those calls the signed-in role is worth offering.
+ */
+export default function ReviewPanel({
+  assessment,
+  zoneScores,
+  itemScores,
+  online,
+}: ReviewPanelProps) {
+  const session = useSession();
+  const reviewer = canReview(session);
+  const role = userRole(session);
+  const [busy, setBusy] = useState(false);
+  const [signInReason, setSignInReason] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [returning, setReturning] = useState(false);
+  const [returnNote, setReturnNote] = useState('');
+  const [commentBody, setCommentBody] = useState('');
+  const [commentZone, setCommentZone] = useState('');
+  const [commentItem, setCommentItem] = useState('');
+
+  const id = assessment.id;
+  const status = assessment.status;
+  const comments = assessment.review_comments ?? [];
+
+  // Pick up a supervisor's decision on open. Quietly: offline or signed out
+  // simply leaves the last copy showing.
+  useEffect(() => {
+    if (!online || !session || assessment.synced_revision == null) return;
+    refreshReview(id).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, online, session?.token]);
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof AuthRequiredError) setSignInReason(err.message);
+      else setError(err instanceof Error ? err.message : 'Review action failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function contextLabel(c: ReviewComment): string {
+    if (!c.zone_key) return 'Whole assessment';
+    const zoneName = zoneScores.find((z) => z.zone_key === c.zone_key)?.zone_name ?? c.zone_key;
+    if (!c.item_score_id) return zoneName;
+    const item = itemScores.find((i) => i.id === c.item_score_id);
+    return item ? `${zoneName} · ${item.item_text}` : zoneName;
+  }
+
+  const canSubmit =
+    role !== null &&
+    role !== 'analyst' &&
+    (status === 'completed' || status === 'synced' || status === 'returned');
+  const editedSinceApproval = status === 'approved' && !isApprovedFinal(assessment);
+  const zoneItems = commentZone ? itemScores.filter((i) => i.zone_key === commentZone) : [];
+
+  let summary: string;
+  if (status === 'approved') {
+    summary = `Approved by ${assessment.approved_by ?? 'a supervisor'}${
+      assessment.approved_at ? ` on ${new Date(assessment.approved_at).toLocaleDateString()}` : ''
+    }${assessment.approved_revision != null ? ` (v${assessment.approved_revision})` : ''}`;
+  } else if (status === 'submitted') {
+    summary = `Submitted${assessment.submitted_by ? ` by ${assessment.submitted_by}` : ''}${
+      assessment.submitted_at ? ` on ${new Date(assessment.submitted_at).toLocaleDateString()}` : ''
+    } — waiting for a supervisor`;
+  } else if (status === 'returned') {
+    summary = 'Returned for changes — see the comments below, sync, then submit again';
+  } else {
+    summary = 'Not submitted. The report prints as DRAFT until a supervisor approves it.';
+  }
+
+  return (
+    <div className="bg-surface rounded-xl border border-ink/10 shadow-sm p-6 -mt-4 mb-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide">
+            Supervisor Review
+            {REVIEW_STATUS_LABELS[status] && (
+              <span className="ml-2 normal-case text-navy">· {REVIEW_STATUS_LABELS[status]}</span>
+            )}
+          </h2>
+          <p className="text-xs text-ink/50 mt-1">{summary}</p>
+          {editedSinceApproval && (
+            <p className="text-xs text-amber-700 mt-1">
+              Edited since it was approved. The report prints as DRAFT until it is synced and
+              approved again.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          {canSubmit && (
+            <button
+              type="button"
+              disabled={busy || !online}
+              onClick={() => run(() => submitForReview(id))}
+              className="px-4 py-2.5 rounded-xl text-sm font-semibold bg-navy text-white hover:bg-navy/90 active:scale-95 transition-all disabled:opacity-40"
+            >
+              Submit for Review
+            </button>
+          )}
+          {reviewer && status === 'submitted' && (
+            <>
+              <button
+                type="button"
+                disabled={busy || !online}
+                onClick={() => setReturning(true)}
+                className="px-4 py-2.5 rounded-xl text-sm font-semibold border border-ink/20 text-ink hover:bg-blue-pale active:scale-95 transition-all disabled:opacity-40"
+              >
+                Return
+              </button>
+              <button
+                type="button"
+                disabled={busy || !online}
+                onClick={() => run(() => approveAssessment(id))}
+                className="px-4 py-2.5 rounded-xl text-sm font-semibold bg-green-600 text-white hover:bg-green-700 active:scale-95 transition-all disabled:opacity-40"
+              >
+                Approve
+              </button>
+            </>
+          )}
+          {reviewer && status === 'approved' && (
+            <button
+              type="button"
+              disabled={busy || !online}
+              onClick={() => run(() => reopenApproval(id))}
+              className="px-4 py-2.5 rounded-xl text-sm font-semibold border border-ink/20 text-ink hover:bg-blue-pale active:scale-95 transition-all disabled:opacity-40"
+            >
+              Reopen Review
+            </button>
+          )}
+        </div>
+      </div>
+
+      {returning && (
+        <form
+          className="mt-4 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const note = returnNote.trim();
+            if (!note) return;
+            run(async () => {
+              await returnForChanges(id, note);
+              setReturning(false);
+              setReturnNote('');
+            });
+          }}
+        >
+          <textarea
+            value={returnNote}
+            onChange={(e) => setReturnNote(e.target.value)}
+            placeholder="What needs changing before this can be approved?"
+            rows={3}
+            className="w-full px-4 py-3 rounded-xl border border-ink/20 bg-surface text-ink text-sm"
+          />
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={() => setReturning(false)}
+              className="px-4 py-2 rounded-xl text-sm font-semibold border border-ink/20 text-ink hover:bg-blue-pale"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !returnNote.trim()}
+              className="px-4 py-2 rounded-xl text-sm font-semibold bg-navy text-white hover:bg-navy/90 disabled:opacity-40"
+            >
+              Return to Assessor
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">
+          {error}
+        </div>
+      )}
+
+      {comments.length > 0 && (
+        <ul className="mt-4 divide-y divide-ink/5 border-t border-ink/10">
+          {comments.map((c) => (
+            <li key={c.id} className={`py-3 ${c.resolved_at ? 'opacity-50' : ''}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-xs font-semibold text-ink/50">{contextLabel(c)}</p>
+                  <p className="text-sm text-ink whitespace-pre-line mt-0.5">{c.body}</p>
+                  <p className="text-xs text-ink/40 mt-0.5">
+                    {c.author_name} · {new Date(c.created_at).toLocaleDateString()}
+                    {c.resolved_at && ` · addressed${c.resolved_by ? ` by ${c.resolved_by}` : ''}`}
+                  </p>
+                </div>
+                {role !== null && role !== 'analyst' && (
+                  <button
+                    type="button"
+                    disabled={busy || !online}
+                    onClick={() => run(() => setCommentResolved(id, c.id, !c.resolved_at))}
+                    className="text-xs font-semibold text-blue-medium hover:underline flex-shrink-0 disabled:opacity-40"
+                  >
+                    {c.resolved_at ? 'Reopen' : 'Mark addressed'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reviewer && (
+        <form
+          className="mt-4 pt-4 border-t border-ink/10 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const body = commentBody.trim();
+            if (!body) return;
+            run(async () => {
+              await addReviewComment(id, {
+                body,
+                zone_key: commentZone || null,
+                item_score_id: commentItem || null,
+              });
+              setCommentBody('');
+            });
+          }}
+        >
+          <div className="flex gap-2">
+            <select
+              value={commentZone}
+              onChange={(e) => {
+                setCommentZone(e.target.value);
+                setCommentItem('');
+              }}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-ink/20 bg-surface text-ink text-sm"
+              aria-label="Comment on"
+            >
+              <option value="">Whole assessment</option>
+              {zoneScores.map((z) => (
+                <option key={z.zone_key} value={z.zone_key}>
+                  {z.zone_name}
+                </option>
+              ))}
+            </select>
+            {commentZone && (
+              <select
+                value={commentItem}
+                onChange={(e) => setCommentItem(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-ink/20 bg-surface text-ink text-sm"
+                aria-label="Item"
+              >
+                <option value="">Whole zone</option>
+                {zoneItems.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.item_text}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <textarea
+            value={commentBody}
+            onChange={(e) => setCommentBody(e.target.value)}
+            placeholder="Add a review comment"
+            rows={2}
+            className="w-full px-4 py-3 rounded-xl border border-ink/20 bg-surface text-ink text-sm"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={busy || !online || !commentBody.trim()}
+              className="px-4 py-2 rounded-xl text-sm font-semibold bg-blue-medium text-white hover:bg-blue-medium/80 disabled:opacity-40"
+            >
+              Add Comment
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Not retried on sign-in, unlike a sync: approving is a decision, and
+          the supervisor should see the fresh state before making it again. */}
+      {signInReason !== null && (
+        <SignInDialog
+          reason={signInReason}
+          onSignedIn={() => setSignInReason(null)}
+          onCancel={() => setSignInReason(null)}
+        />
+      )}
+    </div>
+  );
+}
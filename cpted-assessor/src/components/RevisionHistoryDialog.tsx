@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { AuthRequiredError } from '../services/auth';
+import {
+  fetchRevisionHistory,
+  restoreServerRevision,
+  type ServerAssessmentSummary,
+  type ServerRevision,
+} from '../services/sync';
+
+interface RevisionHistoryDialogProps {
+  assessment: ServerAssessmentSummary;
+  /** The server wrote a restore; the caller should refresh its server list. */
+  onRestored: () => void;
+  onAuthRequired: () => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ServerRevision['source'], string> = {
+  sync: 'Synced',
+  edit: 'Edited on server',
+  restore: 'Restored',
+  baseline: 'Earliest kept copy',
+  migration: 'Checklist updated',
+};
+
+function formatInstant(iso: string | null): string | null {
+  if (!iso) return null;
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Every state the server has accepted for one assessment, with a way back to
+ * any of them. Same shell as DeviceNameDialog; the restore confirmation is
+ * inline on the row rather than a second dialog stacked on this one.
+ */
+export default function RevisionHistoryDialog({
+  assessment,
+  onRestored,
+  onAuthRequired,
+  onClose,
+}: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<ServerRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRevisionHistory(assessment.id)
+      .then((list) => {
+        if (!cancelled) setRevisions(list);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        if (err instanceof AuthRequiredError) onAuthRequired();
+        else setError(err instanceof Error ? err.message : 'Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [assessment.id, onAuthRequired]);
+
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !restoring) onClose();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose, restoring]);
+
+  async function handleRestore(entry: ServerRevision) {
+    setRestoring(true);
+    setError(null);
+    try {
+      await restoreServerRevision(assessment.id, entry.id);
+      onRestored();
+    } catch (err) {
+      if (err instanceof AuthRequiredError) onAuthRequired();
+      else setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoring(false);
+      setConfirmId(null);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="revision-history-title"
+    >
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={restoring ? undefined : onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative bg-surface rounded-2xl shadow-xl max-w-lg w-full p-6">
+        <h3 id="revision-history-title" className="text-lg font-bold text-ink mb-1">
+          Server History
+        </h3>
+        <p className="text-sm text-ink/70 mb-4">
+          {assessment.address}. Restoring saves the old copy as a new version on the server — the
+          current one stays here and can be restored in turn.
+        </p>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        {revisions === null && !error ? (
+          <div className="flex justify-center py-8">
+            <div className="loading-spinner" />
+          </div>
+        ) : revisions && revisions.length === 0 ? (
+          <p className="text-sm text-ink/40 py-6 text-center">
+            No history yet. It starts with the next sync.
+          </p>
+        ) : (
+          <ul className="max-h-[60vh] overflow-y-auto divide-y divide-ink/5 -mx-2">
+            {(revisions ?? []).map((entry, index) => {
+              const when = formatInstant(entry.last_edited_at) ?? formatInstant(entry.created_at);
+              return (
+                <li key={entry.id} className="px-2 py-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-ink">
+                        v{entry.revision}
+                        <span className="font-normal text-ink/50"> · {SOURCE_LABELS[entry.source]}</span>
+                        {index === 0 && (
+                          <span className="ml-2 text-xs font-bold uppercase tracking-wide text-green-700">
+                            Current
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-ink/50 mt-0.5">
+                        {entry.last_edited_by || 'unnamed iPad'}
+                        {when && ` · ${when}`}
+                        {entry.pushed_by && ` · sent by ${entry.pushed_by}`}
+                      </p>
+                      <p className="text-xs text-ink/40 mt-0.5">
+                        {entry.scored_items} item{entry.scored_items === 1 ? '' : 's'} scored
+                        {entry.overall_score !== null && ` · ${entry.overall_score.toFixed(1)} / 5`}
+                      </p>
+                    </div>
+                    {index > 0 &&
+                      (confirmId === entry.id ? (
+                        <div className="flex gap-2 flex-shrink-0">
+                          <button
+                            type="button"
+                            disabled={restoring}
+                            onClick={() => setConfirmId(null)}
+                            className="px-3 py-1.5 rounded-lg text-xs font-semibold border border-ink/20 text-ink hover:bg-blue-pale"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            disabled={restoring}
+                            onClick={() => handleRestore(entry)}
+                            className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-red-600 text-white hover:bg-red-700 disabled:opacity-40"
+                          >
+                            {restoring ? 'Restoring...' : `Restore v${entry.revision}`}
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={restoring}
+                          onClick={() => setConfirmId(entry.id)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-semibold text-blue-600 bg-blue-50 hover:bg-blue-100 flex-shrink-0 disabled:opacity-40"
+                        >
+                          Restore
+                        </button>
+                      ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex mt-4">
+          <button
+            type="button"
+            disabled={restoring}
+            onClick={onClose}
+            className="flex-1 px-4 py-3 rounded-xl font-semibold text-sm border border-ink/20 text-ink hover:bg-blue-pale active:scale-95 transition-all"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
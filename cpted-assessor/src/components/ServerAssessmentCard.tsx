@@ -1,7 +1,9 @@
-import { getScoreColor, getScoreLabel } from '../services/scoring';
+import { formatCompliance, getScoreLabel } from 'cpted-checklist';
+import { getComplianceColor, getScoreColor } from '../services/scoring';
 import { compareRevisions, getSyncStateBadge, revisionLabel, editedByLabel } from '../services/revision';
 import type { LocalRevision } from '../services/revision';
 import type { ServerAssessmentSummary, PullProgress } from '../services/sync';
+import RecommendationTally from './RecommendationTally';
 
 interface ServerAssessmentCardProps {
   assessment: ServerAssessmentSummary;
@@ -12,6 +14,8 @@ interface ServerAssessmentCardProps {
   pullProgress: PullProgress | null;
   disabled: boolean;
   onPull: (id: string) => void;
+  /** Open the server's revision history for this assessment. */
+  onHistory: (assessment: ServerAssessmentSummary) => void;
 }
 
 function formatDate(iso: string): string {
@@ -40,6 +44,7 @@ export default function ServerAssessmentCard({
   pullProgress,
   disabled,
   onPull,
+  onHistory,
 }: ServerAssessmentCardProps) {
   // Only meaningful once we hold a local copy to compare against.
   const state = isLocal ? compareRevisions(local, assessment) : null;
@@ -73,6 +78,10 @@ export default function ServerAssessmentCard({
                   ` · ${editedByLabel(assessment.last_edited_by, assessment.last_edited_at, formatDate)}`}
               </p>
             )}
+            <RecommendationTally
+              open={assessment.recommendations_open ?? 0}
+              closed={assessment.recommendations_closed ?? 0}
+            />
           </div>
 
           {/* Right: Score */}
@@ -95,6 +104,13 @@ export default function ServerAssessmentCard({
                   {getScoreLabel(assessment.overall_score)}
                 </p>
               </div>
+            ) : assessment.compliance_pct != null ? (
+              <div className="text-right">
+                <span className={`text-2xl font-bold ${getComplianceColor(assessment.compliance_pct)}`}>
+                  {formatCompliance(assessment.compliance_pct)}
+                </span>
+                <p className="text-xs font-medium text-ink/50">met</p>
+              </div>
             ) : (
               <span className="text-sm text-ink/25">No score</span>
             )}
@@ -125,7 +141,16 @@ export default function ServerAssessmentCard({
       </div>
 
       {/* Footer with action button */}
-      <div className="border-t border-ink/5 px-5 py-2.5 flex items-center justify-end">
+      <div className="border-t border-ink/5 px-5 py-2.5 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onHistory(assessment)}
+          disabled={pulling}
+          className="text-sm font-semibold text-ink/50 hover:text-ink px-2 py-1.5 rounded-lg transition-colors disabled:opacity-40"
+          aria-label={`Server history for ${assessment.address}`}
+        >
+          History
+        </button>
         <button
           type="button"
           onClick={() => onPull(assessment.id)}
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { getPropertyTypeLabel } from 'cpted-checklist';
+import type { ServerListFilters as Filters } from '../services/sync';
+import type { AssessmentStatus, AssessmentType, PropertyType } from '../types';
+
+interface ServerListFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+const PROPERTY_TYPES: PropertyType[] = [
+  'single_family_residential',
+  'townhome',
+  'places_of_worship',
+  'christian_church',
+  'elementary_school',
+  'middle_school',
+  'high_school',
+  'combined_school',
+  'commercial_office',
+];
+
+const STATUSES: { value: AssessmentStatus; label: string }[] = [
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'synced', label: 'Synced' },
+  { value: 'submitted', label: 'Submitted' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'approved', label: 'Approved' },
+];
+
+const SORTS: { value: string; label: string }[] = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'updated_at:desc', label: 'Recently synced' },
+  { value: 'date_of_assessment:desc', label: 'Assessment date' },
+  { value: 'address:asc', label: 'Address A–Z' },
+  { value: 'overall_score:asc', label: 'Lowest score' },
+  { value: 'overall_score:desc', label: 'Highest score' },
+];
+
+const inputClass =
+  'w-full rounded-lg border border-ink/20 px-3 py-2 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30';
+const labelClass = 'block text-[11px] font-semibold uppercase tracking-wide text-ink/50 mb-1';
+
+/** Number field value → filter value; blank or unparseable clears it. */
+function toNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Search box and filters for the Server tab. The search box is always shown;
+ * the rest fold away behind "Filters", which says how many are set so a
+ * narrowed list is never mistaken for the whole department's.
+ */
+export default function ServerListFilters({ filters, onChange }: ServerListFiltersProps) {
+  const [open, setOpen] = useState(false);
+  const set = (patch: Partial<Filters>) => onChange({ ...filters, ...patch });
+
+  const active = [
+    filters.status,
+    filters.property_type,
+    filters.assessment_type,
+    filters.assessor,
+    filters.from,
+    filters.to,
+    filters.min_score,
+    filters.max_score,
+  ].filter((v) => v !== undefined && v !== '').length;
+  const sortValue = `${filters.sort ?? 'created_at'}:${filters.order ?? 'desc'}`;
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filters.q ?? ''}
+          onChange={(e) => set({ q: e.target.value || undefined })}
+          placeholder="Search address, city or homeowner"
+          className={inputClass}
+          aria-label="Search server assessments"
+        />
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className={`px-3 py-2 rounded-lg text-sm font-semibold whitespace-nowrap border transition-colors ${
+            open || active > 0
+              ? 'bg-navy text-white border-navy'
+              : 'bg-surface text-ink/70 border-ink/20 hover:bg-blue-pale'
+          }`}
+          aria-expanded={open}
+        >
+          Filters{active > 0 ? ` (${active})` : ''}
+        </button>
+      </div>
+
+      {open && (
+        <div className="bg-surface rounded-xl border border-ink/10 p-4 grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass}>Property type</label>
+            <select
+              value={filters.property_type ?? ''}
+              onChange={(e) => set({ property_type: (e.target.value || undefined) as PropertyType | undefined })}
+              className={inputClass}
+            >
+              <option value="">Any</option>
+              {PROPERTY_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {getPropertyTypeLabel(type)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Assessment type</label>
+            <select
+              value={filters.assessment_type ?? ''}
+              onChange={(e) =>
+                set({ assessment_type: (e.target.value || undefined) as AssessmentType | undefined })
+              }
+              className={inputClass}
+            >
+              <option value="">Any</option>
+              <option value="initial">Initial</option>
+              <option value="follow_up">Follow-Up</option>
+              <option value="re_assessment">Re-Assessment</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Status</label>
+            <select
+              value={filters.status ?? ''}
+              onChange={(e) => set({ status: (e.target.value || undefined) as AssessmentStatus | undefined })}
+              className={inputClass}
+            >
+              <option value="">Any</option>
+              {STATUSES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Assessor</label>
+            <input
+              type="text"
+              value={filters.assessor ?? ''}
+              onChange={(e) => set({ assessor: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>From</label>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => set({ from: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>To</label>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => set({ to: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Min score</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              value={filters.min_score ?? ''}
+              onChange={(e) => set({ min_score: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Max score</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              value={filters.max_score ?? ''}
+              onChange={(e) => set({ max_score: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Sort</label>
+            <select
+              value={sortValue}
+              onChange={(e) => {
+                const [sort, order] = e.target.value.split(':') as [Filters['sort'], Filters['order']];
+                set({ sort, order });
+              }}
+              className={inputClass}
+            >
+              {SORTS.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {active > 0 && (
+            <div className="col-span-full">
+              <button
+                type="button"
+                onClick={() => onChange({ q: filters.q, sort: filters.sort, order: filters.order })}
+                className="text-sm font-semibold text-blue-medium hover:underline"
+              >
+                Clear filters
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
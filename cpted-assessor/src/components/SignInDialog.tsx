@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import { signIn, type Session } from '../services/auth';
+
+interface SignInDialogProps {
+  /** Why we are asking — e.g. the expired-session message from a failed sync. */
+  reason?: string | null;
+  onSignedIn: (session: Session) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Assessor sign-in. A sibling of DeviceNameDialog (same backdrop, shell and
+ * Escape handling), with two inputs and a request in flight.
+ */
+export default function SignInDialog({ reason, onSignedIn, onCancel }: SignInDialogProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape') onCancel();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onCancel]);
+
+  const canSubmit = username.trim() !== '' && password !== '' && !busy;
+
+  async function handleSubmit() {
+    if (!canSubmit) return;
+    setBusy(true);
+    setError(null);
+    try {
+      onSignedIn(await signIn(username, password));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setPassword('');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="sign-in-title"
+    >
+      <div className="absolute inset-0 bg-black/40" onClick={onCancel} aria-hidden="true" />
+
+      <form
+        className="relative bg-surface rounded-2xl shadow-xl max-w-md w-full p-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSubmit();
+        }}
+      >
+        <h3 id="sign-in-title" className="text-lg font-bold text-ink mb-2">
+          Sign In
+        </h3>
+        <p className="text-sm text-ink/70 mb-4">
+          {reason ??
+            'Sign in with your agency account to sync. Work on this iPad is kept until you do.'}
+        </p>
+
+        <label className="block text-xs font-semibold text-ink/60 mb-1" htmlFor="sign-in-username">
+          Username
+        </label>
+        <input
+          id="sign-in-username"
+          ref={inputRef}
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoCapitalize="none"
+          autoCorrect="off"
+          autoComplete="username"
+          className="w-full px-4 py-3 rounded-xl border border-ink/20 bg-surface text-ink text-base mb-3"
+        />
+
+        <label className="block text-xs font-semibold text-ink/60 mb-1" htmlFor="sign-in-password">
+          Password
+        </label>
+        <input
+          id="sign-in-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="w-full px-4 py-3 rounded-xl border border-ink/20 bg-surface text-ink text-base mb-2"
+        />
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        <div className="flex gap-3 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 rounded-xl font-semibold text-sm border border-ink/20 text-ink hover:bg-blue-pale active:scale-95 transition-all"
+          >
+            Not Now
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="flex-1 px-4 py-3 rounded-xl font-semibold text-sm bg-navy text-white hover:bg-navy/90 active:scale-95 transition-all disabled:opacity-40"
+          >
+            {busy ? 'Signing in...' : 'Sign In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
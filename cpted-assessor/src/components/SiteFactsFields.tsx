@@ -0,0 +1,57 @@
+import { getSiteFactQuestions } from 'cpted-checklist';
+import type { PropertyType, SiteFacts } from '../types';
+
+interface SiteFactsFieldsProps {
+  propertyType: PropertyType;
+  value: SiteFacts;
+  onChange: (facts: SiteFacts) => void;
+}
+
+/**
+ * The site-fact questions for a property type, each answered Yes or No.
+ * Tapping the chosen answer again clears it: an unanswered question rules
+ * nothing out, which is the honest state when the assessor has not seen yet.
+ */
+export default function SiteFactsFields({ propertyType, value, onChange }: SiteFactsFieldsProps) {
+  const questions = getSiteFactQuestions(propertyType);
+  if (questions.length === 0) return null;
+
+  function answer(key: keyof SiteFacts, next: boolean) {
+    const facts = { ...value };
+    if (facts[key] === next) delete facts[key];
+    else facts[key] = next;
+    onChange(facts);
+  }
+
+  return (
+    <div className="space-y-2">
+      {questions.map((q) => (
+        <div key={q.key} className="flex items-center gap-3">
+          <span className="flex-1 text-sm text-ink">{q.question}</span>
+          {[true, false].map((option) => {
+            const selected = value[q.key] === option;
+            return (
+              <button
+                key={String(option)}
+                type="button"
+                onClick={() => answer(q.key, option)}
+                aria-pressed={selected}
+                className={`w-16 py-2 rounded-lg text-sm font-semibold border transition-colors ${
+                  selected
+                    ? 'bg-navy text-white border-navy'
+                    : 'bg-surface text-ink/70 border-ink/20 hover:border-ink/40'
+                }`}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            );
+          })}
+        </div>
+      ))}
+      <p className="text-xs text-ink/50">
+        Checklist items a “No” rules out are marked N/A with the reason. Items you have already
+        scored are left as they are.
+      </p>
+    </div>
+  );
+}
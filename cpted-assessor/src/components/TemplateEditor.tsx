@@ -0,0 +1,583 @@
+import { useState } from 'react';
+import {
+  COMPLETION_RULE_KINDS,
+  COMPLETION_RULE_LABELS,
+  getBundledScoreWeights,
+  getTemplateDocument,
+  getTemplateLabel,
+  scoreWeightsOf,
+  withScoreWeights,
+} from 'cpted-checklist';
+import type {
+  AuthoredItem,
+  AuthoredZone,
+  CompletionRule,
+  CompletionRuleKind,
+  SchoolBand,
+  TemplateDocument,
+} from 'cpted-checklist';
+import {
+  TemplateRequestError,
+  discardDraft,
+  publishDraft,
+  saveDraft,
+} from '../services/templates';
+import type { DraftState } from '../services/templates';
+import ConfirmDialog from './ConfirmDialog';
+
+interface Props {
+  initial: DraftState;
+  onClose: () => void;
+  onPublished: (version: number) => void;
+}
+
+const SCHOOL_BANDS: { band: SchoolBand; label: string }[] = [
+  { band: 'elementary', label: 'Elementary' },
+  { band: 'middle', label: 'Middle' },
+  { band: 'high', label: 'High' },
+  { band: 'combined', label: 'Combined' },
+];
+
+const FIELD =
+  'w-full rounded-lg border border-ink/20 px-3 py-2 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30';
+
+const WEIGHT_FIELD = 'w-20 rounded border border-ink/20 px-2 py-1 text-xs bg-surface';
+
+const SMALL_BUTTON =
+  'px-2 py-1 rounded-md text-xs font-medium border border-ink/15 text-ink/70 hover:bg-blue-pale disabled:opacity-40';
+
+function mapAt<T>(list: T[], index: number, fn: (value: T) => T): T[] {
+  return list.map((value, i) => (i === index ? fn(value) : value));
+}
+
+/** A key from the first words of an item's wording — editable until published. */
+function keyFromText(text: string): string {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).slice(0, 5).join('_');
+}
+
+function emptyItem(): AuthoredItem {
+  return {
+    key: '',
+    text: '',
+    guidance: { standard: '', improvement: '' },
+    phase: 'exterior',
+    night: false,
+    hint: null,
+  };
+}
+
+/**
+ * Edit one template's draft: its completion rules, zone and principle names
+ * and weights, and every item with its guidance, phase, night tagging, hint
+ * and critical flag. One zone is shown at a time — the
+ * biggest templates run to a few hundred items, and rendering every field of
+ * every one would make typing in any of them crawl on an iPad.
+ *
+ * Saving stores the draft as it is, finished or not; the server answers with
+ * what still stops it being published, which is listed at the top. An item's
+ * key is fixed once the item has been published, and can be edited only on an
+ * item this draft adds.
+ */
+export default function TemplateEditor({ initial, onClose, onPublished }: Props) {
+  const templateId = initial.draft.template_id;
+  // A draft started before weighting and completion rules could be authored
+  // takes the ones the template is scored and checked by now.
+  const [start] = useState<TemplateDocument>(() => {
+    const current = getTemplateDocument(templateId);
+    let document = initial.draft.document;
+    if (!document.principle_weights) {
+      document = withScoreWeights(document, scoreWeightsOf(current) ?? getBundledScoreWeights(templateId));
+    }
+    return document.completion_rules ? document : { ...document, completion_rules: current.completion_rules };
+  });
+  const [zones, setZones] = useState<AuthoredZone[]>(start.zones);
+  const [principleWeights, setPrincipleWeights] = useState<Record<string, number>>(start.principle_weights ?? {});
+  const [completionRules, setCompletionRules] = useState<CompletionRule[]>(start.completion_rules ?? []);
+  const [summary, setSummary] = useState(initial.draft.summary);
+  const [errors, setErrors] = useState<string[]>(initial.errors);
+  const [zoneIndex, setZoneIndex] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  // Keys already published can never change; only this draft's new items' can.
+  const [publishedKeys] = useState(
+    () =>
+      new Set(
+        getTemplateDocument(templateId).zones.flatMap((z) =>
+          z.principles.flatMap((p) => p.items.map((i) => i.key)),
+        ),
+      ),
+  );
+
+  // School ratings have no score to weight.
+  const weighted = templateId !== 'school';
+  const zone = zones[zoneIndex];
+  const destinations = zones.flatMap((z, zi) =>
+    z.principles.map((p, pi) => ({ zi, pi, label: `${z.name} › ${p.name}` })),
+  );
+
+  function change(fn: (zones: AuthoredZone[]) => AuthoredZone[]) {
+    setZones(fn);
+    setDirty(true);
+    setMessage(null);
+  }
+
+  function changePrincipleWeight(key: string, weight: number) {
+    setPrincipleWeights((all) => ({ ...all, [key]: weight }));
+    setDirty(true);
+    setMessage(null);
+  }
+
+  /** `severity` null drops the rule: the template doesn't check it. */
+  function changeCompletionRule(kind: CompletionRuleKind, severity: CompletionRule['severity'] | null) {
+    setCompletionRules((all) => {
+      const others = all.filter((rule) => rule.kind !== kind);
+      const next = severity ? [...others, { kind, severity }] : others;
+      return COMPLETION_RULE_KINDS.flatMap((k) => next.filter((rule) => rule.kind === k));
+    });
+    setDirty(true);
+    setMessage(null);
+  }
+
+  function changeItems(zi: number, pi: number, fn: (items: AuthoredItem[]) => AuthoredItem[]) {
+    change((all) =>
+      mapAt(all, zi, (z) => ({
+        ...z,
+        principles: mapAt(z.principles, pi, (p) => ({ ...p, items: fn(p.items) })),
+      })),
+    );
+  }
+
+  function changeItem(zi: number, pi: number, ii: number, patch: Partial<AuthoredItem>) {
+    changeItems(zi, pi, (items) => mapAt(items, ii, (item) => ({ ...item, ...patch })));
+  }
+
+  function moveItem(zi: number, pi: number, ii: number, to: { zi: number; pi: number }) {
+    const item = zones[zi].principles[pi].items[ii];
+    change((all) => {
+      const removed = mapAt(all, zi, (z) => ({
+        ...z,
+        principles: mapAt(z.principles, pi, (p) => ({
+          ...p,
+          items: p.items.filter((_, i) => i !== ii),
+        })),
+      }));
+      return mapAt(removed, to.zi, (z) => ({
+        ...z,
+        principles: mapAt(z.principles, to.pi, (p) => ({ ...p, items: [...p.items, item] })),
+      }));
+    });
+  }
+
+  async function save(): Promise<boolean> {
+    setWorking(true);
+    setMessage(null);
+    try {
+      const document: TemplateDocument = {
+        zones,
+        principle_weights: principleWeights,
+        completion_rules: completionRules,
+      };
+      const state = await saveDraft(templateId, document, summary);
+      setErrors(state.errors);
+      setDirty(false);
+      setMessage('Draft saved.');
+      return true;
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Save failed');
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function publish() {
+    if (dirty && !(await save())) return;
+    setWorking(true);
+    setMessage(null);
+    try {
+      const { version } = await publishDraft(templateId, summary);
+      onPublished(version);
+    } catch (err) {
+      if (err instanceof TemplateRequestError && err.errors.length > 0) setErrors(err.errors);
+      setMessage(err instanceof Error ? err.message : 'Publish failed');
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function discard() {
+    setConfirmDiscard(false);
+    setWorking(true);
+    try {
+      await discardDraft(templateId);
+      onClose();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Discard failed');
+      setWorking(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-surface rounded-xl border border-ink/10 p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="font-bold text-ink">{getTemplateLabel(templateId)}</h2>
+            <p className="text-xs text-ink/50">
+              Draft of version {initial.draft.base_version + 1}
+              {initial.draft.created_by ? ` · started by ${initial.draft.created_by}` : ''}
+              {dirty ? ' · unsaved changes' : ''}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} disabled={working} className={SMALL_BUTTON}>
+            Close
+          </button>
+        </div>
+
+        <label className="block">
+          <span className="text-xs font-semibold text-ink/60">What this version changes</span>
+          <input
+            value={summary}
+            onChange={(e) => {
+              setSummary(e.target.value);
+              setDirty(true);
+            }}
+            placeholder="Reword the MDF/IDF items; add the 2'/6' landscaping item to Z3"
+            className={FIELD}
+          />
+        </label>
+
+        {errors.length > 0 && (
+          <details className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800">
+            <summary className="cursor-pointer font-semibold">
+              {errors.length} {errors.length === 1 ? 'thing stops' : 'things stop'} this draft being published
+            </summary>
+            <ul className="mt-2 space-y-1 list-disc pl-4">
+              {errors.map((error, i) => (
+                <li key={i}>{error}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+        {message && <p className="text-sm text-ink/70">{message}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={save}
+            disabled={working || !dirty}
+            className="px-4 py-2 rounded-lg text-sm font-semibold border border-ink/20 text-ink hover:bg-blue-pale disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            type="button"
+            onClick={publish}
+            disabled={working || !summary.trim() || (!dirty && errors.length > 0)}
+            className="px-4 py-2 rounded-lg text-sm font-semibold bg-navy hover:bg-navy-light text-white disabled:opacity-50"
+          >
+            Publish
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmDiscard(true)}
+            disabled={working}
+            className="px-4 py-2 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Discard Draft
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-surface rounded-xl border border-ink/10 p-4 space-y-2">
+        <h3 className="text-xs font-semibold text-ink/60">Before a report can be marked complete</h3>
+        {COMPLETION_RULE_KINDS.map((kind) => {
+          const rule = completionRules.find((r) => r.kind === kind);
+          return (
+            <label key={kind} className="flex items-center justify-between gap-3 text-sm text-ink/80">
+              {COMPLETION_RULE_LABELS[kind]}
+              <select
+                value={rule?.severity ?? ''}
+                onChange={(e) =>
+                  changeCompletionRule(kind, (e.target.value || null) as CompletionRule['severity'] | null)
+                }
+                className="rounded border border-ink/20 px-2 py-1 text-xs bg-surface"
+              >
+                <option value="">Not checked</option>
+                <option value="warn">Warn</option>
+                <option value="block">Required</option>
+              </select>
+            </label>
+          );
+        })}
+      </div>
+
+      <select
+        value={zoneIndex}
+        onChange={(e) => setZoneIndex(Number(e.target.value))}
+        className={FIELD}
+        aria-label="Zone"
+      >
+        {zones.map((z, zi) => (
+          <option key={z.key} value={zi}>
+            {z.order}. {z.name}
+          </option>
+        ))}
+      </select>
+
+      <div className="bg-surface rounded-xl border border-ink/10 p-4 space-y-3">
+        <label className="block">
+          <span className="text-xs font-semibold text-ink/60">Zone name</span>
+          <input
+            value={zone.name}
+            onChange={(e) => change((all) => mapAt(all, zoneIndex, (z) => ({ ...z, name: e.target.value })))}
+            className={FIELD}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-semibold text-ink/60">Description</span>
+          <textarea
+            value={zone.description}
+            rows={3}
+            onChange={(e) =>
+              change((all) => mapAt(all, zoneIndex, (z) => ({ ...z, description: e.target.value })))
+            }
+            className={FIELD}
+          />
+        </label>
+        {weighted && (
+          <label className="flex items-center gap-2 text-xs text-ink/60">
+            <span className="font-semibold">Weight in the overall score</span>
+            <input
+              type="number"
+              min={0.25}
+              step={0.25}
+              value={zone.weight ?? 1}
+              onChange={(e) =>
+                change((all) => mapAt(all, zoneIndex, (z) => ({ ...z, weight: Number(e.target.value) })))
+              }
+              className={WEIGHT_FIELD}
+            />
+          </label>
+        )}
+      </div>
+
+      {zone.principles.map((principle, pi) => (
+        <section key={principle.key} className="space-y-3">
+          <div className="flex items-center gap-3">
+            <input
+              value={principle.name}
+              onChange={(e) =>
+                change((all) =>
+                  mapAt(all, zoneIndex, (z) => ({
+                    ...z,
+                    principles: mapAt(z.principles, pi, (p) => ({ ...p, name: e.target.value })),
+                  })),
+                )
+              }
+              className="flex-1 bg-transparent font-bold text-navy text-sm uppercase tracking-wide outline-none border-b border-transparent focus:border-blue-medium"
+              aria-label="Principle name"
+            />
+            {weighted && (
+              <label className="flex items-center gap-1 text-xs text-ink/60" title="The same in every zone">
+                Weight
+                <input
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={principleWeights[principle.key] ?? 1}
+                  onChange={(e) => changePrincipleWeight(principle.key, Number(e.target.value))}
+                  className={WEIGHT_FIELD}
+                />
+              </label>
+            )}
+          </div>
+
+          {principle.items.map((item, ii) => {
+            const isNew = !publishedKeys.has(item.key);
+            return (
+              <div key={ii} className="bg-surface rounded-xl border border-ink/10 p-4 space-y-2">
+                <textarea
+                  value={item.text}
+                  rows={2}
+                  onChange={(e) => changeItem(zoneIndex, pi, ii, { text: e.target.value })}
+                  onBlur={() => {
+                    if (isNew && !item.key) changeItem(zoneIndex, pi, ii, { key: keyFromText(item.text) });
+                  }}
+                  placeholder="What the assessor checks"
+                  className={FIELD}
+                />
+                <div className="flex items-center gap-2 text-xs text-ink/50">
+                  <span>Key</span>
+                  {isNew ? (
+                    <input
+                      value={item.key}
+                      onChange={(e) => changeItem(zoneIndex, pi, ii, { key: e.target.value })}
+                      className="flex-1 rounded border border-ink/20 px-2 py-1 font-mono text-xs bg-surface"
+                    />
+                  ) : (
+                    <code className="font-mono">{item.key}</code>
+                  )}
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <textarea
+                    value={item.guidance.standard}
+                    rows={3}
+                    onChange={(e) =>
+                      changeItem(zoneIndex, pi, ii, { guidance: { ...item.guidance, standard: e.target.value } })
+                    }
+                    placeholder="Standard — what good practice expects"
+                    className={FIELD}
+                  />
+                  <textarea
+                    value={item.guidance.improvement}
+                    rows={3}
+                    onChange={(e) =>
+                      changeItem(zoneIndex, pi, ii, {
+                        guidance: { ...item.guidance, improvement: e.target.value },
+                      })
+                    }
+                    placeholder="Improvement — what to do about a low score"
+                    className={FIELD}
+                  />
+                </div>
+                <input
+                  value={item.hint ?? ''}
+                  onChange={(e) => changeItem(zoneIndex, pi, ii, { hint: e.target.value || null })}
+                  placeholder="Verification hint (optional) — where to look or whom to ask"
+                  className={FIELD}
+                />
+                <div className="flex flex-wrap items-center gap-3 text-xs text-ink/70">
+                  <select
+                    value={item.phase}
+                    onChange={(e) => {
+                      const phase = e.target.value as AuthoredItem['phase'];
+                      changeItem(zoneIndex, pi, ii, { phase, night: phase === 'interior' ? false : item.night });
+                    }}
+                    className="rounded border border-ink/20 px-2 py-1 bg-surface"
+                    aria-label="Walkthrough phase"
+                  >
+                    <option value="exterior">Exterior</option>
+                    <option value="interior">Interior</option>
+                  </select>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={item.night}
+                      disabled={item.phase === 'interior'}
+                      onChange={(e) => changeItem(zoneIndex, pi, ii, { night: e.target.checked })}
+                    />
+                    Night walk
+                  </label>
+                  {weighted && (
+                    <label className="flex items-center gap-1" title="Scored 1 or 2, caps the overall score">
+                      <input
+                        type="checkbox"
+                        checked={item.critical ?? false}
+                        onChange={(e) => changeItem(zoneIndex, pi, ii, { critical: e.target.checked })}
+                      />
+                      Critical
+                    </label>
+                  )}
+                  {templateId === 'school' &&
+                    SCHOOL_BANDS.map(({ band, label }) => (
+                      <label key={band} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={!item.bands || item.bands.includes(band)}
+                          onChange={(e) => {
+                            const current = item.bands ?? SCHOOL_BANDS.map((b) => b.band);
+                            const next = e.target.checked
+                              ? [...current, band]
+                              : current.filter((b) => b !== band);
+                            changeItem(zoneIndex, pi, ii, {
+                              bands: next.length === SCHOOL_BANDS.length ? undefined : next,
+                            });
+                          }}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 pt-1">
+                  <button
+                    type="button"
+                    disabled={ii === 0}
+                    onClick={() =>
+                      changeItems(zoneIndex, pi, (items) =>
+                        items.map((it, i) => (i === ii - 1 ? items[ii] : i === ii ? items[ii - 1] : it)),
+                      )
+                    }
+                    className={SMALL_BUTTON}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    disabled={ii === principle.items.length - 1}
+                    onClick={() =>
+                      changeItems(zoneIndex, pi, (items) =>
+                        items.map((it, i) => (i === ii + 1 ? items[ii] : i === ii ? items[ii + 1] : it)),
+                      )
+                    }
+                    className={SMALL_BUTTON}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const to = destinations[Number(e.target.value)];
+                      if (to) moveItem(zoneIndex, pi, ii, to);
+                    }}
+                    className="rounded border border-ink/20 px-2 py-1 text-xs bg-surface"
+                    aria-label="Move to another principle"
+                  >
+                    <option value="">Move to…</option>
+                    {destinations.map((d, i) =>
+                      d.zi === zoneIndex && d.pi === pi ? null : (
+                        <option key={i} value={i}>
+                          {d.label}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => changeItems(zoneIndex, pi, (items) => items.filter((_, i) => i !== ii))}
+                    className="ml-auto px-2 py-1 rounded-md text-xs font-medium text-red-600 hover:bg-red-50"
+                  >
+                    {isNew ? 'Remove' : 'Retire'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => changeItems(zoneIndex, pi, (items) => [...items, emptyItem()])}
+            className="w-full py-2 rounded-xl border border-dashed border-ink/25 text-sm text-ink/60 hover:bg-surface"
+          >
+            + Add item to {principle.name}
+          </button>
+        </section>
+      ))}
+
+      <ConfirmDialog
+        open={confirmDiscard}
+        title="Discard draft?"
+        message="Every change in this draft is thrown away. The published checklist is not affected."
+        confirmLabel="Discard"
+        variant="danger"
+        onConfirm={discard}
+        onCancel={() => setConfirmDiscard(false)}
+      />
+    </div>
+  );
+}
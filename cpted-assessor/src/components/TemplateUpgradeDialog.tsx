@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import type { TemplateChanges, TemplateItem } from 'cpted-checklist';
+import { previewTemplateUpgrade, upgradeTemplate } from '../services/template-upgrade';
+import type { TemplateUpgradePreview } from '../services/template-upgrade';
+import { assessmentZones } from '../services/buildings';
+import type { Assessment } from '../types';
+
+interface Props {
+  assessment: Assessment;
+  open: boolean;
+  onClose: () => void;
+}
+
+function ItemList({
+  title,
+  items,
+  zoneName,
+  accent,
+  detail,
+}: {
+  title: string;
+  items: TemplateItem[];
+  zoneName: (key: string) => string;
+  accent: string;
+  detail?: (item: TemplateItem) => string | null;
+}) {
+  if (items.length === 0) return null;
+  return (
+    <details className="bg-ink/5 rounded-xl p-3 text-sm" open>
+      <summary className="cursor-pointer font-semibold text-ink">
+        {title} ({items.length})
+      </summary>
+      <ul className="mt-2 space-y-2 text-xs text-ink/70">
+        {items.map((item) => (
+          <li key={item.key} className={`border-l-2 ${accent} pl-2`}>
+            <div className="text-ink/50">{zoneName(item.zone_key)}</div>
+            {detail?.(item) && <div className="line-through text-ink/40">{detail(item)}</div>}
+            <div className="italic">{item.text}</div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+/**
+ * Review and apply "upgrade to current template" for one assessment: what the
+ * current checklist adds, retires, rewords and moves compared with the version the
+ * assessment is pinned to, and which retired items carry work that would go.
+ * After applying, the same lists stay up as the record of what changed.
+ */
+export default function TemplateUpgradeDialog({ assessment, open, onClose }: Props) {
+  const [preview, setPreview] = useState<TemplateUpgradePreview | null>(null);
+  const [applied, setApplied] = useState<TemplateChanges | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setPreview(null);
+    setApplied(null);
+    setError(null);
+    previewTemplateUpgrade(assessment.id)
+      .then(setPreview)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not compare templates'));
+  }, [open, assessment.id]);
+
+  useEffect(() => {
+    if (!open) return;
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape' && !working) onClose();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [open, working, onClose]);
+
+  if (!open) return null;
+
+  // Zone names are the same in every version — only items are versioned. The
+  // buildings' copies are included for the retired items recorded in them.
+  const zones = assessmentZones(assessment);
+  const zoneName = (key: string) => zones.find((z) => z.key === key)?.name ?? key;
+  const changes = applied ?? preview?.changes ?? null;
+  const renamedFrom = new Map(changes?.renamed.map((r) => [r.key, r.from]) ?? []);
+  const movedFrom = new Map(changes?.moved.map((m) => [m.key, m.from_zone_key]) ?? []);
+
+  async function handleUpgrade() {
+    setWorking(true);
+    setError(null);
+    try {
+      setApplied(await upgradeTemplate(assessment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upgrade failed');
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="template-upgrade-title"
+    >
+      <div
+        className="absolute inset-0 bg-black/40"
+        onClick={working ? undefined : onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative bg-surface rounded-2xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 pb-4">
+          <h3 id="template-upgrade-title" className="text-lg font-bold text-ink mb-1">
+            {applied ? 'Checklist Upgraded' : 'Upgrade to Current Checklist'}
+          </h3>
+          {changes && (
+            <p className="text-sm text-ink/60">
+              {applied
+                ? `Now on version ${changes.toVersion} of the checklist.`
+                : `This assessment uses version ${changes.fromVersion} of the checklist; version ${changes.toVersion} is current. Until you upgrade, it is scored and printed against version ${changes.fromVersion}.`}
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!changes && !error && <p className="text-sm text-ink/50">Comparing…</p>}
+
+          {!applied && preview && preview.losing.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-3">
+              <div className="text-2xl font-bold text-amber-700">{preview.losing.length}</div>
+              <div className="text-xs text-amber-700/80 font-medium">
+                Retired items on this assessment have a score or notes, which the upgrade removes.
+                Their photos move to the first item of the same zone.
+              </div>
+            </div>
+          )}
+
+          {changes && (
+            <>
+              <ItemList
+                title="Added"
+                items={changes.added}
+                zoneName={zoneName}
+                accent="border-green-400"
+              />
+              <ItemList
+                title="Reworded"
+                items={changes.renamed}
+                zoneName={zoneName}
+                accent="border-blue-medium"
+                detail={(item) => renamedFrom.get(item.key) ?? null}
+              />
+              <ItemList
+                title="Moved"
+                items={changes.moved}
+                zoneName={zoneName}
+                accent="border-blue-medium"
+                detail={(item) => {
+                  const from = movedFrom.get(item.key);
+                  return from && from !== item.zone_key ? zoneName(from) : null;
+                }}
+              />
+              <ItemList
+                title="Retired"
+                items={changes.retired}
+                zoneName={zoneName}
+                accent="border-amber-400"
+              />
+            </>
+          )}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-ink/10 flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={working}
+            className="flex-1 px-4 py-3 rounded-xl font-semibold text-sm border border-ink/20 text-ink hover:bg-blue-pale active:scale-95 transition-all disabled:opacity-50"
+          >
+            {applied ? 'Close' : 'Cancel'}
+          </button>
+          {!applied && (
+            <button
+              type="button"
+              onClick={handleUpgrade}
+              disabled={!preview || working}
+              className="flex-1 px-4 py-3 rounded-xl font-semibold text-sm bg-navy hover:bg-navy-light active:scale-95 text-white transition-all disabled:opacity-50"
+            >
+              {working ? 'Upgrading…' : 'Upgrade'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useState } from 'react';
+
+interface ZoneFindingsProps {
+  value: string;
+  onSave: (text: string) => void;
+}
+
+/**
+ * The zone's priority findings: the assessor's own few lines on what matters
+ * most here, above any single item. Saved on blur, like an item's note.
+ * Mount with a `key` per zone so switching zones starts from that zone's text.
+ */
+export default function ZoneFindings({ value, onSave }: ZoneFindingsProps) {
+  const [text, setText] = useState(value);
+  return (
+    <div id="zone-findings" className="bg-surface rounded-xl border border-ink/10 shadow-sm p-5 mt-6">
+      <label htmlFor="zone-findings-text" className="block text-sm font-bold text-ink/70 uppercase tracking-wide mb-1">
+        Priority Findings
+      </label>
+      <p className="text-xs text-ink/50 mb-3">What matters most in this zone, in a sentence or two.</p>
+      <textarea
+        id="zone-findings-text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onSave(text)}
+        rows={3}
+        className="w-full rounded-lg border border-ink/20 px-3 py-2 text-sm bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+      />
+    </div>
+  );
+}
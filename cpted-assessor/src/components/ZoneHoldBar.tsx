@@ -0,0 +1,63 @@
+import type { ZoneHold } from '../services/zone-holds';
+
+interface ZoneHoldBarProps {
+  /** The active zone's hold, if anybody has one. */
+  hold: ZoneHold | undefined;
+  /** Whether that hold is this device's. */
+  own: boolean;
+  online: boolean;
+  busy: boolean;
+  error: string | null;
+  onHold: () => void;
+  onRelease: () => void;
+}
+
+/**
+ * Team mode strip above the active zone: who is walking it, and the button to
+ * hold or let go of it. Offline it says so instead of offering a button that
+ * could only fail — holds live on the server.
+ */
+export default function ZoneHoldBar({
+  hold,
+  own,
+  online,
+  busy,
+  error,
+  onHold,
+  onRelease,
+}: ZoneHoldBarProps) {
+  const elsewhere = hold && !own;
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border px-3 py-2 flex items-center gap-3 flex-wrap text-sm ${
+        elsewhere ? 'border-yellow-400/60 bg-yellow-50 text-ink' : 'border-ink/10 bg-surface text-ink/70'
+      }`}
+    >
+      <span className="flex-1 min-w-0">
+        {!online
+          ? 'Offline — zone holds show again once this iPad reconnects.'
+          : elsewhere
+            ? `${hold.held_by}${hold.held_by_user ? ` (${hold.held_by_user})` : ''} is walking this zone.`
+            : own
+              ? 'You are walking this zone. Colleagues see it as held.'
+              : 'Walking this site as a team? Hold this zone so colleagues pick another.'}
+        {error && <span className="block text-xs text-red-600 mt-0.5">{error}</span>}
+      </span>
+      {online && (
+        <button
+          type="button"
+          onClick={own ? onRelease : onHold}
+          disabled={busy}
+          className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-all active:scale-95 disabled:opacity-50 ${
+            own
+              ? 'bg-surface border border-ink/20 text-ink hover:bg-blue-pale'
+              : 'bg-navy text-white hover:bg-navy-light'
+          }`}
+        >
+          {own ? 'Release zone' : elsewhere ? 'Take over' : 'Hold zone'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import type { ItemScore, ZoneDefinition } from '../types';
-import { isZoneComplete, getCompletionCounts } from '../services/scoring';
-import type { Phase } from '../data/item-phases';
+import { isZoneComplete, getCompletionCounts } from 'cpted-checklist';
+import type { BuildingGroup, Phase } from 'cpted-checklist';
 
 export interface GroupedSection {
   label: string; // e.g. "EXTERIOR"
@@ -29,6 +29,19 @@ interface ZoneSidebarProps {
   onSelectZoneInPhase?: (zoneKey: string, phase: Phase) => void;
   /** Current phase filter — drives which section's zone is highlighted in grouped mode. */
   activePhase?: 'all' | Phase | 'night';
+  /**
+   * Team mode: zone key → the device name of the colleague walking it. Only
+   * other devices' holds; this device's own are not worth a label.
+   */
+  heldBy?: Map<string, string>;
+  /**
+   * A campus with more than one building: the zones by building. The sidebar
+   * then lists only the active zone's building, with a picker to switch —
+   * choosing a building opens its first zone.
+   */
+  buildingGroups?: BuildingGroup[];
+  /** Opens the buildings dialog; passed where the property type can have several. */
+  onManageBuildings?: () => void;
 }
 
 function getCompletionStatus(
@@ -47,6 +60,19 @@ const DOT_COLORS = {
   complete: 'bg-green-400',
 } as const;
 
+function ZoneName({ name, heldBy }: { name: string; heldBy?: string }) {
+  return (
+    <span className="flex-1 min-w-0">
+      <span className="block text-sm font-medium truncate">{name}</span>
+      {heldBy && (
+        <span className="block text-[10px] text-yellow-300/80 truncate">
+          Held by {heldBy}
+        </span>
+      )}
+    </span>
+  );
+}
+
 export default function ZoneSidebar({
   zones,
   activeZoneKey,
@@ -58,12 +84,51 @@ export default function ZoneSidebar({
   groupedSections,
   onSelectZoneInPhase,
   activePhase,
+  heldBy,
+  buildingGroups,
+  onManageBuildings,
 }: ZoneSidebarProps) {
   const nightStatus = getCompletionStatus(nightItems);
   const hasNightItems = nightItems.length > 0;
 
+  const multiBuilding = buildingGroups !== undefined && buildingGroups.length > 1;
+  const activeGroup = multiBuilding
+    ? buildingGroups.find((g) => g.zones.some((z) => z.key === activeZoneKey)) ?? buildingGroups[0]
+    : undefined;
+  const shown = (zoneKey: string) => !activeGroup || activeGroup.zones.some((z) => z.key === zoneKey);
+
   return (
     <nav className="w-56 h-full bg-navy-dark flex-shrink-0 overflow-y-auto border-r border-navy">
+      {(multiBuilding || onManageBuildings) && (
+        <div className="px-3 pt-3 pb-1 space-y-2">
+          {multiBuilding && activeGroup && (
+            <select
+              value={activeGroup.building_id ?? ''}
+              onChange={(e) => {
+                const group = buildingGroups.find((g) => (g.building_id ?? '') === e.target.value);
+                if (group && group.zones.length > 0) onSelectZone(group.zones[0].key);
+              }}
+              className="w-full rounded-lg bg-navy text-white text-sm font-semibold px-2 py-2 border border-white/20 outline-none focus:border-white/50"
+              aria-label="Building"
+            >
+              {buildingGroups.map((group) => (
+                <option key={group.building_id ?? ''} value={group.building_id ?? ''}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {onManageBuildings && (
+            <button
+              type="button"
+              onClick={onManageBuildings}
+              className="w-full text-left text-xs font-medium text-white/50 hover:text-white px-1"
+            >
+              {multiBuilding ? 'Edit buildings…' : '+ Add a building…'}
+            </button>
+          )}
+        </div>
+      )}
       <div className="py-2">
         {groupedSections && onSelectZoneInPhase
           ? groupedSections.map((section, sectionIdx) => (
@@ -71,7 +136,7 @@ export default function ZoneSidebar({
                 <div className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest text-white/40">
                   {section.label}
                 </div>
-                {section.entries.map(({ zone, items }) => {
+                {section.entries.filter(({ zone }) => shown(zone.key)).map(({ zone, items }) => {
                   const isActive =
                     !nightActive &&
                     activePhase === section.phase &&
@@ -92,9 +157,7 @@ export default function ZoneSidebar({
                       <span className="text-xs font-bold w-5 text-center opacity-50">
                         {zone.order}
                       </span>
-                      <span className="text-sm font-medium truncate flex-1">
-                        {zone.name}
-                      </span>
+                      <ZoneName name={zone.name} heldBy={heldBy?.get(zone.key)} />
                       <span
                         className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${DOT_COLORS[status]}`}
                       />
@@ -103,7 +166,7 @@ export default function ZoneSidebar({
                 })}
               </div>
             ))
-          : zones.map((zone) => {
+          : zones.filter((zone) => shown(zone.key)).map((zone) => {
               const isActive = !nightActive && zone.key === activeZoneKey;
               const status = getCompletionStatus(itemScoresByZone.get(zone.key));
 
@@ -121,9 +184,7 @@ export default function ZoneSidebar({
                   <span className="text-xs font-bold w-5 text-center opacity-50">
                     {zone.order}
                   </span>
-                  <span className="text-sm font-medium truncate flex-1">
-                    {zone.name}
-                  </span>
+                  <ZoneName name={zone.name} heldBy={heldBy?.get(zone.key)} />
                   <span
                     className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${DOT_COLORS[status]}`}
                   />
@@ -1,13 +1,11 @@
 import type { ItemScore } from '../types';
-import {
-  calculateZoneAverage,
-  getCompletionCounts,
-  getScoreColor,
-} from '../services/scoring';
+import { calculateCompliance, calculateZoneAverage, formatCompliance, getCompletionCounts } from 'cpted-checklist';
+import { getComplianceColor, getScoreColor } from '../services/scoring';
 
 interface ZoneSummaryProps {
   itemScores: ItemScore[];
-  // Schools have no aggregate score — show completion only, not an average.
+  // Schools have no average — show compliance (percent of observable items
+  // met) and the Unable to Observe count instead.
   ratingMode?: boolean;
 }
 
@@ -15,19 +13,38 @@ export default function ZoneSummary({ itemScores, ratingMode = false }: ZoneSumm
   const { addressed, total, na } = getCompletionCounts(itemScores);
   const avg = calculateZoneAverage(itemScores);
 
-  // School (Yes/No/UTO) zones carry no score — only rated-completion progress.
+  // UTO is kept out of the percent and shown on its own, so a locked room
+  // reads as unseen rather than failing.
   if (ratingMode) {
+    const { percent, met, notMet, uto } = calculateCompliance(itemScores);
     return (
       <div className="bg-surface rounded-xl border border-ink/10 shadow-sm p-5 mt-6">
         <h3 className="text-sm font-bold text-ink/70 uppercase tracking-wide mb-3">
           Zone Summary
         </h3>
-        <div>
-          <p className="text-xs text-ink/50 mb-0.5">Items Rated</p>
-          <p className="text-2xl font-bold text-ink">
-            {addressed}
-            <span className="text-sm font-normal text-ink/40 ml-1">/ {total}</span>
-          </p>
+        <div className="flex items-center gap-8">
+          <div>
+            <p className="text-xs text-ink/50 mb-0.5">Compliance</p>
+            <p
+              className={`text-2xl font-bold ${percent !== null ? getComplianceColor(percent) : 'text-ink/25'}`}
+            >
+              {percent !== null ? formatCompliance(percent) : '—'}
+              <span className="text-sm font-normal text-ink/40 ml-1">
+                {met} of {met + notMet} met
+              </span>
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-ink/50 mb-0.5">Items Rated</p>
+            <p className="text-xl font-semibold text-ink">
+              {addressed}
+              <span className="text-sm font-normal text-ink/40 ml-1">/ {total}</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-ink/50 mb-0.5">Unable to Observe</p>
+            <p className="text-xl font-semibold text-ink/50">{uto}</p>
+          </div>
         </div>
       </div>
     );
@@ -1,8 +1,10 @@
 import type { ZoneDefinition, ItemScore, SchoolRating } from '../types';
 import PrincipleSection from './PrincipleSection';
 import ZoneSummary from './ZoneSummary';
+import ZoneFindings from './ZoneFindings';
 
 interface ZoneViewProps {
+  assessmentId: string;
   zone: ZoneDefinition;
   itemScores: ItemScore[];
   phaseFilter?: 'all' | 'exterior' | 'interior';
@@ -12,15 +14,21 @@ interface ZoneViewProps {
     isNa: boolean,
   ) => void;
   onNotesChange: (itemId: string, notes: string) => void;
+  /** The zone's priority findings; the box is left out when absent. */
+  findings?: string;
+  onFindingsChange?: (zoneKey: string, text: string) => void;
   ratingMode?: boolean;
 }
 
 export default function ZoneView({
+  assessmentId,
   zone,
   itemScores,
   phaseFilter = 'all',
   onScoreChange,
   onNotesChange,
+  findings,
+  onFindingsChange,
   ratingMode = false,
 }: ZoneViewProps) {
   const renderedPrinciples = zone.principles
@@ -53,6 +61,8 @@ export default function ZoneView({
         renderedPrinciples.map(({ principle, items }) => (
           <PrincipleSection
             key={principle.key}
+            assessmentId={assessmentId}
+            zoneKey={zone.key}
             principle={principle}
             itemScores={items}
             ratingMode={ratingMode}
@@ -62,6 +72,10 @@ export default function ZoneView({
         ))
       )}
 
+      {findings !== undefined && onFindingsChange && (
+        <ZoneFindings key={zone.key} value={findings} onSave={(text) => onFindingsChange(zone.key, text)} />
+      )}
+
       <ZoneSummary itemScores={itemScores} ratingMode={ratingMode} />
     </div>
   );
@@ -7,6 +7,8 @@ import type {
   LightSurvey,
   LightReading,
   CrimeReport,
+  SyncBase,
+  JournalEntry,
 } from '../types';
 
 export class CPTEDDatabase extends Dexie {
@@ -17,6 +19,8 @@ export class CPTEDDatabase extends Dexie {
   light_surveys!: Table<LightSurvey, string>;
   light_readings!: Table<LightReading, string>;
   crime_reports!: Table<CrimeReport, string>;
+  sync_bases!: Table<SyncBase, string>;
+  change_journal!: Table<JournalEntry, number>;
 
   constructor() {
     super('CPTEDAssessments');
@@ -54,6 +58,22 @@ export class CPTEDDatabase extends Dexie {
     // callback would run inside a versionchange transaction, where a throw
     // leaves db.open() rejecting — the app fails to launch, in the field, on a
     // shared iPad, with no recovery. Not worth it for four un-indexed numbers.
+
+    // v4 — the merge ancestor for each assessment (services/merge.ts). This one
+    // does need a version: it is a new object store, not new fields on an old
+    // one. Additive like v2 and v3, with no .upgrade(): an assessment with no
+    // ancestor yet simply cannot be merged until its next sync or pull.
+    this.version(4).stores({
+      sync_bases: 'assessment_id',
+    });
+
+    // v5 — the change journal behind delta sync (JournalEntry). A new store
+    // again, additive, no .upgrade(): an assessment edited before this version
+    // has no journal, and simply syncs in full until its next push clears the
+    // way.
+    this.version(5).stores({
+      change_journal: '++seq, assessment_id',
+    });
   }
 }
 
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getSession, subscribeSession, type Session } from '../services/auth';
+
+/** The signed-in assessor, re-rendering on sign-in, sign-out, and a 401. */
+export function useSession(): Session | null {
+  return useSyncExternalStore(subscribeSession, getSession, () => null);
+}
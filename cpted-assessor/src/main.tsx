@@ -5,6 +5,10 @@ import { ThemeProvider } from './contexts/ThemeContext'
 import './styles/globals.css'
 import App from './App.tsx'
 import { backfillRevisions } from './services/touch'
+import { backfillItemKeys } from './services/item-keys'
+import { migrateInFlightAssessments } from './services/template-upgrade'
+import { installCachedTemplates, refreshPublishedTemplates } from './services/templates'
+import { AuthRequiredError } from './services/auth'
 
 // Give pre-existing assessments a starting revision. Fire-and-forget at module
 // scope rather than in an effect, because StrictMode double-invokes effects;
@@ -12,6 +16,18 @@ import { backfillRevisions } from './services/touch'
 // stop the app opening — every reader defaults a missing revision to 1, and
 // this retries on the next launch.
 backfillRevisions().catch((err) => console.warn('Revision backfill skipped:', err))
+// The checklist templates last downloaded, before anything renders against
+// them; then the current ones, when there is a session and a connection to get
+// them with. Migration runs after the key backfill — it finds items by key.
+installCachedTemplates()
+backfillItemKeys()
+  .then(migrateInFlightAssessments)
+  .catch((err) => console.warn('Checklist migration skipped:', err))
+  .then(refreshPublishedTemplates)
+  .then((changed) => (changed ? migrateInFlightAssessments() : undefined))
+  .catch((err) => {
+    if (!(err instanceof AuthRequiredError)) console.warn('Template download skipped:', err)
+  })
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
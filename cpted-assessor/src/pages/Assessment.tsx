@@ -1,16 +1,28 @@
 import { useEffect, useRef, useState, useMemo, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../db/database';
-import { touchAssessmentForItem } from '../services/touch';
-import { getZonesForType, isCommercialType, isSchoolType } from '../data/zone-registry';
-import { getItemPhase, isNightItem, type Phase } from '../data/item-phases';
+import { touchAssessment, touchAssessmentForItem } from '../services/touch';
+import { canUpgradeTemplate } from '../services/template-upgrade';
+import { assessmentZones } from '../services/buildings';
+import { initialItemState } from '../services/site-facts';
+import { groupZonesByBuilding, isCommercialType, isSchoolType, supportsBuildings } from 'cpted-checklist';
+import { getItemPhase, isNightItem } from 'cpted-checklist';
+import type { Phase } from 'cpted-checklist';
 import type { ItemScore, SchoolRating } from '../types';
 
 type PhaseFilter = 'all' | Phase | 'night';
 const PHASE_STORAGE_KEY = 'cpted-phase-filter';
 
+/** Whether `filter`'s view shows `item`. */
+function inPhase(item: ItemScore, filter: PhaseFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'night') return isNightItem(item);
+  // A custom item has no phase of its own, so it shows on both walks.
+  return (item.is_custom || getItemPhase(item.item_key) === filter) && !isNightItem(item);
+}
+
 function loadPhaseFilter(): PhaseFilter {
   if (typeof window === 'undefined') return 'all';
   const stored = window.localStorage.getItem(PHASE_STORAGE_KEY);
@@ -30,17 +42,35 @@ import ZoneView from '../components/ZoneView';
 import NightView from '../components/NightView';
 import HeaderBackButton from '../components/HeaderBackButton'
 import HeaderActions from '../components/HeaderActions';
+import TemplateUpgradeDialog from '../components/TemplateUpgradeDialog';
+import BuildingsDialog from '../components/BuildingsDialog';
 import ScoreReference from '../components/ScoreReference';
 import EditAssessmentInfo from '../components/EditAssessmentInfo';
 import ThemeToggle from '../components/ThemeToggle';
+import ZoneHoldBar from '../components/ZoneHoldBar';
+import ConfirmDialog from '../components/ConfirmDialog';
+import {
+  fetchZoneHolds,
+  holdZone,
+  isOwnHold,
+  releaseZone,
+  ZoneHeldError,
+} from '../services/zone-holds';
+import type { ZoneHold } from '../services/zone-holds';
+
+/** How often to re-read colleagues' holds while the page is open and online. */
+const HOLD_REFRESH_MS = 60_000;
 
 export default function Assessment() {
   const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const online = useOnlineStatus();
   const [activeZoneKey, setActiveZoneKey] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [scoreRefOpen, setScoreRefOpen] = useState(false);
   const [editInfoOpen, setEditInfoOpen] = useState(false);
+  const [upgradeOpen, setUpgradeOpen] = useState(false);
+  const [buildingsOpen, setBuildingsOpen] = useState(false);
   const [phaseFilter, setPhaseFilter] = useState<PhaseFilter>(loadPhaseFilter);
 
   const handlePhaseChange = useCallback((next: PhaseFilter) => {
@@ -49,8 +79,14 @@ export default function Assessment() {
       window.localStorage.setItem(PHASE_STORAGE_KEY, next);
     } catch { /* ignore */ }
   }, []);
+  const [holds, setHolds] = useState<ZoneHold[]>([]);
+  const [holdBusy, setHoldBusy] = useState(false);
+  const [holdError, setHoldError] = useState<string | null>(null);
+  const [takeOverFrom, setTakeOverFrom] = useState<ZoneHold | null>(null);
   const mainRef = useRef<HTMLDivElement>(null);
   const initRef = useRef(false);
+  // The element a deep link wants in view once its zone has rendered.
+  const scrollTargetRef = useRef<string | null>(null);
   const persistTimerRef = useRef<ReturnType<typeof setTimeout>>(null);
 
   const assessment = useLiveQuery(
@@ -58,10 +94,15 @@ export default function Assessment() {
     [id],
   );
 
-  // Derive zones from assessment property type (only when assessment is loaded)
+  // Derive zones from assessment property type (only when assessment is loaded),
+  // each further building's copies after the template's own.
   const zones = useMemo(
-    () => assessment ? getZonesForType(assessment.property_type) : [],
-    [assessment?.property_type],
+    () => assessment ? assessmentZones(assessment) : [],
+    [assessment?.property_type, assessment?.template_version, assessment?.buildings, assessment?.main_building_name],
+  );
+  const buildingGroups = useMemo(
+    () => assessment ? groupZonesByBuilding(zones, assessment.buildings, assessment.main_building_name) : [],
+    [zones, assessment],
   );
 
   // Schools score with the Yes/No/UTO rating control instead of the 1-5 scale.
@@ -112,16 +153,17 @@ export default function Assessment() {
       for (const zone of zones) {
         let itemOrder = 0;
         for (const principle of zone.principles) {
-          for (const itemText of principle.items) {
+          for (const item of principle.items) {
             records.push({
               id: uuidv4(),
               assessment_id: id,
               zone_key: zone.key,
               principle: principle.key,
-              item_text: itemText,
+              item_key: item.key,
+              item_text: item.text,
               item_order: itemOrder++,
               score: null,
-              is_na: false,
+              ...initialItemState(assessment, { zone_key: zone.key, item_key: item.key }),
               notes: '',
               photo_ids: [],
             });
@@ -153,19 +195,49 @@ export default function Assessment() {
     mainRef.current?.scrollTo(0, 0);
   }, [activeZoneKey]);
 
+  // A deep link — ?zone=…&item=…, or &findings=1, from the summary's
+  // completion check — opens its zone on a phase that shows the item. Followed
+  // once: the params are dropped, so moving on to another zone is not undone.
+  useEffect(() => {
+    const zoneKey = searchParams.get('zone');
+    if (!zoneKey || !assessment || !itemScores) return;
+    setSearchParams({}, { replace: true });
+    if (!zones.some((z) => z.key === zoneKey)) return;
+    const item = itemScores.find((s) => s.id === searchParams.get('item'));
+    if (item && !inPhase(item, phaseFilter)) {
+      handlePhaseChange(
+        isNightItem(item)
+          ? 'night'
+          : isCommercialType(assessment.property_type)
+            ? getItemPhase(item.item_key)
+            : 'all',
+      );
+    }
+    scrollTargetRef.current = item
+      ? `item-${item.id}`
+      : searchParams.get('findings')
+        ? 'zone-findings'
+        : null;
+    setActiveZoneKey(zoneKey);
+  }, [searchParams, setSearchParams, assessment, itemScores, zones, phaseFilter, handlePhaseChange]);
+
+  // After the zone-top scroll above, so it wins.
+  useEffect(() => {
+    const target = scrollTargetRef.current && document.getElementById(scrollTargetRef.current);
+    if (!target) return;
+    scrollTargetRef.current = null;
+    target.scrollIntoView({ block: 'center' });
+  });
+
   // Filter item scores by active phase
   // Exterior/interior tabs exclude night-tagged items (lighting principle +
   // explicit NIGHT_ITEMS). Those are scored exclusively from the Night tab so
   // the assessor doesn't see lighting twice and isn't tempted to score it in
   // daylight when the actual illumination check has to happen after dark.
-  const phaseFilteredScores = useMemo(() => {
-    if (!itemScores) return [];
-    if (phaseFilter === 'all') return itemScores;
-    if (phaseFilter === 'night') return itemScores.filter(isNightItem);
-    return itemScores.filter(
-      (s) => getItemPhase(s.item_text) === phaseFilter && !isNightItem(s),
-    );
-  }, [itemScores, phaseFilter]);
+  const phaseFilteredScores = useMemo(
+    () => (itemScores ?? []).filter((s) => inPhase(s, phaseFilter)),
+    [itemScores, phaseFilter],
+  );
 
   // Group filtered item scores by zone key (drives ZoneView + ZoneSidebar dots)
   const itemScoresByZone = useMemo(() => {
@@ -185,6 +257,65 @@ export default function Assessment() {
   const activeZoneIndex = zones.findIndex((z) => z.key === activeZoneKey);
   const activeItemScores = activeZoneKey ? (itemScoresByZone.get(activeZoneKey) || []) : [];
 
+  // Team mode: colleagues' zone holds. Best effort — an assessment the server
+  // has never seen, or a dropped request, just shows no holds.
+  const refreshHolds = useCallback(async () => {
+    if (!id || !online) return;
+    try {
+      setHolds(await fetchZoneHolds(id));
+    } catch {
+      /* keep what we had */
+    }
+  }, [id, online]);
+
+  useEffect(() => {
+    void refreshHolds();
+    const timer = setInterval(() => void refreshHolds(), HOLD_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [refreshHolds]);
+
+  const heldByOthers = useMemo(
+    () => new Map(holds.filter((h) => !isOwnHold(h)).map((h) => [h.zone_key, h.held_by])),
+    [holds],
+  );
+  const activeHold = holds.find((h) => h.zone_key === activeZoneKey);
+
+  const handleHold = useCallback(
+    async (takeOver: boolean) => {
+      if (!id || !activeZoneKey) return;
+      setHoldBusy(true);
+      setHoldError(null);
+      try {
+        await holdZone(id, activeZoneKey, takeOver);
+        await refreshHolds();
+      } catch (err) {
+        if (err instanceof ZoneHeldError) {
+          setTakeOverFrom(err.hold);
+          await refreshHolds();
+        } else {
+          setHoldError(err instanceof Error ? err.message : 'Could not hold zone');
+        }
+      } finally {
+        setHoldBusy(false);
+      }
+    },
+    [id, activeZoneKey, refreshHolds],
+  );
+
+  const handleRelease = useCallback(async () => {
+    if (!id || !activeZoneKey) return;
+    setHoldBusy(true);
+    setHoldError(null);
+    try {
+      await releaseZone(id, activeZoneKey);
+      await refreshHolds();
+    } catch (err) {
+      setHoldError(err instanceof Error ? err.message : 'Could not release zone');
+    } finally {
+      setHoldBusy(false);
+    }
+  }, [id, activeZoneKey, refreshHolds]);
+
   const handleScoreChange = useCallback(
     async (itemId: string, score: number | SchoolRating | null, isNa: boolean) => {
       // Re-tapping the score an item already has is not an edit. Without this
@@ -195,9 +326,12 @@ export default function Assessment() {
       const nextScore = isNa ? null : score;
       if (existing.score === nextScore && existing.is_na === isNa) return;
 
+      // Any score or N/A by hand is the assessor's own, and site facts no
+      // longer touch it (see saveSiteFacts).
       await db.item_scores.update(itemId, {
         score: nextScore,
         is_na: isNa,
+        na_reason: '',
       });
       // In the same await chain as the write it describes, deliberately not
       // folded into the debounce below: a sync can land at any instant, and a
@@ -228,6 +362,28 @@ export default function Assessment() {
     [id],
   );
 
+  const zoneRows = useLiveQuery(
+    () => (id ? db.zone_scores.where('assessment_id').equals(id).toArray() : []),
+    [id],
+  );
+  const activeZoneRow = zoneRows?.find((zs) => zs.zone_key === activeZoneKey);
+
+  const handleFindingsChange = useCallback(
+    async (zoneKey: string, text: string) => {
+      if (!id) return;
+      // Fired on blur, like item notes — only a real change is an edit.
+      const row = (await db.zone_scores.where('assessment_id').equals(id).toArray()).find(
+        (zs) => zs.zone_key === zoneKey,
+      );
+      if (!row || row.priority_findings === text) return;
+      await db.zone_scores.update(row.id, { priority_findings: text });
+      await touchAssessment(id, undefined, [
+        { table: 'zone_scores', row_id: row.id, fields: ['priority_findings'] },
+      ]);
+    },
+    [id],
+  );
+
   const handleNotesChange = useCallback(
     async (itemId: string, notes: string) => {
       // ChecklistItem fires this from onBlur, which happens on every tab-away
@@ -292,12 +448,13 @@ export default function Assessment() {
           const items = itemScores.filter(
             (s) =>
               s.zone_key === zone.key &&
-              getItemPhase(s.item_text) === phase &&
+              (s.is_custom || getItemPhase(s.item_key) === phase) &&
               !isNightItem(s),
           );
           return { zone, items };
         })
-        .filter(({ items }) => items.length > 0);
+        // Custom items show on both walks, so only the template's place a zone.
+        .filter(({ items }) => items.some((s) => !s.is_custom));
       return {
         label: phase === 'exterior' ? 'EXTERIOR' : 'INTERIOR',
         phase,
@@ -429,6 +586,17 @@ export default function Assessment() {
             actions={[
               { label: 'Edit Info', onClick: () => setEditInfoOpen(true) },
               { label: 'Score Guide', onClick: () => setScoreRefOpen(!scoreRefOpen) },
+              // Only while a newer checklist exists than the one this
+              // assessment is pinned to.
+              ...(canUpgradeTemplate(assessment)
+                ? [
+                    {
+                      label: 'Upgrade Checklist',
+                      shortLabel: 'Upgrade',
+                      onClick: () => setUpgradeOpen(true),
+                    },
+                  ]
+                : []),
               // School site profile and light surveys — schools only, like the
               // rating mode they are gated on.
               ...(ratingMode
@@ -445,6 +613,26 @@ export default function Assessment() {
 
       <ScoreReference open={scoreRefOpen} onClose={() => setScoreRefOpen(false)} ratingMode={ratingMode} />
       <EditAssessmentInfo assessment={assessment} open={editInfoOpen} onClose={() => setEditInfoOpen(false)} />
+      <TemplateUpgradeDialog assessment={assessment} open={upgradeOpen} onClose={() => setUpgradeOpen(false)} />
+      <BuildingsDialog assessment={assessment} open={buildingsOpen} onClose={() => setBuildingsOpen(false)} />
+      <ConfirmDialog
+        open={takeOverFrom !== null}
+        title="Zone Held by a Colleague"
+        confirmLabel="Take over"
+        message={
+          <p>
+            {takeOverFrom?.held_by}
+            {takeOverFrom?.held_by_user ? ` (${takeOverFrom.held_by_user})` : ''} is walking this
+            zone. Take it over only if they have finished with it or handed it to you — scoring
+            the same items on two iPads leaves the sync with conflicts to sort out.
+          </p>
+        }
+        onConfirm={() => {
+          setTakeOverFrom(null);
+          void handleHold(true);
+        }}
+        onCancel={() => setTakeOverFrom(null)}
+      />
 
       {/* Body: sidebar + main content */}
       <div className="flex flex-1 overflow-hidden relative">
@@ -474,6 +662,16 @@ export default function Assessment() {
             groupedSections={commercialSections}
             onSelectZoneInPhase={handleSelectZoneInPhase}
             activePhase={phaseFilter}
+            heldBy={heldByOthers}
+            buildingGroups={buildingGroups}
+            onManageBuildings={
+              supportsBuildings(assessment.property_type)
+                ? () => {
+                    setBuildingsOpen(true);
+                    setSidebarOpen(false);
+                  }
+                : undefined
+            }
           />
         </div>
 
@@ -524,14 +722,30 @@ export default function Assessment() {
               ratingMode={ratingMode}
             />
           ) : (
-            <ZoneView
-              zone={activeZone}
-              itemScores={activeItemScores}
-              phaseFilter={phaseFilter}
-              onScoreChange={handleScoreChange}
-              onNotesChange={handleNotesChange}
-              ratingMode={ratingMode}
-            />
+            <>
+              <ZoneHoldBar
+                hold={activeHold}
+                own={activeHold ? isOwnHold(activeHold) : false}
+                online={online}
+                busy={holdBusy}
+                error={holdError}
+                onHold={() =>
+                  activeHold ? setTakeOverFrom(activeHold) : void handleHold(false)
+                }
+                onRelease={() => void handleRelease()}
+              />
+              <ZoneView
+                assessmentId={assessment.id}
+                zone={activeZone}
+                itemScores={activeItemScores}
+                phaseFilter={phaseFilter}
+                onScoreChange={handleScoreChange}
+                onNotesChange={handleNotesChange}
+                findings={activeZoneRow?.priority_findings}
+                onFindingsChange={handleFindingsChange}
+                ratingMode={ratingMode}
+              />
+            </>
           )}
 
           {/* Zone navigation — hidden in Night mode (flat list, no zone hopping). */}
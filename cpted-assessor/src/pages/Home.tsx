@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
@@ -8,17 +8,26 @@ import type { SyncState } from '../services/revision';
 import { getDeviceName, setDeviceName } from '../services/device';
 import DeviceNameDialog from '../components/DeviceNameDialog';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
-import { getScoreColor, getScoreLabel } from '../services/scoring';
-import { getPropertyTypeLabel } from '../data/zone-registry';
+import { useSession } from '../hooks/useSession';
+import { AuthRequiredError, signOut, userRole } from '../services/auth';
+import SignInDialog from '../components/SignInDialog';
+import { countRecommendations, formatCompliance, getScoreLabel } from 'cpted-checklist';
+import { getComplianceColor, getScoreColor } from '../services/scoring';
+import { getPropertyTypeLabel } from 'cpted-checklist';
 import {
-  fetchServerAssessments,
+  fetchServerAssessmentPage,
+  fetchServerRevisions,
   pullAssessment,
   type ServerAssessmentSummary,
+  type ServerListFilters as ServerFilters,
   type PullProgress,
 } from '../services/sync';
 import ConfirmDialog from '../components/ConfirmDialog';
 import DuplicateResultDialog from '../components/DuplicateResultDialog';
 import ServerAssessmentCard from '../components/ServerAssessmentCard';
+import RecommendationTally from '../components/RecommendationTally';
+import ServerListFilters from '../components/ServerListFilters';
+import RevisionHistoryDialog from '../components/RevisionHistoryDialog';
 import ThemeToggle from '../components/ThemeToggle'
 import HeaderActions from '../components/HeaderActions';
 import { duplicateAssessmentAs, type DuplicateResult } from '../services/duplicate';
@@ -26,6 +35,9 @@ import type { Assessment, AssessmentStatus, PropertyType } from '../types';
 
 type FilterTab = 'all' | 'in_progress' | 'completed' | 'server';
 
+/** Pause after the last keystroke before the Server tab searches. */
+const SEARCH_DEBOUNCE_MS = 300;
+
 function formatDate(iso: string): string {
   try {
     // Date-only strings (YYYY-MM-DD from <input type="date">) parse as UTC
@@ -68,10 +80,12 @@ function pullDialogCopy(
 ): { title: string; body: React.ReactNode; confirmLabel: string; variant: 'danger' | 'default' } {
   switch (state) {
     case 'diverged':
+      // Not a download at all any more: the confirm opens the comparison
+      // screen, where taking the server's copy wholesale is one button.
       return {
         title: 'Both Copies Have Changed',
-        variant: 'danger',
-        confirmLabel: 'Replace my copy',
+        variant: 'default',
+        confirmLabel: 'Compare copies',
         body: (
           <>
             <p>
@@ -82,9 +96,8 @@ function pullDialogCopy(
               This iPad: {f.here}. Server: {f.there}, last edited by {f.theirs}.
             </p>
             <p className="font-semibold">
-              Downloading replaces everything on this iPad. Scores, notes, and photos added
-              here since the last sync will be lost and cannot be recovered. To keep this
-              iPad's work, cancel and sync it first.
+              Compare the two copies to choose which version of each change to keep, then the
+              result is saved here and synced. Nothing on either copy changes until you do.
             </p>
           </>
         ),
@@ -146,10 +159,21 @@ export default function Home() {
   const [duplicateResult, setDuplicateResult] = useState<DuplicateResult | null>(null);
   const [duplicateTargetLabel, setDuplicateTargetLabel] = useState<string>('');
 
-  // Server tab state
+  // Server tab state. The tab shows one filtered page at a time and grows by
+  // "Load more"; serverCopies is separate — the server's copy of each
+  // assessment on this iPad, whatever the tab happens to be showing.
   const [serverAssessments, setServerAssessments] = useState<ServerAssessmentSummary[]>([]);
+  const [serverFilters, setServerFilters] = useState<ServerFilters>({});
+  const [serverTotal, setServerTotal] = useState(0);
+  const [serverCursor, setServerCursor] = useState<string | null>(null);
   const [serverLoading, setServerLoading] = useState(false);
+  const [serverLoadingMore, setServerLoadingMore] = useState(false);
   const [serverError, setServerError] = useState<string | null>(null);
+  const [serverCopies, setServerCopies] = useState<ServerAssessmentSummary[]>([]);
+  // Typing in the search box fires a request per pause; only the latest may
+  // land, or a slow early answer would overwrite the one the assessor wants.
+  const serverRequestRef = useRef(0);
+  const [historyTarget, setHistoryTarget] = useState<ServerAssessmentSummary | null>(null);
   const [pullingId, setPullingId] = useState<string | null>(null);
   const [pullProgress, setPullProgress] = useState<PullProgress | null>(null);
   const [overwriteTarget, setOverwriteTarget] = useState<{ id: string; state: SyncState } | null>(null);
@@ -163,6 +187,12 @@ export default function Home() {
   const [deviceName, setDeviceNameState] = useState<string | null>(() => getDeviceName());
   const [namingDevice, setNamingDevice] = useState(false);
 
+  // The signed-in assessor. Only the Server tab needs one; every local tab
+  // works the same signed in or not.
+  const session = useSession();
+  const [signingIn, setSigningIn] = useState(false);
+  const [confirmSignOut, setConfirmSignOut] = useState(false);
+
   const assessments = useLiveQuery(
     () => db.assessments.orderBy('created_at').reverse().toArray(),
     [],
@@ -221,8 +251,17 @@ export default function Home() {
     try {
       await db.transaction(
         'rw',
-        [db.assessments, db.zone_scores, db.item_scores, db.photos],
+        [
+          db.assessments,
+          db.zone_scores,
+          db.item_scores,
+          db.photos,
+          db.sync_bases,
+          db.change_journal,
+        ],
         async () => {
+          await db.sync_bases.delete(deleteTarget.id);
+          await db.change_journal.where('assessment_id').equals(deleteTarget.id).delete();
           await db.photos
             .where('assessment_id')
             .equals(deleteTarget.id)
@@ -246,31 +285,85 @@ export default function Home() {
     }
   }, [deleteTarget]);
 
-  // Load server assessments when Server tab is selected
-  const loadServerAssessments = useCallback(async () => {
+  // Load the first page of the Server tab for the current filters.
+  const loadServerAssessments = useCallback(async (filters: ServerFilters) => {
+    const request = ++serverRequestRef.current;
     setServerLoading(true);
     setServerError(null);
     try {
-      const list = await fetchServerAssessments();
-      setServerAssessments(list);
-      setServerLoaded(true);
+      const page = await fetchServerAssessmentPage(filters);
+      if (request !== serverRequestRef.current) return;
+      setServerAssessments(page.assessments);
+      setServerTotal(page.total);
+      setServerCursor(page.next_cursor);
     } catch (err) {
-      setServerError(err instanceof Error ? err.message : 'Failed to connect to server');
+      if (request !== serverRequestRef.current) return;
+      // Signed out is shown as its own state below, not as a connection error.
+      if (!(err instanceof AuthRequiredError)) {
+        setServerError(err instanceof Error ? err.message : 'Failed to connect to server');
+      }
     } finally {
-      setServerLoading(false);
+      if (request === serverRequestRef.current) setServerLoading(false);
     }
   }, []);
 
-  // Fetch server assessments on mount (for tab count) and when Server tab is selected
+  const loadMoreServerAssessments = useCallback(async () => {
+    if (!serverCursor) return;
+    const request = serverRequestRef.current;
+    setServerLoadingMore(true);
+    try {
+      const page = await fetchServerAssessmentPage(serverFilters, serverCursor);
+      // The filters changed while this page was on its way: it belongs to a
+      // list that is no longer on screen.
+      if (request !== serverRequestRef.current) return;
+      setServerAssessments((prev) => [...prev, ...page.assessments]);
+      setServerTotal(page.total);
+      setServerCursor(page.next_cursor);
+    } catch (err) {
+      if (err instanceof AuthRequiredError) setSigningIn(true);
+      else setServerError(err instanceof Error ? err.message : 'Failed to connect to server');
+    } finally {
+      setServerLoadingMore(false);
+    }
+  }, [serverCursor, serverFilters]);
+
+  // The server's copies of this iPad's assessments, for the comparison badges.
+  const localIdKey = (assessments ?? []).map((a) => a.id).join(',');
+  const loadServerCopies = useCallback(async () => {
+    try {
+      setServerCopies(await fetchServerRevisions(localIdKey ? localIdKey.split(',') : []));
+      setServerLoaded(true);
+    } catch {
+      // serverLoaded is left alone so no card claims a comparison it never
+      // made; the Server tab reports the error, if there is one, itself.
+    }
+  }, [localIdKey]);
+
+  const handleHistoryAuthRequired = useCallback(() => {
+    setHistoryTarget(null);
+    setSigningIn(true);
+  }, []);
+
+  // Fetch the Server tab on mount (for the tab count), whenever its search or
+  // filters change — a beat after the last keystroke, not on every one — and
+  // again once the assessor signs in.
+  const signedIn = session !== null;
+  useEffect(() => {
+    if (!online || !signedIn) return;
+    const timer = setTimeout(() => loadServerAssessments(serverFilters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [online, signedIn, serverFilters, loadServerAssessments]);
+
+  const localLoaded = assessments !== undefined;
   useEffect(() => {
-    if (online) {
-      loadServerAssessments();
+    if (online && signedIn && localLoaded) {
+      loadServerCopies();
     }
-  }, [online, loadServerAssessments]);
+  }, [online, signedIn, localLoaded, loadServerCopies]);
 
   // Check if a server assessment exists locally
   const localIds = new Set(assessments?.map((a) => a.id) || []);
-  const serverById = new Map(serverAssessments.map((s) => [s.id, s]));
+  const serverById = new Map([...serverAssessments, ...serverCopies].map((s) => [s.id, s]));
 
   /**
    * How this device's copy stands against the server's — or null when we have
@@ -284,7 +377,7 @@ export default function Home() {
   // Names already in use across the department, offered when naming this iPad.
   const knownDeviceNames = Array.from(
     new Set(
-      serverAssessments
+      [...serverAssessments, ...serverCopies]
         .map((s) => s.last_edited_by)
         .filter((n): n is string => Boolean(n && n.trim())),
     ),
@@ -323,14 +416,15 @@ export default function Home() {
         await pullAssessment(id, (progress) => setPullProgress(progress));
       } catch (err) {
         console.error('Pull failed:', err);
-        setServerError(err instanceof Error ? err.message : 'Download failed');
+        if (err instanceof AuthRequiredError) setSigningIn(true);
+        else setServerError(err instanceof Error ? err.message : 'Download failed');
       } finally {
         setPullingId(null);
         setPullProgress(null);
       }
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [localIds, overwriteTarget, assessments, serverAssessments],
+    [localIds, overwriteTarget, assessments, serverAssessments, serverCopies],
   );
 
   const statusBadge = (status: AssessmentStatus) => {
@@ -342,6 +436,30 @@ export default function Home() {
         </span>
       );
     }
+    if (status === 'approved') {
+      return (
+        <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-emerald-100 text-emerald-700">
+          <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+          Approved
+        </span>
+      );
+    }
+    if (status === 'submitted') {
+      return (
+        <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-purple-100 text-purple-700">
+          <span className="w-1.5 h-1.5 rounded-full bg-purple-500" />
+          Submitted
+        </span>
+      );
+    }
+    if (status === 'returned') {
+      return (
+        <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-red-100 text-red-700">
+          <span className="w-1.5 h-1.5 rounded-full bg-red-500" />
+          Returned
+        </span>
+      );
+    }
     if (status === 'completed') {
       return (
         <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-green-100 text-green-700">
@@ -398,6 +516,13 @@ export default function Home() {
                 label: deviceName ?? 'Name this device',
                 onClick: () => setNamingDevice(true),
               },
+              { label: 'Search', to: '/search' },
+              { label: 'Schools', to: '/schools' },
+              ...(userRole(session) === 'admin' ? [{ label: 'Templates', to: '/templates' }] : []),
+              {
+                label: session ? session.user.display_name : 'Sign In',
+                onClick: () => (session ? setConfirmSignOut(true) : setSigningIn(true)),
+              },
               {
                 label: '+ New Assessment',
                 shortLabel: '+ New',
@@ -425,7 +550,7 @@ export default function Home() {
               tab.key === 'all'
                 ? assessments.length
                 : tab.key === 'server'
-                  ? serverAssessments.length
+                  ? serverTotal
                   : assessments.filter((a) => a.status === tab.key).length;
             const isServerDisabled = tab.key === 'server' && !online;
             return (
@@ -460,55 +585,99 @@ export default function Home() {
         {/* Server tab content */}
         {filter === 'server' ? (
           <div>
-            {serverLoading ? (
+            {!session ? (
               <div className="text-center py-16">
-                <div className="flex flex-col items-center gap-3">
-                  <div className="w-8 h-8 border-3 border-ink/20 border-t-ink rounded-full animate-spin" />
-                  <p className="text-ink/50 text-sm">Loading server assessments...</p>
-                </div>
-              </div>
-            ) : serverError ? (
-              <div className="text-center py-16">
-                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-red-50 flex items-center justify-center">
-                  <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <h3 className="text-lg font-semibold text-ink/60 mb-1">Connection Error</h3>
-                <p className="text-sm text-ink/40 mb-4">{serverError}</p>
+                <h3 className="text-lg font-semibold text-ink/60 mb-1">Sign in to see the server</h3>
+                <p className="text-sm text-ink/40 mb-4">
+                  Assessments on this iPad are unaffected and will sync once you sign in.
+                </p>
                 <button
                   type="button"
-                  onClick={loadServerAssessments}
-                  className="text-sm font-semibold text-blue-600 hover:text-blue-700 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-lg transition-colors"
+                  onClick={() => setSigningIn(true)}
+                  className="text-sm font-semibold text-white bg-navy hover:bg-navy/90 px-4 py-2 rounded-lg transition-colors"
                 >
-                  Retry
+                  Sign In
                 </button>
               </div>
-            ) : serverAssessments.length === 0 ? (
-              <div className="text-center py-16">
-                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-ink/5 flex items-center justify-center">
-                  <svg className="w-8 h-8 text-ink/20" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2" />
-                  </svg>
-                </div>
-                <h3 className="text-lg font-semibold text-ink/60 mb-1">No assessments on server</h3>
-                <p className="text-sm text-ink/40">Sync an assessment to see it here</p>
-              </div>
             ) : (
-              <div className="space-y-3">
-                {serverAssessments.map((sa) => (
-                  <ServerAssessmentCard
-                    key={sa.id}
-                    assessment={sa}
-                    isLocal={localIds.has(sa.id)}
-                    local={assessments?.find((a) => a.id === sa.id) ?? null}
-                    pulling={pullingId === sa.id}
-                    pullProgress={pullingId === sa.id ? pullProgress : null}
-                    disabled={pullingId !== null && pullingId !== sa.id}
-                    onPull={handlePull}
-                  />
-                ))}
-              </div>
+              <>
+                <ServerListFilters filters={serverFilters} onChange={setServerFilters} />
+                {serverLoading ? (
+                  <div className="text-center py-16">
+                    <div className="flex flex-col items-center gap-3">
+                      <div className="w-8 h-8 border-3 border-ink/20 border-t-ink rounded-full animate-spin" />
+                      <p className="text-ink/50 text-sm">Loading server assessments...</p>
+                    </div>
+                  </div>
+                ) : serverError ? (
+                  <div className="text-center py-16">
+                    <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-red-50 flex items-center justify-center">
+                      <svg className="w-8 h-8 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <h3 className="text-lg font-semibold text-ink/60 mb-1">Connection Error</h3>
+                    <p className="text-sm text-ink/40 mb-4">{serverError}</p>
+                    <button
+                      type="button"
+                      onClick={() => loadServerAssessments(serverFilters)}
+                      className="text-sm font-semibold text-blue-600 hover:text-blue-700 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-lg transition-colors"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                ) : serverAssessments.length === 0 ? (
+                  <div className="text-center py-16">
+                    <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-ink/5 flex items-center justify-center">
+                      <svg className="w-8 h-8 text-ink/20" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2" />
+                      </svg>
+                    </div>
+                    {Object.keys(serverFilters).some((k) => serverFilters[k as keyof ServerFilters] !== undefined) ? (
+                      <>
+                        <h3 className="text-lg font-semibold text-ink/60 mb-1">No matching assessments</h3>
+                        <p className="text-sm text-ink/40">Try a shorter search or fewer filters</p>
+                      </>
+                    ) : (
+                      <>
+                        <h3 className="text-lg font-semibold text-ink/60 mb-1">No assessments on server</h3>
+                        <p className="text-sm text-ink/40">Sync an assessment to see it here</p>
+                      </>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {serverAssessments.map((sa) => (
+                      <ServerAssessmentCard
+                        key={sa.id}
+                        assessment={sa}
+                        isLocal={localIds.has(sa.id)}
+                        local={assessments?.find((a) => a.id === sa.id) ?? null}
+                        pulling={pullingId === sa.id}
+                        pullProgress={pullingId === sa.id ? pullProgress : null}
+                        disabled={pullingId !== null && pullingId !== sa.id}
+                        onPull={handlePull}
+                        onHistory={setHistoryTarget}
+                      />
+                    ))}
+                    <p className="text-center text-xs text-ink/40 pt-1">
+                      Showing {serverAssessments.length} of {serverTotal}
+                    </p>
+                    {serverCursor && (
+                      <div className="text-center">
+                        <button
+                          type="button"
+                          onClick={loadMoreServerAssessments}
+                          disabled={serverLoadingMore}
+                          className="text-sm font-semibold text-blue-600 hover:text-blue-700 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {serverLoadingMore ? 'Loading…' : 'Load more'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
             )}
           </div>
         ) :
@@ -518,6 +687,10 @@ export default function Home() {
           <div className="space-y-3">
             {filtered.map((assessment) => {
               const counts = itemCounts?.get(assessment.id);
+              const recCounts = countRecommendations([
+                ...(assessment.top_recommendations ?? []),
+                ...(assessment.quick_wins ?? []),
+              ]);
               return (
                 <div
                   key={assessment.id}
@@ -575,6 +748,7 @@ export default function Home() {
                             </>
                           )}
                         </div>
+                        <RecommendationTally open={recCounts.open} closed={recCounts.closed} />
                       </div>
 
                       {/* Right: Score + Status */}
@@ -607,6 +781,15 @@ export default function Home() {
                               {getScoreLabel(assessment.overall_score)}
                             </p>
                           </div>
+                        ) : assessment.compliance_pct != null ? (
+                          <div className="text-right">
+                            <span
+                              className={`text-2xl font-bold ${getComplianceColor(assessment.compliance_pct)}`}
+                            >
+                              {formatCompliance(assessment.compliance_pct)}
+                            </span>
+                            <p className="text-xs font-medium text-ink/50">met</p>
+                          </div>
                         ) : (
                           <span className="text-sm text-ink/25">No score</span>
                         )}
@@ -761,6 +944,45 @@ export default function Home() {
         />
       )}
 
+      {signingIn && (
+        <SignInDialog
+          onSignedIn={() => setSigningIn(false)}
+          onCancel={() => setSigningIn(false)}
+        />
+      )}
+
+      {historyTarget && (
+        <RevisionHistoryDialog
+          assessment={historyTarget}
+          onRestored={() => {
+            setHistoryTarget(null);
+            // The restore is a new server revision; reloading the list turns
+            // this iPad's card to "Server newer" so Update fetches it.
+            loadServerAssessments(serverFilters);
+            loadServerCopies();
+          }}
+          onAuthRequired={handleHistoryAuthRequired}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      <ConfirmDialog
+        open={confirmSignOut}
+        title="Sign Out"
+        message={`Sign ${session?.user.display_name ?? 'this assessor'} out of this iPad? Assessments stored here are kept; syncing will ask for a sign-in again.`}
+        confirmLabel="Sign out"
+        onConfirm={() => {
+          setConfirmSignOut(false);
+          signOut();
+          setServerAssessments([]);
+          setServerTotal(0);
+          setServerCursor(null);
+          setServerCopies([]);
+          setServerLoaded(false);
+        }}
+        onCancel={() => setConfirmSignOut(false)}
+      />
+
       <p className="text-center text-[10px] text-ink/50 mt-6">v0.47.0</p>
 
       {/* Delete Confirmation Dialog */}
@@ -799,7 +1021,11 @@ export default function Home() {
             message={copy.body}
             confirmLabel={copy.confirmLabel}
             variant={copy.variant}
-            onConfirm={() => handlePull(overwriteTarget.id)}
+            onConfirm={() =>
+              overwriteTarget.state === 'diverged'
+                ? navigate(`/assessment/${overwriteTarget.id}/resolve`)
+                : handlePull(overwriteTarget.id)
+            }
             onCancel={() => setOverwriteTarget(null)}
           />
         );
@@ -3,13 +3,23 @@ import { useNavigate } from 'react-router-dom'
 import { v4 as uuidv4 } from 'uuid'
 import { getDeviceName } from '../services/device'
 import { db } from '../db/database'
-import { getZonesForType, isWorshipType, isSchoolType, isCommercialType } from '../data/zone-registry'
+import {
+  getSiteFactQuestions,
+  getTemplateVersion,
+  getZonesForType,
+  isWorshipType,
+  isSchoolType,
+  isCommercialType,
+} from 'cpted-checklist'
 import HeaderBackButton from '../components/HeaderBackButton'
 import ThemeToggle from '../components/ThemeToggle'
+import SiteFactsFields from '../components/SiteFactsFields'
+import FollowedAssessmentSelect from '../components/FollowedAssessmentSelect'
 import type {
   Assessment,
   AssessmentType,
   PropertyType,
+  SiteFacts,
   TimeOfAssessment,
   ZoneScore,
 } from '../types'
@@ -29,13 +39,24 @@ export default function NewAssessment() {
   const [assessorName, setAssessorName] = useState('')
   const [assessorBadgeId, setAssessorBadgeId] = useState('')
   const [assessmentType, setAssessmentType] = useState<AssessmentType>('initial')
+  const [followsAssessmentId, setFollowsAssessmentId] = useState<string | null>(null)
   const [dateOfAssessment, setDateOfAssessment] = useState(todayLocalISO())
   const [timeOfAssessment, setTimeOfAssessment] = useState<TimeOfAssessment>('daytime')
   const [weatherConditions] = useState('')
+  const [siteFacts, setSiteFacts] = useState<SiteFacts>({})
 
   const [errors, setErrors] = useState<Record<string, boolean>>({})
   const [submitting, setSubmitting] = useState(false)
 
+  // Keep the answers the new type asks too; drop the rest.
+  function changePropertyType(next: PropertyType) {
+    const keys = new Set(getSiteFactQuestions(next).map((q) => q.key))
+    setSiteFacts((facts) =>
+      Object.fromEntries(Object.entries(facts).filter(([key]) => keys.has(key as keyof SiteFacts))),
+    )
+    setPropertyType(next)
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
 
@@ -81,6 +102,7 @@ export default function NewAssessment() {
         assessor_name: assessorName.trim(),
         assessor_badge_id: assessorBadgeId.trim() || undefined,
         assessment_type: assessmentType,
+        follows_assessment_id: assessmentType === 'follow_up' ? followsAssessmentId : null,
         weather_conditions: weatherConditions.trim(),
         time_of_assessment: timeOfAssessment,
         date_of_assessment: dateOfAssessment,
@@ -89,6 +111,10 @@ export default function NewAssessment() {
         quick_wins: [],
         notes: '',
         assessor_signature: null,
+        template_version: getTemplateVersion(propertyType),
+        // The items they rule out are marked N/A when the checklist is first
+        // opened and its rows are written (services/site-facts.ts).
+        site_facts: siteFacts,
         synced_at: null,
         // A brand-new record: revision 1, and no common ancestor with the
         // server because it has never been there.
@@ -288,7 +314,7 @@ export default function NewAssessment() {
               <label className={labelClass}>Property Type</label>
               <select
                 value={propertyType}
-                onChange={(e) => setPropertyType(e.target.value as PropertyType)}
+                onChange={(e) => changePropertyType(e.target.value as PropertyType)}
                 className="w-full rounded-lg border border-ink/20 px-4 py-3 text-base bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
               >
                 <optgroup label="Residential">
@@ -331,6 +357,14 @@ export default function NewAssessment() {
           </div>
         </section>
 
+        {/* Site Facts */}
+        {getSiteFactQuestions(propertyType).length > 0 && (
+          <section className="bg-surface rounded-xl shadow-sm border border-ink/10 p-6">
+            <h2 className="text-lg font-bold text-ink mb-4">About the Site</h2>
+            <SiteFactsFields propertyType={propertyType} value={siteFacts} onChange={setSiteFacts} />
+          </section>
+        )}
+
         {/* Assessor Information */}
         <section className="bg-surface rounded-xl shadow-sm border border-ink/10 p-6">
           <h2 className="text-lg font-bold text-ink mb-4">Assessor Information</h2>
@@ -394,6 +428,17 @@ export default function NewAssessment() {
               </div>
             </div>
 
+            {assessmentType === 'follow_up' && (
+              <div>
+                <label className={labelClass}>Follows Up On</label>
+                <FollowedAssessmentSelect
+                  value={followsAssessmentId}
+                  onChange={setFollowsAssessmentId}
+                  className="w-full rounded-lg border border-ink/20 px-4 py-3 text-base bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+                />
+              </div>
+            )}
+
             <div>
               <label className={labelClass}>Date of Assessment</label>
               <input
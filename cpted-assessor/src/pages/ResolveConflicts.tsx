@@ -0,0 +1,475 @@
+/**
+ * Compare this iPad's copy of an assessment with the server's and choose, row
+ * by row, which version of each difference survives.
+ *
+ * Reached when both copies changed since the last sync. Where only one side
+ * touched something, the row arrives already chosen (the three-way rule in
+ * services/merge.ts); only what both changed — or everything, when this iPad
+ * holds no ancestor to ask — waits on the assessor. Nothing is written until
+ * Merge and Sync, which saves the result as a new revision and pushes it.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import HeaderBackButton from '../components/HeaderBackButton';
+import ThemeToggle from '../components/ThemeToggle';
+import SignInDialog from '../components/SignInDialog';
+import {
+  compareWithServer,
+  resolveAndSync,
+  DivergedError,
+  type ServerComparison,
+} from '../services/sync';
+import { AuthRequiredError } from '../services/auth';
+import { revisionLabel } from '../services/revision';
+import { SCHOOL_PROFILE_FIELDS } from '../services/school-profile';
+import { getRatingLabel, getSiteFactQuestions, isSchoolRating } from 'cpted-checklist';
+import type { Choices, Difference, DifferenceScope, MergeContent, Side } from '../services/merge';
+import type {
+  Building,
+  ItemScore,
+  LightReading,
+  LightSurvey,
+  Recommendation,
+  SchoolRating,
+  SiteFacts,
+  ZoneScore,
+} from '../types';
+
+const SECTION_ORDER: { scope: DifferenceScope; title: string }[] = [
+  { scope: 'assessment', title: 'Assessment details' },
+  { scope: 'school_profile', title: 'School information' },
+  { scope: 'recommendation', title: 'Recommendations' },
+  { scope: 'quick_win', title: 'Quick wins' },
+  { scope: 'zone', title: 'Zone notes' },
+  { scope: 'item', title: 'Checklist items' },
+  { scope: 'photo', title: 'Photos' },
+  { scope: 'light_survey', title: 'Light surveys' },
+  { scope: 'light_reading', title: 'Light readings' },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  property_type: 'Property type',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zip: 'ZIP',
+  homeowner_name: 'Homeowner / site name',
+  homeowner_contact: 'Contact',
+  contact_phone: 'Contact phone',
+  assessor_name: 'Assessor',
+  assessor_badge_id: 'Badge ID',
+  assessment_type: 'Assessment type',
+  follows_assessment_id: 'Follows up on',
+  weather_conditions: 'Weather',
+  time_of_assessment: 'Time of assessment',
+  date_of_assessment: 'Date of assessment',
+  report_signed_on: 'Report signed on',
+  template_version: 'Checklist version',
+  buildings: 'Buildings',
+  main_building_name: 'Main building name',
+  site_facts: 'Site facts',
+  notes: 'Notes',
+  assessor_signature: 'Signature',
+  photo: 'Overall photo',
+  build_history: 'Build history',
+  description: 'Description',
+  priority: 'Priority',
+  order: 'Position',
+  type: 'Kind',
+  priority_findings: 'Priority findings',
+  score: 'Score',
+  is_na: 'N/A',
+  na_reason: 'N/A reason',
+  item_text: 'Wording',
+  custom_guidance: 'Guidance',
+  ...Object.fromEntries(SCHOOL_PROFILE_FIELDS.map((f) => [f.key, f.label])),
+};
+
+/** Anything without a label of its own: light-survey columns, mostly. */
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+}
+
+function findRow<T>(rows: T[], match: (row: T) => boolean): T | undefined {
+  return rows.find(match);
+}
+
+/** What the row is, from whichever copy still has it. */
+function rowTitle(d: Difference, local: MergeContent, remote: MergeContent): string {
+  const either = <T,>(pick: (c: MergeContent) => T[], match: (row: T) => boolean) =>
+    findRow(pick(local), match) ?? findRow(pick(remote), match);
+
+  switch (d.scope) {
+    case 'assessment':
+    case 'school_profile':
+      return fieldLabel(d.field ?? '');
+    case 'recommendation':
+    case 'quick_win': {
+      const list = (c: MergeContent) =>
+        d.scope === 'recommendation' ? c.assessment.top_recommendations : c.assessment.quick_wins;
+      const rec = either<Recommendation>(list, (r) => r.id === d.key);
+      return rec?.description || 'Untitled';
+    }
+    case 'zone':
+      return either<ZoneScore>((c) => c.zone_scores, (z) => z.zone_key === d.key)?.zone_name ?? d.key;
+    case 'item':
+      return either<ItemScore>((c) => c.item_scores, (i) => i.id === d.key)?.item_text ?? 'Checklist item';
+    case 'photo':
+      return 'Photo';
+    case 'light_survey':
+      return either<LightSurvey>((c) => c.light_surveys, (s) => s.id === d.key)?.area_name || 'Light survey';
+    case 'light_reading': {
+      const reading = either<LightReading>((c) => c.light_readings, (r) => r.id === d.key);
+      const survey = reading
+        ? either<LightSurvey>((c) => c.light_surveys, (s) => s.id === reading.survey_id)
+        : undefined;
+      return `${survey?.area_name || 'Survey'} · point ${reading?.point_index ?? '?'}`;
+    }
+  }
+}
+
+/** Secondary line under the title: which field, or where the item sits. */
+function rowSubtitle(d: Difference, local: MergeContent, remote: MergeContent): string | null {
+  if (d.scope === 'assessment' || d.scope === 'school_profile') return null;
+  if (d.scope === 'item') {
+    const item =
+      findRow(local.item_scores, (i) => i.id === d.key) ??
+      findRow(remote.item_scores, (i) => i.id === d.key);
+    const zone = item
+      ? findRow(local.zone_scores, (z) => z.zone_key === item.zone_key)?.zone_name ?? item.zone_key
+      : null;
+    const where = [zone, item?.principle].filter(Boolean).join(' · ');
+    return d.field ? `${where} — ${fieldLabel(d.field)}` : where || null;
+  }
+  return d.field ? fieldLabel(d.field) : null;
+}
+
+function itemText(content: MergeContent, itemId: string): string {
+  return content.item_scores.find((i) => i.id === itemId)?.item_text ?? 'a checklist item';
+}
+
+/** One side's value, as text or a picture. */
+function ValueView({
+  d,
+  side,
+  content,
+}: {
+  d: Difference;
+  side: Side;
+  content: MergeContent;
+}) {
+  const value = side === 'local' ? d.local : d.server;
+
+  if (d.scope === 'photo') {
+    return <span>{value ? `On “${itemText(content, value as string)}”` : 'Not included'}</span>;
+  }
+  if (d.field === null) {
+    if (value === undefined) return <span className="italic text-ink/50">Deleted</span>;
+    return <span>Present</span>;
+  }
+  if (value === null || value === undefined || value === '') {
+    return <span className="italic text-ink/40">Blank</span>;
+  }
+  if (typeof value === 'string' && value.startsWith('data:image')) {
+    return <img src={value} alt="" className="max-h-24 rounded border border-ink/10 bg-white" />;
+  }
+  if (typeof value === 'boolean') return <span>{value ? 'Yes' : 'No'}</span>;
+  if (d.field === 'score' && isSchoolRating(value as ItemScore['score'])) {
+    return <span>{getRatingLabel(value as SchoolRating)}</span>;
+  }
+  if (d.field === 'buildings') {
+    return <span>{(value as Building[]).map((b) => b.name).join(', ') || '—'}</span>;
+  }
+  if (d.field === 'site_facts') {
+    const facts = value as SiteFacts;
+    const answered = getSiteFactQuestions(content.assessment.property_type).filter(
+      (q) => facts[q.key] !== undefined,
+    );
+    return (
+      <span className="whitespace-pre-wrap">
+        {answered.map((q) => `${q.question} ${facts[q.key] ? 'Yes' : 'No'}`).join('\n') || '—'}
+      </span>
+    );
+  }
+  if (Array.isArray(value)) return <span>{value.join(', ') || '—'}</span>;
+  if (typeof value === 'object') return <span className="break-all">{JSON.stringify(value)}</span>;
+  return <span className="whitespace-pre-wrap break-words">{String(value)}</span>;
+}
+
+export default function ResolveConflicts() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [comparison, setComparison] = useState<ServerComparison | null>(null);
+  const [choices, setChoices] = useState<Choices>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [signInReason, setSignInReason] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
+
+  const load = useCallback(() => {
+    if (!id) return;
+    setLoadError(null);
+    compareWithServer(id)
+      .then((result) => {
+        setComparison(result);
+        setChoices({});
+      })
+      .catch((err) => {
+        if (err instanceof AuthRequiredError) setSignInReason(err.message);
+        else setLoadError(err instanceof Error ? err.message : 'Could not reach the server');
+      });
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const sections = useMemo(() => {
+    if (!comparison) return [];
+    return SECTION_ORDER.map((section) => ({
+      ...section,
+      differences: comparison.differences.filter((d) => d.scope === section.scope),
+    })).filter((section) => section.differences.length > 0);
+  }, [comparison]);
+
+  const sideOf = (d: Difference): Side | null => choices[d.id] ?? d.suggested;
+  const undecided = comparison ? comparison.differences.filter((d) => sideOf(d) === null).length : 0;
+
+  function choose(differences: Difference[], side: Side) {
+    setChoices((prev) => {
+      const next = { ...prev };
+      for (const d of differences) next[d.id] = side;
+      return next;
+    });
+  }
+
+  async function handleSave() {
+    if (!id || !comparison) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await resolveAndSync(id, comparison, choices, setProgress);
+      navigate(`/assessment/${id}/summary`);
+    } catch (err) {
+      if (err instanceof AuthRequiredError) {
+        setSignInReason(err.message);
+      } else if (err instanceof DivergedError) {
+        // Somebody pushed while this screen was open. The choices made so far
+        // are already saved here, so compare again against their new copy.
+        setComparison(null);
+        load();
+        setSaveError(
+          `${err.server.last_edited_by ?? 'Another iPad'} synced while you were choosing. Your choices are kept on this iPad; check the remaining differences.`,
+        );
+      } else {
+        setSaveError(err instanceof Error ? err.message : 'Sync failed');
+      }
+    } finally {
+      setSaving(false);
+      setProgress(null);
+    }
+  }
+
+  const localRevision = comparison ? revisionLabel(comparison.local.assessment) : null;
+  const serverRevision = comparison ? revisionLabel(comparison.server) : null;
+
+  return (
+    <div className="min-h-full flex flex-col">
+      <header className="bg-navy text-white px-4 py-2 flex items-center gap-3 sticky top-0 z-10">
+        <HeaderBackButton to={`/assessment/${id}/summary`} label="Summary" />
+        <div className="flex-1 min-w-0">
+          <h1 className="font-bold truncate">Compare Copies</h1>
+          {comparison && (
+            <p className="text-xs text-white/60 truncate">
+              {comparison.local.assessment.homeowner_name || comparison.local.assessment.address}
+            </p>
+          )}
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 p-4 sm:p-6 max-w-4xl w-full mx-auto pb-32">
+        {loadError ? (
+          <div className="bg-surface border border-ink/10 rounded-xl p-5 text-center">
+            <p className="text-sm text-red-600 mb-3">{loadError}</p>
+            <button
+              type="button"
+              onClick={load}
+              className="px-5 py-2.5 rounded-xl bg-navy text-white font-semibold text-sm active:scale-95 transition-all"
+            >
+              Try again
+            </button>
+          </div>
+        ) : !comparison ? (
+          <div className="flex justify-center py-16">
+            <div className="loading-spinner" />
+          </div>
+        ) : comparison.differences.length === 0 ? (
+          <div className="bg-surface border border-ink/10 rounded-xl p-5">
+            <p className="text-sm text-ink/70">
+              The two copies hold the same content. Merge and Sync records that on the server and
+              clears the warning.
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-ink/60 mb-4">
+              {comparison.hasBase
+                ? 'Rows changed on only one copy are already chosen. Pick a side for every row marked “Changed on both”; you can override any other choice too.'
+                : 'This iPad has no record of the last copy the two had in common, so nothing can be chosen for you. Pick a side for every row, or use the buttons below to take one copy throughout.'}
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-5">
+              <button
+                type="button"
+                onClick={() => choose(comparison.differences, 'local')}
+                className="px-4 py-2 rounded-lg text-sm font-semibold border border-navy text-navy bg-surface hover:bg-blue-pale active:scale-95 transition-all"
+              >
+                Keep everything from this iPad
+              </button>
+              <button
+                type="button"
+                onClick={() => choose(comparison.differences, 'server')}
+                className="px-4 py-2 rounded-lg text-sm font-semibold border border-navy text-navy bg-surface hover:bg-blue-pale active:scale-95 transition-all"
+              >
+                Take everything from the server
+              </button>
+            </div>
+
+            {sections.map((section) => (
+              <section
+                key={section.scope}
+                className="bg-surface border border-ink/10 rounded-xl mb-5 overflow-hidden"
+              >
+                <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-ink/10">
+                  <h2 className="font-bold text-ink">
+                    {section.title}
+                    <span className="ml-2 text-xs font-normal text-ink/50">
+                      {section.differences.length} difference
+                      {section.differences.length === 1 ? '' : 's'}
+                    </span>
+                  </h2>
+                  <div className="flex gap-1.5 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => choose(section.differences, 'local')}
+                      className="px-2.5 py-1 rounded-md text-xs font-semibold text-blue-600 bg-blue-50 hover:bg-blue-100"
+                    >
+                      All mine
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => choose(section.differences, 'server')}
+                      className="px-2.5 py-1 rounded-md text-xs font-semibold text-blue-600 bg-blue-50 hover:bg-blue-100"
+                    >
+                      All server
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 px-4 pt-3 text-xs font-semibold uppercase tracking-wide text-ink/50">
+                  <span>This iPad{localRevision ? ` (${localRevision})` : ''}</span>
+                  <span>
+                    Server{serverRevision ? ` (${serverRevision})` : ''}
+                    {comparison.server.last_edited_by ? ` · ${comparison.server.last_edited_by}` : ''}
+                  </span>
+                </div>
+
+                <ul className="divide-y divide-ink/5">
+                  {section.differences.map((d) => {
+                    const chosen = sideOf(d);
+                    const conflict = comparison.hasBase && d.suggested === null;
+                    const subtitle = rowSubtitle(d, comparison.local, comparison.remote);
+                    return (
+                      <li key={d.id} className="px-4 py-3">
+                        <div className="flex items-start justify-between gap-2 mb-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-ink break-words">
+                              {rowTitle(d, comparison.local, comparison.remote)}
+                            </p>
+                            {subtitle && <p className="text-xs text-ink/50 mt-0.5">{subtitle}</p>}
+                          </div>
+                          {conflict && (
+                            <span className="text-[10px] font-bold uppercase tracking-wide text-red-700 bg-red-50 px-2 py-0.5 rounded flex-shrink-0">
+                              Changed on both
+                            </span>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          {(['local', 'server'] as const).map((side) => (
+                            <button
+                              key={side}
+                              type="button"
+                              aria-pressed={chosen === side}
+                              onClick={() => choose([d], side)}
+                              className={`text-left text-sm rounded-lg border px-3 py-2 min-h-11 transition-all ${
+                                chosen === side
+                                  ? 'border-navy bg-blue-pale ring-2 ring-navy/30 text-ink'
+                                  : 'border-ink/15 text-ink/70 hover:bg-blue-pale/50'
+                              }`}
+                            >
+                              <ValueView
+                                d={d}
+                                side={side}
+                                content={side === 'local' ? comparison.local : comparison.remote}
+                              />
+                              {d.suggested === side && choices[d.id] === undefined && (
+                                <span className="block text-[10px] text-ink/40 mt-1">
+                                  {side === 'local' ? 'Changed here' : 'Changed on the server'}
+                                </span>
+                              )}
+                            </button>
+                          ))}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+          </>
+        )}
+      </main>
+
+      {comparison && (
+        <footer className="sticky bottom-0 bg-surface border-t border-ink/10 px-4 py-3">
+          <div className="max-w-4xl mx-auto flex items-center gap-3">
+            <p className="flex-1 text-sm text-ink/70 min-w-0">
+              {saveError ? (
+                <span className="text-red-600">{saveError}</span>
+              ) : saving ? (
+                progress ? `Uploading photos ${progress.current} of ${progress.total}...` : 'Saving...'
+              ) : undecided > 0 ? (
+                `${undecided} row${undecided === 1 ? '' : 's'} still to choose`
+              ) : (
+                'Saved here as a new version, then sent to the server.'
+              )}
+            </p>
+            <button
+              type="button"
+              disabled={saving || undecided > 0}
+              onClick={handleSave}
+              className="px-5 py-3 rounded-xl bg-navy text-white font-semibold text-sm active:scale-95 transition-all disabled:opacity-40"
+            >
+              {saving ? 'Syncing...' : 'Merge and Sync'}
+            </button>
+          </div>
+        </footer>
+      )}
+
+      {signInReason !== null && (
+        <SignInDialog
+          reason={signInReason}
+          onSignedIn={() => {
+            setSignInReason(null);
+            if (!comparison) load();
+          }}
+          onCancel={() => setSignInReason(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import { formatCompliance, getPropertyTypeLabel } from 'cpted-checklist';
+import type { ComplianceSummary } from 'cpted-checklist';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useSession } from '../hooks/useSession';
+import { AuthRequiredError } from '../services/auth';
+import { getComplianceColor } from '../services/scoring';
+import { pullAssessment } from '../services/sync';
+import { fetchDistrictCompliance } from '../services/school-compliance';
+import type { DistrictCompliance, GroupCompliance, SchoolCompliance as SchoolRow } from '../services/school-compliance';
+import HeaderBackButton from '../components/HeaderBackButton';
+import SignInDialog from '../components/SignInDialog';
+import ThemeToggle from '../components/ThemeToggle';
+
+/** Percent met as a bar, with the counts behind it. */
+function ComplianceBar({ compliance }: { compliance: ComplianceSummary }) {
+  const { percent, met, notMet, uto } = compliance;
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex-1 h-2 rounded-full bg-ink/10 overflow-hidden">
+        {percent !== null && (
+          <div className={`h-full bg-current ${getComplianceColor(percent)}`} style={{ width: `${percent}%` }} />
+        )}
+      </div>
+      <span className={`w-12 text-right font-bold ${percent === null ? 'text-ink/30' : getComplianceColor(percent)}`}>
+        {percent === null ? '—' : formatCompliance(percent)}
+      </span>
+      <span className="w-40 text-right text-xs text-ink/50">
+        {met} met · {notMet} not · {uto} UTO
+      </span>
+    </div>
+  );
+}
+
+function GroupTable({ title, groups }: { title: string; groups: GroupCompliance[] }) {
+  if (groups.length === 0) return null;
+  return (
+    <section className="bg-surface rounded-xl border border-ink/10 shadow-sm p-4">
+      <h2 className="font-bold text-navy mb-3">{title}</h2>
+      <ul className="space-y-2">
+        {groups.map((g) => (
+          <li key={g.key} className="grid grid-cols-[12rem_1fr] items-center gap-3 text-sm">
+            <span className="text-ink truncate">{g.name}</span>
+            <ComplianceBar compliance={g.compliance} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * The district's schools side by side: each school's percent of observable
+ * items met, from its latest assessment, least compliant first, and the
+ * district's figure overall, by zone and by principle — where the money for
+ * fixes should go first. Opening a school downloads it if this iPad does not
+ * hold it, the same pull the Search page does.
+ */
+export default function SchoolCompliance() {
+  const navigate = useNavigate();
+  const online = useOnlineStatus();
+  const session = useSession();
+  const [data, setData] = useState<DistrictCompliance | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [pullingId, setPullingId] = useState<string | null>(null);
+
+  const localIds = useLiveQuery(
+    async () => new Set(await db.assessments.toCollection().primaryKeys()),
+    [],
+  );
+
+  const signedIn = session !== null;
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await fetchDistrictCompliance());
+    } catch (err) {
+      if (err instanceof AuthRequiredError) setSigningIn(true);
+      else setError(err instanceof Error ? err.message : 'Loading compliance failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (online && signedIn) load();
+  }, [online, signedIn, load]);
+
+  async function openSchool(school: SchoolRow) {
+    if (!localIds?.has(school.assessment_id)) {
+      setPullingId(school.assessment_id);
+      try {
+        await pullAssessment(school.assessment_id);
+      } catch (err) {
+        if (err instanceof AuthRequiredError) setSigningIn(true);
+        else setError(err instanceof Error ? err.message : 'Download failed');
+        return;
+      } finally {
+        setPullingId(null);
+      }
+    }
+    navigate(`/assessment/${school.assessment_id}/summary`);
+  }
+
+  return (
+    <div className="min-h-screen bg-blue-pale flex flex-col">
+      <header className="bg-navy text-white px-4 py-2 flex items-center gap-3 sticky top-0 z-10">
+        <HeaderBackButton to="/" label="Home" />
+        <div className="flex-1 min-w-0">
+          <h1 className="font-bold truncate">School Compliance</h1>
+          <p className="text-xs text-white/60 truncate">Percent of observable items met, from each school's latest assessment</p>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 p-6 max-w-4xl w-full mx-auto space-y-4">
+        {!online ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            The district roll-up needs a connection — the schools it compares are on the server.
+          </p>
+        ) : !signedIn ? (
+          <div className="text-center py-12">
+            <p className="text-sm text-ink/50 mb-4">Sign in to see the district's schools.</p>
+            <button
+              type="button"
+              onClick={() => setSigningIn(true)}
+              className="text-sm font-semibold text-white bg-navy hover:bg-navy/90 px-4 py-2 rounded-lg transition-colors"
+            >
+              Sign In
+            </button>
+          </div>
+        ) : error ? (
+          <p className="text-center text-sm text-red-600 py-12">{error}</p>
+        ) : data === null ? (
+          <p className="text-center text-sm text-ink/50 py-12">{loading ? 'Loading…' : ''}</p>
+        ) : data.schools.length === 0 ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            No school on the server has an item rated Yes or No yet.
+          </p>
+        ) : (
+          <>
+            <section className="bg-surface rounded-xl border border-ink/10 shadow-sm p-4">
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="font-bold text-navy">District</h2>
+                <span className="text-xs text-ink/50">
+                  {data.schools.length} school{data.schools.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <ComplianceBar compliance={data.overall} />
+              <p className="text-xs text-ink/50 mt-2">
+                Items pooled across schools, so a large campus counts for more than a small one.
+                Unable to Observe is counted apart and left out of the percent.
+              </p>
+            </section>
+
+            <section className="bg-surface rounded-xl border border-ink/10 shadow-sm p-4">
+              <h2 className="font-bold text-navy mb-3">Schools, least compliant first</h2>
+              <ul className="divide-y divide-ink/10">
+                {data.schools.map((school) => (
+                  <li key={school.assessment_id}>
+                    <button
+                      type="button"
+                      onClick={() => openSchool(school)}
+                      disabled={pullingId !== null}
+                      className="w-full text-left py-3 disabled:opacity-60"
+                    >
+                      <div className="flex items-baseline justify-between gap-3 mb-1">
+                        <p className="font-semibold text-ink truncate">{school.school_name || school.address}</p>
+                        <p className="flex-shrink-0 text-xs text-ink/50">
+                          {getPropertyTypeLabel(school.property_type)} · {school.date_of_assessment}
+                        </p>
+                      </div>
+                      <ComplianceBar compliance={school.compliance} />
+                      {pullingId === school.assessment_id ? (
+                        <p className="text-xs text-ink/50 mt-1">Downloading…</p>
+                      ) : (
+                        localIds &&
+                        !localIds.has(school.assessment_id) && (
+                          <p className="text-xs text-ink/50 mt-1">Not on this iPad — opening downloads it.</p>
+                        )
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <GroupTable title="By zone" groups={data.zones} />
+            <GroupTable title="By principle" groups={data.principles} />
+          </>
+        )}
+      </main>
+
+      {signingIn && (
+        <SignInDialog onSignedIn={() => setSigningIn(false)} onCancel={() => setSigningIn(false)} />
+      )}
+    </div>
+  );
+}
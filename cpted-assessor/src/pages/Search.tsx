@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db/database';
+import { getPropertyTypeLabel } from 'cpted-checklist';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useSession } from '../hooks/useSession';
+import { AuthRequiredError } from '../services/auth';
+import { pullAssessment } from '../services/sync';
+import { HIT_KIND_LABELS, searchServer, snippetParts } from '../services/search';
+import type { SearchHit } from '../services/search';
+import HeaderBackButton from '../components/HeaderBackButton';
+import SignInDialog from '../components/SignInDialog';
+import ThemeToggle from '../components/ThemeToggle';
+
+/** Pause after the last keystroke before searching. */
+const SEARCH_DEBOUNCE_MS = 400;
+
+function Snippet({ text }: { text: string }) {
+  return (
+    <p className="text-sm text-ink/80 mt-1">
+      {snippetParts(text).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-yellow-200 text-ink rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * Search the words on every assessment on the server. A hit on an assessment
+ * this iPad holds opens it; any other is downloaded first, the same pull the
+ * Server tab does.
+ */
+export default function Search() {
+  const navigate = useNavigate();
+  const online = useOnlineStatus();
+  const session = useSession();
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [pullingId, setPullingId] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const localIds = useLiveQuery(
+    async () => new Set(await db.assessments.toCollection().primaryKeys()),
+    [],
+  );
+
+  const signedIn = session !== null;
+  useEffect(() => {
+    const q = query.trim();
+    if (q === '' || !online || !signedIn) return;
+    const timer = setTimeout(async () => {
+      const request = ++requestRef.current;
+      setSearching(true);
+      setError(null);
+      try {
+        const result = await searchServer(q);
+        if (request === requestRef.current) setHits(result);
+      } catch (err) {
+        if (request !== requestRef.current) return;
+        if (err instanceof AuthRequiredError) setSigningIn(true);
+        else setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (request === requestRef.current) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, online, signedIn]);
+
+  async function openHit(hit: SearchHit) {
+    if (!localIds?.has(hit.assessment_id)) {
+      setPullingId(hit.assessment_id);
+      try {
+        await pullAssessment(hit.assessment_id);
+      } catch (err) {
+        if (err instanceof AuthRequiredError) setSigningIn(true);
+        else setError(err instanceof Error ? err.message : 'Download failed');
+        return;
+      } finally {
+        setPullingId(null);
+      }
+    }
+    navigate(`/assessment/${hit.assessment_id}`);
+  }
+
+  return (
+    <div className="min-h-screen bg-blue-pale flex flex-col">
+      <header className="bg-navy text-white px-4 py-2 flex items-center gap-3 sticky top-0 z-10">
+        <HeaderBackButton to="/" label="Home" />
+        <div className="flex-1 min-w-0">
+          <h1 className="font-bold truncate">Search Assessments</h1>
+          <p className="text-xs text-white/60 truncate">Findings, notes and recommendations on the server</p>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 p-6 max-w-4xl w-full mx-auto">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="gate latch, vestibule, &quot;visitor sign-in&quot;…"
+          className="w-full rounded-lg border border-ink/20 px-4 py-3 text-base bg-surface outline-none focus:border-blue-medium focus:ring-2 focus:ring-blue-medium/30"
+          aria-label="Search text"
+          autoFocus
+        />
+
+        {!online ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            Search needs a connection — the text it looks through is on the server.
+          </p>
+        ) : !signedIn ? (
+          <div className="text-center py-12">
+            <p className="text-sm text-ink/50 mb-4">Sign in to search the server.</p>
+            <button
+              type="button"
+              onClick={() => setSigningIn(true)}
+              className="text-sm font-semibold text-white bg-navy hover:bg-navy/90 px-4 py-2 rounded-lg transition-colors"
+            >
+              Sign In
+            </button>
+          </div>
+        ) : error ? (
+          <p className="text-center text-sm text-red-600 py-12">{error}</p>
+        ) : query.trim() === '' || hits === null ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            {searching
+              ? 'Searching…'
+              : 'Words are matched by stem, so “latches” finds “latch”. Put a phrase in quotes; put - before a word to leave it out.'}
+          </p>
+        ) : hits.length === 0 ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            {searching ? 'Searching…' : 'Nothing matches.'}
+          </p>
+        ) : (
+          <ul className={`mt-4 space-y-3 ${searching ? 'opacity-60' : ''}`}>
+            {hits.map((hit, i) => (
+              <li key={`${hit.assessment_id}-${hit.kind}-${hit.item_score_id ?? hit.zone_key ?? i}-${i}`}>
+                <button
+                  type="button"
+                  onClick={() => openHit(hit)}
+                  disabled={pullingId !== null}
+                  className="w-full text-left bg-surface rounded-xl border border-ink/10 shadow-sm hover:shadow-md hover:border-ink/20 transition-all p-4 disabled:opacity-60"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold text-ink truncate">{hit.address}</p>
+                      <p className="text-xs text-ink/50">
+                        {hit.city}, {hit.state} · {getPropertyTypeLabel(hit.property_type)} ·{' '}
+                        {hit.date_of_assessment}
+                      </p>
+                    </div>
+                    <span className="flex-shrink-0 text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-blue-pale text-navy">
+                      {HIT_KIND_LABELS[hit.kind]}
+                    </span>
+                  </div>
+                  {(hit.zone_name || hit.item_text) && (
+                    <p className="text-xs text-ink/60 mt-2">
+                      {hit.zone_name}
+                      {hit.zone_name && hit.item_text ? ' — ' : ''}
+                      {hit.item_text}
+                    </p>
+                  )}
+                  <Snippet text={hit.snippet} />
+                  {pullingId === hit.assessment_id ? (
+                    <p className="text-xs text-ink/50 mt-2">Downloading…</p>
+                  ) : (
+                    localIds &&
+                    !localIds.has(hit.assessment_id) && (
+                      <p className="text-xs text-ink/50 mt-2">Not on this iPad — opening downloads it.</p>
+                    )
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+
+      {signingIn && (
+        <SignInDialog onSignedIn={() => setSigningIn(false)} onCancel={() => setSigningIn(false)} />
+      )}
+    </div>
+  );
+}
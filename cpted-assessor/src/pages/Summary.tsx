@@ -1,26 +1,54 @@
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db/database';
-import { getZonesForType, isSchoolType } from '../data/zone-registry';
 import {
-  persistAllScores,
-  getScoreColor,
-  getScoreBgColor,
-  getScoreLabel,
-  getCompletionCounts,
-} from '../services/scoring';
+  CRITICAL_SCORE_CAP,
+  buildPrincipleMatrix,
+  calculateBuildingScore,
+  calculateCompliance,
+  calculatePrincipleCompliance,
+  calculateWeightedScore,
+  checkCompletion,
+  formatCompliance,
+  groupItemsByZone,
+  groupZonesByBuilding,
+  isSchoolType,
+} from 'cpted-checklist';
+import { getScoreLabel, getCompletionCounts } from 'cpted-checklist';
+import { persistAllScores, getComplianceColor, getScoreColor, getScoreBgColor } from '../services/scoring';
 import { generatePDF } from '../services/pdf';
+import { dropDuplicateRecommendations, preflightReport } from '../services/preflight';
+import type { PreflightFix, PreflightIssue } from '../services/preflight';
 import { todayLocalISO } from '../services/report-date';
 import { touchAssessment } from '../services/touch';
-import { generateRecommendations, generateQuickWins, generateFenceRecommendation } from '../services/recommendations';
-import { syncAssessment, checkServerHealth, DivergedError } from '../services/sync';
+import { pinnedVersion } from '../services/template-upgrade';
+import { assessmentZones } from '../services/buildings';
+import {
+  generateRecommendations,
+  generateQuickWins,
+  generateFenceRecommendation,
+  saveRecommendations,
+} from '../services/recommendations';
+import {
+  syncAssessment,
+  checkServerHealth,
+  DivergedError,
+  MergeConflictError,
+} from '../services/sync';
 import { revisionLabel } from '../services/revision';
+import { AuthRequiredError } from '../services/auth';
 import ConfirmDialog from '../components/ConfirmDialog';
+import SignInDialog from '../components/SignInDialog';
+import ReviewPanel from '../components/ReviewPanel';
+import { REVIEW_STATUS_LABELS, isReviewStatus } from '../services/review';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import HeaderBackButton from '../components/HeaderBackButton'
 import HeaderActions from '../components/HeaderActions';
 import RecommendationEditor from '../components/RecommendationEditor';
+import PrincipleMatrix from '../components/PrincipleMatrix';
+import CompletionCheck from '../components/CompletionCheck';
+import PreflightPanel from '../components/PreflightPanel';
 import SignaturePad from '../components/SignaturePad';
 import EditAssessmentInfo from '../components/EditAssessmentInfo';
 import ThemeToggle from '../components/ThemeToggle';
@@ -34,6 +62,7 @@ All new construction or retrofits should comply with existing building codes, zo
 
 export default function Summary() {
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const online = useOnlineStatus();
 
   const assessment = useLiveQuery(
@@ -58,10 +87,16 @@ export default function Summary() {
     [id],
   );
 
-  // Derive zones from assessment property type
+  // Derive zones from assessment property type, buildings' copies included
   const zones = useMemo(
-    () => getZonesForType(assessment?.property_type ?? 'single_family_residential'),
-    [assessment?.property_type],
+    () =>
+      assessmentZones({
+        property_type: assessment?.property_type ?? 'single_family_residential',
+        template_version: assessment?.template_version,
+        buildings: assessment?.buildings,
+        main_building_name: assessment?.main_building_name,
+      }),
+    [assessment?.property_type, assessment?.template_version, assessment?.buildings, assessment?.main_building_name],
   );
 
   // Recalculate all scores on mount for fresh data
@@ -93,7 +128,8 @@ export default function Summary() {
       if (!id) return;
       if (debounceRef.current) clearTimeout(debounceRef.current);
       debounceRef.current = setTimeout(() => {
-        touchAssessment(id, { top_recommendations: recs, quick_wins: qw });
+        debounceRef.current = null;
+        saveRecommendations(id, recs, qw);
       }, 500);
     },
     [id],
@@ -129,10 +165,15 @@ export default function Summary() {
     try {
       setRecsError(null);
       const pt = assessment.property_type;
-      const recs = generateRecommendations(itemScores, id, 5, pt);
+      const version = pinnedVersion(assessment);
+      const recs = generateRecommendations(
+        itemScores, id, 5, pt, version, assessment.buildings, assessment.main_building_name,
+      );
       const fenceRec = generateFenceRecommendation(itemScores, id, recs, pt);
       if (fenceRec) recs.push(fenceRec);
-      const qw = generateQuickWins(itemScores, id, 5, pt);
+      const qw = generateQuickWins(
+        itemScores, id, 5, pt, version, assessment.buildings, assessment.main_building_name,
+      );
       setRecommendations(recs);
       setQuickWins(qw);
       persistRecs(recs, qw);
@@ -144,12 +185,17 @@ export default function Summary() {
 
   const [generating, setGenerating] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
+  const [preflightIssues, setPreflightIssues] = useState<PreflightIssue[] | null>(null);
+  const [fixing, setFixing] = useState(false);
 
   const [editInfoOpen, setEditInfoOpen] = useState(false);
+  const [confirmWarningsOpen, setConfirmWarningsOpen] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [syncProgress, setSyncProgress] = useState<{ current: number; total: number } | null>(null);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [pushConflict, setPushConflict] = useState<DivergedError | null>(null);
+  // Set when a sync was refused for want of a session; the dialog retries it.
+  const [signInReason, setSignInReason] = useState<string | null>(null);
   const [syncSuccess, setSyncSuccess] = useState<string | null>(null);
   const [serverReachable, setServerReachable] = useState<boolean | null>(null);
 
@@ -158,14 +204,14 @@ export default function Summary() {
     checkServerHealth().then(setServerReachable);
   }, []);
 
-  async function handleSync(force = false) {
+  async function handleSync(force = false, baseRevision?: number | null) {
     setPushConflict(null);
     if (!id) return;
     setSyncing(true);
     setSyncError(null);
     setSyncSuccess(null);
     try {
-      const result = await syncAssessment(id, setSyncProgress, { force });
+      const result = await syncAssessment(id, setSyncProgress, { force, baseRevision });
       setSyncSuccess(
         `Synced successfully${result.photosUploaded > 0 ? ` (${result.photosUploaded} photos uploaded)` : ''}`
       );
@@ -175,6 +221,10 @@ export default function Summary() {
       // instead of quietly winning.
       if (err instanceof DivergedError) {
         setPushConflict(err);
+      } else if (err instanceof AuthRequiredError) {
+        // Nothing local was touched — the edits stay on this iPad, still
+        // marked unsynced, until the assessor signs in and tries again.
+        setSignInReason(err.message);
       } else {
         setSyncError(err instanceof Error ? err.message : 'Sync failed');
       }
@@ -184,11 +234,29 @@ export default function Summary() {
     }
   }
 
-  async function handleGeneratePDF() {
+  // Pre-flight and the PDF read recommendations from Dexie, so an edit still
+  // waiting on the debounce is written first.
+  async function flushRecs() {
+    if (!id || !debounceRef.current) return;
+    clearTimeout(debounceRef.current);
+    debounceRef.current = null;
+    await saveRecommendations(id, recommendations, quickWins);
+  }
+
+  async function handleGeneratePDF(skipPreflight = false) {
     if (!id) return;
     setGenerating(true);
     setPdfError(null);
     try {
+      await flushRecs();
+      if (!skipPreflight) {
+        const issues = await preflightReport(id);
+        if (issues.length > 0) {
+          setPreflightIssues(issues);
+          return;
+        }
+      }
+      setPreflightIssues(null);
       await generatePDF(id);
     } catch (err) {
       setPdfError(err instanceof Error ? err.message : 'Failed to generate PDF');
@@ -197,6 +265,37 @@ export default function Summary() {
     }
   }
 
+  async function handlePreflightFix(fix: PreflightFix) {
+    if (!id) return;
+    setFixing(true);
+    try {
+      switch (fix.kind) {
+        case 'drop_duplicates': {
+          const unique = dropDuplicateRecommendations(recommendations, quickWins);
+          if (debounceRef.current) clearTimeout(debounceRef.current);
+          debounceRef.current = null;
+          setRecommendations(unique.recommendations);
+          setQuickWins(unique.quickWins);
+          await saveRecommendations(id, unique.recommendations, unique.quickWins);
+          break;
+        }
+        case 'sign_on':
+          await touchAssessment(id, { report_signed_on: fix.date });
+          break;
+        case 'sync':
+          await handleSync();
+          break;
+      }
+      // Whatever is left after the fix; an empty list closes the panel.
+      const issues = await preflightReport(id);
+      setPreflightIssues(issues.length > 0 ? issues : null);
+    } catch (err) {
+      setPdfError(err instanceof Error ? err.message : 'Failed to apply the fix');
+    } finally {
+      setFixing(false);
+    }
+  }
+
   async function handleMarkComplete() {
     if (!id) return;
     await touchAssessment(id, {
@@ -245,18 +344,49 @@ export default function Summary() {
   // Build item counts per zone for the table
   const itemCountsByZone = new Map<
     string,
-    { scored: number; total: number }
+    { scored: number; total: number; uto: number }
   >();
   if (itemScores) {
     for (const zone of zones) {
       const zoneItems = itemScores.filter((s) => s.zone_key === zone.key);
       const { scored, total } = getCompletionCounts(zoneItems);
-      itemCountsByZone.set(zone.key, { scored, total });
+      itemCountsByZone.set(zone.key, { scored, total, uto: calculateCompliance(zoneItems).uto });
     }
   }
 
+  // Per-building roll-ups: each building weighted over its own zones, the way
+  // the overall score is over all of them.
+  const buildingGroups = groupZonesByBuilding(zones, assessment.buildings, assessment.main_building_name);
+  const buildingRollups =
+    buildingGroups.length > 1 && itemScores
+      ? buildingGroups.map((group) => {
+          const keys = new Set(group.zones.map((z) => z.key));
+          const items = itemScores.filter((s) => keys.has(s.zone_key));
+          const { scored, total } = getCompletionCounts(items);
+          const completed = (zoneScores ?? []).filter((zs) => keys.has(zs.zone_key) && zs.completed).length;
+          return {
+            group,
+            average: calculateBuildingScore(assessment.property_type, group, items, pinnedVersion(assessment)),
+            compliance: calculateCompliance(items).percent,
+            scored,
+            total,
+            completed,
+          };
+        })
+      : [];
+
   const overall = assessment.overall_score;
-  const isComplete = assessment.status === 'completed';
+  // The unweighted figure, and any critical item holding the score down —
+  // shown under the overall score so neither surprises anyone.
+  const weighting = calculateWeightedScore(
+    assessment.property_type,
+    groupItemsByZone(itemScores ?? []),
+    pinnedVersion(assessment),
+  );
+  // A report under review is finished as far as the assessor is concerned;
+  // Reopen is still how they take it back to change something.
+  const isComplete = assessment.status === 'completed' || isReviewStatus(assessment.status);
+  const reviewLabel = REVIEW_STATUS_LABELS[assessment.status];
 
   // Schools use Yes/No/UTO and carry no aggregate score. The PDF gate keys off
   // "has at least one rated item" instead of overall_score (always null here).
@@ -264,6 +394,30 @@ export default function Summary() {
   const ratedCount = (itemScores ?? []).filter((s) => s.score !== null).length;
   const totalItems = (itemScores ?? []).length;
   const canGeneratePDF = isSchool ? ratedCount > 0 : overall !== null;
+  // A school's headline: percent of observable items met, with the counts
+  // behind it and the Unable to Observe items counted apart. Per principle
+  // across every zone, too — the district compares schools on both.
+  const compliance = calculateCompliance(itemScores ?? []);
+  const principleCompliance = isSchool
+    ? [...new Map(zones.flatMap((z) => z.principles.map((p) => [p.key, p.name] as const)))]
+        .map(([key, name]) => ({ key, name, ...calculatePrincipleCompliance(itemScores ?? [], key) }))
+        .filter((p) => p.met + p.notMet + p.uto > 0)
+    : [];
+  // Zones against principles, for the principle that is weak everywhere.
+  const principleMatrix = buildPrincipleMatrix(assessment.property_type, zones, itemScores ?? []);
+  const matrixHasValues = principleMatrix.totals.some((cell) => cell.value !== null);
+  // The template's completion rules, against the recommendations as edited
+  // here rather than as last saved — the save is debounced.
+  const completionViolations = checkCompletion({
+    propertyType: assessment.property_type,
+    templateVersion: pinnedVersion(assessment),
+    zones,
+    items: (itemScores ?? []).map((s) => ({ ...s, photo_count: s.photo_ids.length })),
+    findings: new Map((zoneScores ?? []).map((zs) => [zs.zone_key, zs.priority_findings])),
+    recommendations: [...recommendations, ...quickWins],
+    signature: assessment.assessor_signature,
+  });
+  const blockingCount = completionViolations.filter((v) => v.severity === 'block').length;
 
   return (
     <div className="min-h-screen bg-blue-pale">
@@ -308,7 +462,9 @@ export default function Summary() {
             }`}
           >
             <span className="sm:hidden">{isComplete ? 'Done' : 'WIP'}</span>
-            <span className="hidden sm:inline">{isComplete ? 'Completed' : 'In Progress'}</span>
+            <span className="hidden sm:inline">
+              {reviewLabel ?? (isComplete ? 'Completed' : 'In Progress')}
+            </span>
           </span>
         </div>
       </header>
@@ -320,13 +476,27 @@ export default function Summary() {
         {isSchool ? (
           <div className="bg-surface rounded-xl border border-ink/10 shadow-sm p-8 text-center">
             <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide mb-2">
-              Checklist Progress
+              Compliance
             </h2>
-            <p className="text-5xl font-bold text-navy">
-              {ratedCount}
-              <span className="text-2xl font-normal text-ink/40"> / {totalItems}</span>
+            {assessment.compliance_pct != null ? (
+              <>
+                <p className={`text-5xl font-bold ${getComplianceColor(assessment.compliance_pct)}`}>
+                  {formatCompliance(assessment.compliance_pct)}
+                </p>
+                <p className="text-sm text-ink/40 mt-1">of observable items met</p>
+                <p className="text-xs text-ink/50 mt-3">
+                  {compliance.met} met · {compliance.notMet} not met · {compliance.uto} unable to observe
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-5xl font-bold text-ink/20">&mdash;</p>
+                <p className="text-sm text-ink/40 mt-1">No items rated Yes or No yet</p>
+              </>
+            )}
+            <p className="text-xs text-ink/50 mt-1">
+              {ratedCount} / {totalItems} items rated (Yes / No / UTO)
             </p>
-            <p className="text-sm text-ink/40 mt-1">items rated (Yes / No / UTO)</p>
           </div>
         ) : (
           <div className="bg-surface rounded-xl border border-ink/10 shadow-sm p-8 text-center">
@@ -344,6 +514,19 @@ export default function Summary() {
                 >
                   {getScoreLabel(overall)}
                 </span>
+                {weighting.unweighted !== null && (
+                  <p className="text-xs text-ink/50 mt-3">
+                    Weighted by zone and principle · unweighted average {weighting.unweighted.toFixed(1)}
+                  </p>
+                )}
+                {weighting.cappedBy.length > 0 && (
+                  <p className="text-xs text-red-700 dark:text-red-400 mt-1">
+                    Capped at {CRITICAL_SCORE_CAP.toFixed(1)} by{' '}
+                    {weighting.cappedBy.length === 1
+                      ? `a critical item: ${weighting.cappedBy[0].item_text}`
+                      : `${weighting.cappedBy.length} critical items`}
+                  </p>
+                )}
               </>
             ) : (
               <>
@@ -366,8 +549,9 @@ export default function Summary() {
               <tr className="text-left text-xs font-bold text-ink/50 uppercase tracking-wide">
                 <th className="px-6 py-3">#</th>
                 <th className="px-6 py-3">Zone</th>
-                {!isSchool && <th className="px-6 py-3 text-center">Avg Score</th>}
+                <th className="px-6 py-3 text-center">{isSchool ? 'Compliance' : 'Avg Score'}</th>
                 <th className="px-6 py-3 text-center">{isSchool ? 'Items Rated' : 'Items Scored'}</th>
+                {isSchool && <th className="px-6 py-3 text-center">UTO</th>}
                 <th className="px-6 py-3 text-center">Status</th>
               </tr>
             </thead>
@@ -382,7 +566,17 @@ export default function Summary() {
                     <td className="px-6 py-3 text-sm font-medium text-ink">
                       {zs.zone_name}
                     </td>
-                    {!isSchool && (
+                    {isSchool ? (
+                      <td className="px-6 py-3 text-center">
+                        {zs.compliance_pct != null ? (
+                          <span className={`text-sm font-bold ${getComplianceColor(zs.compliance_pct)}`}>
+                            {formatCompliance(zs.compliance_pct)}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-ink/25">&mdash;</span>
+                        )}
+                      </td>
+                    ) : (
                       <td className="px-6 py-3 text-center">
                         {zs.average_score !== null ? (
                           <span
@@ -400,6 +594,9 @@ export default function Summary() {
                         ? `${counts.scored} / ${counts.total}`
                         : '—'}
                     </td>
+                    {isSchool && (
+                      <td className="px-6 py-3 text-center text-sm text-ink/60">{counts ? counts.uto : '—'}</td>
+                    )}
                     <td className="px-6 py-3 text-center">
                       <span
                         className={`inline-block w-2.5 h-2.5 rounded-full ${
@@ -418,6 +615,102 @@ export default function Summary() {
           </table>
         </div>
 
+        {/* Building roll-ups — campuses with more than one building only */}
+        {buildingRollups.length > 0 && (
+          <div className="bg-surface rounded-xl border border-ink/10 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-ink/10">
+              <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide">By Building</h2>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs font-bold text-ink/50 uppercase tracking-wide">
+                  <th className="px-6 py-3">Building</th>
+                  <th className="px-6 py-3 text-center">{isSchool ? 'Compliance' : 'Avg Score'}</th>
+                  <th className="px-6 py-3 text-center">{isSchool ? 'Items Rated' : 'Items Scored'}</th>
+                  <th className="px-6 py-3 text-center">Zones Complete</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-ink/5">
+                {buildingRollups.map(({ group, average, compliance: buildingCompliance, scored, total, completed }) => (
+                  <tr key={group.building_id ?? ''}>
+                    <td className="px-6 py-3 text-sm font-medium text-ink">{group.name}</td>
+                    {isSchool ? (
+                      <td className="px-6 py-3 text-center">
+                        {buildingCompliance !== null ? (
+                          <span className={`text-sm font-bold ${getComplianceColor(buildingCompliance)}`}>
+                            {formatCompliance(buildingCompliance)}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-ink/25">&mdash;</span>
+                        )}
+                      </td>
+                    ) : (
+                      <td className="px-6 py-3 text-center">
+                        {average !== null ? (
+                          <span
+                            className={`inline-block px-3 py-1 rounded-full text-sm font-bold ${getScoreBgColor(average)} ${getScoreColor(average)}`}
+                          >
+                            {average.toFixed(1)}
+                          </span>
+                        ) : (
+                          <span className="text-sm text-ink/25">&mdash;</span>
+                        )}
+                      </td>
+                    )}
+                    <td className="px-6 py-3 text-center text-sm text-ink/60">
+                      {scored} / {total}
+                    </td>
+                    <td className="px-6 py-3 text-center text-sm text-ink/60">
+                      {completed} / {group.zones.length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Compliance by principle — schools only */}
+        {principleCompliance.length > 0 && (
+          <div className="bg-surface rounded-xl border border-ink/10 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-ink/10">
+              <h2 className="text-sm font-bold text-ink/60 uppercase tracking-wide">By Principle</h2>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs font-bold text-ink/50 uppercase tracking-wide">
+                  <th className="px-6 py-3">Principle</th>
+                  <th className="px-6 py-3 text-center">Compliance</th>
+                  <th className="px-6 py-3 text-center">Met</th>
+                  <th className="px-6 py-3 text-center">Not Met</th>
+                  <th className="px-6 py-3 text-center">UTO</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-ink/5">
+                {principleCompliance.map((p) => (
+                  <tr key={p.key}>
+                    <td className="px-6 py-3 text-sm font-medium text-ink">{p.name}</td>
+                    <td className="px-6 py-3 text-center">
+                      {p.percent !== null ? (
+                        <span className={`text-sm font-bold ${getComplianceColor(p.percent)}`}>
+                          {formatCompliance(p.percent)}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-ink/25">&mdash;</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-center text-sm text-ink/60">{p.met}</td>
+                    <td className="px-6 py-3 text-center text-sm text-ink/60">{p.notMet}</td>
+                    <td className="px-6 py-3 text-center text-sm text-ink/60">{p.uto}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {matrixHasValues && <PrincipleMatrix matrix={principleMatrix} />}
+
         {/* Auto-generate button — not offered for schools (Yes/No/UTO has no
             severity ranking to auto-pick from; recommendations are curated by hand) */}
         {!isSchool && itemScores && itemScores.some((s) => s.score !== null) && (
@@ -464,6 +757,10 @@ export default function Summary() {
               onChange={handleRecsChange}
               itemScores={itemScores ?? []}
               propertyType={assessment.property_type}
+              templateVersion={pinnedVersion(assessment)}
+              buildings={assessment.buildings}
+              mainBuildingName={assessment.main_building_name}
+              trackStatus={isComplete}
             />
           )}
         </div>
@@ -482,6 +779,10 @@ export default function Summary() {
                 onChange={handleQuickWinsChange}
                 itemScores={itemScores ?? []}
                 propertyType={assessment.property_type}
+                templateVersion={pinnedVersion(assessment)}
+                buildings={assessment.buildings}
+                mainBuildingName={assessment.main_building_name}
+                trackStatus={isComplete}
               />
             )}
           </div>
@@ -496,7 +797,7 @@ export default function Summary() {
             {LIABILITY_WAIVER}
           </p>
 
-          <div className="border-t border-ink/10 pt-4">
+          <div id="assessor-signature" className="border-t border-ink/10 pt-4">
             <h3 className="text-sm font-bold text-ink/60 mb-1">
               Assessor Signature
             </h3>
@@ -513,6 +814,20 @@ export default function Summary() {
           </div>
         </div>
 
+        {!isComplete && completionViolations.length > 0 && id && (
+          <CompletionCheck assessmentId={id} violations={completionViolations} />
+        )}
+
+        {preflightIssues && (
+          <PreflightPanel
+            issues={preflightIssues}
+            busy={fixing || syncing || generating}
+            onFix={handlePreflightFix}
+            onGenerateAnyway={() => handleGeneratePDF(true)}
+            onDismiss={() => setPreflightIssues(null)}
+          />
+        )}
+
         {/* Action Buttons */}
         {pdfError && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl text-sm">
@@ -533,7 +848,7 @@ export default function Summary() {
           <button
             type="button"
             disabled={!canGeneratePDF || generating}
-            onClick={handleGeneratePDF}
+            onClick={() => handleGeneratePDF()}
             className={`flex-1 px-6 py-4 rounded-xl font-semibold text-sm transition-colors ${
               !canGeneratePDF
                 ? 'bg-ink/20 text-ink/40 cursor-not-allowed'
@@ -561,10 +876,19 @@ export default function Summary() {
           ) : (
             <button
               type="button"
-              onClick={handleMarkComplete}
-              className="flex-1 px-6 py-4 rounded-xl font-semibold text-sm bg-green-600 text-white hover:bg-green-700 transition-colors"
+              disabled={blockingCount > 0}
+              onClick={() =>
+                completionViolations.length > 0 ? setConfirmWarningsOpen(true) : handleMarkComplete()
+              }
+              className={`flex-1 px-6 py-4 rounded-xl font-semibold text-sm transition-colors ${
+                blockingCount > 0
+                  ? 'bg-ink/20 text-ink/40 cursor-not-allowed'
+                  : 'bg-green-600 text-white hover:bg-green-700'
+              }`}
             >
-              Mark Complete
+              {blockingCount > 0
+                ? `Fix ${blockingCount} issue${blockingCount === 1 ? '' : 's'} to complete`
+                : 'Mark Complete'}
             </button>
           )}
         </div>
@@ -608,16 +932,48 @@ export default function Summary() {
             </button>
           </div>
         )}
+
+        <ReviewPanel
+          assessment={assessment}
+          zoneScores={zoneScores}
+          itemScores={itemScores}
+          online={online && serverReachable === true}
+        />
       </div>
 
+      {signInReason !== null && (
+        <SignInDialog
+          reason={signInReason}
+          onSignedIn={() => {
+            setSignInReason(null);
+            handleSync();
+          }}
+          onCancel={() => setSignInReason(null)}
+        />
+      )}
+
       {/* The push side of the same warning the Server tab gives on download.
           Without it, syncing from a stale iPad silently overwrote whoever had
-          worked on the assessment in the meantime. */}
+          worked on the assessment in the meantime. When both copies changed,
+          the way forward is the comparison screen rather than an overwrite —
+          keeping this iPad's copy wholesale is still one button there. */}
+      <ConfirmDialog
+        open={confirmWarningsOpen}
+        title="Complete With Warnings?"
+        confirmLabel="Mark Complete"
+        message={`${completionViolations.length} warning${completionViolations.length === 1 ? ' is' : 's are'} still listed under Before Completing. You can complete the assessment anyway.`}
+        onConfirm={() => {
+          setConfirmWarningsOpen(false);
+          handleMarkComplete();
+        }}
+        onCancel={() => setConfirmWarningsOpen(false)}
+      />
+
       <ConfirmDialog
         open={pushConflict !== null}
         title="Server Copy Has Changed"
-        variant="danger"
-        confirmLabel="Overwrite server"
+        variant={pushConflict?.state === 'diverged' ? 'default' : 'danger'}
+        confirmLabel={pushConflict?.state === 'diverged' ? 'Compare copies' : 'Overwrite server'}
         cancelLabel="Cancel"
         message={
           <>
@@ -636,14 +992,29 @@ export default function Summary() {
                   }.`
                 : 'This iPad has no changes of its own since then, so downloading their copy is probably what you want.'}
             </p>
+            {pushConflict instanceof MergeConflictError && (
+              <p>
+                Changes to different items, zones and recommendations would combine on their own,
+                but both copies changed {pushConflict.conflicts.length} of the same field
+                {pushConflict.conflicts.length === 1 ? '' : 's'} to different values, so they can't
+                be merged automatically.
+              </p>
+            )}
             <p className="font-semibold">
-              Syncing now replaces the server's copy with this one, and their work will be lost.
+              {pushConflict?.state === 'diverged'
+                ? 'Compare the two copies to choose which version of each change to keep. Nothing is lost until you do.'
+                : "Syncing now replaces the server's copy with this one, and their work will be lost."}
             </p>
           </>
         }
         onConfirm={() => {
+          const diverged = pushConflict?.state === 'diverged';
+          // Overwrite exactly the server copy described above; if yet another
+          // push lands first, this one is refused and the warning comes back.
+          const shown = pushConflict?.server.revision ?? null;
           setPushConflict(null);
-          handleSync(true);
+          if (diverged) navigate(`/assessment/${id}/resolve`);
+          else handleSync(true, shown);
         }}
         onCancel={() => setPushConflict(null)}
       />
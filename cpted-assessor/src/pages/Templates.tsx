@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getTemplateLabel } from 'cpted-checklist';
+import type { TemplateId } from 'cpted-checklist';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useSession } from '../hooks/useSession';
+import { AuthRequiredError, userRole } from '../services/auth';
+import { getDraft, listTemplates, startDraft } from '../services/templates';
+import type { DraftState, TemplateSummary } from '../services/templates';
+import HeaderBackButton from '../components/HeaderBackButton';
+import SignInDialog from '../components/SignInDialog';
+import TemplateEditor from '../components/TemplateEditor';
+import ThemeToggle from '../components/ThemeToggle';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * The checklist templates, for an admin to edit and publish. Each template is
+ * changed through a draft held on the server — one per template, shared by
+ * every admin — so a half-finished edit survives closing the app and can be
+ * finished from another iPad. Publishing reaches the assessors' iPads the next
+ * time each starts online.
+ */
+export default function Templates() {
+  const online = useOnlineStatus();
+  const session = useSession();
+  const isAdmin = userRole(session) === 'admin';
+  const [templates, setTemplates] = useState<TemplateSummary[] | null>(null);
+  const [editing, setEditing] = useState<DraftState | null>(null);
+  const [opening, setOpening] = useState<TemplateId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof AuthRequiredError) setSigningIn(true);
+    else setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setTemplates(await listTemplates());
+    } catch (err) {
+      handleError(err, 'Could not load the templates');
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    if (online && isAdmin && !editing) load();
+  }, [online, isAdmin, editing, load]);
+
+  async function open(summary: TemplateSummary) {
+    setOpening(summary.template_id);
+    setError(null);
+    setNotice(null);
+    try {
+      setEditing(
+        summary.draft ? await getDraft(summary.template_id) : await startDraft(summary.template_id),
+      );
+    } catch (err) {
+      handleError(err, 'Could not open the draft');
+    } finally {
+      setOpening(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-blue-pale flex flex-col">
+      <header className="bg-navy text-white px-4 py-2 flex items-center gap-3 sticky top-0 z-10">
+        <HeaderBackButton to="/" label="Home" />
+        <div className="flex-1 min-w-0">
+          <h1 className="font-bold truncate">Checklist Templates</h1>
+          <p className="text-xs text-white/60 truncate">Items, guidance and walkthrough tagging</p>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="flex-1 p-6 max-w-4xl w-full mx-auto">
+        {!isAdmin ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            {session ? 'Only an admin can edit the checklist templates.' : 'Sign in as an admin to edit the checklist templates.'}
+          </p>
+        ) : !online ? (
+          <p className="text-center text-sm text-ink/50 py-12">
+            Editing a template needs a connection — drafts are kept on the server.
+          </p>
+        ) : editing ? (
+          <TemplateEditor
+            key={editing.draft.id}
+            initial={editing}
+            onClose={() => setEditing(null)}
+            onPublished={(version) => {
+              setNotice(`${getTemplateLabel(editing.draft.template_id)} version ${version} is published.`);
+              setEditing(null);
+            }}
+          />
+        ) : (
+          <>
+            {notice && (
+              <p className="mb-4 bg-green-50 border border-green-200 text-green-800 text-sm rounded-lg px-4 py-3">
+                {notice}
+              </p>
+            )}
+            {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+            {templates === null ? (
+              <p className="text-center text-sm text-ink/50 py-12">Loading…</p>
+            ) : (
+              <ul className="space-y-3">
+                {templates.map((summary) => (
+                  <li
+                    key={summary.template_id}
+                    className="bg-surface rounded-xl border border-ink/10 shadow-sm p-4 flex items-center gap-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-ink truncate">{getTemplateLabel(summary.template_id)}</p>
+                      <p className="text-xs text-ink/50">
+                        Version {summary.version}
+                        {summary.published_at
+                          ? ` · published ${formatDate(summary.published_at)}${summary.published_by ? ` by ${summary.published_by}` : ''}`
+                          : ' · as shipped with the app'}
+                      </p>
+                      {summary.draft && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          Draft in progress{summary.draft.created_by ? ` (${summary.draft.created_by})` : ''} · saved{' '}
+                          {formatDate(summary.draft.updated_at)}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => open(summary)}
+                      disabled={opening !== null}
+                      className="flex-shrink-0 text-sm font-semibold text-white bg-navy hover:bg-navy/90 px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {opening === summary.template_id ? 'Opening…' : summary.draft ? 'Edit Draft' : 'Start Draft'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </main>
+
+      {signingIn && (
+        <SignInDialog onSignedIn={() => setSigningIn(false)} onCancel={() => setSigningIn(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * The signed-in assessor, and the fetch that carries their credentials.
+ *
+ * Every /api route except sign-in and the health check now needs a session.
+ * The token is a bearer string kept in localStorage beside the device name
+ * (see device.ts for why localStorage, and for the two-origin caveat, which
+ * applies here too: signing in on one URL does not sign you in on the other).
+ *
+ * Signing in is only ever needed to TALK to the server. Everything an assessor
+ * does on site is IndexedDB-only and never checks for a session, so an expired
+ * token cannot stop anyone scoring a zone — it just means the next sync asks
+ * them to sign in first, and the edits wait on the device until they do.
+ */
+
+import { getDeviceName } from './device';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+const SESSION_KEY = 'cpted-session';
+
+export type UserRole = 'assessor' | 'supervisor' | 'analyst' | 'admin';
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  display_name: string;
+  badge_id: string | null;
+  /** Absent on a session stored before roles existed; read it via userRole(). */
+  role?: UserRole;
+}
+
+export interface Session {
+  token: string;
+  /** ISO instant the server will stop accepting the token. */
+  expires_at: string;
+  user: SessionUser;
+}
+
+/**
+ * The server refused the request for want of a session, or there was no
+ * session to send. The caller's only move is to ask the assessor to sign in;
+ * nothing local has been touched.
+ */
+export class AuthRequiredError extends Error {
+  constructor(message = 'Sign in to sync with the server') {
+    super(message);
+    this.name = 'AuthRequiredError';
+  }
+}
+
+// --- Storage ---------------------------------------------------------------
+
+const listeners = new Set<() => void>();
+let cached: Session | null | undefined;
+
+function readStored(): Session | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Session;
+    return parsed && typeof parsed.token === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function store(session: Session | null): void {
+  cached = session;
+  try {
+    if (session) window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else window.localStorage.removeItem(SESSION_KEY);
+  } catch {
+    /* ignore — the in-memory copy still works until the app is closed */
+  }
+  listeners.forEach((l) => l());
+}
+
+/**
+ * The current session, or null when signed out or expired. Expiry is checked
+ * here against the device clock so the UI can say "sign in" before a request
+ * is wasted on it; the server remains the authority either way.
+ */
+export function getSession(): Session | null {
+  if (cached === undefined) cached = readStored();
+  if (cached && Date.parse(cached.expires_at) <= Date.now()) return null;
+  return cached;
+}
+
+/** For useSyncExternalStore — see hooks/useSession.ts. */
+export function subscribeSession(callback: () => void): () => void {
+  listeners.add(callback);
+  return () => {
+    listeners.delete(callback);
+  };
+}
+
+/**
+ * The signed-in account's role, or null when signed out. The server checks
+ * every write itself; this only decides which buttons are worth showing.
+ */
+export function userRole(session: Session | null): UserRole | null {
+  if (!session) return null;
+  return session.user.role ?? 'assessor';
+}
+
+export function canReview(session: Session | null): boolean {
+  const role = userRole(session);
+  return role === 'supervisor' || role === 'admin';
+}
+
+// --- Requests --------------------------------------------------------------
+
+/**
+ * fetch(), with the session's bearer token attached.
+ *
+ * Throws AuthRequiredError without touching the network when there is no
+ * session, and clears the stored session when the server answers 401 — the
+ * token is dead either way, and keeping it would only fail again.
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const session = getSession();
+  if (!session) throw new AuthRequiredError();
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${session.token}`);
+  const res = await fetch(input, { ...init, headers });
+
+  if (res.status === 401) {
+    store(null);
+    throw new AuthRequiredError('Your sign-in has expired. Sign in again to sync.');
+  }
+  return res;
+}
+
+export async function signIn(username: string, password: string): Promise<Session> {
+  const res = await fetch(`${API_BASE}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password, device_name: getDeviceName() }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Sign in failed: ${res.status}`);
+  }
+  const session = (await res.json()) as Session;
+  store(session);
+  return session;
+}
+
+/**
+ * Forget the session on this device, and tell the server when it can be
+ * reached. Local first: signing out must work with no signal, and a token the
+ * server never heard about expires on its own.
+ */
+export async function signOut(): Promise<void> {
+  const session = getSession();
+  store(null);
+  if (!session) return;
+  try {
+    await fetch(`${API_BASE}/api/auth/logout`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session.token}` },
+    });
+  } catch {
+    /* offline — the token lapses at expires_at regardless */
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Buildings on a multi-building campus: the template zones an assessor repeats
+ * for each further building, every copy scored, photographed and averaged on
+ * its own (buildings.ts in cpted-checklist has the model).
+ *
+ * The assessment carries the list of buildings; each building's zones are
+ * ordinary zone_scores and item_scores rows whose zone key names the building.
+ * Adding a building writes those rows from the pinned template, and removing
+ * one deletes them with their photos. The main building is the template's own
+ * zones and cannot be removed, only named.
+ *
+ * zone_scores rows keep the name and order expandZones() gives them — the
+ * main building's copy of a repeated zone gains the building's name — because
+ * the review panel, search and conflict screens read the row, not the template.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { expandZones, getZonesForType, newBuildingId } from 'cpted-checklist';
+import type { Building, BuildingZone } from 'cpted-checklist';
+import { db } from '../db/database';
+import { persistAllScores } from './scoring';
+import { touchAssessment } from './touch';
+import type { JournalChange } from './touch';
+import { initialItemState } from './site-facts';
+import { pinnedVersion } from './template-upgrade';
+import type { Assessment, ItemScore, ZoneScore } from '../types';
+
+type BuildingFields = Pick<
+  Assessment,
+  'property_type' | 'template_version' | 'buildings' | 'main_building_name'
+>;
+
+/** Every zone of an assessment, its buildings' copies included, in order. */
+export function assessmentZones(assessment: BuildingFields): BuildingZone[] {
+  return expandZones(
+    getZonesForType(assessment.property_type, pinnedVersion(assessment)),
+    assessment.buildings,
+    assessment.main_building_name,
+  );
+}
+
+function itemRows(assessment: Assessment, zone: BuildingZone): ItemScore[] {
+  let itemOrder = 0;
+  return zone.principles.flatMap((principle) =>
+    principle.items.map((item) => ({
+      id: uuidv4(),
+      assessment_id: assessment.id,
+      zone_key: zone.key,
+      principle: principle.key,
+      item_key: item.key,
+      item_text: item.text,
+      item_order: itemOrder++,
+      score: null,
+      ...initialItemState(assessment, { zone_key: zone.key, item_key: item.key }),
+      notes: '',
+      photo_ids: [],
+    })),
+  );
+}
+
+/**
+ * Bring every zone_scores row's name and order in line with `zones`, and name
+ * the rows that changed. Runs inside the caller's transaction.
+ */
+async function renameZoneRows(assessmentId: string, zones: BuildingZone[]): Promise<JournalChange[]> {
+  const rows = await db.zone_scores.where('assessment_id').equals(assessmentId).toArray();
+  const changed: JournalChange[] = [];
+  for (const row of rows) {
+    const index = zones.findIndex((z) => z.key === row.zone_key);
+    if (index === -1) continue;
+    const patch: Partial<ZoneScore> = {};
+    if (row.zone_name !== zones[index].name) patch.zone_name = zones[index].name;
+    if (row.zone_order !== index + 1) patch.zone_order = index + 1;
+    const fields = Object.keys(patch);
+    if (fields.length === 0) continue;
+    await db.zone_scores.update(row.id, patch);
+    changed.push({ table: 'zone_scores', row_id: row.id, fields });
+  }
+  return changed;
+}
+
+/**
+ * Write `buildings` and `mainName` to the assessment in one revision: rows for
+ * zones that are new, the rows of zones no longer there dropped with their
+ * photos, and every zone row renamed and renumbered to match.
+ */
+async function saveBuildings(
+  assessmentId: string,
+  buildings: Building[],
+  mainName: string,
+): Promise<void> {
+  await db.transaction(
+    'rw',
+    [db.assessments, db.zone_scores, db.item_scores, db.photos, db.change_journal],
+    async () => {
+      const assessment = await db.assessments.get(assessmentId);
+      if (!assessment) throw new Error('Assessment not found');
+      const zones = assessmentZones({ ...assessment, buildings, main_building_name: mainName });
+      const keys = new Set(zones.map((z) => z.key));
+      const changed: JournalChange[] = [];
+
+      const zoneRows = await db.zone_scores.where('assessment_id').equals(assessmentId).toArray();
+      const items = await db.item_scores.where('assessment_id').equals(assessmentId).toArray();
+      const goneZones = zoneRows.filter((row) => !keys.has(row.zone_key));
+      const goneItems = items.filter((row) => !keys.has(row.zone_key));
+      await db.photos.bulkDelete(goneItems.flatMap((row) => row.photo_ids));
+      await db.item_scores.bulkDelete(goneItems.map((row) => row.id));
+      await db.zone_scores.bulkDelete(goneZones.map((row) => row.id));
+      for (const row of goneZones) changed.push({ table: 'zone_scores', row_id: row.id });
+      for (const row of goneItems) changed.push({ table: 'item_scores', row_id: row.id });
+
+      // Item rows are written when an assessment is first opened; until then a
+      // new building's zones get their zone rows only, like the template's.
+      const present = new Set(zoneRows.map((row) => row.zone_key));
+      const added = zones.filter((zone) => !present.has(zone.key));
+      const newZoneRows: ZoneScore[] = added.map((zone) => ({
+        id: uuidv4(),
+        assessment_id: assessmentId,
+        zone_key: zone.key,
+        zone_name: zone.name,
+        zone_order: zones.indexOf(zone) + 1,
+        average_score: null,
+        priority_findings: '',
+        notes: '',
+        completed: false,
+      }));
+      const newItemRows = items.length > 0 ? added.flatMap((zone) => itemRows(assessment, zone)) : [];
+      await db.zone_scores.bulkAdd(newZoneRows);
+      await db.item_scores.bulkAdd(newItemRows);
+      for (const row of newZoneRows) changed.push({ table: 'zone_scores', row_id: row.id });
+      for (const row of newItemRows) changed.push({ table: 'item_scores', row_id: row.id });
+
+      changed.push(...(await renameZoneRows(assessmentId, zones)));
+      await touchAssessment(assessmentId, { buildings, main_building_name: mainName }, changed);
+    },
+  );
+  await persistAllScores(assessmentId);
+}
+
+async function current(assessmentId: string): Promise<{ buildings: Building[]; mainName: string }> {
+  const assessment = await db.assessments.get(assessmentId);
+  if (!assessment) throw new Error('Assessment not found');
+  return { buildings: assessment.buildings ?? [], mainName: assessment.main_building_name ?? '' };
+}
+
+/** Add a building repeating the template zones `zoneKeys`; resolves its id. */
+export async function addBuilding(
+  assessmentId: string,
+  name: string,
+  zoneKeys: string[],
+): Promise<string> {
+  const { buildings, mainName } = await current(assessmentId);
+  const taken = new Set(buildings.map((b) => b.id));
+  let id = newBuildingId();
+  while (taken.has(id)) id = newBuildingId();
+  await saveBuildings(assessmentId, [...buildings, { id, name: name.trim(), zone_keys: zoneKeys }], mainName);
+  return id;
+}
+
+/**
+ * Rename a building, or change which zones it repeats. Dropping a zone deletes
+ * that copy's scores, notes and photos; the caller asks first.
+ */
+export async function updateBuilding(
+  assessmentId: string,
+  buildingId: string,
+  name: string,
+  zoneKeys: string[],
+): Promise<void> {
+  const { buildings, mainName } = await current(assessmentId);
+  await saveBuildings(
+    assessmentId,
+    buildings.map((b) => (b.id === buildingId ? { ...b, name: name.trim(), zone_keys: zoneKeys } : b)),
+    mainName,
+  );
+}
+
+/** Remove a building with everything recorded in its zones; the caller asks first. */
+export async function removeBuilding(assessmentId: string, buildingId: string): Promise<void> {
+  const { buildings, mainName } = await current(assessmentId);
+  await saveBuildings(assessmentId, buildings.filter((b) => b.id !== buildingId), mainName);
+}
+
+/** Name the main building — the template's own zones. '' goes back to the default. */
+export async function renameMainBuilding(assessmentId: string, name: string): Promise<void> {
+  const { buildings } = await current(assessmentId);
+  await saveBuildings(assessmentId, buildings, name.trim());
+}
+
+/** Which of `zoneKeys` have a score, notes or a photo that removing them would lose. */
+export async function zonesWithWork(assessmentId: string, zoneKeys: string[]): Promise<string[]> {
+  const keys = new Set(zoneKeys);
+  const items = await db.item_scores
+    .where('assessment_id')
+    .equals(assessmentId)
+    .filter((item) => keys.has(item.zone_key))
+    .toArray();
+  const worked = items.filter(
+    (item) =>
+      item.score !== null ||
+      (item.is_na && !item.na_reason) ||
+      item.notes.trim() !== '' ||
+      item.photo_ids.length > 0,
+  );
+  return [...new Set(worked.map((item) => item.zone_key))];
+}
@@ -0,0 +1,102 @@
+/**
+ * Custom checklist items: things on a site the template doesn't anticipate — a
+ * pool gate, a drive-through ATM, a detached shed — added by the assessor to
+ * one zone and principle of one assessment.
+ *
+ * A custom item is an ordinary item_scores row with is_custom set and no
+ * item_key, so it scores, takes notes and photos, counts toward its zone's
+ * average, and syncs exactly as a template item does. What it does not have
+ * is anything looked up by key: its guidance is whatever the assessor writes
+ * into custom_guidance, and it has no verification hint or walkthrough phase —
+ * it shows on the exterior and the interior walk alike.
+ *
+ * It is numbered after the template's items in its zone, and a template
+ * migration keeps it there (planTemplateMigration in cpted-checklist).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/database';
+import { persistAllScores } from './scoring';
+import { touchAssessment } from './touch';
+import type { ItemScore } from '../types';
+
+/** What the assessor types for a custom item. */
+export interface CustomItemText {
+  item_text: string;
+  custom_guidance: string;
+}
+
+/** Add a custom item at the end of `zoneKey`; resolves its row id. */
+export async function addCustomItem(
+  assessmentId: string,
+  zoneKey: string,
+  principle: string,
+  text: CustomItemText,
+): Promise<string> {
+  const id = uuidv4();
+  await db.transaction('rw', [db.item_scores, db.assessments, db.change_journal], async () => {
+    const zoneItems = await db.item_scores
+      .where('assessment_id')
+      .equals(assessmentId)
+      .filter((item) => item.zone_key === zoneKey)
+      .toArray();
+    const row: ItemScore = {
+      id,
+      assessment_id: assessmentId,
+      zone_key: zoneKey,
+      principle,
+      item_key: null,
+      item_text: text.item_text.trim(),
+      item_order: Math.max(-1, ...zoneItems.map((item) => item.item_order)) + 1,
+      score: null,
+      is_na: false,
+      notes: '',
+      photo_ids: [],
+      is_custom: true,
+      custom_guidance: text.custom_guidance.trim(),
+    };
+    await db.item_scores.add(row);
+    await touchAssessment(assessmentId, undefined, [{ table: 'item_scores', row_id: id }]);
+  });
+  await persistAllScores(assessmentId);
+  return id;
+}
+
+/** Reword a custom item, or change its guidance. Template items are left alone. */
+export async function updateCustomItem(itemId: string, text: CustomItemText): Promise<void> {
+  await db.transaction('rw', [db.item_scores, db.assessments, db.change_journal], async () => {
+    const item = await db.item_scores.get(itemId);
+    if (!item?.is_custom) return;
+    const patch = {
+      item_text: text.item_text.trim(),
+      custom_guidance: text.custom_guidance.trim(),
+    };
+    if (patch.item_text === item.item_text && patch.custom_guidance === (item.custom_guidance ?? '')) {
+      return;
+    }
+    await db.item_scores.update(itemId, patch);
+    await touchAssessment(item.assessment_id, undefined, [
+      { table: 'item_scores', row_id: itemId, fields: Object.keys(patch) },
+    ]);
+  });
+}
+
+/**
+ * Remove a custom item, with its score, notes and photos. Unlike a retired
+ * template item's, its photos are not re-homed: the assessor is deleting
+ * something they added themselves, and is asked first.
+ */
+export async function removeCustomItem(itemId: string): Promise<void> {
+  const item = await db.item_scores.get(itemId);
+  if (!item?.is_custom) return;
+  await db.transaction(
+    'rw',
+    [db.item_scores, db.photos, db.assessments, db.change_journal],
+    async () => {
+      await db.photos.bulkDelete(item.photo_ids);
+      await db.item_scores.delete(itemId);
+      await touchAssessment(item.assessment_id, undefined, [{ table: 'item_scores', row_id: itemId }]);
+    },
+  );
+  await persistAllScores(item.assessment_id);
+}
@@ -5,7 +5,12 @@
  * then walks every source item_score and photo and attempts to carry them over
  * to the matching item in the new template.
  *
- * Items match by (zone_key + principle_key + item_text). When source and target
+ * Items match by (zone_key + principle_key + item_key), so an item reworded in
+ * one template still carries over. A source row with no item_key (recorded
+ * against wording since retired) has nothing to match and is reported as
+ * dropped. A custom item is copied as a custom item into the same principle
+ * of the mapped zone, after the target's own items, when the target has that
+ * principle there, and is dropped when it hasn't. When source and target
  * use different zone_keys (e.g., residential `side_yards` → townhome
  * `shared_boundaries`), a zone-key remap is applied before the match attempt.
  *
@@ -18,7 +23,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../db/database';
 import { getDeviceName } from './device';
-import { getZonesForType } from '../data/zone-registry';
+import { expandZones, getTemplateVersion, getZonesForType, supportsBuildings } from 'cpted-checklist';
+import { assessmentZones } from './buildings';
 import { persistAllScores } from './scoring';
 import type { Assessment, ItemScore, Photo, PropertyType, ZoneScore } from '../types';
 
@@ -69,8 +75,19 @@ export async function duplicateAssessmentAs(
 
   const sourceItems = await db.item_scores.where('assessment_id').equals(sourceId).toArray();
   const sourcePhotos = await db.photos.where('assessment_id').equals(sourceId).toArray();
-  const sourceZones = getZonesForType(source.property_type);
-  const targetZones = getZonesForType(targetPropertyType);
+  const sourceZones = assessmentZones(source);
+  // Buildings carry over where the target can have them, each repeating the
+  // zones the target's template also has; their items then match like any other.
+  const targetTemplateZones = getZonesForType(targetPropertyType);
+  const targetBuildings = supportsBuildings(targetPropertyType)
+    ? (source.buildings ?? [])
+        .map((b) => ({
+          ...b,
+          zone_keys: b.zone_keys.filter((key) => targetTemplateZones.some((z) => z.key === key)),
+        }))
+        .filter((b) => b.zone_keys.length > 0)
+    : [];
+  const targetZones = expandZones(targetTemplateZones, targetBuildings, source.main_building_name);
   const zoneMap = getZoneKeyMap(source.property_type, targetPropertyType);
 
   const newId = uuidv4();
@@ -78,19 +95,21 @@ export async function duplicateAssessmentAs(
 
   // Build target item_scores (all blank) and lookup indexes
   const targetItems: ItemScore[] = [];
-  const targetItemByKey = new Map<string, ItemScore>(); // `${zone}|${principle}|${text}` → target item
+  const targetItemByKey = new Map<string, ItemScore>(); // `${zone}|${principle}|${item_key}` → target item
   const targetZoneFirstItemId = new Map<string, string>();
+  const targetZoneNextOrder = new Map<string, number>(); // zone → item_order for a custom item
 
   for (const zone of targetZones) {
     let itemOrder = 0;
     for (const principle of zone.principles) {
-      for (const itemText of principle.items) {
+      for (const checklistItem of principle.items) {
         const item: ItemScore = {
           id: uuidv4(),
           assessment_id: newId,
           zone_key: zone.key,
           principle: principle.key,
-          item_text: itemText,
+          item_key: checklistItem.key,
+          item_text: checklistItem.text,
           item_order: itemOrder++,
           score: null,
           is_na: false,
@@ -98,12 +117,37 @@ export async function duplicateAssessmentAs(
           photo_ids: [],
         };
         targetItems.push(item);
-        targetItemByKey.set(`${zone.key}|${principle.key}|${itemText}`, item);
+        targetItemByKey.set(`${zone.key}|${principle.key}|${checklistItem.key}`, item);
         if (!targetZoneFirstItemId.has(zone.key)) {
           targetZoneFirstItemId.set(zone.key, item.id);
         }
       }
     }
+    targetZoneNextOrder.set(zone.key, itemOrder);
+  }
+
+  function copyCustomItem(src: ItemScore, zoneKey: string): ItemScore | undefined {
+    const zone = targetZones.find((z) => z.key === zoneKey);
+    if (!zone?.principles.some((p) => p.key === src.principle)) return undefined;
+    const itemOrder = targetZoneNextOrder.get(zoneKey)!;
+    targetZoneNextOrder.set(zoneKey, itemOrder + 1);
+    const item: ItemScore = {
+      id: uuidv4(),
+      assessment_id: newId,
+      zone_key: zoneKey,
+      principle: src.principle,
+      item_key: null,
+      item_text: src.item_text,
+      item_order: itemOrder,
+      score: null,
+      is_na: false,
+      notes: '',
+      photo_ids: [],
+      is_custom: true,
+      custom_guidance: src.custom_guidance ?? '',
+    };
+    targetItems.push(item);
+    return item;
   }
 
   // Match source item_scores to target items
@@ -114,14 +158,18 @@ export async function duplicateAssessmentAs(
 
   for (const src of sourceItems) {
     const mappedZoneKey = zoneMap[src.zone_key] ?? src.zone_key;
-    const lookupKey = `${mappedZoneKey}|${src.principle}|${src.item_text}`;
-    const target = targetItemByKey.get(lookupKey);
+    const target = src.is_custom
+      ? copyCustomItem(src, mappedZoneKey)
+      : src.item_key !== null
+        ? targetItemByKey.get(`${mappedZoneKey}|${src.principle}|${src.item_key}`)
+        : undefined;
 
     const hasData = src.score !== null || src.is_na || src.notes.trim().length > 0;
 
     if (target) {
       target.score = src.score;
       target.is_na = src.is_na;
+      target.na_reason = src.na_reason ?? '';
       target.notes = src.notes;
       sourceItemToTarget.set(src.id, target);
       if (hasData) itemsCarried++;
@@ -214,6 +262,10 @@ export async function duplicateAssessmentAs(
     top_recommendations: [],
     quick_wins: [],
     assessor_signature: null,
+    // The copy is laid out on the target's current template, whatever
+    // version the source was pinned to.
+    template_version: getTemplateVersion(targetPropertyType),
+    buildings: targetBuildings,
     synced_at: null,
     // A duplicate is a brand-new record, not a continuation of the source's
     // history — so it starts at revision 1 with no common ancestor, alongside
@@ -225,12 +277,12 @@ export async function duplicateAssessmentAs(
   };
 
   // Build zone_scores for target
-  const zoneScores: ZoneScore[] = targetZones.map((zone) => ({
+  const zoneScores: ZoneScore[] = targetZones.map((zone, index) => ({
     id: uuidv4(),
     assessment_id: newId,
     zone_key: zone.key,
     zone_name: zone.name,
-    zone_order: zone.order,
+    zone_order: index + 1,
     average_score: null,
     priority_findings: '',
     notes: '',
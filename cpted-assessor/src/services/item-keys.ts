@@ -0,0 +1,22 @@
+import { getItemKeyForText } from 'cpted-checklist';
+import { db } from '../db/database';
+
+/**
+ * Give item scores recorded before checklist items had keys the key of the
+ * item they were worded as. Same shape as backfillRevisions() in touch.ts:
+ * ordinary startup work rather than a Dexie .upgrade(), idempotent, and safe
+ * to fail — a row without a key still shows and scores, it only loses its
+ * guidance, phase and hint until this runs.
+ *
+ * A row whose wording matches no current item is set to null so it is not
+ * looked at again; the server does the same for its copy (migration 0021).
+ * Revisions are left alone: a key is derived from what was already there,
+ * and counting it as an edit would make every held assessment read as changed.
+ */
+export async function backfillItemKeys(): Promise<void> {
+  await db.item_scores
+    .filter((i) => i.item_key === undefined)
+    .modify((i) => {
+      i.item_key = getItemKeyForText(i.item_text) ?? null;
+    });
+}
@@ -10,7 +10,8 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../db/database';
-import { touchAssessment } from './touch';
+import { rowStamp, touchAssessment } from './touch';
+import type { JournalChange } from './touch';
 import type { LightSurvey, LightReading, IlluminanceUnit } from '../types';
 import type { MeterReading } from './light-meter';
 import {
@@ -65,13 +66,32 @@ export function newLightSurvey(assessmentId: string, areaName: string): LightSur
   };
 }
 
+/**
+ * The transaction scope of a survey edit: the rows it writes, plus the
+ * assessment and change journal that touchAssessment() writes inside it.
+ */
+const SURVEY_WRITE_SCOPE = [
+  db.light_surveys,
+  db.light_readings,
+  db.assessments,
+  db.change_journal,
+];
+
+/** Journal entries for an edit to a survey's readings and the given survey fields. */
+function readingsChanged(surveyId: string, surveyFields: string[]): JournalChange[] {
+  return [
+    { table: 'light_surveys', row_id: surveyId, fields: surveyFields },
+    { table: 'light_readings', row_id: surveyId },
+  ];
+}
+
 export async function createLightSurvey(assessmentId: string, areaName: string): Promise<string> {
   const survey = newLightSurvey(assessmentId, areaName);
   await db.light_surveys.add(survey);
   // Light surveys ride the assessment's sync payload, so an edit to one is an
   // edit to the assessment. Without this bump, a grid plotted at the desk on
   // one iPad gets wiped by a push from another with no warning at all.
-  await touchAssessment(assessmentId);
+  await touchAssessment(assessmentId, undefined, [{ table: 'light_surveys', row_id: survey.id }]);
   return survey.id;
 }
 
@@ -79,26 +99,30 @@ export async function updateLightSurvey(
   id: string,
   patch: Partial<Omit<LightSurvey, 'id' | 'assessment_id' | 'created_at'>>,
 ): Promise<void> {
-  await db.transaction('rw', db.light_surveys, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     const survey = await db.light_surveys.get(id);
     if (!survey) return;
     await db.light_surveys.update(id, { ...patch, updated_at: new Date().toISOString() });
-    await touchAssessment(survey.assessment_id);
+    await touchAssessment(survey.assessment_id, undefined, [
+      { table: 'light_surveys', row_id: id, fields: [...Object.keys(patch), 'updated_at'] },
+    ]);
   });
 }
 
 export async function deleteLightSurvey(id: string): Promise<void> {
-  await db.transaction('rw', db.light_surveys, db.light_readings, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     // Read the parent before the delete takes the only reference to it.
     const survey = await db.light_surveys.get(id);
     await db.light_readings.where('survey_id').equals(id).delete();
     await db.light_surveys.delete(id);
-    if (survey) await touchAssessment(survey.assessment_id);
+    if (survey) {
+      await touchAssessment(survey.assessment_id, undefined, [{ table: 'light_surveys', row_id: id }]);
+    }
   });
 }
 
 export async function clearReadings(surveyId: string): Promise<void> {
-  await db.transaction('rw', db.light_surveys, db.light_readings, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     const survey = await db.light_surveys.get(surveyId);
     await db.light_readings.where('survey_id').equals(surveyId).delete();
     await db.light_surveys.update(surveyId, {
@@ -106,7 +130,13 @@ export async function clearReadings(surveyId: string): Promise<void> {
       imported_at: null,
       updated_at: new Date().toISOString(),
     });
-    if (survey) await touchAssessment(survey.assessment_id);
+    if (survey) {
+      await touchAssessment(
+        survey.assessment_id,
+        undefined,
+        readingsChanged(surveyId, ['imported_filename', 'imported_at', 'updated_at']),
+      );
+    }
   });
 }
 
@@ -145,9 +175,10 @@ export async function importMeterReadings(
     measured_at: reading.measured_at,
     meter_place: reading.place,
     source: 'imported',
+    ...rowStamp(),
   }));
 
-  await db.transaction('rw', db.light_surveys, db.light_readings, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     await db.light_readings.where('survey_id').equals(survey.id).delete();
     if (records.length > 0) await db.light_readings.bulkAdd(records);
     await db.light_surveys.update(survey.id, {
@@ -156,7 +187,11 @@ export async function importMeterReadings(
       imported_at: now,
       updated_at: now,
     });
-    await touchAssessment(survey.assessment_id);
+    await touchAssessment(
+      survey.assessment_id,
+      undefined,
+      readingsChanged(survey.id, ['unit', 'imported_filename', 'imported_at', 'updated_at']),
+    );
   });
 
   return { imported: records.length, reconciliation };
@@ -182,7 +217,7 @@ export async function enterReading(
   pointIndex: number,
   valueFc: number,
 ): Promise<void> {
-  await db.transaction('rw', db.light_surveys, db.light_readings, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     const survey = await db.light_surveys.get(surveyId);
     if (!survey) return;
 
@@ -205,16 +240,17 @@ export async function enterReading(
       // out of a file.
       meter_place: null,
       source: 'manual',
+      ...rowStamp(),
     });
 
     await db.light_surveys.update(surveyId, { updated_at: new Date().toISOString() });
-    await touchAssessment(survey.assessment_id);
+    await touchAssessment(survey.assessment_id, undefined, readingsChanged(surveyId, ['updated_at']));
   });
 }
 
 /** Undo a reading typed at a point, leaving the cell unread. */
 export async function clearReading(surveyId: string, pointIndex: number): Promise<void> {
-  await db.transaction('rw', db.light_surveys, db.light_readings, db.assessments, async () => {
+  await db.transaction('rw', SURVEY_WRITE_SCOPE, async () => {
     const survey = await db.light_surveys.get(surveyId);
     if (!survey) return;
     const removed = await db.light_readings
@@ -224,7 +260,7 @@ export async function clearReading(surveyId: string, pointIndex: number): Promis
       .delete();
     if (removed === 0) return;
     await db.light_surveys.update(surveyId, { updated_at: new Date().toISOString() });
-    await touchAssessment(survey.assessment_id);
+    await touchAssessment(survey.assessment_id, undefined, readingsChanged(surveyId, ['updated_at']));
   });
 }
 
@@ -253,7 +289,9 @@ export async function countTypedReadings(surveyId: string): Promise<number> {
  * would look heavily edited and start crying conflict at the next sync. Same
  * rule that keeps persistAllScores() from bumping.
  *
- * updated_at is left alone for the same reason.
+ * updated_at is left alone for the same reason. With no revision there is no
+ * journal entry either; a delta push finds a moved position by comparing
+ * against the sync base instead (buildDelta in sync.ts).
  */
 export async function setWalkPosition(surveyId: string, pointIndex: number | null): Promise<void> {
   await db.light_surveys.update(surveyId, { walk_position: pointIndex });
@@ -0,0 +1,620 @@
+/**
+ * Three-way merge of two copies of one assessment against the copy they both
+ * started from.
+ *
+ * revision.ts can tell that this iPad and the server both moved on from the
+ * last sync; on its own that leaves the assessor choosing a whole copy and
+ * throwing the other away. But an assessment is not one value. Item scores,
+ * zone notes, recommendations, light surveys and readings are separately
+ * identified rows, so two iPads that split the walk — one scoring the exterior
+ * zones, the other the interior — touched disjoint rows and there is nothing
+ * to choose between. This module takes each field from whichever side changed
+ * it and reports only the fields both sides changed to different values.
+ *
+ * The work is split in two so the conflict screen can sit in the middle:
+ * diffAssessment() lists every place the copies differ, each with the side the
+ * ancestor says should win, and resolveAssessment() builds the result from a
+ * choice per difference. mergeAssessment() is the two run back to back with
+ * nobody asked.
+ *
+ * The ancestor is the payload the server last accepted from, or handed to,
+ * this device (the sync_bases table, recorded by services/sync.ts). Without it
+ * a difference between the two copies says nothing about who made it, which is
+ * exactly the question a merge has to answer — so diffAssessment() still lists
+ * the differences but suggests nothing, with one exception. Item, zone and
+ * reading rows carry their own edit stamp (RowRevision, for team mode), and
+ * when the two copies of such a row disagree the one with the higher revision
+ * is the one edited since: the other device never touched it, because it was
+ * walking a different zone. That is a heuristic where the ancestor is proof —
+ * two edits on one side and one on the other would read as the first side's —
+ * so it is only consulted when there is no ancestor row to ask.
+ *
+ * Pure, and kept free of Dexie and fetch for the same reason revision.ts is:
+ * the rules are the part worth reading, and they should read without either.
+ *
+ * Derived values — zone average_score and completed, the overall_score — are
+ * never compared. They are functions of the item scores, and the caller
+ * recalculates them from the resolved items instead of arbitrating between two
+ * stale answers.
+ */
+
+import type {
+  Assessment,
+  ItemScore,
+  LightReading,
+  LightSurvey,
+  Recommendation,
+  RowRevision,
+  SchoolProfile,
+  ZoneScore,
+} from '../types';
+
+/** The part of an assessment a merge is about. Photos travel separately. */
+export interface MergeContent {
+  assessment: Assessment;
+  zone_scores: ZoneScore[];
+  item_scores: ItemScore[];
+  light_surveys: LightSurvey[];
+  light_readings: LightReading[];
+}
+
+export type Side = 'local' | 'server';
+
+export type DifferenceScope =
+  | 'assessment'
+  | 'school_profile'
+  | 'recommendation'
+  | 'quick_win'
+  | 'zone'
+  | 'item'
+  | 'photo'
+  | 'light_survey'
+  | 'light_reading';
+
+/** One place the two copies disagree. */
+export interface Difference {
+  /** scope/key/field — what a choice is recorded against. */
+  id: string;
+  scope: DifferenceScope;
+  /**
+   * The row within its scope: the zone_key for a zone, the assessment id for
+   * an assessment or school-profile field, the row id for everything else.
+   */
+  key: string;
+  /**
+   * The field that differs. Null when the row exists on one side only — then
+   * base/local/server are whole rows, undefined where it is absent.
+   *
+   * For a photo it is always null, and the values are the id of the item the
+   * photo hangs off on each side (undefined: not there), so a photo moved to a
+   * different item reads as one difference rather than a removal and an add.
+   */
+  field: string | null;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+  /**
+   * The side that changed it, when only one did. Null when both did, or when
+   * there is no ancestor to tell.
+   */
+  suggested: Side | null;
+}
+
+/** A side per Difference.id. Anything unchosen takes its suggestion. */
+export type Choices = Record<string, Side>;
+
+export interface MergeResult {
+  merged: MergeContent;
+  /** The differences both sides changed — everything the merge could not settle. */
+  conflicts: Difference[];
+}
+
+/**
+ * The assessment fields that are content a person typed. Mirrors
+ * CONTENT_FIELDS in server/src/services/revisions.ts, less status (the server
+ * owns review status, and this device's own status rides along untouched),
+ * overall_score (derived), and three that are compared a level down: the two
+ * recommendation lists row by row, the school profile field by field.
+ */
+const ASSESSMENT_FIELDS = [
+  'property_type',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'homeowner_name',
+  'homeowner_contact',
+  'contact_phone',
+  'assessor_name',
+  'assessor_badge_id',
+  'assessment_type',
+  'follows_assessment_id',
+  'weather_conditions',
+  'time_of_assessment',
+  'date_of_assessment',
+  'report_signed_on',
+  'notes',
+  'assessor_signature',
+  'template_version',
+  'buildings',
+  'main_building_name',
+  'site_facts',
+] as const satisfies readonly (keyof Assessment)[];
+
+// The lifecycle fields too: a status recorded on the server after delivery is
+// an edit like any other, and must not vanish under this device's copy.
+const RECOMMENDATION_FIELDS = [
+  'order',
+  'description',
+  'priority',
+  'type',
+  'item_id',
+  'status',
+  'target_date',
+  'responsible_party',
+  'status_history',
+] as const;
+const ZONE_FIELDS = ['priority_findings', 'notes'] as const;
+const ITEM_FIELDS = ['score', 'is_na', 'na_reason', 'notes'] as const;
+
+/** A custom item's wording and guidance are the assessor's too. */
+const CUSTOM_ITEM_FIELDS = [...ITEM_FIELDS, 'item_text', 'custom_guidance'] as const;
+
+/**
+ * Light-survey fields left out of the comparison. The two aerial pictures are
+ * never kept in the ancestor (they are the largest thing on the row, and
+ * nobody edits half of one), so whichever copy has one keeps it; the
+ * timestamps are bookkeeping and take the later of the two.
+ */
+const SURVEY_SKIP = new Set(['id', 'assessment_id', 'created_at', 'updated_at', 'aerial_image', 'aerial_base']);
+const READING_SKIP = new Set([
+  'id',
+  'survey_id',
+  'assessment_id',
+  'revision',
+  'last_edited_by',
+  'last_edited_at',
+]);
+
+/**
+ * Structural equality, with null and undefined counted as the same absence:
+ * the server reports a missing optional field as null where this device
+ * simply never wrote the key, and neither of those is an edit.
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((value, i) => sameValue(value, b[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  for (const key of keys) {
+    if (!sameValue(left[key], right[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * The one rule everything else applies: a side that left a value as the
+ * ancestor had it did not edit it, so the other side's value wins. The same
+ * rule covers whole rows — a row the ancestor lacked was added by whichever
+ * side has it; a row one side lacks was deleted there, and the delete stands
+ * unless the other side edited the row meanwhile.
+ */
+function suggest(hasBase: boolean, base: unknown, local: unknown, server: unknown): Side | null {
+  if (!hasBase) return null;
+  if (sameValue(base, local)) return 'server';
+  if (sameValue(base, server)) return 'local';
+  return null;
+}
+
+/**
+ * The copy of a row that has been edited more often, by its own stamp. Null
+ * when the stamps agree — or are absent, as on a recommendation, which has
+ * none — and so say nothing.
+ */
+function newerRow(local: object, server: object): Side | null {
+  const mine = (local as RowRevision).revision ?? 1;
+  const theirs = (server as RowRevision).revision ?? 1;
+  if (mine === theirs) return null;
+  return mine > theirs ? 'local' : 'server';
+}
+
+/** Collects differences for one comparison. */
+class DiffCollector {
+  differences: Difference[] = [];
+  hasBase: boolean;
+
+  constructor(hasBase: boolean) {
+    this.hasBase = hasBase;
+  }
+
+  compare(
+    scope: DifferenceScope,
+    key: string,
+    field: string | null,
+    base: unknown,
+    local: unknown,
+    server: unknown,
+    fallback: Side | null = null,
+  ): void {
+    if (sameValue(local, server)) return;
+    this.differences.push({
+      id: `${scope}/${key}/${field ?? ''}`,
+      scope,
+      key,
+      field,
+      base,
+      local,
+      server,
+      suggested: suggest(this.hasBase, base, local, server) ?? fallback,
+    });
+  }
+
+  /**
+   * Compare the named fields of one row present on both sides. `fallback` is
+   * the side to suggest where the ancestor cannot.
+   */
+  fields(
+    scope: DifferenceScope,
+    key: string,
+    fields: readonly string[],
+    base: object | undefined,
+    local: object,
+    server: object,
+    fallback: Side | null = null,
+  ): void {
+    const b = base as Record<string, unknown> | undefined;
+    const l = local as Record<string, unknown>;
+    const s = server as Record<string, unknown>;
+    for (const field of fields) {
+      this.compare(scope, key, field, b?.[field], l[field], s[field], fallback);
+    }
+  }
+
+  /** Compare two lists of identified rows. */
+  rows<T extends object>(
+    scope: DifferenceScope,
+    keyOf: (row: T) => string,
+    fieldsOf: (row: T) => readonly string[],
+    base: T[] | null,
+    local: T[],
+    server: T[],
+  ): void {
+    const baseByKey = new Map((base ?? []).map((row) => [keyOf(row), row]));
+    const serverByKey = new Map(server.map((row) => [keyOf(row), row]));
+    const localKeys = new Set(local.map(keyOf));
+
+    for (const row of local) {
+      const key = keyOf(row);
+      const theirs = serverByKey.get(key);
+      if (theirs) {
+        const ancestor = baseByKey.get(key);
+        this.fields(
+          scope,
+          key,
+          fieldsOf(row),
+          ancestor,
+          row,
+          theirs,
+          this.hasBase && ancestor ? null : newerRow(row, theirs),
+        );
+      } else {
+        this.compare(scope, key, null, baseByKey.get(key), row, undefined);
+      }
+    }
+    for (const row of server) {
+      const key = keyOf(row);
+      if (!localKeys.has(key)) {
+        this.compare(scope, key, null, baseByKey.get(key), undefined, row);
+      }
+    }
+  }
+}
+
+/** Which item each photo hangs off, by photo id. */
+function photoPlacement(items: ItemScore[]): Map<string, string> {
+  const placement = new Map<string, string>();
+  for (const item of items) {
+    for (const photoId of item.photo_ids ?? []) placement.set(photoId, item.id);
+  }
+  return placement;
+}
+
+function surveyFields(row: object): string[] {
+  return Object.keys(row).filter((field) => !SURVEY_SKIP.has(field));
+}
+
+function readingFields(row: object): string[] {
+  return Object.keys(row).filter((field) => !READING_SKIP.has(field));
+}
+
+/**
+ * Every place `local` and `server` differ, each with the side `base` says
+ * should win. Pass null for base when there is no ancestor: the differences
+ * are the same, but none of them has a suggestion.
+ */
+export function diffAssessment(
+  base: MergeContent | null,
+  local: MergeContent,
+  server: MergeContent,
+): Difference[] {
+  const diff = new DiffCollector(base !== null);
+  const id = local.assessment.id;
+
+  diff.fields('assessment', id, ASSESSMENT_FIELDS, base?.assessment, local.assessment, server.assessment);
+
+  // Field by field, so an assessor who typed the roll and a colleague who
+  // took the photo are not made to pick one of them.
+  const profiles = [
+    base?.assessment.school_profile,
+    local.assessment.school_profile,
+    server.assessment.school_profile,
+  ];
+  const profileFields = new Set(profiles.flatMap((p) => (p ? Object.keys(p) : [])));
+  diff.fields('school_profile', id, [...profileFields], profiles[0] ?? {}, profiles[1] ?? {}, profiles[2] ?? {});
+
+  diff.rows(
+    'recommendation',
+    (r: Recommendation) => r.id,
+    () => RECOMMENDATION_FIELDS,
+    base ? base.assessment.top_recommendations ?? [] : null,
+    local.assessment.top_recommendations ?? [],
+    server.assessment.top_recommendations ?? [],
+  );
+  diff.rows(
+    'quick_win',
+    (r: Recommendation) => r.id,
+    () => RECOMMENDATION_FIELDS,
+    base ? base.assessment.quick_wins ?? [] : null,
+    local.assessment.quick_wins ?? [],
+    server.assessment.quick_wins ?? [],
+  );
+
+  // Zones are keyed by zone_key rather than id: the zone set comes from the
+  // checklist, and a zone is the same zone on every device that created it.
+  diff.rows(
+    'zone',
+    (z: ZoneScore) => z.zone_key,
+    () => ZONE_FIELDS,
+    base?.zone_scores ?? null,
+    local.zone_scores,
+    server.zone_scores,
+  );
+  diff.rows(
+    'item',
+    (i: ItemScore) => i.id,
+    (i) => (i.is_custom ? CUSTOM_ITEM_FIELDS : ITEM_FIELDS),
+    base?.item_scores ?? null,
+    local.item_scores,
+    server.item_scores,
+  );
+
+  const basePhotos = photoPlacement(base?.item_scores ?? []);
+  const localPhotos = photoPlacement(local.item_scores);
+  const serverPhotos = photoPlacement(server.item_scores);
+  for (const photoId of new Set([...localPhotos.keys(), ...serverPhotos.keys()])) {
+    diff.compare(
+      'photo',
+      photoId,
+      null,
+      basePhotos.get(photoId),
+      localPhotos.get(photoId),
+      serverPhotos.get(photoId),
+    );
+  }
+
+  diff.rows(
+    'light_survey',
+    (s: LightSurvey) => s.id,
+    surveyFields,
+    base?.light_surveys ?? null,
+    local.light_surveys,
+    server.light_surveys,
+  );
+  diff.rows(
+    'light_reading',
+    (r: LightReading) => r.id,
+    readingFields,
+    base?.light_readings ?? null,
+    local.light_readings,
+    server.light_readings,
+  );
+
+  return diff.differences;
+}
+
+/**
+ * Apply the chosen side of each difference to a list of rows: start from the
+ * local rows, take server fields where chosen, and keep or drop rows that only
+ * one side has according to their choice.
+ */
+function resolveRows<T extends object>(
+  keyOf: (row: T) => string,
+  local: T[],
+  server: T[],
+  differences: Difference[],
+  sideOf: (d: Difference) => Side,
+): T[] {
+  const byKey = new Map<string, Difference[]>();
+  for (const d of differences) {
+    const list = byKey.get(d.key);
+    if (list) list.push(d);
+    else byKey.set(d.key, [d]);
+  }
+  const localKeys = new Set(local.map(keyOf));
+  const serverByKey = new Map(server.map((row) => [keyOf(row), row]));
+  const result: T[] = [];
+
+  for (const row of local) {
+    const rowDiffs = byKey.get(keyOf(row)) ?? [];
+    const whole = rowDiffs.find((d) => d.field === null);
+    if (whole) {
+      if (sideOf(whole) === 'local') result.push(row);
+      continue;
+    }
+    const merged = { ...row } as Record<string, unknown>;
+    for (const d of rowDiffs) {
+      if (d.field !== null && sideOf(d) === 'server') merged[d.field] = d.server;
+    }
+    // Keep the newer edit stamp, so the merged row outranks both copies the
+    // next time it is compared against either.
+    const theirs = serverByKey.get(keyOf(row));
+    if (theirs && newerRow(row, theirs) === 'server') {
+      const stamp = theirs as RowRevision;
+      merged.revision = stamp.revision;
+      merged.last_edited_by = stamp.last_edited_by;
+      merged.last_edited_at = stamp.last_edited_at;
+    }
+    result.push(merged as T);
+  }
+
+  for (const row of server) {
+    if (localKeys.has(keyOf(row))) continue;
+    const whole = byKey.get(keyOf(row))?.find((d) => d.field === null);
+    if (whole && sideOf(whole) === 'server') result.push(row);
+  }
+
+  return result;
+}
+
+function byOrder(a: Recommendation, b: Recommendation): number {
+  return a.order - b.order;
+}
+
+function laterOf(a: string, b: string): string {
+  return a >= b ? a : b;
+}
+
+/**
+ * Build the result of a comparison: for each difference the side in
+ * `choices`, else its suggestion, else this device's. The result keeps the
+ * local row's bookkeeping (id, revision, status, sync fields); the caller
+ * decides what revision it becomes.
+ */
+export function resolveAssessment(
+  local: MergeContent,
+  server: MergeContent,
+  differences: Difference[],
+  choices: Choices,
+): MergeContent {
+  const sideOf = (d: Difference): Side => choices[d.id] ?? d.suggested ?? 'local';
+  const inScope = (scope: DifferenceScope) => differences.filter((d) => d.scope === scope);
+
+  const assessment = { ...local.assessment } as Record<string, unknown>;
+  for (const d of inScope('assessment')) {
+    if (d.field !== null && sideOf(d) === 'server') assessment[d.field] = d.server;
+  }
+
+  const profileDiffs = inScope('school_profile').filter((d) => sideOf(d) === 'server');
+  if (profileDiffs.length > 0) {
+    const profile = { ...(local.assessment.school_profile ?? {}) } as Record<string, unknown>;
+    for (const d of profileDiffs) {
+      if (d.field !== null) profile[d.field] = d.server;
+    }
+    assessment.school_profile = profile as unknown as SchoolProfile;
+  }
+
+  assessment.top_recommendations = resolveRows(
+    (r: Recommendation) => r.id,
+    local.assessment.top_recommendations ?? [],
+    server.assessment.top_recommendations ?? [],
+    inScope('recommendation'),
+    sideOf,
+  ).sort(byOrder);
+  assessment.quick_wins = resolveRows(
+    (r: Recommendation) => r.id,
+    local.assessment.quick_wins ?? [],
+    server.assessment.quick_wins ?? [],
+    inScope('quick_win'),
+    sideOf,
+  ).sort(byOrder);
+
+  const zone_scores = resolveRows(
+    (z: ZoneScore) => z.zone_key,
+    local.zone_scores,
+    server.zone_scores,
+    inScope('zone'),
+    sideOf,
+  );
+
+  // Photos: every photo whose placement differs goes where the chosen side
+  // has it, or nowhere. Photos both sides agree on stay where they are.
+  const moved = new Map<string, string | undefined>();
+  for (const d of inScope('photo')) {
+    moved.set(d.key, (sideOf(d) === 'server' ? d.server : d.local) as string | undefined);
+  }
+  const item_scores = resolveRows(
+    (i: ItemScore) => i.id,
+    local.item_scores,
+    server.item_scores,
+    inScope('item'),
+    sideOf,
+  ).map((item) => {
+    const photoIds = (item.photo_ids ?? []).filter(
+      (photoId) => !moved.has(photoId) || moved.get(photoId) === item.id,
+    );
+    for (const [photoId, itemId] of moved) {
+      if (itemId === item.id && !photoIds.includes(photoId)) photoIds.push(photoId);
+    }
+    return { ...item, photo_ids: photoIds };
+  });
+
+  const serverSurveys = new Map(server.light_surveys.map((s) => [s.id, s]));
+  const light_surveys = resolveRows(
+    (s: LightSurvey) => s.id,
+    local.light_surveys,
+    server.light_surveys,
+    inScope('light_survey'),
+    sideOf,
+  ).map((survey) => {
+    const theirs = serverSurveys.get(survey.id);
+    if (!theirs) return survey;
+    return {
+      ...survey,
+      aerial_image: survey.aerial_image ?? theirs.aerial_image ?? null,
+      aerial_base: survey.aerial_base ?? theirs.aerial_base ?? null,
+      updated_at: laterOf(survey.updated_at, theirs.updated_at),
+    };
+  });
+
+  // A reading whose survey did not survive goes with it.
+  const surveyIds = new Set(light_surveys.map((s) => s.id));
+  const light_readings = resolveRows(
+    (r: LightReading) => r.id,
+    local.light_readings,
+    server.light_readings,
+    inScope('light_reading'),
+    sideOf,
+  ).filter((r) => surveyIds.has(r.survey_id));
+
+  return {
+    assessment: assessment as unknown as Assessment,
+    zone_scores,
+    item_scores,
+    light_surveys,
+    light_readings,
+  };
+}
+
+/**
+ * Merge `local` and `server` against `base` with nobody asked: every
+ * difference takes its suggestion. Conflicts keep the local value in `merged`
+ * and are returned so the caller can stop and ask instead. A null `base` is
+ * allowed: only differences the row stamps can settle then merge on their own.
+ */
+export function mergeAssessment(
+  base: MergeContent | null,
+  local: MergeContent,
+  server: MergeContent,
+): MergeResult {
+  const differences = diffAssessment(base, local, server);
+  return {
+    merged: resolveAssessment(local, server, differences, {}),
+    conflicts: differences.filter((d) => d.suggested === null),
+  };
+}
@@ -1,12 +1,32 @@
-import jsPDF from 'jspdf';
+import jsPDF, { GState } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { db } from '../db/database';
 import { ensureReportSignedOn } from './report-date';
-import { getZonesForType, getItemGuidanceForType, isWorshipType, isSchoolType, isCommercialType } from '../data/zone-registry';
+import { isApprovedFinal } from './review';
+import { assessmentZones } from './buildings';
+import { pinnedVersion } from './template-upgrade';
 import {
+  CRITICAL_SCORE_CAP,
+  buildPrincipleMatrix,
+  calculateBuildingScore,
+  calculateCompliance,
+  calculatePrincipleCompliance,
+  calculateWeightedScore,
+  describeScoreWeights,
+  groupItemsByZone,
+  groupZonesByBuilding,
+  getItemGuidanceForType,
+  isWorshipType,
+  isSchoolType,
+  isCommercialType,
   getScoreLabel,
   getCompletionCounts,
-} from './scoring';
+  formatCompliance,
+  formatMatrixValue,
+  RECOMMENDATION_STATUS_LABELS,
+  countRecommendations,
+  recommendationStatus,
+} from 'cpted-checklist';
 import type {
   Assessment,
   ZoneDefinition,
@@ -18,7 +38,13 @@ import type {
   LightSurvey,
   LightReading,
 } from '../types';
-import type { ItemGuidance } from '../data/item-guidance';
+import type {
+  BuildingGroup,
+  BuildingZone,
+  ItemGuidance,
+  PrincipleMatrixCell,
+  RecommendationStatus,
+} from 'cpted-checklist';
 import { buildPointPlan, cellToPoint, pointPosition } from './light-grid';
 import {
   SCHOOL_PROFILE_FIELDS,
@@ -70,6 +96,23 @@ function getScoreBgHex(score: number): string {
   return '#ECFDF5'; // emerald-50
 }
 
+// Compliance percent on the same five steps, for school reports.
+function getComplianceColorHex(percent: number): string {
+  if (percent < 50) return '#DC2626'; // red-600
+  if (percent < 70) return '#EA580C'; // orange-600
+  if (percent < 85) return '#CA8A04'; // yellow-600
+  if (percent < 95) return '#16A34A'; // green-600
+  return '#059669'; // emerald-600
+}
+
+function getComplianceBgHex(percent: number): string {
+  if (percent < 50) return '#FEF2F2'; // red-50
+  if (percent < 70) return '#FFF7ED'; // orange-50
+  if (percent < 85) return '#FEFCE8'; // yellow-50
+  if (percent < 95) return '#F0FDF4'; // green-50
+  return '#ECFDF5'; // emerald-50
+}
+
 // --- School Yes/No/UTO rating color helper (hex for PDF) ---
 function getRatingColorHex(rating: SchoolRating): string {
   if (rating === 'yes') return '#16A34A'; // green-600
@@ -123,9 +166,14 @@ async function loadLogoBase64(url: string): Promise<string | null> {
 }
 
 // --- Data gathering ---
-interface PDFData {
+// Exported for the pre-flight check (preflight.ts), which reads exactly what
+// the report will print.
+export interface PDFData {
   assessment: Assessment;
-  zones: ZoneDefinition[];
+  /** Every zone, each further building's copies after the template's own. */
+  zones: BuildingZone[];
+  /** The zones by building; a single group unless the campus has several. */
+  buildingGroups: BuildingGroup[];
   itemGuidance: Map<string, ItemGuidance>;
   zoneScores: ZoneScore[];
   itemScores: ItemScore[];
@@ -135,9 +183,11 @@ interface PDFData {
   lightReadings: LightReading[];
   /** The analyst's crime report, if one was uploaded. One per assessment. */
   crimeReport?: CrimeReport;
+  /** The assessment a follow-up follows, when it is linked and on this device. */
+  followed: Assessment | null;
 }
 
-async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
+export async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
   const [
     assessment,
     zoneScores,
@@ -164,16 +214,23 @@ async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
 
   if (!assessment) throw new Error('Assessment not found');
 
-  const zones = getZonesForType(assessment.property_type);
+  const zones = assessmentZones(assessment);
+  const buildingGroups = groupZonesByBuilding(zones, assessment.buildings, assessment.main_building_name);
   const itemGuidance = getItemGuidanceForType(assessment.property_type);
 
   // Only include photos still referenced by an item_score's photo_ids
   const referencedIds = new Set(itemScores.flatMap((s) => s.photo_ids));
   const validPhotos = photos.filter((p) => referencedIds.has(p.id));
 
+  const followed =
+    assessment.assessment_type === 'follow_up' && assessment.follows_assessment_id
+      ? ((await db.assessments.get(assessment.follows_assessment_id)) ?? null)
+      : null;
+
   return {
     assessment,
     zones,
+    buildingGroups,
     itemGuidance,
     zoneScores,
     itemScores,
@@ -182,6 +239,7 @@ async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
     lightSurveys,
     lightReadings,
     crimeReport: crimeReports[0],
+    followed,
   };
 }
 
@@ -221,6 +279,24 @@ function addConfidentialHeader(doc: jsPDF, pageNum: number) {
   doc.text('CONFIDENTIAL', PAGE_WIDTH / 2, 8, { align: 'center' });
 }
 
+// A diagonal DRAFT across the page for any report a supervisor has not approved
+// at the revision being printed. Drawn over the content at low opacity, so the
+// findings stay readable underneath — a draft is printed to be reviewed.
+function addDraftWatermark(doc: jsPDF) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity: 0.12 }));
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(110);
+  doc.setTextColor('#DC2626'); // red-600
+  doc.text('DRAFT', PAGE_WIDTH / 2, pageHeight / 2, {
+    align: 'center',
+    baseline: 'middle',
+    angle: 45,
+  });
+  doc.restoreGraphicsState();
+}
+
 // Footers are stamped in a single final pass in generatePDF, so page-adding
 // here doesn't need to footer — it just makes room.
 function ensureSpace(doc: jsPDF, needed: number, currentY: number): number {
@@ -404,8 +480,9 @@ function renderCptedIntro(doc: jsPDF): void {
   // No footer — this is unnumbered front matter.
 }
 
-// School summary: no scores, no averages — a narrative of findings + a plain
-// zone index showing completion only. Mirrors the printed Yes/No/UTO form.
+// School summary: no 1–5 scores — a narrative of findings with the compliance
+// figure (percent of observable items met), then zone and principle indexes
+// with compliance and the Unable to Observe counts kept apart.
 function renderSchoolSummaryPage(doc: jsPDF, data: PDFData): void {
   doc.addPage();
   let y = 20;
@@ -432,6 +509,10 @@ function renderSchoolSummaryPage(doc: jsPDF, data: PDFData): void {
   if (utoCount > 0) {
     narrative += ` ${utoCount} item${utoCount === 1 ? ' was' : 's were'} unable to be observed during the visit.`;
   }
+  const compliance = calculateCompliance(data.itemScores);
+  if (compliance.percent !== null) {
+    narrative += ` Overall, ${formatCompliance(compliance.percent)} of the observable items were met (${compliance.met} of ${compliance.met + compliance.notMet}); items unable to be observed are not counted either way.`;
+  }
 
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
@@ -455,17 +536,20 @@ function renderSchoolSummaryPage(doc: jsPDF, data: PDFData): void {
     const zs = data.zoneScores.find((z) => z.zone_key === zone.key);
     const zoneItems = data.itemScores.filter((s) => s.zone_key === zone.key);
     const counts = getCompletionCounts(zoneItems);
+    const zoneCompliance = calculateCompliance(zoneItems);
     return [
       String(zone.order),
       zone.name,
+      zoneCompliance.percent !== null ? formatCompliance(zoneCompliance.percent) : '\u2014',
       `${counts.scored} / ${counts.total}`,
+      String(zoneCompliance.uto),
       zs?.completed ? 'Complete' : counts.scored > 0 ? 'Partial' : 'Not Started',
     ];
   });
 
   autoTable(doc, {
     startY: y,
-    head: [['#', 'Zone', 'Items Rated', 'Status']],
+    head: [['#', 'Zone', 'Compliance', 'Items Rated', 'UTO', 'Status']],
     body: zoneRows,
     margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
     theme: 'grid',
@@ -474,11 +558,50 @@ function renderSchoolSummaryPage(doc: jsPDF, data: PDFData): void {
     columnStyles: {
       0: { cellWidth: 10, halign: 'center' },
       1: { cellWidth: 'auto' },
-      2: { cellWidth: 28, halign: 'center' },
-      3: { cellWidth: 28, halign: 'center' },
+      2: { cellWidth: 24, halign: 'center' },
+      3: { cellWidth: 24, halign: 'center' },
+      4: { cellWidth: 14, halign: 'center' },
+      5: { cellWidth: 24, halign: 'center' },
     },
   });
+  // @ts-expect-error — autoTable attaches lastAutoTable to the doc at runtime
+  y = (doc.lastAutoTable?.finalY ?? y) + 10;
 
+  // The same figure by principle, across every zone.
+  const principles = [...new Map(data.zones.flatMap((z) => z.principles.map((p) => [p.key, p.name] as const)))]
+    .map(([key, name]) => ({ name, ...calculatePrincipleCompliance(data.itemScores, key) }))
+    .filter((p) => p.met + p.notMet + p.uto > 0);
+  if (principles.length === 0) return;
+
+  y = ensureSpace(doc, 30, y);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Principles', PAGE_MARGIN, y);
+  y += 3;
+
+  autoTable(doc, {
+    startY: y,
+    head: [['Principle', 'Compliance', 'Met', 'Not Met', 'UTO']],
+    body: principles.map((p) => [
+      p.name,
+      p.percent !== null ? formatCompliance(p.percent) : '\u2014',
+      String(p.met),
+      String(p.notMet),
+      String(p.uto),
+    ]),
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 9 },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    columnStyles: {
+      0: { cellWidth: 'auto' },
+      1: { cellWidth: 24, halign: 'center' },
+      2: { cellWidth: 18, halign: 'center' },
+      3: { cellWidth: 18, halign: 'center' },
+      4: { cellWidth: 18, halign: 'center' },
+    },
+  });
 }
 
 function renderSummaryPage(doc: jsPDF, data: PDFData): void {
@@ -538,7 +661,7 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
         : 'residential security';
   let narrative = `This assessment evaluated ${data.assessment.address} across ${zoneCountWord} ${typeLabel} zones, covering ${totalScored} checklist items.`;
   if (overall !== null) {
-    narrative += ` The property received an overall score of ${overall.toFixed(1)} (${getScoreLabel(overall)}).`;
+    narrative += ` The property received a weighted overall score of ${overall.toFixed(1)} (${getScoreLabel(overall)}).`;
   }
   narrative += ` ${attentionItems.length} item${attentionItems.length === 1 ? ' was' : 's were'} identified as requiring attention, while ${strongItems.length} item${strongItems.length === 1 ? '' : 's'} demonstrated strong security practices.`;
   if (worstZones.length > 0) {
@@ -555,6 +678,8 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
   doc.text(narrativeLines, PAGE_MARGIN, y);
   y += narrativeLines.length * 4 + 6;
 
+  y = renderScoreWeighting(doc, data, y);
+
   // Horizontal rule
   doc.setDrawColor(LIGHT_BLUE);
   doc.setLineWidth(0.3);
@@ -673,6 +798,69 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
 
 }
 
+// Zones down, CPTED principles across, each cell coloured like the zone table:
+// a principle weak throughout the site shows as a column, where the zone pages
+// spread it across a dozen findings. Its own page after the summary; skipped
+// until something is rated.
+function renderPrincipleMatrix(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
+  const matrix = buildPrincipleMatrix(data.assessment.property_type, data.zones, data.itemScores);
+  if (!matrix.totals.some((cell) => cell.value !== null)) return;
+  const compliance = matrix.mode === 'compliance';
+
+  doc.addPage();
+  toc.push({ label: 'Principles by Zone', page: doc.getNumberOfPages(), level: 0 });
+  let y = 20;
+
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Principles by Zone', PAGE_MARGIN, y);
+  y += 8;
+
+  let intro = compliance
+    ? "Each cell is the percent of the zone's observable items met under that CPTED principle; the last row is each principle across the whole campus."
+    : "Each cell is the average score of the zone's items under that CPTED principle; the last row is each principle across the whole property.";
+  intro += ' A column that runs low points to a strategy weak throughout the site, not just in one area.';
+  if (matrix.weakest) {
+    intro += ` The weakest principle overall is ${matrix.weakest.name}, at ${formatMatrixValue(matrix.mode, matrix.weakest.value)}${compliance ? ' met' : ''}.`;
+  }
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60);
+  const introLines = doc.splitTextToSize(intro, CONTENT_WIDTH);
+  doc.text(introLines, PAGE_MARGIN, y);
+  y += introLines.length * 4 + 4;
+
+  const cellText = (cell: PrincipleMatrixCell) =>
+    cell.value !== null ? formatMatrixValue(matrix.mode, cell.value) : '\u2014';
+  const body = [
+    ...matrix.rows.map((row) => [row.zone_name, ...row.cells.map(cellText)]),
+    ['All zones', ...matrix.totals.map(cellText)],
+  ];
+
+  autoTable(doc, {
+    startY: y,
+    head: [['Zone', ...matrix.principles.map((p) => p.name)]],
+    body,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 8, halign: 'center' },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50], halign: 'center' },
+    columnStyles: { 0: { cellWidth: 50, halign: 'left' } },
+    didParseCell(hookData) {
+      if (hookData.section !== 'body') return;
+      const totalsRow = hookData.row.index === matrix.rows.length;
+      if (totalsRow) hookData.cell.styles.fontStyle = 'bold';
+      if (hookData.column.index === 0) return;
+      const cells = totalsRow ? matrix.totals : matrix.rows[hookData.row.index].cells;
+      const value = cells[hookData.column.index - 1].value;
+      if (value === null) return;
+      hookData.cell.styles.textColor = compliance ? getComplianceColorHex(value) : getScoreColorHex(value);
+      hookData.cell.styles.fillColor = compliance ? getComplianceBgHex(value) : getScoreBgHex(value);
+    },
+  });
+}
+
 // Resident-friendly zone descriptions (replaces assessor-facing instructions)
 const ZONE_RESIDENT_DESCRIPTIONS: Record<string, string> = {
   // Residential
@@ -739,6 +927,22 @@ function renderItemPhotos(doc: jsPDF, item: ItemScore, data: PDFData, y: number)
   return y;
 }
 
+// An assessor's custom item is marked wherever its wording is printed, so the
+// reader can tell the assessor's own checks from the standard checklist's.
+function printedItemText(item: ItemScore): string {
+  return item.is_custom ? `${item.item_text} [Custom item]` : item.item_text;
+}
+
+// The CPTED guidance printed under a finding: the template's, looked up by
+// key, or for a custom item whatever the assessor wrote — which has no
+// standard half, only the action to take.
+function findingGuidance(item: ItemScore, data: PDFData): ItemGuidance | undefined {
+  if (item.is_custom) {
+    return item.custom_guidance ? { standard: '', improvement: item.custom_guidance } : undefined;
+  }
+  return item.item_key ? data.itemGuidance.get(item.item_key) : undefined;
+}
+
 // Renders one deficient item as a red "finding" card: item row + rating badge,
 // optional assessor note callout, optional CPTED guidance block, inline photos.
 // Used for both numeric concerns (1-2) and school "No" items — the badge label
@@ -751,12 +955,12 @@ function renderFindingCard(
   ratingLabel: string,
   ratingColorHex: string,
 ): number {
-  const guidance = data.itemGuidance.get(item.item_text);
+  const guidance = findingGuidance(item, data);
 
   // Item text — set size first so wrapping matches the rendered size
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  const itemLines = doc.splitTextToSize(item.item_text, CONTENT_WIDTH - 30);
+  const itemLines = doc.splitTextToSize(printedItemText(item), CONTENT_WIDTH - 30);
   const itemRowHeight = Math.max(itemLines.length * 4.3 + 5, 12);
 
   // Estimate total height for the page-break check
@@ -813,10 +1017,13 @@ function renderFindingCard(
   if (guidance) {
     doc.setFontSize(8);
     doc.setFont('helvetica', 'normal');
-    const standardLines = doc.splitTextToSize(guidance.standard, CONTENT_WIDTH - 16);
+    const standardLines: string[] = guidance.standard
+      ? doc.splitTextToSize(guidance.standard, CONTENT_WIDTH - 16)
+      : [];
     const improvementLines = doc.splitTextToSize(guidance.improvement, CONTENT_WIDTH - 16);
     const guidanceHeight =
-      4 + 4 + standardLines.length * 3.5 + 4 + 4 + improvementLines.length * 3.5 + 4;
+      (standardLines.length > 0 ? 4 + 4 + standardLines.length * 3.5 : 0) +
+      4 + 4 + improvementLines.length * 3.5 + 4;
     y = ensureSpace(doc, guidanceHeight, y);
 
     doc.setFillColor('#FFF5F5');
@@ -827,14 +1034,16 @@ function renderFindingCard(
 
     let gy = y + 4.5;
     doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    doc.setTextColor('#991B1B');
-    doc.text('CPTED Standard:', PAGE_MARGIN + 8, gy);
-    gy += 4;
-    doc.setFont('helvetica', 'normal');
-    doc.setTextColor(60);
-    doc.text(standardLines, PAGE_MARGIN + 8, gy);
-    gy += standardLines.length * 3.5 + 4;
+    if (standardLines.length > 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor('#991B1B');
+      doc.text('CPTED Standard:', PAGE_MARGIN + 8, gy);
+      gy += 4;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(60);
+      doc.text(standardLines, PAGE_MARGIN + 8, gy);
+      gy += standardLines.length * 3.5 + 4;
+    }
 
     doc.setFont('helvetica', 'bold');
     doc.setTextColor('#991B1B');
@@ -917,7 +1126,7 @@ function renderSchoolZoneBody(
       doc.setFontSize(10);
       doc.setFont('helvetica', 'normal');
       doc.setTextColor(80);
-      const lines = doc.splitTextToSize(`•  ${item.item_text}`, CONTENT_WIDTH - 4);
+      const lines = doc.splitTextToSize(`•  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
       doc.text(lines, PAGE_MARGIN + 2, y);
       y += lines.length * 4.3 + 1.5;
 
@@ -961,7 +1170,7 @@ function renderSchoolZoneBody(
     doc.setTextColor(60);
     for (const item of compliant.sort((a, b) => a.item_order - b.item_order)) {
       y = ensureSpace(doc, 9, y);
-      const lines = doc.splitTextToSize(`•  ${item.item_text}`, CONTENT_WIDTH - 4);
+      const lines = doc.splitTextToSize(`•  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
       doc.text(lines, PAGE_MARGIN + 2, y);
       y += lines.length * 4.3 + 1.5;
 
@@ -1017,14 +1226,94 @@ function renderSchoolZoneBody(
   return y;
 }
 
+// How the overall score was reached: the weighting in words, any critical
+// item that capped it, and the unweighted figure earlier reports printed as
+// their overall score, for anyone comparing the two.
+function renderScoreWeighting(doc: jsPDF, data: PDFData, y: number): number {
+  const weighting = calculateWeightedScore(
+    data.assessment.property_type,
+    groupItemsByZone(data.itemScores),
+    pinnedVersion(data.assessment),
+  );
+  if (weighting.score === null) return y;
+  const lines = describeScoreWeights(data.assessment.property_type, pinnedVersion(data.assessment));
+  if (weighting.cappedBy.length > 0) {
+    lines.push(
+      `This report's score is capped at ${CRITICAL_SCORE_CAP.toFixed(1)} by: ${weighting.cappedBy.map((s) => s.item_text).join('; ')}.`,
+    );
+  }
+  if (weighting.unweighted !== null) {
+    lines.push(
+      `Unweighted average of zone scores, as reports before weighting computed the overall score: ${weighting.unweighted.toFixed(1)}.`,
+    );
+  }
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('How the overall score is weighted', PAGE_MARGIN, y);
+  y += 4;
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(90);
+  for (const line of lines) {
+    const wrapped = doc.splitTextToSize(line, CONTENT_WIDTH);
+    doc.text(wrapped, PAGE_MARGIN, y);
+    y += wrapped.length * 3.5 + 1;
+  }
+  return y + 4;
+}
+
+// Opens a building's zone details on a multi-building campus: its name and its
+// roll-up, weighted like the overall score (schools: items rated).
+function renderBuildingBanner(doc: jsPDF, data: PDFData, group: BuildingGroup, y: number): number {
+  const keys = new Set(group.zones.map((z) => z.key));
+  const items = data.itemScores.filter((s) => keys.has(s.zone_key));
+  let rollup: string;
+  if (isSchoolType(data.assessment.property_type)) {
+    const { scored, total } = getCompletionCounts(items);
+    const { percent } = calculateCompliance(items);
+    rollup =
+      percent !== null
+        ? `${formatCompliance(percent)} met \u2014 ${scored} of ${total} items rated`
+        : `${scored} of ${total} items rated`;
+  } else {
+    const average = calculateBuildingScore(
+      data.assessment.property_type,
+      group,
+      items,
+      pinnedVersion(data.assessment),
+    );
+    rollup = average !== null ? `Building score ${average.toFixed(1)} \u2014 ${getScoreLabel(average)}` : 'Not scored';
+  }
+  doc.setFillColor(LIGHT_BLUE);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 9, 'F');
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text(group.name.toUpperCase(), PAGE_MARGIN + 4, y + 6);
+  doc.setFont('helvetica', 'normal');
+  doc.text(rollup, PAGE_WIDTH - PAGE_MARGIN - 4, y + 6, { align: 'right' });
+  return y + 12;
+}
+
 function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
   const pt = data.assessment.property_type;
   const school = isSchoolType(pt);
+  // data.zones already runs building by building; on a campus with several,
+  // each building opens with its own contents entry and banner.
+  const opening = new Map(
+    data.buildingGroups.length > 1
+      ? data.buildingGroups.map((group) => [group.zones[0].key, group])
+      : [],
+  );
   for (const zone of data.zones) {
     doc.addPage();
+    const group = opening.get(zone.key);
+    if (group) toc.push({ label: group.name, page: doc.getNumberOfPages(), level: 0 });
     // Record this zone's start page for the table of contents.
     toc.push({ label: `${zone.order}. ${zone.name}`, page: doc.getNumberOfPages(), level: 1 });
     let y = 15;
+    if (group) y = renderBuildingBanner(doc, data, group, y);
 
     // Zone header bar
     doc.setFillColor(NAVY);
@@ -1039,6 +1328,11 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
     if (zs?.average_score !== null && zs?.average_score !== undefined) {
       const scoreText = `${zs.average_score.toFixed(1)} \u2014 ${getScoreLabel(zs.average_score)}`;
       doc.text(scoreText, PAGE_WIDTH - PAGE_MARGIN - 4, y + 8, { align: 'right' });
+    } else if (school) {
+      const { percent } = calculateCompliance(data.itemScores.filter((s) => s.zone_key === zone.key));
+      if (percent !== null) {
+        doc.text(`${formatCompliance(percent)} met`, PAGE_WIDTH - PAGE_MARGIN - 4, y + 8, { align: 'right' });
+      }
     }
 
     // Accent line under header bar
@@ -1048,7 +1342,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
     y += 18;
 
     // Resident-friendly zone description
-    const residentDesc = ZONE_RESIDENT_DESCRIPTIONS[zone.key];
+    const residentDesc = ZONE_RESIDENT_DESCRIPTIONS[zone.base_key];
     if (residentDesc) {
       doc.setFontSize(9);
       doc.setFont('helvetica', 'normal');
@@ -1147,7 +1441,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
         doc.setFontSize(8);
         doc.setFont('helvetica', 'normal');
         doc.setTextColor(50);
-        const itemLines = doc.splitTextToSize(`\u2022  ${item.item_text}`, CONTENT_WIDTH - 4);
+        const itemLines = doc.splitTextToSize(`\u2022  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
         doc.text(itemLines, PAGE_MARGIN + 2, y);
         y += itemLines.length * 3.5 + 1;
 
@@ -1230,7 +1524,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
 
         for (const item of group.items) {
           y = ensureSpace(doc, 8, y);
-          const bulletText = `\u2022  ${item.item_text}`;
+          const bulletText = `\u2022  ${printedItemText(item)}`;
           const lines = doc.splitTextToSize(bulletText, CONTENT_WIDTH - 4);
           doc.text(lines, PAGE_MARGIN + 2, y);
           y += lines.length * 3.5 + 1;
@@ -1281,8 +1575,18 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
       }
     }
 
+    // The site-fact answers behind any N/As, so a reader sees "No garage"
+    // rather than wondering why half the garage zone went unassessed.
+    const naReasons = [...new Set(naItems.map((s) => s.na_reason).filter(Boolean))];
+
     // Summary line if nothing notable
-    if (concerns.length === 0 && improvements.length === 0 && strengths.length === 0) {
+    if (zoneItems.length > 0 && naItems.length === zoneItems.length && naReasons.length > 0) {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'italic');
+      doc.setTextColor(120);
+      doc.text(`Not applicable to this site: ${naReasons.join('; ')}.`, PAGE_MARGIN, y);
+      y += 8;
+    } else if (concerns.length === 0 && improvements.length === 0 && strengths.length === 0) {
       doc.setFontSize(9);
       doc.setFont('helvetica', 'italic');
       doc.setTextColor(120);
@@ -1292,12 +1596,12 @@ function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
       doc.setFontSize(7);
       doc.setFont('helvetica', 'italic');
       doc.setTextColor(140);
-      doc.text(
-        `${naItems.length} item${naItems.length === 1 ? '' : 's'} marked as not applicable to this ${isSchoolType(pt) ? 'school' : isCommercialType(pt) ? 'facility' : isWorshipType(pt) ? 'facility' : 'property'}.`,
-        PAGE_MARGIN,
-        y,
+      const naLines = doc.splitTextToSize(
+        `${naItems.length} item${naItems.length === 1 ? '' : 's'} marked as not applicable to this ${isSchoolType(pt) ? 'school' : isCommercialType(pt) ? 'facility' : isWorshipType(pt) ? 'facility' : 'property'}${naReasons.length > 0 ? ` (${naReasons.join('; ')})` : ''}.`,
+        CONTENT_WIDTH,
       );
-      y += 6;
+      doc.text(naLines, PAGE_MARGIN, y);
+      y += naLines.length * 3 + 3;
     }
   }
 }
@@ -1994,6 +2298,7 @@ function renderRecommendations(doc: jsPDF, data: PDFData): void {
     }
   }
 
+  renderRecommendationStatus(doc, data, y);
 }
 
 function renderRecommendationItem(
@@ -2073,6 +2378,85 @@ function renderQuickWinItem(doc: jsPDF, item: Recommendation, y: number): number
   return descLines.length * 4 + 4;
 }
 
+const STATUS_TEXT_HEX: Record<RecommendationStatus, string> = {
+  open: '#DC2626',
+  in_progress: '#CA8A04',
+  implemented: '#16A34A',
+  declined: '#6B7280',
+};
+
+// Where each recommendation stands since the report that made it — the one
+// page a homeowner or district is asked about on a return visit. A follow-up
+// linked to the assessment it follows reports on that assessment's
+// recommendations; any other report shows its own once one has been tracked,
+// so a re-print of the original carries the table too. An untracked report,
+// the usual first print, goes out without it.
+function renderRecommendationStatus(doc: jsPDF, data: PDFData, y: number): void {
+  const source = data.followed ?? data.assessment;
+  const school = isSchoolType(source.property_type);
+  const recs = (source.top_recommendations || []).filter((rec) => rec.description.trim());
+  const qw = school ? [] : (source.quick_wins || []).filter((rec) => rec.description.trim());
+  const all = [...recs, ...qw];
+  const shown =
+    data.assessment.assessment_type === 'follow_up' || all.some((rec) => rec.status !== undefined);
+  if (!shown) return;
+  if (all.length === 0) return;
+  const counts = countRecommendations(all);
+
+  y = ensureSpace(doc, 40, y);
+  y += 5;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Recommendation Status', PAGE_MARGIN, y);
+  y += 7;
+
+  doc.setFontSize(9);
+  if (data.followed) {
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100);
+    doc.text(`Recommendations from the assessment of ${formatDate(data.followed.date_of_assessment)}.`, PAGE_MARGIN, y);
+    y += 5;
+  }
+
+  const { implemented, declined, in_progress } = counts.byStatus;
+  let summary = `${counts.closed} of ${all.length} recommendation${all.length === 1 ? '' : 's'} closed: ${implemented} implemented, ${declined} declined.`;
+  summary += ` ${counts.open} still open${in_progress > 0 ? `, ${in_progress} of them in progress` : ''}.`;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60);
+  const summaryLines = doc.splitTextToSize(summary, CONTENT_WIDTH);
+  doc.text(summaryLines, PAGE_MARGIN, y);
+  y += summaryLines.length * 4 + 3;
+
+  const row = (rec: Recommendation, label: string) => [
+    label,
+    rec.description,
+    RECOMMENDATION_STATUS_LABELS[recommendationStatus(rec)],
+    rec.target_date ? formatDate(rec.target_date) : '—',
+    rec.responsible_party || '—',
+  ];
+  autoTable(doc, {
+    startY: y,
+    head: [['#', 'Recommendation', 'Status', 'Target', 'Responsible']],
+    body: [...recs.map((rec, i) => row(rec, String(i + 1))), ...qw.map((rec) => row(rec, 'QW'))],
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 8 },
+    bodyStyles: { fontSize: 8, textColor: [50, 50, 50], valign: 'top' },
+    columnStyles: {
+      0: { cellWidth: 10, halign: 'center' },
+      2: { cellWidth: 24, fontStyle: 'bold' },
+      3: { cellWidth: 30 },
+      4: { cellWidth: 32 },
+    },
+    didParseCell(hookData) {
+      if (hookData.section !== 'body' || hookData.column.index !== 2) return;
+      hookData.cell.styles.textColor = STATUS_TEXT_HEX[recommendationStatus(all[hookData.row.index])];
+    },
+  });
+}
+
 // Legal-advisor-approved disclaimer (2026-07-07). Two paragraphs, rendered with
 // a gap between them. Source: "CPTED Approve Disclaimer.docx" (repo root).
 const LIABILITY_WAIVER = `This CPTED assessment has been conducted by the Volusia Sheriff's Office according to the protocols of the National Institute of Crime Prevention. The information contained herein is based on guidelines set by the International Society of Crime Prevention Practitioners, the Florida Crime Prevention Training Institute, and the observations of the person conducting the survey. The assessment is intended to assist you in improving the overall level of security only. It is not intended to imply that existing security or CPTED measures are absolute or perfect. Any decisions based upon this assessment are solely your responsibility. Accordingly, Volusia Sheriff's Office makes no guarantee and accepts no liability for any security breaches or crimes after the completion and submission of the assessment.
@@ -2278,6 +2662,7 @@ export async function generatePDF(assessmentId: string): Promise<void> {
 
   toc.push({ label: 'Assessment Summary', page: doc.getNumberOfPages() + 1, level: 0 });
   renderSummaryPage(doc, data);
+  renderPrincipleMatrix(doc, data, toc);
 
   renderZoneDetails(doc, data, toc); // pushes one entry per zone
 
@@ -2316,11 +2701,15 @@ export async function generatePDF(assessmentId: string): Promise<void> {
   // Doing it here (rather than per-section) guarantees every page is covered
   // exactly once — multi-page sections and autoTable overflow no longer slip
   // through. The cover (page 1) is skipped by both helpers' guards.
+  // DRAFT goes on here too, cover included, until a supervisor has approved
+  // this exact revision.
+  const draft = !isApprovedFinal(data.assessment);
   const totalPages = doc.getNumberOfPages();
   for (let i = 1; i <= totalPages; i++) {
     doc.setPage(i);
     addPageFooter(doc, i);
     addConfidentialHeader(doc, i);
+    if (draft) addDraftWatermark(doc);
   }
 
   const filename = generateFilename(data.assessment);
@@ -2416,6 +2805,7 @@ export async function generateLightSurveyPDF(surveyId: string): Promise<void> {
   const data: PDFData = {
     assessment,
     zones: [],
+    buildingGroups: [],
     itemGuidance: new Map(),
     zoneScores: [],
     itemScores: [],
@@ -2423,6 +2813,7 @@ export async function generateLightSurveyPDF(surveyId: string): Promise<void> {
     badgeLogo,
     lightSurveys: [survey],
     lightReadings: readings,
+    followed: null,
   };
 
   const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
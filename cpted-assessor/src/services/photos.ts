@@ -1,6 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../db/database';
-import { touchAssessment, touchAssessmentForItem } from './touch';
+import { rowStamp, touchAssessment, touchAssessmentForItem } from './touch';
 import type { Photo } from '../types';
 
 /**
@@ -150,11 +150,13 @@ export async function savePhoto(
     compass_heading: null,
     annotation_data: null,
     synced: false,
+    ...rowStamp(),
   };
 
-  // db.assessments joins the scope so touchAssessment can run inside — Dexie
-  // rejects a nested transaction touching a table the outer scope omits.
-  await db.transaction('rw', db.photos, db.item_scores, db.assessments, async () => {
+  // db.assessments and db.change_journal join the scope so touchAssessment can
+  // run inside — Dexie rejects a nested transaction touching a table the outer
+  // scope omits.
+  await db.transaction('rw', [db.photos, db.item_scores, db.assessments, db.change_journal], async () => {
     await db.photos.add(photo);
 
     const itemScore = await db.item_scores.get(itemScoreId);
@@ -164,7 +166,9 @@ export async function savePhoto(
       });
     }
 
-    await touchAssessment(assessmentId);
+    await touchAssessment(assessmentId, undefined, [
+      { table: 'item_scores', row_id: itemScoreId },
+    ]);
   });
 
   return photoId;
@@ -177,7 +181,7 @@ export async function deletePhoto(
   photoId: string,
   itemScoreId: string,
 ): Promise<void> {
-  await db.transaction('rw', db.photos, db.item_scores, db.assessments, async () => {
+  await db.transaction('rw', [db.photos, db.item_scores, db.assessments, db.change_journal], async () => {
     await db.photos.delete(photoId);
 
     const itemScore = await db.item_scores.get(itemScoreId);
@@ -203,11 +207,13 @@ export async function movePhoto(
 ): Promise<void> {
   if (fromItemScoreId === toItemScoreId) return;
 
-  await db.transaction('rw', db.photos, db.item_scores, db.assessments, async () => {
+  await db.transaction('rw', [db.photos, db.item_scores, db.assessments, db.change_journal], async () => {
+    const photo = await db.photos.get(photoId);
     await db.photos.update(photoId, {
       item_score_id: toItemScoreId,
       zone_key: toZoneKey,
       synced: false,
+      ...rowStamp(photo),
     });
 
     const fromItem = await db.item_scores.get(fromItemScoreId);
@@ -224,6 +230,6 @@ export async function movePhoto(
       });
     }
 
-    await touchAssessmentForItem(toItemScoreId);
+    await touchAssessmentForItem(toItemScoreId, [fromItemScoreId]);
   });
 }
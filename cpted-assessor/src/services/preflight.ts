@@ -0,0 +1,159 @@
+/**
+ * Pre-flight: a read of the report about to be printed, for the things that
+ * embarrass us in front of a district — the same recommendation listed twice,
+ * a school photo with no location, "TBD" left in a note, a signature dated
+ * before the visit, a lot surveyed with too few readings, a crime report that
+ * only this iPad has.
+ *
+ * It reads the PDFData the generator itself gathers, so it checks what will
+ * print rather than what the screens show. Nothing here stops a report: the
+ * assessor sees the list, fixes what has a fix, and can print anyway.
+ */
+
+import { isSchoolType } from 'cpted-checklist';
+import { gatherAssessmentData } from './pdf';
+import type { PDFData } from './pdf';
+import { MIN_READINGS } from './light-grid';
+import { todayLocalISO } from './report-date';
+import type { Recommendation } from '../types';
+
+/**
+ * A fix the summary can apply in one tap. Recommendations are edited in the
+ * summary's own state and the sync runs from there, so the summary applies
+ * these rather than this module.
+ */
+export type PreflightFix =
+  | { kind: 'drop_duplicates'; label: string }
+  | { kind: 'sign_on'; label: string; date: string }
+  | { kind: 'sync'; label: string };
+
+export interface PreflightIssue {
+  message: string;
+  /** Where it is put right by hand: an item on the walk, a light survey. */
+  link?: string;
+  fix?: PreflightFix;
+}
+
+/**
+ * Left in a note as a stand-in and forgotten. Whole words only, so "test"
+ * catches "test" but not "tested the latch".
+ */
+const PLACEHOLDER_PATTERNS: RegExp[] = [
+  /\b(TODO|TBD|TBC|FIXME|XXX)\b/i,
+  /\blorem ipsum\b/i,
+  /\[(insert|add|fill)[^\]]*\]/i,
+  /\?{3,}/,
+  /^\s*(test|asdf|\.+|-+)\s*$/i,
+];
+
+export function hasPlaceholderText(text: string): boolean {
+  return PLACEHOLDER_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/** Case, spacing and punctuation don't make two recommendations different. */
+function normalize(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * `recommendations` and `quickWins` with every repeat of an earlier entry —
+ * in either list — taken out, renumbered. Blank entries are left alone; the
+ * editor shows those for filling in.
+ */
+export function dropDuplicateRecommendations(
+  recommendations: Recommendation[],
+  quickWins: Recommendation[],
+): { recommendations: Recommendation[]; quickWins: Recommendation[] } {
+  const seen = new Set<string>();
+  const keep = (list: Recommendation[]) =>
+    list
+      .filter((rec) => {
+        const key = normalize(rec.description);
+        if (key === '') return true;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((rec, i) => ({ ...rec, order: i + 1 }));
+  return { recommendations: keep(recommendations), quickWins: keep(quickWins) };
+}
+
+function itemLink(data: PDFData, zoneKey: string, itemId: string | null): string {
+  const params = new URLSearchParams({ zone: zoneKey });
+  if (itemId) params.set('item', itemId);
+  return `/assessment/${data.assessment.id}?${params}`;
+}
+
+export function lintReport(data: PDFData): PreflightIssue[] {
+  const { assessment } = data;
+  const issues: PreflightIssue[] = [];
+
+  const all = [...assessment.top_recommendations, ...assessment.quick_wins];
+  const unique = dropDuplicateRecommendations(assessment.top_recommendations, assessment.quick_wins);
+  const repeats = all.length - unique.recommendations.length - unique.quickWins.length;
+  if (repeats > 0) {
+    issues.push({
+      message: `${repeats} recommendation${repeats === 1 ? ' repeats' : 's repeat'} another one word for word.`,
+      fix: { kind: 'drop_duplicates', label: 'Remove repeats' },
+    });
+  }
+
+  if (isSchoolType(assessment.property_type)) {
+    const unplaced = data.photos.filter((photo) => photo.gps_lat === null || photo.gps_lng === null);
+    if (unplaced.length > 0) {
+      const first = unplaced[0];
+      issues.push({
+        message: `${unplaced.length} photo${unplaced.length === 1 ? ' has' : 's have'} no GPS location. Districts map school photos; retake ${unplaced.length === 1 ? 'it' : 'them'} outdoors if you can.`,
+        link: itemLink(data, first.zone_key, first.item_score_id),
+      });
+    }
+  }
+
+  const zoneNames = new Map(data.zones.map((zone) => [zone.key, zone.name]));
+  for (const item of data.itemScores) {
+    if (item.notes && hasPlaceholderText(item.notes)) {
+      issues.push({
+        message: `Placeholder text in a note: ${zoneNames.get(item.zone_key) ?? item.zone_key} — ${item.item_text}`,
+        link: itemLink(data, item.zone_key, item.id),
+      });
+    }
+  }
+
+  // Date-only ISO strings compare correctly as strings.
+  const signedOn = assessment.report_signed_on;
+  if (signedOn && assessment.date_of_assessment && signedOn < assessment.date_of_assessment) {
+    const today = todayLocalISO();
+    const date = today >= assessment.date_of_assessment ? today : assessment.date_of_assessment;
+    issues.push({
+      message: `The report is signed on ${signedOn}, before the assessment on ${assessment.date_of_assessment}.`,
+      fix: { kind: 'sign_on', label: `Sign as of ${date}`, date },
+    });
+  }
+
+  for (const survey of data.lightSurveys) {
+    const readings = data.lightReadings.filter((r) => r.survey_id === survey.id).length;
+    if (readings < MIN_READINGS) {
+      issues.push({
+        message: `${survey.area_name} has ${readings} light reading${readings === 1 ? '' : 's'}, under the ${MIN_READINGS} the standard asks for.`,
+        link: `/assessment/${assessment.id}/light/${survey.id}`,
+      });
+    }
+  }
+
+  if (data.crimeReport && !data.crimeReport.synced) {
+    issues.push({
+      message: "The crime report hasn't been synced; until it is, only this device has it.",
+      fix: { kind: 'sync', label: 'Sync now' },
+    });
+  }
+
+  return issues;
+}
+
+/** Gather the report's data, as generatePDF will, and lint it. */
+export async function preflightReport(assessmentId: string): Promise<PreflightIssue[]> {
+  return lintReport(await gatherAssessmentData(assessmentId));
+}
@@ -1,6 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { ItemScore, PropertyType, Recommendation, SchoolRating } from '../types';
-import { getZonesForType, getItemGuidanceForType, isSchoolType } from '../data/zone-registry';
+import type { Building, ItemScore, PropertyType, Recommendation, SchoolRating } from '../types';
+import { expandZones, getZonesForType, getItemGuidanceForType, isFollowUpChange, isSchoolType } from 'cpted-checklist';
+import { db } from '../db/database';
+import { isApprovedFinal } from './review';
+import { touchAssessment } from './touch';
 
 // Principles where fixes tend to be low-cost / quick to implement
 const QUICK_WIN_PRINCIPLES = new Set([
@@ -15,8 +18,21 @@ export interface ScoredItemContext {
   principleName: string;
 }
 
-export function getItemContext(items: ItemScore[], propertyType: PropertyType = 'single_family_residential'): ScoredItemContext[] {
-  const zones = getZonesForType(propertyType);
+/**
+ * `templateVersion` is the assessment's pinned template version
+ * (pinnedVersion()); zone and principle names come from that version.
+ * `buildings` and `mainBuildingName` are the assessment's, so a building's
+ * items are found and named with their building; zoneOrder is the zone's
+ * place among all of them.
+ */
+export function getItemContext(
+  items: ItemScore[],
+  propertyType: PropertyType = 'single_family_residential',
+  templateVersion?: number,
+  buildings?: Building[],
+  mainBuildingName?: string,
+): ScoredItemContext[] {
+  const zones = expandZones(getZonesForType(propertyType, templateVersion), buildings, mainBuildingName);
   const results: ScoredItemContext[] = [];
 
   for (const item of items) {
@@ -31,7 +47,7 @@ export function getItemContext(items: ItemScore[], propertyType: PropertyType =
     results.push({
       item,
       zoneName: zone.name,
-      zoneOrder: zone.order,
+      zoneOrder: zones.indexOf(zone) + 1,
       principleName: principle.name,
     });
   }
@@ -41,9 +57,14 @@ export function getItemContext(items: ItemScore[], propertyType: PropertyType =
 
 export function buildDescription(context: ScoredItemContext, propertyType: PropertyType = 'single_family_residential'): string {
   const heading = `${context.zoneName} — ${context.principleName}: ${context.item.item_text}`;
-  const guidance = getItemGuidanceForType(propertyType).get(context.item.item_text);
-  if (guidance) {
-    return `${heading}\n\nRecommended action: ${guidance.improvement}`;
+  // A custom item's guidance is the assessor's own; there is none to look up.
+  const improvement = context.item.is_custom
+    ? context.item.custom_guidance
+    : context.item.item_key
+      ? getItemGuidanceForType(propertyType).get(context.item.item_key)?.improvement
+      : undefined;
+  if (improvement) {
+    return `${heading}\n\nRecommended action: ${improvement}`;
   }
   return heading;
 }
@@ -69,8 +90,11 @@ export function generateRecommendations(
   assessmentId: string,
   count = 5,
   propertyType: PropertyType = 'single_family_residential',
+  templateVersion?: number,
+  buildings?: Building[],
+  mainBuildingName?: string,
 ): Recommendation[] {
-  const contextItems = getItemContext(allItems, propertyType);
+  const contextItems = getItemContext(allItems, propertyType, templateVersion, buildings, mainBuildingName);
 
   if (isSchoolType(propertyType)) {
     const noItems = contextItems
@@ -87,6 +111,7 @@ export function generateRecommendations(
       description: buildDescription(c, propertyType),
       priority: 'medium' as const,
       type: 'recommendation' as const,
+      item_id: c.item.id,
     }));
   }
 
@@ -108,15 +133,16 @@ export function generateRecommendations(
     description: buildDescription(c, propertyType),
     priority: getPriority(c.item.score as number),
     type: 'recommendation' as const,
+    item_id: c.item.id,
   }));
 }
 
 // --- Auto-Fence Recommendation (residential only) ---
 
 const FENCE_TRIGGER_ITEMS = new Set([
-  'Rear yard at least partially visible from one or more neighboring properties',
-  'Rear fence/gate is secured with quality lock (not just a flip latch)',
-  'Rear property boundaries clearly defined',
+  'rear_yard_least_partially',
+  'rear_fence_gate_secured',
+  'rear_property_boundaries_clearly',
 ]);
 
 const FENCE_RECOMMENDATION_TEXT =
@@ -142,7 +168,10 @@ export function generateFenceRecommendation(
   if (existingRecs.some((r) => /fence/i.test(r.description))) return null;
 
   const rearYardItems = allItems.filter(
-    (item) => item.zone_key === 'rear_yard' && FENCE_TRIGGER_ITEMS.has(item.item_text),
+    (item) =>
+      item.zone_key === 'rear_yard' &&
+      item.item_key !== null &&
+      FENCE_TRIGGER_ITEMS.has(item.item_key),
   );
 
   // Check if any trigger item is scored N/A, 1, or 2
@@ -178,11 +207,14 @@ export function generateQuickWins(
   assessmentId: string,
   count = 5,
   propertyType: PropertyType = 'single_family_residential',
+  templateVersion?: number,
+  buildings?: Building[],
+  mainBuildingName?: string,
 ): Recommendation[] {
   // Schools don't use Quick Wins (no severity gradient to mine from Yes/No/UTO).
   if (isSchoolType(propertyType)) return [];
 
-  const contextItems = getItemContext(allItems, propertyType);
+  const contextItems = getItemContext(allItems, propertyType, templateVersion, buildings, mainBuildingName);
 
   // Items scored 2-3 from quick-win principles (maintenance, lighting, behavioral)
   const easyFixes = contextItems.filter(
@@ -226,5 +258,31 @@ export function generateQuickWins(
     description: buildDescription(c, propertyType),
     priority: (c.item.score as number) <= 2 ? 'medium' as const : 'low' as const,
     type: 'quick_win' as const,
+    item_id: c.item.id,
   }));
 }
+
+/**
+ * Save the recommendation lists: an edit like any other, which moves the
+ * revision. But a change to nothing except what became of them — status,
+ * target date, responsible party — is follow-up rather than the report the
+ * supervisor approved, so a final report stays final: approved_revision moves
+ * with the revision, in the same transaction. The server does the same when
+ * the push arrives (routes/sync.ts), and would otherwise revoke the approval.
+ */
+export async function saveRecommendations(
+  assessmentId: string,
+  recommendations: Recommendation[],
+  quickWins: Recommendation[],
+): Promise<void> {
+  await db.transaction('rw', db.assessments, db.change_journal, async () => {
+    const before = await db.assessments.get(assessmentId);
+    if (!before) return;
+    const followUp =
+      isApprovedFinal(before) &&
+      isFollowUpChange(before.top_recommendations ?? [], recommendations) &&
+      isFollowUpChange(before.quick_wins ?? [], quickWins);
+    await touchAssessment(assessmentId, { top_recommendations: recommendations, quick_wins: quickWins });
+    if (followUp) await db.assessments.update(assessmentId, { approved_revision: (before.revision ?? 1) + 1 });
+  });
+}
@@ -0,0 +1,157 @@
+/**
+ * Supervisor review, from the iPad: submit, return, approve, and comment.
+ *
+ * Review state lives on the server. Every call here goes straight to it and
+ * then copies what the server says back into IndexedDB — it never decides a
+ * review status locally, and it never moves the revision. Review is about the
+ * content rather than part of it: bumping the revision on Approve would make
+ * the approval describe a revision that no longer exists the moment it landed.
+ *
+ * So none of this works offline, by design. An assessor can keep editing with
+ * no signal; a supervisor cannot approve a copy the server has not seen.
+ */
+
+import { db } from '../db/database';
+import { authFetch } from './auth';
+import type { Assessment, AssessmentStatus, ReviewComment } from '../types';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+
+/** What the server reports about an assessment's review, without content. */
+interface ReviewState {
+  status: AssessmentStatus;
+  revision: number;
+  submitted_at: string | null;
+  submitted_by: string | null;
+  approved_at: string | null;
+  approved_by: string | null;
+  approved_revision: number | null;
+}
+
+export const REVIEW_STATUS_LABELS: Partial<Record<AssessmentStatus, string>> = {
+  submitted: 'Submitted',
+  returned: 'Returned',
+  approved: 'Approved',
+};
+
+export function isReviewStatus(status: AssessmentStatus): boolean {
+  return status === 'submitted' || status === 'returned' || status === 'approved';
+}
+
+/**
+ * Whether the report is final: approved, at exactly the revision this device
+ * holds. Anything else prints DRAFT — including an approved assessment edited
+ * here since, which the server will un-approve on the next sync anyway.
+ * Following up on its recommendations is not that kind of edit (see
+ * saveRecommendations()).
+ */
+export function isApprovedFinal(
+  a: Pick<Assessment, 'status' | 'revision' | 'approved_revision'>,
+): boolean {
+  return a.status === 'approved' && a.approved_revision != null && a.approved_revision === (a.revision ?? 1);
+}
+
+async function readError(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  return new Error(body?.error || `${fallback}: ${res.status}`);
+}
+
+/**
+ * Copy the server's review state onto the local record. A direct update, not
+ * touchAssessment: nothing about the content changed.
+ */
+async function applyReview(assessmentId: string, review: ReviewState): Promise<void> {
+  await db.assessments.update(assessmentId, {
+    status: review.status,
+    submitted_at: review.submitted_at,
+    submitted_by: review.submitted_by,
+    approved_at: review.approved_at,
+    approved_by: review.approved_by,
+    approved_revision: review.approved_revision,
+  });
+}
+
+/**
+ * The revision to submit or approve, which must be one the server already
+ * holds. Checked here so the assessor hears "sync first" at once; the server
+ * checks it again against its own copy.
+ */
+async function syncedRevision(assessmentId: string): Promise<number> {
+  const assessment = await db.assessments.get(assessmentId);
+  if (!assessment) throw new Error('Assessment not found');
+  const revision = assessment.revision ?? 1;
+  if (assessment.synced_revision !== revision) {
+    throw new Error('This iPad has changes the server has not seen. Sync first.');
+  }
+  return revision;
+}
+
+async function post(
+  assessmentId: string,
+  action: 'submit' | 'return' | 'approve' | 'reopen',
+  body: Record<string, unknown>,
+): Promise<void> {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw await readError(res, `Could not ${action}`);
+  const data = (await res.json()) as { review: ReviewState };
+  await applyReview(assessmentId, data.review);
+}
+
+export async function submitForReview(assessmentId: string): Promise<void> {
+  await post(assessmentId, 'submit', { revision: await syncedRevision(assessmentId) });
+}
+
+export async function approveAssessment(assessmentId: string): Promise<void> {
+  await post(assessmentId, 'approve', { revision: await syncedRevision(assessmentId) });
+}
+
+/** Back to the assessor. The comment is required and becomes a review comment. */
+export async function returnForChanges(assessmentId: string, comment: string): Promise<void> {
+  await post(assessmentId, 'return', { comment });
+  await refreshReview(assessmentId);
+}
+
+/** Take an approval back without editing anything. */
+export async function reopenApproval(assessmentId: string): Promise<void> {
+  await post(assessmentId, 'reopen', {});
+}
+
+/** Re-read status and comments from the server. */
+export async function refreshReview(assessmentId: string): Promise<void> {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/review`);
+  if (!res.ok) throw await readError(res, 'Could not load review');
+  const data = (await res.json()) as { review: ReviewState; comments: ReviewComment[] };
+  await applyReview(assessmentId, data.review);
+  await db.assessments.update(assessmentId, { review_comments: data.comments });
+}
+
+export async function addReviewComment(
+  assessmentId: string,
+  comment: { body: string; zone_key?: string | null; item_score_id?: string | null },
+): Promise<void> {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(comment),
+  });
+  if (!res.ok) throw await readError(res, 'Could not add comment');
+  await refreshReview(assessmentId);
+}
+
+export async function setCommentResolved(
+  assessmentId: string,
+  commentId: string,
+  resolved: boolean,
+): Promise<void> {
+  const res = await authFetch(`${API_BASE}/api/review-comments/${commentId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ resolved }),
+  });
+  if (!res.ok) throw await readError(res, 'Could not update comment');
+  await refreshReview(assessmentId);
+}
@@ -0,0 +1,47 @@
+/**
+ * The district roll-up of school compliance — every school's percent of
+ * observable items met, and the district's overall, by zone and by principle.
+ * Server only: the schools it compares were walked on other iPads.
+ */
+
+import { authFetch } from './auth';
+import type { ComplianceSummary } from 'cpted-checklist';
+import type { PropertyType } from '../types';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+
+/** One school, from its latest assessment. */
+export interface SchoolCompliance {
+  assessment_id: string;
+  school_name: string;
+  address: string;
+  city: string;
+  property_type: PropertyType;
+  date_of_assessment: string;
+  status: string;
+  compliance: ComplianceSummary;
+}
+
+/** A zone or principle, pooled across every school that has it. */
+export interface GroupCompliance {
+  key: string;
+  name: string;
+  compliance: ComplianceSummary;
+}
+
+export interface DistrictCompliance {
+  /** Least compliant first. */
+  schools: SchoolCompliance[];
+  overall: ComplianceSummary;
+  zones: GroupCompliance[];
+  principles: GroupCompliance[];
+}
+
+export async function fetchDistrictCompliance(): Promise<DistrictCompliance> {
+  const res = await authFetch(`${API_BASE}/api/schools/compliance`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Loading compliance failed: ${res.status}`);
+  }
+  return (await res.json()) as DistrictCompliance;
+}
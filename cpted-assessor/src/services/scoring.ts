@@ -1,83 +1,17 @@
+import {
+  calculateCompliance,
+  calculateWeightedScore,
+  calculateZoneAverage,
+  groupItemsByZone,
+  isZoneComplete,
+} from 'cpted-checklist';
 import type { ItemScore, SchoolRating } from '../types';
 import { db } from '../db/database';
+import { pinnedVersion } from './template-upgrade';
 
-// --- Pure calculation functions (no DB, testable) ---
-
-/** Filter to items that have been rated (numeric score OR school rating; not N/A) */
-export function getScoredItems(items: ItemScore[]): ItemScore[] {
-  return items.filter((s) => s.score !== null && !s.is_na);
-}
-
-/**
- * Average of numerically-scored items, null if none.
- * School ratings ('yes'/'no'/'uto') are non-numeric and excluded — so school
- * assessments naturally yield a null average (no aggregate score), and the
- * numeric reduce below never sees a string.
- */
-export function calculateAverage(items: ItemScore[]): number | null {
-  const scored = items.filter(
-    (s) => typeof s.score === 'number' && !s.is_na,
-  );
-  if (scored.length === 0) return null;
-  return scored.reduce((sum, s) => sum + (s.score as number), 0) / scored.length;
-}
-
-/** Average of scored items within a specific principle */
-export function calculatePrincipleAverage(
-  items: ItemScore[],
-  principleKey: string,
-): number | null {
-  return calculateAverage(items.filter((s) => s.principle === principleKey));
-}
-
-/** Average of all scored items in a zone (alias for calculateAverage) */
-export function calculateZoneAverage(zoneItems: ItemScore[]): number | null {
-  return calculateAverage(zoneItems);
-}
-
-/**
- * Overall score = average of zone averages (equal weight per zone).
- * Zones with no scored items (all N/A or untouched) are excluded.
- */
-export function calculateOverallScore(
-  itemsByZone: Map<string, ItemScore[]>,
-): number | null {
-  const zoneAverages: number[] = [];
-  for (const items of itemsByZone.values()) {
-    const avg = calculateZoneAverage(items);
-    if (avg !== null) {
-      zoneAverages.push(avg);
-    }
-  }
-  if (zoneAverages.length === 0) return null;
-  return zoneAverages.reduce((sum, a) => sum + a, 0) / zoneAverages.length;
-}
-
-/** True when every item in the zone has been scored or marked N/A */
-export function isZoneComplete(items: ItemScore[]): boolean {
-  if (items.length === 0) return false;
-  return items.every((s) => s.score !== null || s.is_na);
-}
-
-/** Completion counts for a set of items */
-export function getCompletionCounts(items: ItemScore[]): {
-  total: number;
-  scored: number;
-  na: number;
-  addressed: number;
-  remaining: number;
-} {
-  const scored = items.filter((s) => s.score !== null && !s.is_na).length;
-  const na = items.filter((s) => s.is_na).length;
-  const addressed = scored + na;
-  return {
-    total: items.length,
-    scored,
-    na,
-    addressed,
-    remaining: items.length - addressed,
-  };
-}
+// The calculations themselves live in cpted-checklist, shared with the server.
+// What stays here is what only the device does: Tailwind styling and writing
+// the results to Dexie.
 
 /** Tailwind text color class for a score value */
 export function getScoreColor(score: number): string {
@@ -88,6 +22,18 @@ export function getScoreColor(score: number): string {
   return 'text-score-excellent';
 }
 
+/**
+ * Tailwind text color class for a school's compliance percent, on the same
+ * five-step scale as scores so a school reads like any other site at a glance.
+ */
+export function getComplianceColor(percent: number): string {
+  if (percent < 50) return 'text-score-critical';
+  if (percent < 70) return 'text-score-deficient';
+  if (percent < 85) return 'text-score-adequate';
+  if (percent < 95) return 'text-score-good';
+  return 'text-score-excellent';
+}
+
 /** Tailwind background color class for a score value (badge pill) */
 export function getScoreBgColor(score: number): string {
   if (score < 2) return 'bg-red-100 dark:bg-red-950';
@@ -97,29 +43,13 @@ export function getScoreBgColor(score: number): string {
   return 'bg-emerald-100 dark:bg-emerald-950';
 }
 
-/** Human-readable label for a score value */
-export function getScoreLabel(score: number): string {
-  if (score < 1.5) return 'Critical';
-  if (score < 2.5) return 'Deficient';
-  if (score < 3.5) return 'Adequate';
-  if (score < 4.5) return 'Good';
-  return 'Excellent';
-}
-
-// --- School Yes/No/UTO rating helpers ---
-
-/** Type guard: true when a score value is a school rating string */
-export function isSchoolRating(
-  score: number | SchoolRating | null,
-): score is SchoolRating {
-  return score === 'yes' || score === 'no' || score === 'uto';
-}
-
-/** Human-readable label for a school rating */
-export function getRatingLabel(rating: SchoolRating): string {
-  if (rating === 'yes') return 'Yes';
-  if (rating === 'no') return 'No';
-  return 'Unable to Observe';
+/** Tailwind background color class for a compliance percent, paired with getComplianceColor */
+export function getComplianceBgColor(percent: number): string {
+  if (percent < 50) return 'bg-red-100 dark:bg-red-950';
+  if (percent < 70) return 'bg-orange-100 dark:bg-orange-950';
+  if (percent < 85) return 'bg-yellow-100 dark:bg-yellow-950';
+  if (percent < 95) return 'bg-green-100 dark:bg-green-950';
+  return 'bg-emerald-100 dark:bg-emerald-950';
 }
 
 /** Tailwind text color class for a school rating */
@@ -145,6 +75,7 @@ export async function persistZoneScore(
   zoneItems: ItemScore[],
 ): Promise<void> {
   const avg = calculateZoneAverage(zoneItems);
+  const compliance = calculateCompliance(zoneItems).percent;
   const complete = isZoneComplete(zoneItems);
 
   const record = await db.zone_scores
@@ -154,31 +85,36 @@ export async function persistZoneScore(
   if (record) {
     await db.zone_scores.update(record.id, {
       average_score: avg,
+      compliance_pct: compliance,
       completed: complete,
     });
   }
 }
 
-/** Recalculate and persist the overall assessment score */
+/**
+ * Recalculate and persist the overall assessment score: weighted by zone and
+ * principle as the assessment's template version weights them, and capped by
+ * any failed critical item (score-weights.ts in cpted-checklist), so it reads
+ * from the items rather than the zone averages.
+ */
 export async function persistOverallScore(
   assessmentId: string,
 ): Promise<void> {
-  const zoneScores = await db.zone_scores
+  const assessment = await db.assessments.get(assessmentId);
+  if (!assessment) return;
+  const items = await db.item_scores
     .where('assessment_id')
     .equals(assessmentId)
     .toArray();
 
-  const averages: number[] = [];
-  for (const zs of zoneScores) {
-    if (zs.average_score !== null) {
-      averages.push(zs.average_score);
-    }
-  }
-
-  const overall =
-    averages.length > 0
-      ? averages.reduce((sum, a) => sum + a, 0) / averages.length
-      : null;
+  const overall = calculateWeightedScore(
+    assessment.property_type,
+    groupItemsByZone(items),
+    pinnedVersion(assessment),
+  ).score;
+  // Over every item, not an average of the zones': a zone with two observable
+  // items should not count as much as one with forty.
+  const compliance = calculateCompliance(items).percent;
 
   // Deliberately does NOT bump the revision, and must not be "fixed" to.
   //
@@ -188,7 +124,7 @@ export async function persistOverallScore(
   // here would mean that merely OPENING an assessment made this iPad look
   // edited, and the next comparison against a colleague's copy would cry
   // conflict when nobody touched anything.
-  await db.assessments.update(assessmentId, { overall_score: overall });
+  await db.assessments.update(assessmentId, { overall_score: overall, compliance_pct: compliance });
 }
 
 /** Full recalculation of all zone scores + overall score */
@@ -198,17 +134,9 @@ export async function persistAllScores(assessmentId: string): Promise<void> {
     .equals(assessmentId)
     .toArray();
 
-  const byZone = new Map<string, ItemScore[]>();
-  for (const item of allItems) {
-    const list = byZone.get(item.zone_key);
-    if (list) {
-      list.push(item);
-    } else {
-      byZone.set(item.zone_key, [item]);
-    }
-  }
+  const byZone = groupItemsByZone(allItems);
 
-  await db.transaction('rw', [db.zone_scores, db.assessments], async () => {
+  await db.transaction('rw', [db.zone_scores, db.assessments, db.item_scores], async () => {
     for (const [zoneKey, items] of byZone) {
       await persistZoneScore(assessmentId, zoneKey, items);
     }
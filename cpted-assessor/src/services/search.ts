@@ -0,0 +1,71 @@
+/**
+ * Full-text search across every assessment on the server — findings, notes
+ * and recommendations — for supervisors asking "where did we flag a broken
+ * gate latch?". Server only: the text it searches is mostly on other iPads.
+ */
+
+import { authFetch } from './auth';
+import type { AssessmentStatus, PropertyType } from '../types';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+
+export type SearchHitKind = 'item' | 'zone' | 'assessment_notes' | 'recommendation' | 'quick_win';
+
+/** One match, with the assessment, zone and item it was written against. */
+export interface SearchHit {
+  kind: SearchHitKind;
+  assessment_id: string;
+  address: string;
+  city: string;
+  state: string;
+  property_type: PropertyType;
+  date_of_assessment: string;
+  status: AssessmentStatus;
+  zone_key: string | null;
+  zone_name: string | null;
+  item_score_id: string | null;
+  item_text: string | null;
+  principle: string | null;
+  /** The matching passage, with each match wrapped in <mark></mark>. */
+  snippet: string;
+  rank: number;
+}
+
+export const HIT_KIND_LABELS: Record<SearchHitKind, string> = {
+  item: 'Item note',
+  zone: 'Zone findings',
+  assessment_notes: 'Assessment notes',
+  recommendation: 'Recommendation',
+  quick_win: 'Quick win',
+};
+
+export async function searchServer(
+  q: string,
+  filters: { property_type?: PropertyType } = {},
+): Promise<SearchHit[]> {
+  const params = new URLSearchParams({ q });
+  if (filters.property_type) params.set('property_type', filters.property_type);
+  const res = await authFetch(`${API_BASE}/api/search?${params}`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Search failed: ${res.status}`);
+  }
+  const data = (await res.json()) as { hits: SearchHit[] };
+  return data.hits;
+}
+
+/**
+ * A snippet split into plain and highlighted runs. The server marks matches
+ * with <mark> tags; splitting on them here lets the page render every run as
+ * text, so nothing an assessor typed into a note is ever parsed as HTML.
+ */
+export function snippetParts(snippet: string): { text: string; match: boolean }[] {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter((part) => part !== '')
+    .map((part) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>')
+        ? { text: part.slice(6, -7), match: true }
+        : { text: part, match: false },
+    );
+}
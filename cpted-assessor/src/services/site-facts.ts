@@ -0,0 +1,43 @@
+/**
+ * The site-fact intake: the yes/no answers about a property that mark the
+ * checklist items they rule out N/A (site-facts.ts in cpted-checklist has the
+ * questions and the rules).
+ *
+ * Item rows are written when an assessment is first opened, so answers given
+ * on the New Assessment form reach the items through initialItemState() then.
+ * Answers changed later, in Edit Info, go through saveSiteFacts(), which
+ * writes the answers and the N/As they change in one revision.
+ */
+
+import { planSiteFactUpdates, siteFactReason } from 'cpted-checklist';
+import { db } from '../db/database';
+import { persistAllScores } from './scoring';
+import { touchAssessment } from './touch';
+import type { JournalChange } from './touch';
+import type { Assessment, ItemScore, SiteFacts } from '../types';
+
+/** The N/A state a new item row starts with, given the assessment's answers. */
+export function initialItemState(
+  assessment: Pick<Assessment, 'property_type' | 'site_facts'>,
+  item: Pick<ItemScore, 'zone_key' | 'item_key' | 'is_custom'>,
+): Pick<ItemScore, 'is_na' | 'na_reason'> {
+  const reason = siteFactReason(assessment.property_type, assessment.site_facts, item);
+  return { is_na: reason !== null, na_reason: reason ?? '' };
+}
+
+/** Record new answers and re-mark the items they rule in or out. */
+export async function saveSiteFacts(assessmentId: string, facts: SiteFacts): Promise<void> {
+  await db.transaction('rw', [db.assessments, db.item_scores, db.change_journal], async () => {
+    const assessment = await db.assessments.get(assessmentId);
+    if (!assessment) throw new Error('Assessment not found');
+    const items = await db.item_scores.where('assessment_id').equals(assessmentId).toArray();
+    const updates = planSiteFactUpdates(assessment.property_type, facts, items);
+    const changed: JournalChange[] = [];
+    for (const { id, ...patch } of updates) {
+      await db.item_scores.update(id, patch);
+      changed.push({ table: 'item_scores', row_id: id, fields: ['is_na', 'na_reason'] });
+    }
+    await touchAssessment(assessmentId, { site_facts: facts }, changed);
+  });
+  await persistAllScores(assessmentId);
+}
@@ -1,15 +1,27 @@
 import { db } from '../db/database';
 import type {
   Assessment,
+  AssessmentStatus,
+  AssessmentType,
+  PropertyType,
   ZoneScore,
   ItemScore,
   Photo,
   CrimeReport,
   LightSurvey,
   LightReading,
+  SyncBase,
+  JournalTable,
+  RowRevision,
 } from '../types';
 import { compareRevisions } from './revision';
+import { authFetch, AuthRequiredError } from './auth';
+import { isReviewStatus } from './review';
+import { diffAssessment, mergeAssessment, resolveAssessment } from './merge';
+import { persistAllScores } from './scoring';
+import { getDeviceName } from './device';
 import type { RemoteRevision, SyncState } from './revision';
+import type { Choices, Difference, MergeContent } from './merge';
 
 const API_BASE = import.meta.env.VITE_API_URL || '';
 
@@ -18,6 +30,12 @@ const API_BASE = import.meta.env.VITE_API_URL || '';
 export interface SyncOptions {
   /** Push anyway, after the user has been shown what they are overwriting. */
   force?: boolean;
+  /**
+   * The server revision this push is built on, sent as If-Match. Defaults to
+   * synced_revision; a forced push passes the server revision the user was
+   * shown, so it overwrites that copy and nothing newer that arrived since.
+   */
+  baseRevision?: number | null;
 }
 
 /**
@@ -40,16 +58,71 @@ export class DivergedError extends Error {
   }
 }
 
+/**
+ * Both copies changed since the last sync, and at least one field was changed
+ * on both to different values, so the three-way merge could not finish on its
+ * own. Nothing local has been written. Everything else the two copies changed
+ * would have combined; `conflicts` is only what it could not.
+ */
+export class MergeConflictError extends DivergedError {
+  conflicts: Difference[];
+
+  constructor(server: RemoteRevision, conflicts: Difference[]) {
+    super('diverged', server);
+    this.name = 'MergeConflictError';
+    this.message = `Both copies changed ${conflicts.length} of the same field${
+      conflicts.length === 1 ? '' : 's'
+    }`;
+    this.conflicts = conflicts;
+  }
+}
+
+/** Photo metadata as GET /api/assessments/:id lists it. */
+export interface ServerPhotoMeta extends RowRevision {
+  id: string;
+  assessment_id: string;
+  item_score_id?: string | null;
+  zone_key: string;
+  captured_at?: string | null;
+  filename?: string | null;
+  mime_type?: string | null;
+  gps_lat?: number | null;
+  gps_lng?: number | null;
+  gps_accuracy_m?: number | null;
+  compass_heading?: number | null;
+  annotation_data?: Record<string, unknown> | null;
+}
+
+/**
+ * GET /api/assessments/:id — the assessment row with everything hung off it.
+ * Only the parts sync reads are spelled out; the row's own columns are the
+ * Assessment fields and are normalised by toLocalContent().
+ */
+interface ServerAssessmentDetail extends RemoteRevision {
+  photos?: ServerPhotoMeta[];
+  zone_scores?: ZoneScore[];
+  item_scores?: ItemScore[];
+  light_surveys?: LightSurvey[];
+  light_readings?: LightReading[];
+}
+
 export interface ServerAssessmentSummary {
   id: string;
   address: string;
   city: string;
   state: string;
   zip: string;
+  property_type?: PropertyType;
+  assessment_type?: AssessmentType;
   assessor_name: string;
   homeowner_name: string;
   date_of_assessment: string;
   overall_score: number | null;
+  /** Schools only: percent of observable items met. */
+  compliance_pct?: number | null;
+  /** Recommendations and quick wins open or in progress, and implemented or declined. */
+  recommendations_open?: number;
+  recommendations_closed?: number;
   status: string;
   created_at: string;
   updated_at: string;
@@ -61,6 +134,25 @@ export interface ServerAssessmentSummary {
   last_edited_at?: string | null;
 }
 
+/** One entry in the server's history of an assessment (GET .../revisions). */
+export interface ServerRevision {
+  /** The history row's own id — what a restore is addressed to. */
+  id: string;
+  /** The assessment revision this state was. Not unique: a restore repeats one. */
+  revision: number;
+  last_edited_by: string | null;
+  last_edited_at: string | null;
+  /** Which writer produced it: a device's sync, an admin edit, a restore, the
+   *  copy kept of content that predates the history, or the server moving it
+   *  onto a new checklist version. */
+  source: 'sync' | 'edit' | 'restore' | 'baseline' | 'migration';
+  /** The signed-in account that sent it. */
+  pushed_by: string | null;
+  overall_score: number | null;
+  scored_items: number;
+  created_at: string;
+}
+
 export interface PullProgress {
   phase: 'metadata' | 'photos' | 'done';
   current: number;
@@ -88,7 +180,8 @@ export interface SyncProgress {
 
 /**
  * Sync an assessment to the server.
- * 1. POST assessment metadata + scores to /api/sync
+ * 1. POST assessment metadata + scores to /api/sync, or only the changed rows
+ *    to /api/sync/delta
  * 2. Upload unsynced photos to /api/assessments/:id/photos
  * 3. Mark synced_at in IndexedDB
  */
@@ -121,29 +214,81 @@ export async function syncAssessment(
   // further down to collect the photo ids; it is hoisted so the same response
   // also answers "has someone else changed this since I last synced" — so the
   // round-trip count is unchanged.
-  let serverAssessment: (RemoteRevision & { photos?: { id: string }[] }) | null = null;
+  let serverAssessment: ServerAssessmentDetail | null = null;
   try {
-    const existingRes = await fetch(`${API_BASE}/api/assessments/${assessmentId}`);
+    const existingRes = await authFetch(`${API_BASE}/api/assessments/${assessmentId}`);
     if (existingRes.ok) serverAssessment = await existingRes.json();
-  } catch {
+  } catch (err) {
+    // Signed out is not "unreachable": the POST would only be refused too, and
+    // the caller needs to know to ask for a sign-in rather than report a fault.
+    if (err instanceof AuthRequiredError) throw err;
     // Offline or unreachable; the POST below will fail with its own message.
   }
 
   // Refuse to clobber silently. A push is a wholesale overwrite of the server
   // row, so if the server has moved on since this device last synced, the
   // caller has to say so explicitly.
+  //
+  // Unless both sides changed and the changes do not overlap, which is the
+  // usual case when two iPads split one walk: then the copies are merged here,
+  // the merge becomes a new local revision, and the push goes ahead with it.
+  let state: SyncState | null = null;
   if (!options.force && serverAssessment) {
-    const state = compareRevisions(assessment, serverAssessment);
+    state = compareRevisions(assessment, serverAssessment);
+    if (state === 'diverged') {
+      const base = await db.sync_bases.get(assessmentId);
+      // A base from some other revision (or none: never synced since this
+      // feature shipped) cannot say who changed what. The per-row edit stamps
+      // still can for rows both copies hold, which covers two iPads that each
+      // walked their own zones; anything they cannot settle falls back to
+      // asking, as before.
+      const ancestor = base && base.revision === assessment.synced_revision ? base : null;
+      const { merged, conflicts } = mergeAssessment(
+        ancestor,
+        {
+          assessment,
+          zone_scores: zoneScores,
+          item_scores: itemScores,
+          light_surveys: lightSurveys,
+          light_readings: lightReadings,
+        },
+        toLocalContent(serverAssessment),
+      );
+      if (conflicts.length > 0 && ancestor) {
+        throw new MergeConflictError(serverAssessment, conflicts);
+      }
+      if (conflicts.length === 0) {
+        await applyMerge(assessmentId, merged, serverAssessment.revision ?? 1);
+        await downloadMissingPhotos(assessmentId, serverAssessment.photos ?? [], merged);
+        // Forced, because the comparison above is already answered: the
+        // merged copy contains the server's work — this revision of it, which
+        // If-Match then holds the push to.
+        return syncAssessment(assessmentId, onProgress, {
+          ...options,
+          force: true,
+          baseRevision: serverAssessment.revision ?? null,
+        });
+      }
+    }
     if (state === 'diverged' || state === 'server-ahead') {
       throw new DivergedError(state, serverAssessment);
     }
   }
 
   // 1. Sync metadata + scores
+  const content: MergeContent = {
+    assessment,
+    zone_scores: zoneScores,
+    item_scores: itemScores,
+    light_surveys: lightSurveys,
+    light_readings: lightReadings,
+  };
   const payload = {
     assessment: {
       ...assessment,
-      // Strip blob data from photos in the payload
+      // The server's own comments, mirrored here for display; it never reads
+      // them from a push, so they are not sent back.
+      review_comments: undefined,
     },
     zone_scores: zoneScores,
     item_scores: itemScores,
@@ -157,11 +302,35 @@ export async function syncAssessment(
     light_readings: lightReadings,
   };
 
-  const syncRes = await fetch(`${API_BASE}/api/sync`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  });
+  // The check above is a GET and this is a separate POST, so another iPad can
+  // push in between and both would pass it. If-Match names the server revision
+  // this push is built on, and the server refuses with 409 — atomically, under
+  // a row lock — when that is no longer what it holds. Omitted when there is
+  // no base (never synced), which the server treats as unconditional.
+  const baseRevision =
+    options.baseRevision !== undefined ? options.baseRevision : assessment.synced_revision;
+
+  // Only what changed, when the server holds exactly the copy this device last
+  // synced and the change journal accounts for every edit since. Anything
+  // else — a merge, a forced overwrite, edits from before the journal — goes
+  // in full, as does a delta the server has nothing to apply to.
+  const delta =
+    state === 'local-ahead'
+      ? await buildDelta(content, payload.photos, assessment.synced_revision, pushedRevision)
+      : null;
+  let syncRes = await postSync(delta ? 'sync/delta' : 'sync', delta ?? payload, baseRevision);
+  if (delta && syncRes.status === 404) {
+    syncRes = await postSync('sync', payload, baseRevision);
+  }
+
+  if (syncRes.status === 409) {
+    // Lost the race: someone pushed since the check. Same error as the check
+    // would have thrown, so the caller's warning and merge paths apply as is.
+    const body = await syncRes.json().catch(() => null);
+    const current: RemoteRevision = body?.current ?? {};
+    const state = compareRevisions(assessment, current);
+    throw new DivergedError(state === 'server-ahead' ? state : 'diverged', current);
+  }
 
   if (!syncRes.ok) {
     const errBody = await syncRes.text();
@@ -174,9 +343,7 @@ export async function syncAssessment(
   // list (not the local synced flag) so previously failed uploads still retry.
   // From the response fetched above, before the push. If that fetch failed the
   // set stays empty and everything is re-uploaded, which is the old fallback.
-  const serverPhotoIds = new Set(
-    ((serverAssessment?.photos ?? []) as { id: string }[]).map((p) => p.id),
-  );
+  const serverPhotoIds = new Set((serverAssessment?.photos ?? []).map((p) => p.id));
 
   let photosUploaded = 0;
   const uploadablePhotos = photos.filter(
@@ -236,15 +403,41 @@ export async function syncAssessment(
   // status is re-read rather than taken from the record captured before the
   // upload: the assessor can hit Mark Complete while photos are still going up,
   // and the old code would write the pre-upload status back over it.
+  //
+  // Except where review is concerned, which the server decides: a review
+  // status it reports is adopted as is, and when this device held one the
+  // server no longer does (an edit revoked an approval), the server's answer
+  // replaces it and the local approval is cleared to match.
+  //
+  // The pushed content becomes the merge ancestor in the same write, since it
+  // is by definition what the server now holds at synced_revision.
   const syncedAt = syncData.synced_at;
-  await db.transaction('rw', db.assessments, async () => {
+  const serverStatus = syncData.status as AssessmentStatus | null | undefined;
+  const syncedRevision =
+    typeof syncData.revision === 'number' ? syncData.revision : pushedRevision;
+  await db.transaction('rw', [db.assessments, db.sync_bases, db.change_journal], async () => {
     const current = await db.assessments.get(assessmentId);
     if (!current) return;
+    let status = current.status;
+    if (serverStatus && (isReviewStatus(serverStatus) || isReviewStatus(current.status))) {
+      status = serverStatus;
+    }
     await db.assessments.update(assessmentId, {
       synced_at: syncedAt,
-      synced_revision: typeof syncData.revision === 'number' ? syncData.revision : pushedRevision,
-      status: current.status === 'completed' ? 'synced' : current.status,
+      synced_revision: syncedRevision,
+      status: status === 'completed' ? 'synced' : status,
+      ...(status === 'approved'
+        ? {}
+        : { approved_at: null, approved_by: null, approved_revision: null }),
     });
+    await recordSyncBase(syncedRevision, content);
+    // The server has every change up to the pushed revision; the journal only
+    // needs the edits made since.
+    await db.change_journal
+      .where('assessment_id')
+      .equals(assessmentId)
+      .and((entry) => entry.revision <= pushedRevision)
+      .delete();
   });
 
   return {
@@ -254,6 +447,252 @@ export async function syncAssessment(
   };
 }
 
+/**
+ * POST a push to /api/<path>. If-Match names the server revision it is built
+ * on; omitted when there is none, which the full sync treats as unconditional.
+ */
+function postSync(path: string, body: unknown, baseRevision: number | null | undefined) {
+  return authFetch(`${API_BASE}/api/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(baseRevision != null ? { 'If-Match': `"${baseRevision}"` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/** What POST /api/sync/delta takes — see server/src/routes/sync.ts. */
+interface DeltaPayload {
+  assessment: Partial<Assessment> & Pick<Assessment, 'id'>;
+  zone_scores: ZoneScore[];
+  item_scores: ItemScore[];
+  light_surveys: Partial<LightSurvey>[];
+  light_readings: Record<string, LightReading[]>;
+  deleted: { zone_scores: string[]; item_scores: string[]; light_surveys: string[] };
+  photos: unknown[];
+}
+
+/** Changed columns per row: a set of field names, or null for the whole row. */
+type ChangedRows = Map<string, Set<string> | null>;
+
+function pickFields<T extends object>(row: T, fields: Iterable<string>): Partial<T> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in row) picked[field] = (row as Record<string, unknown>)[field];
+  }
+  return picked as Partial<T>;
+}
+
+/**
+ * The rows that changed between synced_revision and the revision being
+ * pushed, as a delta for POST /api/sync/delta — or null when this device
+ * cannot be sure it knows all of them, and the push has to go in full.
+ *
+ * Two sources, because neither is enough alone. The change journal says which
+ * rows and fields each edit wrote, but only for edits that went through
+ * touchAssessment(); it must hold an entry for every revision in the range, or
+ * some edit is unaccounted for. The sync base is exactly what the server holds
+ * at synced_revision, so it catches rows that came or went without a journal
+ * entry — the item rows Assessment creates on first open, say — and must be
+ * at that revision for the comparison to mean anything.
+ */
+async function buildDelta(
+  local: MergeContent,
+  photos: unknown[],
+  syncedRevision: number | null | undefined,
+  pushedRevision: number,
+): Promise<DeltaPayload | null> {
+  if (syncedRevision == null) return null;
+  const assessmentId = local.assessment.id;
+  const [entries, base] = await Promise.all([
+    db.change_journal.where('assessment_id').equals(assessmentId).toArray(),
+    db.sync_bases.get(assessmentId),
+  ]);
+  if (!base || base.revision !== syncedRevision) return null;
+
+  const inRange = entries.filter(
+    (entry) => entry.revision > syncedRevision && entry.revision <= pushedRevision,
+  );
+  const journalled = new Set(inRange.map((entry) => entry.revision));
+  for (let revision = syncedRevision + 1; revision <= pushedRevision; revision++) {
+    if (!journalled.has(revision)) return null;
+  }
+
+  const changed = new Map<JournalTable, ChangedRows>();
+  for (const entry of inRange) {
+    const rows: ChangedRows = changed.get(entry.table) ?? new Map();
+    changed.set(entry.table, rows);
+    const previous = rows.get(entry.row_id);
+    rows.set(
+      entry.row_id,
+      entry.fields === null || previous === null
+        ? null
+        : new Set([...(previous ?? []), ...entry.fields]),
+    );
+  }
+  const rowsOf = (table: JournalTable): ChangedRows => changed.get(table) ?? new Map();
+
+  /** Rows to send whole: journalled, or unknown to the server. Plus the ids to delete. */
+  function changedRows<T extends { id: string }>(table: JournalTable, rows: T[], baseRows: T[]) {
+    const journal = rowsOf(table);
+    const baseIds = new Set(baseRows.map((row) => row.id));
+    const localIds = new Set(rows.map((row) => row.id));
+    return {
+      upserted: rows.filter((row) => journal.has(row.id) || !baseIds.has(row.id)),
+      deleted: [
+        ...new Set([...journal.keys(), ...baseIds].filter((id) => !localIds.has(id))),
+      ],
+    };
+  }
+
+  const zones = changedRows('zone_scores', local.zone_scores, base.zone_scores);
+  const items = changedRows('item_scores', local.item_scores, base.item_scores);
+  const surveys = changedRows('light_surveys', local.light_surveys, base.light_surveys);
+
+  // A survey the server holds is updated with only the fields that changed, so
+  // an aerial image nobody touched stays on the iPad; a new one goes whole.
+  const baseSurveyIds = new Set(base.light_surveys.map((ls) => ls.id));
+  const surveyFields = rowsOf('light_surveys');
+  const lightSurveys: Partial<LightSurvey>[] = surveys.upserted.map((ls) => {
+    const fields = baseSurveyIds.has(ls.id) ? surveyFields.get(ls.id) : null;
+    return fields ? { ...pickFields(ls, fields), id: ls.id, assessment_id: ls.assessment_id } : ls;
+  });
+
+  // The walk position is never journalled — moving it is a bookmark, not an
+  // edit, and does not bump (setWalkPosition in light-survey.ts) — so it is
+  // compared against the base instead, and rides along with whatever this
+  // push carries, as it does in the full sync.
+  const baseWalk = new Map(base.light_surveys.map((ls) => [ls.id, ls.walk_position ?? null]));
+  for (const ls of local.light_surveys) {
+    if (!baseWalk.has(ls.id) || baseWalk.get(ls.id) === (ls.walk_position ?? null)) continue;
+    const sent = lightSurveys.find((row) => row.id === ls.id);
+    if (sent) sent.walk_position = ls.walk_position ?? null;
+    else lightSurveys.push({ id: ls.id, assessment_id: ls.assessment_id, walk_position: ls.walk_position ?? null });
+  }
+
+  const readingSurveys = new Set([
+    ...rowsOf('light_readings').keys(),
+    ...local.light_surveys.filter((ls) => !baseSurveyIds.has(ls.id)).map((ls) => ls.id),
+  ]);
+  const lightReadings: Record<string, LightReading[]> = {};
+  for (const ls of local.light_surveys) {
+    if (readingSurveys.has(ls.id)) {
+      lightReadings[ls.id] = local.light_readings.filter((r) => r.survey_id === ls.id);
+    }
+  }
+
+  const assessmentFields = rowsOf('assessments').get(assessmentId);
+  return {
+    assessment: {
+      ...(assessmentFields === null
+        ? local.assessment
+        : pickFields(local.assessment, assessmentFields ?? [])),
+      // Always sent: the revision fields are what the server records the push
+      // as, and the status is the device's to report on every push.
+      id: assessmentId,
+      status: local.assessment.status,
+      revision: local.assessment.revision,
+      last_edited_by: local.assessment.last_edited_by,
+      last_edited_at: local.assessment.last_edited_at,
+      review_comments: undefined,
+    },
+    zone_scores: zones.upserted,
+    item_scores: items.upserted,
+    light_surveys: lightSurveys,
+    light_readings: lightReadings,
+    deleted: {
+      zone_scores: zones.deleted,
+      item_scores: items.deleted,
+      light_surveys: surveys.deleted,
+    },
+    photos,
+  };
+}
+
+/**
+ * Both copies of a diverged assessment side by side, for the conflict screen.
+ * Everything resolveAndSync() needs is in here, so the choice is made against
+ * exactly the server copy the assessor was shown.
+ */
+export interface ServerComparison {
+  server: RemoteRevision;
+  local: MergeContent;
+  remote: MergeContent;
+  /** Every place the copies differ, not only the ones both sides changed. */
+  differences: Difference[];
+  /**
+   * Whether this device holds the ancestor. Without it nothing can be
+   * suggested, and every difference is the assessor's to pick.
+   */
+  hasBase: boolean;
+  serverPhotos: ServerPhotoMeta[];
+}
+
+/** Fetch the server's copy and list how it differs from this device's. */
+export async function compareWithServer(assessmentId: string): Promise<ServerComparison> {
+  const [assessment, zoneScores, itemScores, lightSurveys, lightReadings, base] =
+    await Promise.all([
+      db.assessments.get(assessmentId),
+      db.zone_scores.where('assessment_id').equals(assessmentId).toArray(),
+      db.item_scores.where('assessment_id').equals(assessmentId).toArray(),
+      db.light_surveys.where('assessment_id').equals(assessmentId).toArray(),
+      db.light_readings.where('assessment_id').equals(assessmentId).toArray(),
+      db.sync_bases.get(assessmentId),
+    ]);
+  if (!assessment) throw new Error('Assessment not found');
+
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}`);
+  if (!res.ok) throw new Error(`Failed to fetch assessment: ${res.status}`);
+  const server: ServerAssessmentDetail = await res.json();
+
+  const local: MergeContent = {
+    assessment,
+    zone_scores: zoneScores,
+    item_scores: itemScores,
+    light_surveys: lightSurveys,
+    light_readings: lightReadings,
+  };
+  const remote = toLocalContent(server);
+  const ancestor = base && base.revision === assessment.synced_revision ? base : null;
+
+  return {
+    server,
+    local,
+    remote,
+    differences: diffAssessment(ancestor, local, remote),
+    hasBase: ancestor !== null,
+    serverPhotos: server.photos ?? [],
+  };
+}
+
+/**
+ * Write the assessor's choices over the local copy as a new revision and push
+ * it. Forced, because the comparison has been shown and answered — the server
+ * copy the choices were made against is already inside the result. If someone
+ * pushed after the comparison was fetched, If-Match refuses the push with a
+ * DivergedError and the screen has to be loaded again.
+ */
+export async function resolveAndSync(
+  assessmentId: string,
+  comparison: ServerComparison,
+  choices: Choices,
+  onProgress?: (progress: SyncProgress) => void,
+): Promise<SyncResult> {
+  const resolved = resolveAssessment(
+    comparison.local,
+    comparison.remote,
+    comparison.differences,
+    choices,
+  );
+  await applyMerge(assessmentId, resolved, comparison.server.revision ?? 1);
+  await downloadMissingPhotos(assessmentId, comparison.serverPhotos, resolved);
+  return syncAssessment(assessmentId, onProgress, {
+    force: true,
+    baseRevision: comparison.server.revision ?? null,
+  });
+}
+
 /** Sends the analyst's PDF through its own endpoint. */
 async function uploadCrimeReport(assessmentId: string, report: CrimeReport): Promise<void> {
   const formData = new FormData();
@@ -265,7 +704,7 @@ async function uploadCrimeReport(assessmentId: string, report: CrimeReport): Pro
   formData.append('page_count', String(report.page_count));
   formData.append('uploaded_at', report.uploaded_at);
 
-  const res = await fetch(`${API_BASE}/api/assessments/${assessmentId}/crime-report`, {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/crime-report`, {
     method: 'POST',
     body: formData,
   });
@@ -300,8 +739,13 @@ async function uploadPhoto(assessmentId: string, photo: Photo): Promise<void> {
     formData.append('compass_heading', String(photo.compass_heading));
   if (photo.annotation_data)
     formData.append('annotation_data', JSON.stringify(photo.annotation_data));
+  if (photo.revision !== undefined) {
+    formData.append('revision', String(photo.revision));
+    if (photo.last_edited_by) formData.append('last_edited_by', photo.last_edited_by);
+    if (photo.last_edited_at) formData.append('last_edited_at', photo.last_edited_at);
+  }
 
-  const res = await fetch(`${API_BASE}/api/assessments/${assessmentId}/photos`, {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/photos`, {
     method: 'POST',
     body: formData,
   });
@@ -312,7 +756,278 @@ async function uploadPhoto(assessmentId: string, photo: Photo): Promise<void> {
 }
 
 /**
- * Check if the server is reachable
+ * Download one photo into IndexedDB. False when the server would not serve it;
+ * a lapsed session still throws AuthRequiredError for the caller to handle.
+ */
+async function downloadPhoto(meta: ServerPhotoMeta): Promise<boolean> {
+  const photoRes = await authFetch(`${API_BASE}/api/photos/${meta.id}`);
+  if (!photoRes.ok) {
+    console.warn(`Failed to download photo ${meta.id}: ${photoRes.status}`);
+    return false;
+  }
+
+  // Convert binary response to base64 data URL
+  const blob = await photoRes.blob();
+  const dataUrl = await blobToDataUrl(blob);
+
+  const photo: Photo = {
+    id: meta.id,
+    assessment_id: meta.assessment_id,
+    item_score_id: meta.item_score_id || null,
+    zone_key: meta.zone_key,
+    captured_at: meta.captured_at || new Date().toISOString(),
+    data: dataUrl,
+    filename: meta.filename || `${meta.id}.jpg`,
+    mime_type: meta.mime_type || 'image/jpeg',
+    gps_lat: meta.gps_lat ?? null,
+    gps_lng: meta.gps_lng ?? null,
+    gps_accuracy_m: meta.gps_accuracy_m ?? null,
+    compass_heading: meta.compass_heading ?? null,
+    annotation_data: meta.annotation_data ?? null,
+    synced: true,
+    ...rowRevisionOf(meta),
+  };
+
+  await db.photos.put(photo);
+  return true;
+}
+
+/** A server row's edit stamp, with a server that predates it read as revision 1. */
+function rowRevisionOf(row: RowRevision): Required<RowRevision> {
+  return {
+    revision: row.revision ?? 1,
+    last_edited_by: row.last_edited_by ?? null,
+    last_edited_at: row.last_edited_at ?? null,
+  };
+}
+
+/**
+ * The server's copy of an assessment in this device's shapes, with the
+ * defaults a pull has always filled in. Shared by pull, which stores it, and
+ * the merge, which compares against it — so a field the server omits reads the
+ * same to both instead of looking like an edit to one of them.
+ */
+function toLocalContent(data: ServerAssessmentDetail): MergeContent {
+  const { zone_scores, item_scores, light_surveys, light_readings } = data;
+  // The row's own columns. Everything hung off it is dropped rather than
+  // destructured away, which this project's lint setup reports as unused.
+  const row: Record<string, unknown> = { ...data };
+  for (const key of [
+    'zone_scores',
+    'item_scores',
+    'light_surveys',
+    'light_readings',
+    'photos',
+    'crime_reports',
+  ]) {
+    delete row[key];
+  }
+  const assessmentData = row as unknown as Assessment;
+  return {
+    assessment: {
+      ...assessmentData,
+      top_recommendations: assessmentData.top_recommendations || [],
+      quick_wins: assessmentData.quick_wins || [],
+      notes: assessmentData.notes || '',
+      assessor_signature: assessmentData.assessor_signature || null,
+    },
+    zone_scores: (zone_scores ?? []).map((z) => ({
+      id: z.id,
+      assessment_id: z.assessment_id,
+      zone_key: z.zone_key,
+      zone_name: z.zone_name,
+      zone_order: z.zone_order,
+      average_score: z.average_score,
+      compliance_pct: z.compliance_pct ?? null,
+      priority_findings: z.priority_findings || '',
+      notes: z.notes || '',
+      completed: z.completed ?? false,
+      ...rowRevisionOf(z),
+    })),
+    item_scores: (item_scores ?? []).map((i) => ({
+      id: i.id,
+      assessment_id: i.assessment_id,
+      zone_key: i.zone_key,
+      principle: i.principle,
+      item_key: i.item_key ?? null,
+      item_text: i.item_text,
+      item_order: i.item_order,
+      score: i.score,
+      is_na: i.is_na ?? false,
+      na_reason: i.na_reason ?? '',
+      notes: i.notes || '',
+      photo_ids: i.photo_ids || [],
+      is_custom: i.is_custom ?? false,
+      custom_guidance: i.custom_guidance ?? '',
+      ...rowRevisionOf(i),
+    })),
+    light_surveys: (light_surveys ?? []).map((ls) => ({
+      ...ls,
+      skipped_points: ls.skipped_points || [],
+      observers: ls.observers || '',
+      weather: ls.weather || '',
+      lamp_type: ls.lamp_type || '',
+      fixture_type: ls.fixture_type || '',
+      meter_type: ls.meter_type || '',
+      meter_calibrated_on: ls.meter_calibrated_on || '',
+      notes: ls.notes || '',
+      aerial_image: ls.aerial_image ?? null,
+      aerial_credit: ls.aerial_credit ?? null,
+      aerial_base: ls.aerial_base ?? null,
+      walk_position: ls.walk_position ?? null,
+      grid_flipped: ls.grid_flipped ?? false,
+      grid_origin: ls.grid_origin ?? 'edge',
+      unit: ls.unit || 'fc',
+    })),
+    light_readings: light_readings ?? [],
+  };
+}
+
+/**
+ * Keep `content` as the merge ancestor at `revision`. Callers inside a
+ * transaction must include db.sync_bases in its scope.
+ */
+async function recordSyncBase(revision: number, content: MergeContent): Promise<void> {
+  const base: SyncBase = {
+    assessment_id: content.assessment.id,
+    revision,
+    assessment: { ...content.assessment, review_comments: undefined },
+    zone_scores: content.zone_scores,
+    item_scores: content.item_scores,
+    light_surveys: content.light_surveys.map((ls) => ({
+      ...ls,
+      aerial_image: null,
+      aerial_base: null,
+    })),
+    light_readings: content.light_readings,
+    recorded_at: new Date().toISOString(),
+  };
+  await db.sync_bases.put(base);
+}
+
+/**
+ * Write a merge over the local copy.
+ *
+ * The merge is this device's edit, so it takes a new revision — but past the
+ * server's as well as its own, since it supersedes both, and a number at or
+ * below the server's would read as "nothing new" to whoever compares next.
+ * synced_revision stays on the ancestor until the push that follows lands.
+ *
+ * Item photos the merge let go of are deleted here too; photos it took from
+ * the server are fetched by downloadMissingPhotos().
+ */
+async function applyMerge(
+  assessmentId: string,
+  merged: MergeContent,
+  serverRevision: number,
+): Promise<void> {
+  const keptPhotoIds = new Set(merged.item_scores.flatMap((i) => i.photo_ids));
+
+  await db.transaction(
+    'rw',
+    [
+      db.assessments,
+      db.zone_scores,
+      db.item_scores,
+      db.light_surveys,
+      db.light_readings,
+      db.photos,
+    ],
+    async () => {
+      const current = await db.assessments.get(assessmentId);
+      if (!current) return;
+      const droppedPhotoIds = (
+        await db.item_scores.where('assessment_id').equals(assessmentId).toArray()
+      )
+        .flatMap((i) => i.photo_ids ?? [])
+        .filter((photoId) => !keptPhotoIds.has(photoId));
+      const now = new Date().toISOString();
+      await db.assessments.put({
+        ...merged.assessment,
+        // Re-read, not taken from the copy the merge started from, for the
+        // same reason step 4 of syncAssessment re-reads it.
+        status: current.status,
+        revision: Math.max(current.revision ?? 1, serverRevision) + 1,
+        synced_revision: current.synced_revision,
+        last_edited_by: getDeviceName(),
+        last_edited_at: now,
+        updated_at: now,
+      });
+
+      await db.zone_scores.where('assessment_id').equals(assessmentId).delete();
+      await db.zone_scores.bulkPut(merged.zone_scores);
+      await db.item_scores.where('assessment_id').equals(assessmentId).delete();
+      await db.item_scores.bulkPut(merged.item_scores);
+      await db.light_readings.where('assessment_id').equals(assessmentId).delete();
+      await db.light_surveys.where('assessment_id').equals(assessmentId).delete();
+      await db.light_surveys.bulkPut(merged.light_surveys);
+      await db.light_readings.bulkPut(merged.light_readings);
+      if (droppedPhotoIds.length > 0) await db.photos.bulkDelete(droppedPhotoIds);
+    },
+  );
+
+  // Averages and completion follow from the merged item scores.
+  await persistAllScores(assessmentId);
+}
+
+/**
+ * Fetch the photos on the server that this device does not hold and the merge
+ * kept — the ones the other copy added. An item photo the merge let go of is
+ * not fetched only to sit orphaned. A photo that fails is left for a later pull
+ * rather than failing the merge: the item still lists it, and the report skips
+ * it.
+ */
+async function downloadMissingPhotos(
+  assessmentId: string,
+  serverPhotos: ServerPhotoMeta[],
+  merged: MergeContent,
+): Promise<void> {
+  const localIds = new Set(
+    (await db.photos.where('assessment_id').equals(assessmentId).primaryKeys()) as string[],
+  );
+  const keptIds = new Set(merged.item_scores.flatMap((i) => i.photo_ids));
+  for (const meta of serverPhotos) {
+    if (localIds.has(meta.id)) continue;
+    if (meta.item_score_id && !keptIds.has(meta.id)) continue;
+    try {
+      await downloadPhoto(meta);
+    } catch (err) {
+      if (err instanceof AuthRequiredError) throw err;
+      console.warn(`Failed to download photo ${meta.id}:`, err);
+    }
+  }
+}
+
+/** The server's history for one assessment, newest first. */
+export async function fetchRevisionHistory(assessmentId: string): Promise<ServerRevision[]> {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/revisions`);
+  if (!res.ok) throw new Error(`Failed to fetch history: ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Roll the server's copy back to an earlier state. The server writes it forward
+ * as a new revision, so this iPad then reads "server ahead" and Update pulls it
+ * like anyone else's edit — nothing local is touched here.
+ */
+export async function restoreServerRevision(
+  assessmentId: string,
+  historyId: string,
+): Promise<{ revision: number; restored_from: number }> {
+  const res = await authFetch(
+    `${API_BASE}/api/assessments/${assessmentId}/revisions/${historyId}/restore`,
+    { method: 'POST' },
+  );
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Restore failed: ${res.status}`);
+  }
+  return res.json();
+}
+
+/**
+ * Check if the server is reachable. Deliberately unauthenticated — the health
+ * route is public — so "offline" and "signed out" stay two different answers.
  */
 export async function checkServerHealth(): Promise<boolean> {
   try {
@@ -331,12 +1046,84 @@ export async function checkServerHealth(): Promise<boolean> {
 /**
  * Fetch the list of assessments from the server (lightweight summaries).
  */
-export async function fetchServerAssessments(): Promise<ServerAssessmentSummary[]> {
-  const res = await fetch(`${API_BASE}/api/assessments`);
+/**
+ * Search and filters for the server list. Every field is optional; an empty
+ * object is the whole list, newest first. See GET /api/assessments.
+ */
+export interface ServerListFilters {
+  q?: string;
+  status?: AssessmentStatus;
+  property_type?: PropertyType;
+  assessment_type?: AssessmentType;
+  assessor?: string;
+  /** Inclusive YYYY-MM-DD bounds on the assessment date. */
+  from?: string;
+  to?: string;
+  min_score?: number;
+  max_score?: number;
+  sort?: 'created_at' | 'updated_at' | 'date_of_assessment' | 'address' | 'overall_score';
+  order?: 'asc' | 'desc';
+}
+
+export interface ServerAssessmentPage {
+  assessments: ServerAssessmentSummary[];
+  /** Hand back to fetchServerAssessmentPage for the next page; null on the last. */
+  next_cursor: string | null;
+  /** Matches across every page, for the tab count. */
+  total: number;
+}
+
+const SERVER_PAGE_SIZE = 50;
+
+/** The server accepts up to 200 a page; ids go in the URL, so keep well short. */
+const REVISION_BATCH = 100;
+
+function listUrl(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  }
+  return `${API_BASE}/api/assessments?${search}`;
+}
+
+/**
+ * One page of the server list. Pass the previous page's next_cursor, with the
+ * same filters, to continue it.
+ */
+export async function fetchServerAssessmentPage(
+  filters: ServerListFilters,
+  cursor: string | null = null,
+): Promise<ServerAssessmentPage> {
+  const res = await authFetch(
+    listUrl({
+      sort: 'created_at',
+      order: 'desc',
+      ...filters,
+      limit: SERVER_PAGE_SIZE,
+      cursor: cursor ?? undefined,
+    }),
+  );
   if (!res.ok) throw new Error(`Failed to fetch server assessments: ${res.status}`);
   return res.json();
 }
 
+/**
+ * The server's copy of exactly these assessments — what the local cards
+ * compare against. Fetched by id rather than read off the Server tab, which
+ * now shows one filtered page and so cannot say an assessment is missing.
+ */
+export async function fetchServerRevisions(ids: string[]): Promise<ServerAssessmentSummary[]> {
+  const found: ServerAssessmentSummary[] = [];
+  for (let i = 0; i < ids.length; i += REVISION_BATCH) {
+    const batch = ids.slice(i, i + REVISION_BATCH);
+    const res = await authFetch(listUrl({ ids: batch.join(','), limit: batch.length }));
+    if (!res.ok) throw new Error(`Failed to fetch server assessments: ${res.status}`);
+    const page = (await res.json()) as ServerAssessmentPage;
+    found.push(...page.assessments);
+  }
+  return found;
+}
+
 /**
  * Pull a full assessment from the server into local IndexedDB.
  * Downloads metadata, zone_scores, item_scores, then photos sequentially.
@@ -348,20 +1135,12 @@ export async function pullAssessment(
   // 1. Fetch full assessment (includes zone_scores, item_scores, photo metadata)
   onProgress?.({ phase: 'metadata', current: 0, total: 1, message: 'Downloading assessment data...' });
 
-  const res = await fetch(`${API_BASE}/api/assessments/${id}`);
+  const res = await authFetch(`${API_BASE}/api/assessments/${id}`);
   if (!res.ok) throw new Error(`Failed to fetch assessment: ${res.status}`);
   const data = await res.json();
 
   // Extract related data from the response
-  const {
-    zone_scores,
-    item_scores,
-    photos: photoMeta,
-    light_surveys,
-    light_readings,
-    crime_reports,
-    ...assessmentData
-  } = data;
+  const { photos: photoMeta, light_surveys, crime_reports } = data;
 
   // 2. Upsert assessment + scores into IndexedDB in a transaction
   onProgress?.({ phase: 'metadata', current: 1, total: 1, message: 'Saving assessment data...' });
@@ -372,6 +1151,8 @@ export async function pullAssessment(
     db.item_scores,
     db.light_surveys,
     db.light_readings,
+    db.sync_bases,
+    db.change_journal,
   ];
 
   await db.transaction('rw', pullTables, async () => {
@@ -385,52 +1166,28 @@ export async function pullAssessment(
     // The ?? fallbacks cover a client running against a server that has not
     // been upgraded yet: the pull yields revision 1 / ancestor 1, which reads
     // as in sync and then bumps normally on the first local edit.
-    const serverRevision = assessmentData.revision ?? 1;
+    const serverRevision = data.revision ?? 1;
+    const content = toLocalContent(data);
     const assessment: Assessment = {
-      ...assessmentData,
-      top_recommendations: assessmentData.top_recommendations || [],
-      quick_wins: assessmentData.quick_wins || [],
-      notes: assessmentData.notes || '',
-      assessor_signature: assessmentData.assessor_signature || null,
+      ...content.assessment,
       revision: serverRevision,
       synced_revision: serverRevision,
-      last_edited_by: assessmentData.last_edited_by ?? null,
-      last_edited_at: assessmentData.last_edited_at ?? null,
+      last_edited_by: data.last_edited_by ?? null,
+      last_edited_at: data.last_edited_at ?? null,
     };
     await db.assessments.put(assessment);
+    // Every journalled edit is either on the server already or just replaced.
+    await db.change_journal.where('assessment_id').equals(id).delete();
 
     // Delete existing zone_scores and item_scores, then bulk insert
     await db.zone_scores.where('assessment_id').equals(id).delete();
-    if (zone_scores && zone_scores.length > 0) {
-      const zs: ZoneScore[] = zone_scores.map((z: ZoneScore) => ({
-        id: z.id,
-        assessment_id: z.assessment_id,
-        zone_key: z.zone_key,
-        zone_name: z.zone_name,
-        zone_order: z.zone_order,
-        average_score: z.average_score,
-        priority_findings: z.priority_findings || '',
-        notes: z.notes || '',
-        completed: z.completed ?? false,
-      }));
-      await db.zone_scores.bulkPut(zs);
+    if (content.zone_scores.length > 0) {
+      await db.zone_scores.bulkPut(content.zone_scores);
     }
 
     await db.item_scores.where('assessment_id').equals(id).delete();
-    if (item_scores && item_scores.length > 0) {
-      const is: ItemScore[] = item_scores.map((i: ItemScore) => ({
-        id: i.id,
-        assessment_id: i.assessment_id,
-        zone_key: i.zone_key,
-        principle: i.principle,
-        item_text: i.item_text,
-        item_order: i.item_order,
-        score: i.score,
-        is_na: i.is_na ?? false,
-        notes: i.notes || '',
-        photo_ids: i.photo_ids || [],
-      }));
-      await db.item_scores.bulkPut(is);
+    if (content.item_scores.length > 0) {
+      await db.item_scores.bulkPut(content.item_scores);
     }
 
     // Light surveys. Only touched when the server actually reported the key —
@@ -440,32 +1197,27 @@ export async function pullAssessment(
       await db.light_readings.where('assessment_id').equals(id).delete();
       await db.light_surveys.where('assessment_id').equals(id).delete();
 
-      if (light_surveys.length > 0) {
-        await db.light_surveys.bulkPut(
-          light_surveys.map((ls: LightSurvey) => ({
-            ...ls,
-            skipped_points: ls.skipped_points || [],
-            observers: ls.observers || '',
-            weather: ls.weather || '',
-            lamp_type: ls.lamp_type || '',
-            fixture_type: ls.fixture_type || '',
-            meter_type: ls.meter_type || '',
-            meter_calibrated_on: ls.meter_calibrated_on || '',
-            notes: ls.notes || '',
-            aerial_image: ls.aerial_image ?? null,
-            aerial_credit: ls.aerial_credit ?? null,
-            aerial_base: ls.aerial_base ?? null,
-            walk_position: ls.walk_position ?? null,
-            grid_flipped: ls.grid_flipped ?? false,
-            grid_origin: ls.grid_origin ?? 'edge',
-            unit: ls.unit || 'fc',
-          })),
-        );
+      if (content.light_surveys.length > 0) {
+        await db.light_surveys.bulkPut(content.light_surveys);
       }
-      if (Array.isArray(light_readings) && light_readings.length > 0) {
-        await db.light_readings.bulkPut(light_readings as LightReading[]);
+      if (content.light_readings.length > 0) {
+        await db.light_readings.bulkPut(content.light_readings);
       }
     }
+
+    // What was just downloaded is what the server holds at serverRevision:
+    // the ancestor for the next merge. When the server sent no light surveys
+    // the local ones were kept, so they go into the ancestor as well.
+    await recordSyncBase(serverRevision, {
+      ...content,
+      assessment,
+      ...(Array.isArray(light_surveys)
+        ? {}
+        : {
+            light_surveys: await db.light_surveys.where('assessment_id').equals(id).toArray(),
+            light_readings: await db.light_readings.where('assessment_id').equals(id).toArray(),
+          }),
+    });
   });
 
   // 3. The analyst's crime PDF, fetched from its own endpoint like a photo.
@@ -478,7 +1230,7 @@ export async function pullAssessment(
     const meta = crime_reports[0];
     if (meta) {
       try {
-        const res = await fetch(`${API_BASE}/api/assessments/${id}/crime-report`);
+        const res = await authFetch(`${API_BASE}/api/assessments/${id}/crime-report`);
         if (res.ok) {
           const blob = await res.blob();
           await db.crime_reports.put({
@@ -493,6 +1245,7 @@ export async function pullAssessment(
           });
         }
       } catch (err) {
+        if (err instanceof AuthRequiredError) throw err;
         console.warn('Failed to download crime report:', err);
       }
     }
@@ -516,36 +1269,11 @@ export async function pullAssessment(
       });
 
       try {
-        const photoRes = await fetch(`${API_BASE}/api/photos/${meta.id}`);
-        if (!photoRes.ok) {
-          console.warn(`Failed to download photo ${meta.id}: ${photoRes.status}`);
-          continue;
-        }
-
-        // Convert binary response to base64 data URL
-        const blob = await photoRes.blob();
-        const dataUrl = await blobToDataUrl(blob);
-
-        const photo: Photo = {
-          id: meta.id,
-          assessment_id: meta.assessment_id,
-          item_score_id: meta.item_score_id || null,
-          zone_key: meta.zone_key,
-          captured_at: meta.captured_at || new Date().toISOString(),
-          data: dataUrl,
-          filename: meta.filename || `${meta.id}.jpg`,
-          mime_type: meta.mime_type || 'image/jpeg',
-          gps_lat: meta.gps_lat ?? null,
-          gps_lng: meta.gps_lng ?? null,
-          gps_accuracy_m: meta.gps_accuracy_m ?? null,
-          compass_heading: meta.compass_heading ?? null,
-          annotation_data: meta.annotation_data ?? null,
-          synced: true,
-        };
-
-        await db.photos.put(photo);
-        photosDownloaded++;
+        if (await downloadPhoto(meta)) photosDownloaded++;
       } catch (err) {
+        // A lapsed session fails every remaining photo the same way; stop and
+        // say so instead of logging the same refusal forty times.
+        if (err instanceof AuthRequiredError) throw err;
         console.warn(`Failed to download photo ${meta.id}:`, err);
       }
     }
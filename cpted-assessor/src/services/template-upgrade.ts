@@ -0,0 +1,184 @@
+/**
+ * Moving assessments onto the current version of their checklist template.
+ *
+ * An assessment is pinned to the template version it was created with (see
+ * template-versions.ts in cpted-checklist). When a new version ships, the
+ * in-flight ones move onto it by themselves at startup — the assessor is still
+ * walking them — and the rest stay put until an assessor chooses to upgrade
+ * one. Either way the rows change the same way, worked out by
+ * planTemplateMigration() in the package, which the server runs on its copy
+ * too: reworded and moved items keep their score, notes and photos, added
+ * items get unscored rows, and retired items go, their photos moving to the
+ * first item left in the same zone.
+ *
+ * The upgrade preview lists all of it before anything is written, including
+ * which retired items carry work that the upgrade would remove.
+ */
+
+import { v5 as uuidv5 } from 'uuid';
+import {
+  getTemplateChanges,
+  getTemplateVersion,
+  isEmptyMigration,
+  migratesAutomatically,
+  planTemplateMigration,
+} from 'cpted-checklist';
+import type { AddedItem, TemplateChanges, TemplateMigrationPlan } from 'cpted-checklist';
+import { db } from '../db/database';
+import { persistAllScores } from './scoring';
+import { rowStamp, touchAssessment } from './touch';
+import type { JournalChange } from './touch';
+import type { Assessment, ItemScore } from '../types';
+
+/** The template version an assessment is pinned to. */
+export function pinnedVersion(assessment: Pick<Assessment, 'template_version'>): number {
+  return assessment.template_version ?? 1;
+}
+
+/** Whether a newer version of the assessment's template exists. */
+export function canUpgradeTemplate(assessment: Assessment): boolean {
+  return pinnedVersion(assessment) < getTemplateVersion(assessment.property_type);
+}
+
+export interface TemplateUpgradePreview {
+  changes: TemplateChanges;
+  /** Retired items on this assessment with a score, notes or photos. */
+  losing: ItemScore[];
+}
+
+function hasWork(item: ItemScore): boolean {
+  return (
+    item.score !== null ||
+    (item.is_na && !item.na_reason) ||
+    item.notes.trim() !== '' ||
+    item.photo_ids.length > 0
+  );
+}
+
+export async function previewTemplateUpgrade(assessmentId: string): Promise<TemplateUpgradePreview> {
+  const assessment = await db.assessments.get(assessmentId);
+  if (!assessment) throw new Error('Assessment not found');
+  const changes = getTemplateChanges(assessment.property_type, pinnedVersion(assessment));
+  const retired = new Set(changes.retired.map((item) => item.key));
+  const items = await db.item_scores.where('assessment_id').equals(assessmentId).toArray();
+  return {
+    changes,
+    losing: items.filter((item) => item.item_key !== null && retired.has(item.item_key) && hasWork(item)),
+  };
+}
+
+/** `plan` applied to a list of rows held in memory — a sync base's. */
+function migrateRows(
+  assessmentId: string,
+  rows: ItemScore[],
+  plan: TemplateMigrationPlan<ItemScore>,
+): ItemScore[] {
+  const updated = new Map(plan.updated.map((row) => [row.id, row]));
+  const removed = new Set(plan.removed);
+  return [
+    ...rows.filter((row) => !removed.has(row.id)).map((row) => updated.get(row.id) ?? row),
+    ...plan.added.map((row) => newItemRow(assessmentId, row)),
+  ];
+}
+
+function newItemRow(assessmentId: string, added: AddedItem): ItemScore {
+  return { ...added, assessment_id: assessmentId, score: null, is_na: false, notes: '' };
+}
+
+/**
+ * Write `plan` to this device's tables. `stamped` for an upgrade the assessor
+ * chose: the moved photos are stamped as this device's edit and sent again.
+ * Callers run this inside a transaction over item_scores and photos. Returns
+ * the item rows written, for the journal.
+ */
+async function applyPlan(
+  assessmentId: string,
+  plan: TemplateMigrationPlan<ItemScore>,
+  stamped: boolean,
+): Promise<JournalChange[]> {
+  await db.item_scores.bulkPut([
+    ...plan.updated,
+    ...plan.added.map((row) => newItemRow(assessmentId, row)),
+  ]);
+  await db.item_scores.bulkDelete(plan.removed);
+  for (const move of plan.photos) {
+    const photo = await db.photos.get(move.photo_id);
+    if (!photo) continue;
+    await db.photos.update(move.photo_id, {
+      item_score_id: move.item_score_id,
+      zone_key: move.zone_key,
+      ...(stamped ? { synced: false, ...rowStamp(photo) } : {}),
+    });
+  }
+  return [...plan.updated, ...plan.added, ...plan.removed.map((id) => ({ id }))].map((row) => ({
+    table: 'item_scores',
+    row_id: row.id,
+  }));
+}
+
+async function planFor(assessment: Assessment): Promise<TemplateMigrationPlan<ItemScore>> {
+  const items = await db.item_scores.where('assessment_id').equals(assessment.id).toArray();
+  return planTemplateMigration(assessment.property_type, assessment.id, items, uuidv5);
+}
+
+/** Apply the upgrade. Returns what changed — the same lists the preview showed. */
+export async function upgradeTemplate(assessmentId: string): Promise<TemplateChanges> {
+  const assessment = await db.assessments.get(assessmentId);
+  if (!assessment) throw new Error('Assessment not found');
+  const changes = getTemplateChanges(assessment.property_type, pinnedVersion(assessment));
+
+  await db.transaction(
+    'rw',
+    [db.item_scores, db.photos, db.assessments, db.change_journal],
+    async () => {
+      const changed = await applyPlan(assessmentId, await planFor(assessment), true);
+      await touchAssessment(assessmentId, { template_version: changes.toVersion }, changed);
+    },
+  );
+
+  await persistAllScores(assessmentId);
+  return changes;
+}
+
+/**
+ * Move every in-flight assessment on this device onto the current template.
+ * Startup work, like backfillRevisions(): idempotent, and safe to fail — an
+ * assessment left behind stays on its pinned version, which still shows,
+ * scores and prints, and this retries on the next launch.
+ *
+ * Revisions are left alone and nothing is journalled. The server makes the
+ * same change to its own copy (services/template-migration.ts), row ids
+ * included, so counting it as an edit here would only make every in-flight
+ * assessment look diverged from the server the moment a new checklist
+ * shipped. For the same reason the sync base is migrated too when the server
+ * would have migrated that copy: it stands for what the server holds at the
+ * synced revision, and a delta push is computed against it.
+ */
+export async function migrateInFlightAssessments(): Promise<void> {
+  const behind = (a: Assessment) =>
+    migratesAutomatically(a.status) && pinnedVersion(a) < getTemplateVersion(a.property_type);
+
+  for (const assessment of await db.assessments.filter(behind).toArray()) {
+    await db.transaction('rw', [db.item_scores, db.photos, db.assessments, db.sync_bases], async () => {
+      const plan = await planFor(assessment);
+      if (!isEmptyMigration(plan)) await applyPlan(assessment.id, plan, false);
+      await db.assessments.update(assessment.id, { template_version: plan.toVersion });
+
+      const base = await db.sync_bases.get(assessment.id);
+      if (base && behind(base.assessment)) {
+        const basePlan = planTemplateMigration(
+          base.assessment.property_type,
+          base.assessment_id,
+          base.item_scores,
+          uuidv5,
+        );
+        await db.sync_bases.put({
+          ...base,
+          assessment: { ...base.assessment, template_version: basePlan.toVersion },
+          item_scores: migrateRows(base.assessment_id, base.item_scores, basePlan),
+        });
+      }
+    });
+    await persistAllScores(assessment.id);
+  }
+}
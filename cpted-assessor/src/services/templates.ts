@@ -0,0 +1,146 @@
+/**
+ * Checklist templates published from the server, and the admin calls that
+ * author them.
+ *
+ * A template an admin publishes reaches every iPad without a new build: the
+ * app downloads what the server has published whenever it starts signed in
+ * and online, keeps it in localStorage, and installs it into cpted-checklist
+ * (installPublishedTemplates) before the first render — so offline, on site,
+ * the checklist is the one last downloaded. Until a device has downloaded
+ * anything, and for every template never published, the bundled checklist is
+ * used as before.
+ *
+ * localStorage rather than IndexedDB for the same reason as the session
+ * (device.ts): it can be read synchronously, before anything renders, and a
+ * screen must never draw one checklist and then another.
+ */
+
+import { installPublishedTemplates } from 'cpted-checklist';
+import type { ItemMigration, PublishedTemplate, TemplateDocument, TemplateId } from 'cpted-checklist';
+import { authFetch } from './auth';
+import { migrateInFlightAssessments } from './template-upgrade';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+const TEMPLATES_KEY = 'cpted-published-templates';
+
+function readCached(): PublishedTemplate[] {
+  try {
+    const raw = window.localStorage.getItem(TEMPLATES_KEY);
+    return raw ? (JSON.parse(raw) as PublishedTemplate[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Install the templates last downloaded. Synchronous: call before rendering. */
+export function installCachedTemplates(): void {
+  installPublishedTemplates(readCached());
+}
+
+/**
+ * Download the published templates and install them. Resolves true when they
+ * differ from the ones already installed — the caller then has assessments to
+ * migrate. Needs a session; throws AuthRequiredError without one.
+ */
+export async function refreshPublishedTemplates(): Promise<boolean> {
+  const res = await authFetch(`${API_BASE}/api/templates/published`);
+  if (!res.ok) throw new Error(`Template download failed: ${res.status}`);
+  const { templates } = (await res.json()) as { templates: PublishedTemplate[] };
+  const raw = JSON.stringify(templates);
+  if (raw === window.localStorage.getItem(TEMPLATES_KEY)) return false;
+  window.localStorage.setItem(TEMPLATES_KEY, raw);
+  installPublishedTemplates(templates);
+  return true;
+}
+
+// --- Authoring (admin) -------------------------------------------------------
+
+export interface TemplateSummary {
+  template_id: TemplateId;
+  version: number;
+  published_at: string | null;
+  published_by: string | null;
+  draft: { base_version: number; updated_at: string; created_by: string | null } | null;
+}
+
+export interface TemplateDraft {
+  id: string;
+  template_id: TemplateId;
+  base_version: number;
+  document: TemplateDocument;
+  summary: string;
+  created_by: string | null;
+  updated_at: string;
+}
+
+/** A draft as the server holds it, with what stops it being published. */
+export interface DraftState {
+  draft: TemplateDraft;
+  errors: string[];
+}
+
+/** A refused authoring call; `errors` lists what stops a draft publishing. */
+export class TemplateRequestError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(message);
+    this.name = 'TemplateRequestError';
+    this.errors = errors;
+  }
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await authFetch(`${API_BASE}/api/templates${path}`, {
+    ...init,
+    headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new TemplateRequestError(body?.error || `Request failed: ${res.status}`, body?.errors);
+  }
+  return res.status === 204 ? (undefined as T) : ((await res.json()) as T);
+}
+
+export async function listTemplates(): Promise<TemplateSummary[]> {
+  return (await request<{ templates: TemplateSummary[] }>('')).templates;
+}
+
+export function getDraft(templateId: TemplateId): Promise<DraftState> {
+  return request(`/${templateId}/draft`);
+}
+
+export function startDraft(templateId: TemplateId): Promise<DraftState> {
+  return request(`/${templateId}/draft`, { method: 'POST' });
+}
+
+export function saveDraft(
+  templateId: TemplateId,
+  document: TemplateDocument,
+  summary: string,
+): Promise<DraftState> {
+  return request(`/${templateId}/draft`, {
+    method: 'PUT',
+    body: JSON.stringify({ document, summary }),
+  });
+}
+
+export function discardDraft(templateId: TemplateId): Promise<void> {
+  return request(`/${templateId}/draft`, { method: 'DELETE' });
+}
+
+/**
+ * Publish the draft, then download the result so this iPad uses it — and moves
+ * its in-flight assessments onto it — at once rather than at its next start.
+ */
+export async function publishDraft(
+  templateId: TemplateId,
+  summary: string,
+): Promise<{ version: number; changes: ItemMigration[] }> {
+  const published = await request<{ version: number; changes: ItemMigration[] }>(
+    `/${templateId}/publish`,
+    { method: 'POST', body: JSON.stringify({ summary }) },
+  );
+  if (await refreshPublishedTemplates()) await migrateInFlightAssessments();
+  return published;
+}
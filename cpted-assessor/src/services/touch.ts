@@ -16,11 +16,16 @@
  *    no warning: people learn to tap through it, and then it fails on the one
  *    occasion it was right.
  *  - Sync must NOT bump. Sync moves bytes; it does not change them.
+ *
+ * The same write also journals which rows the edit changed (JournalEntry), so
+ * that a push can send those rows instead of the whole assessment. An edit
+ * that changes a row the sync payload carries must name it in `changed`: a
+ * row left out of the journal is a row a delta push never sends.
  */
 
 import { db } from '../db/database';
 import { getDeviceName } from './device';
-import type { Assessment } from '../types';
+import type { Assessment, JournalEntry, RowRevision } from '../types';
 
 /** Fields this module owns. Callers pass everything else through `patch`. */
 type ManagedField =
@@ -39,21 +44,48 @@ type ManagedField =
  * Dexie has no atomic increment: two quick taps would otherwise both read n and
  * both write n+1, and a lost bump is a missed conflict warning.
  *
+ * The patch's keys are journalled as the assessment fields that changed;
+ * `changed` names any other rows the caller wrote. Both get the new revision.
+ *
+ * Item and zone rows named in `changed` also get their own stamp (RowRevision)
+ * moved, for team mode.
+ *
  * Callers already inside a `db.transaction('rw', ...)` must include
- * `db.assessments` in their scope, or Dexie throws
- * "Table assessments not part of transaction".
+ * `db.assessments` and `db.change_journal` in their scope, plus every table
+ * `changed` stamps, or Dexie throws "Table assessments not part of
+ * transaction".
  */
 export async function touchAssessment(
   assessmentId: string,
   patch?: Partial<Omit<Assessment, ManagedField>>,
+  changed: JournalChange[] = [],
 ): Promise<void> {
-  await db.transaction('rw', db.assessments, async () => {
+  const stamped = changed.filter(
+    (change) => change.table === 'item_scores' || change.table === 'zone_scores',
+  );
+  const scope = [
+    db.assessments,
+    db.change_journal,
+    ...(stamped.some((change) => change.table === 'item_scores') ? [db.item_scores] : []),
+    ...(stamped.some((change) => change.table === 'zone_scores') ? [db.zone_scores] : []),
+  ];
+  await db.transaction('rw', scope, async () => {
     const current = await db.assessments.get(assessmentId);
     if (!current) return;
     const now = new Date().toISOString();
+    const revision = (current.revision ?? 1) + 1;
+    for (const change of stamped) {
+      if (change.table === 'item_scores') {
+        const row = await db.item_scores.get(change.row_id);
+        if (row) await db.item_scores.update(change.row_id, rowStamp(row));
+      } else {
+        const row = await db.zone_scores.get(change.row_id);
+        if (row) await db.zone_scores.update(change.row_id, rowStamp(row));
+      }
+    }
     await db.assessments.update(assessmentId, {
       ...patch,
-      revision: (current.revision ?? 1) + 1,
+      revision,
       last_edited_by: getDeviceName(),
       last_edited_at: now,
       // Kept in step with last_edited_at so the old field stops drifting. It
@@ -61,17 +93,67 @@ export async function touchAssessment(
       // about being an edit rather than a sync.
       updated_at: now,
     });
+    // The assessment entry is written even with no patch: it is what marks
+    // this revision as journalled at all, which a delta push checks for every
+    // revision it covers.
+    await db.change_journal.bulkAdd([
+      {
+        assessment_id: assessmentId,
+        revision,
+        table: 'assessments',
+        row_id: assessmentId,
+        fields: patch ? Object.keys(patch) : [],
+        recorded_at: now,
+      },
+      ...changed.map((change) => ({
+        assessment_id: assessmentId,
+        revision,
+        table: change.table,
+        row_id: change.row_id,
+        fields: change.fields ?? null,
+        recorded_at: now,
+      })),
+    ]);
   });
 }
 
+/**
+ * The stamp for a row this device is writing: the next revision of `previous`,
+ * or revision 1 for a row that did not exist. Spread it into the write itself
+ * for rows touchAssessment() does not stamp — photos and light readings.
+ */
+export function rowStamp(previous?: RowRevision): Required<RowRevision> {
+  return {
+    revision: previous ? (previous.revision ?? 1) + 1 : 1,
+    last_edited_by: getDeviceName(),
+    last_edited_at: new Date().toISOString(),
+  };
+}
+
+/** A row an edit changed, as touchAssessment() callers name it. */
+export interface JournalChange {
+  table: JournalEntry['table'];
+  row_id: string;
+  /** The columns written; omit for the whole row. */
+  fields?: string[];
+}
+
 /**
  * Same, for the call sites that hold an item_score id but not the assessment
- * id — score taps, item notes, and photo add/delete/move.
+ * id — score taps, item notes, and photo add/delete/move. `otherItemIds` are
+ * further item_scores the same edit wrote, such as the item a photo moved off.
  */
-export async function touchAssessmentForItem(itemScoreId: string): Promise<void> {
+export async function touchAssessmentForItem(
+  itemScoreId: string,
+  otherItemIds: string[] = [],
+): Promise<void> {
   const item = await db.item_scores.get(itemScoreId);
   if (!item) return;
-  await touchAssessment(item.assessment_id);
+  await touchAssessment(
+    item.assessment_id,
+    undefined,
+    [itemScoreId, ...otherItemIds].map((row_id) => ({ table: 'item_scores', row_id })),
+  );
 }
 
 /**
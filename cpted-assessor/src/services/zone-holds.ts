@@ -0,0 +1,103 @@
+/**
+ * Team mode: which iPad is walking which zone of an assessment.
+ *
+ * When two or three assessors split a large site, each holds the zones they
+ * are walking so the others can see to pick different ones. Scores from
+ * separate zones then land on separate rows, and the row revisions let the
+ * sync merge combine them without asking anybody.
+ *
+ * Holds live on the server only and are advisory: they are never stored in
+ * IndexedDB, never bump the revision, and never stop a sync. Offline, this
+ * device simply cannot see or take them — the walk goes on regardless.
+ */
+
+import { authFetch } from './auth';
+import { getDeviceName } from './device';
+
+const API_BASE = import.meta.env.VITE_API_URL || '';
+
+export interface ZoneHold {
+  zone_key: string;
+  /** Device name of the iPad holding the zone. */
+  held_by: string;
+  /** Display name of whoever was signed in when it took the hold. */
+  held_by_user: string | null;
+  held_at: string;
+}
+
+/** Another device holds the zone. Carries its hold so the prompt can name it. */
+export class ZoneHeldError extends Error {
+  hold: ZoneHold;
+
+  constructor(hold: ZoneHold) {
+    super(`${hold.held_by} is walking this zone`);
+    this.name = 'ZoneHeldError';
+    this.hold = hold;
+  }
+}
+
+async function readError(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  return new Error(body?.error || `${fallback}: ${res.status}`);
+}
+
+/**
+ * This device's name, which is what a hold is recorded against. Required:
+ * a hold by an unnamed iPad could not be told apart from anybody else's.
+ */
+function device(): string {
+  const name = getDeviceName();
+  if (!name) throw new Error('Name this iPad before holding zones.');
+  return name;
+}
+
+/** Whether a hold belongs to this device. */
+export function isOwnHold(hold: ZoneHold): boolean {
+  return hold.held_by === getDeviceName();
+}
+
+export async function fetchZoneHolds(assessmentId: string): Promise<ZoneHold[]> {
+  const res = await authFetch(`${API_BASE}/api/assessments/${assessmentId}/zone-holds`);
+  if (!res.ok) throw await readError(res, 'Could not load zone holds');
+  return (await res.json()) as ZoneHold[];
+}
+
+/**
+ * Hold a zone for this device, or renew a hold it already has. Throws
+ * ZoneHeldError when another device holds it, unless `takeOver` — which the
+ * caller should only pass once the assessor has agreed to it.
+ */
+export async function holdZone(
+  assessmentId: string,
+  zoneKey: string,
+  takeOver = false,
+): Promise<ZoneHold> {
+  const res = await authFetch(
+    `${API_BASE}/api/assessments/${assessmentId}/zone-holds/${encodeURIComponent(zoneKey)}`,
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device: device(), take_over: takeOver }),
+    },
+  );
+  if (res.status === 409) {
+    const body = (await res.json()) as { hold: ZoneHold };
+    throw new ZoneHeldError(body.hold);
+  }
+  if (!res.ok) throw await readError(res, 'Could not hold zone');
+  const data = (await res.json()) as { hold: ZoneHold };
+  return data.hold;
+}
+
+/** Let go of a zone this device holds. A no-op if somebody took it over. */
+export async function releaseZone(assessmentId: string, zoneKey: string): Promise<void> {
+  const res = await authFetch(
+    `${API_BASE}/api/assessments/${assessmentId}/zone-holds/${encodeURIComponent(zoneKey)}`,
+    {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ device: device() }),
+    },
+  );
+  if (!res.ok) throw await readError(res, 'Could not release zone');
+}
@@ -1,19 +1,28 @@
-export type AssessmentStatus = 'in_progress' | 'completed' | 'synced'
-export type PropertyType =
-  | 'single_family_residential'
-  | 'townhome'
-  | 'places_of_worship'
-  | 'christian_church'
-  | 'elementary_school'
-  | 'middle_school'
-  | 'high_school'
-  | 'combined_school'
-  | 'commercial_office'
+import type {
+  Building,
+  PropertyType,
+  RecommendationStatus,
+  RecommendationStatusChange,
+  SchoolRating,
+  SiteFacts,
+} from 'cpted-checklist'
+
+/**
+ * in_progress, completed and synced are this device's to set. submitted,
+ * returned and approved are the server's: they are only ever adopted from a
+ * sync reply or a review call (services/review.ts), never set by an edit.
+ */
+export type AssessmentStatus =
+  | 'in_progress'
+  | 'completed'
+  | 'synced'
+  | 'submitted'
+  | 'returned'
+  | 'approved'
+// Property types, school ratings and zone definitions belong to the checklist
+// package the server reads too; re-exported so the app keeps one import path.
+export type { Building, PropertyType, SchoolRating, SiteFacts, ZoneDefinition, ZonePrinciple } from 'cpted-checklist'
 export type AssessmentType = 'initial' | 'follow_up' | 're_assessment'
-// School assessments use a Yes/No/UTO (Unable To Observe) checklist rating
-// instead of the 1-5 numeric scale. Stored in ItemScore.score for school
-// property types; numeric scores are used for every other property type.
-export type SchoolRating = 'yes' | 'no' | 'uto'
 export type TimeOfAssessment = 'daytime' | 'nighttime' | 'both'
 export type Priority = 'high' | 'medium' | 'low'
 export type RecommendationType = 'recommendation' | 'quick_win'
@@ -105,6 +114,12 @@ export interface Assessment {
    */
   report_signed_on?: string | null
   overall_score: number | null
+  /**
+   * Schools: percent of observable items met, 0–100 (calculateCompliance in
+   * cpted-checklist). Null for every other type, and absent on records from
+   * before it existed.
+   */
+  compliance_pct?: number | null
   top_recommendations: Recommendation[]
   quick_wins: Recommendation[]
   notes: string
@@ -114,6 +129,36 @@ export interface Assessment {
    * Absent until an assessor fills it in; the report simply omits the page.
    */
   school_profile?: SchoolProfile | null
+  /**
+   * The checklist template version this assessment was created with. It is
+   * scored, recommended from and printed against that version until an
+   * assessor upgrades it (services/template-upgrade.ts), so retiring or
+   * rewording an item never changes an assessment already walked. Absent on
+   * records written before templates were versioned, which read as 1 — the
+   * checklist as it stood then. Read it through pinnedVersion().
+   */
+  template_version?: number
+  /**
+   * Follow-ups only: the earlier assessment of the site this one returns to.
+   * Its report prints where that assessment's recommendations stand. Absent on
+   * every other type and on follow-ups created before the link existed; null
+   * once an assessor clears it.
+   */
+  follows_assessment_id?: string | null
+  /**
+   * The campus's buildings beyond the main one, each repeating some of the
+   * template's zones with its own scores and photos (services/buildings.ts).
+   * Absent or empty on a single-building site.
+   */
+  buildings?: Building[]
+  /** What the main building — the template's own zones — is called. '' = "Main Building". */
+  main_building_name?: string
+  /**
+   * The intake answers — garage? fence? parking lot? — that rule checklist
+   * items out (site-facts.ts in cpted-checklist; services/site-facts.ts).
+   * Absent on records from before the intake, which rules nothing out.
+   */
+  site_facts?: SiteFacts
   synced_at: string | null
 
   // --- Revision tracking -----------------------------------------------------
@@ -157,36 +202,158 @@ export interface Assessment {
    * synced_at already records.
    */
   last_edited_at?: string | null
+
+  // --- Supervisor review ---------------------------------------------------
+  //
+  // A mirror of the server's review state, refreshed by a pull, a sync reply
+  // or a review call. Never pushed back up as anything the server believes —
+  // see services/review.ts on the server.
+
+  submitted_at?: string | null
+  submitted_by?: string | null
+  approved_at?: string | null
+  approved_by?: string | null
+  /**
+   * The revision the supervisor approved. The report prints without DRAFT only
+   * while revision still equals this, so an edit after approval needs another.
+   */
+  approved_revision?: number | null
+  review_comments?: ReviewComment[]
+}
+
+/**
+ * A supervisor's note. Neither zone_key nor item_score_id = the whole
+ * assessment; zone only = that zone; both = that item.
+ */
+export interface ReviewComment {
+  id: string
+  assessment_id: string
+  zone_key: string | null
+  item_score_id: string | null
+  body: string
+  author_name: string
+  created_at: string
+  resolved_at: string | null
+  resolved_by: string | null
+}
+
+/**
+ * This device's copy of an assessment's content as the server last accepted
+ * it from, or handed it to, this device — the common ancestor that the
+ * three-way merge in services/merge.ts diffs both copies against. One per
+ * assessment, replaced by every successful push and every pull, so `revision`
+ * always equals the assessment's synced_revision.
+ *
+ * Photos and light-survey aerial images are left out: the merge never compares
+ * them, and keeping a second copy of the largest things on the device would
+ * only cost storage the iPads do not have to spare.
+ */
+export interface SyncBase {
+  assessment_id: string
+  revision: number
+  assessment: Assessment
+  zone_scores: ZoneScore[]
+  item_scores: ItemScore[]
+  light_surveys: LightSurvey[]
+  light_readings: LightReading[]
+  recorded_at: string
+}
+
+/** The tables a journal entry can name — those the sync payload carries. */
+export type JournalTable =
+  | 'assessments'
+  | 'zone_scores'
+  | 'item_scores'
+  | 'light_surveys'
+  | 'light_readings'
+
+/**
+ * One row an edit changed, written by touchAssessment() in the same write as
+ * the revision bump it belongs to. The journal is what lets a push send only
+ * what changed since the last sync rather than the whole assessment — see
+ * buildDelta() in services/sync.ts — and is cleared for an assessment once a
+ * push or pull has made it redundant.
+ *
+ * `fields` names the columns that changed, or is null for the whole row. For
+ * 'light_readings' the row is the survey (`row_id` is its id): readings are
+ * edited, and sent, as a set per survey.
+ */
+export interface JournalEntry {
+  /** Auto-incremented by Dexie; absent until written. */
+  seq?: number
+  assessment_id: string
+  /** The revision the edit produced. */
+  revision: number
+  table: JournalTable
+  row_id: string
+  fields: string[] | null
+  recorded_at: string
+}
+
+/**
+ * A row's own edit stamp, for team mode: two or three iPads walking one site,
+ * each scoring its own zones. The assessment-wide revision says only that
+ * something changed; this says which copy of one item, zone, photo or reading
+ * is the newer, so the merge can recombine them row by row. Same meaning as
+ * the assessment's three fields, and maintained by services/touch.ts the same
+ * way. Optional: a row written before team mode has none, and reads as
+ * revision 1 from an unidentified device.
+ */
+export interface RowRevision {
+  revision?: number
+  last_edited_by?: string | null
+  last_edited_at?: string | null
 }
 
-export interface ZoneScore {
+export interface ZoneScore extends RowRevision {
   id: string
   assessment_id: string
   zone_key: string
   zone_name: string
   zone_order: number
   average_score: number | null
+  /** Schools: percent of the zone's observable items met. See Assessment.compliance_pct. */
+  compliance_pct?: number | null
   priority_findings: string
   notes: string
   completed: boolean
 }
 
-export interface ItemScore {
+export interface ItemScore extends RowRevision {
   id: string
   assessment_id: string
   zone_key: string
   principle: string
+  // The checklist item's permanent key (ZoneItem.key) — what guidance, phase
+  // and hints are looked up by. null for a custom item, and for a row recorded
+  // before items had keys whose wording no longer matches any item; see
+  // backfillItemKeys().
+  item_key: string | null
+  // The wording as it was when the item was created — shown and printed.
   item_text: string
+  // An item the assessor added to this assessment (services/custom-items.ts)
+  // rather than one from the template: a pool gate, a drive-through ATM. It
+  // belongs to no template version, so a template migration leaves it where it
+  // is, and its wording stays the assessor's to edit. Absent = false.
+  is_custom?: boolean
+  // The assessor's own guidance for a custom item, printed and recommended from
+  // the way a template item's improvement guidance is. '' = none given.
+  custom_guidance?: string
   item_order: number
   // Numeric 1-5 for most property types; a SchoolRating string for schools.
   // null = not yet scored. is_na stays false for school items (UTO is a value).
   score: number | SchoolRating | null
   is_na: boolean
+  // Why the site-fact intake marked this item N/A ("No garage"). Set only on an
+  // N/A the intake made, so that changing the answer undoes that one and never
+  // the assessor's own. Cleared when the assessor scores the item or changes
+  // its N/A. Absent = '' = none.
+  na_reason?: string
   notes: string
   photo_ids: string[]
 }
 
-export interface Photo {
+export interface Photo extends RowRevision {
   id: string
   assessment_id: string
   item_score_id: string | null
@@ -211,6 +378,21 @@ export interface Recommendation {
   description: string
   priority: Priority
   type: RecommendationType
+  /**
+   * The item it was written for — generated from or picked off that item's
+   * row. Absent on one written by hand, and on the fencing one, which
+   * answers several items at once.
+   */
+  item_id?: string
+  /**
+   * What became of it after delivery (cpted-checklist's
+   * recommendation-status.ts). All absent on a recommendation from before
+   * tracking, which reads as open.
+   */
+  status?: RecommendationStatus
+  target_date?: string | null
+  responsible_party?: string
+  status_history?: RecommendationStatusChange[]
 }
 
 // ---------------------------------------------------------------------------
@@ -358,7 +540,7 @@ export interface CachedAerial {
   credit: string
 }
 
-export interface LightReading {
+export interface LightReading extends RowRevision {
   id: string
   survey_id: string
   assessment_id: string
@@ -375,18 +557,3 @@ export interface LightReading {
   meter_place: number | null
   source: 'imported' | 'manual'
 }
-
-// Zone definition types (for the static checklist data)
-export interface ZonePrinciple {
-  key: string
-  name: string
-  items: string[]
-}
-
-export interface ZoneDefinition {
-  key: string
-  name: string
-  order: number
-  description: string
-  principles: ZonePrinciple[]
-}
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import { VitePWA } from 'vite-plugin-pwa'
@@ -6,6 +6,11 @@ import { VitePWA } from 'vite-plugin-pwa'
 export default defineConfig({
   server: {
     host: true,
+    // cpted-checklist is linked from outside this directory; let the dev
+    // server read it.
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), '../cpted-checklist'],
+    },
   },
   plugins: [
     react(),
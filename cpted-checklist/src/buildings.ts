@@ -0,0 +1,135 @@
+import type { PropertyType, ZoneDefinition } from './types.js';
+import { isSchoolType, isWorshipType } from './data/zone-registry.js';
+
+/**
+ * Buildings: zones repeated per building on a multi-building campus — a high
+ * school's classroom wings, a church's sanctuary and its separate children's
+ * building — each copy with its own item scores, photos and zone average.
+ *
+ * The template's own zones are the main building's (and the site's, for the
+ * zones no other building repeats); every further building names the template
+ * zones it repeats. A building's copy of a zone is an ordinary zone whose key
+ * is the template zone's key with the building's id appended —
+ * `classroom_wing@b7k2p9` — so its zone_scores and item_scores rows, photos,
+ * zone holds and sync all key it apart from the original without knowing
+ * buildings exist. Only what reads the template by zone key (guidance lookups,
+ * the night-walk tagging, template migration) needs baseZoneKey().
+ */
+
+/** A building beyond the main one, as stored on the assessment. */
+export interface Building {
+  /** Short and permanent: it is part of the keys of the building's zones. */
+  id: string;
+  name: string;
+  /** The template zones this building repeats, by key, in template order. */
+  zone_keys: string[];
+}
+
+/** A zone as an assessment with buildings has it — the template's or a building's copy. */
+export interface BuildingZone extends ZoneDefinition {
+  /** The template zone's key. */
+  base_key: string;
+  /** The building whose copy this is; null for the template's own zone. */
+  building_id: string | null;
+}
+
+/** The zones of one building, for a picker, a roll-up or a report section. */
+export interface BuildingGroup {
+  building_id: string | null;
+  name: string;
+  zones: BuildingZone[];
+}
+
+const SEPARATOR = '@';
+
+/** Used for the main building until an assessor names it. */
+export const DEFAULT_MAIN_BUILDING_NAME = 'Main Building';
+
+/** Campuses that commonly have several buildings: schools and churches. */
+export function supportsBuildings(propertyType: PropertyType): boolean {
+  return isSchoolType(propertyType) || isWorshipType(propertyType);
+}
+
+/** The key of `buildingId`'s copy of the template zone `zoneKey`. */
+export function buildingZoneKey(zoneKey: string, buildingId: string): string {
+  return `${zoneKey}${SEPARATOR}${buildingId}`;
+}
+
+/** The template zone a zone key is, or is a copy of. */
+export function baseZoneKey(zoneKey: string): string {
+  const at = zoneKey.indexOf(SEPARATOR);
+  return at === -1 ? zoneKey : zoneKey.slice(0, at);
+}
+
+/** The building a zone key belongs to; null for the template's own zones. */
+export function buildingIdOf(zoneKey: string): string | null {
+  const at = zoneKey.indexOf(SEPARATOR);
+  return at === -1 ? null : zoneKey.slice(at + 1);
+}
+
+/** A fresh building id. Six base-36 characters: zone keys are limited to 50. */
+export function newBuildingId(random: () => number = Math.random): string {
+  let id = 'b';
+  for (let i = 0; i < 6; i++) id += Math.floor(random() * 36).toString(36);
+  return id;
+}
+
+/**
+ * Every zone of an assessment: the template's, in order, then each building's
+ * copies. With no buildings this is the template's zones unchanged, apart from
+ * the two BuildingZone fields. A zone that some building repeats is named with
+ * its building on both sides — "Main Building – Classroom Wing" beside
+ * "Building B – Classroom Wing" — and one that none does stays the site's.
+ */
+export function expandZones(
+  zones: ZoneDefinition[],
+  buildings: Building[] | undefined,
+  mainBuildingName?: string,
+): BuildingZone[] {
+  const list = buildings ?? [];
+  const repeated = new Set(list.flatMap((b) => b.zone_keys));
+  const main = mainBuildingName?.trim() || DEFAULT_MAIN_BUILDING_NAME;
+  const expanded: BuildingZone[] = zones.map((zone) => ({
+    ...zone,
+    name: repeated.has(zone.key) ? `${main} – ${zone.name}` : zone.name,
+    base_key: zone.key,
+    building_id: null,
+  }));
+  for (const building of list) {
+    for (const zone of zones) {
+      if (!building.zone_keys.includes(zone.key)) continue;
+      expanded.push({
+        ...zone,
+        key: buildingZoneKey(zone.key, building.id),
+        name: `${building.name} – ${zone.name}`,
+        base_key: zone.key,
+        building_id: building.id,
+      });
+    }
+  }
+  return expanded;
+}
+
+/**
+ * `zones` (from expandZones) by building: the main building and the site
+ * first, then each building in the order they were added. A building with no
+ * zones left in the template is left out.
+ */
+export function groupZonesByBuilding(
+  zones: BuildingZone[],
+  buildings: Building[] | undefined,
+  mainBuildingName?: string,
+): BuildingGroup[] {
+  const groups: BuildingGroup[] = [
+    {
+      building_id: null,
+      name: mainBuildingName?.trim() || DEFAULT_MAIN_BUILDING_NAME,
+      zones: zones.filter((z) => z.building_id === null),
+    },
+  ];
+  for (const building of buildings ?? []) {
+    const own = zones.filter((z) => z.building_id === building.id);
+    if (own.length > 0) groups.push({ building_id: building.id, name: building.name, zones: own });
+  }
+  return groups;
+}
@@ -1,7 +1,7 @@
 /**
  * CPTED Item Guidance for Christian Churches
  *
- * Maps each Christian church checklist item (by exact item_text) to:
+ * Maps each Christian church checklist item (by its key — see ZoneItem) to:
  *   - standard: What CPTED best practice expects (1-2 sentences)
  *   - improvement: Specific actionable steps the organization can take (2-3 steps)
  *
@@ -10,13 +10,13 @@
  * and Church Production Magazine CPTED guidelines.
  */
 
-import type { ItemGuidance } from './item-guidance';
+import type { ItemGuidance } from './item-guidance.js';
 
 export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 1: Property Perimeter & Parking ───
 
   [
-    'Parking lot is visible from the street and from at least one occupied building entrance',
+    'parking_lot_visible_street',
     {
       standard:
         'CPTED principles require parking areas to be observable from occupied spaces so that criminal activity is deterred by the perception of being watched.',
@@ -25,7 +25,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No dense vegetation, walls, or structures creating concealment near parking areas',
+    'no_dense_vegetation_walls',
     {
       standard:
         'Areas adjacent to parking should be free of hiding spots that could conceal an attacker or criminal activity.',
@@ -34,7 +34,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Drop-off and pick-up zones are clearly visible from interior gathering spaces',
+    'drop_off_pick_up',
     {
       standard:
         'Drop-off areas — especially those used by children, elderly, or mobility-impaired visitors — should be observable from inside the building.',
@@ -43,7 +43,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter has clear sight lines — no blind corners along property edges',
+    'perimeter_clear_sight_lines',
     {
       standard:
         'The full perimeter of the property should be observable without blind corners that could harbor loitering or concealment.',
@@ -52,7 +52,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicular entry points are limited and clearly defined (not open on all sides)',
+    'vehicular_entry_points_limited',
     {
       standard:
         'Limiting vehicle access points reduces the attack surface and makes it easier to monitor who enters the property.',
@@ -61,7 +61,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bollards or barriers protect building entrances and gathering areas from vehicle approach',
+    'bollards_barriers_protect_building',
     {
       standard:
         'Physical barriers between vehicle routes and pedestrian areas prevent vehicle-ramming attacks, which are a recognized threat to places of worship.',
@@ -70,7 +70,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot has designated visitor, staff, and accessible spaces clearly marked',
+    'parking_lot_designated_visitor',
     {
       standard:
         'Clearly marked parking designations improve traffic flow, reduce confusion, and help safety teams identify unfamiliar vehicles.',
@@ -79,7 +79,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter fencing or boundary markers control pedestrian access to the property',
+    'perimeter_fencing_boundary_markers',
     {
       standard:
         'Defined boundaries establish territorial reinforcement and channel pedestrian traffic to monitored entry points.',
@@ -88,7 +88,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property name, service times, and address clearly visible from the street',
+    'property_name_service_times',
     {
       standard:
         'Clear identification helps visitors find the property, enables emergency responders to locate the site quickly, and communicates active use.',
@@ -97,7 +97,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Signage directs visitors to main entrance and parking areas',
+    'signage_directs_visitors_main',
     {
       standard:
         'Wayfinding signage reduces confusion, channels visitors to monitored entry points, and reinforces a sense of organization.',
@@ -106,7 +106,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property boundaries are clearly defined and maintained',
+    'property_boundaries_clearly_defined',
     {
       standard:
         'Clearly defined boundaries communicate ownership and deter trespassing on church property outside of services.',
@@ -115,7 +115,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot surface is in good condition (no potholes, faded markings, debris)',
+    'parking_lot_surface_good',
     {
       standard:
         'A well-maintained parking lot communicates active ownership and care, deterring criminal activity and reducing liability.',
@@ -124,7 +124,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter landscaping is maintained and does not create hiding spots',
+    'perimeter_landscaping_maintained_does',
     {
       standard:
         'Landscaping along the property perimeter should enhance the property image without creating concealment opportunities.',
@@ -136,7 +136,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 2: Building Exterior & Grounds ───
 
   [
-    'All sides of the building are visible from parking areas, neighboring properties, or public roads',
+    'sides_building_visible_parking',
     {
       standard:
         'Every face of the building should be observable to reduce opportunities for forced entry, vandalism, or loitering in unseen areas.',
@@ -145,7 +145,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No hidden alcoves, recessed doorways, or utility areas creating concealment opportunities',
+    'no_hidden_alcoves_recessed',
     {
       standard:
         'Recessed areas and alcoves provide hiding spots for individuals with harmful intent and should be minimized or monitored.',
@@ -154,7 +154,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Playground or outdoor gathering areas are visible from interior occupied spaces',
+    'playground_outdoor_gathering_areas',
     {
       standard:
         'Outdoor areas where children play or congregants gather should be observable from inside the building for both safety and supervision.',
@@ -163,7 +163,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Outdoor event areas (courtyards, fire pits, baptistry) are visible from building interior',
+    'outdoor_event_areas_courtyards',
     {
       standard:
         'Outdoor spaces used for church events, fellowship, or baptisms should be visible from inside the building to maintain natural surveillance and enable staff to monitor activity.',
@@ -172,7 +172,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secondary and emergency exit doors are locked from outside (exit-only hardware)',
+    'secondary_emergency_exit_doors',
     {
       standard:
         'Secondary doors should allow emergency egress from inside while preventing unauthorized entry from outside.',
@@ -181,7 +181,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Utility rooms, HVAC equipment, and roof access points are secured',
+    'utility_rooms_hvac_equipment',
     {
       standard:
         'Utility and mechanical areas can be exploited for sabotage, concealment, or roof access and must be secured.',
@@ -190,7 +190,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Dumpster and storage areas are enclosed or secured and not adjacent to building entry points',
+    'dumpster_storage_areas_enclosed',
     {
       standard:
         'Dumpsters and outdoor storage near buildings create concealment and can be used to stage threats or hide contraband.',
@@ -199,7 +199,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Gas and electric utility entry points are secured and not publicly accessible',
+    'gas_electric_utility_entry',
     {
       standard:
         'Utility entry points provide potential access to critical building systems. Unsecured gas or electrical connections could be exploited for sabotage or arson.',
@@ -208,7 +208,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior playgrounds are enclosed by a sturdy fence with a restricted entry point',
+    'exterior_playgrounds_enclosed_sturdy',
     {
       standard:
         'Playground areas should have controlled access to prevent unauthorized individuals from approaching children during outdoor activities.',
@@ -217,7 +217,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Electrical panels and lighting switches are inaccessible to the public',
+    'electrical_panels_lighting_switches',
     {
       standard:
         'Public access to electrical panels or lighting controls could allow an individual to disable lighting or building systems, creating a tactical advantage during an attack.',
@@ -226,7 +226,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Building exterior communicates active use and care (no boarded windows, peeling paint, or neglect)',
+    'building_exterior_communicates_active',
     {
       standard:
         'A well-maintained exterior projects active ownership, which deters criminal targeting according to the "broken windows" theory.',
@@ -235,7 +235,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Grounds show regular maintenance and community investment',
+    'grounds_show_regular_maintenance',
     {
       standard:
         'Well-kept grounds communicate that the property is actively managed and cared for, reducing vulnerability to criminal activity.',
@@ -244,7 +244,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Building exterior is free of graffiti, vandalism, or visible damage',
+    'building_exterior_free_graffiti',
     {
       standard:
         'Visible graffiti or vandalism signals a lack of guardianship and can invite further criminal activity.',
@@ -253,7 +253,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Landscaping around the building follows the 2\'/6\' rule (shrubs under 2 ft, canopies above 6 ft)',
+    'landscaping_around_building_follows',
     {
       standard:
         'The 2\'/6\' rule eliminates concealment while maintaining attractive landscaping: shrubs trimmed below 2 feet and tree canopies raised above 6 feet.',
@@ -265,7 +265,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 3: Main Entry & Foyer/Lobby ───
 
   [
-    'Main entrance is clearly identifiable and visible from the parking area',
+    'main_entrance_clearly_identifiable',
     {
       standard:
         'The main entrance should be architecturally distinct and visible so visitors know where to enter and safety teams can focus monitoring.',
@@ -274,7 +274,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Foyer/lobby has windows or sight lines to the exterior approach',
+    'foyer_lobby_windows_sight',
     {
       standard:
         'Interior spaces near the entrance should allow occupants to see who is approaching before they enter the building.',
@@ -283,7 +283,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Greeters, welcome team, or reception staff are positioned to observe and engage all arriving visitors',
+    'greeters_welcome_team_reception',
     {
       standard:
         'Human surveillance through greeters and welcome teams is one of the most effective CPTED measures for churches — it combines observation with social engagement that can identify concerning behavior.',
@@ -292,7 +292,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Main entry doors can be locked or controlled during services (single point of entry when needed)',
+    'main_entry_doors_can',
     {
       standard:
         'During services, the ability to funnel visitors through a single monitored entrance increases security while maintaining a welcoming environment.',
@@ -301,7 +301,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Foyer or lobby creates a transitional space between outside and worship areas',
+    'foyer_lobby_creates_transitional',
     {
       standard:
         'A transitional space between the exterior and the sanctuary allows for observation, greeting, and screening before individuals enter the main worship area.',
@@ -310,7 +310,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All visitors are funneled through 1-2 well-marked entrances rather than multiple scattered access points',
+    'visitors_funneled_through_1',
     {
       standard:
         'Limiting active entry points reduces the number of locations that must be monitored and ensures all visitors pass through an observed transition zone before accessing the facility.',
@@ -319,7 +319,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor check-in or welcome center is positioned centrally near the main entrance to serve as both information point and visual deterrent',
+    'visitor_check_welcome_center',
     {
       standard:
         'A centrally positioned welcome area helps identify newcomers, provides orientation, and reinforces a culture of awareness. Its visible staffing serves as a natural deterrent to anyone with harmful intent.',
@@ -328,7 +328,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Entry area is clean, well-lit, and welcoming (good first impression)',
+    'entry_area_clean_well',
     {
       standard:
         'A clean, bright entry communicates order and active management, which deters criminal activity and reassures visitors.',
@@ -340,7 +340,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 4: Worship Center & Stage/Platform ───
 
   [
-    'Ushers or safety team members can observe all seating areas and entry points from their positions',
+    'ushers_safety_team_members',
     {
       standard:
         'Safety team members should have unobstructed sight lines across the entire worship center to detect unusual behavior or threats quickly.',
@@ -349,7 +349,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Balcony, choir loft, or elevated areas are monitored or restricted when not in use',
+    'balcony_choir_loft_elevated',
     {
       standard:
         'Elevated areas provide tactical advantage to anyone with harmful intent and must be monitored during services or locked when not in use.',
@@ -358,7 +358,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Stage/platform area is visible from multiple vantage points (no hidden approaches)',
+    'stage_platform_area_visible',
     {
       standard:
         'The stage and platform area should be open and visible to prevent concealed approach to pastors and worship leaders.',
@@ -367,7 +367,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sound booth/AV production area has clear sight lines to the stage and all entry points',
+    'sound_booth_av_production',
     {
       standard:
         'The sound booth is typically elevated and centrally positioned, making it an ideal natural surveillance point. AV operators should be able to observe the entire worship center and alert safety teams to concerns.',
@@ -376,7 +376,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Backstage and production areas are locked when unoccupied',
+    'backstage_production_areas_locked',
     {
       standard:
         'Backstage areas, green rooms, and production spaces can provide concealment and access to the stage if left unsecured.',
@@ -385,7 +385,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sound booth and AV equipment are secured (locked cabinet or restricted room)',
+    'sound_booth_av_equipment',
     {
       standard:
         'Sound and AV systems represent significant financial investment and can be exploited to cause disruption if accessed by unauthorized individuals.',
@@ -394,7 +394,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to stage/platform area can be controlled during services',
+    'access_stage_platform_area',
     {
       standard:
         'Controlling access to the stage area protects pastors and worship leaders from potential threats during services.',
@@ -403,7 +403,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Baptistry area has locked access when not in use (doors and stair access secured)',
+    'baptistry_area_locked_access',
     {
       standard:
         'Baptistry tanks present both a security concealment risk and a safety hazard (slip/fall, drowning risk for children) when not actively in use for services.',
@@ -412,7 +412,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency exits are clearly marked, unobstructed, and operable from inside',
+    'emergency_exits_clearly_marked',
     {
       standard:
         'All emergency exits must be clearly visible, free of obstructions, and usable without special knowledge — this is critical for safe evacuation.',
@@ -421,7 +421,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Evacuation plan is posted and congregation has been briefed on emergency procedures',
+    'evacuation_plan_posted_congregation',
     {
       standard:
         'An established and communicated emergency plan enables rapid, orderly evacuation and reduces panic during emergencies.',
@@ -430,7 +430,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Panic alarm is accessible from the sound/media booth and the podium/stage area',
+    'panic_alarm_accessible_sound',
     {
       standard:
         'Panic alarms in key locations enable rapid notification of law enforcement during an active threat without requiring a phone call, which may not be possible during an emergency.',
@@ -439,7 +439,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Worship center doors can be secured for lockdown during an active threat',
+    'worship_center_doors_can',
     {
       standard:
         'The ability to lock or barricade worship center doors during an active threat can delay an attacker and protect the congregation while law enforcement responds.',
@@ -451,7 +451,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 5: Fellowship, Cafe & Community Spaces ───
 
   [
-    'Fellowship hall and meeting rooms have windows or open sight lines from adjacent spaces',
+    'fellowship_hall_meeting_rooms',
     {
       standard:
         'Natural surveillance into fellowship and meeting spaces reduces the opportunity for harmful activity when groups are meeting.',
@@ -460,7 +460,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Kitchen area has a serving window or pass-through that maintains visual connection',
+    'kitchen_area_serving_window',
     {
       standard:
         'Kitchens that are visually connected to serving areas allow for natural surveillance while food is being prepared.',
@@ -469,7 +469,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cafe/bookstore area has open sight lines and is visible from staffed areas — when near the entry, supports natural surveillance of arriving visitors',
+    'cafe_bookstore_area_open',
     {
       standard:
         'Cafe and bookstore areas common in modern churches serve a dual CPTED function: they create natural gathering that populates transitional spaces, and their staff provide informal surveillance of the lobby and entry areas.',
@@ -478,7 +478,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Gymnasium/recreation areas have windows or open access points allowing visual monitoring',
+    'gymnasium_recreation_areas_windows',
     {
       standard:
         'Gymnasiums and recreation spaces are large, multi-use areas that may be used by outside groups. Visual monitoring from adjacent spaces helps maintain oversight.',
@@ -487,7 +487,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Meeting rooms can be locked when not in use',
+    'meeting_rooms_can_locked',
     {
       standard:
         'Unused rooms that remain unlocked provide concealment opportunities and increase the facility footprint that must be monitored.',
@@ -496,7 +496,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Kitchen has lockable storage for sharp objects and hazardous materials',
+    'kitchen_lockable_storage_sharp',
     {
       standard:
         'Knives, cleaning chemicals, and other potential weapons of opportunity should be secured when the kitchen is not in active use.',
@@ -505,7 +505,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior doors from fellowship spaces are alarmed or monitored',
+    'exterior_doors_fellowship_spaces',
     {
       standard:
         'Doors from fellowship areas to the exterior can become unmonitored entry points during events and should be secured or monitored.',
@@ -514,7 +514,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Gymnasium storage rooms are locked when not in use',
+    'gymnasium_storage_rooms_locked',
     {
       standard:
         'Gymnasium storage rooms contain sports equipment that could be used as improvised weapons and provide concealment space if left unsecured.',
@@ -523,7 +523,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Fellowship spaces are clean, organized, and free of clutter that could impede evacuation',
+    'fellowship_spaces_clean_organized',
     {
       standard:
         'Cluttered spaces slow evacuation, create tripping hazards, and project a lack of active management.',
@@ -532,7 +532,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency exits from fellowship areas are clearly marked and unobstructed',
+    'emergency_exits_fellowship_areas',
     {
       standard:
         'All rooms used for gatherings must have clearly marked, unobstructed emergency exits per fire code and CPTED best practices.',
@@ -544,7 +544,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 6: Children's & Youth Ministry Areas ───
 
   [
-    'Children\'s wing or area has controlled access (check-in/check-out system in place)',
+    'children_wing_area_controlled',
     {
       standard:
         'Children\'s areas require the most stringent access control — only authorized adults should be able to enter or remove a child.',
@@ -553,7 +553,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom doors have locks operable from inside and viewing windows or half-doors for supervision',
+    'classroom_doors_locks_operable',
     {
       standard:
         'Classroom doors should lock from inside for lockdown capability while allowing visual monitoring from the hallway for child safety.',
@@ -562,7 +562,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restrooms near children\'s areas are single-occupancy or supervised',
+    'restrooms_near_children_areas',
     {
       standard:
         'Restrooms are a common vulnerability in children\'s ministry — they should be single-occupancy or have adult supervision protocols.',
@@ -571,7 +571,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Only authorized personnel can access nursery and children\'s rooms',
+    'only_authorized_personnel_can',
     {
       standard:
         'Nurseries and children\'s rooms should be restricted to screened, authorized volunteers and staff at all times.',
@@ -580,7 +580,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Youth/student ministry building or wing has controlled access separate from the main facility',
+    'youth_student_ministry_building',
     {
       standard:
         'Youth areas that operate semi-independently from the main building need their own access control to prevent unauthorized entry when the main facility may be locked or unmonitored.',
@@ -589,7 +589,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Youth areas have lockdown capability independent of main building',
+    'youth_areas_lockdown_capability',
     {
       standard:
         'If the youth wing or building is separate from the main facility, it must be able to lock down independently during an active threat without relying on main building systems or personnel.',
@@ -598,7 +598,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior doors on youth building are locked from outside (exit-only) during programming',
+    'exterior_doors_youth_building',
     {
       standard:
         'During youth programming, exterior doors should only allow egress to prevent unauthorized individuals from entering through unmonitored access points.',
@@ -607,7 +607,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Hallways in children\'s and youth areas have clear sight lines with no hidden alcoves',
+    'hallways_children_youth_areas',
     {
       standard:
         'Hallways in children\'s and youth areas should be open and visible to prevent concealment or unsupervised contact between adults and minors.',
@@ -616,7 +616,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom and youth activity rooms have vision panels or windows allowing visual monitoring from hallways',
+    'classroom_youth_activity_rooms',
     {
       standard:
         'Visual transparency into classrooms and youth rooms from hallways is essential for child protection, accountability, and rapid situational awareness during emergencies.',
@@ -625,7 +625,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Youth outdoor activity areas are visible from the youth building interior',
+    'youth_outdoor_activity_areas',
     {
       standard:
         'Outdoor areas used for youth activities should be observable from inside the youth building to maintain supervision and enable rapid response to incidents.',
@@ -634,7 +634,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classrooms have lockdown capability (doors lockable from inside, window coverings available)',
+    'classrooms_lockdown_capability_doors',
     {
       standard:
         'In an active threat scenario, classrooms must be able to lock down quickly with doors secured and windows covered.',
@@ -643,7 +643,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Two-adult rule or open-door policy is practiced in children\'s and youth ministry areas',
+    'two_adult_rule_open_door',
     {
       standard:
         'The two-adult rule is a foundational child protection policy — no single adult should be alone with children or youth in an enclosed space.',
@@ -655,7 +655,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 7: Administrative & Support Areas ───
 
   [
-    'Administrative offices are locked when unoccupied',
+    'administrative_offices_locked_unoccupied',
     {
       standard:
         'Offices contain sensitive personal information, financial records, and often have computer access that should be secured when unattended.',
@@ -664,7 +664,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Financial records, offering storage, and safe are in a secured area with limited access',
+    'financial_records_offering_storage',
     {
       standard:
         'Financial areas are high-value targets. Access should be limited to authorized personnel with physical security measures in place.',
@@ -673,7 +673,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Server room or IT closet is locked and access is restricted to authorized personnel',
+    'server_room_closet_locked',
     {
       standard:
         'IT infrastructure contains sensitive data and access to networks. Physical access must be controlled.',
@@ -682,7 +682,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Office area reception or front desk has a clear view of approaching visitors',
+    'office_area_reception_front',
     {
       standard:
         'Administrative staff should be able to see who is approaching their workspace to assess visitors before granting access.',
@@ -691,7 +691,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No isolated offices without a secondary exit or line of sight to common areas',
+    'no_isolated_offices_without',
     {
       standard:
         'Staff members should not be trapped in isolated spaces with no escape route or ability to signal for help.',
@@ -700,7 +700,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Storage rooms and maintenance areas are organized and locked when not in use',
+    'storage_rooms_maintenance_areas',
     {
       standard:
         'Unlocked storage and maintenance areas provide concealment, access to tools, and potential hiding spots for threats.',
@@ -709,7 +709,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Key control system is in place (master keys tracked, locks rekeyed when staff leave)',
+    'key_control_system_place',
     {
       standard:
         'A key control system prevents unauthorized access from lost, copied, or unreturned keys — a common vulnerability in churches with high volunteer turnover.',
@@ -721,7 +721,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 8: Exterior Lighting & Surveillance ───
 
   [
-    'All building entrances have bright, working lights that illuminate visitors\' faces',
+    'building_entrances_bright_working',
     {
       standard:
         'Entrance lighting must be bright enough to identify faces from a reasonable distance, which deters crime and aids camera identification.',
@@ -730,7 +730,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot has consistent lighting with no dark gaps between fixtures',
+    'parking_lot_consistent_lighting',
     {
       standard:
         'Parking lot lighting should be uniform — dark gaps between light pools create concealment opportunities and increase vulnerability.',
@@ -739,7 +739,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Walkways between parking and building entrances are well-lit',
+    'walkways_between_parking_building',
     {
       standard:
         'The path from parking to the building is where visitors are most exposed — it must be well-lit to reduce vulnerability.',
@@ -748,7 +748,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Motion-activated lights cover vulnerable areas (rear of building, storage, utility areas)',
+    'motion_activated_lights_cover',
     {
       standard:
         'Motion-activated lighting serves as both a deterrent and an alert — sudden illumination draws attention to activity in vulnerable areas.',
@@ -757,7 +757,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior lights on photocell or timer — not solely manual switch',
+    'exterior_lights_photocell_timer',
     {
       standard:
         'Lights that depend on someone remembering to turn them on will inevitably be left off — automated controls ensure consistent operation.',
@@ -766,7 +766,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Security cameras cover parking lot, main entrance, and building perimeter',
+    'security_cameras_cover_parking',
     {
       standard:
         'A camera system provides deterrence, real-time monitoring capability, and evidence preservation for incidents.',
@@ -775,7 +775,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Camera system records continuously with adequate storage (minimum 30 days)',
+    'camera_system_records_continuously',
     {
       standard:
         'Camera footage must be stored long enough to be useful for investigations — incidents may not be discovered immediately.',
@@ -784,7 +784,7 @@ export const CHRISTIAN_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All exterior light fixtures functioning (no burned-out bulbs or damaged fixtures)',
+    'exterior_light_fixtures_functioning_no',
     {
       standard:
         'Non-functioning lights create dark spots that undermine the entire lighting plan and signal lack of maintenance.',
@@ -0,0 +1,335 @@
+import type { ZoneDefinition } from '../types.js';
+
+export const CHRISTIAN_ZONES: ZoneDefinition[] = [
+  {
+    key: 'perimeter_parking',
+    name: 'Property Perimeter & Parking',
+    order: 1,
+    description:
+      'Assess the property boundaries, signage, vehicular access, and parking areas. Evaluate how the site is perceived from the street and by visitors arriving for services.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'parking_lot_visible_street', text: 'Parking lot is visible from the street and from at least one occupied building entrance' },
+          { key: 'no_dense_vegetation_walls', text: 'No dense vegetation, walls, or structures creating concealment near parking areas' },
+          { key: 'drop_off_pick_up', text: 'Drop-off and pick-up zones are clearly visible from interior gathering spaces' },
+          { key: 'perimeter_clear_sight_lines', text: 'Perimeter has clear sight lines — no blind corners along property edges' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'vehicular_entry_points_limited', text: 'Vehicular entry points are limited and clearly defined (not open on all sides)' },
+          { key: 'bollards_barriers_protect_building', text: 'Bollards or barriers protect building entrances and gathering areas from vehicle approach' },
+          { key: 'parking_lot_designated_visitor', text: 'Parking lot has designated visitor, staff, and accessible spaces clearly marked' },
+          { key: 'perimeter_fencing_boundary_markers', text: 'Perimeter fencing or boundary markers control pedestrian access to the property' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'property_name_service_times', text: 'Property name, service times, and address clearly visible from the street' },
+          { key: 'signage_directs_visitors_main', text: 'Signage directs visitors to main entrance and parking areas' },
+          { key: 'property_boundaries_clearly_defined', text: 'Property boundaries are clearly defined and maintained' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'parking_lot_surface_good', text: 'Parking lot surface is in good condition (no potholes, faded markings, debris)' },
+          { key: 'perimeter_landscaping_maintained_does', text: 'Perimeter landscaping is maintained and does not create hiding spots' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'building_exterior',
+    name: 'Building Exterior & Grounds',
+    order: 2,
+    description:
+      'Walk the full exterior of the building. Evaluate the grounds, secondary doors, utility areas, and overall building envelope security.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'sides_building_visible_parking', text: 'All sides of the building are visible from parking areas, neighboring properties, or public roads' },
+          { key: 'no_hidden_alcoves_recessed', text: 'No hidden alcoves, recessed doorways, or utility areas creating concealment opportunities' },
+          { key: 'playground_outdoor_gathering_areas', text: 'Playground or outdoor gathering areas are visible from interior occupied spaces' },
+          { key: 'outdoor_event_areas_courtyards', text: 'Outdoor event areas (courtyards, fire pits, baptistry) are visible from building interior' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'secondary_emergency_exit_doors', text: 'Secondary and emergency exit doors are locked from outside (exit-only hardware)' },
+          { key: 'utility_rooms_hvac_equipment', text: 'Utility rooms, HVAC equipment, and roof access points are secured' },
+          { key: 'dumpster_storage_areas_enclosed', text: 'Dumpster and storage areas are enclosed or secured and not adjacent to building entry points' },
+          { key: 'gas_electric_utility_entry', text: 'Gas and electric utility entry points are secured and not publicly accessible' },
+          { key: 'exterior_playgrounds_enclosed_sturdy', text: 'Exterior playgrounds are enclosed by a sturdy fence with a restricted entry point' },
+          { key: 'electrical_panels_lighting_switches', text: 'Electrical panels and lighting switches are inaccessible to the public' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'building_exterior_communicates_active', text: 'Building exterior communicates active use and care (no boarded windows, peeling paint, or neglect)' },
+          { key: 'grounds_show_regular_maintenance', text: 'Grounds show regular maintenance and community investment' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'building_exterior_free_graffiti', text: 'Building exterior is free of graffiti, vandalism, or visible damage' },
+          { key: 'landscaping_around_building_follows', text: 'Landscaping around the building follows the 2\'/6\' rule (shrubs under 2 ft, canopies above 6 ft)' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'main_entry',
+    name: 'Main Entry & Foyer/Lobby',
+    order: 3,
+    description:
+      'Evaluate the primary entrance experience — from the approach to the greeting/reception area. This is where first impressions and initial access decisions occur.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'main_entrance_clearly_identifiable', text: 'Main entrance is clearly identifiable and visible from the parking area' },
+          { key: 'foyer_lobby_windows_sight', text: 'Foyer/lobby has windows or sight lines to the exterior approach' },
+          { key: 'greeters_welcome_team_reception', text: 'Greeters, welcome team, or reception staff are positioned to observe and engage all arriving visitors' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'main_entry_doors_can', text: 'Main entry doors can be locked or controlled during services (single point of entry when needed)' },
+          { key: 'foyer_lobby_creates_transitional', text: 'Foyer or lobby creates a transitional space between outside and worship areas' },
+          { key: 'visitors_funneled_through_1', text: 'All visitors are funneled through 1-2 well-marked entrances rather than multiple scattered access points' },
+        ],
+      },
+      {
+        key: 'activity_support',
+        name: 'Activity Support',
+        items: [
+          { key: 'visitor_check_welcome_center', text: 'Visitor check-in or welcome center is positioned centrally near the main entrance to serve as both information point and visual deterrent' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'entry_area_clean_well', text: 'Entry area is clean, well-lit, and welcoming (good first impression)' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'sanctuary',
+    name: 'Worship Center & Stage/Platform',
+    order: 4,
+    description:
+      'Assess the primary worship space for emergency preparedness, sight lines, stage/platform security, and egress.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'ushers_safety_team_members', text: 'Ushers or safety team members can observe all seating areas and entry points from their positions' },
+          { key: 'balcony_choir_loft_elevated', text: 'Balcony, choir loft, or elevated areas are monitored or restricted when not in use' },
+          { key: 'stage_platform_area_visible', text: 'Stage/platform area is visible from multiple vantage points (no hidden approaches)' },
+          { key: 'sound_booth_av_production', text: 'Sound booth/AV production area has clear sight lines to the stage and all entry points' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'backstage_production_areas_locked', text: 'Backstage and production areas are locked when unoccupied' },
+          { key: 'sound_booth_av_equipment', text: 'Sound booth and AV equipment are secured (locked cabinet or restricted room)' },
+          { key: 'access_stage_platform_area', text: 'Access to stage/platform area can be controlled during services' },
+          { key: 'baptistry_area_locked_access', text: 'Baptistry area has locked access when not in use (doors and stair access secured)' },
+        ],
+      },
+      {
+        key: 'target_hardening',
+        name: 'Target Hardening & Emergency Preparedness',
+        items: [
+          { key: 'emergency_exits_clearly_marked', text: 'Emergency exits are clearly marked, unobstructed, and operable from inside' },
+          { key: 'evacuation_plan_posted_congregation', text: 'Evacuation plan is posted and congregation has been briefed on emergency procedures' },
+          { key: 'panic_alarm_accessible_sound', text: 'Panic alarm is accessible from the sound/media booth and the podium/stage area' },
+          { key: 'worship_center_doors_can', text: 'Worship center doors can be secured for lockdown during an active threat' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'fellowship_spaces',
+    name: 'Fellowship, Cafe & Community Spaces',
+    order: 5,
+    description:
+      'Evaluate fellowship halls, kitchens, cafes, gymnasiums, and multi-purpose spaces used for community events and gatherings.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'fellowship_hall_meeting_rooms', text: 'Fellowship hall and meeting rooms have windows or open sight lines from adjacent spaces' },
+          { key: 'kitchen_area_serving_window', text: 'Kitchen area has a serving window or pass-through that maintains visual connection' },
+          { key: 'cafe_bookstore_area_open', text: 'Cafe/bookstore area has open sight lines and is visible from staffed areas — when near the entry, supports natural surveillance of arriving visitors' },
+          { key: 'gymnasium_recreation_areas_windows', text: 'Gymnasium/recreation areas have windows or open access points allowing visual monitoring' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'meeting_rooms_can_locked', text: 'Meeting rooms can be locked when not in use' },
+          { key: 'kitchen_lockable_storage_sharp', text: 'Kitchen has lockable storage for sharp objects and hazardous materials' },
+          { key: 'exterior_doors_fellowship_spaces', text: 'Exterior doors from fellowship spaces are alarmed or monitored' },
+          { key: 'gymnasium_storage_rooms_locked', text: 'Gymnasium storage rooms are locked when not in use' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'fellowship_spaces_clean_organized', text: 'Fellowship spaces are clean, organized, and free of clutter that could impede evacuation' },
+          { key: 'emergency_exits_fellowship_areas', text: 'Emergency exits from fellowship areas are clearly marked and unobstructed' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'education_children',
+    name: 'Children\'s & Youth Ministry Areas',
+    order: 6,
+    description:
+      'Children\'s and youth ministry areas, classrooms, nurseries, and student spaces require the highest level of access control and supervision. Youth wings may operate semi-independently from the main facility.',
+    principles: [
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'children_wing_area_controlled', text: 'Children\'s wing or area has controlled access (check-in/check-out system in place)' },
+          { key: 'classroom_doors_locks_operable', text: 'Classroom doors have locks operable from inside and viewing windows or half-doors for supervision' },
+          { key: 'restrooms_near_children_areas', text: 'Restrooms near children\'s areas are single-occupancy or supervised' },
+          { key: 'only_authorized_personnel_can', text: 'Only authorized personnel can access nursery and children\'s rooms' },
+          { key: 'youth_student_ministry_building', text: 'Youth/student ministry building or wing has controlled access separate from the main facility' },
+          { key: 'youth_areas_lockdown_capability', text: 'Youth areas have lockdown capability independent of main building' },
+          { key: 'exterior_doors_youth_building', text: 'Exterior doors on youth building are locked from outside (exit-only) during programming' },
+        ],
+      },
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'hallways_children_youth_areas', text: 'Hallways in children\'s and youth areas have clear sight lines with no hidden alcoves' },
+          { key: 'classroom_youth_activity_rooms', text: 'Classroom and youth activity rooms have vision panels or windows allowing visual monitoring from hallways' },
+          { key: 'youth_outdoor_activity_areas', text: 'Youth outdoor activity areas are visible from the youth building interior' },
+        ],
+      },
+      {
+        key: 'target_hardening',
+        name: 'Target Hardening',
+        items: [
+          { key: 'classrooms_lockdown_capability_doors', text: 'Classrooms have lockdown capability (doors lockable from inside, window coverings available)' },
+        ],
+      },
+      {
+        key: 'activity_support',
+        name: 'Activity Support',
+        items: [
+          { key: 'two_adult_rule_open_door', text: 'Two-adult rule or open-door policy is practiced in children\'s and youth ministry areas' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'admin_support',
+    name: 'Administrative & Support Areas',
+    order: 7,
+    description:
+      'Evaluate offices, financial areas, server/IT rooms, and maintenance spaces. These areas contain sensitive information and valuables.',
+    principles: [
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'administrative_offices_locked_unoccupied', text: 'Administrative offices are locked when unoccupied' },
+          { key: 'financial_records_offering_storage', text: 'Financial records, offering storage, and safe are in a secured area with limited access' },
+          { key: 'server_room_closet_locked', text: 'Server room or IT closet is locked and access is restricted to authorized personnel' },
+        ],
+      },
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'office_area_reception_front', text: 'Office area reception or front desk has a clear view of approaching visitors' },
+          { key: 'no_isolated_offices_without', text: 'No isolated offices without a secondary exit or line of sight to common areas' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'storage_rooms_maintenance_areas', text: 'Storage rooms and maintenance areas are organized and locked when not in use' },
+          { key: 'key_control_system_place', text: 'Key control system is in place (master keys tracked, locks rekeyed when staff leave)' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'lighting_surveillance',
+    name: 'Exterior Lighting & Surveillance',
+    order: 8,
+    description:
+      'Evaluate all exterior lighting and surveillance systems. Churches are often unoccupied for extended periods, making lighting and surveillance critical deterrents.',
+    principles: [
+      {
+        key: 'lighting',
+        name: 'Lighting Coverage',
+        items: [
+          { key: 'building_entrances_bright_working', text: 'All building entrances have bright, working lights that illuminate visitors\' faces' },
+          { key: 'parking_lot_consistent_lighting', text: 'Parking lot has consistent lighting with no dark gaps between fixtures' },
+          { key: 'walkways_between_parking_building', text: 'Walkways between parking and building entrances are well-lit' },
+          { key: 'motion_activated_lights_cover', text: 'Motion-activated lights cover vulnerable areas (rear of building, storage, utility areas)' },
+          { key: 'exterior_lights_photocell_timer', text: 'Exterior lights on photocell or timer — not solely manual switch' },
+        ],
+      },
+      {
+        key: 'surveillance',
+        name: 'Surveillance Systems',
+        items: [
+          { key: 'security_cameras_cover_parking', text: 'Security cameras cover parking lot, main entrance, and building perimeter' },
+          { key: 'camera_system_records_continuously', text: 'Camera system records continuously with adequate storage (minimum 30 days)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'exterior_light_fixtures_functioning_no', text: 'All exterior light fixtures functioning (no burned-out bulbs or damaged fixtures)' },
+        ],
+      },
+    ],
+  },
+];
+
+/** Total number of checklist items across all Christian church zones */
+export const CHRISTIAN_TOTAL_ITEM_COUNT = CHRISTIAN_ZONES.reduce(
+  (total, zone) =>
+    total + zone.principles.reduce((zoneTotal, p) => zoneTotal + p.items.length, 0),
+  0,
+);
@@ -1,7 +1,7 @@
 /**
  * CPTED Item Guidance for Commercial Office (Single-Tenant HQ)
  *
- * Maps each commercial-office checklist item (by exact item_text) to:
+ * Maps each commercial-office checklist item (by its key — see ZoneItem) to:
  *   - standard: What CPTED best practice expects (1-2 sentences)
  *   - improvement: Specific actionable steps the organization can take (2-3 steps)
  *
@@ -10,12 +10,12 @@
  * genuinely inapplicable (e.g., rooftop items when there is no rooftop access).
  */
 
-import type { ItemGuidance } from './item-guidance';
+import type { ItemGuidance } from './item-guidance.js';
 
 export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 1: Site Perimeter & Approach ───
   [
-    'The full property boundary is visible from the street or from on-site occupied positions without significant blind spots',
+    'full_property_boundary_visible',
     {
       standard:
         'CPTED requires that property boundaries be observable from occupied vantage points so that intrusions and loitering are deterred by the perception of being watched.',
@@ -24,7 +24,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Perimeter landscaping follows the CPTED 2'/6' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so sight lines are preserved",
+    'perimeter_landscaping_follows_cpted',
     {
       standard:
         "The 2'/6' rule prevents landscaping from creating concealment: shrubs stay below 2 ft so a person cannot hide behind them, and tree canopies are raised above 6 ft so they don't block sight lines or lighting.",
@@ -33,7 +33,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Remote or seldom-used edges of the property are visible from the building, internal roadways, or dedicated camera coverage',
+    'remote_seldom_used_edges',
     {
       standard:
         'Remote portions of large sites are common locations for trespass, dumping, and staging. CPTED extends surveillance to these edges through cameras, patrol routes, or building sight lines. Verified during the interior walk by reviewing camera coverage of remote edges with the security director.',
@@ -42,7 +42,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicle approach is funneled through a clearly defined primary entrance with no informal cut-throughs from adjacent parcels',
+    'vehicle_approach_funneled_through',
     {
       standard:
         'Limiting vehicle entry points reduces the attack surface and channels traffic past observable, controllable chokepoints.',
@@ -51,7 +51,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Hostile-vehicle mitigation (bollards, planters, knee-wall, or landscaped berm) protects the building face from ramming at the closest standoff approach',
+    'hostile_vehicle_mitigation_bollards',
     {
       standard:
         'FEMA 426/430 and CISA call for hostile-vehicle mitigation at the closest unobstructed vehicle approach to the building, particularly at lobby entries and ground-floor occupied areas.',
@@ -60,7 +60,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter fencing, landscape berms, or natural barriers define the property edge along all sides exposed to public roadway or adjacent property',
+    'perimeter_fencing_landscape_berms',
     {
       standard:
         'A physical or symbolic boundary signals private ownership and establishes territorial reinforcement, deterring casual trespass.',
@@ -69,7 +69,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Knox Box or equivalent first-responder access has been installed at a visible location for after-hours building entry',
+    'knox_box_equivalent_first',
     {
       standard:
         'A Knox Box provides police and fire personnel rapid keyed access to a locked building during an emergency, preventing forced-entry delays during life-safety responses.',
@@ -78,7 +78,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A monument sign or building-name signage at the primary approach establishes the property as private corporate territory',
+    'monument_sign_building_name',
     {
       standard:
         'Clear identifying signage reinforces territoriality: visitors immediately understand they are entering a defined corporate property.',
@@ -87,7 +87,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Signage at the perimeter directs visitors, deliveries, and employees to the appropriate entrances',
+    'signage_perimeter_directs_visitors',
     {
       standard:
         'Wayfinding signage reduces confusion at the perimeter and prevents unauthorized foot/vehicle traffic from drifting into restricted operational areas.',
@@ -96,7 +96,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property-line markers (fencing, hedges, walls, or pavement transitions) clearly distinguish the corporate property from public right-of-way',
+    'property_line_markers_fencing',
     {
       standard:
         'Property-line markers create the symbolic edge between public and private space, a foundational CPTED territoriality concept.',
@@ -105,7 +105,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The perimeter is free of graffiti, litter, broken fencing, and signs of neglect that would signal reduced guardianship',
+    'perimeter_free_graffiti_litter',
     {
       standard:
         "The Broken Windows principle within CPTED holds that visible signs of neglect invite further disorder. A clean, maintained perimeter signals active guardianship.",
@@ -114,7 +114,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter signage is clean, current, and free of obsolete or damaged elements',
+    'perimeter_signage_clean_current',
     {
       standard:
         'Damaged or outdated signage signals neglect and undermines the territorial message of the rest of the perimeter.',
@@ -125,7 +125,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 2: Surface Parking & Pedestrian Circulation ───
   [
-    'Parking areas are visible from occupied portions of the building (ground- or upper-floor windows, reception, or security control room)',
+    'parking_areas_visible_occupied',
     {
       standard:
         'Natural surveillance from the building deters criminal activity in the parking lot. Occupied vantage points should overlook the lot continuously. Verified during the interior walk by looking out from reception and upper-floor windows toward the lot.',
@@ -134,7 +134,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pedestrian routes from parking to building entrances are open, direct, and visible without hidden alcoves or screened approaches',
+    'pedestrian_routes_parking_building',
     {
       standard:
         'Walking routes between parked vehicles and the building should be open and observable to prevent ambush at the most vulnerable moment of the visit.',
@@ -143,7 +143,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cameras provide overlapping coverage of all parking areas with no significant blind spots between fixtures',
+    'cameras_provide_overlapping_coverage',
     {
       standard:
         'Camera coverage should overlap so that an event captured at the edge of one camera is also captured by an adjacent camera, providing redundancy and multi-angle evidence. Verified at the SOC monitor — walk between cameras and have the security director confirm you appear on each adjacent camera with overlap at the edges.',
@@ -152,7 +152,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Landscaping in and around the parking lot follows the 2'/6' rule so a person standing between vehicles is visible from a distance",
+    'landscaping_around_parking_lot',
     {
       standard:
         "Landscape islands in parking lots commonly create concealment opportunities at vehicle level. The 2'/6' rule preserves sight lines through and across the lot.",
@@ -161,7 +161,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor parking is clearly marked, located adjacent to the main entrance, and signed at the property approach',
+    'visitor_parking_clearly_marked',
     {
       standard:
         'Designated visitor parking close to the main entrance channels visitors past reception and away from operational/employee-only areas.',
@@ -170,7 +170,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Employee-only parking sections are marked with signage or pavement treatments that distinguish them from visitor parking spaces',
+    'employee_only_parking_sections',
     {
       standard:
         'Distinguishing employee from visitor parking helps security recognize unfamiliar vehicles in employee zones and reinforces territoriality.',
@@ -179,7 +179,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicle entry/exit points are clearly marked, controlled by gate or stop control where appropriate, and minimized to the operational minimum',
+    'vehicle_entry_exit_points',
     {
       standard:
         'Fewer, well-marked vehicle access points reduce the surveillance burden and channel vehicles past identifiable observation points.',
@@ -188,7 +188,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'After-hours parking is restricted, and any after-hours arrivals are observable by security staff or via monitored cameras',
+    'after_hours_parking_restricted',
     {
       standard:
         'After-hours vehicles in the lot are higher-risk than daytime traffic. CPTED requires that they be observable so legitimate arrivals can be distinguished from intruders. Verified by interviewing the security director about after-hours arrival alerts and monitoring coverage.',
@@ -197,7 +197,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking areas are lit so faces can be recognized at 25 feet, in line with IES recommended practice for parking facilities',
+    'parking_areas_lit_so',
     {
       standard:
         'IES Recommended Practice RP-20 sets minimum illuminance for parking facilities to allow face recognition — a fundamental safety and forensic-evidence requirement.',
@@ -206,7 +206,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Light fixtures are spaced for uniformity (low light-to-dark ratio) without dark gaps between poles',
+    'light_fixtures_spaced_uniformity',
     {
       standard:
         'Uniformity matters as much as brightness: bright pools with dark gaps create eye-adaptation issues and concealment opportunities between poles.',
@@ -215,7 +215,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Light fixtures are tamper- and vandal-resistant, mounted at heights that are not easily reached',
+    'light_fixtures_tamper_vandal',
     {
       standard:
         'Vandal-resistant fixtures and mounting heights protect lighting infrastructure from deliberate disabling, which is a known pre-attack indicator.',
@@ -224,7 +224,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All parking-area light fixtures are functioning, with no out, dim, or damaged units observed',
+    'parking_area_light_fixtures',
     {
       standard:
         'A single dark fixture creates a measurable concealment opportunity. Functional lighting is a deterrent only when it is reliably on.',
@@ -233,7 +233,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pedestrian walkways between parking and the building are lit continuously (not just at endpoints)',
+    'pedestrian_walkways_between_parking',
     {
       standard:
         'Continuous walkway lighting protects pedestrians at the most vulnerable point of the visit. Endpoint-only lighting leaves middle sections dark.',
@@ -242,7 +242,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Designated visitor parking spaces are reinforced by signage and pavement markings',
+    'designated_visitor_parking_spaces',
     {
       standard:
         'Combining pavement markings with overhead signage creates redundant cues that reduce visitor confusion and reinforce employee-only zones.',
@@ -251,7 +251,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Wayfinding signs guide visitors from parking to the main entry without ambiguity',
+    'wayfinding_signs_guide_visitors',
     {
       standard:
         'Clear wayfinding prevents visitors from wandering into operational areas and reinforces the main entry as the only correct path.',
@@ -260,7 +260,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The parking lot is free of abandoned vehicles, accumulated debris, broken pavement, and damaged parking spaces',
+    'parking_lot_free_abandoned',
     {
       standard:
         'Visible disorder in the lot signals reduced guardianship and invites additional disorder per Broken Windows.',
@@ -269,7 +269,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pavement markings, signs, and curb paint are maintained in legible condition',
+    'pavement_markings_signs_curb',
     {
       standard:
         'Maintained markings reinforce the active-guardianship signal and ensure that traffic flow rules remain clear to visitors and employees.',
@@ -280,7 +280,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 3: Grounds, Landscaping & Outdoor Common Areas ───
   [
-    'Outdoor break, smoking, and eating areas are visible from inside the building or from regularly traveled walkways',
+    'outdoor_break_smoking_eating',
     {
       standard:
         'Outdoor employee-gathering areas should be observable from occupied building positions so that employees feel safe and incidents are witnessed.',
@@ -289,7 +289,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Walking paths and trails are open and unobstructed by tall hedges, blind curves, or screened bench enclosures',
+    'walking_paths_trails_open',
     {
       standard:
         'Walking paths should provide visibility ahead and to the sides so users can see who they are approaching and be seen by others.',
@@ -298,7 +298,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Trash, dumpster, and recycling areas are visible from the building or from a regularly traveled vehicle route',
+    'trash_dumpster_recycling_areas',
     {
       standard:
         'Dumpster areas are common locations for dumping, dumpster diving, and bomb-staging concealment. Surveillance discourages all three.',
@@ -307,7 +307,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Landscaping along walkways, courtyards, and the building face follows the CPTED 2'/6' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so concealment is eliminated and sight lines are preserved",
+    'landscaping_along_walkways_courtyards',
     {
       standard:
         "The 2'/6' rule is the core CPTED landscape principle for natural surveillance — low shrubs and high canopies leave the 2-to-6-foot 'visibility band' clear so a person cannot hide behind plantings and so sight lines from the building, walkways, and parking are preserved.",
@@ -316,7 +316,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Designated smoking areas are positioned so smokers do not prop open exterior doors or congregate near secondary entries',
+    'designated_smoking_areas_positioned',
     {
       standard:
         'Propped doors at smoking areas are a leading cause of unauthorized entry. Designated areas should be positioned away from secondary doors.',
@@ -325,7 +325,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Dumpster enclosures are gated/locked when not in active use to prevent dumpster diving and bomb-staging concealment',
+    'dumpster_enclosures_gated_locked',
     {
       standard:
         'Locked dumpster enclosures prevent unauthorized disposal, dumpster diving for sensitive paper records, and the use of dumpsters to stage suspicious packages.',
@@ -334,7 +334,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Outdoor utility components (transformers, gas meters, HVAC condensers, irrigation backflow) are protected by enclosures, fencing, or bollards',
+    'outdoor_utility_components_transformers',
     {
       standard:
         'Exposed utility components are vulnerable to sabotage, theft of copper, and accidental damage. Physical protection is a baseline CPTED requirement.',
@@ -343,7 +343,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Outdoor common areas (courtyards, plazas, eating areas) are clearly furnished and signed as employee-use spaces, not public space',
+    'outdoor_common_areas_courtyards',
     {
       standard:
         'Outdoor common areas should be visually claimed as employee territory — through furnishing, signage, and design — to deter use by non-employees.',
@@ -352,7 +352,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Landscape design and pavement signal that the grounds are owned, maintained, and patrolled',
+    'landscape_design_pavement_signal',
     {
       standard:
         'Well-maintained landscaping and pavement signal active guardianship and deter casual misuse of the property.',
@@ -361,7 +361,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Grounds are free of graffiti, litter, broken benches/tables, and overgrown landscape',
+    'grounds_free_graffiti_litter',
     {
       standard:
         'Visible neglect on the grounds undermines the territorial message of the perimeter and parking and signals reduced guardianship.',
@@ -370,7 +370,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Trash receptacles in outdoor common areas are emptied on a regular schedule and are not overflowing',
+    'trash_receptacles_outdoor_common',
     {
       standard:
         'Overflowing trash signals neglect and creates a public-health and pest issue. Regular emptying is a basic maintenance indicator.',
@@ -379,7 +379,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Irrigation, drainage, and landscape beds are functioning and not creating standing-water or overgrowth issues',
+    'irrigation_drainage_landscape_beds',
     {
       standard:
         'Functioning irrigation and drainage prevent both visible neglect (dead landscaping) and safety issues (mosquito breeding, slip hazards).',
@@ -390,7 +390,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 4: Building Exterior & Envelope ───
   [
-    'Ground-floor windows are not obstructed by interior signs, posters, or furniture beyond the 10% / 5-ft CPTED guideline',
+    'ground_floor_windows_not',
     {
       standard:
         'CPTED guidance limits window obstruction to 10% of the glazing or 5 ft of unobstructed height so that natural surveillance into/out of the building is preserved.',
@@ -399,7 +399,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The full exterior perimeter is observable from cameras, regularly patrolled paths, or building windows with overlapping coverage',
+    'full_exterior_perimeter_observable',
     {
       standard:
         'The full building perimeter should be under continuous observation through some combination of cameras, patrols, and natural surveillance. Verified by reviewing the camera-coverage map or SOC feeds with the security director.',
@@ -408,7 +408,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Setback/hardscape around the building is open enough to deny concealed approach to ground-floor windows and doors',
+    'setback_hardscape_around_building',
     {
       standard:
         "FEMA 426 standoff and CPTED concealment principles both require open ground around the building so that an attacker cannot approach unseen.",
@@ -417,7 +417,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All secondary exterior doors are exit-only (no exterior hardware) or controlled by card reader',
+    'secondary_exterior_doors_exit',
     {
       standard:
         'Secondary doors that allow casual exterior entry undermine the controlled-entry model. They must be exit-only or credentialed.',
@@ -426,7 +426,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior doors have non-removable hinge pins or hinges that are not accessible from outside',
+    'exterior_doors_non_removable',
     {
       standard:
         'Removable exterior hinge pins are a known method of forced entry. Doors should use security hinges or interior-mounted hinges.',
@@ -435,7 +435,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior doors are equipped with deadbolts (minimum 1-inch throw) or equivalent commercial locking, with strike plates anchored into the frame',
+    'exterior_doors_equipped_deadbolts',
     {
       standard:
         'A 1-inch deadbolt throw with a frame-anchored strike plate resists most pry and kick-in attacks — the commercial CPTED door standard.',
@@ -444,7 +444,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior door closers and weather seals are in working order and the doors latch fully when released',
+    'exterior_door_closers_weather',
     {
       standard:
         'A door that does not latch fully provides no security regardless of lock quality. Closers and seals are part of the locking system.',
@@ -453,7 +453,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secondary exterior doors are alarmed (door-position contact reporting to the security panel) so any opening is detected',
+    'secondary_exterior_doors_alarmed',
     {
       standard:
         'Door-position contacts detect when a door is opened — essential for catching propped doors and after-hours forced entry. Verified at the intrusion alarm panel or SOC by confirming door-position contacts are wired and report opening events.',
@@ -462,7 +462,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Ground-floor windows that open are equipped with locks; fixed glazing is intact and not propped/blocked',
+    'ground_floor_windows_open',
     {
       standard:
         'Operable ground-floor windows are a forced-entry vector if unlocked. Fixed glazing must remain intact and unblocked to support natural surveillance.',
@@ -471,7 +471,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Roof access doors and roof hatches are locked, alarmed, and not used as informal smoking-break exits',
+    'roof_access_doors_roof',
     {
       standard:
         'Roof access provides a path to rooftop equipment, HVAC intakes, and adjacent buildings. It must be locked and alarmed. Verified by accessing the top stairwell during the interior walk and confirming alarm status at the panel.',
@@ -480,7 +480,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rooftop HVAC, communications, and mechanical equipment is protected by perimeter fencing, locked enclosures, or restricted-access roof zoning',
+    'rooftop_hvac_communications_mechanical',
     {
       standard:
         'Rooftop equipment is vulnerable to sabotage, copper theft, and intake-based chemical attacks. CISA and FEMA 426 call for physical protection.',
@@ -489,7 +489,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The primary entry is visually distinct (canopy, signage, lighting) from secondary doors so visitors are funneled to it unambiguously',
+    'primary_entry_visually_distinct',
     {
       standard:
         'The primary entry should be the most visually prominent door so visitors instinctively choose it, channeling them past reception.',
@@ -498,7 +498,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All secondary doors are signed appropriately (e.g., "Emergency Exit Only — Alarm Will Sound") to deter routine use',
+    'secondary_doors_signed_appropriately',
     {
       standard:
         'Signage at secondary doors deters routine misuse and reinforces that the primary entry is the correct path.',
@@ -507,7 +507,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All exterior building façades are lit during darkness with no dark sides of the building',
+    'exterior_building_facades_lit',
     {
       standard:
         'A single dark façade creates a concealed approach to ground-floor doors and windows. All sides should be lit during darkness.',
@@ -516,7 +516,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior door entries are lit so a person at the door can be recognized on camera and from inside',
+    'exterior_door_entries_lit',
     {
       standard:
         'Door-entry lighting allows identification of arrivals on camera and supports the reception staff in seeing who is approaching.',
@@ -525,7 +525,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Roof-edge or rooftop lighting allows after-hours patrol or maintenance access without flashlights',
+    'roof_edge_rooftop_lighting',
     {
       standard:
         "Rooftop work requires lighting both for safety and to support after-hours observability of rooftop activity.",
@@ -534,7 +534,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The building façade is free of graffiti, broken windows, and visible damage',
+    'building_facade_free_graffiti',
     {
       standard:
         'A clean façade signals active guardianship per Broken Windows. Visible damage invites further disorder.',
@@ -543,7 +543,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior signage, door hardware, and lighting fixtures are maintained and current',
+    'exterior_signage_door_hardware',
     {
       standard:
         'Maintained exterior elements project corporate professionalism and active management of the property.',
@@ -554,7 +554,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 5: Main Lobby, Reception & Visitor Management ───
   [
-    'The reception/security desk has direct sight line to the primary exterior door and the full lobby',
+    'reception_security_desk_direct',
     {
       standard:
         'Reception must see arriving visitors as they enter to identify hostile intent, intercept unauthorized entry, and greet legitimate visitors.',
@@ -563,7 +563,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Reception staff can see arriving visitors before the visitor reaches the desk (no concealed approach)',
+    'reception_staff_can_see',
     {
       standard:
         'A concealed approach to reception eliminates the staff member\'s opportunity to assess and prepare. The approach should be open and well-lit.',
@@ -572,7 +572,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The lobby is monitored by camera with recording, including coverage of the reception desk and any side doors',
+    'lobby_monitored_camera_recording',
     {
       standard:
         'Lobby camera coverage provides forensic evidence and supports duress response. Coverage should include the desk and all side doors.',
@@ -581,7 +581,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A designated customer waiting area is visible from reception and not isolated in an unstaffed alcove or back-corner seating',
+    'designated_customer_waiting_area',
     {
       standard:
         'Customers waiting for their meeting should remain in a visible, monitored area — not abandoned in a private corner — both to maintain natural surveillance of customers on premises and to deter misuse of unsupervised lobby space.',
@@ -590,7 +590,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Customer meeting rooms preserve sight line from outside (vision panel, glass wall) or are equipped with a panic/duress button so employees are not isolated during difficult conversations',
+    'customer_meeting_rooms_preserve',
     {
       standard:
         'Employees meeting alone with potentially upset customers should not be sealed in an unobservable room without duress capability. Insurance customer interactions (claim denials, premium disputes, coverage refusals) are a documented workplace-violence vector, and either external visibility or a panic button mitigates the isolation risk.',
@@ -599,7 +599,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A vestibule or transaction barrier separates the public lobby from the employee-controlled portion of the building',
+    'vestibule_transaction_barrier_separates',
     {
       standard:
         'A physical separation (vestibule, ballistic-rated barrier, or controlled door) creates a hard line between public and employee space — a foundational defensive layer.',
@@ -608,7 +608,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All visitors check in at reception and are issued a visitor badge before entering the controlled portion of the building',
+    'visitors_check_reception_issued',
     {
       standard:
         'Universal visitor check-in is the keystone of the visitor management program. Without it, the rest of the visitor controls are unenforceable.',
@@ -617,7 +617,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Reception distinguishes customer visitors from vendor/contractor sign-ins so each is routed and badged appropriately',
+    'reception_distinguishes_customer_visitors',
     {
       standard:
         'Customers, vendors, and contractors arrive for different purposes and need to be routed and badged differently — customer to host/waiting area, vendor to dock or destination room, contractor with escort. Distinguishing them at sign-in supports correct handling and forensic review.',
@@ -626,7 +626,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor badges are visually distinct from employee badges and use a self-expiring or dated mechanism so reuse is detected',
+    'visitor_badges_visually_distinct',
     {
       standard:
         'Distinct, dated visitor badges prevent tailgating and badge reuse. Self-expiring badges (color-change after 24 hours) are best practice.',
@@ -635,7 +635,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitors are escorted by a host employee, or are routed through a reception-controlled door, before entering office floors',
+    'visitors_escorted_host_employee',
     {
       standard:
         'Visitors should not be in employee space unescorted. Either an employee escort or a reception-controlled routing prevents wandering.',
@@ -644,7 +644,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A panic alarm or duress button is present at the reception desk and tested on a known schedule',
+    'panic_alarm_duress_button',
     {
       standard:
         'A duress button at reception is critical for rapid LE response to an active threat at the building\'s most exposed staffed position.',
@@ -653,7 +653,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The transition door from lobby to employee space is controlled by card reader, not propped, and re-locks reliably',
+    'transition_door_lobby_employee',
     {
       standard:
         'The lobby-to-employee transition door is a critical defensive layer. It must be card-controlled, never propped, and reliably re-locking.',
@@ -662,7 +662,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A clearly posted visitor policy or sign-in expectation is visible to arriving visitors',
+    'clearly_posted_visitor_policy',
     {
       standard:
         'Posted visitor expectations reinforce compliance and reduce friction when reception enforces the policy.',
@@ -671,7 +671,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Reception's location, signage, and orientation make it obvious that all visitors must check in before proceeding",
+    'reception_location_signage_orientation',
     {
       standard:
         "Reception should be unavoidable: the desk's position, signage, and lobby layout should funnel every visitor past it.",
@@ -680,7 +680,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Reception staff have a workstation view (or shared monitor) of relevant exterior and lobby cameras',
+    'reception_staff_workstation_view',
     {
       standard:
         'Reception is positioned to act on what they see. Camera feeds at the desk extend their visual range to the exterior and lobby corners.',
@@ -689,7 +689,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The visitor management system (paper log or software) captures visitor name, host, time in/out, and badge number',
+    'visitor_management_system_paper',
     {
       standard:
         'A complete visitor record supports incident investigation, contact tracing, and audit. Software systems add photo and pre-registration capability.',
@@ -698,7 +698,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The lobby is well-maintained, brightly lit, and projects a controlled, professional image consistent with corporate ownership',
+    'lobby_well_maintained_brightly',
     {
       standard:
         'Lobby presentation is the building\'s territorial statement: a maintained, professional lobby signals active guardianship throughout.',
@@ -709,7 +709,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 6: Loading Dock, Mailroom & Service Entries ───
   [
-    'The loading dock is visible from a regularly staffed position, security camera, or both at all times of dock operation',
+    'loading_dock_visible_regularly',
     {
       standard:
         'The loading dock is the highest-volume non-visitor entry. Constant surveillance is required to prevent unauthorized entry and to verify deliveries. Verified by asking the dock supervisor about their sight line and reviewing the dock camera feed at the SOC.',
@@ -718,7 +718,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mailroom intake is observable from another staffed area or by camera covering the receiving counter',
+    'mailroom_intake_observable_another',
     {
       standard:
         'Mail intake is a high-risk point for suspicious packages and prohibited items. Surveillance supports both detection and forensic review.',
@@ -727,7 +727,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The exterior approach to the loading dock is camera-covered with continuous recording',
+    'exterior_approach_loading_dock',
     {
       standard:
         'Exterior dock camera coverage captures vehicle approaches, license plates, and the identity of arriving drivers — supporting incident response and audit. Verified at the SOC monitor by confirming the dock-approach camera is recording and captures license plates clearly.',
@@ -736,7 +736,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The loading dock overhead door and any pedestrian door are kept closed and locked when not actively in use',
+    'loading_dock_overhead_door',
     {
       standard:
         'An open or unlocked dock door is an invitation for unauthorized entry. Doors should be closed and locked between active deliveries.',
@@ -745,7 +745,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vendors, delivery drivers, and contractors check in at the dock or at reception and are issued a temporary badge before entering the building',
+    'vendors_delivery_drivers_contractors',
     {
       standard:
         'Vendors and contractors entering the building must be processed through the same identity verification as visitors — not waved through informally. Verified by reviewing the dock check-in log and interviewing the dock supervisor about the vendor protocol.',
@@ -754,7 +754,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The mailroom has dedicated access control (card reader or staffed sign-in) separating it from the rest of the office space',
+    'mailroom_dedicated_access_control',
     {
       standard:
         'The mailroom is a contained high-risk zone. Access control prevents the suspicious-package issue from spreading and limits insider access to mail.',
@@ -763,7 +763,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A documented suspicious-package protocol (tell-tale signs, isolation procedure, 911 escalation) is posted in or near the mailroom',
+    'documented_suspicious_package_protocol',
     {
       standard:
         'GSA Mail Center Security Guide and ISC Best Practices require a written, posted protocol for handling suspicious packages — the difference between safe isolation and panic.',
@@ -772,7 +772,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Service entries (janitor, vendor, contractor doors) are alarmed, exit-only or card-controlled, and not propped during business hours',
+    'service_entries_janitor_vendor',
     {
       standard:
         'Service entries are common informal entry paths. They must be controlled with the same rigor as the primary entry. Verified at the alarm panel for armed status; door hardware (exit-only / card reader) inspected up close during the interior walk.',
@@ -781,7 +781,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mail and packages are screened (visual inspection at minimum; X-ray, K9, or vendor-screening service if higher tier) before distribution into the building',
+    'mail_packages_screened_visual',
     {
       standard:
         'Screening is the primary defense against improvised explosive devices, chemical-biological packages, and prohibited items entering the building.',
@@ -790,7 +790,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "The mailroom HVAC is isolated from, or capable of being isolated from, the building's central air handling in the event of a suspicious substance release",
+    'mailroom_hvac_isolated_capable',
     {
       standard:
         'HVAC isolation prevents a suspicious-substance release in the mailroom from contaminating the entire building — an ISC mail-screening best practice.',
@@ -799,7 +799,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A package-receiving log records inbound deliveries, sender, and recipient for accountability',
+    'package_receiving_log_records',
     {
       standard:
         'A receiving log supports incident investigation, internal accountability for high-value shipments, and the ability to reconstruct delivery streams.',
@@ -808,7 +808,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The loading-dock area is signed as "Authorized Personnel Only — Deliveries Only" so unauthorized foot traffic is deterred',
+    'loading_dock_area_signed',
     {
       standard:
         'Signage reinforces the territorial message that the dock is operationally restricted, not a casual entry path.',
@@ -817,7 +817,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The dock and mailroom are clean, organized, and free of accumulated packaging, prop-open wedges, and unsecured tools',
+    'dock_mailroom_clean_organized',
     {
       standard:
         'A maintained dock and mailroom signal disciplined operations. Accumulated packaging creates concealment and fire-load risk; prop-open wedges defeat door control.',
@@ -828,7 +828,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 7: Vertical Circulation ───
   [
-    'Elevator interiors are camera-covered with recording',
+    'elevator_interiors_camera_covered',
     {
       standard:
         'Elevator camera coverage provides forensic evidence for incidents in a confined space where the victim cannot escape and witnesses are absent.',
@@ -837,7 +837,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Stairwells are camera-covered at landings or have alarmed door contacts so unauthorized travel is detected',
+    'stairwells_camera_covered_landings',
     {
       standard:
         'Stairwells provide a private vertical path. Coverage at landings or door-position alarms detects unauthorized travel between floors.',
@@ -846,7 +846,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Floor lobbies (elevator vestibules on each floor) are visible from a regularly occupied position on that floor',
+    'floor_lobbies_elevator_vestibules',
     {
       standard:
         'Floor lobbies are the arrival point on each floor. Visibility from an occupied position deters tailgating and unauthorized arrival.',
@@ -855,7 +855,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Elevator floor selection requires a credential after hours (or all-times for restricted floors), so unauthenticated travel is blocked',
+    'elevator_floor_selection_requires',
     {
       standard:
         'Credential-based floor selection prevents unauthenticated travel to specific floors, which is essential for restricted floors and after-hours access.',
@@ -864,7 +864,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Stairwell doors permit free egress (life-safety code) but re-entry from the stairwell to office floors is controlled by card reader',
+    'stairwell_doors_permit_free',
     {
       standard:
         'Life-safety code requires free egress, but uncontrolled re-entry from stairwells defeats access control. Card-reader re-entry resolves both.',
@@ -873,7 +873,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Stairwell re-entry is permitted on at least every fourth floor and on the floor of discharge, in line with code, so occupants are never trapped in a stairwell',
+    'stairwell_re_entry_permitted',
     {
       standard:
         'IBC requires stairwell re-entry on at least every fourth floor and on the floor of discharge so occupants are never trapped during evacuation or shelter-in-place reversal.',
@@ -882,7 +882,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The path from the stairwell discharge to the exterior exit door is unobstructed and well lit',
+    'path_stairwell_discharge_exterior',
     {
       standard:
         'The stairwell-to-exit path is the last segment of evacuation. Obstructions or poor lighting create injury and panic risk at the most critical moment.',
@@ -891,7 +891,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Roof access from the top stairwell is locked, alarmed, and signed as restricted',
+    'roof_access_top_stairwell',
     {
       standard:
         'Top-stairwell roof access is a common informal exit and a route to rooftop equipment. It must be controlled with the same rigor as exterior doors.',
@@ -900,7 +900,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All stairwells are lit at code-required levels with no out or dim fixtures',
+    'stairwells_lit_code_required',
     {
       standard:
         'Stairwell lighting at code-required levels (typically 10 foot-candles on the walking surface, with emergency backup) is essential for evacuation safety.',
@@ -909,7 +909,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Floor lobbies and elevator vestibules are lit to recognize faces on camera',
+    'floor_lobbies_elevator_vestibules_lit',
     {
       standard:
         'Lighting in floor lobbies supports facial recognition on the elevator-vestibule camera, which is the arrival capture point on each floor.',
@@ -918,7 +918,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Stairwells are free of stored materials, propped doors, and accumulated trash',
+    'stairwells_free_stored_materials',
     {
       standard:
         'Stored materials in stairwells violate fire code, obstruct evacuation, and signal reduced guardianship.',
@@ -927,7 +927,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Elevator cab interiors are clean, undamaged, and free of graffiti',
+    'elevator_cab_interiors_clean',
     {
       standard:
         'Elevator cab condition is a visible territorial-maintenance indicator. Damaged or graffitied cabs signal disorder per Broken Windows.',
@@ -938,7 +938,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 8: Office Floors & Workstations ───
   [
-    'Workstation layout preserves sight lines across the open floor plan rather than creating hidden alcoves or screened workstations',
+    'workstation_layout_preserves_sight',
     {
       standard:
         'Open sight lines across the floor enable natural surveillance among employees — the second-generation CPTED principle of mutual observation.',
@@ -947,7 +947,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Conference rooms with glass walls or interior windows allow casual observation of activity from circulation paths',
+    'conference_rooms_glass_walls',
     {
       standard:
         'Glass-walled conference rooms support casual surveillance from circulation paths — discouraging misuse while preserving meeting privacy through audio isolation.',
@@ -956,7 +956,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cubicle and partition heights do not exceed five feet in primary work areas, in line with CPTED office surveillance guidance',
+    'cubicle_partition_heights_do',
     {
       standard:
         'Partition heights above 5 ft create concealment opportunities and defeat natural surveillance among co-workers — a Threshold Security CPTED office checklist item.',
@@ -965,7 +965,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Executive suite, executive assistant area, or C-suite floor is separated from general office space by access control',
+    'executive_suite_executive_assistant',
     {
       standard:
         'Executive areas are higher-target environments (data, decision-making, public profile). Access control separates them from general office traffic.',
@@ -974,7 +974,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Conference rooms used for sensitive discussions are lockable when in use',
+    'conference_rooms_used_sensitive',
     {
       standard:
         'Lockable conference rooms allow privacy during HR, legal, board, or M&A discussions — essential for confidentiality and reducing eavesdropping risk.',
@@ -983,7 +983,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Print/copy rooms with multifunction devices that handle sensitive documents are positioned in low-foot-traffic locations with reasonable visibility',
+    'print_copy_rooms_multifunction',
     {
       standard:
         'Multifunction devices handle sensitive prints. Positioning them in low-traffic but visible locations balances privacy with surveillance of devices and pickup areas.',
@@ -992,7 +992,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Employee badging policy requires badges to be worn visibly while on the floor',
+    'employee_badging_policy_requires',
     {
       standard:
         'Visible badging supports employee challenge of unfamiliar persons — the foundation of employee-driven natural surveillance.',
@@ -1001,7 +1001,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Floor signage and wayfinding establish departmental identity (e.g., "Claims Operations — Floor 3") so visitors understand whose territory they have entered',
+    'floor_signage_wayfinding_establish',
     {
       standard:
         'Departmental identity signage reinforces territoriality on each floor, signaling to visitors that they have arrived in a defined operational space.',
@@ -1010,7 +1010,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Executive and restricted floors are signed and visually treated to reinforce that the space is access-controlled',
+    'executive_restricted_floors_signed',
     {
       standard:
         'Visual cues at restricted floors deter casual misuse and signal that access control is enforced.',
@@ -1019,7 +1019,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A clean-desk practice is in effect for sensitive paper records (claims, PII, HR) at end of day',
+    'clean_desk_practice_effect',
     {
       standard:
         'Clean-desk practice prevents after-hours exposure of PII, claim documents, and other sensitive records to janitorial staff and unauthorized observers.',
@@ -1028,7 +1028,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Workstations are configured so that screens displaying confidential information are not visible from public corridors or windows',
+    'workstations_configured_so_screens',
     {
       standard:
         'Screen visibility from corridors and windows is a passive PII-disclosure risk. Workstation orientation should mitigate this.',
@@ -1037,7 +1037,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Employees know how to challenge or report a person on the floor without a visible badge',
+    'employees_know_how_challenge',
     {
       standard:
         "Employee challenge of unfamiliar persons is the most effective informal access control — but only if employees are trained and authorized to do it.",
@@ -1046,7 +1046,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Office floors are clean, well-maintained, and project a controlled corporate image consistent with the lobby presentation',
+    'office_floors_clean_well',
     {
       standard:
         'Floor presentation reinforces the territoriality established in the lobby. Disrepair on the floors undermines the message.',
@@ -1057,7 +1057,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 9: Critical & Restricted Areas ───
   [
-    'Doors to critical rooms are visible from a regularly staffed position or are camera-covered',
+    'doors_critical_rooms_visible',
     {
       standard:
         'Critical-room doors should be observable so unauthorized access attempts are detected and logged in real time.',
@@ -1066,7 +1066,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Activity in or around mechanical/electrical/utility rooms is observable from corridors rather than from unmonitored hallway dead-ends',
+    'activity_around_mechanical_electrical',
     {
       standard:
         'Mechanical rooms placed at unmonitored dead-ends create concealed approach. Visibility from a circulation path deters tampering.',
@@ -1075,7 +1075,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The server room / data center has access control with audit logging (card reader at minimum; biometric where the data sensitivity warrants it)',
+    'server_room_data_center',
     {
       standard:
         'Server room access logging is essential for insider-threat detection and incident investigation. Biometric or two-factor adds non-repudiation for high-sensitivity data.',
@@ -1084,7 +1084,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Main and floor-level telecom/network closets (often labeled MDF and IDF) are locked at all times and access is limited to IT and authorized vendors',
+    'main_floor_level_telecom',
     {
       standard:
         'MDF/IDF closets contain the network and telecom backbone. Compromise enables eavesdropping, tapping, and lateral attacks on the network.',
@@ -1093,7 +1093,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'HR records, claim files, and other PII storage areas are behind access-controlled doors with key or badge logging',
+    'hr_records_claim_files',
     {
       standard:
         'PII storage areas require access control with audit logging to meet privacy-law requirements (GDPR, CCPA, state insurance regs) and to support incident response.',
@@ -1102,7 +1102,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mechanical, electrical, and elevator-equipment rooms are locked and signed as restricted',
+    'mechanical_electrical_elevator_equipment',
     {
       standard:
         'Mechanical and electrical rooms control building life-safety and operations. Unauthorized access enables sabotage, theft of copper, and accidental tampering.',
@@ -1111,7 +1111,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The water service entry, fire-pump room, and any chemical or fuel storage areas are locked and signed',
+    'water_service_entry_fire',
     {
       standard:
         'Water, fire-pump, and chemical-storage areas are sabotage targets. Locking and signage are the baseline CPTED requirement.',
@@ -1120,7 +1120,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The emergency generator and fuel storage are protected by perimeter fencing, locked enclosure, or restricted-access yard',
+    'emergency_generator_fuel_storage',
     {
       standard:
         'Generator and fuel storage are critical-asset targets. Protection by fencing, enclosure, or restricted yard is a baseline FEMA 426 / CPTED requirement.',
@@ -1129,7 +1129,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Server room and telecom/network closets (MDF and IDF rooms) are camera-covered with recording',
+    'server_room_telecom_network',
     {
       standard:
         'Camera coverage of server rooms supports insider-threat investigation and provides accountability for vendor and IT staff visits.',
@@ -1138,7 +1138,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Door-position contacts on critical rooms report to the security alarm panel and trigger after-hours alerts',
+    'door_position_contacts_critical',
     {
       standard:
         'Door-position contacts on critical rooms detect unauthorized after-hours access and trigger immediate alerts — essential for insider-threat detection.',
@@ -1147,7 +1147,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access logs for critical rooms are reviewed on a defined cadence (the security director can describe the cadence and reviewer)',
+    'access_logs_critical_rooms',
     {
       standard:
         'Access logs only have value if reviewed. CISA insider-threat guidance calls for defined review cadence and a named reviewer.',
@@ -1156,7 +1156,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Critical rooms are kept clean and free of stored unrelated materials that would obscure equipment or block egress',
+    'critical_rooms_kept_clean',
     {
       standard:
         'Stored materials in critical rooms create fire-load, equipment-obscuring, and egress-blocking issues — all of which compound the consequences of an incident.',
@@ -1165,7 +1165,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restricted-area signage is current, legible, and free of damage',
+    'restricted_area_signage_current',
     {
       standard:
         "Signage reinforces the territorial restriction and provides legal notice — both important if access is challenged or contested.",
@@ -1176,7 +1176,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 10: Building Systems & Security Technology ───
   [
-    'The access control system is unified across the entire building (single-tenant context — one platform, one credential per employee)',
+    'access_control_system_unified',
     {
       standard:
         'A unified access control platform supports consistent policy enforcement, centralized audit, and reliable revocation across the full building.',
@@ -1185,7 +1185,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The access control system can immediately disable a credential and the security director can describe the revocation workflow',
+    'access_control_system_can',
     {
       standard:
         'Rapid credential revocation is critical at termination, badge loss, and threat-actor identification. The workflow should be documented and tested.',
@@ -1194,7 +1194,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Camera footage is retained for at least 30 days (90 days preferred per CPTED office guidance)',
+    'camera_footage_retained_least',
     {
       standard:
         'CPTED office guidance and Threshold Security recommend 30-day retention minimum, 90-day preferred — long enough to support most incident investigations.',
@@ -1203,7 +1203,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cameras are positioned and resolved to support facial recognition at intended distances; non-working cameras have been repaired or removed',
+    'cameras_positioned_resolved_support',
     {
       standard:
         'A non-working or inadequately resolved camera is worse than no camera — it conveys false assurance. Cameras must be positioned and resolved for their intended forensic purpose.',
@@ -1212,7 +1212,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The intrusion alarm system is monitored 24/7 (in-house SOC or central station) and the monitoring contract is current',
+    'intrusion_alarm_system_monitored',
     {
       standard:
         'Monitored intrusion alarms ensure incidents trigger response. Unmonitored alarms only annoy adjacent occupants.',
@@ -1221,7 +1221,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A mass notification system is in place that can reach all building occupants (intercom/PA, SMS, desktop alerts, or combination) and has been tested within the last 12 months',
+    'mass_notification_system_place',
     {
       standard:
         'CISA Active Shooter and NFPA 730 require mass notification capability covering the full occupant population — essential for fire, severe weather, and active-threat events.',
@@ -1230,7 +1230,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The security system is integrated with fire/life-safety such that fire alarm activation releases fail-safe doors and elevators recall in line with code',
+    'security_system_integrated_fire',
     {
       standard:
         "IBC and NFPA 72 require fire-alarm integration with access control and elevator recall. This is both a code requirement and an evacuation-life-safety requirement.",
@@ -1239,7 +1239,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A documented panic-alarm capability exists at reception, executive areas, and HR with a tested response protocol',
+    'documented_panic_alarm_capability',
     {
       standard:
         'Panic alarms at high-risk positions (reception, executive, HR) enable silent activation and rapid LE response — critical for active threat and confrontation incidents.',
@@ -1248,7 +1248,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Security technology (cameras, readers, alarm panels, mass-notification devices) shows no visible damage, missing covers, or out-of-service indicators',
+    'security_technology_cameras_readers',
     {
       standard:
         'Visible damage or out-of-service indicators on security technology undermine the deterrent value and signal reduced guardianship.',
@@ -1257,7 +1257,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Documentation, drawings, and credentials lists are current and reviewed on a stated cadence',
+    'documentation_drawings_credentials_lists',
     {
       standard:
         'Security documentation supports incident response, audit, and continuity. Outdated documentation degrades response quality.',
@@ -1268,7 +1268,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 11: Workplace Violence & Active-Threat Readiness ───
   [
-    'A documented Workplace Violence Prevention policy exists and is communicated to all employees on hire and at a defined refresher cadence',
+    'documented_workplace_violence_prevention',
     {
       standard:
         'ASIS WVPI AA-2020 requires a documented Workplace Violence Prevention policy as the foundation of the program. It must be communicated to employees on hire and at refresher.',
@@ -1277,7 +1277,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A multidisciplinary Threat Assessment Team (security, HR, legal, mental-health resource, LE liaison) is in place and meets on a defined cadence to review concerning behavior reports',
+    'multidisciplinary_threat_assessment_team',
     {
       standard:
         'A multidisciplinary Threat Assessment Team is best practice (CISA BTAM in Practice, FBI LEB) for evaluating concerning behavior reports before they escalate.',
@@ -1286,7 +1286,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A confidential employee-reporting channel exists for threats, intimidation, and concerning behavior, and employees know how to use it',
+    'confidential_employee_reporting_channel',
     {
       standard:
         'A confidential reporting channel surfaces concerning behavior before incidents. Without it, warnings go undetected.',
@@ -1295,7 +1295,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pre-employment screening and a documented termination protocol (badge return, escort, threat assessment for high-risk separations) are in place',
+    'pre_employment_screening_documented',
     {
       standard:
         'Pre-employment screening reduces hiring risk. A documented termination protocol — especially for high-risk separations — reduces revenge-violence and IP-loss risk.',
@@ -1304,7 +1304,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Customer-facing staff (claims, policy service, reception) have received de-escalation and hostile-customer response training within the last 24 months',
+    'customer_facing_staff_claims',
     {
       standard:
         'Customer-facing roles in insurance are the most exposed to hostile-customer behavior (denied claims, premium disputes, coverage refusals). Periodic de-escalation training reduces incident escalation and aligns with ASIS WVPI AA-2020 program expectations for high-exposure roles.',
@@ -1313,7 +1313,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A written Emergency Action Plan (EAP) covering fire, severe weather, medical, bomb threat, and active assailant is current and accessible to floor wardens',
+    'written_emergency_action_plan',
     {
       standard:
         'OSHA 1910.38 requires a written EAP. CISA and ASIS extend the scope to active assailant. The plan must be current and accessible to those who execute it.',
@@ -1322,7 +1322,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Run-Hide-Fight (or equivalent ALICE-style) training has been delivered to all employees within the last 24 months',
+    'run_hide_fight_equivalent',
     {
       standard:
         'CISA Active Shooter Preparedness Guide requires regular Run-Hide-Fight (or equivalent) training. Employee response is the most consequential factor in active-threat survival.',
@@ -1331,7 +1331,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lockdown drills have been conducted within the last 12 months and after-action notes are retained',
+    'lockdown_drills_conducted_within',
     {
       standard:
         'Drills reveal infrastructure gaps and reinforce employee response. Annual minimum, with after-action notes, is the operational standard.',
@@ -1340,7 +1340,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Floor wardens or a building emergency-response team are designated, named, and trained, with backups identified for absences',
+    'floor_wardens_building_emergency',
     {
       standard:
         'Floor wardens execute the EAP at the local level. Named, trained wardens with backups ensure coverage during absences.',
@@ -1349,7 +1349,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Designated assembly/rally points (and inclement-weather alternates) are identified for evacuation accountability',
+    'designated_assembly_rally_points',
     {
       standard:
         'Assembly points support employee accountability after evacuation — critical for verifying everyone got out and identifying anyone still inside.',
@@ -1358,7 +1358,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The building has a tested capability to immediately lock all access-controlled doors and disable card readers on command (lockdown card or SOC console)',
+    'building_tested_capability_immediately',
     {
       standard:
         'Immediate-lockdown capability allows the SOC or designated authority to lock down the building in seconds — critical during active threats originating outside.',
@@ -1367,7 +1367,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'The building has a tested capability to immediately stop elevators at the next floor so they do not recall to the lobby during an active threat',
+    'building_tested_capability_immediately_stop',
     {
       standard:
         'During an active threat, elevators recalling to the lobby delivers fresh victims. Active-threat elevator stop is a Kastle-recommended capability.',
@@ -1376,7 +1376,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Designated rooms or floors have lockable interior doors so occupants can shelter in place, and employees know which rooms qualify',
+    'designated_rooms_floors_lockable',
     {
       standard:
         'Shelter-in-place capability is a key Run-Hide-Fight element. Rooms with interior locks and full walls qualify; cubicles do not.',
@@ -1385,7 +1385,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mass notification devices (PA, desktop alert, SMS) reach all areas of the building including stairwells, restrooms, and parking; coverage has been verified by drill',
+    'mass_notification_devices_pa',
     {
       standard:
         'Mass notification must reach occupants in stairwells, restrooms, and parking — common locations during active threats. Coverage verified only by drill.',
@@ -1394,7 +1394,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Floor plans, riser diagrams, and access credentials/keys are pre-staged for delivery to law enforcement during an incident (e.g., Knox Box, lobby lockbox, or pre-arranged digital share)',
+    'floor_plans_riser_diagrams',
     {
       standard:
         "CISA and LE best practice call for pre-staging floor plans, riser diagrams, and credentials so responding officers can navigate and access immediately on arrival.",
@@ -1403,7 +1403,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "The security director has a documented coordination point of contact with the Volusia Sheriff's Office (or local LE) and has hosted a familiarization walkthrough within the last 24 months",
+    'security_director_documented_coordination',
     {
       standard:
         'LE familiarization walkthroughs ensure responding officers know the building before incidents. CISA recommends every 24 months minimum.',
@@ -1412,7 +1412,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mass notification, panic alarm, and lockdown systems are tested on a documented schedule and test logs are retained',
+    'mass_notification_panic_alarm',
     {
       standard:
         'Active-threat systems only work if they work. Tested and logged maintenance is required for both reliability and audit.',
@@ -1421,7 +1421,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'EAP documents, evacuation maps, and rally-point signage on every floor are current and legible',
+    'eap_documents_evacuation_maps',
     {
       standard:
         'Evacuation maps and rally-point signage are last-mile guidance during emergencies. They must be current, legible, and visible on every floor.',
@@ -1430,7 +1430,7 @@ export const COMMERCIAL_OFFICE_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Post-incident response resources (EAP, victim assistance contacts, employee assistance program, business continuity playbook) are documented and assigned to a named owner',
+    'post_incident_response_resources',
     {
       standard:
         'Post-incident response is as important as prevention. Documented resources with named owners ensure rapid activation when needed.',
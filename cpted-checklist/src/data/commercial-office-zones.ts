@@ -0,0 +1,559 @@
+import type { ZoneDefinition } from '../types.js';
+
+/**
+ * Commercial Office (single-tenant HQ) — 11 zones, 152 items
+ * Sourced from research draft (files(1)/commercial_office_research_draft.md, v1).
+ * Voice follows Volusia Sheriff CPTED format: declarative, observable, single-sentence.
+ */
+export const COMMERCIAL_OFFICE_ZONES: ZoneDefinition[] = [
+  {
+    key: 'site_perimeter',
+    name: 'Site Perimeter & Approach',
+    order: 1,
+    description:
+      "Begin the walkthrough at the property line. Evaluate how the site presents to approaching vehicles and pedestrians, the standoff distance between any public road and the building, and the perimeter's ability to deter both ramming and unauthorized foot entry. Set the territorial tone for the rest of the assessment here.",
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'full_property_boundary_visible', text: 'The full property boundary is visible from the street or from on-site occupied positions without significant blind spots' },
+          { key: 'perimeter_landscaping_follows_cpted', text: "Perimeter landscaping follows the CPTED 2'/6' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so sight lines are preserved" },
+          { key: 'remote_seldom_used_edges', text: 'Remote or seldom-used edges of the property are visible from the building, internal roadways, or dedicated camera coverage' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'vehicle_approach_funneled_through', text: 'Vehicle approach is funneled through a clearly defined primary entrance with no informal cut-throughs from adjacent parcels' },
+          { key: 'hostile_vehicle_mitigation_bollards', text: 'Hostile-vehicle mitigation (bollards, planters, knee-wall, or landscaped berm) protects the building face from ramming at the closest standoff approach' },
+          { key: 'perimeter_fencing_landscape_berms', text: 'Perimeter fencing, landscape berms, or natural barriers define the property edge along all sides exposed to public roadway or adjacent property' },
+          { key: 'knox_box_equivalent_first', text: 'Knox Box or equivalent first-responder access has been installed at a visible location for after-hours building entry' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'monument_sign_building_name', text: 'A monument sign or building-name signage at the primary approach establishes the property as private corporate territory' },
+          { key: 'signage_perimeter_directs_visitors', text: 'Signage at the perimeter directs visitors, deliveries, and employees to the appropriate entrances' },
+          { key: 'property_line_markers_fencing', text: 'Property-line markers (fencing, hedges, walls, or pavement transitions) clearly distinguish the corporate property from public right-of-way' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'perimeter_free_graffiti_litter', text: 'The perimeter is free of graffiti, litter, broken fencing, and signs of neglect that would signal reduced guardianship' },
+          { key: 'perimeter_signage_clean_current', text: 'Perimeter signage is clean, current, and free of obsolete or damaged elements' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'parking_pedestrian',
+    name: 'Surface Parking & Pedestrian Circulation',
+    order: 2,
+    description:
+      'Evaluate the surface parking lots, marked pedestrian routes between parking and the building, and any employee/visitor parking segregation. Sight lines, lighting uniformity, and natural surveillance from the building drive most of the score here.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'parking_areas_visible_occupied', text: 'Parking areas are visible from occupied portions of the building (ground- or upper-floor windows, reception, or security control room)' },
+          { key: 'pedestrian_routes_parking_building', text: 'Pedestrian routes from parking to building entrances are open, direct, and visible without hidden alcoves or screened approaches' },
+          { key: 'cameras_provide_overlapping_coverage', text: 'Cameras provide overlapping coverage of all parking areas with no significant blind spots between fixtures' },
+          { key: 'landscaping_around_parking_lot', text: "Landscaping in and around the parking lot follows the 2'/6' rule so a person standing between vehicles is visible from a distance" },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'visitor_parking_clearly_marked', text: 'Visitor parking is clearly marked, located adjacent to the main entrance, and signed at the property approach' },
+          { key: 'employee_only_parking_sections', text: 'Employee-only parking sections are marked with signage or pavement treatments that distinguish them from visitor parking spaces' },
+          { key: 'vehicle_entry_exit_points', text: 'Vehicle entry/exit points are clearly marked, controlled by gate or stop control where appropriate, and minimized to the operational minimum' },
+          { key: 'after_hours_parking_restricted', text: 'After-hours parking is restricted, and any after-hours arrivals are observable by security staff or via monitored cameras' },
+        ],
+      },
+      {
+        key: 'lighting',
+        name: 'Lighting',
+        items: [
+          { key: 'parking_areas_lit_so', text: 'Parking areas are lit so faces can be recognized at 25 feet, in line with IES recommended practice for parking facilities' },
+          { key: 'light_fixtures_spaced_uniformity', text: 'Light fixtures are spaced for uniformity (low light-to-dark ratio) without dark gaps between poles' },
+          { key: 'light_fixtures_tamper_vandal', text: 'Light fixtures are tamper- and vandal-resistant, mounted at heights that are not easily reached' },
+          { key: 'parking_area_light_fixtures', text: 'All parking-area light fixtures are functioning, with no out, dim, or damaged units observed' },
+          { key: 'pedestrian_walkways_between_parking', text: 'Pedestrian walkways between parking and the building are lit continuously (not just at endpoints)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'designated_visitor_parking_spaces', text: 'Designated visitor parking spaces are reinforced by signage and pavement markings' },
+          { key: 'wayfinding_signs_guide_visitors', text: 'Wayfinding signs guide visitors from parking to the main entry without ambiguity' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'parking_lot_free_abandoned', text: 'The parking lot is free of abandoned vehicles, accumulated debris, broken pavement, and damaged parking spaces' },
+          { key: 'pavement_markings_signs_curb', text: 'Pavement markings, signs, and curb paint are maintained in legible condition' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'grounds_outdoor',
+    name: 'Grounds, Landscaping & Outdoor Common Areas',
+    order: 3,
+    description:
+      'Evaluate the rest of the site outside parking — courtyards, plazas, designated smoking areas, outdoor break/eating areas, walking paths, retention ponds, and any deliveries staging or trash/dumpster areas. Look for hiding spots, defensible territory, and any areas where employees congregate outdoors.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'outdoor_break_smoking_eating', text: 'Outdoor break, smoking, and eating areas are visible from inside the building or from regularly traveled walkways' },
+          { key: 'walking_paths_trails_open', text: 'Walking paths and trails are open and unobstructed by tall hedges, blind curves, or screened bench enclosures' },
+          { key: 'trash_dumpster_recycling_areas', text: 'Trash, dumpster, and recycling areas are visible from the building or from a regularly traveled vehicle route' },
+          { key: 'landscaping_along_walkways_courtyards', text: "Landscaping along walkways, courtyards, and the building face follows the CPTED 2'/6' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so concealment is eliminated and sight lines are preserved" },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'designated_smoking_areas_positioned', text: 'Designated smoking areas are positioned so smokers do not prop open exterior doors or congregate near secondary entries' },
+          { key: 'dumpster_enclosures_gated_locked', text: 'Dumpster enclosures are gated/locked when not in active use to prevent dumpster diving and bomb-staging concealment' },
+          { key: 'outdoor_utility_components_transformers', text: 'Outdoor utility components (transformers, gas meters, HVAC condensers, irrigation backflow) are protected by enclosures, fencing, or bollards' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'outdoor_common_areas_courtyards', text: 'Outdoor common areas (courtyards, plazas, eating areas) are clearly furnished and signed as employee-use spaces, not public space' },
+          { key: 'landscape_design_pavement_signal', text: 'Landscape design and pavement signal that the grounds are owned, maintained, and patrolled' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'grounds_free_graffiti_litter', text: 'Grounds are free of graffiti, litter, broken benches/tables, and overgrown landscape' },
+          { key: 'trash_receptacles_outdoor_common', text: 'Trash receptacles in outdoor common areas are emptied on a regular schedule and are not overflowing' },
+          { key: 'irrigation_drainage_landscape_beds', text: 'Irrigation, drainage, and landscape beds are functioning and not creating standing-water or overgrowth issues' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'building_exterior',
+    name: 'Building Exterior & Envelope',
+    order: 4,
+    description:
+      'Walk the full perimeter of the building. Evaluate the façade, ground-floor windows, all secondary doors (employee, emergency egress, service), roof access, and rooftop equipment. Confirm there is one and only one normal entry path and that everything else is secured.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'ground_floor_windows_not', text: 'Ground-floor windows are not obstructed by interior signs, posters, or furniture beyond the 10% / 5-ft CPTED guideline' },
+          { key: 'full_exterior_perimeter_observable', text: 'The full exterior perimeter is observable from cameras, regularly patrolled paths, or building windows with overlapping coverage' },
+          { key: 'setback_hardscape_around_building', text: 'Setback/hardscape around the building is open enough to deny concealed approach to ground-floor windows and doors' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'secondary_exterior_doors_exit', text: 'All secondary exterior doors are exit-only (no exterior hardware) or controlled by card reader' },
+          { key: 'exterior_doors_non_removable', text: 'Exterior doors have non-removable hinge pins or hinges that are not accessible from outside' },
+          { key: 'exterior_doors_equipped_deadbolts', text: 'Exterior doors are equipped with deadbolts (minimum 1-inch throw) or equivalent commercial locking, with strike plates anchored into the frame' },
+          { key: 'exterior_door_closers_weather', text: 'Exterior door closers and weather seals are in working order and the doors latch fully when released' },
+          { key: 'secondary_exterior_doors_alarmed', text: 'Secondary exterior doors are alarmed (door-position contact reporting to the security panel) so any opening is detected' },
+          { key: 'ground_floor_windows_open', text: 'Ground-floor windows that open are equipped with locks; fixed glazing is intact and not propped/blocked' },
+          { key: 'roof_access_doors_roof', text: 'Roof access doors and roof hatches are locked, alarmed, and not used as informal smoking-break exits' },
+          { key: 'rooftop_hvac_communications_mechanical', text: 'Rooftop HVAC, communications, and mechanical equipment is protected by perimeter fencing, locked enclosures, or restricted-access roof zoning' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'primary_entry_visually_distinct', text: 'The primary entry is visually distinct (canopy, signage, lighting) from secondary doors so visitors are funneled to it unambiguously' },
+          { key: 'secondary_doors_signed_appropriately', text: 'All secondary doors are signed appropriately (e.g., "Emergency Exit Only — Alarm Will Sound") to deter routine use' },
+        ],
+      },
+      {
+        key: 'lighting',
+        name: 'Lighting',
+        items: [
+          { key: 'exterior_building_facades_lit', text: 'All exterior building façades are lit during darkness with no dark sides of the building' },
+          { key: 'exterior_door_entries_lit', text: 'Exterior door entries are lit so a person at the door can be recognized on camera and from inside' },
+          { key: 'roof_edge_rooftop_lighting', text: 'Roof-edge or rooftop lighting allows after-hours patrol or maintenance access without flashlights' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'building_facade_free_graffiti', text: 'The building façade is free of graffiti, broken windows, and visible damage' },
+          { key: 'exterior_signage_door_hardware', text: 'Exterior signage, door hardware, and lighting fixtures are maintained and current' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'lobby_reception',
+    name: 'Main Lobby, Reception & Visitor Management',
+    order: 5,
+    description:
+      "Evaluate the main public lobby — the visitor's first impression and the building's primary chokepoint. Observe reception layout, sight lines from reception to the entry vestibule, visitor processing workflow, and the transition from public lobby to controlled employee space.",
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'reception_security_desk_direct', text: 'The reception/security desk has direct sight line to the primary exterior door and the full lobby' },
+          { key: 'reception_staff_can_see', text: 'Reception staff can see arriving visitors before the visitor reaches the desk (no concealed approach)' },
+          { key: 'lobby_monitored_camera_recording', text: 'The lobby is monitored by camera with recording, including coverage of the reception desk and any side doors' },
+          { key: 'designated_customer_waiting_area', text: 'A designated customer waiting area is visible from reception and not isolated in an unstaffed alcove or back-corner seating' },
+          { key: 'customer_meeting_rooms_preserve', text: 'Customer meeting rooms preserve sight line from outside (vision panel, glass wall) or are equipped with a panic/duress button so employees are not isolated during difficult conversations' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'vestibule_transaction_barrier_separates', text: 'A vestibule or transaction barrier separates the public lobby from the employee-controlled portion of the building' },
+          { key: 'visitors_check_reception_issued', text: 'All visitors check in at reception and are issued a visitor badge before entering the controlled portion of the building' },
+          { key: 'reception_distinguishes_customer_visitors', text: 'Reception distinguishes customer visitors from vendor/contractor sign-ins so each is routed and badged appropriately' },
+          { key: 'visitor_badges_visually_distinct', text: 'Visitor badges are visually distinct from employee badges and use a self-expiring or dated mechanism so reuse is detected' },
+          { key: 'visitors_escorted_host_employee', text: 'Visitors are escorted by a host employee, or are routed through a reception-controlled door, before entering office floors' },
+          { key: 'panic_alarm_duress_button', text: 'A panic alarm or duress button is present at the reception desk and tested on a known schedule' },
+          { key: 'transition_door_lobby_employee', text: 'The transition door from lobby to employee space is controlled by card reader, not propped, and re-locks reliably' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'clearly_posted_visitor_policy', text: 'A clearly posted visitor policy or sign-in expectation is visible to arriving visitors' },
+          { key: 'reception_location_signage_orientation', text: "Reception's location, signage, and orientation make it obvious that all visitors must check in before proceeding" },
+        ],
+      },
+      {
+        key: 'security_technology',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'reception_staff_workstation_view', text: 'Reception staff have a workstation view (or shared monitor) of relevant exterior and lobby cameras' },
+          { key: 'visitor_management_system_paper', text: 'The visitor management system (paper log or software) captures visitor name, host, time in/out, and badge number' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'lobby_well_maintained_brightly', text: 'The lobby is well-maintained, brightly lit, and projects a controlled, professional image consistent with corporate ownership' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'loading_mail',
+    name: 'Loading Dock, Mailroom & Service Entries',
+    order: 6,
+    description:
+      'Evaluate all paths by which goods, mail, packages, and contractors enter the building. This is the highest-volume non-visitor entry stream and consistently the highest-risk receiving point for prohibited items, suspicious packages, and unauthorized after-hours entry.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'loading_dock_visible_regularly', text: 'The loading dock is visible from a regularly staffed position, security camera, or both at all times of dock operation' },
+          { key: 'mailroom_intake_observable_another', text: 'Mailroom intake is observable from another staffed area or by camera covering the receiving counter' },
+          { key: 'exterior_approach_loading_dock', text: 'The exterior approach to the loading dock is camera-covered with continuous recording' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'loading_dock_overhead_door', text: 'The loading dock overhead door and any pedestrian door are kept closed and locked when not actively in use' },
+          { key: 'vendors_delivery_drivers_contractors', text: 'Vendors, delivery drivers, and contractors check in at the dock or at reception and are issued a temporary badge before entering the building' },
+          { key: 'mailroom_dedicated_access_control', text: 'The mailroom has dedicated access control (card reader or staffed sign-in) separating it from the rest of the office space' },
+          { key: 'documented_suspicious_package_protocol', text: 'A documented suspicious-package protocol (tell-tale signs, isolation procedure, 911 escalation) is posted in or near the mailroom' },
+          { key: 'service_entries_janitor_vendor', text: 'Service entries (janitor, vendor, contractor doors) are alarmed, exit-only or card-controlled, and not propped during business hours' },
+        ],
+      },
+      {
+        key: 'security_technology',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'mail_packages_screened_visual', text: 'Mail and packages are screened (visual inspection at minimum; X-ray, K9, or vendor-screening service if higher tier) before distribution into the building' },
+          { key: 'mailroom_hvac_isolated_capable', text: "The mailroom HVAC is isolated from, or capable of being isolated from, the building's central air handling in the event of a suspicious substance release" },
+          { key: 'package_receiving_log_records', text: 'A package-receiving log records inbound deliveries, sender, and recipient for accountability' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'loading_dock_area_signed', text: 'The loading-dock area is signed as "Authorized Personnel Only — Deliveries Only" so unauthorized foot traffic is deterred' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'dock_mailroom_clean_organized', text: 'The dock and mailroom are clean, organized, and free of accumulated packaging, prop-open wedges, and unsecured tools' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'vertical_circulation',
+    name: 'Vertical Circulation (Elevators, Stairwells, Floor Lobbies)',
+    order: 7,
+    description:
+      'Evaluate how people move between floors. Observe elevator access control, stairwell security and surveillance, floor-lobby transitions, and the relationship between vertical circulation and emergency egress.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'elevator_interiors_camera_covered', text: 'Elevator interiors are camera-covered with recording' },
+          { key: 'stairwells_camera_covered_landings', text: 'Stairwells are camera-covered at landings or have alarmed door contacts so unauthorized travel is detected' },
+          { key: 'floor_lobbies_elevator_vestibules', text: 'Floor lobbies (elevator vestibules on each floor) are visible from a regularly occupied position on that floor' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'elevator_floor_selection_requires', text: 'Elevator floor selection requires a credential after hours (or all-times for restricted floors), so unauthenticated travel is blocked' },
+          { key: 'stairwell_doors_permit_free', text: 'Stairwell doors permit free egress (life-safety code) but re-entry from the stairwell to office floors is controlled by card reader' },
+          { key: 'stairwell_re_entry_permitted', text: 'Stairwell re-entry is permitted on at least every fourth floor and on the floor of discharge, in line with code, so occupants are never trapped in a stairwell' },
+          { key: 'path_stairwell_discharge_exterior', text: 'The path from the stairwell discharge to the exterior exit door is unobstructed and well lit' },
+          { key: 'roof_access_top_stairwell', text: 'Roof access from the top stairwell is locked, alarmed, and signed as restricted' },
+        ],
+      },
+      {
+        key: 'lighting',
+        name: 'Lighting',
+        items: [
+          { key: 'stairwells_lit_code_required', text: 'All stairwells are lit at code-required levels with no out or dim fixtures' },
+          { key: 'floor_lobbies_elevator_vestibules_lit', text: 'Floor lobbies and elevator vestibules are lit to recognize faces on camera' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'stairwells_free_stored_materials', text: 'Stairwells are free of stored materials, propped doors, and accumulated trash' },
+          { key: 'elevator_cab_interiors_clean', text: 'Elevator cab interiors are clean, undamaged, and free of graffiti' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'office_floors',
+    name: 'Office Floors & Workstations',
+    order: 8,
+    description:
+      'Evaluate the open-office areas, executive suites, conference rooms, break rooms, and copy/print rooms across all floors. Look for clean-desk practices, secured executive areas, and conference-room surveillance considerations. Single-tenant means uniform access control across the floor.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'workstation_layout_preserves_sight', text: 'Workstation layout preserves sight lines across the open floor plan rather than creating hidden alcoves or screened workstations' },
+          { key: 'conference_rooms_glass_walls', text: 'Conference rooms with glass walls or interior windows allow casual observation of activity from circulation paths' },
+          { key: 'cubicle_partition_heights_do', text: 'Cubicle and partition heights do not exceed five feet in primary work areas, in line with CPTED office surveillance guidance' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'executive_suite_executive_assistant', text: 'Executive suite, executive assistant area, or C-suite floor is separated from general office space by access control' },
+          { key: 'conference_rooms_used_sensitive', text: 'Conference rooms used for sensitive discussions are lockable when in use' },
+          { key: 'print_copy_rooms_multifunction', text: 'Print/copy rooms with multifunction devices that handle sensitive documents are positioned in low-foot-traffic locations with reasonable visibility' },
+          { key: 'employee_badging_policy_requires', text: 'Employee badging policy requires badges to be worn visibly while on the floor' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'floor_signage_wayfinding_establish', text: 'Floor signage and wayfinding establish departmental identity (e.g., "Claims Operations — Floor 3") so visitors understand whose territory they have entered' },
+          { key: 'executive_restricted_floors_signed', text: 'Executive and restricted floors are signed and visually treated to reinforce that the space is access-controlled' },
+        ],
+      },
+      {
+        key: 'behavioral_routine',
+        name: 'Behavioral & Routine Considerations',
+        items: [
+          { key: 'clean_desk_practice_effect', text: 'A clean-desk practice is in effect for sensitive paper records (claims, PII, HR) at end of day' },
+          { key: 'workstations_configured_so_screens', text: 'Workstations are configured so that screens displaying confidential information are not visible from public corridors or windows' },
+          { key: 'employees_know_how_challenge', text: 'Employees know how to challenge or report a person on the floor without a visible badge' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'office_floors_clean_well', text: 'Office floors are clean, well-maintained, and project a controlled corporate image consistent with the lobby presentation' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'critical_restricted',
+    name: 'Critical & Restricted Areas',
+    order: 9,
+    description:
+      'Evaluate the rooms that, if compromised, take down the business or expose the company to significant liability — server room, telecom/network closets (MDF/IDF), executive suite, HR records, file rooms, mechanical rooms, electrical rooms, water service entry, and the emergency generator. These share a CPTED problem profile (high-value, low-foot-traffic, must-be-locked, must-be-logged).',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'doors_critical_rooms_visible', text: 'Doors to critical rooms are visible from a regularly staffed position or are camera-covered' },
+          { key: 'activity_around_mechanical_electrical', text: 'Activity in or around mechanical/electrical/utility rooms is observable from corridors rather than from unmonitored hallway dead-ends' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'server_room_data_center', text: 'The server room / data center has access control with audit logging (card reader at minimum; biometric where the data sensitivity warrants it)' },
+          { key: 'main_floor_level_telecom', text: 'Main and floor-level telecom/network closets (often labeled MDF and IDF) are locked at all times and access is limited to IT and authorized vendors' },
+          { key: 'hr_records_claim_files', text: 'HR records, claim files, and other PII storage areas are behind access-controlled doors with key or badge logging' },
+          { key: 'mechanical_electrical_elevator_equipment', text: 'Mechanical, electrical, and elevator-equipment rooms are locked and signed as restricted' },
+          { key: 'water_service_entry_fire', text: 'The water service entry, fire-pump room, and any chemical or fuel storage areas are locked and signed' },
+          { key: 'emergency_generator_fuel_storage', text: 'The emergency generator and fuel storage are protected by perimeter fencing, locked enclosure, or restricted-access yard' },
+        ],
+      },
+      {
+        key: 'security_technology',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'server_room_telecom_network', text: 'Server room and telecom/network closets (MDF and IDF rooms) are camera-covered with recording' },
+          { key: 'door_position_contacts_critical', text: 'Door-position contacts on critical rooms report to the security alarm panel and trigger after-hours alerts' },
+          { key: 'access_logs_critical_rooms', text: 'Access logs for critical rooms are reviewed on a defined cadence (the security director can describe the cadence and reviewer)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'critical_rooms_kept_clean', text: 'Critical rooms are kept clean and free of stored unrelated materials that would obscure equipment or block egress' },
+          { key: 'restricted_area_signage_current', text: 'Restricted-area signage is current, legible, and free of damage' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'security_technology',
+    name: 'Building Systems & Security Technology',
+    order: 10,
+    description:
+      'Evaluate the security infrastructure as a system: CCTV, access control platform, intrusion alarm, mass notification, fire/life-safety integration, and the security operations center (if present). This zone tests whether the technology investments are functional, monitored, and integrated rather than installed-and-forgotten.',
+    principles: [
+      {
+        key: 'security_technology',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'access_control_system_unified', text: 'The access control system is unified across the entire building (single-tenant context — one platform, one credential per employee)' },
+          { key: 'access_control_system_can', text: 'The access control system can immediately disable a credential and the security director can describe the revocation workflow' },
+          { key: 'camera_footage_retained_least', text: 'Camera footage is retained for at least 30 days (90 days preferred per CPTED office guidance)' },
+          { key: 'cameras_positioned_resolved_support', text: 'Cameras are positioned and resolved to support facial recognition at intended distances; non-working cameras have been repaired or removed' },
+          { key: 'intrusion_alarm_system_monitored', text: 'The intrusion alarm system is monitored 24/7 (in-house SOC or central station) and the monitoring contract is current' },
+          { key: 'mass_notification_system_place', text: 'A mass notification system is in place that can reach all building occupants (intercom/PA, SMS, desktop alerts, or combination) and has been tested within the last 12 months' },
+          { key: 'security_system_integrated_fire', text: 'The security system is integrated with fire/life-safety such that fire alarm activation releases fail-safe doors and elevators recall in line with code' },
+          { key: 'documented_panic_alarm_capability', text: 'A documented panic-alarm capability exists at reception, executive areas, and HR with a tested response protocol' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'security_technology_cameras_readers', text: 'Security technology (cameras, readers, alarm panels, mass-notification devices) shows no visible damage, missing covers, or out-of-service indicators' },
+          { key: 'documentation_drawings_credentials_lists', text: 'Documentation, drawings, and credentials lists are current and reviewed on a stated cadence' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'workplace_violence_readiness',
+    name: 'Workplace Violence & Active-Threat Readiness',
+    order: 11,
+    description:
+      'Evaluate the program-level capability to prevent, respond to, and recover from workplace violence, active-assailant, and targeted-violence events. Most items are verifiable through the security director, written EAP, training records, and walk-bys of mass-notification and lockdown infrastructure. Item is N/A only if the company genuinely lacks the program — score 1 if absent, not N/A.',
+    principles: [
+      {
+        key: 'behavioral_routine',
+        name: 'Behavioral & Routine Considerations',
+        items: [
+          { key: 'documented_workplace_violence_prevention', text: 'A documented Workplace Violence Prevention policy exists and is communicated to all employees on hire and at a defined refresher cadence' },
+          { key: 'multidisciplinary_threat_assessment_team', text: 'A multidisciplinary Threat Assessment Team (security, HR, legal, mental-health resource, LE liaison) is in place and meets on a defined cadence to review concerning behavior reports' },
+          { key: 'confidential_employee_reporting_channel', text: 'A confidential employee-reporting channel exists for threats, intimidation, and concerning behavior, and employees know how to use it' },
+          { key: 'pre_employment_screening_documented', text: 'Pre-employment screening and a documented termination protocol (badge return, escort, threat assessment for high-risk separations) are in place' },
+          { key: 'customer_facing_staff_claims', text: 'Customer-facing staff (claims, policy service, reception) have received de-escalation and hostile-customer response training within the last 24 months' },
+        ],
+      },
+      {
+        key: 'emergency_preparedness',
+        name: 'Emergency Preparedness',
+        items: [
+          { key: 'written_emergency_action_plan', text: 'A written Emergency Action Plan (EAP) covering fire, severe weather, medical, bomb threat, and active assailant is current and accessible to floor wardens' },
+          { key: 'run_hide_fight_equivalent', text: 'Run-Hide-Fight (or equivalent ALICE-style) training has been delivered to all employees within the last 24 months' },
+          { key: 'lockdown_drills_conducted_within', text: 'Lockdown drills have been conducted within the last 12 months and after-action notes are retained' },
+          { key: 'floor_wardens_building_emergency', text: 'Floor wardens or a building emergency-response team are designated, named, and trained, with backups identified for absences' },
+          { key: 'designated_assembly_rally_points', text: 'Designated assembly/rally points (and inclement-weather alternates) are identified for evacuation accountability' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Access Control',
+        items: [
+          { key: 'building_tested_capability_immediately', text: 'The building has a tested capability to immediately lock all access-controlled doors and disable card readers on command (lockdown card or SOC console)' },
+          { key: 'building_tested_capability_immediately_stop', text: 'The building has a tested capability to immediately stop elevators at the next floor so they do not recall to the lobby during an active threat' },
+          { key: 'designated_rooms_floors_lockable', text: 'Designated rooms or floors have lockable interior doors so occupants can shelter in place, and employees know which rooms qualify' },
+        ],
+      },
+      {
+        key: 'security_technology',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'mass_notification_devices_pa', text: 'Mass notification devices (PA, desktop alert, SMS) reach all areas of the building including stairwells, restrooms, and parking; coverage has been verified by drill' },
+          { key: 'floor_plans_riser_diagrams', text: 'Floor plans, riser diagrams, and access credentials/keys are pre-staged for delivery to law enforcement during an incident (e.g., Knox Box, lobby lockbox, or pre-arranged digital share)' },
+          { key: 'security_director_documented_coordination', text: "The security director has a documented coordination point of contact with the Volusia Sheriff's Office (or local LE) and has hosted a familiarization walkthrough within the last 24 months" },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'mass_notification_panic_alarm', text: 'Mass notification, panic alarm, and lockdown systems are tested on a documented schedule and test logs are retained' },
+          { key: 'eap_documents_evacuation_maps', text: 'EAP documents, evacuation maps, and rally-point signage on every floor are current and legible' },
+          { key: 'post_incident_response_resources', text: 'Post-incident response resources (EAP, victim assistance contacts, employee assistance program, business continuity playbook) are documented and assigned to a named owner' },
+        ],
+      },
+    ],
+  },
+];
+
+/** Total number of checklist items across all commercial office zones */
+export const COMMERCIAL_OFFICE_TOTAL_ITEM_COUNT = COMMERCIAL_OFFICE_ZONES.reduce(
+  (total, zone) =>
+    total + zone.principles.reduce((zoneTotal, p) => zoneTotal + p.items.length, 0),
+  0,
+);
@@ -0,0 +1,198 @@
+import type { PropertyType, ZoneDefinition } from '../types.js';
+import type { WeightedItem } from './score-weights.js';
+import { getScoreWeights } from './score-weights.js';
+import { getTemplateId, recordedAtVersion } from './template-versions.js';
+import type { TemplateId } from './template-versions.js';
+
+/**
+ * Completion rules: what a report has to have before the assessor can mark it
+ * complete, per template. Rating every item was never enough — a report that
+ * says a door fails with no note saying why and no photo of it is not one a
+ * district or a homeowner can act on, and a supervisor used to find that out
+ * at review, days after the assessor has left the site.
+ *
+ * Each rule is a check and a severity. A `block` rule stops Mark Complete
+ * until it is met; a `warn` rule is listed, and the assessor may complete
+ * anyway. Every violation names the zone and, where there is one, the item,
+ * so the summary can link straight to it.
+ *
+ * The rules below are the bundled templates'. A template published from the
+ * server carries its own in the document, and each version records them in
+ * its revision, so an assessment is checked by the rules of the version it is
+ * pinned to.
+ *
+ * A failed item is one scored FAILED_ITEM_SCORE or rated "No". A failed
+ * critical item is one that caps the overall score (see score-weights.ts); it
+ * has its recommendation when one of the report's recommendations or quick
+ * wins was written for it — generated from it or picked from the items —
+ * and so carries its item id; rewording one keeps it counted. One that names
+ * no item, typed by hand or made before recommendations carried the id,
+ * counts as every recommendation once did: when it quotes the item's wording.
+ */
+
+export type CompletionRuleKind =
+  | 'failed_item_note'
+  | 'failed_item_photo'
+  | 'zone_findings'
+  | 'signature'
+  | 'critical_recommendation';
+
+export const COMPLETION_RULE_KINDS: CompletionRuleKind[] = [
+  'failed_item_note',
+  'failed_item_photo',
+  'zone_findings',
+  'signature',
+  'critical_recommendation',
+];
+
+/** What each rule asks for, as the template editor lists them. */
+export const COMPLETION_RULE_LABELS: Record<CompletionRuleKind, string> = {
+  failed_item_note: 'A note on every failed item',
+  failed_item_photo: 'A photo of every failed item',
+  zone_findings: 'Priority findings for every rated zone',
+  signature: "The assessor's signature",
+  critical_recommendation: 'A recommendation for every failed critical item',
+};
+
+export type CompletionSeverity = 'block' | 'warn';
+
+export interface CompletionRule {
+  kind: CompletionRuleKind;
+  severity: CompletionSeverity;
+}
+
+/** A numeric score at or below this is a failed item. */
+export const FAILED_ITEM_SCORE = 1;
+
+const SCORED_RULES: CompletionRule[] = [
+  { kind: 'failed_item_note', severity: 'block' },
+  { kind: 'failed_item_photo', severity: 'warn' },
+  { kind: 'zone_findings', severity: 'warn' },
+  { kind: 'signature', severity: 'block' },
+  { kind: 'critical_recommendation', severity: 'block' },
+];
+
+const COMPLETION_RULES: Record<TemplateId, CompletionRule[]> = {
+  residential: SCORED_RULES,
+  townhome: SCORED_RULES,
+  worship: SCORED_RULES,
+  christian: SCORED_RULES,
+  // Districts file every "No" with its evidence; schools have no critical
+  // items, their ratings having no score to cap.
+  school: [
+    { kind: 'failed_item_note', severity: 'block' },
+    { kind: 'failed_item_photo', severity: 'block' },
+    { kind: 'zone_findings', severity: 'warn' },
+    { kind: 'signature', severity: 'block' },
+  ],
+  commercial_office: SCORED_RULES,
+};
+
+/** The rules the bundled data gives `templateId`. */
+export function getBundledCompletionRules(templateId: TemplateId): CompletionRule[] {
+  return COMPLETION_RULES[templateId];
+}
+
+/**
+ * The rules at `version` (the current version when omitted): those of the
+ * latest revision up to it that records them, or else the bundled ones.
+ */
+export function getCompletionRules(propertyType: PropertyType, version?: number): CompletionRule[] {
+  return (
+    recordedAtVersion(propertyType, version, (revision) => revision.completion_rules) ??
+    COMPLETION_RULES[getTemplateId(propertyType)]
+  );
+}
+
+/** What the rules read off an item. */
+export interface CompletionItem extends WeightedItem {
+  id: string;
+  zone_key: string;
+  item_text: string;
+  item_order: number;
+  notes: string;
+  photo_count: number;
+}
+
+/** What the rules read off an assessment. */
+export interface CompletionInput {
+  propertyType: PropertyType;
+  /** The template version the assessment is pinned to. */
+  templateVersion: number;
+  /** Building copies included, in walk order. */
+  zones: ZoneDefinition[];
+  items: CompletionItem[];
+  /** Zone key → the zone's priority findings. */
+  findings: Map<string, string>;
+  /** The recommendations and quick wins, with the item each was written for. */
+  recommendations: { description: string; item_id?: string }[];
+  signature: string | null;
+}
+
+export interface CompletionViolation {
+  kind: CompletionRuleKind;
+  severity: CompletionSeverity;
+  message: string;
+  zone_key: string | null;
+  item_id: string | null;
+}
+
+export function isFailedItem(item: WeightedItem): boolean {
+  if (item.is_na) return false;
+  return item.score === 'no' || (typeof item.score === 'number' && item.score <= FAILED_ITEM_SCORE);
+}
+
+function isFailedCritical(item: WeightedItem, critical: string[]): boolean {
+  return (
+    !item.is_na &&
+    item.item_key !== null &&
+    critical.includes(item.item_key) &&
+    typeof item.score === 'number' &&
+    item.score <= 2
+  );
+}
+
+/**
+ * Every violation of the template's rules, in walk order: zone by zone, and
+ * the assessment-wide ones (the signature) last.
+ */
+export function checkCompletion(input: CompletionInput): CompletionViolation[] {
+  const rules = getCompletionRules(input.propertyType, input.templateVersion);
+  const severityOf = new Map(rules.map((rule) => [rule.kind, rule.severity]));
+  const critical = getScoreWeights(input.propertyType, input.templateVersion).critical;
+  const recommended = new Set(input.recommendations.map((rec) => rec.item_id));
+  const unlinked = input.recommendations.filter((rec) => rec.item_id === undefined).map((rec) => rec.description);
+  const hasRecommendation = (item: CompletionItem) =>
+    recommended.has(item.id) || unlinked.some((text) => text.includes(item.item_text));
+  const violations: CompletionViolation[] = [];
+  const add = (kind: CompletionRuleKind, message: string, zoneKey: string | null, itemId: string | null) => {
+    const severity = severityOf.get(kind);
+    if (severity) violations.push({ kind, severity, message, zone_key: zoneKey, item_id: itemId });
+  };
+
+  for (const zone of input.zones) {
+    const principleOrder = (item: CompletionItem) => zone.principles.findIndex((p) => p.key === item.principle);
+    const items = input.items
+      .filter((item) => item.zone_key === zone.key)
+      .sort((a, b) => principleOrder(a) - principleOrder(b) || a.item_order - b.item_order);
+    // A zone nobody rated anything in has nothing to find; a zone all N/A
+    // neither.
+    const rated = items.some((item) => item.score !== null && !item.is_na);
+    if (rated && !input.findings.get(zone.key)?.trim()) {
+      add('zone_findings', `No priority findings written for ${zone.name}`, zone.key, null);
+    }
+    for (const item of items) {
+      const where = `${zone.name} — ${item.item_text}`;
+      if (isFailedItem(item)) {
+        if (!item.notes.trim()) add('failed_item_note', `No note on a failed item: ${where}`, zone.key, item.id);
+        if (item.photo_count === 0) add('failed_item_photo', `No photo of a failed item: ${where}`, zone.key, item.id);
+      }
+      if (isFailedCritical(item, critical) && !hasRecommendation(item)) {
+        add('critical_recommendation', `No recommendation for a failed critical item: ${where}`, zone.key, item.id);
+      }
+    }
+  }
+
+  if (!input.signature) add('signature', "The assessor hasn't signed the report", null, null);
+  return violations;
+}
@@ -1,7 +1,7 @@
 /**
  * CPTED Item Guidance Knowledge Base
  *
- * Maps each checklist item (by exact item_text) to:
+ * Maps each checklist item (by its key — see ZoneItem) to:
  *   - standard: What CPTED best practice expects (1-2 sentences)
  *   - improvement: Specific actionable steps the homeowner can take (2-3 steps)
  *
@@ -17,7 +17,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 1: Street Approach & Address Visibility ───
 
   [
-    'Clear, unobstructed sight line from the street to the front door',
+    'clear_unobstructed_sight_line',
     {
       standard:
         'CPTED principles require a clear line of sight between the street and the front entry so that visitors and neighbors can observe activity at the door.',
@@ -26,7 +26,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Front windows of the home provide views of the street and front yard',
+    'front_windows_home_provide',
     {
       standard:
         'Windows facing the street enable natural surveillance — occupants can monitor approaching visitors and street activity from inside the home.',
@@ -35,7 +35,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No large visual barriers (walls, hedges, structures) blocking the view from the street to the home',
+    'no_large_visual_barriers',
     {
       standard:
         'Large visual barriers near the property frontage create concealment opportunities and prevent neighbors and passersby from observing suspicious activity.',
@@ -44,7 +44,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Clearly defined driveway/walkway directs visitors to the front entry',
+    'clearly_defined_driveway_walkway',
     {
       standard:
         'A well-defined path from the street to the front door guides legitimate visitors along an intended route and makes anyone deviating from that path more conspicuous.',
@@ -53,7 +53,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sidewalk and approach are in good condition and clearly routed',
+    'sidewalk_approach_good_condition',
     {
       standard:
         'A well-maintained approach signals active ownership and territorial control, discouraging would-be offenders from targeting the property.',
@@ -62,7 +62,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property boundaries visible and identifiable from the street',
+    'property_boundaries_visible_identifiable',
     {
       standard:
         'Clearly marked property boundaries establish territorial reinforcement — a core CPTED principle — making it obvious where public space ends and private property begins.',
@@ -71,7 +71,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'House number clearly visible from the street (minimum 4" tall, contrasting color, illuminated or reflective at night)',
+    'house_number_clearly_visible',
     {
       standard:
         'Address numbers must be at least 4 inches tall, high-contrast, and visible at night so that emergency responders and law enforcement can quickly locate the property.',
@@ -80,7 +80,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Street frontage is clean and free of debris, abandoned items, or clutter',
+    'street_frontage_clean_free',
     {
       standard:
         'A clean street frontage projects an image of active ownership and community care, which deters criminal behavior (the "Broken Windows" theory).',
@@ -89,7 +89,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No graffiti, vandalism, or signs of neglect visible from the street',
+    'no_graffiti_vandalism_signs',
     {
       standard:
         'Visible signs of neglect or vandalism signal a lack of territorial control and can attract further criminal activity.',
@@ -101,7 +101,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 2: Front Yard & Primary Entry ───
 
   [
-    "Vegetation follows the 2'/6' rule (shrubs under 2 ft, tree canopies above 6 ft)",
+    'vegetation_follows_2_6',
     {
       standard:
         'The 2-foot/6-foot rule is a foundational CPTED landscaping standard: shrubs should be kept below 2 feet and tree canopies raised above 6 feet to eliminate hiding spots while maintaining sight lines.',
@@ -110,7 +110,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No dense vegetation or structures creating concealment spots near the entry',
+    'no_dense_vegetation_structures',
     {
       standard:
         'Concealment spots near the primary entry allow an offender to hide while waiting for the homeowner to approach or unlock the door — a high-risk scenario.',
@@ -119,7 +119,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Front porch/entry area visible from the street and from neighboring properties',
+    'front_porch_entry_area',
     {
       standard:
         'The front entry should be observable from the street and adjacent properties so that any forced entry attempt or suspicious behavior can be witnessed.',
@@ -128,7 +128,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Front door is solid core hardwood or metal (not hollow core)',
+    'front_door_solid_core',
     {
       standard:
         'A solid-core or metal front door resists forced entry attempts far better than a hollow-core door, which can be breached with minimal effort.',
@@ -137,7 +137,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Deadbolt installed with minimum 1" throw and reinforced strike plate (3" screws)',
+    'deadbolt_installed_minimum_1',
     {
       standard:
         'A Grade 1 or Grade 2 deadbolt with at least a 1-inch throw bolt and a reinforced strike plate secured with 3-inch screws into the door frame stud is the minimum standard for residential security.',
@@ -146,7 +146,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Door frame is solid and in good condition (no rot, no gaps)',
+    'door_frame_solid_good',
     {
       standard:
         'A compromised door frame negates even the best locks — a rotted or weakened frame can be kicked in easily.',
@@ -155,7 +155,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Glass panels in or near door are reinforced or have security film',
+    'glass_panels_near_door',
     {
       standard:
         'Glass sidelights or panels within arm\'s reach of the deadbolt allow an intruder to break the glass and reach in to unlock the door from inside.',
@@ -164,7 +164,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Front yard landscaping demonstrates active ownership and care',
+    'front_yard_landscaping_demonstrates',
     {
       standard:
         'Maintained landscaping is a visible expression of territorial reinforcement — it communicates that the property is actively monitored and cared for.',
@@ -173,7 +173,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property line between front yard and public space is clearly delineated',
+    'property_line_between_front',
     {
       standard:
         'A clearly marked transition from public to private space signals territorial ownership and makes trespassers more aware they are entering private property.',
@@ -182,7 +182,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lawn maintained and free of overgrown areas',
+    'lawn_maintained_free_overgrown',
     {
       standard:
         'An unmaintained lawn suggests the property may be unoccupied or neglected, making it a more attractive target for criminal activity.',
@@ -191,7 +191,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Walkway, steps, and porch in good structural condition',
+    'walkway_steps_porch_good',
     {
       standard:
         'Deteriorating walkways, steps, and porches present both a safety hazard and an image of neglect that can attract criminal attention.',
@@ -200,7 +200,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Door hardware (knob, lock, hinges) in good working condition',
+    'door_hardware_knob_lock',
     {
       standard:
         'All door hardware must function smoothly and securely. Loose or worn hardware compromises the door\'s resistance to forced entry.',
@@ -212,7 +212,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 3: Side Yards & Pathways ───
 
   [
-    'Side yards visible from at least one neighboring property',
+    'side_yards_visible_least',
     {
       standard:
         'Side yards that are visible to neighbors provide natural surveillance of an area often used as a concealed path to the rear of the home.',
@@ -221,7 +221,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Vegetation along side yards follows the 2'/6' rule",
+    'vegetation_along_side_yards',
     {
       standard:
         'The 2-foot/6-foot landscaping rule applies to side yards as well — shrubs below 2 feet and tree canopies above 6 feet maintain clear sight lines through these narrow transitional areas.',
@@ -230,7 +230,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No concealment opportunities between structures (AC units, sheds, fences)',
+    'no_concealment_opportunities_between',
     {
       standard:
         'Gaps between structures in side yards — such as behind AC units, between sheds and fences, or along utility areas — can conceal a person lying in wait.',
@@ -239,7 +239,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Side yard gates present, in working condition, with self-latching or locking hardware',
+    'side_yard_gates_present',
     {
       standard:
         'Side yard gates are a critical access control point — they separate the more visible front from the more vulnerable rear of the property.',
@@ -248,7 +248,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No easy-climb features along side fencing (trellises, stored items, compost bins)',
+    'no_easy_climb_features',
     {
       standard:
         'Objects placed against fences — trellises, bins, stacked items — act as climbing aids that allow an intruder to easily scale the fence into the yard.',
@@ -257,7 +257,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Side property lines clearly marked or fenced',
+    'side_property_lines_clearly',
     {
       standard:
         'Clearly defined side property boundaries establish territorial ownership and make it obvious when someone is trespassing.',
@@ -266,7 +266,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Side yards free of stored junk, debris, or unused items',
+    'side_yards_free_stored',
     {
       standard:
         'Clutter in side yards provides concealment and can serve as tools or climbing aids for intruders. It also signals neglect.',
@@ -275,7 +275,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Fencing in good repair (no leaning, broken slats, or gaps)',
+    'fencing_good_repair_no',
     {
       standard:
         'Damaged fencing fails to provide the access control and territorial definition it was designed for, and visually signals neglect.',
@@ -287,7 +287,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 4: Rear Yard & Back Entry ───
 
   [
-    'Rear yard at least partially visible from one or more neighboring properties',
+    'rear_yard_least_partially',
     {
       standard:
         'The rear yard is the most common point of forced entry. At least partial visibility from neighboring properties provides critical natural surveillance of this vulnerable area.',
@@ -296,7 +296,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear-facing windows provide views of the back yard from inside the home',
+    'rear_facing_windows_provide',
     {
       standard:
         'Rear-facing windows enable occupants to observe activity in the back yard from inside, providing natural surveillance of the most private area of the property.',
@@ -305,7 +305,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No dense vegetation creating concealment along the rear of the home',
+    'no_dense_vegetation_creating',
     {
       standard:
         'Dense vegetation along the rear wall of the home provides cover for an intruder attempting to force entry through a rear door or window.',
@@ -314,7 +314,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear entry door is solid core with deadbolt (same standard as front)',
+    'rear_entry_door_solid',
     {
       standard:
         'Rear entry doors must meet the same security standards as the front door — solid core construction with a quality deadbolt — because the rear is the most common forced entry point.',
@@ -323,7 +323,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sliding glass doors have secondary security (dowel/pin in track, security bar, or foot lock)',
+    'sliding_glass_doors_secondary',
     {
       standard:
         'Standard sliding glass door latches are easily defeated. Secondary security measures prevent the door from being lifted off its track or forced open.',
@@ -332,7 +332,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear windows have working locks and are reinforced if ground-accessible',
+    'rear_windows_working_locks',
     {
       standard:
         'Ground-accessible rear windows are high-risk entry points and must have functioning locks and, ideally, additional reinforcement such as security film.',
@@ -341,7 +341,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear fence/gate is secured with quality lock (not just a flip latch)',
+    'rear_fence_gate_secured',
     {
       standard:
         'A rear gate with only a flip latch provides virtually no access control — it can be reached over the fence and opened in seconds.',
@@ -350,7 +350,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear property boundaries clearly defined',
+    'rear_property_boundaries_clearly',
     {
       standard:
         'Clear rear property boundaries establish territorial ownership and make it immediately obvious when someone is trespassing.',
@@ -359,7 +359,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Rear yard maintained (lawn, landscaping, hardscape)',
+    'rear_yard_maintained_lawn',
     {
       standard:
         'A well-maintained rear yard signals active occupancy and territorial ownership, even in areas not visible from the street.',
@@ -368,7 +368,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No ladders, tools, or items stored outside that could assist a burglar',
+    'no_ladders_tools_items',
     {
       standard:
         'Ladders, tools, pry bars, and heavy objects left in the yard can be used by an intruder to break into the home or access upper floors and windows.',
@@ -380,7 +380,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 5: Garage & Driveway ───
 
   [
-    'Driveway visible from the street and from inside the home',
+    'driveway_visible_street_inside',
     {
       standard:
         'A visible driveway provides natural surveillance of vehicle activity and makes it obvious when unfamiliar vehicles or people are present.',
@@ -389,7 +389,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Garage does not create blind spots or hidden areas adjacent to the home',
+    'garage_does_not_create',
     {
       standard:
         'Gaps between the garage and the home, or recessed areas created by the garage structure, can provide concealment for someone attempting entry.',
@@ -398,7 +398,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior door from garage to home is solid core with deadbolt',
+    'interior_door_garage_home',
     {
       standard:
         'The door between the garage and the home interior is often overlooked but should meet the same security standard as any exterior door — solid core with a deadbolt.',
@@ -407,7 +407,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Overhead garage door has a manual lock (not relying solely on opener)',
+    'overhead_garage_door_manual',
     {
       standard:
         'Relying solely on an electric opener for garage door security leaves the home vulnerable during power outages and to opener frequency scanning.',
@@ -416,7 +416,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency release cord is secured against coat hanger manipulation',
+    'emergency_release_cord_secured',
     {
       standard:
         'The emergency release cord on many garage doors can be triggered from outside using a coat hanger slipped through the weather seal at the top of the door.',
@@ -425,7 +425,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Garage door kept closed and locked when not in active use',
+    'garage_door_kept_closed',
     {
       standard:
         'An open garage door exposes the home interior, stored valuables, and the garage-to-home door to observation and opportunistic entry.',
@@ -434,7 +434,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Driveway clearly defined and directs only to the subject property',
+    'driveway_clearly_defined_directs',
     {
       standard:
         'A clearly defined driveway reinforces territorial ownership and makes it obvious when someone uses it who does not belong.',
@@ -443,7 +443,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Garage door in good working condition',
+    'garage_door_good_working',
     {
       standard:
         'A garage door that does not close fully, has gaps, or is visibly damaged compromises security and signals neglect.',
@@ -452,7 +452,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No high-value items visible through garage windows or open door',
+    'no_high_value_items',
     {
       standard:
         'Visible high-value items (tools, bikes, electronics) in the garage invite theft and can motivate a break-in attempt.',
@@ -464,7 +464,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 6: Exterior Lighting ───
 
   [
-    "Front entry/porch has a bright, working light that illuminates visitors' faces",
+    'front_entry_porch_bright',
     {
       standard:
         'The front entry light should be bright enough to clearly illuminate a visitor\'s face from inside the home or through a peephole, enabling identification before opening the door.',
@@ -473,7 +473,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All exterior doors have dedicated lighting fixtures',
+    'exterior_doors_dedicated_lighting',
     {
       standard:
         'Every exterior door — front, rear, side, and garage entry — should have its own dedicated light fixture to eliminate dark approach areas.',
@@ -482,7 +482,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Walkways and driveway adequately illuminated',
+    'walkways_driveway_adequately_illuminated',
     {
       standard:
         'Well-lit walkways and driveways allow occupants and neighbors to observe anyone approaching the home and eliminate concealment along travel paths.',
@@ -491,7 +491,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Motion-activated lights at vulnerable areas (side yards, rear entry, garage)',
+    'motion_activated_lights_vulnerable',
     {
       standard:
         'Motion-activated lights serve as both a deterrent and an alert system — sudden illumination startles intruders and draws attention from neighbors.',
@@ -500,7 +500,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No dark "dead zones" around the perimeter of the home',
+    'no_dark_dead_zones',
     {
       standard:
         'Dark areas around the perimeter of the home provide concealment for intruders and make it possible to move around the property undetected at night.',
@@ -509,7 +509,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior lights on photocell (dusk-to-dawn) or timer — not solely manual switch',
+    'exterior_lights_photocell_dusk',
     {
       standard:
         'Lights that depend solely on manual switches are often forgotten and leave the property dark. Automated lighting ensures consistent illumination every night.',
@@ -518,7 +518,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All exterior light fixtures functioning (no burned-out bulbs)',
+    'exterior_light_fixtures_functioning',
     {
       standard:
         'Non-functioning exterior lights create dark spots that undermine the entire lighting plan and signal neglect.',
@@ -527,7 +527,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No landscaping growth obstructing light fixtures or blocking light output',
+    'no_landscaping_growth_obstructing',
     {
       standard:
         'Vegetation that has grown around or in front of light fixtures blocks the light output and creates shadows that negate the fixture\'s purpose.',
@@ -539,7 +539,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 7: Windows & Interior Considerations ───
 
   [
-    'Windows in high-use rooms (living room, kitchen) face the street or yard areas',
+    'windows_high_use_rooms',
     {
       standard:
         'Rooms where occupants spend the most time should have windows facing the street or yard so that natural surveillance occurs as part of daily activity.',
@@ -548,7 +548,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Window treatments allow occupants to observe outside (not permanently blocked/covered)',
+    'window_treatments_allow_occupants',
     {
       standard:
         'Permanently blocked or covered windows eliminate natural surveillance from inside the home and prevent occupants from monitoring their property.',
@@ -557,7 +557,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Every window has a working lock in good condition',
+    'window_working_lock_good',
     {
       standard:
         'Window locks are a basic but essential layer of access control. Many residential burglaries involve entry through an unlocked or poorly secured window.',
@@ -566,7 +566,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Ground-floor windows have security film or reinforced glass where appropriate',
+    'ground_floor_windows_security',
     {
       standard:
         'Ground-floor windows are accessible entry points. Security film holds the glass together when struck, delaying entry and creating noise that alerts occupants and neighbors.',
@@ -575,7 +575,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Second-story windows not accessible via adjacent structures, trees, or climbing aids',
+    'second_story_windows_not',
     {
       standard:
         'Upper-floor windows can become entry points if nearby trees, trellises, pergolas, or other structures provide a climbing path.',
@@ -584,7 +584,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Alarm/security system installed and in working order (if applicable)',
+    'alarm_security_system_installed',
     {
       standard:
         'A monitored alarm system provides rapid notification to law enforcement and serves as a significant deterrent to potential intruders.',
@@ -593,7 +593,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Security signage/stickers displayed (even if no active system)',
+    'security_signage_stickers_displayed',
     {
       standard:
         'Visible security signage and window stickers deter opportunistic burglars by suggesting the home is monitored — research shows even signage alone reduces targeting.',
@@ -602,7 +602,7 @@ export const ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Valuable items not visible through windows from outside',
+    'valuable_items_not_visible',
     {
       standard:
         'Visible high-value items (electronics, jewelry, firearms) advertise targets to potential burglars conducting surveillance of the neighborhood.',
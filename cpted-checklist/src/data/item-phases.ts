@@ -0,0 +1,459 @@
+import { getPublishedItemAttributes } from './published-templates.js';
+import { baseZoneKey } from '../buildings.js';
+
+/**
+ * Checklist-item walkthrough phase classification.
+ *
+ * Items are either:
+ *   - 'exterior' — observable/checkable from outside the building (street view,
+ *      perimeter walk, parking, etc.)
+ *   - 'interior' — requires interior access (deadbolts, window locks, alarm
+ *      panels, sanctuary / admin / classroom checks)
+ *
+ * The assessor uses the phase filter to focus on the current part of their
+ * walkthrough (e.g., "Exterior" during the solo perimeter walk, then
+ * "Interior" when going inside with the owner/staff).
+ *
+ * Default: any item key not present in INTERIOR_ITEMS is treated as exterior,
+ * as is an item with no key at all (a row recorded against wording that has
+ * since been retired). This set is shared across all property types — items
+ * that appear in multiple templates share a key (e.g., the 1" deadbolt-throw
+ * item, 'deadbolt_installed_minimum_1') and so have the same phase regardless
+ * of template.
+ */
+
+export type Phase = 'exterior' | 'interior';
+
+const INTERIOR_ITEMS = new Set<string>([
+  // ─── Residential + Townhome: front door / entry hardware ───
+  'front_door_solid_core',
+  'deadbolt_installed_minimum_1',
+  'door_frame_solid_good',
+  'glass_panels_near_door',
+  'peephole_video_doorbell_installed',
+
+  // ─── Residential + Townhome: rear entry / windows ───
+  'rear_entry_door_solid',
+  'sliding_glass_doors_secondary',
+  'rear_windows_working_locks',
+
+  // ─── Residential + Townhome: garage interior ───
+  'interior_door_garage_home',
+  'overhead_garage_door_manual',
+  'emergency_release_cord_secured',
+
+  // ─── Lighting control (owner must confirm) ───
+  'exterior_lights_photocell_dusk',
+  'exterior_lights_photocell_timer',
+
+  // ─── Residential + Townhome: windows & interior security ───
+  'windows_high_use_rooms',
+  'window_treatments_allow_occupants',
+  'window_working_lock_good',
+  'ground_floor_windows_security',
+  'alarm_security_system_installed',
+
+  // ─── Townhome-specific interior items ───
+  'vents_transoms_shared_walls',
+
+  // ─── Worship + Christian Church: Main Entry / Lobby ───
+  'lobby_narthex_windows_sight',
+  'greeters_ushers_reception_staff',
+  'foyer_lobby_windows_sight',
+  'greeters_welcome_team_reception',
+  'main_entry_doors_can',
+  'vestibule_narthex_creates_transitional',
+  'foyer_lobby_creates_transitional',
+  'visitors_funneled_through_1',
+  'greeting_welcome_ministry_positioned',
+  'visitor_check_information_area',
+  'visitor_check_welcome_center',
+  'entry_area_clean_well',
+
+  // ─── Worship + Christian Church: Sanctuary / Worship Center ───
+  'ushers_safety_team_members',
+  'balcony_choir_loft_elevated',
+  'altar_chancel_area_visible',
+  'stage_platform_area_visible',
+  'sound_booth_av_production',
+  'sacristy_vestry_rooms_locked',
+  'tabernacle_sacred_objects_secured',
+  'access_altar_chancel_area',
+  'access_stage_platform_area',
+  'backstage_production_areas_locked',
+  'sound_booth_av_equipment',
+  'baptistry_area_locked_access',
+  'emergency_exits_clearly_marked',
+  'evacuation_plan_posted_congregation',
+  'panic_alarm_accessible_sound',
+  'worship_center_doors_can',
+
+  // ─── Worship + Christian Church: Fellowship / Community Spaces ───
+  'fellowship_hall_meeting_rooms',
+  'kitchen_area_serving_window',
+  'cafe_bookstore_area_open',
+  'gymnasium_recreation_areas_windows',
+  'meeting_rooms_can_locked',
+  'kitchen_lockable_storage_sharp',
+  'exterior_doors_fellowship_spaces',
+  'gymnasium_storage_rooms_locked',
+  'fellowship_spaces_clean_organized',
+  'emergency_exits_fellowship_areas',
+
+  // ─── Worship + Christian Church: Education / Children / Youth ───
+  'children_wing_area_controlled',
+  'classroom_doors_locks_operable',
+  'restrooms_near_children_areas',
+  'only_authorized_personnel_can',
+  'youth_student_ministry_building',
+  'youth_areas_lockdown_capability',
+  'exterior_doors_youth_building',
+  'hallways_children_areas_clear',
+  'hallways_children_youth_areas',
+  'classroom_doors_vision_panels',
+  'classroom_youth_activity_rooms',
+  'classrooms_lockdown_capability_doors',
+  'two_adult_rule_open',
+  'two_adult_rule_open_door',
+
+  // ─── Worship + Christian Church: Admin / Support ───
+  'administrative_offices_locked_unoccupied',
+  'financial_records_offering_storage',
+  'server_room_closet_locked',
+  'office_area_reception_front',
+  'no_isolated_offices_without',
+  'storage_rooms_maintenance_areas',
+  'key_control_system_place',
+
+  // ─── Worship + Christian Church: Surveillance (requires system access) ───
+  'camera_system_records_continuously',
+
+  // ─── Schools: Building Exterior (interior-observed vestibule details) ───
+  'single_defined_public_entry',
+  'front_entry_vestibule_glazing',
+  'secondary_entrance_exit_doors',
+  'emergency_exit_doors_alarmed',
+
+  // ─── Schools: Reception, Visitor Management & Administration ───
+  'reception_desk_clear_sight',
+  'extensive_use_windows_administrative',
+  'extensive_use_windows_administrative_areas',
+  'lobby_area_visible_adjacent',
+  'access_public_lobby_main',
+  'visitor_sign_badging_system',
+  'front_office_alyssa_law',
+  'access_school_staff_areas',
+  'counseling_student_services_areas',
+  'lobby_attractive_cheerful_inviting',
+  'signs_provide_directions_major',
+  'lobby_reception_area_clean',
+
+  // ─── Schools: Interior Corridors, Stairs & Lobbies ───
+  'interior_corridors_easily_monitored',
+  'interior_corridors_no_hiding',
+  'interior_stairs_do_not',
+  'locker_banks_present_arranged',
+  'interior_corridor_light_controls',
+  'interior_stair_balcony_light',
+  'access_elevators_limited_authorized',
+  'elevators_located_easy_view',
+  'authorized_adults_staff_administrators',
+  'lockers_used_adequately_spaced',
+  'interior_corridors_well_lit',
+  'interior_stairs_balconies_doors',
+
+  // ─── Schools: Classrooms & Instructional Spaces ───
+  'classroom_door_windows_allow',
+  'classroom_windows_allow_natural',
+  'furniture_lockers_other_objects',
+  'classrooms_can_secured_locked',
+  'secured_classroom_doors_can',
+  'classroom_doors_secured_classroom',
+  'door_glazing_coverings_opaque',
+  'classroom_exterior_visible_classroom',
+  'classroom_means_contact_front',
+  'posted_emergency_procedures_lockdown',
+  'classrooms_well_lit_good',
+  'school_suspension_areas_easily',
+
+  // ─── Schools: Assembly & Support Spaces ───
+  'cafeteria_entries_well_defined',
+  'auditorium_entries_well_defined',
+  'gymnasium_easily_monitored_access',
+  'library_media_center_entries',
+  'locker_rooms_shower_areas',
+  'access_cafeteria_kitchen_serving',
+  'cafeteria_entrances_secured_room',
+  'gymnasium_entrances_secured_room',
+  'light_controls_gym_locker',
+  'auditorium_backstage_sound_booth',
+  'cte_shop_lab_spaces',
+  'cafeteria_authorized_adults_visible',
+  'posted_rules_code_conduct',
+  'cafeteria_auditorium_gymnasium_library',
+  'sufficient_table_spacing_cafeteria',
+  'locker_rooms_well_lit',
+  'athletic_equipment_supply_storage',
+
+  // ─── Schools: Restrooms & Utility Areas ───
+  'multi_stall_restroom_entries',
+  'restroom_entries_easily_viewed',
+  'restrooms_solid_doors_vents',
+  'restroom_light_controls_secured',
+  'electrical_panels_mechanical_rooms',
+  'server_room_access_restricted',
+  'roof_access_hatches_secured',
+  'restroom_stall_doors_hardware',
+  'restrooms_well_lit_no',
+  'restroom_ceiling_treatments_do',
+  'toilets_urinals_lavatories_fixtures',
+
+  // ─── Schools: Safety Systems, Policies & Emergency Readiness ───
+  'camera_coverage_exists_primary',
+  'camera_system_records_continuously_adequate',
+  'dedicated_monitoring_point_sro',
+  'alyssa_law_mobile_panic',
+  'digital_school_mapping_data',
+  'electronic_access_control_badge',
+  'key_control_system_place_master',
+  'single_alert_activation_automatically',
+  'school_safety_specialist_appointed',
+  'threat_assessment_team_established',
+  'school_resource_officer_guardian',
+  'fortifyfl_anonymous_tip_line',
+  'two_way_radios_equivalent',
+  'multi_hazard_evacuation_plan',
+  'reunification_site_procedure_established',
+  'lockdown_fire_severe_weather',
+  'mass_notification_system_intercom',
+
+  // ─── Commercial Office: items mis-tagged as exterior that actually require
+  // SOC/alarm-panel/interview verification (re-phased v0.23.1) ───
+  'remote_seldom_used_edges',
+  'parking_areas_visible_occupied',
+  'cameras_provide_overlapping_coverage',
+  'after_hours_parking_restricted',
+  'full_exterior_perimeter_observable',
+  'secondary_exterior_doors_alarmed',
+  'roof_access_doors_roof',
+  'loading_dock_visible_regularly',
+  'exterior_approach_loading_dock',
+  'service_entries_janitor_vendor',
+  'vendors_delivery_drivers_contractors',
+  'ground_floor_windows_not',
+
+  // ─── Commercial Office: Lobby, Reception & Visitor Management (Z5 — all interior) ───
+  'reception_security_desk_direct',
+  'reception_staff_can_see',
+  'lobby_monitored_camera_recording',
+  'vestibule_transaction_barrier_separates',
+  'visitors_check_reception_issued',
+  'visitor_badges_visually_distinct',
+  'visitors_escorted_host_employee',
+  'panic_alarm_duress_button',
+  'transition_door_lobby_employee',
+  'clearly_posted_visitor_policy',
+  'reception_location_signage_orientation',
+  'reception_staff_workstation_view',
+  'visitor_management_system_paper',
+  'lobby_well_maintained_brightly',
+  'designated_customer_waiting_area',
+  'customer_meeting_rooms_preserve',
+  'reception_distinguishes_customer_visitors',
+
+  // ─── Commercial Office: Loading Dock, Mailroom & Service Entries (Z6 — interior subset) ───
+  'mailroom_intake_observable_another',
+  'mailroom_dedicated_access_control',
+  'documented_suspicious_package_protocol',
+  'mail_packages_screened_visual',
+  'mailroom_hvac_isolated_capable',
+  'package_receiving_log_records',
+  'dock_mailroom_clean_organized',
+
+  // ─── Commercial Office: Vertical Circulation (Z7 — all interior) ───
+  'elevator_interiors_camera_covered',
+  'stairwells_camera_covered_landings',
+  'floor_lobbies_elevator_vestibules',
+  'elevator_floor_selection_requires',
+  'stairwell_doors_permit_free',
+  'stairwell_re_entry_permitted',
+  'path_stairwell_discharge_exterior',
+  'roof_access_top_stairwell',
+  'stairwells_lit_code_required',
+  'floor_lobbies_elevator_vestibules_lit',
+  'stairwells_free_stored_materials',
+  'elevator_cab_interiors_clean',
+
+  // ─── Commercial Office: Office Floors & Workstations (Z8 — all interior) ───
+  'workstation_layout_preserves_sight',
+  'conference_rooms_glass_walls',
+  'cubicle_partition_heights_do',
+  'executive_suite_executive_assistant',
+  'conference_rooms_used_sensitive',
+  'print_copy_rooms_multifunction',
+  'employee_badging_policy_requires',
+  'floor_signage_wayfinding_establish',
+  'executive_restricted_floors_signed',
+  'clean_desk_practice_effect',
+  'workstations_configured_so_screens',
+  'employees_know_how_challenge',
+  'office_floors_clean_well',
+
+  // ─── Commercial Office: Critical & Restricted Areas (Z9 — all interior) ───
+  'doors_critical_rooms_visible',
+  'activity_around_mechanical_electrical',
+  'server_room_data_center',
+  'main_floor_level_telecom',
+  'hr_records_claim_files',
+  'mechanical_electrical_elevator_equipment',
+  'water_service_entry_fire',
+  'emergency_generator_fuel_storage',
+  'server_room_telecom_network',
+  'door_position_contacts_critical',
+  'access_logs_critical_rooms',
+  'critical_rooms_kept_clean',
+  'restricted_area_signage_current',
+
+  // ─── Commercial Office: Building Systems & Security Technology (Z10 — all interior) ───
+  'access_control_system_unified',
+  'access_control_system_can',
+  'camera_footage_retained_least',
+  'cameras_positioned_resolved_support',
+  'intrusion_alarm_system_monitored',
+  'mass_notification_system_place',
+  'security_system_integrated_fire',
+  'documented_panic_alarm_capability',
+  'security_technology_cameras_readers',
+  'documentation_drawings_credentials_lists',
+
+  // ─── Commercial Office: Workplace Violence & Active-Threat Readiness (Z11 — all interior / program) ───
+  'documented_workplace_violence_prevention',
+  'multidisciplinary_threat_assessment_team',
+  'confidential_employee_reporting_channel',
+  'pre_employment_screening_documented',
+  'customer_facing_staff_claims',
+  'written_emergency_action_plan',
+  'run_hide_fight_equivalent',
+  'lockdown_drills_conducted_within',
+  'floor_wardens_building_emergency',
+  'designated_assembly_rally_points',
+  'building_tested_capability_immediately',
+  'building_tested_capability_immediately_stop',
+  'designated_rooms_floors_lockable',
+  'mass_notification_devices_pa',
+  'floor_plans_riser_diagrams',
+  'security_director_documented_coordination',
+  'mass_notification_panic_alarm',
+  'eap_documents_evacuation_maps',
+  'post_incident_response_resources',
+]);
+
+export function getItemPhase(itemKey: string | null): Phase {
+  const published = itemKey === null ? undefined : getPublishedItemAttributes(itemKey);
+  if (published) return published.phase;
+  return itemKey !== null && INTERIOR_ITEMS.has(itemKey) ? 'interior' : 'exterior';
+}
+
+/**
+ * Items that are best observed/verified after dark.
+ *
+ * Used to power the dedicated "Night" walkthrough tab — the assessor opens it
+ * during the nighttime portion of a multi-time-of-day assessment and sees a
+ * flat list of every night-relevant item across all zones, no per-zone hunting.
+ *
+ * Tagging strategy:
+ *   1. Any item in a `lighting` principle (commercial Z2/Z4/Z7, worship/christian Z8)
+ *   2. Any item in the `exterior_lighting` zone (residential + townhome — whole zone)
+ *   3. Explicit one-offs in NIGHT_ITEMS (after-hours observability, motion lights
+ *      that live in other principles)
+ */
+const NIGHT_ITEMS = new Set<string>([
+  // Commercial Office — after-hours observability lives in access_control, not lighting
+  'after_hours_parking_restricted',
+]);
+
+export function isNightItem(score: {
+  zone_key: string;
+  principle: string;
+  item_key: string | null;
+}): boolean {
+  // An item of a published template is tagged explicitly in the editor.
+  const published = score.item_key === null ? undefined : getPublishedItemAttributes(score.item_key);
+  if (published) return published.night;
+  // Interior-tagged items are never night items, even when in a lighting
+  // principle. The assessor doesn't have building access after dark, so
+  // interior fixtures (Z7 stairwells, elevator vestibules) belong on the
+  // Interior walk, not the Night walk.
+  if (score.item_key !== null && INTERIOR_ITEMS.has(score.item_key)) return false;
+  if (score.item_key !== null && NIGHT_ITEMS.has(score.item_key)) return true;
+  if (baseZoneKey(score.zone_key) === 'exterior_lighting') return true;
+  if (score.principle === 'lighting') return true;
+  return false;
+}
+
+/**
+ * Field-verification hints for items that require interior access (SOC monitor,
+ * alarm panel, or security-director interview). Shows on the ChecklistItem card
+ * during scoring so the assessor knows what to ask / where to look.
+ *
+ * Most items don't need a hint — only those where verification path is
+ * non-obvious from the item wording itself.
+ */
+const VERIFICATION_HINTS = new Map<string, string>([
+  // Commercial office — SOC/alarm/interview verification
+  [
+    'remote_seldom_used_edges',
+    'Verify camera coverage of remote edges with the security director.',
+  ],
+  [
+    'parking_areas_visible_occupied',
+    'Look out from reception and upper-floor windows during the interior walk.',
+  ],
+  [
+    'cameras_provide_overlapping_coverage',
+    'At the SOC monitor, walk between cameras and have the security director confirm you appear on each camera with overlap at the edges.',
+  ],
+  [
+    'after_hours_parking_restricted',
+    'Ask the security director about after-hours arrival alerts and monitoring coverage.',
+  ],
+  [
+    'full_exterior_perimeter_observable',
+    'Review the camera-coverage map or SOC feeds with the security director.',
+  ],
+  [
+    'secondary_exterior_doors_alarmed',
+    'Verify door-position contacts at the intrusion alarm panel or SOC.',
+  ],
+  [
+    'roof_access_doors_roof',
+    'Verify the lock by accessing the top stairwell; verify alarm status at the panel.',
+  ],
+  [
+    'loading_dock_visible_regularly',
+    'Ask the dock supervisor about their sight line; check the dock camera feed at the SOC.',
+  ],
+  [
+    'exterior_approach_loading_dock',
+    'Confirm at the SOC monitor — verify the dock-approach camera captures license plates.',
+  ],
+  [
+    'service_entries_janitor_vendor',
+    'Verify alarm status at the panel; check door hardware up close during the interior walk.',
+  ],
+  [
+    'vendors_delivery_drivers_contractors',
+    'Review the dock check-in log and interview the dock supervisor about the vendor protocol.',
+  ],
+  [
+    'ground_floor_windows_not',
+    'Check from inside — verify sign coverage on the glazing is under 10% and that desks/file cabinets are at least 5 ft back from ground-floor windows. Especially important when the glass is mirrored or heavily tinted.',
+  ],
+]);
+
+export function getVerificationHint(itemKey: string | null): string | undefined {
+  if (itemKey === null) return undefined;
+  const published = getPublishedItemAttributes(itemKey);
+  if (published) return published.hint ?? undefined;
+  return VERIFICATION_HINTS.get(itemKey);
+}
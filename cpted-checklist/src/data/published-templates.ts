@@ -0,0 +1,160 @@
+import type { ZoneDefinition } from '../types.js';
+import type { ItemGuidance } from './item-guidance.js';
+import type { Phase } from './item-phases.js';
+import type { SchoolBand } from './school-zones.js';
+import type { TemplateId, TemplateRevision } from './template-versions.js';
+import type { CompletionRule } from './completion-rules.js';
+import { buildSchoolZones } from './school-zones.js';
+
+/**
+ * Checklist templates authored on the server rather than in these files.
+ *
+ * An admin edits a template in the PWA's template editor and publishes it;
+ * from then on the server holds that template, and every iPad downloads it and
+ * keeps it for offline use. Installing one here makes it what the rest of the
+ * package returns for its template — zones, guidance, phases, night tagging,
+ * hints and version history — in place of the bundled data, which remains the
+ * fallback for every template that has never been published and for a device
+ * that has not yet downloaded anything. Score weighting and completion rules
+ * come with it, read through each version's revision (see score-weights.ts).
+ *
+ * A published template continues its bundled history: its first version is
+ * the bundled current version plus one, and the revisions it carries are the
+ * ones published since. Once a template has been published, change it in the
+ * editor, not in the zone file — a bundled revision added afterwards would
+ * collide with the published ones.
+ */
+
+/** A checklist item as the editor holds it: the item and everything looked up by its key. */
+export interface AuthoredItem {
+  key: string;
+  text: string;
+  /** School template only: the bands it applies to. Omitted = all bands. */
+  bands?: SchoolBand[];
+  guidance: ItemGuidance;
+  phase: Phase;
+  /** On the Night walkthrough tab. Never true for an interior item. */
+  night: boolean;
+  /** Where to look or whom to ask, shown on the item card; null for none. */
+  hint: string | null;
+  /** Scored 1 or 2, caps the overall score (see score-weights.ts). */
+  critical?: boolean;
+}
+
+export interface AuthoredPrinciple {
+  key: string;
+  name: string;
+  items: AuthoredItem[];
+}
+
+export interface AuthoredZone {
+  key: string;
+  name: string;
+  order: number;
+  description: string;
+  /** How much the zone counts toward the overall score. Omitted = 1. */
+  weight?: number;
+  principles: AuthoredPrinciple[];
+}
+
+/** A whole template, as stored on the server and edited as a draft. */
+export interface TemplateDocument {
+  zones: AuthoredZone[];
+  /**
+   * Principle key → how much it counts, the same in every zone. A document
+   * published before weighting could be authored has none, and is weighted
+   * as the version before it was.
+   */
+  principle_weights?: Record<string, number>;
+  /** What a report must have before it is marked complete; likewise absent. */
+  completion_rules?: CompletionRule[];
+}
+
+/** A template as the server publishes it to the iPads. */
+export interface PublishedTemplate {
+  template_id: TemplateId;
+  version: number;
+  document: TemplateDocument;
+  /** The revisions published from the server, oldest first. */
+  revisions: TemplateRevision[];
+}
+
+interface Installed {
+  template: PublishedTemplate;
+  zones: Map<SchoolBand | null, ZoneDefinition[]>;
+  guidance: Map<string, ItemGuidance>;
+}
+
+const installed = new Map<TemplateId, Installed>();
+const itemAttributes = new Map<string, Pick<AuthoredItem, 'phase' | 'night' | 'hint'>>();
+let generation = 0;
+
+/**
+ * Replace the installed templates with `templates` — everything the server
+ * has published, as it last said. Templates not in the list go back to their
+ * bundled data.
+ */
+export function installPublishedTemplates(templates: PublishedTemplate[]): void {
+  installed.clear();
+  itemAttributes.clear();
+  for (const template of templates) {
+    const guidance = new Map<string, ItemGuidance>();
+    for (const zone of template.document.zones) {
+      for (const principle of zone.principles) {
+        for (const item of principle.items) {
+          guidance.set(item.key, item.guidance);
+          itemAttributes.set(item.key, { phase: item.phase, night: item.night, hint: item.hint });
+        }
+      }
+    }
+    installed.set(template.template_id, { template, zones: new Map(), guidance });
+  }
+  generation++;
+}
+
+export function getPublishedTemplate(templateId: TemplateId): PublishedTemplate | undefined {
+  return installed.get(templateId)?.template;
+}
+
+/** A published template's zones, for one school band or (null) for any other template. */
+export function getPublishedZones(
+  templateId: TemplateId,
+  band: SchoolBand | null,
+): ZoneDefinition[] | undefined {
+  const entry = installed.get(templateId);
+  if (!entry) return undefined;
+  let zones = entry.zones.get(band);
+  if (!zones) {
+    zones = band
+      ? buildSchoolZones(band, entry.template.document.zones)
+      : entry.template.document.zones.map((zone) => ({
+          ...zone,
+          principles: zone.principles.map((p) => ({
+            ...p,
+            items: p.items.map((item) => ({ key: item.key, text: item.text })),
+          })),
+        }));
+    entry.zones.set(band, zones);
+  }
+  return zones;
+}
+
+export function getPublishedGuidance(templateId: TemplateId): Map<string, ItemGuidance> | undefined {
+  return installed.get(templateId)?.guidance;
+}
+
+/**
+ * Phase, night tagging and hint for an item of a published template. Keyed by
+ * item key alone, like the bundled sets in item-phases.ts, so an item shared
+ * with another template carries its published attributes there too.
+ */
+export function getPublishedItemAttributes(
+  itemKey: string,
+): Pick<AuthoredItem, 'phase' | 'night' | 'hint'> | undefined {
+  return itemAttributes.get(itemKey);
+}
+
+/** Changes with every install — for caches of anything derived from templates. */
+export function getPublishedGeneration(): number {
+  return generation;
+}
@@ -2,19 +2,19 @@
  * School CPTED Item Guidance
  *
  * Shared across all four school types (elementary, middle, high, combined).
- * Keys are exact item_text strings from school-zones.ts. Used by the PDF
+ * Keys are the item keys from school-zones.ts. Used by the PDF
  * generator to auto-explain items scored 1 (Critical) or 2 (Deficient).
  *
  * Guidance blends CPTED doctrine, Florida statute (Alyssa's Law, MSD Act,
  * HB 301, HB 1421), and PASS / CISA K-12 leading practices.
  */
 
-import type { ItemGuidance } from './item-guidance';
+import type { ItemGuidance } from './item-guidance.js';
 
 export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 1: Campus Perimeter & Approach ─────────────────────────
   [
-    'Property boundaries are clearly delineated from adjacent properties',
+    'property_boundaries_clearly_delineated',
     {
       standard:
         'Clear boundary definition — fencing, landscape features, walls, or signage — tells approaching visitors, students, and offenders where school-controlled territory begins. Ambiguous boundaries invite trespass and reduce community sense of guardianship.',
@@ -23,7 +23,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter fencing allows for natural surveillance of school grounds',
+    'perimeter_fencing_allows_natural',
     {
       standard:
         'Fencing should define territory without blinding it. Solid privacy fencing creates concealment on both sides; see-through (wrought-iron, aluminum picket, or open-weave chain-link) preserves surveillance from the street, neighbors, and passing patrols.',
@@ -32,7 +32,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Remote or seldom-used areas of the property are visible from occupied buildings, pedestrian pathways, or vehicular routes',
+    'remote_seldom_used_areas',
     {
       standard:
         'Areas that no one can see become hiding places, vandalism targets, and loitering zones. Every part of a school campus should be overlooked by at least one occupied building, active pathway, or camera.',
@@ -41,7 +41,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'School grounds are fenced appropriately to the campus context (full perimeter where feasible; at minimum around student play/recess areas)',
+    'school_grounds_fenced_appropriately',
     {
       standard:
         'Fencing is a territorial-reinforcement and access-control tool. Elementary campuses with active play areas should have full play-zone fencing; larger secondary campuses should at minimum fence high-risk boundaries (adjacent to wooded or commercial parcels).',
@@ -50,7 +50,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Fencing is in good repair with no holes, gaps, or compromised sections',
+    'fencing_good_repair_no_holes',
     {
       standard:
         'A damaged fence is worse than no fence — it advertises neglect while providing no real barrier. Gaps in the perimeter are classic intruder-access points and often align with an established shortcut path.',
@@ -59,7 +59,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Knox Box has been installed at a first-responder-visible location for after-hours access',
+    'knox_box_installed_first',
     {
       standard:
         'A Knox Box gives fire and law-enforcement personnel keys to the facility during emergencies without forcing entry. Florida fire code and most local jurisdictions require one; placement and master-key inventory must be current.',
@@ -68,7 +68,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicle bollards, wheel stops, or landscaped berms protect the primary building entry from vehicle ramming',
+    'vehicle_bollards_wheel_stops',
     {
       standard:
         'Unprotected glass entries are vulnerable to vehicle-ramming attacks (deliberate or accidental). Physical standoff — bollards, berms, concrete planters — is the PASS 7th-edition recommendation for K-12 entries facing parking or drive lanes.',
@@ -77,7 +77,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Seldom-used perimeter gates or areas are secured to prevent unauthorized access',
+    'seldom_used_perimeter_gates',
     {
       standard:
         'Service gates, event-only gates, and maintenance access points that are rarely used accumulate damage, bypass workarounds, and sometimes intentional breaches. Any gate not actively used during the day should be locked and inspected weekly.',
@@ -86,7 +86,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Signs at the property perimeter direct approaching vehicles and pedestrians to the appropriate entries',
+    'signs_property_perimeter_direct',
     {
       standard:
         'Wayfinding is access control. Clear signage funnels legitimate visitors to the visitor entry and makes deviation (a driver approaching a service gate, a pedestrian crossing a fence line) conspicuous to observers.',
@@ -95,7 +95,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'An attractive, visible school-name sign is posted near the primary entry',
+    'attractive_visible_school_name',
     {
       standard:
         'School identification is both a wayfinding aid and a territorial marker. A prominent, well-maintained sign signals active ownership and helps first responders locate the correct building in an emergency.',
@@ -104,7 +104,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Trees and shrubs along the perimeter follow CPTED standards (shrubs trimmed below 2 ft, canopy above 6 ft) to preserve sight lines',
+    'trees_shrubs_along_perimeter',
     {
       standard:
         'The "2-foot / 6-foot rule" keeps the sight line between 2 ft and 6 ft open — the height at which an adult stands. Overgrown landscaping creates concealment at exactly the height where natural surveillance matters most.',
@@ -113,7 +113,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter is free of graffiti, litter, or signs of neglect that signal reduced guardianship',
+    'perimeter_free_graffiti_litter_signs',
     {
       standard:
         'Image and maintenance are core CPTED principles. A neglected perimeter — graffiti, trash, broken fixtures — signals that nobody is watching or caring, which invites escalating incidents (broken-windows theory).',
@@ -122,7 +122,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'There are no unattractive barriers such as barbed wire or razor wire on the school grounds',
+    'no_unattractive_barriers_such',
     {
       standard:
         'Barbed and razor wire signal "prison" rather than "school" and are inappropriate for student-facing environments. They also create legal liability (student injuries) and hurt community perception.',
@@ -133,7 +133,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 2: Parking, Drop-off & Bus Loops ───────────────────────
   [
-    'Parking lots are easily monitored from adjacent buildings or dedicated camera coverage',
+    'parking_lots_easily_monitored',
     {
       standard:
         'Parking lots are the highest-incident zone on most campuses (vehicle break-ins, fights after school, unauthorized entry). They must be observable from a staffed position or by active camera coverage, especially during arrival and dismissal.',
@@ -142,7 +142,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor parking is visible from adjacent administrative offices',
+    'visitor_parking_visible_adjacent',
     {
       standard:
         'Visitor parking adjacent to admin lets reception staff observe arriving visitors before they enter the building — a key defense against hostile or unauthorized arrivals. PASS 7th ed. and CDC CSA both emphasize this adjacency.',
@@ -151,7 +151,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parent drop-off/pickup areas are easily monitored by staff and/or cameras',
+    'parent_drop_off_pickup',
     {
       standard:
         'Drop-off and pickup concentrate hundreds of students and parents in a short window. Active supervision prevents abductions, custody incidents, fights, and traffic accidents.',
@@ -160,7 +160,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bus unloading/loading areas are easily monitored',
+    'bus_unloading_loading_areas',
     {
       standard:
         'Bus loops are another concentration point for students and a common location for bullying, runaway incidents, and stranger contact. Supervision is required during every arrival and departure.',
@@ -169,7 +169,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parent drop-off/pickup location is clearly marked by signage, pavement, and curb treatments',
+    'parent_drop_off_pickup_location',
     {
       standard:
         'Clearly marked drop-off zones are a form of access control — they funnel traffic predictably and make anyone deviating (idling in the wrong lane, picking up from the wrong zone) easy to spot.',
@@ -178,7 +178,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Students are dropped off and picked up only at authorized locations',
+    'students_dropped_off_picked',
     {
       standard:
         'Unauthorized drop-off locations (back lots, staff parking, off-campus pullouts) break the supervision chain. The student is handed off outside adult view — a known vector for truancy, custody violations, and abduction.',
@@ -187,7 +187,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bus unloading/loading areas are clearly marked by signage, pavement, and/or curb treatments',
+    'bus_unloading_loading_areas_clearly',
     {
       standard:
         'Separating bus traffic from parent and pedestrian traffic with clear pavement and curb treatments prevents pedestrian strikes and streamlines evacuation.',
@@ -196,7 +196,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor parking is located directly adjacent to the main administrative entrance',
+    'visitor_parking_located_directly',
     {
       standard:
         'Visitor parking adjacent to admin forces every visitor through the main entry and keeps them within line-of-sight during their walk to the door. Distant visitor parking invites casual wandering across the campus.',
@@ -205,7 +205,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot entrances and exits are clearly marked',
+    'parking_lot_entrances_exits',
     {
       standard:
         'Clear lot entrances/exits are both a traffic-safety measure and an access-control one — marked routes make unauthorized entries obvious and document who entered where via cameras at the gate.',
@@ -214,7 +214,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secondary vehicular entries are secured during school hours',
+    'secondary_vehicular_entries_secured',
     {
       standard:
         'Service drives, back-lot entries, and event-only gates should be locked or chained during school hours. Open secondary entries create uncontrolled vehicle access paths.',
@@ -223,7 +223,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Student parking lot uses access control (gate, decal enforcement, or monitored entry)',
+    'student_parking_lot_uses',
     {
       standard:
         'High school student parking is a recurring security hot spot. Decal-based access, perimeter gating, and monitored entry all deter non-student vehicles and create accountability for lot incidents.',
@@ -232,7 +232,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Delivery activities follow a defined route that does not cross student movement zones',
+    'delivery_activities_follow_defined',
     {
       standard:
         'Deliveries (food service, supplies, custodial vendors) bring large vehicles and unfamiliar adults onto campus. Routing them through student movement zones during arrival/dismissal creates preventable conflict and safety risk.',
@@ -241,7 +241,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking areas are delineated for staff, visitors, and (where applicable) students',
+    'parking_areas_delineated_staff',
     {
       standard:
         'Separating parking types is a territorial-reinforcement tool. It lets staff quickly spot misplaced vehicles (a non-permit car in student parking, a non-staff car in staff parking) and simplifies enforcement.',
@@ -250,7 +250,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All parking spaces are clearly marked',
+    'parking_spaces_clearly_marked',
     {
       standard:
         'Clear striping prevents double-parking, maintains orderly flow, and supports the image/maintenance principle. Faded or missing stripes signal neglect.',
@@ -259,7 +259,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicular travel routes on school property are clearly marked and in good condition',
+    'vehicular_travel_routes_school',
     {
       standard:
         'Marked and maintained routes prevent pedestrian/vehicle conflicts, organize traffic flow during peak periods, and support emergency vehicle access.',
@@ -268,7 +268,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Authorized adults are visible and available for assistance at parent drop-off and bus areas during arrivals and departures',
+    'authorized_adults_visible_available',
     {
       standard:
         'Visible duty staff is both a supervision tool and a deterrent. Students know an adult is watching; would-be offenders see an active guardianship zone and select elsewhere.',
@@ -277,7 +277,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lots are well lit during nighttime and early-morning operations',
+    'parking_lots_well_lit',
     {
       standard:
         'Before/after-school events, athletic practices, and adult-ed classes put the lot in use after dark. Poor lighting correlates strongly with vehicle break-ins and after-event altercations.',
@@ -286,7 +286,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lots are in good condition with no signs of vandalism',
+    'parking_lots_good_condition',
     {
       standard:
         'Lot condition signals guardianship. Vandalism left unrepaired invites repeat incidents and broader deterioration.',
@@ -297,7 +297,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 3: Grounds, Playgrounds & Outdoor Areas ────────────────
   [
-    'Pedestrian pathways on school property are easily monitored',
+    'pedestrian_pathways_school_property',
     {
       standard:
         'Pathways between buildings are student-heavy during passing periods and often become loitering zones after school. Natural surveillance from classrooms/admin or supervision from duty staff is essential.',
@@ -306,7 +306,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pedestrian pathways and gathering areas are visible from occupied buildings',
+    'pedestrian_pathways_gathering_areas',
     {
       standard:
         'Casual supervision by adults in adjacent buildings is the strongest CPTED surveillance tool — it is continuous, low-cost, and integrated into normal operations.',
@@ -315,7 +315,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Playground areas are visible from administrative and classroom windows',
+    'playground_areas_visible_administrative',
     {
       standard:
         'Elementary playgrounds are lift-and-grab incident hotspots. Direct visual connection from admin and classrooms provides continuous supervision and rapid response to any incident.',
@@ -324,7 +324,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior athletic areas are easily monitored',
+    'exterior_athletic_areas_easily',
     {
       standard:
         'After-hours athletic areas host practices, community events, and often loitering or vandalism. Camera coverage and lighting let both on-site staff and after-hours patrols maintain surveillance.',
@@ -333,7 +333,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bike racks are easily monitored',
+    'bike_racks_easily_monitored',
     {
       standard:
         'Bikes are frequently stolen from inadequately supervised racks. Location matters more than lock quality — a rack next to the front office is almost never targeted.',
@@ -342,7 +342,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'There are no concealment hiding places created by landscaping or fencing',
+    'no_concealment_hiding_places',
     {
       standard:
         'Dense landscaping, opaque fencing, and structural gaps create concealment where offenders can watch, loiter, or stage. Maintaining open sight lines is the foundational natural-surveillance move.',
@@ -351,7 +351,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to dumpsters is controlled (enclosed, locked, or monitored)',
+    'access_dumpsters_controlled_enclosed',
     {
       standard:
         'Dumpsters are classic concealment zones and are used to hide contraband, stolen items, and sometimes weapons. Enclosed and locked dumpster areas eliminate this.',
@@ -360,7 +360,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No hiding places exist in or around dumpster areas',
+    'no_hiding_places_exist',
     {
       standard:
         'The space around a dumpster (between the dumpster and the wall, behind the enclosure, inside the enclosure on the non-gate side) must also be free of concealment.',
@@ -369,7 +369,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Site utilities (electrical vaults, HVAC, gas meters) are secured with locked enclosures',
+    'site_utilities_electrical_vaults',
     {
       standard:
         'Site utilities are targets for sabotage and accidents. Electrical and gas meter tampering can cause fire, outages, or gas leaks. Locked enclosures prevent casual access.',
@@ -378,7 +378,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Playground equipment is installed to restrict climbing access onto adjacent roofs or upper levels',
+    'playground_equipment_installed_restrict',
     {
       standard:
         'Playground structures near buildings have been used as climbing aids to access roofs and upper-level windows. Equipment height and placement should eliminate this.',
@@ -387,7 +387,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Athletic fields/stadium have controlled access during non-event hours',
+    'athletic_fields_stadium_controlled',
     {
       standard:
         'After-hours stadium and field access is a recurring vandalism, trespass, and liability issue. Gating during non-event hours deters casual use and limits school-district exposure.',
@@ -396,7 +396,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Pedestrian pathways are separated from vehicular routes by curbing, color markings, landscaping, or other physical barriers',
+    'pedestrian_pathways_separated_vehicular',
     {
       standard:
         'Mixing pedestrians and vehicles leads to strikes, especially during arrival and dismissal. Physical separation (even just a painted divider with reflective markers) materially reduces incidents.',
@@ -405,7 +405,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Posted rules are located at key points around the school grounds (playground, athletic areas, bike racks)',
+    'posted_rules_located_key',
     {
       standard:
         'Posted rules support territorial reinforcement and make violations enforceable. "No skateboarding past 4 PM" or "Students only" communicates that the space is actively managed.',
@@ -414,7 +414,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Outdoor learning areas, when present, are well-defined and supervisable',
+    'outdoor_learning_areas_present',
     {
       standard:
         'Outdoor learning spaces activate otherwise underused campus areas, creating positive use and casual supervision. But they must be defined (not just an open patch) and supervisable by a teacher from a single vantage.',
@@ -423,7 +423,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'School grounds are in good condition and enhanced with landscaping, student artwork, or similar elements that demonstrate active ownership',
+    'school_grounds_good_condition',
     {
       standard:
         'Beautification and maintenance signal active guardianship. Student-created enhancements (murals, gardens, art installations) also build territorial pride and reduce vandalism targeting.',
@@ -432,7 +432,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No signs of graffiti or vandalism on grounds or outdoor equipment',
+    'no_signs_graffiti_vandalism',
     {
       standard:
         'Unremediated graffiti invites more graffiti — the broken-windows principle. Same-day removal is a published best practice for school and community settings.',
@@ -441,7 +441,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Landscaping does not provide easy access to roofs, windows, or upper levels',
+    'landscaping_does_not_provide',
     {
       standard:
         'Mature trees close to walls, trellises, decorative walls, and dense shrubs all provide climbing aids. Offenders have used these to access roofs and upper-level windows in documented incidents.',
@@ -450,7 +450,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bike racks and enclosures are in good condition',
+    'bike_racks_enclosures_good',
     {
       standard:
         'A damaged rack signals neglect and often gets ignored — bikes park nearby rather than in the rack, undoing the security benefit.',
@@ -461,7 +461,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 4: Building Exterior & Public Entry ────────────────────
   [
-    'Public entry is located adjacent to the administration area and visitor parking',
+    'public_entry_located_adjacent',
     {
       standard:
         'Co-locating the public entry, admin office, and visitor parking creates a single defensible choke point. Visitors walk from a visible lot through a visible entry into a staffed office — natural surveillance at every step.',
@@ -470,7 +470,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Extensive windows and glazed doors at the public entry enhance natural surveillance',
+    'extensive_windows_glazed_doors',
     {
       standard:
         'Glass at the entry allows two-way visibility — visitors see an open, staffed building; staff see approaching visitors. Solid or tiny-window entries feel fortified but defeat natural surveillance.',
@@ -479,7 +479,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Courtyards are visible from the windows and doors of surrounding school buildings',
+    'courtyards_visible_windows_doors',
     {
       standard:
         'Interior courtyards can become concealment zones if surrounded by windowless walls. Active courtyards should have windows, doors, and occupied spaces facing inward.',
@@ -488,7 +488,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior stairs, balconies, ramps, and upper-level corridors are visible from windows or doors of school buildings, parking lots, and/or activity areas',
+    'exterior_stairs_balconies_ramps',
     {
       standard:
         'Exterior circulation (breezeways, stairs, open-air corridors) must be overlooked by occupied space — otherwise they become hiding and ambush zones.',
@@ -497,7 +497,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior stairs do not create hiding or hard-to-see areas',
+    'exterior_stairs_do_not',
     {
       standard:
         'Stairs with solid risers, enclosed sides, or dead-end landings create concealment spots. Open-riser, transparent-side stairs eliminate the hiding opportunity.',
@@ -506,7 +506,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A single, defined public entry is enforced during school hours (fortified vestibule / mantrap or equivalent)',
+    'single_defined_public_entry',
     {
       standard:
         'The single-point-of-entry model is the Florida FDOE and PASS 7th-edition cornerstone. All visitors enter through one hardened vestibule, get credentialed, and are then buzzed into the school interior. Multiple unstaffed entry points defeat every other hardening measure.',
@@ -515,7 +515,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    "Front-entry vestibule glazing is ballistic-resistant, laminated, or protected with security film rated for forced-entry delay",
+    'front_entry_vestibule_glazing',
     {
       standard:
         'The vestibule is the last hardened layer between an attacker and the school interior. Standard glass is defeated in seconds. Laminated security glass or rated security film buys crucial seconds for lockdown and police response.',
@@ -524,7 +524,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secondary entrance/exit doors are secured in the closed position and not propped open',
+    'secondary_entrance_exit_doors',
     {
       standard:
         'A single propped door defeats the entire single-point-of-entry model. Staff commonly prop doors for convenience during staff moves, recess returns, and deliveries — training and enforcement matter as much as hardware.',
@@ -533,7 +533,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency-exit doors are alarmed or monitored to deter unauthorized outside access',
+    'emergency_exit_doors_alarmed',
     {
       standard:
         'Emergency exits must be operable from inside (fire code) but should not permit outside access. Alarms and monitoring deter unauthorized exit (students slipping out) and entry (propping by accomplices).',
@@ -542,7 +542,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All buildings have highly visible identification names and/or numbers for first-responder access',
+    'buildings_highly_visible_identification',
     {
       standard:
         'On multi-building campuses, first responders must identify the target building from the driveway in an emergency. Highly visible names/numbers reduce critical response seconds.',
@@ -551,7 +551,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Portable classrooms display highly visible identification names/numbers',
+    'portable_classrooms_display_highly',
     {
       standard:
         'Portables are often the most difficult buildings for first responders to find because they\'re numbered non-sequentially and tucked into back lots. Clear identification is critical.',
@@ -560,7 +560,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Spaces under portables, including stairs and ramps, are screened to limit access',
+    'spaces_under_portables_including',
     {
       standard:
         'The space under a raised portable is a classic concealment zone — used for contraband stash, hiding during lockdown avoidance, and after-hours loitering.',
@@ -569,7 +569,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Portables are secured when not in use',
+    'portables_secured_not_use',
     {
       standard:
         'Unlocked portables after hours are vandalism and theft targets and create an entry point to the campus interior if they connect via breezeway or covered walkway.',
@@ -578,7 +578,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Screening walls and/or architectural features do not allow easy access to the roof or upper levels',
+    'screening_walls_architectural_features',
     {
       standard:
         'Screening walls, trash enclosures, and architectural features adjacent to buildings are frequently used as climbing aids to access the roof. Roof access enables entry through skylights, HVAC penetrations, and upper windows.',
@@ -587,7 +587,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Covers for exterior walkways and stairs are designed to limit easy access to roofs, windows, or upper levels',
+    'covers_exterior_walkways_stairs',
     {
       standard:
         'Covered walkway roofs are a common climbing path to building roofs because they abut the wall at a climbable height.',
@@ -596,7 +596,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Public entry is well defined with architectural features, signs, lighting, artwork, landscaping, and/or landmarks such as flags',
+    'public_entry_well_defined',
     {
       standard:
         'The public entry should read as the welcoming front door — both to invite legitimate visitors and to make any attempted entry elsewhere conspicuous.',
@@ -605,7 +605,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Courtyards are enhanced with landscaping, student artwork, or other physical means',
+    'courtyards_enhanced_landscaping_student',
     {
       standard:
         'Enhanced courtyards are actively used courtyards. Active use generates natural surveillance and discourages misuse.',
@@ -614,7 +614,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior walls, doors, and windows are in good condition',
+    'exterior_walls_doors_windows',
     {
       standard:
         'Condition reflects guardianship. Broken hardware, cracked glass, and failed seals invite further damage and create actual security gaps.',
@@ -623,7 +623,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No signs of graffiti on exterior walls',
+    'no_signs_graffiti_exterior',
     {
       standard:
         'Exterior graffiti is the most visible indicator of reduced guardianship — it broadcasts vulnerability to the neighborhood.',
@@ -632,7 +632,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Murals, artwork, landscaping, and/or other architectural treatments enhance blank or barren exterior walls',
+    'murals_artwork_landscaping_other',
     {
       standard:
         'Large blank walls are vandalism magnets. Activation with murals, artwork, or landscaping both enhances image and deters graffiti (vandals avoid walls that are already "owned").',
@@ -643,7 +643,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 5: Reception, Visitor Management & Administration ──────
   [
-    'Reception desk has clear sight lines to the public entry and approach',
+    'reception_desk_clear_sight',
     {
       standard:
         'Desk positioning is critical. Receptionist should face the entry, not sit with back to it (the problem flagged in the Volusia source document). Desk should see visitors approaching and entering.',
@@ -652,7 +652,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Extensive use of windows in administrative areas provides natural surveillance of adjoining interior spaces',
+    'extensive_use_windows_administrative',
     {
       standard:
         'Admin is the most continuously staffed area of the school. Interior windows into adjacent spaces (lobby, corridor, secretary workroom) leverage that constant presence into continuous surveillance.',
@@ -661,7 +661,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Extensive use of windows in administrative areas provides natural surveillance of the exterior',
+    'extensive_use_windows_administrative_areas',
     {
       standard:
         'Exterior-facing admin windows let reception see visitors approaching and entering the parking area. This is the foundational layer of visitor management.',
@@ -670,7 +670,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lobby area is visible from adjacent administrative offices',
+    'lobby_area_visible_adjacent',
     {
       standard:
         'Staff in admin offices should be able to see the lobby without leaving their desks. This creates continuous lobby supervision without dedicated duty assignment.',
@@ -679,7 +679,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access from the public lobby into the main school building is controlled (locked door, electronic access control, or staffed gate)',
+    'access_public_lobby_main',
     {
       standard:
         'The lobby/vestibule should be a secure buffer — visitors can enter from outside but cannot enter the main school without credentialing. This is the functional core of PASS single-point-of-entry.',
@@ -688,7 +688,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor sign-in and badging system is in place and actively used (e.g., Raptor, ID scan)',
+    'visitor_sign_badging_system',
     {
       standard:
         'ID-scan visitor systems (Raptor, Ident-A-Kid, Verkada, etc.) automatically check visitors against sex-offender and custody lists. Florida best practice for all K-12; required by many districts.',
@@ -697,7 +697,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Front office has an Alyssa\'s Law panic alert / silent panic button accessible from the reception position',
+    'front_office_alyssa_law',
     {
       standard:
         'Florida statute requires a Mobile Panic Alert System (MPAS) that integrates directly with the local PSAP. Reception is the first to encounter a hostile arrival and must be able to trigger the alert instantly.',
@@ -706,7 +706,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to school staff areas is controlled (badge, code, or staffed access)',
+    'access_school_staff_areas',
     {
       standard:
         'Staff-only areas (workrooms, teacher lounges, records rooms) should not be open to the public or unescorted visitors. Controlled access deters both unauthorized entry and insider misuse.',
@@ -715,7 +715,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Counseling and student-services areas have controlled access and are in good condition',
+    'counseling_student_services_areas',
     {
       standard:
         'Counseling spaces handle sensitive student records, mental-health information, and sometimes crisis-response interactions. They need controlled access and a maintained image that communicates trust.',
@@ -724,7 +724,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lobby is attractive, cheerful, and inviting — with signs clearly directing visitors to the office',
+    'lobby_attractive_cheerful_inviting',
     {
       standard:
         'An inviting lobby serves double duty: it welcomes legitimate visitors and signals active guardianship (clean, staffed, attended). Directional signs prevent visitors from wandering.',
@@ -733,7 +733,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Signs provide directions to major school areas (administrative offices, cafeteria, media center, auditorium, gymnasium, etc.)',
+    'signs_provide_directions_major',
     {
       standard:
         'Wayfinding signage reduces unauthorized wandering and helps first responders and new visitors navigate quickly. Good signage is a measured PASS recommendation.',
@@ -742,7 +742,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lobby and reception area are clean, well lit, and in good condition',
+    'lobby_reception_area_clean',
     {
       standard:
         'Condition and cleanliness reinforce the guardianship signal. A tired, dim lobby signals an unfocused school.',
@@ -753,7 +753,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 6: Interior Corridors, Stairs & Lobbies ────────────────
   [
-    'Interior corridors are easily monitored by staff during class changes, arrivals, and departures',
+    'interior_corridors_easily_monitored',
     {
       standard:
         'Hall monitoring is the core interior-supervision task. Visible staff at class changes, arrivals, and departures deters bullying, fights, tardiness, and unauthorized movement.',
@@ -762,7 +762,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior corridors have no hiding places (no recessed alcoves or unmonitored nooks)',
+    'interior_corridors_no_hiding',
     {
       standard:
         'Recessed alcoves, dead-end nooks, and architectural features create concealment zones where incidents cluster. Every corridor section should be surveillable by at least one camera or monitor position.',
@@ -771,7 +771,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior stairs do not create hiding or hard-to-see areas',
+    'interior_stairs_do_not',
     {
       standard:
         'Stairwells are disproportionately the site of fights, substance use, and bullying — they\'re enclosed and infrequently observed. Visibility treatments materially reduce incidents.',
@@ -780,7 +780,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Locker banks, when present, are arranged to maintain visibility (center lockers do not obstruct sight lines)',
+    'locker_banks_present_arranged',
     {
       standard:
         'Free-standing locker islands in the middle of a corridor create hidden rows behind them. Wall-mounted-only lockers preserve corridor sight lines.',
@@ -789,7 +789,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior corridor light controls are secured to prevent unauthorized access',
+    'interior_corridor_light_controls',
     {
       standard:
         'Unprotected light switches invite tampering (turning off lights during transitions to enable bullying or fights). Tamper-resistant or locked controls prevent this.',
@@ -798,7 +798,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior stair and balcony light controls are secured',
+    'interior_stair_balcony_light',
     {
       standard:
         'Same logic as corridor light switches — stairs are especially vulnerable because they\'re already low-surveillance zones.',
@@ -807,7 +807,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to elevators is limited to authorized individuals',
+    'access_elevators_limited_authorized',
     {
       standard:
         'Elevators are enclosed spaces where incidents have low visibility. Limiting use to staff, visitors with escorts, and students with documented need reduces unsupervised use.',
@@ -816,7 +816,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Elevators are located in easy-to-view areas with mirrors inside to eliminate hiding places',
+    'elevators_located_easy_view',
     {
       standard:
         'Elevator location and mirrors together provide the security layer for this enclosed space. Mirrors let the cab\'s interior be observed before entry.',
@@ -825,7 +825,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Authorized adults (staff, administrators, SRO/Guardian) are visible in interior corridors during arrivals, class changes, and departures',
+    'authorized_adults_staff_administrators',
     {
       standard:
         'Active, visible adult presence is the single most effective deterrent to interior-space incidents. The SRO/Guardian and admin should be visible in the corridor, not in the back office.',
@@ -834,7 +834,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lockers, where used, are adequately spaced to avoid crowding and see-through where possible',
+    'lockers_used_adequately_spaced',
     {
       standard:
         'Crowding at lockers is a bullying and theft hot spot. See-through metal-mesh lockers (where policy allows) also eliminate concealment inside the locker itself.',
@@ -843,7 +843,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior corridors are well lit and free of obstacles that impede orderly pedestrian flow',
+    'interior_corridors_well_lit',
     {
       standard:
         'Clutter in corridors — bookshelves, displays, equipment — reduces visibility and impedes rapid evacuation. Lighting gaps create concealment during peak hours.',
@@ -852,7 +852,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Interior stairs, balconies, doors, and windows are in good condition',
+    'interior_stairs_balconies_doors',
     {
       standard:
         'Condition reflects maintenance priority. Failed hardware, broken glass, and damaged stair treads create both safety and security issues.',
@@ -863,7 +863,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 7: Classrooms & Instructional Spaces ───────────────────
   [
-    'Classroom door windows allow natural surveillance into classrooms from the hallway',
+    'classroom_door_windows_allow',
     {
       standard:
         'Door windows allow administrators and hall monitors to verify classroom state without entering. Critical during lockdown — external monitors can assess whether a room is secure.',
@@ -872,7 +872,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom windows allow for natural surveillance of exterior spaces',
+    'classroom_windows_allow_natural',
     {
       standard:
         'Exterior-facing classroom windows turn every occupied classroom into a surveillance post for the adjacent campus area. Occupied classrooms should face the active campus.',
@@ -881,7 +881,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Furniture, lockers, or other objects do not compromise natural surveillance within the classroom',
+    'furniture_lockers_other_objects',
     {
       standard:
         'Tall furniture, storage cabinets, and interior lockers can create interior hiding spots inside a classroom. For lockdown scenarios, every square foot should be surveillable from a single teacher position.',
@@ -890,7 +890,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classrooms can be secured and locked down from the inside without the teacher exiting the room',
+    'classrooms_can_secured_locked',
     {
       standard:
         'Florida HB 1421 campus hardening. The historical practice of teachers exiting to lock doors from outside is a known vulnerability during active-threat events. All classroom doors must be lockable from inside.',
@@ -899,7 +899,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secured classroom doors can still be exited from inside in an emergency (no key required to egress)',
+    'secured_classroom_doors_can',
     {
       standard:
         'Fire code and life-safety requirement: doors must be operable from inside without a key, even when locked against intrusion. Non-compliant hardware creates fire evacuation liability.',
@@ -908,7 +908,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom doors are secured when the classroom is not in use',
+    'classroom_doors_secured_classroom',
     {
       standard:
         'Unlocked unoccupied classrooms are theft targets and potential hiding spots. Secured rooms protect equipment and reduce search area during lockdown.',
@@ -917,7 +917,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Door-glazing coverings or opaque strips are available and deployable during lockdown (block sight into the room)',
+    'door_glazing_coverings_opaque',
     {
       standard:
         'PASS 7th-edition best practice: door-window coverings that can be quickly deployed during lockdown prevent the attacker from identifying occupied rooms. Permanent coverings defeat everyday surveillance.',
@@ -926,7 +926,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Each classroom has an exterior-visible classroom number or ID (door or window placard) for tactical response',
+    'classroom_exterior_visible_classroom',
     {
       standard:
         'During tactical response (law enforcement sweep of a school), exterior-visible room numbers let officers match positions on the HB 301 digital mapping to physical rooms. Critical for locating the specific room under threat.',
@@ -935,7 +935,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Every classroom has a means to contact the front office or administration directly (phone, intercom, two-way radio, or mobile alert app)',
+    'classroom_means_contact_front',
     {
       standard:
         'Teachers must be able to summon help without leaving the classroom. Every classroom should have at least one independent communication channel to admin and/or the panic alert system.',
@@ -944,7 +944,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Posted emergency procedures, lockdown instructions, or Standard Response Protocol (SRP) signage is visible in each classroom',
+    'posted_emergency_procedures_lockdown',
     {
       standard:
         'Posted procedures reinforce training and give substitute teachers and visitors immediate guidance. Standard Response Protocol (SRP: Hold, Secure, Lockdown, Evacuate, Shelter) is the widely adopted framework.',
@@ -953,7 +953,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classrooms are well lit, in good condition, and free of clutter that would impede evacuation or lockdown',
+    'classrooms_well_lit_good',
     {
       standard:
         'Clutter obstructs evacuation, blocks sight lines during lockdown, and signals a distracted environment. Every classroom should have clear primary and secondary egress paths.',
@@ -962,7 +962,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'In-school suspension areas are easily monitored by staff',
+    'school_suspension_areas_easily',
     {
       standard:
         'ISS rooms concentrate at-risk students and can become incident hotspots if inadequately supervised. Active staff presence and line-of-sight are required.',
@@ -973,7 +973,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 8: Assembly & Support Spaces ───────────────────────────
   [
-    'Cafeteria entries are well-defined and easily monitored',
+    'cafeteria_entries_well_defined',
     {
       standard:
         'Cafeterias concentrate hundreds of students during meal periods. Defined entries and active monitoring prevent unauthorized entry, fights, and food-line disputes.',
@@ -982,7 +982,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Auditorium entries are well-defined and easily monitored',
+    'auditorium_entries_well_defined',
     {
       standard:
         'Auditoriums host large-group events including community functions. Defined entries and staffed monitoring during events are both security and fire-code requirements.',
@@ -991,7 +991,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Gymnasium is easily monitored and access to the underside of bleachers is limited',
+    'gymnasium_easily_monitored_access',
     {
       standard:
         'Gyms host PE, practices, and events. Bleacher undersides are classic concealment zones — used for contraband, hiding, and bullying.',
@@ -1000,7 +1000,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Library / media center entries are well-defined and monitored by staff/volunteers',
+    'library_media_center_entries',
     {
       standard:
         'Libraries are open gathering spaces often used during free periods. The entry is a natural choke point for monitoring and check-in.',
@@ -1009,7 +1009,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Locker rooms and shower areas are easily monitored by staff',
+    'locker_rooms_shower_areas',
     {
       standard:
         'Locker rooms have historically been underserved by adult supervision due to privacy concerns. Balanced monitoring — staff presence at entry, visible during changing windows — is achievable without violating privacy.',
@@ -1018,7 +1018,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to the cafeteria kitchen and serving areas is limited to authorized staff',
+    'access_cafeteria_kitchen_serving',
     {
       standard:
         'Kitchen access control is both a security and food-safety requirement. Unauthorized access enables contamination, theft, and equipment tampering.',
@@ -1027,7 +1027,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cafeteria entrances are secured when the room is not in use',
+    'cafeteria_entrances_secured_room',
     {
       standard:
         'Outside meal hours, an open cafeteria is a large unsupervised space. Secured doors prevent unauthorized gathering and loitering.',
@@ -1036,7 +1036,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Gymnasium entrances are secured when the room is not in use',
+    'gymnasium_entrances_secured_room',
     {
       standard:
         'Gyms are frequent after-hours vandalism targets. Secured entrances protect equipment and deter unauthorized entry from covered walkways or adjacent rooms.',
@@ -1045,7 +1045,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Light controls in gym and locker rooms are secured to prevent unauthorized access',
+    'light_controls_gym_locker',
     {
       standard:
         'Unsecured light switches are commonly tampered with to create concealment during incidents. Locker rooms and gyms are high-incident zones where this matters most.',
@@ -1054,7 +1054,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Auditorium backstage, sound booth, and production areas are secured when not in use',
+    'auditorium_backstage_sound_booth',
     {
       standard:
         'Backstage and production zones contain valuable equipment, catwalks, and hidden spaces that can be misused for concealment or unauthorized gathering.',
@@ -1063,7 +1063,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'CTE / shop / lab spaces (if present) have controlled access and secured tool storage',
+    'cte_shop_lab_spaces',
     {
       standard:
         'Shop and lab spaces contain tools, chemicals, and equipment that must not leave the space. Controlled access and locked tool storage protect both security and OSHA compliance.',
@@ -1072,7 +1072,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cafeteria has authorized adults visible during meal periods',
+    'cafeteria_authorized_adults_visible',
     {
       standard:
         'Adult presence during meal periods deters fights, bullying, and food-service disputes. Visible authority is a primary natural-surveillance tool.',
@@ -1081,7 +1081,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Posted rules or code of conduct displayed at entries to gym, cafeteria, and library',
+    'posted_rules_code_conduct',
     {
       standard:
         'Posted rules make expectations enforceable and visible. They also support territorial reinforcement — the space has rules because someone cares about it.',
@@ -1090,7 +1090,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Cafeteria, auditorium, gymnasium, and library are in good condition',
+    'cafeteria_auditorium_gymnasium_library',
     {
       standard:
         'Assembly-space condition reflects institutional priority. Degraded assembly spaces signal neglect and invite further damage.',
@@ -1099,7 +1099,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sufficient table spacing in the cafeteria allows orderly circulation',
+    'sufficient_table_spacing_cafeteria',
     {
       standard:
         'Crowded cafeteria layouts cause fights, spills, and bottlenecks at egress. PASS recommends defined circulation lanes between tables.',
@@ -1108,7 +1108,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Locker rooms are well lit in all areas including shower and restroom zones',
+    'locker_rooms_well_lit',
     {
       standard:
         'Dim locker rooms enable concealment. Full illumination in every zone — including showers and restrooms — is essential for natural surveillance.',
@@ -1117,7 +1117,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Athletic equipment and supply storage rooms are locked when not in use',
+    'athletic_equipment_supply_storage',
     {
       standard:
         'Athletic storage rooms hold equipment that can be misused as weapons (bats, clubs) and valuable supplies. They also become hiding spaces if left unlocked.',
@@ -1128,7 +1128,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 9: Restrooms & Utility Areas ───────────────────────────
   [
-    'Multi-stall restroom entries use an open zigzag / maze design rather than a single solid door',
+    'multi_stall_restroom_entries',
     {
       standard:
         'Zigzag / maze entries provide privacy visual block without a solid door. Critical: they allow auditory surveillance from the adjacent corridor, meaning staff can hear incidents and intervene. Solid-door restrooms are a historically high-incident zone.',
@@ -1137,7 +1137,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restroom entries are easily viewed from other active areas',
+    'restroom_entries_easily_viewed',
     {
       standard:
         'Restroom entry should be in the corridor sight line — not tucked into a remote hall wing. Visibility of the entry by passing staff creates strong natural surveillance.',
@@ -1146,7 +1146,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restrooms with solid doors have vents that allow auditory surveillance',
+    'restrooms_solid_doors_vents',
     {
       standard:
         'Where architecture mandates solid-door restrooms (elementary, single-occupancy), vents or transoms allow staff in the adjacent corridor to hear incidents occurring inside — a partial compensation.',
@@ -1155,7 +1155,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restroom light controls are secured to prevent unauthorized access',
+    'restroom_light_controls_secured',
     {
       standard:
         'Switching off restroom lights during an incident enables concealment. Locked switches or occupancy-sensor control prevents tampering.',
@@ -1164,7 +1164,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Electrical panels, mechanical rooms, and utility closets are locked',
+    'electrical_panels_mechanical_rooms',
     {
       standard:
         'Electrical panels can be tampered with to cause power loss (a tactic in some active-threat events). Mechanical rooms contain HVAC, water, and gas controls.',
@@ -1173,7 +1173,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'IT / server room access is restricted to authorized personnel and logged',
+    'server_room_access_restricted',
     {
       standard:
         'IT rooms contain student records, attendance systems, camera recordings, and Alyssa\'s Law hardware. Access must be restricted and logged for audit.',
@@ -1182,7 +1182,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Roof access hatches are secured and alarmed',
+    'roof_access_hatches_secured',
     {
       standard:
         'Roof access via interior hatches or exterior ladders is a recurring intrusion vector. Secure hatches and alarm openings to deter and detect unauthorized use.',
@@ -1191,7 +1191,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restroom stall doors, hardware, and locks are in good condition',
+    'restroom_stall_doors_hardware',
     {
       standard:
         'Damaged stalls, broken latches, and missing doors are both maintenance issues and privacy/safety concerns. They also signal neglect.',
@@ -1200,7 +1200,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restrooms are well lit with no unusually foul odors',
+    'restrooms_well_lit_no',
     {
       standard:
         'Lighting and odor are both image/maintenance indicators. A well-maintained restroom signals active guardianship; a neglected one invites further neglect.',
@@ -1209,7 +1209,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restroom ceiling treatments do not provide access to a hiding place',
+    'restroom_ceiling_treatments_do',
     {
       standard:
         'Drop-ceiling tiles in restrooms have been used to conceal contraband, weapons, and sometimes intruders. Secure or solid ceilings eliminate this.',
@@ -1218,7 +1218,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Toilets, urinals, lavatories, and fixtures are in good condition',
+    'toilets_urinals_lavatories_fixtures',
     {
       standard:
         'Fixture condition reflects maintenance priority and directly affects student dignity. Broken fixtures also create hygiene, plumbing, and mold issues.',
@@ -1229,7 +1229,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
 
   // ─── Zone 10: Safety Systems, Policies & Emergency Readiness ─────
   [
-    'Camera coverage exists at all primary entries, main corridors, parking lots, and bus loading / drop-off zones',
+    'camera_coverage_exists_primary',
     {
       standard:
         'Camera coverage of all entries, primary circulation, and vehicle zones provides both real-time monitoring and post-incident evidence. PASS and CISA K-12 guidance both treat camera coverage as a baseline.',
@@ -1238,7 +1238,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Camera system records continuously with adequate storage (minimum 30 days) and accurate timestamps',
+    'camera_system_records_continuously_adequate',
     {
       standard:
         'Retention period matters — incidents often aren\'t reported for days or weeks. 30-day retention is a widely used floor; FDOE encourages longer. Accurate timestamps are essential for investigation.',
@@ -1247,7 +1247,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'A dedicated monitoring point (SRO office, front desk, or admin) provides real-time camera view during school hours',
+    'dedicated_monitoring_point_sro',
     {
       standard:
         'Cameras are most effective when actively monitored. A dedicated monitoring station with a duty-eligible viewer during school hours turns a passive-recording system into an active-deterrent one.',
@@ -1256,7 +1256,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Alyssa\'s Law Mobile Panic Alert System (MPAS) is installed and staff have been trained; alert integrates directly with local PSAP (911)',
+    'alyssa_law_mobile_panic',
     {
       standard:
         'Florida statute requires every school to operate an MPAS integrating directly with the PSAP. Failure to integrate must be reported to the superintendent, vendor, and FDOE Office of Safe Schools within 24 hours.',
@@ -1265,7 +1265,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Digital school mapping data (HB 301) has been provided to the Sheriff\'s Office and first responders',
+    'digital_school_mapping_data',
     {
       standard:
         'HB 301 (2023) requires digital mapping data — floor plans, room IDs, utility shutoffs, camera locations — for first responders. Critical during tactical response; required to access the HB 301 grant funding.',
@@ -1274,7 +1274,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Electronic access control / badge system is used for staff entry to controlled areas',
+    'electronic_access_control_badge',
     {
       standard:
         'Badge access creates accountability, supports re-keying when staff leave, and enables zone-level access policies (staff-only, admin-only, custodial hours). Metal keys can\'t do any of this.',
@@ -1283,7 +1283,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Key control system is in place (master keys tracked, locks re-keyed when staff leave, spare keys secured)',
+    'key_control_system_place_master',
     {
       standard:
         'Key management is frequently the weakest link in school physical security. Untracked keys, infrequent re-keying, and loose spare keys undermine every hardening measure.',
@@ -1292,7 +1292,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Single-alert activation automatically triggers campus lockdown and notification across intercom, digital signage, and staff devices',
+    'single_alert_activation_automatically',
     {
       standard:
         'Alyssa\'s Law v2 evolution (and PASS leading practice): a single trigger should simultaneously activate PSAP alert, intercom announcement, digital signage display, and staff mobile notification. Coordinated response beats manual multi-step.',
@@ -1301,7 +1301,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'School Safety Specialist is appointed and all staff know who that person is',
+    'school_safety_specialist_appointed',
     {
       standard:
         'Florida HB 1421 requires a School Safety Specialist per district with duties including drills, threat assessment, training, and compliance. Awareness across the school is essential for utilization.',
@@ -1310,7 +1310,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Threat Assessment Team is established and meets per state requirements (Marjory Stoneman Douglas Act)',
+    'threat_assessment_team_established',
     {
       standard:
         'The MSD Public Safety Act requires every school to have a multidisciplinary Threat Assessment Team to evaluate concerning behaviors and intervene before escalation. Meeting cadence and documentation are statutory.',
@@ -1319,7 +1319,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'School Resource Officer or Guardian coverage is in place for all student hours, matching campus population and footprint',
+    'school_resource_officer_guardian',
     {
       standard:
         'MSD Act requires armed law-enforcement presence (SRO or qualified Guardian) at every public school during all student hours. Coverage must match population and footprint — large campuses often need multiple officers.',
@@ -1328,7 +1328,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'FortifyFL (anonymous tip line) is posted and publicized to students and staff',
+    'fortifyfl_anonymous_tip_line',
     {
       standard:
         'FortifyFL is the state-required anonymous tip line. Florida statute requires posting in every school. Utilization correlates with reporting — schools that publicize it see more early-warning reports.',
@@ -1337,7 +1337,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Two-way radios or equivalent communication devices are available to administration, SRO/Guardian, and duty staff',
+    'two_way_radios_equivalent',
     {
       standard:
         'During incidents, cell networks can fail and phones are slow. Dedicated two-way radios provide instant, reliable, group communication across admin, SRO, custodial, and duty staff.',
@@ -1346,7 +1346,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Multi-hazard evacuation plan is current, reviewed annually with law enforcement and fire, and posted as required',
+    'multi_hazard_evacuation_plan',
     {
       standard:
         'Florida statute requires a multi-hazard evacuation plan covering fires, hurricanes, shootings, and bomb threats. Annual review with law enforcement and fire is required. Posted in common areas.',
@@ -1355,7 +1355,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Reunification site and procedure are established, documented, and known to staff and families',
+    'reunification_site_procedure_established',
     {
       standard:
         'Post-evacuation reunification is logistically complex and historically chaotic without pre-planning. A designated off-site location, documented procedure, and family-notification protocol are essential.',
@@ -1364,7 +1364,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lockdown, fire, and severe-weather drills have been conducted on the state-required schedule',
+    'lockdown_fire_severe_weather',
     {
       standard:
         'Florida requires fire drills monthly, lockdown drills at defined intervals, and severe-weather drills annually. Drill logs are subject to FDOE review.',
@@ -1373,7 +1373,7 @@ export const SCHOOL_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Mass-notification system (intercom, digital signage, SMS) is tested and functional',
+    'mass_notification_system_intercom',
     {
       standard:
         'Mass notification carries lockdown instructions, evacuation routing, and reunification information during an incident. Regular testing confirms it works when needed.',
@@ -0,0 +1,593 @@
+import type { ZoneDefinition } from '../types.js';
+
+/**
+ * School zone definitions — one source of truth for Elementary, Middle, High,
+ * and Combined (K-8 / K-12) school types.
+ *
+ * Items are tagged with the grade bands they apply to. The builder below
+ * produces a `ZoneDefinition[]` per school type, filtering items that don't
+ * apply (e.g., student parking lots for elementary, playground equipment for
+ * high schools). Principles with zero matching items are dropped; zones never
+ * drop entirely because every zone has core items that apply across all bands.
+ *
+ * Sources blended into this checklist:
+ *   - Volusia Sheriff CPTED school evaluation (local format / verbatim where aligned)
+ *   - CISA K-12 School Security Guide (3rd ed., 2022)
+ *   - Partner Alliance for Safer Schools (PASS) Guidelines (7th ed., 2025)
+ *   - CDC CPTED School Assessment (CSA)
+ *   - Florida school-safety statute (Alyssa's Law, HB 301 mapping, MSD Act,
+ *     HB 1421 campus hardening, FortifyFL, School Safety Specialist)
+ */
+
+export type SchoolBand = 'elementary' | 'middle' | 'high' | 'combined';
+
+export interface SchoolItem {
+  key: string;
+  text: string;
+  /** Bands this item applies to. Omitted = applies to all bands. */
+  bands?: SchoolBand[];
+}
+
+export interface SchoolPrinciple {
+  key: string;
+  name: string;
+  items: SchoolItem[];
+}
+
+export interface SchoolZoneTemplate {
+  key: string;
+  name: string;
+  order: number;
+  description: string;
+  principles: SchoolPrinciple[];
+}
+
+export const SCHOOL_ZONES_TEMPLATE: SchoolZoneTemplate[] = [
+  // ─── Zone 1 ──────────────────────────────────────────────────────
+  {
+    key: 'campus_perimeter',
+    name: 'Campus Perimeter & Approach',
+    order: 1,
+    description:
+      'Begin the walkthrough at the property boundary. Assess how the campus presents to approaching vehicles and pedestrians, and how effectively the perimeter defines the school as controlled territory.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'property_boundaries_clearly_delineated', text: 'Property boundaries are clearly delineated from adjacent properties' },
+          { key: 'perimeter_fencing_allows_natural', text: 'Perimeter fencing allows for natural surveillance of school grounds' },
+          { key: 'remote_seldom_used_areas', text: 'Remote or seldom-used areas of the property are visible from occupied buildings, pedestrian pathways, or vehicular routes' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'school_grounds_fenced_appropriately', text: 'School grounds are fenced appropriately to the campus context (full perimeter where feasible; at minimum around student play/recess areas)' },
+          { key: 'fencing_good_repair_no_holes', text: 'Fencing is in good repair with no holes, gaps, or compromised sections' },
+          { key: 'knox_box_installed_first', text: 'Knox Box has been installed at a first-responder-visible location for after-hours access' },
+          { key: 'vehicle_bollards_wheel_stops', text: 'Vehicle bollards, wheel stops, or landscaped berms protect the primary building entry from vehicle ramming' },
+          { key: 'seldom_used_perimeter_gates', text: 'Seldom-used perimeter gates or areas are secured to prevent unauthorized access' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'signs_property_perimeter_direct', text: 'Signs at the property perimeter direct approaching vehicles and pedestrians to the appropriate entries' },
+          { key: 'attractive_visible_school_name', text: 'An attractive, visible school-name sign is posted near the primary entry' },
+          { key: 'trees_shrubs_along_perimeter', text: 'Trees and shrubs along the perimeter follow CPTED standards (shrubs trimmed below 2 ft, canopy above 6 ft) to preserve sight lines' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'perimeter_free_graffiti_litter_signs', text: 'Perimeter is free of graffiti, litter, or signs of neglect that signal reduced guardianship' },
+          { key: 'no_unattractive_barriers_such', text: 'There are no unattractive barriers such as barbed wire or razor wire on the school grounds' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 2 ──────────────────────────────────────────────────────
+  {
+    key: 'parking_drop_off',
+    name: 'Parking, Drop-off & Bus Loops',
+    order: 2,
+    description:
+      'Evaluate vehicular circulation: parent drop-off/pickup, bus loading, delivery, staff parking, visitor parking, and (where applicable) student parking. These zones see the highest non-classroom traffic and risk.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'parking_lots_easily_monitored', text: 'Parking lots are easily monitored from adjacent buildings or dedicated camera coverage' },
+          { key: 'visitor_parking_visible_adjacent', text: 'Visitor parking is visible from adjacent administrative offices' },
+          { key: 'parent_drop_off_pickup', text: 'Parent drop-off/pickup areas are easily monitored by staff and/or cameras' },
+          { key: 'bus_unloading_loading_areas', text: 'Bus unloading/loading areas are easily monitored' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'parent_drop_off_pickup_location', text: 'Parent drop-off/pickup location is clearly marked by signage, pavement, and curb treatments' },
+          { key: 'students_dropped_off_picked', text: 'Students are dropped off and picked up only at authorized locations' },
+          { key: 'bus_unloading_loading_areas_clearly', text: 'Bus unloading/loading areas are clearly marked by signage, pavement, and/or curb treatments' },
+          { key: 'visitor_parking_located_directly', text: 'Visitor parking is located directly adjacent to the main administrative entrance' },
+          { key: 'parking_lot_entrances_exits', text: 'Parking lot entrances and exits are clearly marked' },
+          { key: 'secondary_vehicular_entries_secured', text: 'Secondary vehicular entries are secured during school hours' },
+          { key: 'student_parking_lot_uses', text: 'Student parking lot uses access control (gate, decal enforcement, or monitored entry)', bands: ['high', 'combined'] },
+          { key: 'delivery_activities_follow_defined', text: 'Delivery activities follow a defined route that does not cross student movement zones' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'parking_areas_delineated_staff', text: 'Parking areas are delineated for staff, visitors, and (where applicable) students' },
+          { key: 'parking_spaces_clearly_marked', text: 'All parking spaces are clearly marked' },
+          { key: 'vehicular_travel_routes_school', text: 'Vehicular travel routes on school property are clearly marked and in good condition' },
+          { key: 'authorized_adults_visible_available', text: 'Authorized adults are visible and available for assistance at parent drop-off and bus areas during arrivals and departures' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'parking_lots_well_lit', text: 'Parking lots are well lit during nighttime and early-morning operations' },
+          { key: 'parking_lots_good_condition', text: 'Parking lots are in good condition with no signs of vandalism' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 3 ──────────────────────────────────────────────────────
+  {
+    key: 'grounds_outdoor',
+    name: 'Grounds, Playgrounds & Outdoor Areas',
+    order: 3,
+    description:
+      'Walk the campus grounds between buildings. Assess pathways, gathering areas, playgrounds and athletic spaces, bike racks, dumpsters, and utilities — the semi-public zones most likely to host loitering, vandalism, or trespass.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'pedestrian_pathways_school_property', text: 'Pedestrian pathways on school property are easily monitored' },
+          { key: 'pedestrian_pathways_gathering_areas', text: 'Pedestrian pathways and gathering areas are visible from occupied buildings' },
+          { key: 'playground_areas_visible_administrative', text: 'Playground areas are visible from administrative and classroom windows', bands: ['elementary', 'combined'] },
+          { key: 'exterior_athletic_areas_easily', text: 'Exterior athletic areas are easily monitored' },
+          { key: 'bike_racks_easily_monitored', text: 'Bike racks are easily monitored' },
+          { key: 'no_concealment_hiding_places', text: 'There are no concealment hiding places created by landscaping or fencing' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'access_dumpsters_controlled_enclosed', text: 'Access to dumpsters is controlled (enclosed, locked, or monitored)' },
+          { key: 'no_hiding_places_exist', text: 'No hiding places exist in or around dumpster areas' },
+          { key: 'site_utilities_electrical_vaults', text: 'Site utilities (electrical vaults, HVAC, gas meters) are secured with locked enclosures' },
+          { key: 'playground_equipment_installed_restrict', text: 'Playground equipment is installed to restrict climbing access onto adjacent roofs or upper levels', bands: ['elementary', 'combined'] },
+          { key: 'athletic_fields_stadium_controlled', text: 'Athletic fields/stadium have controlled access during non-event hours', bands: ['middle', 'high', 'combined'] },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'pedestrian_pathways_separated_vehicular', text: 'Pedestrian pathways are separated from vehicular routes by curbing, color markings, landscaping, or other physical barriers' },
+          { key: 'posted_rules_located_key', text: 'Posted rules are located at key points around the school grounds (playground, athletic areas, bike racks)' },
+          { key: 'outdoor_learning_areas_present', text: 'Outdoor learning areas, when present, are well-defined and supervisable' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'school_grounds_good_condition', text: 'School grounds are in good condition and enhanced with landscaping, student artwork, or similar elements that demonstrate active ownership' },
+          { key: 'no_signs_graffiti_vandalism', text: 'No signs of graffiti or vandalism on grounds or outdoor equipment' },
+          { key: 'landscaping_does_not_provide', text: 'Landscaping does not provide easy access to roofs, windows, or upper levels' },
+          { key: 'bike_racks_enclosures_good', text: 'Bike racks and enclosures are in good condition' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 4 ──────────────────────────────────────────────────────
+  {
+    key: 'building_exterior',
+    name: 'Building Exterior & Public Entry',
+    order: 4,
+    description:
+      'Assess the exterior envelope of every school building: main public entry, secondary doors, walls, courtyards, roof access, and portable classrooms. Single-point-of-entry design and vestibule hardening are the top PASS/FDOE priorities here.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'public_entry_located_adjacent', text: 'Public entry is located adjacent to the administration area and visitor parking' },
+          { key: 'extensive_windows_glazed_doors', text: 'Extensive windows and glazed doors at the public entry enhance natural surveillance' },
+          { key: 'courtyards_visible_windows_doors', text: 'Courtyards are visible from the windows and doors of surrounding school buildings' },
+          { key: 'exterior_stairs_balconies_ramps', text: 'Exterior stairs, balconies, ramps, and upper-level corridors are visible from windows or doors of school buildings, parking lots, and/or activity areas' },
+          { key: 'exterior_stairs_do_not', text: 'Exterior stairs do not create hiding or hard-to-see areas' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'single_defined_public_entry', text: 'A single, defined public entry is enforced during school hours (fortified vestibule / mantrap or equivalent)' },
+          { key: 'front_entry_vestibule_glazing', text: 'Front-entry vestibule glazing is ballistic-resistant, laminated, or protected with security film rated for forced-entry delay' },
+          { key: 'secondary_entrance_exit_doors', text: 'Secondary entrance/exit doors are secured in the closed position and not propped open' },
+          { key: 'emergency_exit_doors_alarmed', text: 'Emergency-exit doors are alarmed or monitored to deter unauthorized outside access' },
+          { key: 'buildings_highly_visible_identification', text: 'All buildings have highly visible identification names and/or numbers for first-responder access' },
+          { key: 'portable_classrooms_display_highly', text: 'Portable classrooms display highly visible identification names/numbers' },
+          { key: 'spaces_under_portables_including', text: 'Spaces under portables, including stairs and ramps, are screened to limit access' },
+          { key: 'portables_secured_not_use', text: 'Portables are secured when not in use' },
+          { key: 'screening_walls_architectural_features', text: 'Screening walls and/or architectural features do not allow easy access to the roof or upper levels' },
+          { key: 'covers_exterior_walkways_stairs', text: 'Covers for exterior walkways and stairs are designed to limit easy access to roofs, windows, or upper levels' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'public_entry_well_defined', text: 'Public entry is well defined with architectural features, signs, lighting, artwork, landscaping, and/or landmarks such as flags' },
+          { key: 'courtyards_enhanced_landscaping_student', text: 'Courtyards are enhanced with landscaping, student artwork, or other physical means' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'exterior_walls_doors_windows', text: 'Exterior walls, doors, and windows are in good condition' },
+          { key: 'no_signs_graffiti_exterior', text: 'No signs of graffiti on exterior walls' },
+          { key: 'murals_artwork_landscaping_other', text: 'Murals, artwork, landscaping, and/or other architectural treatments enhance blank or barren exterior walls' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 5 ──────────────────────────────────────────────────────
+  {
+    key: 'reception_admin',
+    name: 'Reception, Visitor Management & Administration',
+    order: 5,
+    description:
+      'Evaluate the visitor-management choke point: front desk positioning, sign-in/badging, access control from public lobby into the school, and administrative sightlines.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'reception_desk_clear_sight', text: 'Reception desk has clear sight lines to the public entry and approach' },
+          { key: 'extensive_use_windows_administrative', text: 'Extensive use of windows in administrative areas provides natural surveillance of adjoining interior spaces' },
+          { key: 'extensive_use_windows_administrative_areas', text: 'Extensive use of windows in administrative areas provides natural surveillance of the exterior' },
+          { key: 'lobby_area_visible_adjacent', text: 'Lobby area is visible from adjacent administrative offices' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'access_public_lobby_main', text: 'Access from the public lobby into the main school building is controlled (locked door, electronic access control, or staffed gate)' },
+          { key: 'visitor_sign_badging_system', text: 'Visitor sign-in and badging system is in place and actively used (e.g., Raptor, ID scan)' },
+          { key: 'front_office_alyssa_law', text: 'Front office has an Alyssa\'s Law panic alert / silent panic button accessible from the reception position' },
+          { key: 'access_school_staff_areas', text: 'Access to school staff areas is controlled (badge, code, or staffed access)' },
+          { key: 'counseling_student_services_areas', text: 'Counseling and student-services areas have controlled access and are in good condition' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'lobby_attractive_cheerful_inviting', text: 'Lobby is attractive, cheerful, and inviting — with signs clearly directing visitors to the office' },
+          { key: 'signs_provide_directions_major', text: 'Signs provide directions to major school areas (administrative offices, cafeteria, media center, auditorium, gymnasium, etc.)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'lobby_reception_area_clean', text: 'Lobby and reception area are clean, well lit, and in good condition' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 6 ──────────────────────────────────────────────────────
+  {
+    key: 'corridors_stairs',
+    name: 'Interior Corridors, Stairs & Lobbies',
+    order: 6,
+    description:
+      'Assess the interior circulation network: hallways, stairwells, lobbies, elevators, and locker banks. These are the highest-traffic monitoring zones during class changes, arrivals, and departures.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'interior_corridors_easily_monitored', text: 'Interior corridors are easily monitored by staff during class changes, arrivals, and departures' },
+          { key: 'interior_corridors_no_hiding', text: 'Interior corridors have no hiding places (no recessed alcoves or unmonitored nooks)' },
+          { key: 'interior_stairs_do_not', text: 'Interior stairs do not create hiding or hard-to-see areas' },
+          { key: 'locker_banks_present_arranged', text: 'Locker banks, when present, are arranged to maintain visibility (center lockers do not obstruct sight lines)', bands: ['middle', 'high', 'combined'] },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'interior_corridor_light_controls', text: 'Interior corridor light controls are secured to prevent unauthorized access' },
+          { key: 'interior_stair_balcony_light', text: 'Interior stair and balcony light controls are secured' },
+          { key: 'access_elevators_limited_authorized', text: 'Access to elevators is limited to authorized individuals' },
+          { key: 'elevators_located_easy_view', text: 'Elevators are located in easy-to-view areas with mirrors inside to eliminate hiding places' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'authorized_adults_staff_administrators', text: 'Authorized adults (staff, administrators, SRO/Guardian) are visible in interior corridors during arrivals, class changes, and departures' },
+          { key: 'lockers_used_adequately_spaced', text: 'Lockers, where used, are adequately spaced to avoid crowding and see-through where possible', bands: ['middle', 'high', 'combined'] },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'interior_corridors_well_lit', text: 'Interior corridors are well lit and free of obstacles that impede orderly pedestrian flow' },
+          { key: 'interior_stairs_balconies_doors', text: 'Interior stairs, balconies, doors, and windows are in good condition' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 7 ──────────────────────────────────────────────────────
+  {
+    key: 'classrooms',
+    name: 'Classrooms & Instructional Spaces',
+    order: 7,
+    description:
+      'Evaluate classroom-level security: lockdown capability, door glazing, interior sight lines, and communication. The classroom is the last layer of protection during an active threat.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'classroom_door_windows_allow', text: 'Classroom door windows allow natural surveillance into classrooms from the hallway' },
+          { key: 'classroom_windows_allow_natural', text: 'Classroom windows allow for natural surveillance of exterior spaces' },
+          { key: 'furniture_lockers_other_objects', text: 'Furniture, lockers, or other objects do not compromise natural surveillance within the classroom' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'classrooms_can_secured_locked', text: 'Classrooms can be secured and locked down from the inside without the teacher exiting the room' },
+          { key: 'secured_classroom_doors_can', text: 'Secured classroom doors can still be exited from inside in an emergency (no key required to egress)' },
+          { key: 'classroom_doors_secured_classroom', text: 'Classroom doors are secured when the classroom is not in use' },
+          { key: 'door_glazing_coverings_opaque', text: 'Door-glazing coverings or opaque strips are available and deployable during lockdown (block sight into the room)' },
+          { key: 'classroom_exterior_visible_classroom', text: 'Each classroom has an exterior-visible classroom number or ID (door or window placard) for tactical response' },
+          { key: 'classroom_means_contact_front', text: 'Every classroom has a means to contact the front office or administration directly (phone, intercom, two-way radio, or mobile alert app)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'posted_emergency_procedures_lockdown', text: 'Posted emergency procedures, lockdown instructions, or Standard Response Protocol (SRP) signage is visible in each classroom' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'classrooms_well_lit_good', text: 'Classrooms are well lit, in good condition, and free of clutter that would impede evacuation or lockdown' },
+          { key: 'school_suspension_areas_easily', text: 'In-school suspension areas are easily monitored by staff' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 8 ──────────────────────────────────────────────────────
+  {
+    key: 'assembly_support',
+    name: 'Assembly & Support Spaces',
+    order: 8,
+    description:
+      'Evaluate large-group and specialty spaces: cafeteria, auditorium, gymnasium, locker rooms, library/media center, and CTE/shop labs. These spaces concentrate students and often operate at different schedules than the main classroom flow.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'cafeteria_entries_well_defined', text: 'Cafeteria entries are well-defined and easily monitored' },
+          { key: 'auditorium_entries_well_defined', text: 'Auditorium entries are well-defined and easily monitored', bands: ['middle', 'high', 'combined'] },
+          { key: 'gymnasium_easily_monitored_access', text: 'Gymnasium is easily monitored and access to the underside of bleachers is limited' },
+          { key: 'library_media_center_entries', text: 'Library / media center entries are well-defined and monitored by staff/volunteers' },
+          { key: 'locker_rooms_shower_areas', text: 'Locker rooms and shower areas are easily monitored by staff', bands: ['middle', 'high', 'combined'] },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'access_cafeteria_kitchen_serving', text: 'Access to the cafeteria kitchen and serving areas is limited to authorized staff' },
+          { key: 'cafeteria_entrances_secured_room', text: 'Cafeteria entrances are secured when the room is not in use' },
+          { key: 'gymnasium_entrances_secured_room', text: 'Gymnasium entrances are secured when the room is not in use' },
+          { key: 'light_controls_gym_locker', text: 'Light controls in gym and locker rooms are secured to prevent unauthorized access', bands: ['middle', 'high', 'combined'] },
+          { key: 'auditorium_backstage_sound_booth', text: 'Auditorium backstage, sound booth, and production areas are secured when not in use', bands: ['middle', 'high', 'combined'] },
+          { key: 'cte_shop_lab_spaces', text: 'CTE / shop / lab spaces (if present) have controlled access and secured tool storage', bands: ['high', 'combined'] },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'cafeteria_authorized_adults_visible', text: 'Cafeteria has authorized adults visible during meal periods' },
+          { key: 'posted_rules_code_conduct', text: 'Posted rules or code of conduct displayed at entries to gym, cafeteria, and library' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'cafeteria_auditorium_gymnasium_library', text: 'Cafeteria, auditorium, gymnasium, and library are in good condition' },
+          { key: 'sufficient_table_spacing_cafeteria', text: 'Sufficient table spacing in the cafeteria allows orderly circulation' },
+          { key: 'locker_rooms_well_lit', text: 'Locker rooms are well lit in all areas including shower and restroom zones', bands: ['middle', 'high', 'combined'] },
+          { key: 'athletic_equipment_supply_storage', text: 'Athletic equipment and supply storage rooms are locked when not in use' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 9 ──────────────────────────────────────────────────────
+  {
+    key: 'restrooms_utility',
+    name: 'Restrooms & Utility Areas',
+    order: 9,
+    description:
+      'Assess the most concealed building interior spaces: restrooms and utility rooms. These are the hardest to monitor and therefore disproportionately host bullying, substance use, and vandalism incidents.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'multi_stall_restroom_entries', text: 'Multi-stall restroom entries use an open zigzag / maze design rather than a single solid door' },
+          { key: 'restroom_entries_easily_viewed', text: 'Restroom entries are easily viewed from other active areas' },
+          { key: 'restrooms_solid_doors_vents', text: 'Restrooms with solid doors have vents that allow auditory surveillance' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'restroom_light_controls_secured', text: 'Restroom light controls are secured to prevent unauthorized access' },
+          { key: 'electrical_panels_mechanical_rooms', text: 'Electrical panels, mechanical rooms, and utility closets are locked' },
+          { key: 'server_room_access_restricted', text: 'IT / server room access is restricted to authorized personnel and logged' },
+          { key: 'roof_access_hatches_secured', text: 'Roof access hatches are secured and alarmed' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'restroom_stall_doors_hardware', text: 'Restroom stall doors, hardware, and locks are in good condition' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'restrooms_well_lit_no', text: 'Restrooms are well lit with no unusually foul odors' },
+          { key: 'restroom_ceiling_treatments_do', text: 'Restroom ceiling treatments do not provide access to a hiding place' },
+          { key: 'toilets_urinals_lavatories_fixtures', text: 'Toilets, urinals, lavatories, and fixtures are in good condition' },
+        ],
+      },
+    ],
+  },
+
+  // ─── Zone 10 ─────────────────────────────────────────────────────
+  {
+    key: 'safety_systems',
+    name: 'Safety Systems, Policies & Emergency Readiness',
+    order: 10,
+    description:
+      'Close the walkthrough with the procedural and technology layer: camera coverage, panic alerts (Alyssa\'s Law), digital mapping (HB 301), threat assessment team, SRO/Guardian coverage, drills, and emergency communications. These are required under Florida school-safety statute and are the spine of the rest of the checklist.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Surveillance Systems',
+        items: [
+          { key: 'camera_coverage_exists_primary', text: 'Camera coverage exists at all primary entries, main corridors, parking lots, and bus loading / drop-off zones' },
+          { key: 'camera_system_records_continuously_adequate', text: 'Camera system records continuously with adequate storage (minimum 30 days) and accurate timestamps' },
+          { key: 'dedicated_monitoring_point_sro', text: 'A dedicated monitoring point (SRO office, front desk, or admin) provides real-time camera view during school hours' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Technology & Access Control',
+        items: [
+          { key: 'alyssa_law_mobile_panic', text: 'Alyssa\'s Law Mobile Panic Alert System (MPAS) is installed and staff have been trained; alert integrates directly with local PSAP (911)' },
+          { key: 'digital_school_mapping_data', text: 'Digital school mapping data (HB 301) has been provided to the Sheriff\'s Office and first responders' },
+          { key: 'electronic_access_control_badge', text: 'Electronic access control / badge system is used for staff entry to controlled areas' },
+          { key: 'key_control_system_place_master', text: 'Key control system is in place (master keys tracked, locks re-keyed when staff leave, spare keys secured)' },
+          { key: 'single_alert_activation_automatically', text: 'Single-alert activation automatically triggers campus lockdown and notification across intercom, digital signage, and staff devices' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Programs & Personnel',
+        items: [
+          { key: 'school_safety_specialist_appointed', text: 'School Safety Specialist is appointed and all staff know who that person is' },
+          { key: 'threat_assessment_team_established', text: 'Threat Assessment Team is established and meets per state requirements (Marjory Stoneman Douglas Act)' },
+          { key: 'school_resource_officer_guardian', text: 'School Resource Officer or Guardian coverage is in place for all student hours, matching campus population and footprint' },
+          { key: 'fortifyfl_anonymous_tip_line', text: 'FortifyFL (anonymous tip line) is posted and publicized to students and staff' },
+          { key: 'two_way_radios_equivalent', text: 'Two-way radios or equivalent communication devices are available to administration, SRO/Guardian, and duty staff' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Planning & Drills',
+        items: [
+          { key: 'multi_hazard_evacuation_plan', text: 'Multi-hazard evacuation plan is current, reviewed annually with law enforcement and fire, and posted as required' },
+          { key: 'reunification_site_procedure_established', text: 'Reunification site and procedure are established, documented, and known to staff and families' },
+          { key: 'lockdown_fire_severe_weather', text: 'Lockdown, fire, and severe-weather drills have been conducted on the state-required schedule' },
+          { key: 'mass_notification_system_intercom', text: 'Mass-notification system (intercom, digital signage, SMS) is tested and functional' },
+        ],
+      },
+    ],
+  },
+];
+
+/**
+ * One band's zones. `source` is the bundled template unless a published one
+ * replaces it (see published-templates.ts).
+ */
+export function buildSchoolZones(
+  band: SchoolBand,
+  source: SchoolZoneTemplate[] = SCHOOL_ZONES_TEMPLATE,
+): ZoneDefinition[] {
+  const zones: ZoneDefinition[] = [];
+
+  for (const template of source) {
+    const principles = template.principles
+      .map((p) => {
+        const items = p.items
+          .filter((i) => !i.bands || i.bands.includes(band))
+          .map((i) => ({ key: i.key, text: i.text }));
+        return { key: p.key, name: p.name, items };
+      })
+      .filter((p) => p.items.length > 0);
+
+    // Every zone should retain at least one principle; guard anyway.
+    if (principles.length === 0) continue;
+
+    zones.push({
+      key: template.key,
+      name: template.name,
+      order: template.order,
+      description: template.description,
+      principles,
+    });
+  }
+
+  return zones;
+}
+
+export const ELEMENTARY_SCHOOL_ZONES: ZoneDefinition[] = buildSchoolZones('elementary');
+export const MIDDLE_SCHOOL_ZONES: ZoneDefinition[] = buildSchoolZones('middle');
+export const HIGH_SCHOOL_ZONES: ZoneDefinition[] = buildSchoolZones('high');
+export const COMBINED_SCHOOL_ZONES: ZoneDefinition[] = buildSchoolZones('combined');
+
+/** Flat list of every unique checklist item key across the school template —
+ *  used by item-guidance and item-phases to provide full coverage. */
+export const ALL_SCHOOL_ITEM_KEYS: string[] = Array.from(
+  new Set(
+    SCHOOL_ZONES_TEMPLATE.flatMap((z) => z.principles.flatMap((p) => p.items.map((i) => i.key))),
+  ),
+);
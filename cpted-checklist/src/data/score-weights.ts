@@ -0,0 +1,294 @@
+import type { PropertyType } from '../types.js';
+import { baseZoneKey } from '../buildings.js';
+import type { BuildingGroup } from '../buildings.js';
+import { calculateAverage, calculateOverallScore } from '../scoring.js';
+import type { ScoredItem } from '../scoring.js';
+import { getZonesForType } from './zone-registry.js';
+import { getTemplateId, recordedAtVersion } from './template-versions.js';
+import type { TemplateId } from './template-versions.js';
+import type { TemplateDocument } from './published-templates.js';
+
+/**
+ * Score weighting: how much each zone and each CPTED principle counts toward
+ * the overall score, per template, and the items critical enough that failing
+ * one caps it.
+ *
+ * The overall score used to be the plain average of the zone averages, so a
+ * perfect Street Approach made up for a failing Windows & Interior. Weighted,
+ * a zone's contribution is the average of its principle averages, each
+ * principle counted by its weight, and the overall is the average of those,
+ * each zone counted by its weight. A zone or principle not listed weighs 1.
+ * A building's copy of a zone weighs what the template zone does.
+ *
+ * A critical item scored 1 or 2 holds the overall at CRITICAL_SCORE_CAP at
+ * most, whatever the rest of the site scored: a house whose front door has no
+ * working deadbolt is not "Good".
+ *
+ * Zone averages themselves stay the plain average of their items — that is
+ * what the zone table and the walk screens show — and the unweighted overall
+ * is kept alongside the weighted one, for comparison with reports printed
+ * before weighting. The same functions run on the iPad and on the server.
+ *
+ * The weights below are the bundled templates'. A template published from the
+ * server carries its own in the document — a weight on each zone, the
+ * principle weights, a critical flag on each item — and every version it
+ * publishes records them in its revision, so an assessment is always weighted
+ * as the version it is pinned to was, not as the template stands today.
+ */
+
+export interface ScoreWeights {
+  /** Template zone key → weight. */
+  zones: Record<string, number>;
+  /** Principle key → weight, the same in every zone. */
+  principles: Record<string, number>;
+  /** Item keys that cap the overall score when scored 1 or 2. */
+  critical: string[];
+}
+
+/** The most a site with a failed critical item can score: Adequate. */
+export const CRITICAL_SCORE_CAP = 3;
+
+const HOME_PRINCIPLES: Record<string, number> = {
+  access_control: 1.5,
+  natural_surveillance: 1.25,
+  maintenance: 0.75,
+  behavioral: 0.75,
+};
+
+const HOME_CRITICAL = [
+  'deadbolt_installed_minimum_1',
+  'rear_entry_door_solid',
+  'interior_door_garage_home',
+  'window_working_lock_good',
+];
+
+const WORSHIP_ZONES: Record<string, number> = {
+  main_entry: 1.5,
+  education_children: 1.5,
+  sanctuary: 1.25,
+  perimeter_parking: 0.75,
+};
+
+const WORSHIP_PRINCIPLES: Record<string, number> = {
+  access_control: 1.5,
+  target_hardening: 1.25,
+  natural_surveillance: 1.25,
+  maintenance: 0.75,
+};
+
+const WORSHIP_CRITICAL = [
+  'main_entry_doors_can',
+  'children_wing_area_controlled',
+  'classrooms_lockdown_capability_doors',
+];
+
+const SCORE_WEIGHTS: Record<TemplateId, ScoreWeights> = {
+  residential: {
+    zones: { windows_interior: 1.5, front_yard: 1.25, rear_yard: 1.25, street_approach: 0.75 },
+    principles: HOME_PRINCIPLES,
+    critical: HOME_CRITICAL,
+  },
+  townhome: {
+    zones: { windows_interior: 1.5, front_entry: 1.25, rear_patio: 1.25, street_approach: 0.75 },
+    principles: HOME_PRINCIPLES,
+    critical: HOME_CRITICAL,
+  },
+  worship: {
+    zones: WORSHIP_ZONES,
+    principles: WORSHIP_PRINCIPLES,
+    critical: WORSHIP_CRITICAL,
+  },
+  christian: {
+    zones: WORSHIP_ZONES,
+    principles: WORSHIP_PRINCIPLES,
+    critical: [...WORSHIP_CRITICAL, 'worship_center_doors_can'],
+  },
+  // Schools are rated Yes/No/UTO and have no numeric score to weight.
+  school: { zones: {}, principles: {}, critical: [] },
+  commercial_office: {
+    zones: {
+      lobby_reception: 1.5,
+      critical_restricted: 1.5,
+      workplace_violence_readiness: 1.25,
+      grounds_outdoor: 0.75,
+    },
+    principles: {
+      access_control: 1.5,
+      security_technology: 1.25,
+      natural_surveillance: 1.25,
+      maintenance: 0.75,
+    },
+    critical: [
+      'visitors_check_reception_issued',
+      'transition_door_lobby_employee',
+      'main_floor_level_telecom',
+      'building_tested_capability_immediately',
+    ],
+  },
+};
+
+/** The weighting the bundled data gives `templateId`. */
+export function getBundledScoreWeights(templateId: TemplateId): ScoreWeights {
+  return SCORE_WEIGHTS[templateId];
+}
+
+/**
+ * The weighting `document` sets; undefined for one published before weighting
+ * could be authored.
+ */
+export function scoreWeightsOf(document: TemplateDocument): ScoreWeights | undefined {
+  if (!document.principle_weights) return undefined;
+  return {
+    zones: Object.fromEntries(document.zones.map((zone) => [zone.key, zone.weight ?? 1])),
+    principles: { ...document.principle_weights },
+    critical: document.zones.flatMap((zone) =>
+      zone.principles.flatMap((p) => p.items.filter((item) => item.critical).map((item) => item.key)),
+    ),
+  };
+}
+
+/**
+ * The weighting at `version` (the current version when omitted): that of the
+ * latest revision up to it that records one, or else the bundled weighting.
+ */
+export function getScoreWeights(propertyType: PropertyType, version?: number): ScoreWeights {
+  return (
+    recordedAtVersion(propertyType, version, (revision) => revision.weights) ??
+    SCORE_WEIGHTS[getTemplateId(propertyType)]
+  );
+}
+
+/** What weighting reads off an item, beyond what scoring does. */
+export interface WeightedItem extends ScoredItem {
+  item_key: string | null;
+}
+
+export interface WeightedScore<T extends WeightedItem = WeightedItem> {
+  /** The overall score: weighted, then capped. Null when nothing is scored. */
+  score: number | null;
+  /** The plain average of zone averages, as reports before weighting had it. */
+  unweighted: number | null;
+  /** The failed critical items that capped `score`; empty when none did. */
+  cappedBy: T[];
+}
+
+function weightOf(weights: Record<string, number>, key: string): number {
+  return weights[key] ?? 1;
+}
+
+/** A zone's contribution: its principle averages, weighted. Null if none scored. */
+function weightedZoneScore(items: ScoredItem[], weights: ScoreWeights): number | null {
+  let sum = 0;
+  let total = 0;
+  for (const principle of new Set(items.map((item) => item.principle))) {
+    const avg = calculateAverage(items.filter((item) => item.principle === principle));
+    if (avg === null) continue;
+    const weight = weightOf(weights.principles, principle);
+    sum += avg * weight;
+    total += weight;
+  }
+  return total > 0 ? sum / total : null;
+}
+
+/**
+ * The weighted overall score of `itemsByZone` (zone key → its items; building
+ * copies included), with the unweighted figure and what capped it. `version`
+ * is the template version the assessment is pinned to.
+ */
+export function calculateWeightedScore<T extends WeightedItem>(
+  propertyType: PropertyType,
+  itemsByZone: Map<string, T[]>,
+  version?: number,
+): WeightedScore<T> {
+  const weights = getScoreWeights(propertyType, version);
+  let sum = 0;
+  let total = 0;
+  const cappedBy: T[] = [];
+  for (const [zoneKey, items] of itemsByZone) {
+    const zoneScore = weightedZoneScore(items, weights);
+    if (zoneScore !== null) {
+      const weight = weightOf(weights.zones, baseZoneKey(zoneKey));
+      sum += zoneScore * weight;
+      total += weight;
+    }
+    for (const item of items) {
+      if (
+        item.item_key !== null &&
+        weights.critical.includes(item.item_key) &&
+        !item.is_na &&
+        typeof item.score === 'number' &&
+        item.score <= 2
+      ) {
+        cappedBy.push(item);
+      }
+    }
+  }
+  const weighted = total > 0 ? sum / total : null;
+  return {
+    score: weighted !== null && cappedBy.length > 0 ? Math.min(weighted, CRITICAL_SCORE_CAP) : weighted,
+    unweighted: calculateOverallScore(itemsByZone),
+    cappedBy,
+  };
+}
+
+/** Group `items` by zone key, for calculateWeightedScore(). */
+export function groupItemsByZone<T extends { zone_key: string }>(items: T[]): Map<string, T[]> {
+  const byZone = new Map<string, T[]>();
+  for (const item of items) {
+    const list = byZone.get(item.zone_key);
+    if (list) list.push(item);
+    else byZone.set(item.zone_key, [item]);
+  }
+  return byZone;
+}
+
+/**
+ * A building's roll-up, weighted like the overall score. `items` may be the
+ * whole assessment's.
+ */
+export function calculateBuildingScore<T extends WeightedItem & { zone_key: string }>(
+  propertyType: PropertyType,
+  group: BuildingGroup,
+  items: T[],
+  version?: number,
+): number | null {
+  const byZone = new Map<string, T[]>(group.zones.map((z) => [z.key, []]));
+  for (const item of items) byZone.get(item.zone_key)?.push(item);
+  return calculateWeightedScore(propertyType, byZone, version).score;
+}
+
+/**
+ * The weighting in words, for the report's summary page: the zones and
+ * principles that count more or less than the rest, and the critical items.
+ * Empty for a template with no weighting.
+ */
+export function describeScoreWeights(propertyType: PropertyType, version?: number): string[] {
+  const weights = getScoreWeights(propertyType, version);
+  const zones = getZonesForType(propertyType, version);
+  const principleNames = new Map(zones.flatMap((z) => z.principles.map((p) => [p.key, p.name] as const)));
+  const itemTexts = new Map(
+    zones.flatMap((z) => z.principles.flatMap((p) => p.items.map((i) => [i.key, i.text] as const))),
+  );
+
+  const listed = (entries: [string, number][], more: boolean) =>
+    entries.filter(([, w]) => (more ? w > 1 : w < 1)).map(([name, w]) => `${name} (×${w})`);
+
+  const zoneEntries = zones.map((z): [string, number] => [z.name, weightOf(weights.zones, z.key)]);
+  const principleEntries = [...principleNames].map(([key, name]): [string, number] => [
+    name,
+    weightOf(weights.principles, key),
+  ]);
+
+  const lines: string[] = [];
+  const heavier = [...listed(zoneEntries, true), ...listed(principleEntries, true)];
+  const lighter = [...listed(zoneEntries, false), ...listed(principleEntries, false)];
+  if (heavier.length > 0) lines.push(`Counted more heavily: ${heavier.join(', ')}.`);
+  if (lighter.length > 0) lines.push(`Counted less: ${lighter.join(', ')}.`);
+  const critical = weights.critical.map((key) => itemTexts.get(key)).filter((t): t is string => !!t);
+  if (critical.length > 0) {
+    lines.push(
+      `Any of these scored 1 or 2 caps the overall score at ${CRITICAL_SCORE_CAP.toFixed(1)}: ${critical.join('; ')}.`,
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,266 @@
+import type { PropertyType } from '../types.js';
+import { baseZoneKey } from '../buildings.js';
+import { getTemplateId } from './template-versions.js';
+import type { TemplateId } from './template-versions.js';
+
+/**
+ * Site facts: a few yes/no questions about the property, answered when the
+ * assessment is created or later in Edit Info — is there a garage, a fence, an
+ * on-site parking lot — and the checklist items each answer rules out.
+ *
+ * The rules are declarative, per template: a fact, the answer under which the
+ * listed items (by key) or whole zones do not apply, and nothing else. An item
+ * a rule rules out is marked N/A with the question's reason recorded on it
+ * (ItemScore.na_reason), and only if the assessor has not already scored it or
+ * marked it N/A themselves; changing the answer back clears the N/As it made
+ * and no others. planSiteFactUpdates() works that out; the PWA writes it.
+ *
+ * An unanswered question rules nothing out. Custom items are never ruled out:
+ * the assessor added them for something they saw on the site.
+ */
+
+export type SiteFactKey =
+  | 'has_garage'
+  | 'has_private_fence'
+  | 'is_end_unit'
+  | 'has_shared_parking'
+  | 'has_parking_lot'
+  | 'has_childrens_ministry'
+  | 'has_playground'
+  | 'has_loading_dock'
+  | 'multiple_buildings';
+
+/** The answers given so far. A missing key is a question not yet answered. */
+export type SiteFacts = Partial<Record<SiteFactKey, boolean>>;
+
+export interface SiteFactQuestion {
+  key: SiteFactKey;
+  question: string;
+  /** Recorded on the items the "no" answer rules out, and shown beside them. */
+  reason: string;
+}
+
+/** A fact, the answer under which the items and zones listed do not apply. */
+interface ApplicabilityRule {
+  fact: SiteFactKey;
+  when: boolean;
+  /** Every template item in these zones, and in every building's copy of them. */
+  zones?: string[];
+  /** Item keys. */
+  items?: string[];
+}
+
+interface SiteFactTemplate {
+  questions: SiteFactQuestion[];
+  rules: ApplicabilityRule[];
+}
+
+const GARAGE: SiteFactQuestion = {
+  key: 'has_garage',
+  question: 'Is there a garage?',
+  reason: 'No garage',
+};
+
+// The garage itself, not the driveway: a carport or a parked car is still
+// assessed for how visible and defined it is.
+const GARAGE_ITEMS = [
+  'garage_does_not_create',
+  'interior_door_garage_home',
+  'overhead_garage_door_manual',
+  'emergency_release_cord_secured',
+  'garage_door_kept_closed',
+  'garage_door_good_working',
+  'no_high_value_items',
+];
+
+const CAMPUS: SiteFactQuestion = {
+  key: 'multiple_buildings',
+  question: 'Is the site more than one building?',
+  reason: 'One building',
+};
+
+const PARKING_LOT: SiteFactQuestion = {
+  key: 'has_parking_lot',
+  question: 'Is there an on-site parking lot?',
+  reason: 'No on-site parking lot',
+};
+
+// Worship: the lot's own condition and layout. Walkways from the street and
+// the building's visibility from it are assessed either way.
+const WORSHIP_PARKING_ITEMS = [
+  'parking_lot_visible_street',
+  'parking_lot_designated_visitor',
+  'parking_lot_surface_good',
+  'parking_lot_consistent_lighting',
+];
+
+const CHILDRENS_MINISTRY: SiteFactQuestion = {
+  key: 'has_childrens_ministry',
+  question: 'Are there children’s ministry or nursery areas?',
+  reason: 'No children’s ministry',
+};
+
+const SITE_FACTS: Record<TemplateId, SiteFactTemplate> = {
+  residential: {
+    questions: [
+      GARAGE,
+      { key: 'has_private_fence', question: 'Is the yard fenced?', reason: 'No fence' },
+    ],
+    rules: [
+      { fact: 'has_garage', when: false, items: GARAGE_ITEMS },
+      {
+        fact: 'has_private_fence',
+        when: false,
+        items: [
+          'side_yard_gates_present',
+          'no_easy_climb_features',
+          'fencing_good_repair_no',
+          'rear_fence_gate_secured',
+        ],
+      },
+    ],
+  },
+  townhome: {
+    questions: [
+      GARAGE,
+      { key: 'has_private_fence', question: 'Is the rear patio fenced or gated?', reason: 'No rear fence' },
+      { key: 'is_end_unit', question: 'Is this an end unit?', reason: 'Not an end unit' },
+      {
+        key: 'has_shared_parking',
+        question: 'Is there a shared alley or parking area?',
+        reason: 'No shared parking',
+      },
+    ],
+    rules: [
+      { fact: 'has_garage', when: false, items: GARAGE_ITEMS },
+      { fact: 'has_private_fence', when: false, items: ['rear_fence_gate_secured'] },
+      { fact: 'is_end_unit', when: false, items: ['end_unit_side_gate'] },
+      {
+        fact: 'has_shared_parking',
+        when: false,
+        items: ['shared_rear_alley_parking', 'shared_alley_parking_area'],
+      },
+    ],
+  },
+  worship: {
+    questions: [PARKING_LOT, CHILDRENS_MINISTRY, CAMPUS],
+    rules: [
+      { fact: 'has_parking_lot', when: false, items: WORSHIP_PARKING_ITEMS },
+      { fact: 'has_childrens_ministry', when: false, zones: ['education_children'] },
+    ],
+  },
+  christian: {
+    questions: [
+      PARKING_LOT,
+      CHILDRENS_MINISTRY,
+      { key: 'has_playground', question: 'Is there an outdoor playground?', reason: 'No playground' },
+      CAMPUS,
+    ],
+    rules: [
+      { fact: 'has_parking_lot', when: false, items: WORSHIP_PARKING_ITEMS },
+      { fact: 'has_childrens_ministry', when: false, zones: ['education_children'] },
+      { fact: 'has_playground', when: false, items: ['exterior_playgrounds_enclosed_sturdy'] },
+    ],
+  },
+  // A school without a fence or a lot is a finding, not an N/A; the only
+  // question is whether its zones repeat across buildings.
+  school: {
+    questions: [CAMPUS],
+    rules: [],
+  },
+  commercial_office: {
+    questions: [
+      {
+        key: 'has_loading_dock',
+        question: 'Is there a loading dock?',
+        reason: 'No loading dock',
+      },
+    ],
+    rules: [
+      {
+        fact: 'has_loading_dock',
+        when: false,
+        items: [
+          'loading_dock_visible_regularly',
+          'exterior_approach_loading_dock',
+          'loading_dock_overhead_door',
+          'loading_dock_area_signed',
+        ],
+      },
+    ],
+  },
+};
+
+/** The site-fact questions asked for a property type, in the order asked. */
+export function getSiteFactQuestions(propertyType: PropertyType): SiteFactQuestion[] {
+  return SITE_FACTS[getTemplateId(propertyType)].questions;
+}
+
+/** What siteFactReason() reads off an item. */
+export interface ApplicableItem {
+  zone_key: string;
+  item_key: string | null;
+  is_custom?: boolean;
+}
+
+/**
+ * Why `item` does not apply given `facts` — the reason of the first rule that
+ * rules it out — or null when it applies.
+ */
+export function siteFactReason(
+  propertyType: PropertyType,
+  facts: SiteFacts | undefined,
+  item: ApplicableItem,
+): string | null {
+  if (!facts || item.is_custom || item.item_key === null) return null;
+  const template = SITE_FACTS[getTemplateId(propertyType)];
+  const zoneKey = baseZoneKey(item.zone_key);
+  for (const rule of template.rules) {
+    if (facts[rule.fact] !== rule.when) continue;
+    if (rule.zones?.includes(zoneKey) || rule.items?.includes(item.item_key)) {
+      return template.questions.find((q) => q.key === rule.fact)?.reason ?? 'Not applicable';
+    }
+  }
+  return null;
+}
+
+/** What planSiteFactUpdates() reads off a row. */
+export interface SiteFactItem extends ApplicableItem {
+  id: string;
+  score: unknown;
+  is_na: boolean;
+  na_reason?: string;
+}
+
+export interface SiteFactUpdate {
+  id: string;
+  is_na: boolean;
+  na_reason: string;
+}
+
+/**
+ * The rows `facts` changes. An item ruled out is marked N/A with its reason
+ * when it is unscored and not already N/A by the assessor's hand; an item no
+ * longer ruled out loses only an N/A a rule gave it. Re-running with the same
+ * facts changes nothing.
+ */
+export function planSiteFactUpdates<T extends SiteFactItem>(
+  propertyType: PropertyType,
+  facts: SiteFacts | undefined,
+  items: T[],
+): SiteFactUpdate[] {
+  const updates: SiteFactUpdate[] = [];
+  for (const item of items) {
+    const reason = siteFactReason(propertyType, facts, item);
+    const auto = item.is_na && Boolean(item.na_reason);
+    if (reason) {
+      const untouched = item.score === null && !item.is_na;
+      if ((untouched || auto) && item.na_reason !== reason) {
+        updates.push({ id: item.id, is_na: true, na_reason: reason });
+      }
+    } else if (auto) {
+      updates.push({ id: item.id, is_na: false, na_reason: '' });
+    }
+  }
+  return updates;
+}
@@ -0,0 +1,282 @@
+import type { PropertyType } from '../types.js';
+import type { ItemMigration, ItemPlacement, TemplateId } from './template-versions.js';
+import type { AuthoredItem, AuthoredZone, TemplateDocument } from './published-templates.js';
+import { getZonesForType, getItemGuidanceForType } from './zone-registry.js';
+import { getItemPhase, getVerificationHint, isNightItem } from './item-phases.js';
+import { SCHOOL_ZONES_TEMPLATE } from './school-zones.js';
+import { getPublishedTemplate } from './published-templates.js';
+import { getTemplateRevisions } from './template-versions.js';
+import { getBundledScoreWeights, getScoreWeights } from './score-weights.js';
+import type { ScoreWeights } from './score-weights.js';
+import { COMPLETION_RULE_KINDS, getBundledCompletionRules, getCompletionRules } from './completion-rules.js';
+
+/**
+ * Template documents: a whole checklist template in the form the template
+ * editor works on — every item together with its guidance, phase, night
+ * tagging and hint, the score weighting and the completion rules — and the
+ * checks a draft must pass before it is published.
+ */
+
+/** Every template, in the order the editor lists them. */
+export const TEMPLATE_IDS: TemplateId[] = [
+  'residential',
+  'townhome',
+  'worship',
+  'christian',
+  'school',
+  'commercial_office',
+];
+
+/** A property type that uses each template. The school one is read band-free. */
+const TEMPLATE_PROPERTY_TYPE: Record<TemplateId, PropertyType> = {
+  residential: 'single_family_residential',
+  townhome: 'townhome',
+  worship: 'places_of_worship',
+  christian: 'christian_church',
+  school: 'combined_school',
+  commercial_office: 'commercial_office',
+};
+
+export function getTemplateLabel(templateId: TemplateId): string {
+  switch (templateId) {
+    case 'residential':
+      return 'Single Family Residential';
+    case 'townhome':
+      return 'Townhome';
+    case 'worship':
+      return 'Places of Worship (Catholic)';
+    case 'christian':
+      return 'Christian Church';
+    case 'school':
+      return 'Schools (all grade bands)';
+    case 'commercial_office':
+      return 'Commercial Office';
+  }
+}
+
+/**
+ * `document` with `weights` written into it: every zone's weight, every
+ * principle's and every item's critical flag, so the editor shows them all.
+ */
+export function withScoreWeights(document: TemplateDocument, weights: ScoreWeights): TemplateDocument {
+  const critical = new Set(weights.critical);
+  const principleWeights: Record<string, number> = {};
+  for (const zone of document.zones) {
+    for (const principle of zone.principles) {
+      principleWeights[principle.key] = weights.principles[principle.key] ?? 1;
+    }
+  }
+  return {
+    ...document,
+    zones: document.zones.map((zone) => ({
+      ...zone,
+      weight: weights.zones[zone.key] ?? 1,
+      principles: zone.principles.map((principle) => ({
+        ...principle,
+        items: principle.items.map((item) => ({ ...item, critical: critical.has(item.key) })),
+      })),
+    })),
+    principle_weights: principleWeights,
+  };
+}
+
+/**
+ * The template as it stands: the published document, or one built from the
+ * bundled data. A published document from before weighting and completion
+ * rules could be authored gets the ones it is scored and checked by.
+ */
+export function getTemplateDocument(templateId: TemplateId): TemplateDocument {
+  const propertyType = TEMPLATE_PROPERTY_TYPE[templateId];
+  const published = getPublishedTemplate(templateId);
+  if (published) {
+    let document = published.document;
+    if (!document.principle_weights) document = withScoreWeights(document, getScoreWeights(propertyType));
+    if (!document.completion_rules) document = { ...document, completion_rules: getCompletionRules(propertyType) };
+    return document;
+  }
+
+  const guidance = getItemGuidanceForType(propertyType);
+  // The school template is kept band-tagged, not filtered to one band.
+  const zones = templateId === 'school' ? SCHOOL_ZONES_TEMPLATE : getZonesForType(propertyType);
+  const document: TemplateDocument = {
+    zones: zones.map((zone) => ({
+      key: zone.key,
+      name: zone.name,
+      order: zone.order,
+      description: zone.description,
+      principles: zone.principles.map((principle) => ({
+        key: principle.key,
+        name: principle.name,
+        items: principle.items.map((item) => {
+          const phase = getItemPhase(item.key);
+          return {
+            ...item,
+            guidance: guidance.get(item.key) ?? { standard: '', improvement: '' },
+            phase,
+            night:
+              phase === 'exterior' &&
+              isNightItem({ zone_key: zone.key, principle: principle.key, item_key: item.key }),
+            hint: getVerificationHint(item.key) ?? null,
+          };
+        }),
+      })),
+    })),
+    completion_rules: getBundledCompletionRules(templateId),
+  };
+  return withScoreWeights(document, getBundledScoreWeights(templateId));
+}
+
+const KEY_PATTERN = /^[a-z0-9]+(_[a-z0-9]+)*$/;
+
+function outline(document: TemplateDocument): string[] {
+  return document.zones.flatMap((zone) => zone.principles.map((p) => `${zone.key}/${p.key}`));
+}
+
+/**
+ * Why `draft` cannot be published as the next version of `templateId`, one
+ * message per problem; empty when it can.
+ *
+ * Zones and principles must stay as they are — only items are versioned (see
+ * template-versions.ts), so their names and descriptions may change but not
+ * their keys, number or nesting. Every item needs wording and both halves of
+ * its guidance, because the report explains every deficient item from it.
+ * Weights must be positive; the school template, whose ratings have no score
+ * to weight, has no critical items. Each completion rule is listed once at
+ * most; one not listed is not checked.
+ */
+export function validateTemplateDocument(templateId: TemplateId, draft: TemplateDocument): string[] {
+  const errors: string[] = [];
+  const current = getTemplateDocument(templateId);
+
+  if (outline(draft).join() !== outline(current).join()) {
+    errors.push('Zones and principles cannot be added, removed or reordered — only items can.');
+  }
+
+  // A key once used for a different item would rejoin it to that item's rows.
+  const retired = new Set(
+    getTemplateRevisions(TEMPLATE_PROPERTY_TYPE[templateId], 0).flatMap((revision) =>
+      revision.changes.filter((change) => change.op === 'retire').map((change) => change.key),
+    ),
+  );
+  const seen = new Set<string>();
+
+  const validWeight = (weight: number | undefined) =>
+    weight === undefined || (Number.isFinite(weight) && weight > 0);
+  for (const [key, weight] of Object.entries(draft.principle_weights ?? {})) {
+    if (!validWeight(weight)) errors.push(`The weight of principle ${key} must be a number above 0.`);
+  }
+
+  const ruleKinds = new Set<string>();
+  for (const rule of draft.completion_rules ?? []) {
+    if (!(COMPLETION_RULE_KINDS as string[]).includes(rule.kind)) {
+      errors.push(`There is no completion rule called ${rule.kind}.`);
+    } else if (ruleKinds.has(rule.kind)) {
+      errors.push(`The completion rule ${rule.kind} is listed more than once.`);
+    }
+    ruleKinds.add(rule.kind);
+    if (rule.severity !== 'block' && rule.severity !== 'warn') {
+      errors.push(`The completion rule ${rule.kind} must either block or warn.`);
+    }
+  }
+
+  for (const zone of draft.zones) {
+    if (!zone.name.trim()) errors.push(`Zone ${zone.key} has no name.`);
+    if (!validWeight(zone.weight)) errors.push(`${zone.name}: the zone weight must be a number above 0.`);
+    for (const principle of zone.principles) {
+      if (!principle.name.trim()) errors.push(`${zone.name}: principle ${principle.key} has no name.`);
+      for (const item of principle.items) {
+        const where = `${zone.name} › ${principle.name}`;
+        const label = item.text.trim() ? `"${item.text.slice(0, 60)}"` : `item ${item.key}`;
+        if (!KEY_PATTERN.test(item.key)) {
+          errors.push(`${where}: ${label} needs a key of lower-case words joined by underscores.`);
+        } else if (seen.has(item.key)) {
+          errors.push(`${where}: the key ${item.key} is used more than once.`);
+        } else if (retired.has(item.key)) {
+          errors.push(`${where}: the key ${item.key} belonged to a retired item; give this one a new key.`);
+        }
+        seen.add(item.key);
+        if (!item.text.trim()) errors.push(`${where}: item ${item.key} has no wording.`);
+        if (!item.guidance.standard.trim() || !item.guidance.improvement.trim()) {
+          errors.push(`${where}: ${label} needs both the standard and the improvement guidance.`);
+        }
+        if (item.phase === 'interior' && item.night) {
+          errors.push(`${where}: ${label} is an interior item, so it cannot be on the Night walk.`);
+        }
+        if (templateId === 'school' && item.bands?.length === 0) {
+          errors.push(`${where}: ${label} applies to no grade band.`);
+        }
+        if (templateId === 'school' && item.critical) {
+          errors.push(`${where}: ${label} cannot be critical — school ratings have no score to cap.`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+interface Placed {
+  item: AuthoredItem;
+  placement: ItemPlacement;
+}
+
+function placements(zones: AuthoredZone[]): Map<string, Placed> {
+  const placed = new Map<string, Placed>();
+  for (const zone of zones) {
+    for (const principle of zone.principles) {
+      principle.items.forEach((item, i) => {
+        placed.set(item.key, {
+          item,
+          placement: {
+            zone_key: zone.key,
+            principle: principle.key,
+            after: i === 0 ? null : principle.items[i - 1].key,
+          },
+        });
+      });
+    }
+  }
+  return placed;
+}
+
+/**
+ * The revision that turns `before` into `after`, as the template history
+ * records one. Items are matched by key: a key that is new is an add, one that
+ * has gone is a retire, and one that is still there may be a rename, a move to
+ * another zone or principle, or both. Reordering within a principle is not
+ * recorded — item order always comes from the current template.
+ */
+export function diffTemplateDocuments(
+  before: TemplateDocument,
+  after: TemplateDocument,
+): ItemMigration[] {
+  const was = placements(before.zones);
+  const now = placements(after.zones);
+  const changes: ItemMigration[] = [];
+
+  for (const [key, { item, placement }] of was) {
+    if (!now.has(key)) {
+      changes.push({ op: 'retire', key, text: item.text, ...placement, ...bands(item) });
+    }
+  }
+  for (const [key, { item, placement }] of now) {
+    const old = was.get(key);
+    if (!old) {
+      changes.push({ op: 'add', key, text: item.text, ...placement, ...bands(item) });
+      continue;
+    }
+    if (old.item.text !== item.text) {
+      changes.push({ op: 'rename', key, from: old.item.text, to: item.text });
+    }
+    if (
+      old.placement.zone_key !== placement.zone_key ||
+      old.placement.principle !== placement.principle
+    ) {
+      changes.push({ op: 'move', key, from: old.placement, to: placement });
+    }
+  }
+  return changes;
+}
+
+function bands(item: AuthoredItem): Pick<AuthoredItem, 'bands'> {
+  return item.bands ? { bands: item.bands } : {};
+}
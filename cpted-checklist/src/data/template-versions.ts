@@ -0,0 +1,252 @@
+import type { PropertyType, ZoneDefinition, ZoneItem } from '../types.js';
+import type { SchoolBand } from './school-zones.js';
+import type { ScoreWeights } from './score-weights.js';
+import type { CompletionRule } from './completion-rules.js';
+import { getPublishedTemplate } from './published-templates.js';
+
+/**
+ * Checklist template versions.
+ *
+ * Every assessment records the template version it was created with
+ * (Assessment.template_version) and is shown, scored, recommended from and
+ * printed against that version, not whatever the checklist says today. So an
+ * item retired or reworded after an assessment was walked does not vanish from
+ * its report or change its wording; the assessment moves to the current
+ * checklist only when an assessor chooses to upgrade it.
+ *
+ * The data files always hold the current version. Older versions are not
+ * copies of them: each template's history below is a list of migrations, one
+ * per version, each a declarative list of item changes — add, retire, rename,
+ * move. An older version is rebuilt by undoing them from the current checklist
+ * backwards; an assessment is brought forward by reconciling its rows with the
+ * current checklist (migrate.ts). Version 1 is the checklist as it stood when
+ * versioning began.
+ *
+ * To change a template's items:
+ *   1. Edit the zone file — add, remove, reword or move items. Never change or
+ *      reuse a key (see ZoneItem).
+ *   2. Append a revision to that template's history with the next version
+ *      number, describing each change. Retire and move record where the item
+ *      was, so older versions can be rebuilt.
+ *   3. Keep the guidance entries of retired items. Assessments pinned to an
+ *      older version still look them up by key.
+ *
+ * In-flight assessments on the iPads and on the server are migrated to the new
+ * version by themselves; finished ones stay on theirs until upgraded (see
+ * migratesAutomatically() in migrate.ts).
+ *
+ * Only items are versioned. Zones and principles are not: an item is only ever
+ * added, retired or moved within zones and principles the current template
+ * still has, and a new zone or principle needs more than a revision here.
+ * A published revision also records the score weighting and completion rules
+ * of its version, so an assessment is scored and checked as its own version
+ * had it (score-weights.ts, completion-rules.ts).
+ */
+
+/** A checklist template. The four school types share one, filtered by band. */
+export type TemplateId =
+  | 'residential'
+  | 'townhome'
+  | 'worship'
+  | 'christian'
+  | 'school'
+  | 'commercial_office';
+
+/** Where an item sits in its template. */
+export interface ItemPlacement {
+  zone_key: string;
+  principle: string;
+  /** The key of the item it follows in its principle; null when it is first. */
+  after: string | null;
+}
+
+/**
+ * One change to one item. `add` and `retire` carry the item's wording and
+ * placement — as added, and as it was before retiring — and, for the school
+ * template, the bands it applies to (omitted = all bands).
+ */
+export type ItemMigration =
+  | ({ op: 'add'; key: string; text: string; bands?: SchoolBand[] } & ItemPlacement)
+  | ({ op: 'retire'; key: string; text: string; bands?: SchoolBand[] } & ItemPlacement)
+  | { op: 'rename'; key: string; from: string; to: string }
+  | { op: 'move'; key: string; from: ItemPlacement; to: ItemPlacement };
+
+export interface TemplateRevision {
+  /** The version this revision produced. */
+  version: number;
+  /** YYYY-MM-DD. */
+  date: string;
+  summary: string;
+  changes: ItemMigration[];
+  /**
+   * The score weighting this version counts by (see score-weights.ts).
+   * Versions published from the server carry it; a bundled revision, and one
+   * published before weighting could be authored, count as the version before.
+   */
+  weights?: ScoreWeights;
+  /** The completion rules of this version (completion-rules.ts); omitted likewise. */
+  completion_rules?: CompletionRule[];
+}
+
+/**
+ * Revisions after version 1, oldest first. A template published from the
+ * server continues from here with the revisions it carries (see
+ * published-templates.ts).
+ */
+const TEMPLATE_HISTORY: Record<TemplateId, TemplateRevision[]> = {
+  residential: [],
+  townhome: [],
+  worship: [],
+  christian: [],
+  school: [],
+  commercial_office: [],
+};
+
+export function getTemplateId(propertyType: PropertyType): TemplateId {
+  switch (propertyType) {
+    case 'townhome':
+      return 'townhome';
+    case 'places_of_worship':
+      return 'worship';
+    case 'christian_church':
+      return 'christian';
+    case 'elementary_school':
+    case 'middle_school':
+    case 'high_school':
+    case 'combined_school':
+      return 'school';
+    case 'commercial_office':
+      return 'commercial_office';
+    case 'single_family_residential':
+    default:
+      return 'residential';
+  }
+}
+
+/** The band a school type is filtered to; null for every other type. */
+export function getSchoolBand(propertyType: PropertyType): SchoolBand | null {
+  switch (propertyType) {
+    case 'elementary_school':
+      return 'elementary';
+    case 'middle_school':
+      return 'middle';
+    case 'high_school':
+      return 'high';
+    case 'combined_school':
+      return 'combined';
+    default:
+      return null;
+  }
+}
+
+function getHistory(templateId: TemplateId): TemplateRevision[] {
+  return [...TEMPLATE_HISTORY[templateId], ...(getPublishedTemplate(templateId)?.revisions ?? [])];
+}
+
+/** The version new assessments of this type are created with. */
+export function getTemplateVersion(propertyType: PropertyType): number {
+  return getCurrentVersionOf(getTemplateId(propertyType));
+}
+
+/** Same, by template. */
+export function getCurrentVersionOf(templateId: TemplateId): number {
+  return 1 + getHistory(templateId).length;
+}
+
+/** The revisions between `fromVersion` and the current version, oldest first. */
+export function getTemplateRevisions(
+  propertyType: PropertyType,
+  fromVersion: number,
+): TemplateRevision[] {
+  return getHistory(getTemplateId(propertyType)).filter((r) => r.version > fromVersion);
+}
+
+/**
+ * What `pick` reads off the latest revision up to `version` (the current
+ * version when omitted) that records it; undefined when none does, and the
+ * bundled data stands.
+ */
+export function recordedAtVersion<T>(
+  propertyType: PropertyType,
+  version: number | undefined,
+  pick: (revision: TemplateRevision) => T | undefined,
+): T | undefined {
+  const revisions = getHistory(getTemplateId(propertyType));
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    if (version !== undefined && revisions[i].version > version) continue;
+    const recorded = pick(revisions[i]);
+    if (recorded !== undefined) return recorded;
+  }
+  return undefined;
+}
+
+/**
+ * `current` — this type's zones as they stand today — as they were at
+ * `version`. Returns `current` itself when nothing has changed since.
+ */
+export function rebuildZonesAtVersion(
+  current: ZoneDefinition[],
+  propertyType: PropertyType,
+  version: number,
+): ZoneDefinition[] {
+  const undo = getTemplateRevisions(propertyType, version).reverse();
+  if (undo.length === 0) return current;
+
+  const band = getSchoolBand(propertyType);
+  const zones = current.map((zone) => ({
+    ...zone,
+    principles: zone.principles.map((p) => ({ ...p, items: p.items.map((i) => ({ ...i })) })),
+  }));
+
+  function principleAt(placement: ItemPlacement) {
+    return zones
+      .find((z) => z.key === placement.zone_key)
+      ?.principles.find((p) => p.key === placement.principle);
+  }
+
+  function take(key: string): ZoneItem | undefined {
+    for (const zone of zones) {
+      for (const principle of zone.principles) {
+        const at = principle.items.findIndex((item) => item.key === key);
+        if (at !== -1) return principle.items.splice(at, 1)[0];
+      }
+    }
+    return undefined;
+  }
+
+  function put(item: ZoneItem, placement: ItemPlacement): void {
+    const principle = principleAt(placement);
+    if (!principle) return;
+    const after = principle.items.findIndex((i) => i.key === placement.after);
+    // An item whose predecessor has gone as well goes at the end of its principle.
+    const at = placement.after === null ? 0 : after === -1 ? principle.items.length : after + 1;
+    principle.items.splice(at, 0, item);
+  }
+
+  for (const revision of undo) {
+    for (const change of [...revision.changes].reverse()) {
+      switch (change.op) {
+        case 'add':
+          take(change.key);
+          break;
+        case 'retire':
+          if (band && change.bands && !change.bands.includes(band)) break;
+          put({ key: change.key, text: change.text }, change);
+          break;
+        case 'rename':
+          for (const principle of zones.flatMap((z) => z.principles)) {
+            const item = principle.items.find((i) => i.key === change.key);
+            if (item) item.text = change.from;
+          }
+          break;
+        case 'move': {
+          const item = take(change.key);
+          if (item) put(item, change.from);
+          break;
+        }
+      }
+    }
+  }
+
+  return zones;
+}
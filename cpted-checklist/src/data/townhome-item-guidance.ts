@@ -1,18 +1,18 @@
 /**
  * Townhome Item Guidance
  *
- * Seeded from residential ITEM_GUIDANCE — items shared verbatim with the
- * residential template inherit residential guidance automatically. Only the
+ * Seeded from residential ITEM_GUIDANCE — items shared with the residential
+ * template (same key) inherit residential guidance automatically. Only the
  * genuinely new townhome items (Shared Boundaries zone, HOA/common-area items,
  * unit numbering, peephole) need explicit entries here.
  */
 
-import { ITEM_GUIDANCE, type ItemGuidance } from './item-guidance';
+import { ITEM_GUIDANCE, type ItemGuidance } from './item-guidance.js';
 
 const townhomeOverrides: Array<[string, ItemGuidance]> = [
   // ─── Zone 2: Front Entry & Stoop ───
   [
-    'Peephole or video doorbell installed and functional',
+    'peephole_video_doorbell_installed',
     {
       standard:
         'A peephole or video doorbell lets the resident identify visitors before opening the door — critical in attached housing where strangers can loiter unobserved at a neighbor\'s stoop.',
@@ -21,7 +21,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Unit clearly distinguished from adjacent units (door color, planter, mat, or fixture)',
+    'unit_clearly_distinguished_adjacent',
     {
       standard:
         'Visually differentiating the unit from neighboring units reinforces territorial ownership and helps emergency responders and visitors identify it quickly.',
@@ -32,7 +32,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
 
   // ─── Zone 3: Shared Boundaries (NEW ZONE) ───
   [
-    'Shared breezeway or walkway between units is visible from neighboring units or common areas',
+    'shared_breezeway_walkway_between',
     {
       standard:
         'Shared breezeways are classic concealment zones in attached housing. Mutual visibility from neighboring units or common areas deters loitering and approach to side entries.',
@@ -41,7 +41,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'End unit: external side visible from at least one neighbor or common area (mark N/A for interior units)',
+    'end_unit_external_side',
     {
       standard:
         'End units have one external side exposed to public view — that side needs natural surveillance the same as a single-family side yard.',
@@ -50,7 +50,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'No concealment opportunities along shared walls (utility enclosures, AC units, recessed alcoves)',
+    'no_concealment_opportunities_along',
     {
       standard:
         'Utility alcoves, HVAC enclosures, and recessed areas along shared walls provide hiding places adjacent to the unit envelope.',
@@ -59,7 +59,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Shared utility access points (gas meter, electrical panel, hose bib) secured or in good repair',
+    'shared_utility_access_points',
     {
       standard:
         'Utility access points that are shared or exposed can be tampered with to cut power, cut water, or gain access — common tactics in attached-housing attacks.',
@@ -68,7 +68,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'No easy-climb features along shared or external walls (trellises, stored items, A/C units under windows)',
+    'no_easy_climb_features_along',
     {
       standard:
         'Any object that provides a boost to second-story windows or roofs defeats ground-floor security measures.',
@@ -77,7 +77,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'End unit: side gate present, working, with self-latching or locking hardware (mark N/A for interior units)',
+    'end_unit_side_gate',
     {
       standard:
         'An end-unit side gate controls access between the front and rear of the unit — an unsecured side gate gives offenders a direct unobserved route to the back.',
@@ -86,7 +86,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Unit boundary clearly delineated from neighbor (paint, planter, decorative element)',
+    'unit_boundary_clearly_delineated',
     {
       standard:
         'Clear delineation between your unit and the neighbor reinforces territorial ownership — the single strongest non-physical CPTED signal.',
@@ -95,7 +95,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'HOA-permitted territorial markers used where allowed',
+    'hoa_permitted_territorial_markers',
     {
       standard:
         'Within HOA rules, every permitted territorial marker (planter, flag, decor) strengthens the visible claim on the unit.',
@@ -104,7 +104,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Shared walls in good visible condition (no impact damage, no obvious pest entry points)',
+    'shared_walls_good_visible',
     {
       standard:
         'Damage to shared walls can indicate structural vulnerabilities and, rarely, attempts to bypass via the wall assembly.',
@@ -113,7 +113,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Shared walkway or breezeway free of stored junk, debris, or unused items',
+    'shared_walkway_breezeway_free',
     {
       standard:
         'Shared walkways that accumulate clutter become concealment zones and signal neglect of the shared boundary.',
@@ -124,7 +124,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
 
   // ─── Zone 4: Rear Patio ───
   [
-    'Shared rear alley or parking (if applicable) is overlooked by other units',
+    'shared_rear_alley_parking',
     {
       standard:
         'Rear alleys and parking in attached housing are high-risk zones unless multiple units have sight lines onto them.',
@@ -135,7 +135,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
 
   // ─── Zone 5: Garage / Parking ───
   [
-    'Shared alley or parking area is overlooked by multiple units',
+    'shared_alley_parking_area',
     {
       standard:
         'Shared vehicle areas in attached housing require multi-unit surveillance — if no unit has a window facing the parking, the area becomes a crime target.',
@@ -144,7 +144,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
     },
   ],
   [
-    'Assigned parking spot clearly marked with unit number',
+    'assigned_parking_spot_clearly',
     {
       standard:
         'Clear unit-number marking on assigned parking supports territorial reinforcement and helps identify unauthorized vehicles.',
@@ -155,7 +155,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
 
   // ─── Zone 6: Exterior Lighting ───
   [
-    'HOA common-area lighting (shared walkways, parking, alleys) in good repair and adequate',
+    'hoa_common_area_lighting',
     {
       standard:
         'HOA-maintained common-area lighting is typically the first line of defense at the community boundary. Dark common areas expose all units to risk.',
@@ -166,7 +166,7 @@ const townhomeOverrides: Array<[string, ItemGuidance]> = [
 
   // ─── Zone 7: Windows & Interior ───
   [
-    'Vents or transoms on shared walls (if any exist between units) are secured',
+    'vents_transoms_shared_walls',
     {
       standard:
         'Any opening between units (shared vent, transom, crawlspace access) is a potential crossover route that must be secured.',
@@ -0,0 +1,312 @@
+import type { ZoneDefinition } from '../types.js';
+
+/**
+ * Townhome zones — aligned with residential item text where the CPTED concept
+ * is identical, so scores and photos from a residential assessment carry over
+ * cleanly when the user duplicates as a townhome.
+ *
+ * Items that are genuinely new for townhomes (unit numbering, peephole, Shared
+ * Boundaries zone, HOA lighting, shared alley/parking, HOA awareness) use
+ * townhome-specific text.
+ */
+export const TOWNHOME_ZONES: ZoneDefinition[] = [
+  {
+    key: 'street_approach',
+    name: 'Street Approach & Address Visibility',
+    order: 1,
+    description:
+      'Approach the unit from the street as a visitor or potential offender would. Assess visibility from public view and how clearly the unit is identified among the surrounding attached housing.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'clear_unobstructed_sight_line', text: 'Clear, unobstructed sight line from the street to the front door' },
+          { key: 'front_windows_home_provide', text: 'Front windows of the home provide views of the street and front yard' },
+          { key: 'no_large_visual_barriers', text: 'No large visual barriers (walls, hedges, structures) blocking the view from the street to the home' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'clearly_defined_driveway_walkway', text: 'Clearly defined driveway/walkway directs visitors to the front entry' },
+          { key: 'sidewalk_approach_good_condition', text: 'Sidewalk and approach are in good condition and clearly routed' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'property_boundaries_visible_identifiable', text: 'Property boundaries visible and identifiable from the street' },
+          { key: 'house_number_clearly_visible', text: 'House number clearly visible from the street (minimum 4" tall, contrasting color, illuminated or reflective at night)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'street_frontage_clean_free', text: 'Street frontage is clean and free of debris, abandoned items, or clutter' },
+          { key: 'no_graffiti_vandalism_signs', text: 'No graffiti, vandalism, or signs of neglect visible from the street' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'front_entry',
+    name: 'Front Entry & Stoop',
+    order: 2,
+    description:
+      'Evaluate the front entry area. For townhomes the "front yard" is often a stoop, small landscape strip, or shared walk — focus on the entry itself.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'vegetation_follows_2_6', text: "Vegetation follows the 2'/6' rule (shrubs under 2 ft, tree canopies above 6 ft)" },
+          { key: 'no_dense_vegetation_structures', text: 'No dense vegetation or structures creating concealment spots near the entry' },
+          { key: 'front_porch_entry_area', text: 'Front porch/entry area visible from the street and from neighboring properties' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'front_door_solid_core', text: 'Front door is solid core hardwood or metal (not hollow core)' },
+          { key: 'deadbolt_installed_minimum_1', text: 'Deadbolt installed with minimum 1" throw and reinforced strike plate (3" screws)' },
+          { key: 'door_frame_solid_good', text: 'Door frame is solid and in good condition (no rot, no gaps)' },
+          { key: 'glass_panels_near_door', text: 'Glass panels in or near door are reinforced or have security film' },
+          { key: 'peephole_video_doorbell_installed', text: 'Peephole or video doorbell installed and functional' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'front_yard_landscaping_demonstrates', text: 'Front yard landscaping demonstrates active ownership and care' },
+          { key: 'property_line_between_front', text: 'Property line between front yard and public space is clearly delineated' },
+          { key: 'unit_clearly_distinguished_adjacent', text: 'Unit clearly distinguished from adjacent units (door color, planter, mat, or fixture)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'lawn_maintained_free_overgrown', text: 'Lawn maintained and free of overgrown areas' },
+          { key: 'walkway_steps_porch_good', text: 'Walkway, steps, and porch in good structural condition' },
+          { key: 'door_hardware_knob_lock', text: 'Door hardware (knob, lock, hinges) in good working condition' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'shared_boundaries',
+    name: 'Shared Boundaries',
+    order: 3,
+    description:
+      'Townhomes share at least one wall with neighboring units. Assess shared walls, breezeways, utility access points, and — for end units — the external side of the structure.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'shared_breezeway_walkway_between', text: 'Shared breezeway or walkway between units is visible from neighboring units or common areas' },
+          { key: 'end_unit_external_side', text: 'End unit: external side visible from at least one neighbor or common area (mark N/A for interior units)' },
+          { key: 'no_concealment_opportunities_along', text: 'No concealment opportunities along shared walls (utility enclosures, AC units, recessed alcoves)' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'shared_utility_access_points', text: 'Shared utility access points (gas meter, electrical panel, hose bib) secured or in good repair' },
+          { key: 'no_easy_climb_features_along', text: 'No easy-climb features along shared or external walls (trellises, stored items, A/C units under windows)' },
+          { key: 'end_unit_side_gate', text: 'End unit: side gate present, working, with self-latching or locking hardware (mark N/A for interior units)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'unit_boundary_clearly_delineated', text: 'Unit boundary clearly delineated from neighbor (paint, planter, decorative element)' },
+          { key: 'hoa_permitted_territorial_markers', text: 'HOA-permitted territorial markers used where allowed' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'shared_walls_good_visible', text: 'Shared walls in good visible condition (no impact damage, no obvious pest entry points)' },
+          { key: 'shared_walkway_breezeway_free', text: 'Shared walkway or breezeway free of stored junk, debris, or unused items' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'rear_patio',
+    name: 'Rear Patio & Back Entry',
+    order: 4,
+    description:
+      'Most townhomes have a small private patio, shared rear alley, or shared green space. Assess the back side carefully — still the most common forced-entry point.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'rear_yard_least_partially', text: 'Rear yard at least partially visible from one or more neighboring properties' },
+          { key: 'rear_facing_windows_provide', text: 'Rear-facing windows provide views of the back yard from inside the home' },
+          { key: 'no_dense_vegetation_creating', text: 'No dense vegetation creating concealment along the rear of the home' },
+          { key: 'shared_rear_alley_parking', text: 'Shared rear alley or parking (if applicable) is overlooked by other units' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'rear_entry_door_solid', text: 'Rear entry door is solid core with deadbolt (same standard as front)' },
+          { key: 'sliding_glass_doors_secondary', text: 'Sliding glass doors have secondary security (dowel/pin in track, security bar, or foot lock)' },
+          { key: 'rear_windows_working_locks', text: 'Rear windows have working locks and are reinforced if ground-accessible' },
+          { key: 'rear_fence_gate_secured', text: 'Rear fence/gate is secured with quality lock (not just a flip latch)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'rear_property_boundaries_clearly', text: 'Rear property boundaries clearly defined' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'rear_yard_maintained_lawn', text: 'Rear yard maintained (lawn, landscaping, hardscape)' },
+          { key: 'no_ladders_tools_items', text: 'No ladders, tools, or items stored outside that could assist a burglar' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'garage_parking',
+    name: 'Garage, Driveway, or Assigned Parking',
+    order: 5,
+    description:
+      'Townhomes vary: front-loaded garage, rear-alley garage, or assigned parking with no garage. Skip items that do not apply (mark N/A).',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'driveway_visible_street_inside', text: 'Driveway visible from the street and from inside the home' },
+          { key: 'garage_does_not_create', text: 'Garage does not create blind spots or hidden areas adjacent to the home' },
+          { key: 'shared_alley_parking_area', text: 'Shared alley or parking area is overlooked by multiple units' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'interior_door_garage_home', text: 'Interior door from garage to home is solid core with deadbolt' },
+          { key: 'overhead_garage_door_manual', text: 'Overhead garage door has a manual lock (not relying solely on opener)' },
+          { key: 'emergency_release_cord_secured', text: 'Emergency release cord is secured against coat hanger manipulation' },
+          { key: 'garage_door_kept_closed', text: 'Garage door kept closed and locked when not in active use' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'driveway_clearly_defined_directs', text: 'Driveway clearly defined and directs only to the subject property' },
+          { key: 'assigned_parking_spot_clearly', text: 'Assigned parking spot clearly marked with unit number' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'garage_door_good_working', text: 'Garage door in good working condition' },
+          { key: 'no_high_value_items', text: 'No high-value items visible through garage windows or open door' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'exterior_lighting',
+    name: 'Exterior Lighting',
+    order: 6,
+    description:
+      'Townhomes often have HOA-controlled common-area lighting in addition to unit-controlled fixtures. Note which lighting is the unit\'s responsibility versus the HOA\'s.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Lighting Coverage',
+        items: [
+          { key: 'front_entry_porch_bright', text: "Front entry/porch has a bright, working light that illuminates visitors' faces" },
+          { key: 'exterior_doors_dedicated_lighting', text: 'All exterior doors have dedicated lighting fixtures' },
+          { key: 'walkways_driveway_adequately_illuminated', text: 'Walkways and driveway adequately illuminated' },
+          { key: 'motion_activated_lights_vulnerable', text: 'Motion-activated lights at vulnerable areas (side yards, rear entry, garage)' },
+          { key: 'no_dark_dead_zones', text: 'No dark "dead zones" around the perimeter of the home' },
+          { key: 'hoa_common_area_lighting', text: 'HOA common-area lighting (shared walkways, parking, alleys) in good repair and adequate' },
+          { key: 'exterior_lights_photocell_dusk', text: 'Exterior lights on photocell (dusk-to-dawn) or timer — not solely manual switch' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'exterior_light_fixtures_functioning', text: 'All exterior light fixtures functioning (no burned-out bulbs)' },
+          { key: 'no_landscaping_growth_obstructing', text: 'No landscaping growth obstructing light fixtures or blocking light output' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'windows_interior',
+    name: 'Windows & Interior Considerations',
+    order: 7,
+    description:
+      'Evaluate accessible windows and interior security features. Interior townhome units typically have windows only on the front and rear elevations.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'windows_high_use_rooms', text: 'Windows in high-use rooms (living room, kitchen) face the street or yard areas' },
+          { key: 'window_treatments_allow_occupants', text: 'Window treatments allow occupants to observe outside (not permanently blocked/covered)' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'window_working_lock_good', text: 'Every window has a working lock in good condition' },
+          { key: 'ground_floor_windows_security', text: 'Ground-floor windows have security film or reinforced glass where appropriate' },
+          { key: 'second_story_windows_not', text: 'Second-story windows not accessible via adjacent structures, trees, or climbing aids' },
+          { key: 'vents_transoms_shared_walls', text: 'Vents or transoms on shared walls (if any exist between units) are secured' },
+        ],
+      },
+      {
+        key: 'security_systems',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'alarm_security_system_installed', text: 'Alarm/security system installed and in working order (if applicable)' },
+          { key: 'security_signage_stickers_displayed', text: 'Security signage/stickers displayed (even if no active system)' },
+        ],
+      },
+      {
+        key: 'behavioral',
+        name: 'Behavioral & Routine Considerations',
+        items: [
+          { key: 'valuable_items_not_visible', text: 'Valuable items not visible through windows from outside' },
+        ],
+      },
+    ],
+  },
+];
+
+/** Total number of checklist items across all townhome zones */
+export const TOWNHOME_TOTAL_ITEM_COUNT = TOWNHOME_ZONES.reduce(
+  (total, zone) =>
+    total + zone.principles.reduce((zoneTotal, p) => zoneTotal + p.items.length, 0),
+  0,
+);
@@ -1,7 +1,7 @@
 /**
  * CPTED Item Guidance for Places of Worship
  *
- * Maps each worship checklist item (by exact item_text) to:
+ * Maps each worship checklist item (by its key — see ZoneItem) to:
  *   - standard: What CPTED best practice expects (1-2 sentences)
  *   - improvement: Specific actionable steps the organization can take (2-3 steps)
  */
@@ -12,7 +12,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 1: Property Perimeter & Parking ───
 
   [
-    'Parking lot is visible from the street and from at least one occupied building entrance',
+    'parking_lot_visible_street',
     {
       standard:
         'CPTED principles require parking areas to be observable from occupied spaces so that criminal activity is deterred by the perception of being watched.',
@@ -21,7 +21,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No dense vegetation, walls, or structures creating concealment near parking areas',
+    'no_dense_vegetation_walls',
     {
       standard:
         'Areas adjacent to parking should be free of hiding spots that could conceal an attacker or criminal activity.',
@@ -30,7 +30,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Drop-off and pick-up zones are clearly visible from interior gathering spaces',
+    'drop_off_pick_up',
     {
       standard:
         'Drop-off areas — especially those used by children, elderly, or mobility-impaired visitors — should be observable from inside the building.',
@@ -39,7 +39,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter has clear sight lines — no blind corners along property edges',
+    'perimeter_clear_sight_lines',
     {
       standard:
         'The full perimeter of the property should be observable without blind corners that could harbor loitering or concealment.',
@@ -48,7 +48,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vehicular entry points are limited and clearly defined (not open on all sides)',
+    'vehicular_entry_points_limited',
     {
       standard:
         'Limiting vehicle access points reduces the attack surface and makes it easier to monitor who enters the property.',
@@ -57,7 +57,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Bollards or barriers protect building entrances and gathering areas from vehicle approach',
+    'bollards_barriers_protect_building',
     {
       standard:
         'Physical barriers between vehicle routes and pedestrian areas prevent vehicle-ramming attacks, which are a recognized threat to places of worship.',
@@ -66,7 +66,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot has designated visitor, staff, and accessible spaces clearly marked',
+    'parking_lot_designated_visitor',
     {
       standard:
         'Clearly marked parking designations improve traffic flow, reduce confusion, and help safety teams identify unfamiliar vehicles.',
@@ -75,7 +75,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter fencing or boundary markers control pedestrian access to the property',
+    'perimeter_fencing_boundary_markers',
     {
       standard:
         'Defined boundaries establish territorial reinforcement and channel pedestrian traffic to monitored entry points.',
@@ -84,7 +84,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property name, service times, and address clearly visible from the street',
+    'property_name_service_times',
     {
       standard:
         'Clear identification helps visitors find the property, enables emergency responders to locate the site quickly, and communicates active use.',
@@ -93,7 +93,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Signage directs visitors to main entrance and parking areas',
+    'signage_directs_visitors_main',
     {
       standard:
         'Wayfinding signage reduces confusion, channels visitors to monitored entry points, and reinforces a sense of organization.',
@@ -102,7 +102,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Property boundaries are clearly defined and maintained',
+    'property_boundaries_clearly_defined',
     {
       standard:
         'Clearly defined boundaries communicate ownership and deter trespassing on church property outside of services.',
@@ -111,7 +111,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot surface is in good condition (no potholes, faded markings, debris)',
+    'parking_lot_surface_good',
     {
       standard:
         'A well-maintained parking lot communicates active ownership and care, deterring criminal activity and reducing liability.',
@@ -120,7 +120,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Perimeter landscaping is maintained and does not create hiding spots',
+    'perimeter_landscaping_maintained_does',
     {
       standard:
         'Landscaping along the property perimeter should enhance the property image without creating concealment opportunities.',
@@ -132,7 +132,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 2: Building Exterior & Grounds ───
 
   [
-    'All sides of the building are visible from parking areas, neighboring properties, or public roads',
+    'sides_building_visible_parking',
     {
       standard:
         'Every face of the building should be observable to reduce opportunities for forced entry, vandalism, or loitering in unseen areas.',
@@ -141,7 +141,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No hidden alcoves, recessed doorways, or utility areas creating concealment opportunities',
+    'no_hidden_alcoves_recessed',
     {
       standard:
         'Recessed areas and alcoves provide hiding spots for individuals with harmful intent and should be minimized or monitored.',
@@ -150,7 +150,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Playground or outdoor gathering areas are visible from interior occupied spaces',
+    'playground_outdoor_gathering_areas',
     {
       standard:
         'Outdoor areas where children play or congregants gather should be observable from inside the building for both safety and supervision.',
@@ -159,7 +159,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Secondary and emergency exit doors are locked from outside (exit-only hardware)',
+    'secondary_emergency_exit_doors',
     {
       standard:
         'Secondary doors should allow emergency egress from inside while preventing unauthorized entry from outside.',
@@ -168,7 +168,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Utility rooms, HVAC equipment, and roof access points are secured',
+    'utility_rooms_hvac_equipment',
     {
       standard:
         'Utility and mechanical areas can be exploited for sabotage, concealment, or roof access and must be secured.',
@@ -177,7 +177,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Dumpster and storage areas are enclosed or secured and not adjacent to building entry points',
+    'dumpster_storage_areas_enclosed',
     {
       standard:
         'Dumpsters and outdoor storage near buildings create concealment and can be used to stage threats or hide contraband.',
@@ -186,7 +186,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Building exterior communicates active use and care (no boarded windows, peeling paint, or neglect)',
+    'building_exterior_communicates_active',
     {
       standard:
         'A well-maintained exterior projects active ownership, which deters criminal targeting according to the "broken windows" theory.',
@@ -195,7 +195,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Grounds show regular maintenance and community investment',
+    'grounds_show_regular_maintenance',
     {
       standard:
         'Well-kept grounds communicate that the property is actively managed and cared for, reducing vulnerability to criminal activity.',
@@ -204,7 +204,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Building exterior is free of graffiti, vandalism, or visible damage',
+    'building_exterior_free_graffiti',
     {
       standard:
         'Visible graffiti or vandalism signals a lack of guardianship and can invite further criminal activity.',
@@ -213,7 +213,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Landscaping around the building follows the 2\'/6\' rule (shrubs under 2 ft, canopies above 6 ft)',
+    'landscaping_around_building_follows',
     {
       standard:
         'The 2\'/6\' rule eliminates concealment while maintaining attractive landscaping: shrubs trimmed below 2 feet and tree canopies raised above 6 feet.',
@@ -225,7 +225,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 3: Main Entry & Narthex/Lobby ───
 
   [
-    'Main entrance is clearly identifiable and visible from the parking area',
+    'main_entrance_clearly_identifiable',
     {
       standard:
         'The main entrance should be architecturally distinct and visible so visitors know where to enter and safety teams can focus monitoring.',
@@ -234,7 +234,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Lobby/narthex has windows or sight lines to the exterior approach',
+    'lobby_narthex_windows_sight',
     {
       standard:
         'Interior spaces near the entrance should allow occupants to see who is approaching before they enter the building.',
@@ -243,7 +243,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Greeters, ushers, or reception staff have a clear view of arriving visitors',
+    'greeters_ushers_reception_staff',
     {
       standard:
         'Human surveillance through greeters and ushers is one of the most effective CPTED measures for places of worship — it combines observation with social engagement.',
@@ -252,7 +252,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Main entry doors can be locked or controlled during services (single point of entry when needed)',
+    'main_entry_doors_can',
     {
       standard:
         'During services, the ability to funnel visitors through a single monitored entrance increases security while maintaining a welcoming environment.',
@@ -261,7 +261,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Vestibule or narthex creates a transitional space between outside and worship areas',
+    'vestibule_narthex_creates_transitional',
     {
       standard:
         'A transitional space between the exterior and the sanctuary allows for observation, greeting, and screening before individuals enter the main worship area.',
@@ -270,7 +270,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Greeting or welcome ministry is positioned to observe and engage all who enter',
+    'greeting_welcome_ministry_positioned',
     {
       standard:
         'Active greeting serves dual purposes: welcoming visitors and providing an informal security screening through personal engagement.',
@@ -279,7 +279,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Visitor check-in or information area is near the main entrance',
+    'visitor_check_information_area',
     {
       standard:
         'A visible information or check-in area near the entrance helps identify newcomers, provides orientation, and reinforces a culture of awareness.',
@@ -288,7 +288,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Entry area is clean, well-lit, and welcoming (good first impression)',
+    'entry_area_clean_well',
     {
       standard:
         'A clean, bright entry communicates order and active management, which deters criminal activity and reassures visitors.',
@@ -300,7 +300,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 4: Sanctuary & Worship Space ───
 
   [
-    'Ushers or safety team members can observe all seating areas and entry points from their positions',
+    'ushers_safety_team_members',
     {
       standard:
         'Safety team members should have unobstructed sight lines across the entire sanctuary to detect unusual behavior or threats quickly.',
@@ -309,7 +309,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Balcony, choir loft, or elevated areas are monitored or restricted when not in use',
+    'balcony_choir_loft_elevated',
     {
       standard:
         'Elevated areas provide tactical advantage to anyone with harmful intent and must be monitored during services or locked when not in use.',
@@ -318,7 +318,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Altar/chancel area is visible from multiple vantage points (no hidden approaches)',
+    'altar_chancel_area_visible',
     {
       standard:
         'The altar and chancel area should be open and visible to prevent concealed approach to clergy and worship leaders.',
@@ -327,7 +327,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Sacristy and vestry rooms are locked when unoccupied',
+    'sacristy_vestry_rooms_locked',
     {
       standard:
         'The sacristy contains liturgical items, vestments, and often valuables. It should be secured to prevent theft and unauthorized access.',
@@ -336,7 +336,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Tabernacle or sacred objects are secured (anchored, locked, or alarmed)',
+    'tabernacle_sacred_objects_secured',
     {
       standard:
         'Sacred objects, particularly the tabernacle in Catholic churches, are targets for theft and desecration and require physical security measures.',
@@ -345,7 +345,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Access to altar/chancel area can be controlled during services',
+    'access_altar_chancel_area',
     {
       standard:
         'Controlling access to the altar area protects clergy and worship leaders from potential threats during services.',
@@ -354,7 +354,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency exits are clearly marked, unobstructed, and operable from inside',
+    'emergency_exits_clearly_marked',
     {
       standard:
         'All emergency exits must be clearly visible, free of obstructions, and usable without special knowledge — this is critical for safe evacuation.',
@@ -363,7 +363,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Evacuation plan is posted and congregation has been briefed on emergency procedures',
+    'evacuation_plan_posted_congregation',
     {
       standard:
         'An established and communicated emergency plan enables rapid, orderly evacuation and reduces panic during emergencies.',
@@ -375,7 +375,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 5: Fellowship & Community Spaces ───
 
   [
-    'Fellowship hall and meeting rooms have windows or open sight lines from adjacent spaces',
+    'fellowship_hall_meeting_rooms',
     {
       standard:
         'Natural surveillance into fellowship and meeting spaces reduces the opportunity for harmful activity when groups are meeting.',
@@ -384,7 +384,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Kitchen area has a serving window or pass-through that maintains visual connection',
+    'kitchen_area_serving_window',
     {
       standard:
         'Kitchens that are visually connected to serving areas allow for natural surveillance while food is being prepared.',
@@ -393,7 +393,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Meeting rooms can be locked when not in use',
+    'meeting_rooms_can_locked',
     {
       standard:
         'Unused rooms that remain unlocked provide concealment opportunities and increase the facility footprint that must be monitored.',
@@ -402,7 +402,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Kitchen has lockable storage for sharp objects and hazardous materials',
+    'kitchen_lockable_storage_sharp',
     {
       standard:
         'Knives, cleaning chemicals, and other potential weapons of opportunity should be secured when the kitchen is not in active use.',
@@ -411,7 +411,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior doors from fellowship spaces are alarmed or monitored',
+    'exterior_doors_fellowship_spaces',
     {
       standard:
         'Doors from fellowship areas to the exterior can become unmonitored entry points during events and should be secured or monitored.',
@@ -420,7 +420,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Fellowship spaces are clean, organized, and free of clutter that could impede evacuation',
+    'fellowship_spaces_clean_organized',
     {
       standard:
         'Cluttered spaces slow evacuation, create tripping hazards, and project a lack of active management.',
@@ -429,7 +429,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Emergency exits from fellowship areas are clearly marked and unobstructed',
+    'emergency_exits_fellowship_areas',
     {
       standard:
         'All rooms used for gatherings must have clearly marked, unobstructed emergency exits per fire code and CPTED best practices.',
@@ -441,7 +441,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 6: Education & Children's Areas ───
 
   [
-    'Children\'s wing or area has controlled access (check-in/check-out system in place)',
+    'children_wing_area_controlled',
     {
       standard:
         'Children\'s areas require the most stringent access control — only authorized adults should be able to enter or remove a child.',
@@ -450,7 +450,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom doors have locks operable from inside and viewing windows or half-doors for supervision',
+    'classroom_doors_locks_operable',
     {
       standard:
         'Classroom doors should lock from inside for lockdown capability while allowing visual monitoring from the hallway for child safety.',
@@ -459,7 +459,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Restrooms near children\'s areas are single-occupancy or supervised',
+    'restrooms_near_children_areas',
     {
       standard:
         'Restrooms are a common vulnerability in children\'s ministry — they should be single-occupancy or have adult supervision protocols.',
@@ -468,7 +468,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Only authorized personnel can access nursery and children\'s rooms',
+    'only_authorized_personnel_can',
     {
       standard:
         'Nurseries and children\'s rooms should be restricted to screened, authorized volunteers and staff at all times.',
@@ -477,7 +477,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Hallways in children\'s areas have clear sight lines with no hidden alcoves',
+    'hallways_children_areas_clear',
     {
       standard:
         'Hallways in children\'s areas should be open and visible to prevent concealment or unsupervised contact.',
@@ -486,7 +486,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classroom doors have vision panels or windows allowing visual monitoring from hallways',
+    'classroom_doors_vision_panels',
     {
       standard:
         'Visual transparency into classrooms from hallways is essential for child protection and accountability.',
@@ -495,7 +495,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Classrooms have lockdown capability (doors lockable from inside, window coverings available)',
+    'classrooms_lockdown_capability_doors',
     {
       standard:
         'In an active threat scenario, classrooms must be able to lock down quickly with doors secured and windows covered.',
@@ -504,7 +504,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Two-adult rule or open-door policy is practiced in children\'s ministry areas',
+    'two_adult_rule_open',
     {
       standard:
         'The two-adult rule is a foundational child protection policy — no single adult should be alone with children in an enclosed space.',
@@ -516,7 +516,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 7: Administrative & Support Areas ───
 
   [
-    'Administrative offices are locked when unoccupied',
+    'administrative_offices_locked_unoccupied',
     {
       standard:
         'Offices contain sensitive personal information, financial records, and often have computer access that should be secured when unattended.',
@@ -525,7 +525,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Financial records, offering storage, and safe are in a secured area with limited access',
+    'financial_records_offering_storage',
     {
       standard:
         'Financial areas are high-value targets. Access should be limited to authorized personnel with physical security measures in place.',
@@ -534,7 +534,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Server room or IT closet is locked and access is restricted to authorized personnel',
+    'server_room_closet_locked',
     {
       standard:
         'IT infrastructure contains sensitive data and access to networks. Physical access must be controlled.',
@@ -543,7 +543,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Office area reception or front desk has a clear view of approaching visitors',
+    'office_area_reception_front',
     {
       standard:
         'Administrative staff should be able to see who is approaching their workspace to assess visitors before granting access.',
@@ -552,7 +552,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'No isolated offices without a secondary exit or line of sight to common areas',
+    'no_isolated_offices_without',
     {
       standard:
         'Staff members should not be trapped in isolated spaces with no escape route or ability to signal for help.',
@@ -561,7 +561,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Storage rooms and maintenance areas are organized and locked when not in use',
+    'storage_rooms_maintenance_areas',
     {
       standard:
         'Unlocked storage and maintenance areas provide concealment, access to tools, and potential hiding spots for threats.',
@@ -570,7 +570,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Key control system is in place (master keys tracked, locks rekeyed when staff leave)',
+    'key_control_system_place',
     {
       standard:
         'A key control system prevents unauthorized access from lost, copied, or unreturned keys — a common vulnerability in places of worship.',
@@ -582,7 +582,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
   // ─── Zone 8: Exterior Lighting & Surveillance ───
 
   [
-    'All building entrances have bright, working lights that illuminate visitors\' faces',
+    'building_entrances_bright_working',
     {
       standard:
         'Entrance lighting must be bright enough to identify faces from a reasonable distance, which deters crime and aids camera identification.',
@@ -591,7 +591,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Parking lot has consistent lighting with no dark gaps between fixtures',
+    'parking_lot_consistent_lighting',
     {
       standard:
         'Parking lot lighting should be uniform — dark gaps between light pools create concealment opportunities and increase vulnerability.',
@@ -600,7 +600,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Walkways between parking and building entrances are well-lit',
+    'walkways_between_parking_building',
     {
       standard:
         'The path from parking to the building is where visitors are most exposed — it must be well-lit to reduce vulnerability.',
@@ -609,7 +609,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Motion-activated lights cover vulnerable areas (rear of building, storage, utility areas)',
+    'motion_activated_lights_cover',
     {
       standard:
         'Motion-activated lighting serves as both a deterrent and an alert — sudden illumination draws attention to activity in vulnerable areas.',
@@ -618,7 +618,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Exterior lights on photocell or timer — not solely manual switch',
+    'exterior_lights_photocell_timer',
     {
       standard:
         'Lights that depend on someone remembering to turn them on will inevitably be left off — automated controls ensure consistent operation.',
@@ -627,7 +627,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Security cameras cover parking lot, main entrance, and building perimeter',
+    'security_cameras_cover_parking',
     {
       standard:
         'A camera system provides deterrence, real-time monitoring capability, and evidence preservation for incidents.',
@@ -636,7 +636,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Camera system records continuously with adequate storage (minimum 30 days)',
+    'camera_system_records_continuously',
     {
       standard:
         'Camera footage must be stored long enough to be useful for investigations — incidents may not be discovered immediately.',
@@ -645,7 +645,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'All exterior light fixtures functioning (no burned-out bulbs or damaged fixtures)',
+    'exterior_light_fixtures_functioning_no',
     {
       standard:
         'Non-functioning lights create dark spots that undermine the entire lighting plan and signal lack of maintenance.',
@@ -654,7 +654,7 @@ export const WORSHIP_ITEM_GUIDANCE = new Map<string, ItemGuidance>([
     },
   ],
   [
-    'Landscaping does not obstruct light fixtures or camera sight lines',
+    'landscaping_does_not_obstruct',
     {
       standard:
         'Vegetation that grows to block lights or cameras defeats the purpose of the investment and must be maintained.',
@@ -0,0 +1,252 @@
+/**
+ * Zone Registry — maps PropertyType to the correct zone definitions and item guidance.
+ *
+ * Every file that needs zone/checklist data should resolve it through this module
+ * based on the assessment's property_type rather than importing a hardcoded constant.
+ */
+
+import type { ZoneDefinition, PropertyType } from '../types.js';
+import type { ItemGuidance } from './item-guidance.js';
+import { ZONES } from './zones.js';
+import { ITEM_GUIDANCE } from './item-guidance.js';
+import { WORSHIP_ZONES } from './worship-zones.js';
+import { WORSHIP_ITEM_GUIDANCE } from './worship-item-guidance.js';
+import { CHRISTIAN_ZONES } from './christian-zones.js';
+import { CHRISTIAN_ITEM_GUIDANCE } from './christian-item-guidance.js';
+import { TOWNHOME_ZONES } from './townhome-zones.js';
+import { TOWNHOME_ITEM_GUIDANCE } from './townhome-item-guidance.js';
+import {
+  ELEMENTARY_SCHOOL_ZONES,
+  MIDDLE_SCHOOL_ZONES,
+  HIGH_SCHOOL_ZONES,
+  COMBINED_SCHOOL_ZONES,
+} from './school-zones.js';
+import { SCHOOL_ITEM_GUIDANCE } from './school-item-guidance.js';
+import { COMMERCIAL_OFFICE_ZONES } from './commercial-office-zones.js';
+import { COMMERCIAL_OFFICE_ITEM_GUIDANCE } from './commercial-office-item-guidance.js';
+import {
+  getSchoolBand,
+  getTemplateId,
+  getTemplateVersion,
+  rebuildZonesAtVersion,
+} from './template-versions.js';
+import {
+  getPublishedGeneration,
+  getPublishedGuidance,
+  getPublishedZones,
+} from './published-templates.js';
+
+/**
+ * Older template versions, rebuilt once each — keyed
+ * `${generation}:${propertyType}@${version}`, so installing published
+ * templates leaves every earlier rebuild behind.
+ */
+const pinnedZones = new Map<string, ZoneDefinition[]>();
+
+/**
+ * The zones for a property type: the current template, or — given the
+ * version an assessment was created with (Assessment.template_version) — the
+ * template as it was at that version. See template-versions.ts.
+ */
+export function getZonesForType(propertyType: PropertyType, version?: number): ZoneDefinition[] {
+  const current = getCurrentZones(propertyType);
+  if (version === undefined || version >= getTemplateVersion(propertyType)) return current;
+  const cacheKey = `${getPublishedGeneration()}:${propertyType}@${version}`;
+  let zones = pinnedZones.get(cacheKey);
+  if (!zones) {
+    zones = rebuildZonesAtVersion(current, propertyType, version);
+    pinnedZones.set(cacheKey, zones);
+  }
+  return zones;
+}
+
+function getCurrentZones(propertyType: PropertyType): ZoneDefinition[] {
+  const published = getPublishedZones(getTemplateId(propertyType), getSchoolBand(propertyType));
+  if (published) return published;
+  switch (propertyType) {
+    case 'places_of_worship':
+      return WORSHIP_ZONES;
+    case 'christian_church':
+      return CHRISTIAN_ZONES;
+    case 'townhome':
+      return TOWNHOME_ZONES;
+    case 'elementary_school':
+      return ELEMENTARY_SCHOOL_ZONES;
+    case 'middle_school':
+      return MIDDLE_SCHOOL_ZONES;
+    case 'high_school':
+      return HIGH_SCHOOL_ZONES;
+    case 'combined_school':
+      return COMBINED_SCHOOL_ZONES;
+    case 'commercial_office':
+      return COMMERCIAL_OFFICE_ZONES;
+    case 'single_family_residential':
+    default:
+      return ZONES;
+  }
+}
+
+export function getItemGuidanceForType(propertyType: PropertyType): Map<string, ItemGuidance> {
+  const published = getPublishedGuidance(getTemplateId(propertyType));
+  if (published) return published;
+  switch (propertyType) {
+    case 'places_of_worship':
+      return WORSHIP_ITEM_GUIDANCE;
+    case 'christian_church':
+      return CHRISTIAN_ITEM_GUIDANCE;
+    case 'townhome':
+      return TOWNHOME_ITEM_GUIDANCE;
+    case 'elementary_school':
+    case 'middle_school':
+    case 'high_school':
+    case 'combined_school':
+      return SCHOOL_ITEM_GUIDANCE;
+    case 'commercial_office':
+      return COMMERCIAL_OFFICE_ITEM_GUIDANCE;
+    case 'single_family_residential':
+    default:
+      return ITEM_GUIDANCE;
+  }
+}
+
+/** A checklist item, placed in its template. */
+export interface TemplateItem {
+  key: string;
+  text: string;
+  zone_key: string;
+  principle: string;
+}
+
+/** What upgrading an assessment from its pinned template version would change. */
+export interface TemplateChanges {
+  fromVersion: number;
+  toVersion: number;
+  added: TemplateItem[];
+  retired: TemplateItem[];
+  /** Same item, new wording; `text` is the current wording. */
+  renamed: (TemplateItem & { from: string })[];
+  /** Same item, another zone or principle; `zone_key` and `principle` are where it is now. */
+  moved: (TemplateItem & { from_zone_key: string; from_principle: string })[];
+}
+
+function templateItems(zones: ZoneDefinition[]): Map<string, TemplateItem> {
+  const items = new Map<string, TemplateItem>();
+  for (const zone of zones) {
+    for (const principle of zone.principles) {
+      for (const item of principle.items) {
+        items.set(item.key, { ...item, zone_key: zone.key, principle: principle.key });
+      }
+    }
+  }
+  return items;
+}
+
+/**
+ * The items added, retired, reworded and moved between `fromVersion` and the current
+ * version of a property type's template, in current checklist order (retired
+ * items in the order they had). Empty lists when the assessment is current.
+ */
+export function getTemplateChanges(propertyType: PropertyType, fromVersion: number): TemplateChanges {
+  const before = templateItems(getZonesForType(propertyType, fromVersion));
+  const after = templateItems(getCurrentZones(propertyType));
+  return {
+    fromVersion,
+    toVersion: getTemplateVersion(propertyType),
+    added: [...after.values()].filter((item) => !before.has(item.key)),
+    retired: [...before.values()].filter((item) => !after.has(item.key)),
+    renamed: [...after.values()].flatMap((item) => {
+      const old = before.get(item.key);
+      return old && old.text !== item.text ? [{ ...item, from: old.text }] : [];
+    }),
+    moved: [...after.values()].flatMap((item) => {
+      const old = before.get(item.key);
+      return old && (old.zone_key !== item.zone_key || old.principle !== item.principle)
+        ? [{ ...item, from_zone_key: old.zone_key, from_principle: old.principle }]
+        : [];
+    }),
+  };
+}
+
+let keysByText: Map<string, string> | null = null;
+
+/**
+ * The key of the item currently worded exactly `itemText`, in any template.
+ *
+ * Only for rows recorded before items had keys — assessments on an iPad, or
+ * pushed by a copy of the app, that predate them. A row whose wording has
+ * since been edited has no match and stays keyless: it still shows and scores
+ * as written, it just has no guidance, phase or hint to look up.
+ */
+export function getItemKeyForText(itemText: string): string | undefined {
+  if (!keysByText) {
+    keysByText = new Map();
+    for (const zones of [
+      ZONES,
+      TOWNHOME_ZONES,
+      WORSHIP_ZONES,
+      CHRISTIAN_ZONES,
+      COMBINED_SCHOOL_ZONES,
+      ELEMENTARY_SCHOOL_ZONES,
+      MIDDLE_SCHOOL_ZONES,
+      HIGH_SCHOOL_ZONES,
+      COMMERCIAL_OFFICE_ZONES,
+    ]) {
+      for (const zone of zones) {
+        for (const principle of zone.principles) {
+          for (const item of principle.items) keysByText.set(item.text, item.key);
+        }
+      }
+    }
+  }
+  return keysByText.get(itemText);
+}
+
+/** Human-readable label for property type */
+export function getPropertyTypeLabel(propertyType: PropertyType): string {
+  switch (propertyType) {
+    case 'places_of_worship':
+      return 'Places of Worship (Catholic)';
+    case 'christian_church':
+      return 'Christian Church';
+    case 'townhome':
+      return 'Townhome';
+    case 'elementary_school':
+      return 'Elementary School';
+    case 'middle_school':
+      return 'Middle School';
+    case 'high_school':
+      return 'High School';
+    case 'combined_school':
+      return 'Combined School (K-8 / K-12)';
+    case 'commercial_office':
+      return 'Commercial Office';
+    case 'single_family_residential':
+    default:
+      return 'Single Family Residential';
+  }
+}
+
+/** Returns true for any worship/church property type (not residential) */
+export function isWorshipType(propertyType: PropertyType): boolean {
+  return propertyType === 'places_of_worship' || propertyType === 'christian_church';
+}
+
+/** Returns true for residential-style property types (single-family + townhome) */
+export function isResidentialType(propertyType: PropertyType): boolean {
+  return propertyType === 'single_family_residential' || propertyType === 'townhome';
+}
+
+/** Returns true for any school property type (elementary/middle/high/combined) */
+export function isSchoolType(propertyType: PropertyType): boolean {
+  return (
+    propertyType === 'elementary_school' ||
+    propertyType === 'middle_school' ||
+    propertyType === 'high_school' ||
+    propertyType === 'combined_school'
+  );
+}
+
+/** Returns true for commercial office property types */
+export function isCommercialType(propertyType: PropertyType): boolean {
+  return propertyType === 'commercial_office';
+}
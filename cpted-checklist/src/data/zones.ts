@@ -0,0 +1,294 @@
+import type { ZoneDefinition } from '../types.js';
+
+export const ZONES: ZoneDefinition[] = [
+  {
+    key: 'street_approach',
+    name: 'Street Approach & Address Visibility',
+    order: 1,
+    description:
+      'Assess the property as you approach from the street, simulating the perspective of both a visitor and a potential offender.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'clear_unobstructed_sight_line', text: 'Clear, unobstructed sight line from the street to the front door' },
+          { key: 'front_windows_home_provide', text: 'Front windows of the home provide views of the street and front yard' },
+          { key: 'no_large_visual_barriers', text: 'No large visual barriers (walls, hedges, structures) blocking the view from the street to the home' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'clearly_defined_driveway_walkway', text: 'Clearly defined driveway/walkway directs visitors to the front entry' },
+          { key: 'sidewalk_approach_good_condition', text: 'Sidewalk and approach are in good condition and clearly routed' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'property_boundaries_visible_identifiable', text: 'Property boundaries visible and identifiable from the street' },
+          { key: 'house_number_clearly_visible', text: 'House number clearly visible from the street (minimum 4" tall, contrasting color, illuminated or reflective at night)' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'street_frontage_clean_free', text: 'Street frontage is clean and free of debris, abandoned items, or clutter' },
+          { key: 'no_graffiti_vandalism_signs', text: 'No graffiti, vandalism, or signs of neglect visible from the street' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'front_yard',
+    name: 'Front Yard & Primary Entry',
+    order: 2,
+    description:
+      'Evaluate the front yard landscaping, porch/entry area, and the main point of entry to the home.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'vegetation_follows_2_6', text: 'Vegetation follows the 2\'/6\' rule (shrubs under 2 ft, tree canopies above 6 ft)' },
+          { key: 'no_dense_vegetation_structures', text: 'No dense vegetation or structures creating concealment spots near the entry' },
+          { key: 'front_porch_entry_area', text: 'Front porch/entry area visible from the street and from neighboring properties' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'front_door_solid_core', text: 'Front door is solid core hardwood or metal (not hollow core)' },
+          { key: 'deadbolt_installed_minimum_1', text: 'Deadbolt installed with minimum 1" throw and reinforced strike plate (3" screws)' },
+          { key: 'door_frame_solid_good', text: 'Door frame is solid and in good condition (no rot, no gaps)' },
+          { key: 'glass_panels_near_door', text: 'Glass panels in or near door are reinforced or have security film' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'front_yard_landscaping_demonstrates', text: 'Front yard landscaping demonstrates active ownership and care' },
+          { key: 'property_line_between_front', text: 'Property line between front yard and public space is clearly delineated' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'lawn_maintained_free_overgrown', text: 'Lawn maintained and free of overgrown areas' },
+          { key: 'walkway_steps_porch_good', text: 'Walkway, steps, and porch in good structural condition' },
+          { key: 'door_hardware_knob_lock', text: 'Door hardware (knob, lock, hinges) in good working condition' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'side_yards',
+    name: 'Side Yards & Pathways',
+    order: 3,
+    description:
+      'Walk both sides of the property. Side yards are common vulnerability areas — they connect the more visible front to the more private rear and are often neglected.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'side_yards_visible_least', text: 'Side yards visible from at least one neighboring property' },
+          { key: 'vegetation_along_side_yards', text: 'Vegetation along side yards follows the 2\'/6\' rule' },
+          { key: 'no_concealment_opportunities_between', text: 'No concealment opportunities between structures (AC units, sheds, fences)' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'side_yard_gates_present', text: 'Side yard gates present, in working condition, with self-latching or locking hardware' },
+          { key: 'no_easy_climb_features', text: 'No easy-climb features along side fencing (trellises, stored items, compost bins)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'side_property_lines_clearly', text: 'Side property lines clearly marked or fenced' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'side_yards_free_stored', text: 'Side yards free of stored junk, debris, or unused items' },
+          { key: 'fencing_good_repair_no', text: 'Fencing in good repair (no leaning, broken slats, or gaps)' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'rear_yard',
+    name: 'Rear Yard & Back Entry',
+    order: 4,
+    description:
+      'The rear of the home is typically the least observed area and most common point of forced entry. Assess carefully.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'rear_yard_least_partially', text: 'Rear yard at least partially visible from one or more neighboring properties' },
+          { key: 'rear_facing_windows_provide', text: 'Rear-facing windows provide views of the back yard from inside the home' },
+          { key: 'no_dense_vegetation_creating', text: 'No dense vegetation creating concealment along the rear of the home' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'rear_entry_door_solid', text: 'Rear entry door is solid core with deadbolt (same standard as front)' },
+          { key: 'sliding_glass_doors_secondary', text: 'Sliding glass doors have secondary security (dowel/pin in track, security bar, or foot lock)' },
+          { key: 'rear_windows_working_locks', text: 'Rear windows have working locks and are reinforced if ground-accessible' },
+          { key: 'rear_fence_gate_secured', text: 'Rear fence/gate is secured with quality lock (not just a flip latch)' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'rear_property_boundaries_clearly', text: 'Rear property boundaries clearly defined' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'rear_yard_maintained_lawn', text: 'Rear yard maintained (lawn, landscaping, hardscape)' },
+          { key: 'no_ladders_tools_items', text: 'No ladders, tools, or items stored outside that could assist a burglar' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'garage_driveway',
+    name: 'Garage & Driveway',
+    order: 5,
+    description:
+      'Assess vehicle access, storage security, and the transition area between the garage/driveway and the home interior.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'driveway_visible_street_inside', text: 'Driveway visible from the street and from inside the home' },
+          { key: 'garage_does_not_create', text: 'Garage does not create blind spots or hidden areas adjacent to the home' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'interior_door_garage_home', text: 'Interior door from garage to home is solid core with deadbolt' },
+          { key: 'overhead_garage_door_manual', text: 'Overhead garage door has a manual lock (not relying solely on opener)' },
+          { key: 'emergency_release_cord_secured', text: 'Emergency release cord is secured against coat hanger manipulation' },
+          { key: 'garage_door_kept_closed', text: 'Garage door kept closed and locked when not in active use' },
+        ],
+      },
+      {
+        key: 'territorial_reinforcement',
+        name: 'Territorial Reinforcement',
+        items: [
+          { key: 'driveway_clearly_defined_directs', text: 'Driveway clearly defined and directs only to the subject property' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'garage_door_good_working', text: 'Garage door in good working condition' },
+          { key: 'no_high_value_items', text: 'No high-value items visible through garage windows or open door' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'exterior_lighting',
+    name: 'Exterior Lighting',
+    order: 6,
+    description:
+      'Evaluate all exterior lighting. Ideally conduct a nighttime assessment or note fixture types/placement for expected coverage. Consistent, adequate lighting is one of the most impactful CPTED measures for residential properties.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Lighting Coverage',
+        items: [
+          { key: 'front_entry_porch_bright', text: "Front entry/porch has a bright, working light that illuminates visitors' faces" },
+          { key: 'exterior_doors_dedicated_lighting', text: 'All exterior doors have dedicated lighting fixtures' },
+          { key: 'walkways_driveway_adequately_illuminated', text: 'Walkways and driveway adequately illuminated' },
+          { key: 'motion_activated_lights_vulnerable', text: 'Motion-activated lights at vulnerable areas (side yards, rear entry, garage)' },
+          { key: 'no_dark_dead_zones', text: 'No dark "dead zones" around the perimeter of the home' },
+          { key: 'exterior_lights_photocell_dusk', text: 'Exterior lights on photocell (dusk-to-dawn) or timer — not solely manual switch' },
+        ],
+      },
+      {
+        key: 'maintenance',
+        name: 'Maintenance & Image',
+        items: [
+          { key: 'exterior_light_fixtures_functioning', text: 'All exterior light fixtures functioning (no burned-out bulbs)' },
+          { key: 'no_landscaping_growth_obstructing', text: 'No landscaping growth obstructing light fixtures or blocking light output' },
+        ],
+      },
+    ],
+  },
+  {
+    key: 'windows_interior',
+    name: 'Windows & Interior Considerations',
+    order: 7,
+    description:
+      'Evaluate all accessible windows and relevant interior security features that affect CPTED principles.',
+    principles: [
+      {
+        key: 'natural_surveillance',
+        name: 'Natural Surveillance',
+        items: [
+          { key: 'windows_high_use_rooms', text: 'Windows in high-use rooms (living room, kitchen) face the street or yard areas' },
+          { key: 'window_treatments_allow_occupants', text: 'Window treatments allow occupants to observe outside (not permanently blocked/covered)' },
+        ],
+      },
+      {
+        key: 'access_control',
+        name: 'Natural Access Control',
+        items: [
+          { key: 'window_working_lock_good', text: 'Every window has a working lock in good condition' },
+          { key: 'ground_floor_windows_security', text: 'Ground-floor windows have security film or reinforced glass where appropriate' },
+          { key: 'second_story_windows_not', text: 'Second-story windows not accessible via adjacent structures, trees, or climbing aids' },
+        ],
+      },
+      {
+        key: 'security_systems',
+        name: 'Security Systems & Technology',
+        items: [
+          { key: 'alarm_security_system_installed', text: 'Alarm/security system installed and in working order (if applicable)' },
+          { key: 'security_signage_stickers_displayed', text: 'Security signage/stickers displayed (even if no active system)' },
+        ],
+      },
+      {
+        key: 'behavioral',
+        name: 'Behavioral & Routine Considerations',
+        items: [
+          { key: 'valuable_items_not_visible', text: 'Valuable items not visible through windows from outside' },
+        ],
+      },
+    ],
+  },
+];
+
+/** Total number of checklist items across all zones */
+export const TOTAL_ITEM_COUNT = ZONES.reduce(
+  (total, zone) =>
+    total + zone.principles.reduce((zoneTotal, p) => zoneTotal + p.items.length, 0),
+  0,
+);
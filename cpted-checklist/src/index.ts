@@ -0,0 +1,147 @@
+/**
+ * The checklists, their guidance and the scoring rules — the part of an
+ * assessment that has to mean the same thing on the iPad and on the server.
+ *
+ * Both builds import this package rather than keeping copies: the copies had
+ * already drifted (the server was missing five templates), and a checklist or
+ * scoring change now lands in one place. Nothing here touches storage, the DOM
+ * or Node; persistence and display styling stay with the app that does them.
+ */
+
+export type { PropertyType, SchoolRating, ZoneDefinition, ZoneItem, ZonePrinciple } from './types.js';
+export type { ItemGuidance } from './data/item-guidance.js';
+export type { SchoolBand } from './data/school-zones.js';
+export type { Phase } from './data/item-phases.js';
+export type { ComplianceSummary, ScoredItem } from './scoring.js';
+export type { TemplateChanges, TemplateItem } from './data/zone-registry.js';
+export type {
+  TemplateId,
+  TemplateRevision,
+  ItemMigration,
+  ItemPlacement,
+} from './data/template-versions.js';
+export type { AddedItem, MigratingItem, TemplateMigrationPlan, UuidV5 } from './migrate.js';
+export type { Building, BuildingGroup, BuildingZone } from './buildings.js';
+export type {
+  SiteFactKey,
+  SiteFacts,
+  SiteFactQuestion,
+  ApplicableItem,
+  SiteFactItem,
+  SiteFactUpdate,
+} from './data/site-facts.js';
+export type { ScoreWeights, WeightedItem, WeightedScore } from './data/score-weights.js';
+export type {
+  CompletionRuleKind,
+  CompletionSeverity,
+  CompletionRule,
+  CompletionItem,
+  CompletionInput,
+  CompletionViolation,
+} from './data/completion-rules.js';
+export type {
+  PrincipleMatrix,
+  PrincipleMatrixCell,
+  PrincipleMatrixMode,
+  PrincipleMatrixRow,
+} from './principle-matrix.js';
+export type {
+  RecommendationStatus,
+  RecommendationStatusChange,
+  TrackedRecommendation,
+  RecommendationCounts,
+} from './recommendation-status.js';
+export type {
+  AuthoredItem,
+  AuthoredPrinciple,
+  AuthoredZone,
+  TemplateDocument,
+  PublishedTemplate,
+} from './data/published-templates.js';
+
+export {
+  getZonesForType,
+  getItemGuidanceForType,
+  getItemKeyForText,
+  getTemplateChanges,
+  getPropertyTypeLabel,
+  isWorshipType,
+  isResidentialType,
+  isSchoolType,
+  isCommercialType,
+} from './data/zone-registry.js';
+export { getItemPhase, isNightItem, getVerificationHint } from './data/item-phases.js';
+export {
+  getTemplateId,
+  getTemplateVersion,
+  getCurrentVersionOf,
+  getTemplateRevisions,
+} from './data/template-versions.js';
+export { installPublishedTemplates } from './data/published-templates.js';
+export {
+  TEMPLATE_IDS,
+  getTemplateLabel,
+  getTemplateDocument,
+  withScoreWeights,
+  validateTemplateDocument,
+  diffTemplateDocuments,
+} from './data/template-documents.js';
+export { migratesAutomatically, planTemplateMigration, isEmptyMigration } from './migrate.js';
+export {
+  DEFAULT_MAIN_BUILDING_NAME,
+  supportsBuildings,
+  buildingZoneKey,
+  baseZoneKey,
+  buildingIdOf,
+  newBuildingId,
+  expandZones,
+  groupZonesByBuilding,
+} from './buildings.js';
+export { getSiteFactQuestions, siteFactReason, planSiteFactUpdates } from './data/site-facts.js';
+export {
+  CRITICAL_SCORE_CAP,
+  getScoreWeights,
+  getBundledScoreWeights,
+  scoreWeightsOf,
+  calculateWeightedScore,
+  groupItemsByZone,
+  calculateBuildingScore,
+  describeScoreWeights,
+} from './data/score-weights.js';
+export {
+  FAILED_ITEM_SCORE,
+  COMPLETION_RULE_KINDS,
+  COMPLETION_RULE_LABELS,
+  getBundledCompletionRules,
+  getCompletionRules,
+  isFailedItem,
+  checkCompletion,
+} from './data/completion-rules.js';
+export { ALL_SCHOOL_ITEM_KEYS } from './data/school-zones.js';
+export {
+  getScoredItems,
+  calculateAverage,
+  calculatePrincipleAverage,
+  calculateZoneAverage,
+  calculateOverallScore,
+  isZoneComplete,
+  getCompletionCounts,
+  getScoreLabel,
+  isSchoolRating,
+  getRatingLabel,
+  calculateCompliance,
+  calculatePrincipleCompliance,
+  formatCompliance,
+} from './scoring.js';
+export { buildPrincipleMatrix, formatMatrixValue } from './principle-matrix.js';
+export {
+  RECOMMENDATION_STATUSES,
+  RECOMMENDATION_STATUS_LABELS,
+  isRecommendationStatus,
+  recommendationStatus,
+  isClosedStatus,
+  withRecommendationStatus,
+  countRecommendations,
+  carryRecommendationStatus,
+  isFollowUpChange,
+} from './recommendation-status.js';
@@ -0,0 +1,211 @@
+import type { PropertyType } from './types.js';
+import { getZonesForType } from './data/zone-registry.js';
+import { getTemplateVersion } from './data/template-versions.js';
+import { baseZoneKey, buildingIdOf, buildingZoneKey } from './buildings.js';
+
+/**
+ * Bringing an assessment's item rows onto the current version of its template.
+ *
+ * The template history (template-versions.ts) says what each version changed;
+ * what it means for a given assessment is worked out here, once, for both the
+ * iPad (its local item_scores) and the server (its stored rows), so the two
+ * arrive at the same rows without either having to tell the other:
+ *
+ *  - a reworded item keeps its row — score, notes and photos — and takes the
+ *    new wording;
+ *  - a moved item keeps its row and takes its new zone and principle, and its
+ *    photos follow it to the new zone;
+ *  - an added item gets a new, unscored row, whose id is derived from the
+ *    assessment and the item key, so the iPad and the server create the same
+ *    row rather than one each;
+ *  - a retired item's row goes, with its score and notes. Its photos are never
+ *    dropped — they move to the first item left in the same zone, the same
+ *    guarantee duplicateAssessmentAs() gives.
+ *
+ * The plan is a reconciliation against the current checklist rather than a
+ * replay of each version's changes, so it is idempotent and it does not matter
+ * how many versions behind the rows are. Rows without a key (recorded before
+ * keys, with wording since edited) are left exactly as they are, and so are an
+ * assessor's custom items — except that a custom item is renumbered to stay
+ * after the template's items in its zone. A building's copies of zones
+ * (buildings.ts) are reconciled the same way, as a checklist of their own.
+ */
+
+/** Which assessments migrate by themselves — the ones still being worked on. */
+const IN_FLIGHT_STATUSES = new Set(['in_progress', 'returned']);
+
+/**
+ * Whether an assessment with this status is moved onto the current template
+ * when a new version ships. In-flight ones are: the assessor is still walking
+ * them, and should walk the current checklist. Everything else — completed,
+ * synced, submitted, approved — stays on the version it was finished against
+ * until an assessor chooses to upgrade it, so a finished report never changes
+ * under anyone.
+ */
+export function migratesAutomatically(status: string): boolean {
+  return IN_FLIGHT_STATUSES.has(status);
+}
+
+/**
+ * Namespace for the ids of rows a migration adds (UUID v5 of
+ * `${assessmentId}/${itemKey}`). Never change it: a device and the server on
+ * different builds would stop agreeing on what a new row is called.
+ */
+const ITEM_ROW_NAMESPACE = '7aaafdd8-64ad-4212-a03e-07492496ab0d';
+
+/** The uuid package's v5, passed in — this package has no dependencies. */
+export type UuidV5 = (name: string, namespace: string) => string;
+
+/** What a migration reads off a row: the PWA's ItemScore and the server's row both fit. */
+export interface MigratingItem {
+  id: string;
+  item_key: string | null;
+  zone_key: string;
+  principle: string;
+  item_text: string;
+  item_order: number;
+  photo_ids: string[];
+  is_custom?: boolean;
+}
+
+/** A row a migration adds, before the app gives it its own unscored defaults. */
+export interface AddedItem {
+  id: string;
+  item_key: string;
+  zone_key: string;
+  principle: string;
+  item_text: string;
+  item_order: number;
+  /** Empty unless it inherits the photos of a retired item. */
+  photo_ids: string[];
+}
+
+export interface TemplateMigrationPlan<T extends MigratingItem> {
+  toVersion: number;
+  /** Existing rows with a new wording, placement, order or photos — whole. */
+  updated: T[];
+  added: AddedItem[];
+  /** Ids of the rows of retired items. */
+  removed: string[];
+  /** Photos that change item or zone, and where they go. */
+  photos: { photo_id: string; item_score_id: string; zone_key: string }[];
+}
+
+export function isEmptyMigration(plan: TemplateMigrationPlan<MigratingItem>): boolean {
+  return (
+    plan.updated.length === 0 &&
+    plan.added.length === 0 &&
+    plan.removed.length === 0 &&
+    plan.photos.length === 0
+  );
+}
+
+/**
+ * The changes that bring `items` — one assessment's rows — onto the current
+ * template of `propertyType`. Empty when they are already on it.
+ */
+export function planTemplateMigration<T extends MigratingItem>(
+  propertyType: PropertyType,
+  assessmentId: string,
+  items: T[],
+  uuidv5: UuidV5,
+): TemplateMigrationPlan<T> {
+  const plan: TemplateMigrationPlan<T> = {
+    toVersion: getTemplateVersion(propertyType),
+    updated: [],
+    added: [],
+    removed: [],
+    photos: [],
+  };
+  const rewritten = new Map<string, T>();
+  const firstInZone = new Map<string, string>();
+  const zones = getZonesForType(propertyType);
+
+  // Each building's copies of zones are reconciled on their own, against the
+  // template zones that building repeats (buildings.ts).
+  const byBuilding = new Map<string | null, T[]>([[null, []]]);
+  for (const item of items) {
+    const buildingId = buildingIdOf(item.zone_key);
+    byBuilding.set(buildingId, [...(byBuilding.get(buildingId) ?? []), item]);
+  }
+
+  for (const [buildingId, rows] of byBuilding) {
+    const instanced = (key: string) => (buildingId === null ? key : buildingZoneKey(key, buildingId));
+    const repeated = new Set(rows.map((item) => baseZoneKey(item.zone_key)));
+    const byKey = new Map<string, T>();
+    for (const item of rows) if (item.item_key !== null) byKey.set(item.item_key, item);
+    const current = new Set<string>();
+
+    for (const zone of zones) {
+      if (buildingId !== null && !repeated.has(zone.key)) continue;
+      const zoneKey = instanced(zone.key);
+      let itemOrder = 0;
+      for (const principle of zone.principles) {
+        for (const checklistItem of principle.items) {
+          current.add(checklistItem.key);
+          const existing = byKey.get(checklistItem.key);
+          const placement = {
+            zone_key: zoneKey,
+            principle: principle.key,
+            item_text: checklistItem.text,
+            item_order: itemOrder++,
+          };
+          const id =
+            existing?.id ??
+            uuidv5(`${assessmentId}/${instanced(checklistItem.key)}`, ITEM_ROW_NAMESPACE);
+          if (!firstInZone.has(zoneKey)) firstInZone.set(zoneKey, id);
+          if (!existing) {
+            plan.added.push({ id, item_key: checklistItem.key, ...placement, photo_ids: [] });
+            continue;
+          }
+          if (
+            existing.zone_key === placement.zone_key &&
+            existing.principle === placement.principle &&
+            existing.item_text === placement.item_text &&
+            existing.item_order === placement.item_order
+          ) {
+            continue;
+          }
+          rewritten.set(id, { ...existing, ...placement });
+          if (existing.zone_key !== zoneKey) {
+            for (const photoId of existing.photo_ids) {
+              plan.photos.push({ photo_id: photoId, item_score_id: id, zone_key: zoneKey });
+            }
+          }
+        }
+      }
+
+      const custom = rows
+        .filter((item) => item.is_custom && item.zone_key === zoneKey)
+        .sort((a, b) => a.item_order - b.item_order || a.id.localeCompare(b.id));
+      for (const item of custom) {
+        const item_order = itemOrder++;
+        if (item.item_order !== item_order) rewritten.set(item.id, { ...item, item_order });
+      }
+    }
+
+    // In id order, so both sides append a home's inherited photos identically.
+    // A building's row of an item moved out of the zones it repeats goes too.
+    const retired = rows
+      .filter((item) => item.item_key !== null && !current.has(item.item_key))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    for (const item of retired) {
+      plan.removed.push(item.id);
+      const home = firstInZone.get(item.zone_key);
+      if (!home || item.photo_ids.length === 0) continue;
+      for (const photoId of item.photo_ids) {
+        plan.photos.push({ photo_id: photoId, item_score_id: home, zone_key: item.zone_key });
+      }
+      const added = plan.added.find((a) => a.id === home);
+      if (added) {
+        added.photo_ids.push(...item.photo_ids);
+      } else {
+        const row = rewritten.get(home) ?? items.find((i) => i.id === home)!;
+        rewritten.set(home, { ...row, photo_ids: [...row.photo_ids, ...item.photo_ids] });
+      }
+    }
+  }
+
+  plan.updated = [...rewritten.values()];
+  return plan;
+}
@@ -0,0 +1,100 @@
+import type { PropertyType, ZoneDefinition } from './types.js';
+import { isSchoolType } from './data/zone-registry.js';
+import { calculatePrincipleAverage, calculatePrincipleCompliance, formatCompliance } from './scoring.js';
+import type { ScoredItem } from './scoring.js';
+
+/**
+ * The principle matrix: every zone against every CPTED principle, for the
+ * summary screen and the report page that show which principle is weak across
+ * the whole site rather than which area is. A front yard and a rear yard that
+ * both fail on natural surveillance are one problem — sightlines — and the
+ * zone table alone hides it.
+ *
+ * A cell is the average of the zone's items under that principle; for a
+ * school, whose items are rated Yes/No/UTO, it is the percent of observable
+ * items met instead. A principle's site-wide figure pools its items across
+ * every zone, the way a zone's own figure pools its items, so a zone with two
+ * surveillance items does not count for as much as one with twelve.
+ */
+
+export type PrincipleMatrixMode = 'score' | 'compliance';
+
+export interface PrincipleMatrixCell {
+  /** 1–5 average, or 0–100 percent met; null when nothing here was rated. */
+  value: number | null;
+  /** Items behind the value: scored, or for schools rated Yes or No. */
+  rated: number;
+}
+
+export interface PrincipleMatrixRow {
+  zone_key: string;
+  zone_name: string;
+  /** One per column of `principles`, in the same order. */
+  cells: PrincipleMatrixCell[];
+}
+
+export interface PrincipleMatrix {
+  mode: PrincipleMatrixMode;
+  /** The columns: every principle any zone has, in template order. */
+  principles: { key: string; name: string }[];
+  rows: PrincipleMatrixRow[];
+  /** Each principle across every zone. */
+  totals: PrincipleMatrixCell[];
+  /**
+   * The principle with the lowest site-wide figure, or null when fewer than
+   * two principles have one — with one, "weakest" says nothing.
+   */
+  weakest: { key: string; name: string; value: number } | null;
+}
+
+function cellFor(mode: PrincipleMatrixMode, items: ScoredItem[], principleKey: string): PrincipleMatrixCell {
+  if (mode === 'compliance') {
+    const { met, notMet, percent } = calculatePrincipleCompliance(items, principleKey);
+    return { value: percent, rated: met + notMet };
+  }
+  const value = calculatePrincipleAverage(items, principleKey);
+  const rated = items.filter(
+    (s) => s.principle === principleKey && typeof s.score === 'number' && !s.is_na,
+  ).length;
+  return { value, rated };
+}
+
+/**
+ * The matrix for `zones` (building copies included, in walk order) and the
+ * assessment's items. A zone's item belongs to its row by `zone_key`.
+ */
+export function buildPrincipleMatrix<T extends ScoredItem & { zone_key: string }>(
+  propertyType: PropertyType,
+  zones: ZoneDefinition[],
+  items: T[],
+): PrincipleMatrix {
+  const mode: PrincipleMatrixMode = isSchoolType(propertyType) ? 'compliance' : 'score';
+  const names = new Map<string, string>();
+  for (const zone of zones) {
+    for (const p of zone.principles) if (!names.has(p.key)) names.set(p.key, p.name);
+  }
+  const principles = [...names].map(([key, name]) => ({ key, name }));
+
+  const rows = zones.map((zone) => {
+    const zoneItems = items.filter((s) => s.zone_key === zone.key);
+    return {
+      zone_key: zone.key,
+      zone_name: zone.name,
+      cells: principles.map((p) => cellFor(mode, zoneItems, p.key)),
+    };
+  });
+  const totals = principles.map((p) => cellFor(mode, items, p.key));
+
+  const withValues = principles
+    .map((p, i) => ({ ...p, value: totals[i].value }))
+    .filter((p): p is { key: string; name: string; value: number } => p.value !== null);
+  const weakest =
+    withValues.length >= 2 ? withValues.reduce((low, p) => (p.value < low.value ? p : low)) : null;
+
+  return { mode, principles, rows, totals, weakest };
+}
+
+/** A cell's figure as the matrix prints it: "3.4", or "87%" for a school. */
+export function formatMatrixValue(mode: PrincipleMatrixMode, value: number): string {
+  return mode === 'compliance' ? formatCompliance(value) : value.toFixed(1);
+}
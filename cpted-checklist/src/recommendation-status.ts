@@ -0,0 +1,143 @@
+/**
+ * What became of a recommendation after the report went out. A report used to
+ * be the end of the record: whether the homeowner fixed the gate or the
+ * district declined the fence, nobody could say without ringing them. Each
+ * recommendation now carries a status, a target date, who is responsible, and
+ * the history of its status changes.
+ *
+ * The fields ride on the recommendation itself, in the assessment's
+ * top_recommendations and quick_wins, and are all optional: a recommendation
+ * written before tracking began has none of them and reads as open.
+ *
+ * They are follow-up, not part of the report a supervisor approved: recording
+ * that the fence went in does not change what was recommended, so a change to
+ * them alone leaves an approval standing (isFollowUpChange()).
+ */
+
+export type RecommendationStatus = 'open' | 'in_progress' | 'implemented' | 'declined';
+
+export const RECOMMENDATION_STATUSES: RecommendationStatus[] = ['open', 'in_progress', 'implemented', 'declined'];
+
+export const RECOMMENDATION_STATUS_LABELS: Record<RecommendationStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  implemented: 'Implemented',
+  declined: 'Declined',
+};
+
+export interface RecommendationStatusChange {
+  status: RecommendationStatus;
+  /** ISO timestamp. */
+  changed_at: string;
+  /** The device name in the PWA, the signed-in user's name on the server. */
+  changed_by: string | null;
+  note?: string;
+}
+
+/** The lifecycle fields, as both apps' Recommendation types carry them. */
+export interface TrackedRecommendation {
+  description: string;
+  status?: RecommendationStatus;
+  /** Date-only ISO string. */
+  target_date?: string | null;
+  /** Free text: "Homeowner", "District facilities", a name. */
+  responsible_party?: string;
+  /** Oldest first. */
+  status_history?: RecommendationStatusChange[];
+}
+
+export function isRecommendationStatus(value: unknown): value is RecommendationStatus {
+  return typeof value === 'string' && (RECOMMENDATION_STATUSES as string[]).includes(value);
+}
+
+export function recommendationStatus(rec: TrackedRecommendation): RecommendationStatus {
+  return rec.status ?? 'open';
+}
+
+/** Implemented and declined are settled; open and in progress still want doing. */
+export function isClosedStatus(status: RecommendationStatus): boolean {
+  return status === 'implemented' || status === 'declined';
+}
+
+/**
+ * `rec` moved to `status`, with the change recorded. Setting the status it
+ * already has returns it untouched, so the history only lists real changes.
+ */
+export function withRecommendationStatus<T extends TrackedRecommendation>(
+  rec: T,
+  status: RecommendationStatus,
+  changedBy: string | null,
+  note?: string,
+  changedAt: string = new Date().toISOString(),
+): T {
+  if (recommendationStatus(rec) === status) return rec;
+  const change: RecommendationStatusChange = { status, changed_at: changedAt, changed_by: changedBy };
+  if (note?.trim()) change.note = note.trim();
+  return { ...rec, status, status_history: [...(rec.status_history ?? []), change] };
+}
+
+export interface RecommendationCounts {
+  /** Open or in progress. */
+  open: number;
+  /** Implemented or declined. */
+  closed: number;
+  byStatus: Record<RecommendationStatus, number>;
+}
+
+/** Blank entries — an editor slot nobody filled in — aren't recommendations yet. */
+export function countRecommendations(recs: TrackedRecommendation[]): RecommendationCounts {
+  const byStatus: Record<RecommendationStatus, number> = { open: 0, in_progress: 0, implemented: 0, declined: 0 };
+  for (const rec of recs) {
+    if (rec.description.trim()) byStatus[recommendationStatus(rec)]++;
+  }
+  return {
+    open: byStatus.open + byStatus.in_progress,
+    closed: byStatus.implemented + byStatus.declined,
+    byStatus,
+  };
+}
+
+/**
+ * Lifecycle fields a push left out, taken from the stored copy. A PWA from
+ * before tracking sends recommendations without them; taking its list as it
+ * stands would wipe every status recorded on the server the first time a stale
+ * iPad synced. Matched by id; a recommendation that does carry a status is the
+ * device's word and stands.
+ */
+export function carryRecommendationStatus<T extends TrackedRecommendation & { id: string }>(
+  incoming: T[],
+  stored: T[],
+): T[] {
+  const byId = new Map(stored.map((rec) => [rec.id, rec]));
+  return incoming.map((rec) => {
+    const prior = byId.get(rec.id);
+    if (rec.status !== undefined || !prior || prior.status === undefined) return rec;
+    return {
+      ...rec,
+      status: prior.status,
+      target_date: prior.target_date ?? null,
+      responsible_party: prior.responsible_party ?? '',
+      status_history: prior.status_history ?? [],
+    };
+  });
+}
+
+const LIFECYCLE_FIELDS = new Set<string>(['status', 'target_date', 'responsible_party', 'status_history']);
+
+/**
+ * Whether `after` is `before` with nothing changed but lifecycle fields — the
+ * same recommendations in the same order, each as it was apart from its
+ * status, target date, responsible party and history. True when nothing
+ * changed at all.
+ */
+export function isFollowUpChange<T extends TrackedRecommendation>(before: T[], after: T[]): boolean {
+  if (before.length !== after.length) return false;
+  return before.every((rec, i) => {
+    const was = rec as unknown as Record<string, unknown>;
+    const now = after[i] as unknown as Record<string, unknown>;
+    const fields = new Set([...Object.keys(was), ...Object.keys(now)]);
+    return [...fields].every(
+      (field) => LIFECYCLE_FIELDS.has(field) || JSON.stringify(was[field]) === JSON.stringify(now[field]),
+    );
+  });
+}
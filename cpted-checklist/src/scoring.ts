@@ -0,0 +1,154 @@
+import type { SchoolRating } from './types.js';
+
+/**
+ * What scoring reads off an item. The PWA's ItemScore and the server's
+ * item_scores row (with its rating column folded back into score) both fit.
+ */
+export interface ScoredItem {
+  score: number | SchoolRating | null;
+  is_na: boolean;
+  principle: string;
+}
+
+/** Filter to items that have been rated (numeric score OR school rating; not N/A) */
+export function getScoredItems<T extends ScoredItem>(items: T[]): T[] {
+  return items.filter((s) => s.score !== null && !s.is_na);
+}
+
+/**
+ * Average of numerically-scored items, null if none.
+ * School ratings ('yes'/'no'/'uto') are non-numeric and excluded — so school
+ * assessments naturally yield a null average (no aggregate score), and the
+ * numeric reduce below never sees a string.
+ */
+export function calculateAverage(items: ScoredItem[]): number | null {
+  const scored = items.filter(
+    (s) => typeof s.score === 'number' && !s.is_na,
+  );
+  if (scored.length === 0) return null;
+  return scored.reduce((sum, s) => sum + (s.score as number), 0) / scored.length;
+}
+
+/** Average of scored items within a specific principle */
+export function calculatePrincipleAverage(
+  items: ScoredItem[],
+  principleKey: string,
+): number | null {
+  return calculateAverage(items.filter((s) => s.principle === principleKey));
+}
+
+/** Average of all scored items in a zone (alias for calculateAverage) */
+export function calculateZoneAverage(zoneItems: ScoredItem[]): number | null {
+  return calculateAverage(zoneItems);
+}
+
+/**
+ * Overall score = average of zone averages (equal weight per zone).
+ * Zones with no scored items (all N/A or untouched) are excluded.
+ */
+export function calculateOverallScore(
+  itemsByZone: Map<string, ScoredItem[]>,
+): number | null {
+  const zoneAverages: number[] = [];
+  for (const items of itemsByZone.values()) {
+    const avg = calculateZoneAverage(items);
+    if (avg !== null) {
+      zoneAverages.push(avg);
+    }
+  }
+  if (zoneAverages.length === 0) return null;
+  return zoneAverages.reduce((sum, a) => sum + a, 0) / zoneAverages.length;
+}
+
+/** True when every item in the zone has been scored or marked N/A */
+export function isZoneComplete(items: ScoredItem[]): boolean {
+  if (items.length === 0) return false;
+  return items.every((s) => s.score !== null || s.is_na);
+}
+
+/** Completion counts for a set of items */
+export function getCompletionCounts(items: ScoredItem[]): {
+  total: number;
+  scored: number;
+  na: number;
+  addressed: number;
+  remaining: number;
+} {
+  const scored = items.filter((s) => s.score !== null && !s.is_na).length;
+  const na = items.filter((s) => s.is_na).length;
+  const addressed = scored + na;
+  return {
+    total: items.length,
+    scored,
+    na,
+    addressed,
+    remaining: items.length - addressed,
+  };
+}
+
+/** Human-readable label for a score value */
+export function getScoreLabel(score: number): string {
+  if (score < 1.5) return 'Critical';
+  if (score < 2.5) return 'Deficient';
+  if (score < 3.5) return 'Adequate';
+  if (score < 4.5) return 'Good';
+  return 'Excellent';
+}
+
+// --- School Yes/No/UTO rating helpers ---
+
+/** Type guard: true when a score value is a school rating string */
+export function isSchoolRating(
+  score: number | SchoolRating | null,
+): score is SchoolRating {
+  return score === 'yes' || score === 'no' || score === 'uto';
+}
+
+/** Human-readable label for a school rating */
+export function getRatingLabel(rating: SchoolRating): string {
+  if (rating === 'yes') return 'Yes';
+  if (rating === 'no') return 'No';
+  return 'Unable to Observe';
+}
+
+/**
+ * A school's headline figure. Yes/No/UTO ratings have no average, so a school
+ * is summarised as the share of observable items met: Yes over Yes plus No.
+ * Unable to Observe is neither met nor missed — it is counted apart, so a
+ * zone the assessor could not get into does not read as failing — and N/A
+ * items are left out entirely.
+ */
+export interface ComplianceSummary {
+  met: number;
+  notMet: number;
+  uto: number;
+  /** 0–100; null when no item was observable (none rated Yes or No). */
+  percent: number | null;
+}
+
+export function calculateCompliance(items: ScoredItem[]): ComplianceSummary {
+  let met = 0;
+  let notMet = 0;
+  let uto = 0;
+  for (const item of items) {
+    if (item.is_na) continue;
+    if (item.score === 'yes') met++;
+    else if (item.score === 'no') notMet++;
+    else if (item.score === 'uto') uto++;
+  }
+  const observed = met + notMet;
+  return { met, notMet, uto, percent: observed > 0 ? (met / observed) * 100 : null };
+}
+
+/** Compliance of the items under one principle. */
+export function calculatePrincipleCompliance(
+  items: ScoredItem[],
+  principleKey: string,
+): ComplianceSummary {
+  return calculateCompliance(items.filter((s) => s.principle === principleKey));
+}
+
+/** "87%" — whole percents; the ratings are too coarse for decimals to mean anything. */
+export function formatCompliance(percent: number): string {
+  return `${Math.round(percent)}%`;
+}
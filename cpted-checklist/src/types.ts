@@ -0,0 +1,43 @@
+export type PropertyType =
+  | 'single_family_residential'
+  | 'townhome'
+  | 'places_of_worship'
+  | 'christian_church'
+  | 'elementary_school'
+  | 'middle_school'
+  | 'high_school'
+  | 'combined_school'
+  | 'commercial_office';
+
+// School assessments use a Yes/No/UTO (Unable To Observe) checklist rating
+// instead of the 1-5 numeric scale. Stored in ItemScore.score for school
+// property types; numeric scores are used for every other property type.
+export type SchoolRating = 'yes' | 'no' | 'uto';
+
+// Zone definition types (for the static checklist data)
+
+// A checklist item. `key` is its permanent identity: guidance, walkthrough
+// phase and verification hints are looked up by it, duplication matches on it,
+// and it is stored on every ItemScore. `text` is only the wording shown to the
+// assessor and printed in the report, so it can be edited at any time — even
+// with assessments in progress. Never change or reuse a key; an item that is
+// genuinely a different observation gets a new one. Items worded identically
+// across templates share a key.
+export interface ZoneItem {
+  key: string;
+  text: string;
+}
+
+export interface ZonePrinciple {
+  key: string;
+  name: string;
+  items: ZoneItem[];
+}
+
+export interface ZoneDefinition {
+  key: string;
+  name: string;
+  order: number;
+  description: string;
+  principles: ZonePrinciple[];
+}
@@ -9,7 +9,7 @@ REMOTE_DIR="${REMOTE_DIR:-/home/cpted/cpted-app}"
 
 echo "=== CPTED App Deploy ==="
 
-# 1. Build frontend
+# 1. Build frontend (its prebuild step compiles cpted-checklist first)
 echo "Building frontend..."
 (cd cpted-assessor && npm run build)
 
@@ -30,6 +30,7 @@ rsync -avz --delete \
   --exclude 'cpted-assessor/src' \
   --exclude 'server/node_modules' \
   --exclude 'server/src' \
+  --exclude 'cpted-checklist/src' \
   --exclude 'files(1)' \
   --exclude 'infrastructure' \
   ./ "${REMOTE_HOST}:${REMOTE_DIR}/"
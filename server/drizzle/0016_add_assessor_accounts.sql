@@ -0,0 +1,42 @@
+-- Assessor accounts and the sessions they sign in with.
+--
+-- Until now every /api route was open: anyone who could reach the box could
+-- read a school's vulnerability findings or overwrite an assessment through
+-- POST /api/sync. Accounts are issued by the agency (see src/db/create-user.ts),
+-- never self-registered, so there is no email, no reset flow, and no sign-up
+-- route to defend.
+--
+-- password_hash is the full scrypt string ("scrypt$N$r$p$salt$hash") rather
+-- than a hash column beside a salt column: the parameters travel with the hash,
+-- so they can be raised later without invalidating every existing password.
+--
+-- username is compared lower-cased on login and stored that way, so "JSmith"
+-- and "jsmith" cannot become two accounts for one person.
+CREATE TABLE IF NOT EXISTS "users" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "username" varchar(100) NOT NULL UNIQUE,
+  "display_name" varchar(255) NOT NULL,
+  "badge_id" varchar(50),
+  "password_hash" text NOT NULL,
+  "active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "last_login_at" timestamp with time zone
+);
+--> statement-breakpoint
+-- A session is a random bearer token the PWA keeps in localStorage. Only its
+-- SHA-256 is stored: a copy of this table is then no use for impersonating
+-- anyone, and unlike a password the token has full entropy, so a fast hash is
+-- enough and no salt is needed.
+--
+-- expires_at is fixed at sign-in rather than sliding. An iPad that sits in a
+-- drawer for a fortnight should have to sign in again; one that syncs every day
+-- should not find its assessor signed out mid-walk, which is why the lifetime
+-- is measured in days (SESSION_TTL_HOURS) rather than minutes.
+CREATE TABLE IF NOT EXISTS "sessions" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "token_hash" varchar(64) NOT NULL UNIQUE,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "expires_at" timestamp with time zone NOT NULL,
+  "device_name" text
+);
@@ -0,0 +1,40 @@
+-- Roles, and the supervisor review that stands between "completed" and a
+-- report a school district can be handed.
+--
+-- role is one of assessor | supervisor | analyst | admin, enforced in
+-- src/services/auth.ts rather than by a CHECK constraint, so adding a role is
+-- a code change and not a migration. Every account that existed before this
+-- column reads 'assessor' — the least privilege that still lets them sync.
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" varchar(20) DEFAULT 'assessor' NOT NULL;--> statement-breakpoint
+-- When and by whom an assessment was submitted and approved. approved_revision
+-- is the assessment revision the supervisor actually looked at: a report is
+-- only final while the content still IS that revision, so an edit made after
+-- approval puts DRAFT back on the PDF without anybody having to remember to.
+--
+-- The *_by columns are display names, not foreign keys, for the same reason as
+-- last_edited_by: they are printed, and an account deactivated next year must
+-- not take the record of who approved a report with it. The id alongside is
+-- for permission checks and may dangle.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "submitted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "submitted_by" text;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "approved_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "approved_by" text;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "approved_by_id" uuid;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "approved_revision" integer;--> statement-breakpoint
+-- A supervisor's note against the whole assessment, one zone, or one item.
+-- zone_key and item_score_id are both nullable: neither = whole assessment,
+-- zone only = that zone, both = that item. item_score_id is not a foreign key:
+-- sync deletes and reinserts item_scores with the device's own ids, so a real
+-- constraint would cascade every comment away on the next push.
+CREATE TABLE IF NOT EXISTS "review_comments" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "assessment_id" uuid NOT NULL REFERENCES "assessments"("id") ON DELETE CASCADE,
+  "zone_key" varchar(50),
+  "item_score_id" uuid,
+  "body" text NOT NULL,
+  "author_id" uuid,
+  "author_name" text NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "resolved_at" timestamp with time zone,
+  "resolved_by" text
+);
@@ -0,0 +1,39 @@
+-- An immutable copy of every state the server has accepted for an assessment.
+--
+-- POST /api/sync replaces the assessment, its zone scores, item scores and
+-- light surveys wholesale. That is fine while every push is the newest work,
+-- and a disaster when it is not: a stale iPad that wins last-write-wins
+-- destroys the copy it overwrote, and nothing on the server could bring it
+-- back. Each accepted write now also lands here, so "restore v7" is a copy out
+-- of this table rather than a request to whoever still has v7 on an iPad.
+--
+-- Rows are only ever inserted. A restore does not delete the history after
+-- the point it restores to; it writes the old content forward as a new
+-- revision, so restoring the wrong one is itself undoable.
+--
+-- snapshot holds the content only — the assessment row's fields, zone_scores,
+-- item_scores, light_surveys, light_readings — never photo files, which sync
+-- does not delete and so are still on disk for any revision that names them.
+-- The light-survey aerial_image is left out too: it is the largest thing in a
+-- push by far and is never edited, only replaced, and copying it into every
+-- revision would grow this table by megabytes per sync for nothing.
+--
+-- revision / last_edited_by / last_edited_at are copied out of the snapshot so
+-- the history can be listed without reading a single jsonb column. pushed_by
+-- is the signed-in account, which is not the same as the device that made the
+-- edits: one names who sent it, the other where it was typed.
+CREATE TABLE IF NOT EXISTS "assessment_revisions" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "assessment_id" uuid NOT NULL REFERENCES "assessments"("id") ON DELETE CASCADE,
+  "revision" integer NOT NULL,
+  "last_edited_by" text,
+  "last_edited_at" timestamp with time zone,
+  "source" varchar(20) NOT NULL,
+  "pushed_by" text,
+  "pushed_by_id" uuid,
+  "overall_score" real,
+  "scored_items" integer DEFAULT 0 NOT NULL,
+  "snapshot" jsonb NOT NULL,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assessment_revisions_assessment_idx" ON "assessment_revisions" ("assessment_id", "created_at");
@@ -0,0 +1,41 @@
+-- Team mode: two or three assessors walking one large site at once.
+--
+-- The assessment-wide revision (0014) counts every edit to anything, so two
+-- iPads that scored different zones of the same school have both moved it on
+-- and read as diverged, even though no row was touched twice. The rows those
+-- edits actually land on now carry the same three columns, so a merge can see
+-- which copy of each row is the newer one — item by item rather than
+-- assessment by assessment.
+--
+-- Same rules as 0014: revision is NOT NULL DEFAULT 1 because it is arithmetic,
+-- and every row recorded before this reads 1, which is also what a device
+-- assumes for its own copy of that row. last_edited_by is unbounded text for
+-- the reason given there; last_edited_at a true instant.
+ALTER TABLE "zone_scores" ADD COLUMN IF NOT EXISTS "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "zone_scores" ADD COLUMN IF NOT EXISTS "last_edited_by" text;--> statement-breakpoint
+ALTER TABLE "zone_scores" ADD COLUMN IF NOT EXISTS "last_edited_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "last_edited_by" text;--> statement-breakpoint
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "last_edited_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN IF NOT EXISTS "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN IF NOT EXISTS "last_edited_by" text;--> statement-breakpoint
+ALTER TABLE "photos" ADD COLUMN IF NOT EXISTS "last_edited_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "light_readings" ADD COLUMN IF NOT EXISTS "revision" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "light_readings" ADD COLUMN IF NOT EXISTS "last_edited_by" text;--> statement-breakpoint
+ALTER TABLE "light_readings" ADD COLUMN IF NOT EXISTS "last_edited_at" timestamp with time zone;--> statement-breakpoint
+-- Which device is walking which zone. Advisory, not a lock: a hold tells a
+-- colleague to pick another zone, and it can be taken over when an iPad walks
+-- off with one and never gives it back. Kept out of zone_scores, which sync
+-- replaces wholesale, so that a push cannot drop a colleague's hold — and out
+-- of the sync payload entirely, so holding a zone is not an edit.
+--
+-- held_by is the device name, the same label as last_edited_by; the account is
+-- kept alongside it because one sign-in may be shared across iPads.
+CREATE TABLE IF NOT EXISTS "zone_holds" (
+  "assessment_id" uuid NOT NULL REFERENCES "assessments"("id") ON DELETE CASCADE,
+  "zone_key" varchar(50) NOT NULL,
+  "held_by" text NOT NULL,
+  "held_by_user" text,
+  "held_at" timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY ("assessment_id", "zone_key")
+);
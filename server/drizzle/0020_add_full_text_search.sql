@@ -0,0 +1,17 @@
+-- Full-text search over what assessors write, for GET /api/search.
+--
+-- Expression indexes rather than tsvector columns: the text they cover is
+-- already stored, sync rewrites these rows wholesale, and a column would be
+-- one more thing every insert path had to remember to fill. The catch is that
+-- Postgres only uses an expression index for a query written with the same
+-- expression, so each one here is mirrored, word for word, in
+-- src/services/search.ts — change one and change the other.
+--
+-- 'english' stems, so "latches" finds "latch" and "noted" finds "note". The
+-- recommendation index covers both jsonb lists in one vector of their
+-- descriptions only: priority and type are single words from a fixed set and
+-- would match half the table.
+CREATE INDEX IF NOT EXISTS "item_scores_notes_search_idx" ON "item_scores" USING gin (to_tsvector('english', "notes"));--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "zone_scores_text_search_idx" ON "zone_scores" USING gin (to_tsvector('english', "priority_findings" || ' ' || "notes"));--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assessments_notes_search_idx" ON "assessments" USING gin (to_tsvector('english', "notes"));--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "assessments_recommendations_search_idx" ON "assessments" USING gin (to_tsvector('english', jsonb_path_query_array("top_recommendations" || "quick_wins", '$[*].description')));
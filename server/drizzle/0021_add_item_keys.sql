@@ -0,0 +1,503 @@
+-- A permanent key for every checklist item (ZoneItem.key in cpted-checklist).
+--
+-- Guidance, walkthrough phase, verification hints and duplication all used to
+-- find an item by its exact wording, so rewording one orphaned it on every
+-- assessment already recorded against it. They look it up by key now, and the
+-- wording is only what the report prints.
+--
+-- Existing rows are keyed by matching their wording against the checklist as
+-- it stands at this migration — the list below is every item text in every
+-- template, generated from cpted-checklist, with its key. A row worded in a way
+-- no current item is stays NULL: it keeps its text, score and notes, and simply
+-- has no guidance to look up, which is no worse than before. Rows pushed later
+-- by an iPad that predates keys are matched the same way, in routes/sync.ts.
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "item_key" varchar(100);--> statement-breakpoint
+UPDATE "item_scores" AS s
+SET "item_key" = k.item_key
+FROM (VALUES
+  ('Clear, unobstructed sight line from the street to the front door', 'clear_unobstructed_sight_line'),
+  ('Front windows of the home provide views of the street and front yard', 'front_windows_home_provide'),
+  ('No large visual barriers (walls, hedges, structures) blocking the view from the street to the home', 'no_large_visual_barriers'),
+  ('Clearly defined driveway/walkway directs visitors to the front entry', 'clearly_defined_driveway_walkway'),
+  ('Sidewalk and approach are in good condition and clearly routed', 'sidewalk_approach_good_condition'),
+  ('Property boundaries visible and identifiable from the street', 'property_boundaries_visible_identifiable'),
+  ('House number clearly visible from the street (minimum 4" tall, contrasting color, illuminated or reflective at night)', 'house_number_clearly_visible'),
+  ('Street frontage is clean and free of debris, abandoned items, or clutter', 'street_frontage_clean_free'),
+  ('No graffiti, vandalism, or signs of neglect visible from the street', 'no_graffiti_vandalism_signs'),
+  ('Vegetation follows the 2''/6'' rule (shrubs under 2 ft, tree canopies above 6 ft)', 'vegetation_follows_2_6'),
+  ('No dense vegetation or structures creating concealment spots near the entry', 'no_dense_vegetation_structures'),
+  ('Front porch/entry area visible from the street and from neighboring properties', 'front_porch_entry_area'),
+  ('Front door is solid core hardwood or metal (not hollow core)', 'front_door_solid_core'),
+  ('Deadbolt installed with minimum 1" throw and reinforced strike plate (3" screws)', 'deadbolt_installed_minimum_1'),
+  ('Door frame is solid and in good condition (no rot, no gaps)', 'door_frame_solid_good'),
+  ('Glass panels in or near door are reinforced or have security film', 'glass_panels_near_door'),
+  ('Front yard landscaping demonstrates active ownership and care', 'front_yard_landscaping_demonstrates'),
+  ('Property line between front yard and public space is clearly delineated', 'property_line_between_front'),
+  ('Lawn maintained and free of overgrown areas', 'lawn_maintained_free_overgrown'),
+  ('Walkway, steps, and porch in good structural condition', 'walkway_steps_porch_good'),
+  ('Door hardware (knob, lock, hinges) in good working condition', 'door_hardware_knob_lock'),
+  ('Side yards visible from at least one neighboring property', 'side_yards_visible_least'),
+  ('Vegetation along side yards follows the 2''/6'' rule', 'vegetation_along_side_yards'),
+  ('No concealment opportunities between structures (AC units, sheds, fences)', 'no_concealment_opportunities_between'),
+  ('Side yard gates present, in working condition, with self-latching or locking hardware', 'side_yard_gates_present'),
+  ('No easy-climb features along side fencing (trellises, stored items, compost bins)', 'no_easy_climb_features'),
+  ('Side property lines clearly marked or fenced', 'side_property_lines_clearly'),
+  ('Side yards free of stored junk, debris, or unused items', 'side_yards_free_stored'),
+  ('Fencing in good repair (no leaning, broken slats, or gaps)', 'fencing_good_repair_no'),
+  ('Rear yard at least partially visible from one or more neighboring properties', 'rear_yard_least_partially'),
+  ('Rear-facing windows provide views of the back yard from inside the home', 'rear_facing_windows_provide'),
+  ('No dense vegetation creating concealment along the rear of the home', 'no_dense_vegetation_creating'),
+  ('Rear entry door is solid core with deadbolt (same standard as front)', 'rear_entry_door_solid'),
+  ('Sliding glass doors have secondary security (dowel/pin in track, security bar, or foot lock)', 'sliding_glass_doors_secondary'),
+  ('Rear windows have working locks and are reinforced if ground-accessible', 'rear_windows_working_locks'),
+  ('Rear fence/gate is secured with quality lock (not just a flip latch)', 'rear_fence_gate_secured'),
+  ('Rear property boundaries clearly defined', 'rear_property_boundaries_clearly'),
+  ('Rear yard maintained (lawn, landscaping, hardscape)', 'rear_yard_maintained_lawn'),
+  ('No ladders, tools, or items stored outside that could assist a burglar', 'no_ladders_tools_items'),
+  ('Driveway visible from the street and from inside the home', 'driveway_visible_street_inside'),
+  ('Garage does not create blind spots or hidden areas adjacent to the home', 'garage_does_not_create'),
+  ('Interior door from garage to home is solid core with deadbolt', 'interior_door_garage_home'),
+  ('Overhead garage door has a manual lock (not relying solely on opener)', 'overhead_garage_door_manual'),
+  ('Emergency release cord is secured against coat hanger manipulation', 'emergency_release_cord_secured'),
+  ('Garage door kept closed and locked when not in active use', 'garage_door_kept_closed'),
+  ('Driveway clearly defined and directs only to the subject property', 'driveway_clearly_defined_directs'),
+  ('Garage door in good working condition', 'garage_door_good_working'),
+  ('No high-value items visible through garage windows or open door', 'no_high_value_items'),
+  ('Front entry/porch has a bright, working light that illuminates visitors'' faces', 'front_entry_porch_bright'),
+  ('All exterior doors have dedicated lighting fixtures', 'exterior_doors_dedicated_lighting'),
+  ('Walkways and driveway adequately illuminated', 'walkways_driveway_adequately_illuminated'),
+  ('Motion-activated lights at vulnerable areas (side yards, rear entry, garage)', 'motion_activated_lights_vulnerable'),
+  ('No dark "dead zones" around the perimeter of the home', 'no_dark_dead_zones'),
+  ('Exterior lights on photocell (dusk-to-dawn) or timer — not solely manual switch', 'exterior_lights_photocell_dusk'),
+  ('All exterior light fixtures functioning (no burned-out bulbs)', 'exterior_light_fixtures_functioning'),
+  ('No landscaping growth obstructing light fixtures or blocking light output', 'no_landscaping_growth_obstructing'),
+  ('Windows in high-use rooms (living room, kitchen) face the street or yard areas', 'windows_high_use_rooms'),
+  ('Window treatments allow occupants to observe outside (not permanently blocked/covered)', 'window_treatments_allow_occupants'),
+  ('Every window has a working lock in good condition', 'window_working_lock_good'),
+  ('Ground-floor windows have security film or reinforced glass where appropriate', 'ground_floor_windows_security'),
+  ('Second-story windows not accessible via adjacent structures, trees, or climbing aids', 'second_story_windows_not'),
+  ('Alarm/security system installed and in working order (if applicable)', 'alarm_security_system_installed'),
+  ('Security signage/stickers displayed (even if no active system)', 'security_signage_stickers_displayed'),
+  ('Valuable items not visible through windows from outside', 'valuable_items_not_visible'),
+  ('Peephole or video doorbell installed and functional', 'peephole_video_doorbell_installed'),
+  ('Unit clearly distinguished from adjacent units (door color, planter, mat, or fixture)', 'unit_clearly_distinguished_adjacent'),
+  ('Shared breezeway or walkway between units is visible from neighboring units or common areas', 'shared_breezeway_walkway_between'),
+  ('End unit: external side visible from at least one neighbor or common area (mark N/A for interior units)', 'end_unit_external_side'),
+  ('No concealment opportunities along shared walls (utility enclosures, AC units, recessed alcoves)', 'no_concealment_opportunities_along'),
+  ('Shared utility access points (gas meter, electrical panel, hose bib) secured or in good repair', 'shared_utility_access_points'),
+  ('No easy-climb features along shared or external walls (trellises, stored items, A/C units under windows)', 'no_easy_climb_features_along'),
+  ('End unit: side gate present, working, with self-latching or locking hardware (mark N/A for interior units)', 'end_unit_side_gate'),
+  ('Unit boundary clearly delineated from neighbor (paint, planter, decorative element)', 'unit_boundary_clearly_delineated'),
+  ('HOA-permitted territorial markers used where allowed', 'hoa_permitted_territorial_markers'),
+  ('Shared walls in good visible condition (no impact damage, no obvious pest entry points)', 'shared_walls_good_visible'),
+  ('Shared walkway or breezeway free of stored junk, debris, or unused items', 'shared_walkway_breezeway_free'),
+  ('Shared rear alley or parking (if applicable) is overlooked by other units', 'shared_rear_alley_parking'),
+  ('Shared alley or parking area is overlooked by multiple units', 'shared_alley_parking_area'),
+  ('Assigned parking spot clearly marked with unit number', 'assigned_parking_spot_clearly'),
+  ('HOA common-area lighting (shared walkways, parking, alleys) in good repair and adequate', 'hoa_common_area_lighting'),
+  ('Vents or transoms on shared walls (if any exist between units) are secured', 'vents_transoms_shared_walls'),
+  ('Parking lot is visible from the street and from at least one occupied building entrance', 'parking_lot_visible_street'),
+  ('No dense vegetation, walls, or structures creating concealment near parking areas', 'no_dense_vegetation_walls'),
+  ('Drop-off and pick-up zones are clearly visible from interior gathering spaces', 'drop_off_pick_up'),
+  ('Perimeter has clear sight lines — no blind corners along property edges', 'perimeter_clear_sight_lines'),
+  ('Vehicular entry points are limited and clearly defined (not open on all sides)', 'vehicular_entry_points_limited'),
+  ('Bollards or barriers protect building entrances and gathering areas from vehicle approach', 'bollards_barriers_protect_building'),
+  ('Parking lot has designated visitor, staff, and accessible spaces clearly marked', 'parking_lot_designated_visitor'),
+  ('Perimeter fencing or boundary markers control pedestrian access to the property', 'perimeter_fencing_boundary_markers'),
+  ('Property name, service times, and address clearly visible from the street', 'property_name_service_times'),
+  ('Signage directs visitors to main entrance and parking areas', 'signage_directs_visitors_main'),
+  ('Property boundaries are clearly defined and maintained', 'property_boundaries_clearly_defined'),
+  ('Parking lot surface is in good condition (no potholes, faded markings, debris)', 'parking_lot_surface_good'),
+  ('Perimeter landscaping is maintained and does not create hiding spots', 'perimeter_landscaping_maintained_does'),
+  ('All sides of the building are visible from parking areas, neighboring properties, or public roads', 'sides_building_visible_parking'),
+  ('No hidden alcoves, recessed doorways, or utility areas creating concealment opportunities', 'no_hidden_alcoves_recessed'),
+  ('Playground or outdoor gathering areas are visible from interior occupied spaces', 'playground_outdoor_gathering_areas'),
+  ('Secondary and emergency exit doors are locked from outside (exit-only hardware)', 'secondary_emergency_exit_doors'),
+  ('Utility rooms, HVAC equipment, and roof access points are secured', 'utility_rooms_hvac_equipment'),
+  ('Dumpster and storage areas are enclosed or secured and not adjacent to building entry points', 'dumpster_storage_areas_enclosed'),
+  ('Building exterior communicates active use and care (no boarded windows, peeling paint, or neglect)', 'building_exterior_communicates_active'),
+  ('Grounds show regular maintenance and community investment', 'grounds_show_regular_maintenance'),
+  ('Building exterior is free of graffiti, vandalism, or visible damage', 'building_exterior_free_graffiti'),
+  ('Landscaping around the building follows the 2''/6'' rule (shrubs under 2 ft, canopies above 6 ft)', 'landscaping_around_building_follows'),
+  ('Main entrance is clearly identifiable and visible from the parking area', 'main_entrance_clearly_identifiable'),
+  ('Lobby/narthex has windows or sight lines to the exterior approach', 'lobby_narthex_windows_sight'),
+  ('Greeters, ushers, or reception staff have a clear view of arriving visitors', 'greeters_ushers_reception_staff'),
+  ('Main entry doors can be locked or controlled during services (single point of entry when needed)', 'main_entry_doors_can'),
+  ('Vestibule or narthex creates a transitional space between outside and worship areas', 'vestibule_narthex_creates_transitional'),
+  ('Greeting or welcome ministry is positioned to observe and engage all who enter', 'greeting_welcome_ministry_positioned'),
+  ('Visitor check-in or information area is near the main entrance', 'visitor_check_information_area'),
+  ('Entry area is clean, well-lit, and welcoming (good first impression)', 'entry_area_clean_well'),
+  ('Ushers or safety team members can observe all seating areas and entry points from their positions', 'ushers_safety_team_members'),
+  ('Balcony, choir loft, or elevated areas are monitored or restricted when not in use', 'balcony_choir_loft_elevated'),
+  ('Altar/chancel area is visible from multiple vantage points (no hidden approaches)', 'altar_chancel_area_visible'),
+  ('Sacristy and vestry rooms are locked when unoccupied', 'sacristy_vestry_rooms_locked'),
+  ('Tabernacle or sacred objects are secured (anchored, locked, or alarmed)', 'tabernacle_sacred_objects_secured'),
+  ('Access to altar/chancel area can be controlled during services', 'access_altar_chancel_area'),
+  ('Emergency exits are clearly marked, unobstructed, and operable from inside', 'emergency_exits_clearly_marked'),
+  ('Evacuation plan is posted and congregation has been briefed on emergency procedures', 'evacuation_plan_posted_congregation'),
+  ('Fellowship hall and meeting rooms have windows or open sight lines from adjacent spaces', 'fellowship_hall_meeting_rooms'),
+  ('Kitchen area has a serving window or pass-through that maintains visual connection', 'kitchen_area_serving_window'),
+  ('Meeting rooms can be locked when not in use', 'meeting_rooms_can_locked'),
+  ('Kitchen has lockable storage for sharp objects and hazardous materials', 'kitchen_lockable_storage_sharp'),
+  ('Exterior doors from fellowship spaces are alarmed or monitored', 'exterior_doors_fellowship_spaces'),
+  ('Fellowship spaces are clean, organized, and free of clutter that could impede evacuation', 'fellowship_spaces_clean_organized'),
+  ('Emergency exits from fellowship areas are clearly marked and unobstructed', 'emergency_exits_fellowship_areas'),
+  ('Children''s wing or area has controlled access (check-in/check-out system in place)', 'children_wing_area_controlled'),
+  ('Classroom doors have locks operable from inside and viewing windows or half-doors for supervision', 'classroom_doors_locks_operable'),
+  ('Restrooms near children''s areas are single-occupancy or supervised', 'restrooms_near_children_areas'),
+  ('Only authorized personnel can access nursery and children''s rooms', 'only_authorized_personnel_can'),
+  ('Hallways in children''s areas have clear sight lines with no hidden alcoves', 'hallways_children_areas_clear'),
+  ('Classroom doors have vision panels or windows allowing visual monitoring from hallways', 'classroom_doors_vision_panels'),
+  ('Classrooms have lockdown capability (doors lockable from inside, window coverings available)', 'classrooms_lockdown_capability_doors'),
+  ('Two-adult rule or open-door policy is practiced in children''s ministry areas', 'two_adult_rule_open'),
+  ('Administrative offices are locked when unoccupied', 'administrative_offices_locked_unoccupied'),
+  ('Financial records, offering storage, and safe are in a secured area with limited access', 'financial_records_offering_storage'),
+  ('Server room or IT closet is locked and access is restricted to authorized personnel', 'server_room_closet_locked'),
+  ('Office area reception or front desk has a clear view of approaching visitors', 'office_area_reception_front'),
+  ('No isolated offices without a secondary exit or line of sight to common areas', 'no_isolated_offices_without'),
+  ('Storage rooms and maintenance areas are organized and locked when not in use', 'storage_rooms_maintenance_areas'),
+  ('Key control system is in place (master keys tracked, locks rekeyed when staff leave)', 'key_control_system_place'),
+  ('All building entrances have bright, working lights that illuminate visitors'' faces', 'building_entrances_bright_working'),
+  ('Parking lot has consistent lighting with no dark gaps between fixtures', 'parking_lot_consistent_lighting'),
+  ('Walkways between parking and building entrances are well-lit', 'walkways_between_parking_building'),
+  ('Motion-activated lights cover vulnerable areas (rear of building, storage, utility areas)', 'motion_activated_lights_cover'),
+  ('Exterior lights on photocell or timer — not solely manual switch', 'exterior_lights_photocell_timer'),
+  ('Security cameras cover parking lot, main entrance, and building perimeter', 'security_cameras_cover_parking'),
+  ('Camera system records continuously with adequate storage (minimum 30 days)', 'camera_system_records_continuously'),
+  ('All exterior light fixtures functioning (no burned-out bulbs or damaged fixtures)', 'exterior_light_fixtures_functioning_no'),
+  ('Landscaping does not obstruct light fixtures or camera sight lines', 'landscaping_does_not_obstruct'),
+  ('Outdoor event areas (courtyards, fire pits, baptistry) are visible from building interior', 'outdoor_event_areas_courtyards'),
+  ('Gas and electric utility entry points are secured and not publicly accessible', 'gas_electric_utility_entry'),
+  ('Exterior playgrounds are enclosed by a sturdy fence with a restricted entry point', 'exterior_playgrounds_enclosed_sturdy'),
+  ('Electrical panels and lighting switches are inaccessible to the public', 'electrical_panels_lighting_switches'),
+  ('Foyer/lobby has windows or sight lines to the exterior approach', 'foyer_lobby_windows_sight'),
+  ('Greeters, welcome team, or reception staff are positioned to observe and engage all arriving visitors', 'greeters_welcome_team_reception'),
+  ('Foyer or lobby creates a transitional space between outside and worship areas', 'foyer_lobby_creates_transitional'),
+  ('All visitors are funneled through 1-2 well-marked entrances rather than multiple scattered access points', 'visitors_funneled_through_1'),
+  ('Visitor check-in or welcome center is positioned centrally near the main entrance to serve as both information point and visual deterrent', 'visitor_check_welcome_center'),
+  ('Stage/platform area is visible from multiple vantage points (no hidden approaches)', 'stage_platform_area_visible'),
+  ('Sound booth/AV production area has clear sight lines to the stage and all entry points', 'sound_booth_av_production'),
+  ('Backstage and production areas are locked when unoccupied', 'backstage_production_areas_locked'),
+  ('Sound booth and AV equipment are secured (locked cabinet or restricted room)', 'sound_booth_av_equipment'),
+  ('Access to stage/platform area can be controlled during services', 'access_stage_platform_area'),
+  ('Baptistry area has locked access when not in use (doors and stair access secured)', 'baptistry_area_locked_access'),
+  ('Panic alarm is accessible from the sound/media booth and the podium/stage area', 'panic_alarm_accessible_sound'),
+  ('Worship center doors can be secured for lockdown during an active threat', 'worship_center_doors_can'),
+  ('Cafe/bookstore area has open sight lines and is visible from staffed areas — when near the entry, supports natural surveillance of arriving visitors', 'cafe_bookstore_area_open'),
+  ('Gymnasium/recreation areas have windows or open access points allowing visual monitoring', 'gymnasium_recreation_areas_windows'),
+  ('Gymnasium storage rooms are locked when not in use', 'gymnasium_storage_rooms_locked'),
+  ('Youth/student ministry building or wing has controlled access separate from the main facility', 'youth_student_ministry_building'),
+  ('Youth areas have lockdown capability independent of main building', 'youth_areas_lockdown_capability'),
+  ('Exterior doors on youth building are locked from outside (exit-only) during programming', 'exterior_doors_youth_building'),
+  ('Hallways in children''s and youth areas have clear sight lines with no hidden alcoves', 'hallways_children_youth_areas'),
+  ('Classroom and youth activity rooms have vision panels or windows allowing visual monitoring from hallways', 'classroom_youth_activity_rooms'),
+  ('Youth outdoor activity areas are visible from the youth building interior', 'youth_outdoor_activity_areas'),
+  ('Two-adult rule or open-door policy is practiced in children''s and youth ministry areas', 'two_adult_rule_open_door'),
+  ('The full property boundary is visible from the street or from on-site occupied positions without significant blind spots', 'full_property_boundary_visible'),
+  ('Perimeter landscaping follows the CPTED 2''/6'' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so sight lines are preserved', 'perimeter_landscaping_follows_cpted'),
+  ('Remote or seldom-used edges of the property are visible from the building, internal roadways, or dedicated camera coverage', 'remote_seldom_used_edges'),
+  ('Vehicle approach is funneled through a clearly defined primary entrance with no informal cut-throughs from adjacent parcels', 'vehicle_approach_funneled_through'),
+  ('Hostile-vehicle mitigation (bollards, planters, knee-wall, or landscaped berm) protects the building face from ramming at the closest standoff approach', 'hostile_vehicle_mitigation_bollards'),
+  ('Perimeter fencing, landscape berms, or natural barriers define the property edge along all sides exposed to public roadway or adjacent property', 'perimeter_fencing_landscape_berms'),
+  ('Knox Box or equivalent first-responder access has been installed at a visible location for after-hours building entry', 'knox_box_equivalent_first'),
+  ('A monument sign or building-name signage at the primary approach establishes the property as private corporate territory', 'monument_sign_building_name'),
+  ('Signage at the perimeter directs visitors, deliveries, and employees to the appropriate entrances', 'signage_perimeter_directs_visitors'),
+  ('Property-line markers (fencing, hedges, walls, or pavement transitions) clearly distinguish the corporate property from public right-of-way', 'property_line_markers_fencing'),
+  ('The perimeter is free of graffiti, litter, broken fencing, and signs of neglect that would signal reduced guardianship', 'perimeter_free_graffiti_litter'),
+  ('Perimeter signage is clean, current, and free of obsolete or damaged elements', 'perimeter_signage_clean_current'),
+  ('Parking areas are visible from occupied portions of the building (ground- or upper-floor windows, reception, or security control room)', 'parking_areas_visible_occupied'),
+  ('Pedestrian routes from parking to building entrances are open, direct, and visible without hidden alcoves or screened approaches', 'pedestrian_routes_parking_building'),
+  ('Cameras provide overlapping coverage of all parking areas with no significant blind spots between fixtures', 'cameras_provide_overlapping_coverage'),
+  ('Landscaping in and around the parking lot follows the 2''/6'' rule so a person standing between vehicles is visible from a distance', 'landscaping_around_parking_lot'),
+  ('Visitor parking is clearly marked, located adjacent to the main entrance, and signed at the property approach', 'visitor_parking_clearly_marked'),
+  ('Employee-only parking sections are marked with signage or pavement treatments that distinguish them from visitor parking spaces', 'employee_only_parking_sections'),
+  ('Vehicle entry/exit points are clearly marked, controlled by gate or stop control where appropriate, and minimized to the operational minimum', 'vehicle_entry_exit_points'),
+  ('After-hours parking is restricted, and any after-hours arrivals are observable by security staff or via monitored cameras', 'after_hours_parking_restricted'),
+  ('Parking areas are lit so faces can be recognized at 25 feet, in line with IES recommended practice for parking facilities', 'parking_areas_lit_so'),
+  ('Light fixtures are spaced for uniformity (low light-to-dark ratio) without dark gaps between poles', 'light_fixtures_spaced_uniformity'),
+  ('Light fixtures are tamper- and vandal-resistant, mounted at heights that are not easily reached', 'light_fixtures_tamper_vandal'),
+  ('All parking-area light fixtures are functioning, with no out, dim, or damaged units observed', 'parking_area_light_fixtures'),
+  ('Pedestrian walkways between parking and the building are lit continuously (not just at endpoints)', 'pedestrian_walkways_between_parking'),
+  ('Designated visitor parking spaces are reinforced by signage and pavement markings', 'designated_visitor_parking_spaces'),
+  ('Wayfinding signs guide visitors from parking to the main entry without ambiguity', 'wayfinding_signs_guide_visitors'),
+  ('The parking lot is free of abandoned vehicles, accumulated debris, broken pavement, and damaged parking spaces', 'parking_lot_free_abandoned'),
+  ('Pavement markings, signs, and curb paint are maintained in legible condition', 'pavement_markings_signs_curb'),
+  ('Outdoor break, smoking, and eating areas are visible from inside the building or from regularly traveled walkways', 'outdoor_break_smoking_eating'),
+  ('Walking paths and trails are open and unobstructed by tall hedges, blind curves, or screened bench enclosures', 'walking_paths_trails_open'),
+  ('Trash, dumpster, and recycling areas are visible from the building or from a regularly traveled vehicle route', 'trash_dumpster_recycling_areas'),
+  ('Landscaping along walkways, courtyards, and the building face follows the CPTED 2''/6'' rule (shrubs trimmed below 2 ft, tree canopies above 6 ft) so concealment is eliminated and sight lines are preserved', 'landscaping_along_walkways_courtyards'),
+  ('Designated smoking areas are positioned so smokers do not prop open exterior doors or congregate near secondary entries', 'designated_smoking_areas_positioned'),
+  ('Dumpster enclosures are gated/locked when not in active use to prevent dumpster diving and bomb-staging concealment', 'dumpster_enclosures_gated_locked'),
+  ('Outdoor utility components (transformers, gas meters, HVAC condensers, irrigation backflow) are protected by enclosures, fencing, or bollards', 'outdoor_utility_components_transformers'),
+  ('Outdoor common areas (courtyards, plazas, eating areas) are clearly furnished and signed as employee-use spaces, not public space', 'outdoor_common_areas_courtyards'),
+  ('Landscape design and pavement signal that the grounds are owned, maintained, and patrolled', 'landscape_design_pavement_signal'),
+  ('Grounds are free of graffiti, litter, broken benches/tables, and overgrown landscape', 'grounds_free_graffiti_litter'),
+  ('Trash receptacles in outdoor common areas are emptied on a regular schedule and are not overflowing', 'trash_receptacles_outdoor_common'),
+  ('Irrigation, drainage, and landscape beds are functioning and not creating standing-water or overgrowth issues', 'irrigation_drainage_landscape_beds'),
+  ('Ground-floor windows are not obstructed by interior signs, posters, or furniture beyond the 10% / 5-ft CPTED guideline', 'ground_floor_windows_not'),
+  ('The full exterior perimeter is observable from cameras, regularly patrolled paths, or building windows with overlapping coverage', 'full_exterior_perimeter_observable'),
+  ('Setback/hardscape around the building is open enough to deny concealed approach to ground-floor windows and doors', 'setback_hardscape_around_building'),
+  ('All secondary exterior doors are exit-only (no exterior hardware) or controlled by card reader', 'secondary_exterior_doors_exit'),
+  ('Exterior doors have non-removable hinge pins or hinges that are not accessible from outside', 'exterior_doors_non_removable'),
+  ('Exterior doors are equipped with deadbolts (minimum 1-inch throw) or equivalent commercial locking, with strike plates anchored into the frame', 'exterior_doors_equipped_deadbolts'),
+  ('Exterior door closers and weather seals are in working order and the doors latch fully when released', 'exterior_door_closers_weather'),
+  ('Secondary exterior doors are alarmed (door-position contact reporting to the security panel) so any opening is detected', 'secondary_exterior_doors_alarmed'),
+  ('Ground-floor windows that open are equipped with locks; fixed glazing is intact and not propped/blocked', 'ground_floor_windows_open'),
+  ('Roof access doors and roof hatches are locked, alarmed, and not used as informal smoking-break exits', 'roof_access_doors_roof'),
+  ('Rooftop HVAC, communications, and mechanical equipment is protected by perimeter fencing, locked enclosures, or restricted-access roof zoning', 'rooftop_hvac_communications_mechanical'),
+  ('The primary entry is visually distinct (canopy, signage, lighting) from secondary doors so visitors are funneled to it unambiguously', 'primary_entry_visually_distinct'),
+  ('All secondary doors are signed appropriately (e.g., "Emergency Exit Only — Alarm Will Sound") to deter routine use', 'secondary_doors_signed_appropriately'),
+  ('All exterior building façades are lit during darkness with no dark sides of the building', 'exterior_building_facades_lit'),
+  ('Exterior door entries are lit so a person at the door can be recognized on camera and from inside', 'exterior_door_entries_lit'),
+  ('Roof-edge or rooftop lighting allows after-hours patrol or maintenance access without flashlights', 'roof_edge_rooftop_lighting'),
+  ('The building façade is free of graffiti, broken windows, and visible damage', 'building_facade_free_graffiti'),
+  ('Exterior signage, door hardware, and lighting fixtures are maintained and current', 'exterior_signage_door_hardware'),
+  ('The reception/security desk has direct sight line to the primary exterior door and the full lobby', 'reception_security_desk_direct'),
+  ('Reception staff can see arriving visitors before the visitor reaches the desk (no concealed approach)', 'reception_staff_can_see'),
+  ('The lobby is monitored by camera with recording, including coverage of the reception desk and any side doors', 'lobby_monitored_camera_recording'),
+  ('A designated customer waiting area is visible from reception and not isolated in an unstaffed alcove or back-corner seating', 'designated_customer_waiting_area'),
+  ('Customer meeting rooms preserve sight line from outside (vision panel, glass wall) or are equipped with a panic/duress button so employees are not isolated during difficult conversations', 'customer_meeting_rooms_preserve'),
+  ('A vestibule or transaction barrier separates the public lobby from the employee-controlled portion of the building', 'vestibule_transaction_barrier_separates'),
+  ('All visitors check in at reception and are issued a visitor badge before entering the controlled portion of the building', 'visitors_check_reception_issued'),
+  ('Reception distinguishes customer visitors from vendor/contractor sign-ins so each is routed and badged appropriately', 'reception_distinguishes_customer_visitors'),
+  ('Visitor badges are visually distinct from employee badges and use a self-expiring or dated mechanism so reuse is detected', 'visitor_badges_visually_distinct'),
+  ('Visitors are escorted by a host employee, or are routed through a reception-controlled door, before entering office floors', 'visitors_escorted_host_employee'),
+  ('A panic alarm or duress button is present at the reception desk and tested on a known schedule', 'panic_alarm_duress_button'),
+  ('The transition door from lobby to employee space is controlled by card reader, not propped, and re-locks reliably', 'transition_door_lobby_employee'),
+  ('A clearly posted visitor policy or sign-in expectation is visible to arriving visitors', 'clearly_posted_visitor_policy'),
+  ('Reception''s location, signage, and orientation make it obvious that all visitors must check in before proceeding', 'reception_location_signage_orientation'),
+  ('Reception staff have a workstation view (or shared monitor) of relevant exterior and lobby cameras', 'reception_staff_workstation_view'),
+  ('The visitor management system (paper log or software) captures visitor name, host, time in/out, and badge number', 'visitor_management_system_paper'),
+  ('The lobby is well-maintained, brightly lit, and projects a controlled, professional image consistent with corporate ownership', 'lobby_well_maintained_brightly'),
+  ('The loading dock is visible from a regularly staffed position, security camera, or both at all times of dock operation', 'loading_dock_visible_regularly'),
+  ('Mailroom intake is observable from another staffed area or by camera covering the receiving counter', 'mailroom_intake_observable_another'),
+  ('The exterior approach to the loading dock is camera-covered with continuous recording', 'exterior_approach_loading_dock'),
+  ('The loading dock overhead door and any pedestrian door are kept closed and locked when not actively in use', 'loading_dock_overhead_door'),
+  ('Vendors, delivery drivers, and contractors check in at the dock or at reception and are issued a temporary badge before entering the building', 'vendors_delivery_drivers_contractors'),
+  ('The mailroom has dedicated access control (card reader or staffed sign-in) separating it from the rest of the office space', 'mailroom_dedicated_access_control'),
+  ('A documented suspicious-package protocol (tell-tale signs, isolation procedure, 911 escalation) is posted in or near the mailroom', 'documented_suspicious_package_protocol'),
+  ('Service entries (janitor, vendor, contractor doors) are alarmed, exit-only or card-controlled, and not propped during business hours', 'service_entries_janitor_vendor'),
+  ('Mail and packages are screened (visual inspection at minimum; X-ray, K9, or vendor-screening service if higher tier) before distribution into the building', 'mail_packages_screened_visual'),
+  ('The mailroom HVAC is isolated from, or capable of being isolated from, the building''s central air handling in the event of a suspicious substance release', 'mailroom_hvac_isolated_capable'),
+  ('A package-receiving log records inbound deliveries, sender, and recipient for accountability', 'package_receiving_log_records'),
+  ('The loading-dock area is signed as "Authorized Personnel Only — Deliveries Only" so unauthorized foot traffic is deterred', 'loading_dock_area_signed'),
+  ('The dock and mailroom are clean, organized, and free of accumulated packaging, prop-open wedges, and unsecured tools', 'dock_mailroom_clean_organized'),
+  ('Elevator interiors are camera-covered with recording', 'elevator_interiors_camera_covered'),
+  ('Stairwells are camera-covered at landings or have alarmed door contacts so unauthorized travel is detected', 'stairwells_camera_covered_landings'),
+  ('Floor lobbies (elevator vestibules on each floor) are visible from a regularly occupied position on that floor', 'floor_lobbies_elevator_vestibules'),
+  ('Elevator floor selection requires a credential after hours (or all-times for restricted floors), so unauthenticated travel is blocked', 'elevator_floor_selection_requires'),
+  ('Stairwell doors permit free egress (life-safety code) but re-entry from the stairwell to office floors is controlled by card reader', 'stairwell_doors_permit_free'),
+  ('Stairwell re-entry is permitted on at least every fourth floor and on the floor of discharge, in line with code, so occupants are never trapped in a stairwell', 'stairwell_re_entry_permitted'),
+  ('The path from the stairwell discharge to the exterior exit door is unobstructed and well lit', 'path_stairwell_discharge_exterior'),
+  ('Roof access from the top stairwell is locked, alarmed, and signed as restricted', 'roof_access_top_stairwell'),
+  ('All stairwells are lit at code-required levels with no out or dim fixtures', 'stairwells_lit_code_required'),
+  ('Floor lobbies and elevator vestibules are lit to recognize faces on camera', 'floor_lobbies_elevator_vestibules_lit'),
+  ('Stairwells are free of stored materials, propped doors, and accumulated trash', 'stairwells_free_stored_materials'),
+  ('Elevator cab interiors are clean, undamaged, and free of graffiti', 'elevator_cab_interiors_clean'),
+  ('Workstation layout preserves sight lines across the open floor plan rather than creating hidden alcoves or screened workstations', 'workstation_layout_preserves_sight'),
+  ('Conference rooms with glass walls or interior windows allow casual observation of activity from circulation paths', 'conference_rooms_glass_walls'),
+  ('Cubicle and partition heights do not exceed five feet in primary work areas, in line with CPTED office surveillance guidance', 'cubicle_partition_heights_do'),
+  ('Executive suite, executive assistant area, or C-suite floor is separated from general office space by access control', 'executive_suite_executive_assistant'),
+  ('Conference rooms used for sensitive discussions are lockable when in use', 'conference_rooms_used_sensitive'),
+  ('Print/copy rooms with multifunction devices that handle sensitive documents are positioned in low-foot-traffic locations with reasonable visibility', 'print_copy_rooms_multifunction'),
+  ('Employee badging policy requires badges to be worn visibly while on the floor', 'employee_badging_policy_requires'),
+  ('Floor signage and wayfinding establish departmental identity (e.g., "Claims Operations — Floor 3") so visitors understand whose territory they have entered', 'floor_signage_wayfinding_establish'),
+  ('Executive and restricted floors are signed and visually treated to reinforce that the space is access-controlled', 'executive_restricted_floors_signed'),
+  ('A clean-desk practice is in effect for sensitive paper records (claims, PII, HR) at end of day', 'clean_desk_practice_effect'),
+  ('Workstations are configured so that screens displaying confidential information are not visible from public corridors or windows', 'workstations_configured_so_screens'),
+  ('Employees know how to challenge or report a person on the floor without a visible badge', 'employees_know_how_challenge'),
+  ('Office floors are clean, well-maintained, and project a controlled corporate image consistent with the lobby presentation', 'office_floors_clean_well'),
+  ('Doors to critical rooms are visible from a regularly staffed position or are camera-covered', 'doors_critical_rooms_visible'),
+  ('Activity in or around mechanical/electrical/utility rooms is observable from corridors rather than from unmonitored hallway dead-ends', 'activity_around_mechanical_electrical'),
+  ('The server room / data center has access control with audit logging (card reader at minimum; biometric where the data sensitivity warrants it)', 'server_room_data_center'),
+  ('Main and floor-level telecom/network closets (often labeled MDF and IDF) are locked at all times and access is limited to IT and authorized vendors', 'main_floor_level_telecom'),
+  ('HR records, claim files, and other PII storage areas are behind access-controlled doors with key or badge logging', 'hr_records_claim_files'),
+  ('Mechanical, electrical, and elevator-equipment rooms are locked and signed as restricted', 'mechanical_electrical_elevator_equipment'),
+  ('The water service entry, fire-pump room, and any chemical or fuel storage areas are locked and signed', 'water_service_entry_fire'),
+  ('The emergency generator and fuel storage are protected by perimeter fencing, locked enclosure, or restricted-access yard', 'emergency_generator_fuel_storage'),
+  ('Server room and telecom/network closets (MDF and IDF rooms) are camera-covered with recording', 'server_room_telecom_network'),
+  ('Door-position contacts on critical rooms report to the security alarm panel and trigger after-hours alerts', 'door_position_contacts_critical'),
+  ('Access logs for critical rooms are reviewed on a defined cadence (the security director can describe the cadence and reviewer)', 'access_logs_critical_rooms'),
+  ('Critical rooms are kept clean and free of stored unrelated materials that would obscure equipment or block egress', 'critical_rooms_kept_clean'),
+  ('Restricted-area signage is current, legible, and free of damage', 'restricted_area_signage_current'),
+  ('The access control system is unified across the entire building (single-tenant context — one platform, one credential per employee)', 'access_control_system_unified'),
+  ('The access control system can immediately disable a credential and the security director can describe the revocation workflow', 'access_control_system_can'),
+  ('Camera footage is retained for at least 30 days (90 days preferred per CPTED office guidance)', 'camera_footage_retained_least'),
+  ('Cameras are positioned and resolved to support facial recognition at intended distances; non-working cameras have been repaired or removed', 'cameras_positioned_resolved_support'),
+  ('The intrusion alarm system is monitored 24/7 (in-house SOC or central station) and the monitoring contract is current', 'intrusion_alarm_system_monitored'),
+  ('A mass notification system is in place that can reach all building occupants (intercom/PA, SMS, desktop alerts, or combination) and has been tested within the last 12 months', 'mass_notification_system_place'),
+  ('The security system is integrated with fire/life-safety such that fire alarm activation releases fail-safe doors and elevators recall in line with code', 'security_system_integrated_fire'),
+  ('A documented panic-alarm capability exists at reception, executive areas, and HR with a tested response protocol', 'documented_panic_alarm_capability'),
+  ('Security technology (cameras, readers, alarm panels, mass-notification devices) shows no visible damage, missing covers, or out-of-service indicators', 'security_technology_cameras_readers'),
+  ('Documentation, drawings, and credentials lists are current and reviewed on a stated cadence', 'documentation_drawings_credentials_lists'),
+  ('A documented Workplace Violence Prevention policy exists and is communicated to all employees on hire and at a defined refresher cadence', 'documented_workplace_violence_prevention'),
+  ('A multidisciplinary Threat Assessment Team (security, HR, legal, mental-health resource, LE liaison) is in place and meets on a defined cadence to review concerning behavior reports', 'multidisciplinary_threat_assessment_team'),
+  ('A confidential employee-reporting channel exists for threats, intimidation, and concerning behavior, and employees know how to use it', 'confidential_employee_reporting_channel'),
+  ('Pre-employment screening and a documented termination protocol (badge return, escort, threat assessment for high-risk separations) are in place', 'pre_employment_screening_documented'),
+  ('Customer-facing staff (claims, policy service, reception) have received de-escalation and hostile-customer response training within the last 24 months', 'customer_facing_staff_claims'),
+  ('A written Emergency Action Plan (EAP) covering fire, severe weather, medical, bomb threat, and active assailant is current and accessible to floor wardens', 'written_emergency_action_plan'),
+  ('Run-Hide-Fight (or equivalent ALICE-style) training has been delivered to all employees within the last 24 months', 'run_hide_fight_equivalent'),
+  ('Lockdown drills have been conducted within the last 12 months and after-action notes are retained', 'lockdown_drills_conducted_within'),
+  ('Floor wardens or a building emergency-response team are designated, named, and trained, with backups identified for absences', 'floor_wardens_building_emergency'),
+  ('Designated assembly/rally points (and inclement-weather alternates) are identified for evacuation accountability', 'designated_assembly_rally_points'),
+  ('The building has a tested capability to immediately lock all access-controlled doors and disable card readers on command (lockdown card or SOC console)', 'building_tested_capability_immediately'),
+  ('The building has a tested capability to immediately stop elevators at the next floor so they do not recall to the lobby during an active threat', 'building_tested_capability_immediately_stop'),
+  ('Designated rooms or floors have lockable interior doors so occupants can shelter in place, and employees know which rooms qualify', 'designated_rooms_floors_lockable'),
+  ('Mass notification devices (PA, desktop alert, SMS) reach all areas of the building including stairwells, restrooms, and parking; coverage has been verified by drill', 'mass_notification_devices_pa'),
+  ('Floor plans, riser diagrams, and access credentials/keys are pre-staged for delivery to law enforcement during an incident (e.g., Knox Box, lobby lockbox, or pre-arranged digital share)', 'floor_plans_riser_diagrams'),
+  ('The security director has a documented coordination point of contact with the Volusia Sheriff''s Office (or local LE) and has hosted a familiarization walkthrough within the last 24 months', 'security_director_documented_coordination'),
+  ('Mass notification, panic alarm, and lockdown systems are tested on a documented schedule and test logs are retained', 'mass_notification_panic_alarm'),
+  ('EAP documents, evacuation maps, and rally-point signage on every floor are current and legible', 'eap_documents_evacuation_maps'),
+  ('Post-incident response resources (EAP, victim assistance contacts, employee assistance program, business continuity playbook) are documented and assigned to a named owner', 'post_incident_response_resources'),
+  ('Property boundaries are clearly delineated from adjacent properties', 'property_boundaries_clearly_delineated'),
+  ('Perimeter fencing allows for natural surveillance of school grounds', 'perimeter_fencing_allows_natural'),
+  ('Remote or seldom-used areas of the property are visible from occupied buildings, pedestrian pathways, or vehicular routes', 'remote_seldom_used_areas'),
+  ('School grounds are fenced appropriately to the campus context (full perimeter where feasible; at minimum around student play/recess areas)', 'school_grounds_fenced_appropriately'),
+  ('Fencing is in good repair with no holes, gaps, or compromised sections', 'fencing_good_repair_no_holes'),
+  ('Knox Box has been installed at a first-responder-visible location for after-hours access', 'knox_box_installed_first'),
+  ('Vehicle bollards, wheel stops, or landscaped berms protect the primary building entry from vehicle ramming', 'vehicle_bollards_wheel_stops'),
+  ('Seldom-used perimeter gates or areas are secured to prevent unauthorized access', 'seldom_used_perimeter_gates'),
+  ('Signs at the property perimeter direct approaching vehicles and pedestrians to the appropriate entries', 'signs_property_perimeter_direct'),
+  ('An attractive, visible school-name sign is posted near the primary entry', 'attractive_visible_school_name'),
+  ('Trees and shrubs along the perimeter follow CPTED standards (shrubs trimmed below 2 ft, canopy above 6 ft) to preserve sight lines', 'trees_shrubs_along_perimeter'),
+  ('Perimeter is free of graffiti, litter, or signs of neglect that signal reduced guardianship', 'perimeter_free_graffiti_litter_signs'),
+  ('There are no unattractive barriers such as barbed wire or razor wire on the school grounds', 'no_unattractive_barriers_such'),
+  ('Parking lots are easily monitored from adjacent buildings or dedicated camera coverage', 'parking_lots_easily_monitored'),
+  ('Visitor parking is visible from adjacent administrative offices', 'visitor_parking_visible_adjacent'),
+  ('Parent drop-off/pickup areas are easily monitored by staff and/or cameras', 'parent_drop_off_pickup'),
+  ('Bus unloading/loading areas are easily monitored', 'bus_unloading_loading_areas'),
+  ('Parent drop-off/pickup location is clearly marked by signage, pavement, and curb treatments', 'parent_drop_off_pickup_location'),
+  ('Students are dropped off and picked up only at authorized locations', 'students_dropped_off_picked'),
+  ('Bus unloading/loading areas are clearly marked by signage, pavement, and/or curb treatments', 'bus_unloading_loading_areas_clearly'),
+  ('Visitor parking is located directly adjacent to the main administrative entrance', 'visitor_parking_located_directly'),
+  ('Parking lot entrances and exits are clearly marked', 'parking_lot_entrances_exits'),
+  ('Secondary vehicular entries are secured during school hours', 'secondary_vehicular_entries_secured'),
+  ('Student parking lot uses access control (gate, decal enforcement, or monitored entry)', 'student_parking_lot_uses'),
+  ('Delivery activities follow a defined route that does not cross student movement zones', 'delivery_activities_follow_defined'),
+  ('Parking areas are delineated for staff, visitors, and (where applicable) students', 'parking_areas_delineated_staff'),
+  ('All parking spaces are clearly marked', 'parking_spaces_clearly_marked'),
+  ('Vehicular travel routes on school property are clearly marked and in good condition', 'vehicular_travel_routes_school'),
+  ('Authorized adults are visible and available for assistance at parent drop-off and bus areas during arrivals and departures', 'authorized_adults_visible_available'),
+  ('Parking lots are well lit during nighttime and early-morning operations', 'parking_lots_well_lit'),
+  ('Parking lots are in good condition with no signs of vandalism', 'parking_lots_good_condition'),
+  ('Pedestrian pathways on school property are easily monitored', 'pedestrian_pathways_school_property'),
+  ('Pedestrian pathways and gathering areas are visible from occupied buildings', 'pedestrian_pathways_gathering_areas'),
+  ('Playground areas are visible from administrative and classroom windows', 'playground_areas_visible_administrative'),
+  ('Exterior athletic areas are easily monitored', 'exterior_athletic_areas_easily'),
+  ('Bike racks are easily monitored', 'bike_racks_easily_monitored'),
+  ('There are no concealment hiding places created by landscaping or fencing', 'no_concealment_hiding_places'),
+  ('Access to dumpsters is controlled (enclosed, locked, or monitored)', 'access_dumpsters_controlled_enclosed'),
+  ('No hiding places exist in or around dumpster areas', 'no_hiding_places_exist'),
+  ('Site utilities (electrical vaults, HVAC, gas meters) are secured with locked enclosures', 'site_utilities_electrical_vaults'),
+  ('Playground equipment is installed to restrict climbing access onto adjacent roofs or upper levels', 'playground_equipment_installed_restrict'),
+  ('Athletic fields/stadium have controlled access during non-event hours', 'athletic_fields_stadium_controlled'),
+  ('Pedestrian pathways are separated from vehicular routes by curbing, color markings, landscaping, or other physical barriers', 'pedestrian_pathways_separated_vehicular'),
+  ('Posted rules are located at key points around the school grounds (playground, athletic areas, bike racks)', 'posted_rules_located_key'),
+  ('Outdoor learning areas, when present, are well-defined and supervisable', 'outdoor_learning_areas_present'),
+  ('School grounds are in good condition and enhanced with landscaping, student artwork, or similar elements that demonstrate active ownership', 'school_grounds_good_condition'),
+  ('No signs of graffiti or vandalism on grounds or outdoor equipment', 'no_signs_graffiti_vandalism'),
+  ('Landscaping does not provide easy access to roofs, windows, or upper levels', 'landscaping_does_not_provide'),
+  ('Bike racks and enclosures are in good condition', 'bike_racks_enclosures_good'),
+  ('Public entry is located adjacent to the administration area and visitor parking', 'public_entry_located_adjacent'),
+  ('Extensive windows and glazed doors at the public entry enhance natural surveillance', 'extensive_windows_glazed_doors'),
+  ('Courtyards are visible from the windows and doors of surrounding school buildings', 'courtyards_visible_windows_doors'),
+  ('Exterior stairs, balconies, ramps, and upper-level corridors are visible from windows or doors of school buildings, parking lots, and/or activity areas', 'exterior_stairs_balconies_ramps'),
+  ('Exterior stairs do not create hiding or hard-to-see areas', 'exterior_stairs_do_not'),
+  ('A single, defined public entry is enforced during school hours (fortified vestibule / mantrap or equivalent)', 'single_defined_public_entry'),
+  ('Front-entry vestibule glazing is ballistic-resistant, laminated, or protected with security film rated for forced-entry delay', 'front_entry_vestibule_glazing'),
+  ('Secondary entrance/exit doors are secured in the closed position and not propped open', 'secondary_entrance_exit_doors'),
+  ('Emergency-exit doors are alarmed or monitored to deter unauthorized outside access', 'emergency_exit_doors_alarmed'),
+  ('All buildings have highly visible identification names and/or numbers for first-responder access', 'buildings_highly_visible_identification'),
+  ('Portable classrooms display highly visible identification names/numbers', 'portable_classrooms_display_highly'),
+  ('Spaces under portables, including stairs and ramps, are screened to limit access', 'spaces_under_portables_including'),
+  ('Portables are secured when not in use', 'portables_secured_not_use'),
+  ('Screening walls and/or architectural features do not allow easy access to the roof or upper levels', 'screening_walls_architectural_features'),
+  ('Covers for exterior walkways and stairs are designed to limit easy access to roofs, windows, or upper levels', 'covers_exterior_walkways_stairs'),
+  ('Public entry is well defined with architectural features, signs, lighting, artwork, landscaping, and/or landmarks such as flags', 'public_entry_well_defined'),
+  ('Courtyards are enhanced with landscaping, student artwork, or other physical means', 'courtyards_enhanced_landscaping_student'),
+  ('Exterior walls, doors, and windows are in good condition', 'exterior_walls_doors_windows'),
+  ('No signs of graffiti on exterior walls', 'no_signs_graffiti_exterior'),
+  ('Murals, artwork, landscaping, and/or other architectural treatments enhance blank or barren exterior walls', 'murals_artwork_landscaping_other'),
+  ('Reception desk has clear sight lines to the public entry and approach', 'reception_desk_clear_sight'),
+  ('Extensive use of windows in administrative areas provides natural surveillance of adjoining interior spaces', 'extensive_use_windows_administrative'),
+  ('Extensive use of windows in administrative areas provides natural surveillance of the exterior', 'extensive_use_windows_administrative_areas'),
+  ('Lobby area is visible from adjacent administrative offices', 'lobby_area_visible_adjacent'),
+  ('Access from the public lobby into the main school building is controlled (locked door, electronic access control, or staffed gate)', 'access_public_lobby_main'),
+  ('Visitor sign-in and badging system is in place and actively used (e.g., Raptor, ID scan)', 'visitor_sign_badging_system'),
+  ('Front office has an Alyssa''s Law panic alert / silent panic button accessible from the reception position', 'front_office_alyssa_law'),
+  ('Access to school staff areas is controlled (badge, code, or staffed access)', 'access_school_staff_areas'),
+  ('Counseling and student-services areas have controlled access and are in good condition', 'counseling_student_services_areas'),
+  ('Lobby is attractive, cheerful, and inviting — with signs clearly directing visitors to the office', 'lobby_attractive_cheerful_inviting'),
+  ('Signs provide directions to major school areas (administrative offices, cafeteria, media center, auditorium, gymnasium, etc.)', 'signs_provide_directions_major'),
+  ('Lobby and reception area are clean, well lit, and in good condition', 'lobby_reception_area_clean'),
+  ('Interior corridors are easily monitored by staff during class changes, arrivals, and departures', 'interior_corridors_easily_monitored'),
+  ('Interior corridors have no hiding places (no recessed alcoves or unmonitored nooks)', 'interior_corridors_no_hiding'),
+  ('Interior stairs do not create hiding or hard-to-see areas', 'interior_stairs_do_not'),
+  ('Locker banks, when present, are arranged to maintain visibility (center lockers do not obstruct sight lines)', 'locker_banks_present_arranged'),
+  ('Interior corridor light controls are secured to prevent unauthorized access', 'interior_corridor_light_controls'),
+  ('Interior stair and balcony light controls are secured', 'interior_stair_balcony_light'),
+  ('Access to elevators is limited to authorized individuals', 'access_elevators_limited_authorized'),
+  ('Elevators are located in easy-to-view areas with mirrors inside to eliminate hiding places', 'elevators_located_easy_view'),
+  ('Authorized adults (staff, administrators, SRO/Guardian) are visible in interior corridors during arrivals, class changes, and departures', 'authorized_adults_staff_administrators'),
+  ('Lockers, where used, are adequately spaced to avoid crowding and see-through where possible', 'lockers_used_adequately_spaced'),
+  ('Interior corridors are well lit and free of obstacles that impede orderly pedestrian flow', 'interior_corridors_well_lit'),
+  ('Interior stairs, balconies, doors, and windows are in good condition', 'interior_stairs_balconies_doors'),
+  ('Classroom door windows allow natural surveillance into classrooms from the hallway', 'classroom_door_windows_allow'),
+  ('Classroom windows allow for natural surveillance of exterior spaces', 'classroom_windows_allow_natural'),
+  ('Furniture, lockers, or other objects do not compromise natural surveillance within the classroom', 'furniture_lockers_other_objects'),
+  ('Classrooms can be secured and locked down from the inside without the teacher exiting the room', 'classrooms_can_secured_locked'),
+  ('Secured classroom doors can still be exited from inside in an emergency (no key required to egress)', 'secured_classroom_doors_can'),
+  ('Classroom doors are secured when the classroom is not in use', 'classroom_doors_secured_classroom'),
+  ('Door-glazing coverings or opaque strips are available and deployable during lockdown (block sight into the room)', 'door_glazing_coverings_opaque'),
+  ('Each classroom has an exterior-visible classroom number or ID (door or window placard) for tactical response', 'classroom_exterior_visible_classroom'),
+  ('Every classroom has a means to contact the front office or administration directly (phone, intercom, two-way radio, or mobile alert app)', 'classroom_means_contact_front'),
+  ('Posted emergency procedures, lockdown instructions, or Standard Response Protocol (SRP) signage is visible in each classroom', 'posted_emergency_procedures_lockdown'),
+  ('Classrooms are well lit, in good condition, and free of clutter that would impede evacuation or lockdown', 'classrooms_well_lit_good'),
+  ('In-school suspension areas are easily monitored by staff', 'school_suspension_areas_easily'),
+  ('Cafeteria entries are well-defined and easily monitored', 'cafeteria_entries_well_defined'),
+  ('Auditorium entries are well-defined and easily monitored', 'auditorium_entries_well_defined'),
+  ('Gymnasium is easily monitored and access to the underside of bleachers is limited', 'gymnasium_easily_monitored_access'),
+  ('Library / media center entries are well-defined and monitored by staff/volunteers', 'library_media_center_entries'),
+  ('Locker rooms and shower areas are easily monitored by staff', 'locker_rooms_shower_areas'),
+  ('Access to the cafeteria kitchen and serving areas is limited to authorized staff', 'access_cafeteria_kitchen_serving'),
+  ('Cafeteria entrances are secured when the room is not in use', 'cafeteria_entrances_secured_room'),
+  ('Gymnasium entrances are secured when the room is not in use', 'gymnasium_entrances_secured_room'),
+  ('Light controls in gym and locker rooms are secured to prevent unauthorized access', 'light_controls_gym_locker'),
+  ('Auditorium backstage, sound booth, and production areas are secured when not in use', 'auditorium_backstage_sound_booth'),
+  ('CTE / shop / lab spaces (if present) have controlled access and secured tool storage', 'cte_shop_lab_spaces'),
+  ('Cafeteria has authorized adults visible during meal periods', 'cafeteria_authorized_adults_visible'),
+  ('Posted rules or code of conduct displayed at entries to gym, cafeteria, and library', 'posted_rules_code_conduct'),
+  ('Cafeteria, auditorium, gymnasium, and library are in good condition', 'cafeteria_auditorium_gymnasium_library'),
+  ('Sufficient table spacing in the cafeteria allows orderly circulation', 'sufficient_table_spacing_cafeteria'),
+  ('Locker rooms are well lit in all areas including shower and restroom zones', 'locker_rooms_well_lit'),
+  ('Athletic equipment and supply storage rooms are locked when not in use', 'athletic_equipment_supply_storage'),
+  ('Multi-stall restroom entries use an open zigzag / maze design rather than a single solid door', 'multi_stall_restroom_entries'),
+  ('Restroom entries are easily viewed from other active areas', 'restroom_entries_easily_viewed'),
+  ('Restrooms with solid doors have vents that allow auditory surveillance', 'restrooms_solid_doors_vents'),
+  ('Restroom light controls are secured to prevent unauthorized access', 'restroom_light_controls_secured'),
+  ('Electrical panels, mechanical rooms, and utility closets are locked', 'electrical_panels_mechanical_rooms'),
+  ('IT / server room access is restricted to authorized personnel and logged', 'server_room_access_restricted'),
+  ('Roof access hatches are secured and alarmed', 'roof_access_hatches_secured'),
+  ('Restroom stall doors, hardware, and locks are in good condition', 'restroom_stall_doors_hardware'),
+  ('Restrooms are well lit with no unusually foul odors', 'restrooms_well_lit_no'),
+  ('Restroom ceiling treatments do not provide access to a hiding place', 'restroom_ceiling_treatments_do'),
+  ('Toilets, urinals, lavatories, and fixtures are in good condition', 'toilets_urinals_lavatories_fixtures'),
+  ('Camera coverage exists at all primary entries, main corridors, parking lots, and bus loading / drop-off zones', 'camera_coverage_exists_primary'),
+  ('Camera system records continuously with adequate storage (minimum 30 days) and accurate timestamps', 'camera_system_records_continuously_adequate'),
+  ('A dedicated monitoring point (SRO office, front desk, or admin) provides real-time camera view during school hours', 'dedicated_monitoring_point_sro'),
+  ('Alyssa''s Law Mobile Panic Alert System (MPAS) is installed and staff have been trained; alert integrates directly with local PSAP (911)', 'alyssa_law_mobile_panic'),
+  ('Digital school mapping data (HB 301) has been provided to the Sheriff''s Office and first responders', 'digital_school_mapping_data'),
+  ('Electronic access control / badge system is used for staff entry to controlled areas', 'electronic_access_control_badge'),
+  ('Key control system is in place (master keys tracked, locks re-keyed when staff leave, spare keys secured)', 'key_control_system_place_master'),
+  ('Single-alert activation automatically triggers campus lockdown and notification across intercom, digital signage, and staff devices', 'single_alert_activation_automatically'),
+  ('School Safety Specialist is appointed and all staff know who that person is', 'school_safety_specialist_appointed'),
+  ('Threat Assessment Team is established and meets per state requirements (Marjory Stoneman Douglas Act)', 'threat_assessment_team_established'),
+  ('School Resource Officer or Guardian coverage is in place for all student hours, matching campus population and footprint', 'school_resource_officer_guardian'),
+  ('FortifyFL (anonymous tip line) is posted and publicized to students and staff', 'fortifyfl_anonymous_tip_line'),
+  ('Two-way radios or equivalent communication devices are available to administration, SRO/Guardian, and duty staff', 'two_way_radios_equivalent'),
+  ('Multi-hazard evacuation plan is current, reviewed annually with law enforcement and fire, and posted as required', 'multi_hazard_evacuation_plan'),
+  ('Reunification site and procedure are established, documented, and known to staff and families', 'reunification_site_procedure_established'),
+  ('Lockdown, fire, and severe-weather drills have been conducted on the state-required schedule', 'lockdown_fire_severe_weather'),
+  ('Mass-notification system (intercom, digital signage, SMS) is tested and functional', 'mass_notification_system_intercom')
+) AS k(item_text, item_key)
+WHERE s."item_text" = k.item_text AND s."item_key" IS NULL;
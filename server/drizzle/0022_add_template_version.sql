@@ -0,0 +1,6 @@
+-- The checklist template version each assessment was created with, so that
+-- retiring or rewording an item in cpted-checklist never changes the report of
+-- an assessment already walked. Every assessment before this was created on
+-- version 1, which is what the checklist as it stands now is numbered; hence
+-- NOT NULL DEFAULT 1 rather than a backfill.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "template_version" integer DEFAULT 1 NOT NULL;
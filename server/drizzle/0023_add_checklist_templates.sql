@@ -0,0 +1,26 @@
+-- Checklist templates edited and published from the PWA's template editor
+-- instead of the zone files in cpted-checklist. A template that has never been
+-- published has no rows here and keeps its bundled data.
+--
+-- Drafts and published versions share the table: a draft is the one row with
+-- status 'draft' (at most one per template), and publishing turns it into the
+-- next version rather than copying it. Published rows are never edited again;
+-- each carries the revision it recorded, which is how an iPad rebuilds an
+-- older version for an assessment pinned to it.
+CREATE TABLE IF NOT EXISTS "checklist_templates" (
+  "id" uuid PRIMARY KEY NOT NULL,
+  "template_id" varchar(30) NOT NULL,
+  "status" varchar(20) DEFAULT 'draft' NOT NULL,
+  "version" integer,
+  "base_version" integer NOT NULL,
+  "document" jsonb NOT NULL,
+  "summary" text DEFAULT '' NOT NULL,
+  "changes" jsonb,
+  "created_by" text,
+  "created_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+  "published_by" text,
+  "published_at" timestamp with time zone
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "checklist_templates_version_idx" ON "checklist_templates" ("template_id", "version");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "checklist_templates_draft_idx" ON "checklist_templates" ("template_id") WHERE "status" = 'draft';
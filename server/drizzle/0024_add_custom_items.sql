@@ -0,0 +1,6 @@
+-- Items an assessor adds to one assessment for something the template doesn't
+-- anticipate (a pool gate, a drive-through ATM). They are ordinary item rows
+-- with no item_key; these columns say so and hold the assessor's guidance.
+-- Every row before this came from a template, hence DEFAULT false.
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "is_custom" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "custom_guidance" text DEFAULT '' NOT NULL;
@@ -0,0 +1,5 @@
+-- Multi-building campuses: the buildings beyond the main one, each repeating
+-- some of the template's zones under zone keys ending "@<building id>", and
+-- the main building's name. Every assessment before this was one building.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "buildings" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "main_building_name" text DEFAULT '' NOT NULL;
@@ -0,0 +1,5 @@
+-- The site-fact intake: the yes/no answers about a property, and on each item
+-- an answer ruled out, the reason it was marked N/A. Assessments before this
+-- have no answers and no N/As but the assessor's own.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "site_facts" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "item_scores" ADD COLUMN IF NOT EXISTS "na_reason" text DEFAULT '' NOT NULL;
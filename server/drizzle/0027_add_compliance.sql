@@ -0,0 +1,26 @@
+-- School compliance: percent of observable items met (rated Yes, over those
+-- rated Yes or No; N/A and Unable to Observe left out), per zone and overall.
+-- Backfilled from the ratings already here so the district roll-up covers the
+-- schools assessed before it; every other type has no ratings and stays null.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "compliance_pct" real;--> statement-breakpoint
+ALTER TABLE "zone_scores" ADD COLUMN IF NOT EXISTS "compliance_pct" real;--> statement-breakpoint
+UPDATE "zone_scores" AS z SET "compliance_pct" = c.pct
+FROM (
+  SELECT "assessment_id", "zone_key",
+    100.0 * count(*) FILTER (WHERE "rating" = 'yes')
+      / nullif(count(*) FILTER (WHERE "rating" IN ('yes', 'no')), 0) AS pct
+  FROM "item_scores"
+  WHERE NOT "is_na"
+  GROUP BY "assessment_id", "zone_key"
+) AS c
+WHERE z."assessment_id" = c."assessment_id" AND z."zone_key" = c."zone_key";--> statement-breakpoint
+UPDATE "assessments" AS a SET "compliance_pct" = c.pct
+FROM (
+  SELECT "assessment_id",
+    100.0 * count(*) FILTER (WHERE "rating" = 'yes')
+      / nullif(count(*) FILTER (WHERE "rating" IN ('yes', 'no')), 0) AS pct
+  FROM "item_scores"
+  WHERE NOT "is_na"
+  GROUP BY "assessment_id"
+) AS c
+WHERE a."id" = c."assessment_id";
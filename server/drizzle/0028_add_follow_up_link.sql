@@ -0,0 +1,5 @@
+-- A follow-up assessment names the assessment whose recommendations it checks
+-- on, so its report can print where each of them stands. Not a foreign key: a
+-- follow-up may reach the server before the assessment it follows does, and
+-- outlives it if that one is deleted.
+ALTER TABLE "assessments" ADD COLUMN IF NOT EXISTS "follows_assessment_id" uuid;
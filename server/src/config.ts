@@ -1,5 +1,19 @@
 import 'dotenv/config';
 
+/**
+ * CORS_ORIGIN, parsed. Unset means same-origin only: nginx serves the PWA and
+ * proxies /api on one host, so nothing legitimate needs a cross-origin grant.
+ * A comma-separated list allows exactly those origins; "*" is still accepted
+ * for a development box, but has to be asked for.
+ */
+function parseCorsOrigin(raw: string | undefined): boolean | string | string[] {
+  const value = (raw ?? '').trim();
+  if (value === '') return false;
+  if (value === '*') return '*';
+  const list = value.split(',').map((o) => o.trim()).filter(Boolean);
+  return list.length === 1 ? list[0] : list;
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '3001', 10),
   database: {
@@ -13,6 +27,12 @@ export const config = {
   reportDir: process.env.REPORT_DIR || '/data/reports',
   crimeReportDir: process.env.CRIME_REPORT_DIR || '/data/crime-reports',
   cors: {
-    origin: process.env.CORS_ORIGIN || '*',
+    origin: parseCorsOrigin(process.env.CORS_ORIGIN),
+  },
+  auth: {
+    // Days, not minutes: an assessor signs in at the start of a site visit and
+    // may not see Wi-Fi again until the evening. A session that lapsed mid-walk
+    // would only surface as a failed sync, long after anyone could sign in.
+    sessionTtlHours: parseInt(process.env.SESSION_TTL_HOURS || '168', 10),
   },
 } as const;
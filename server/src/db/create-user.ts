@@ -0,0 +1,81 @@
+/**
+ * Issue or reset an assessor account from the command line.
+ *
+ *   docker compose exec app node dist/db/create-user.js <username> "<Display Name>" [badge_id] [role]
+ *   npm run user:create -- <username> "<Display Name>" [badge_id] [role]        (development)
+ *
+ * The password is read from CPTED_PASSWORD rather than argv, so it never lands
+ * in shell history or `ps`. Running it for an existing username replaces that
+ * account's password, reactivates it, and signs it out everywhere — which is
+ * also the whole "forgot my password" procedure.
+ *
+ * role is assessor (the default), supervisor, analyst or admin; pass "" for
+ * badge_id to set a role without one. Re-running without a role leaves an
+ * existing account's role alone, so a password reset cannot demote anybody.
+ */
+
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db, pool } from './connection.js';
+import { users, sessions } from './schema.js';
+import { ROLES, hashPassword, isRole, normalizeUsername } from '../services/auth.js';
+
+async function main(): Promise<void> {
+  const [rawUsername, displayName, badgeId, rawRole] = process.argv.slice(2);
+  const password = process.env.CPTED_PASSWORD ?? '';
+
+  if (!rawUsername || !displayName) {
+    console.error(
+      'Usage: create-user <username> "<Display Name>" [badge_id] [role]  (password in CPTED_PASSWORD)',
+    );
+    process.exitCode = 1;
+    return;
+  }
+  if (rawRole && !isRole(rawRole)) {
+    console.error(`Role must be one of: ${ROLES.join(', ')}.`);
+    process.exitCode = 1;
+    return;
+  }
+  const role = isRole(rawRole) ? rawRole : undefined;
+  if (password.length < 10) {
+    console.error('CPTED_PASSWORD must be set and at least 10 characters.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const username = normalizeUsername(rawUsername);
+  const password_hash = await hashPassword(password);
+  const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.username, username));
+
+  if (existing) {
+    await db
+      .update(users)
+      .set({
+        display_name: displayName,
+        badge_id: badgeId || null,
+        password_hash,
+        active: true,
+        ...(role ? { role } : {}),
+      })
+      .where(eq(users.id, existing.id));
+    await db.delete(sessions).where(eq(sessions.user_id, existing.id));
+    console.log(`Updated ${username}; existing sessions signed out.`);
+  } else {
+    await db.insert(users).values({
+      id: uuidv4(),
+      username,
+      display_name: displayName,
+      badge_id: badgeId || null,
+      password_hash,
+      role: role ?? 'assessor',
+    });
+    console.log(`Created ${username} (${role ?? 'assessor'}).`);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
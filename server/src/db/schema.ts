@@ -9,6 +9,7 @@ import {
   doublePrecision,
   timestamp,
   jsonb,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
 
 export const assessments = pgTable('assessments', {
@@ -37,6 +38,9 @@ export const assessments = pgTable('assessments', {
   // UTC midnight and renders as the previous day in Eastern.
   report_signed_on: varchar('report_signed_on', { length: 10 }),
   overall_score: real('overall_score'),
+  // Schools: percent of observable items met (Yes over Yes plus No), 0–100.
+  // Null for every other type. See calculateCompliance in cpted-checklist.
+  compliance_pct: real('compliance_pct'),
   top_recommendations: jsonb('top_recommendations').notNull().default([]),
   quick_wins: jsonb('quick_wins').notNull().default([]),
   notes: text('notes').notNull().default(''),
@@ -45,6 +49,25 @@ export const assessments = pgTable('assessments', {
   // JSON blob rather than a dozen columns: it is a single approved page that
   // moves as a unit, and jsonb is already how recommendations are stored.
   school_profile: jsonb('school_profile'),
+  // The checklist template version the assessment was created with; it is
+  // printed against that version until an assessor upgrades it on the iPad.
+  // See template-versions.ts in cpted-checklist.
+  template_version: integer('template_version').notNull().default(1),
+  // A follow-up: the assessment whose recommendations it checks on, for the
+  // report's status table. Not a foreign key — see
+  // drizzle/0028_add_follow_up_link.sql.
+  follows_assessment_id: uuid('follows_assessment_id'),
+  // A campus's buildings beyond the main one — [{ id, name, zone_keys }] —
+  // each repeating some template zones under zone keys ending "@<id>". jsonb
+  // like school_profile: the list is small and always read whole. See
+  // buildings.ts in cpted-checklist.
+  buildings: jsonb('buildings').notNull().default([]),
+  // What the main building (the template's own zones) is called; '' reads as
+  // "Main Building".
+  main_building_name: text('main_building_name').notNull().default(''),
+  // The site-fact intake's answers — { has_garage: false, ... }, a missing key
+  // being a question not yet answered. See site-facts.ts in cpted-checklist.
+  site_facts: jsonb('site_facts').notNull().default({}),
   // The device's own change counter for this assessment: 1 at creation, +1 on
   // every real edit made on that device. The iPads are shared, so a device
   // compares this against the revision it last saw here to tell whether its
@@ -71,8 +94,32 @@ export const assessments = pgTable('assessments', {
   // does not hit the UTC-midnight-renders-as-yesterday footgun.
   last_edited_at: timestamp('last_edited_at', { withTimezone: true }),
   synced_at: timestamp('synced_at', { withTimezone: true }),
+  // Supervisor review. Set only by the routes in routes/review.ts — never by
+  // sync, which cannot grant a device its own approval. The *_by columns are
+  // display names, like last_edited_by, so the record survives the account.
+  submitted_at: timestamp('submitted_at', { withTimezone: true }),
+  submitted_by: text('submitted_by'),
+  approved_at: timestamp('approved_at', { withTimezone: true }),
+  approved_by: text('approved_by'),
+  approved_by_id: uuid('approved_by_id'),
+  // The revision the supervisor approved. The report is final only while the
+  // content is still this revision; any later edit puts DRAFT back.
+  approved_revision: integer('approved_revision'),
 });
 
+/**
+ * Per-row edit stamp for the rows team mode merges one at a time. Same three
+ * columns, and the same rules, as on assessments — see
+ * drizzle/0019_add_row_revisions_and_zone_holds.sql.
+ */
+function rowRevision() {
+  return {
+    revision: integer('revision').notNull().default(1),
+    last_edited_by: text('last_edited_by'),
+    last_edited_at: timestamp('last_edited_at', { withTimezone: true }),
+  };
+}
+
 export const zoneScores = pgTable('zone_scores', {
   id: uuid('id').primaryKey(),
   assessment_id: uuid('assessment_id')
@@ -82,9 +129,11 @@ export const zoneScores = pgTable('zone_scores', {
   zone_name: varchar('zone_name', { length: 255 }).notNull(),
   zone_order: integer('zone_order').notNull(),
   average_score: real('average_score'),
+  compliance_pct: real('compliance_pct'),
   priority_findings: text('priority_findings').notNull().default(''),
   notes: text('notes').notNull().default(''),
   completed: boolean('completed').notNull().default(false),
+  ...rowRevision(),
 });
 
 export const itemScores = pgTable('item_scores', {
@@ -94,13 +143,25 @@ export const itemScores = pgTable('item_scores', {
     .references(() => assessments.id, { onDelete: 'cascade' }),
   zone_key: varchar('zone_key', { length: 50 }).notNull(),
   principle: varchar('principle', { length: 50 }).notNull(),
+  // The checklist item's permanent key (ZoneItem.key in cpted-checklist); null
+  // for a custom item, and for a row whose wording predates keys and no longer
+  // matches any item.
+  item_key: varchar('item_key', { length: 100 }),
   item_text: text('item_text').notNull(),
   item_order: integer('item_order').notNull(),
   score: integer('score'),
   rating: varchar('rating', { length: 10 }),
   is_na: boolean('is_na').notNull().default(false),
+  // Why a site-fact answer marked the item N/A ("No garage"); '' for an N/A
+  // the assessor chose, and for every item that is not N/A.
+  na_reason: text('na_reason').notNull().default(''),
   notes: text('notes').notNull().default(''),
   photo_ids: jsonb('photo_ids').notNull().default([]),
+  // An item an assessor added to this one assessment rather than one from the
+  // template, with the guidance they wrote for it ('' = none).
+  is_custom: boolean('is_custom').notNull().default(false),
+  custom_guidance: text('custom_guidance').notNull().default(''),
+  ...rowRevision(),
 });
 
 /**
@@ -146,6 +207,7 @@ export const photos = pgTable('photos', {
   compass_heading: real('compass_heading'),
   annotation_data: jsonb('annotation_data'),
   synced: boolean('synced').notNull().default(false),
+  ...rowRevision(),
 });
 
 /**
@@ -236,6 +298,7 @@ export const lightReadings = pgTable('light_readings', {
   measured_at: varchar('measured_at', { length: 40 }),
   meter_place: integer('meter_place'),
   source: varchar('source', { length: 20 }).notNull().default('imported'),
+  ...rowRevision(),
 });
 
 export const reports = pgTable('reports', {
@@ -261,3 +324,131 @@ export const recommendations = pgTable('recommendations', {
   timeline: varchar('timeline', { length: 255 }).notNull().default(''),
   type: varchar('type', { length: 20 }).notNull().default('recommendation'),
 });
+
+/**
+ * Assessor accounts. Issued by the agency with src/db/create-user.ts — there is
+ * no sign-up route. password_hash is the whole scrypt string, parameters
+ * included, so they can be raised without invalidating existing passwords.
+ */
+export const users = pgTable('users', {
+  id: uuid('id').primaryKey(),
+  /** Stored lower-cased; login lower-cases what it is given to match. */
+  username: varchar('username', { length: 100 }).notNull().unique(),
+  display_name: varchar('display_name', { length: 255 }).notNull(),
+  badge_id: varchar('badge_id', { length: 50 }),
+  password_hash: text('password_hash').notNull(),
+  /** assessor | supervisor | analyst | admin — see ROLES in services/auth.ts. */
+  role: varchar('role', { length: 20 }).notNull().default('assessor'),
+  /** Cleared instead of deleting the row, so past sessions stay attributable. */
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  last_login_at: timestamp('last_login_at', { withTimezone: true }),
+});
+
+/**
+ * Signed-in sessions. The bearer token itself is never stored — only its
+ * SHA-256 — so a copy of this table cannot be replayed.
+ */
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey(),
+  user_id: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  /** Fixed at sign-in; see SESSION_TTL_HOURS in config.ts. */
+  expires_at: timestamp('expires_at', { withTimezone: true }).notNull(),
+  /** The iPad's own name at sign-in, for telling sessions apart. */
+  device_name: text('device_name'),
+});
+
+/**
+ * Supervisor review comments. Neither zone_key nor item_score_id = the whole
+ * assessment; zone only = that zone; both = that item. item_score_id is not a
+ * foreign key because sync replaces item_scores wholesale, and a cascade would
+ * delete every comment on the next push.
+ */
+export const reviewComments = pgTable('review_comments', {
+  id: uuid('id').primaryKey(),
+  assessment_id: uuid('assessment_id')
+    .notNull()
+    .references(() => assessments.id, { onDelete: 'cascade' }),
+  zone_key: varchar('zone_key', { length: 50 }),
+  item_score_id: uuid('item_score_id'),
+  body: text('body').notNull(),
+  author_id: uuid('author_id'),
+  author_name: text('author_name').notNull(),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  resolved_at: timestamp('resolved_at', { withTimezone: true }),
+  resolved_by: text('resolved_by'),
+});
+
+/**
+ * Every state the server has accepted for an assessment, insert-only. See
+ * drizzle/0018_add_assessment_revisions.sql for what snapshot holds and what it
+ * deliberately leaves out, and services/revisions.ts for the shape.
+ */
+export const assessmentRevisions = pgTable('assessment_revisions', {
+  id: uuid('id').primaryKey(),
+  assessment_id: uuid('assessment_id')
+    .notNull()
+    .references(() => assessments.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(),
+  last_edited_by: text('last_edited_by'),
+  last_edited_at: timestamp('last_edited_at', { withTimezone: true }),
+  /** sync | edit | restore | baseline — which writer produced this state. */
+  source: varchar('source', { length: 20 }).notNull(),
+  /** The signed-in account that sent it (display name; the id may dangle). */
+  pushed_by: text('pushed_by'),
+  pushed_by_id: uuid('pushed_by_id'),
+  overall_score: real('overall_score'),
+  scored_items: integer('scored_items').notNull().default(0),
+  snapshot: jsonb('snapshot').notNull(),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Which device is walking which zone in team mode. Advisory — see
+ * drizzle/0019_add_row_revisions_and_zone_holds.sql.
+ */
+export const zoneHolds = pgTable(
+  'zone_holds',
+  {
+    assessment_id: uuid('assessment_id')
+      .notNull()
+      .references(() => assessments.id, { onDelete: 'cascade' }),
+    zone_key: varchar('zone_key', { length: 50 }).notNull(),
+    held_by: text('held_by').notNull(),
+    held_by_user: text('held_by_user'),
+    held_at: timestamp('held_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [primaryKey({ columns: [t.assessment_id, t.zone_key] })],
+);
+
+/**
+ * Checklist templates authored in the template editor. One draft at most per
+ * template, and every published version kept — the iPads rebuild older
+ * versions from the published revisions. See
+ * drizzle/0023_add_checklist_templates.sql and cpted-checklist's
+ * published-templates.ts.
+ */
+export const checklistTemplates = pgTable('checklist_templates', {
+  id: uuid('id').primaryKey(),
+  /** TemplateId: residential | townhome | worship | christian | school | commercial_office. */
+  template_id: varchar('template_id', { length: 30 }).notNull(),
+  /** draft | published. */
+  status: varchar('status', { length: 20 }).notNull().default('draft'),
+  /** The version it was published as; null while a draft. */
+  version: integer('version'),
+  /** The version the draft was started from — publishing refuses a stale one. */
+  base_version: integer('base_version').notNull(),
+  document: jsonb('document').notNull(),
+  summary: text('summary').notNull().default(''),
+  /** The revision publishing recorded (ItemMigration[]); null while a draft. */
+  changes: jsonb('changes'),
+  created_by: text('created_by'),
+  created_at: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updated_at: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  published_by: text('published_by'),
+  published_at: timestamp('published_at', { withTimezone: true }),
+});
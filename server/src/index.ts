@@ -3,12 +3,23 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { config } from './config.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { requireAuth } from './middleware/auth.js';
 import { runMigrations } from './db/migrate.js';
+import { migrateInFlightAssessments } from './services/template-migration.js';
+import { installStoredTemplates } from './services/checklist-templates.js';
 import assessmentRoutes from './routes/assessments.js';
 import photoRoutes from './routes/photos.js';
 import syncRoutes from './routes/sync.js';
 import reportRoutes from './routes/reports.js';
 import crimeReportRoutes from './routes/crime-reports.js';
+import authRoutes from './routes/auth.js';
+import reviewRoutes from './routes/review.js';
+import revisionRoutes from './routes/revisions.js';
+import zoneHoldRoutes from './routes/zone-holds.js';
+import searchRoutes from './routes/search.js';
+import templateRoutes from './routes/templates.js';
+import schoolRoutes from './routes/schools.js';
+import recommendationRoutes from './routes/recommendations.js';
 
 const app = express();
 
@@ -22,12 +33,27 @@ app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Sign-in is the one route that must answer without a session.
+app.use('/api', authRoutes);
+
+// Everything below holds school vulnerability findings or can overwrite an
+// assessment, so none of it answers without a signed-in assessor. Applied here,
+// once, rather than per router, so a route added later is covered by default.
+app.use('/api', requireAuth);
+
 // Routes
 app.use('/api/assessments', assessmentRoutes);
 app.use('/api', photoRoutes);
 app.use('/api', syncRoutes);
 app.use('/api', reportRoutes);
 app.use('/api', crimeReportRoutes);
+app.use('/api', reviewRoutes);
+app.use('/api', revisionRoutes);
+app.use('/api', zoneHoldRoutes);
+app.use('/api', searchRoutes);
+app.use('/api', templateRoutes);
+app.use('/api', schoolRoutes);
+app.use('/api', recommendationRoutes);
 
 // Error handler (must be last)
 app.use(errorHandler);
@@ -39,6 +65,14 @@ async function start() {
     console.warn('Migration skipped (DB may not be available):', (err as Error).message);
   }
 
+  // Published templates first: the migration brings assessments onto them.
+  try {
+    await installStoredTemplates();
+    await migrateInFlightAssessments();
+  } catch (err) {
+    console.warn('Checklist migration skipped:', (err as Error).message);
+  }
+
   app.listen(config.port, () => {
     console.log(`CPTED server listening on port ${config.port}`);
   });
@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from 'express';
+import { resolveSession, type AuthUser, type Role } from '../services/auth.js';
+
+declare global {
+  // Express's own extension point for per-request state.
+  namespace Express {
+    interface Request {
+      /** Set by requireAuth; absent on the public routes. */
+      user?: AuthUser;
+      sessionId?: string;
+    }
+  }
+}
+
+/**
+ * Reject any request without a live session.
+ *
+ * Bearer tokens rather than a cookie: the PWA already builds every request by
+ * hand in services/sync.ts, a header cannot be ridden by a cross-site form
+ * post, and it keeps working when the app is opened on either of its two
+ * origins.
+ *
+ * Every failure is the same 401 with the same message — missing, malformed,
+ * expired, revoked, or a deactivated account — so the PWA has exactly one case
+ * to handle ("sign in again") and a caller learns nothing about which it was.
+ */
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  try {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    const session = match ? await resolveSession(match[1]) : null;
+
+    if (!session) {
+      res.status(401).json({ error: 'Sign in required' });
+      return;
+    }
+
+    req.user = session.user;
+    req.sessionId = session.sessionId;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * Allow only the listed roles; mount after requireAuth. A 403 rather than a
+ * 401: the session is fine, and signing in again would not help.
+ */
+export function requireRole(...roles: Role[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      res.status(403).json({ error: 'Your account does not have permission to do that' });
+      return;
+    }
+    next();
+  };
+}
@@ -11,16 +11,27 @@ import {
   reports,
   lightSurveys,
   lightReadings,
+  reviewComments,
 } from '../db/schema.js';
-import { getZonesForType } from '../data/zone-registry.js';
+import { getTemplateVersion, getZonesForType } from 'cpted-checklist';
 import { config } from '../config.js';
+import { requireRole } from '../middleware/auth.js';
+import { CLEARED_APPROVAL, isReviewStatus } from '../services/review.js';
+import { ensureBaselineSnapshot, snapshotAssessment } from '../services/revisions.js';
+import {
+  listAssessments,
+  listFilters,
+  listOrder,
+  parseListQuery,
+  wantsPage,
+} from '../services/assessment-list.js';
 import fs from 'fs/promises';
 import path from 'path';
 
 const router = Router();
 
 // POST /api/assessments — Create a new assessment with all zone_scores + item_scores
-router.post('/', async (req, res, next) => {
+router.post('/', requireRole('assessor', 'supervisor', 'admin'), async (req, res, next) => {
   try {
     const id = req.body.id || uuidv4();
     const now = new Date();
@@ -30,7 +41,9 @@ router.post('/', async (req, res, next) => {
       id,
       created_at: now,
       updated_at: now,
-      status: req.body.status || 'in_progress',
+      // Review statuses are granted by routes/review.ts, never at creation.
+      status:
+        req.body.status && !isReviewStatus(req.body.status) ? req.body.status : 'in_progress',
       property_type: req.body.property_type || 'single_family_residential',
       address: req.body.address,
       city: req.body.city,
@@ -42,6 +55,7 @@ router.post('/', async (req, res, next) => {
       assessor_name: req.body.assessor_name,
       assessor_badge_id: req.body.assessor_badge_id || null,
       assessment_type: req.body.assessment_type || 'initial',
+      follows_assessment_id: req.body.follows_assessment_id || null,
       weather_conditions: req.body.weather_conditions || '',
       time_of_assessment: req.body.time_of_assessment || 'daytime',
       date_of_assessment: req.body.date_of_assessment,
@@ -50,6 +64,7 @@ router.post('/', async (req, res, next) => {
       top_recommendations: req.body.top_recommendations || [],
       quick_wins: req.body.quick_wins || [],
       notes: req.body.notes || '',
+      template_version: getTemplateVersion(req.body.property_type || 'single_family_residential'),
     });
 
     // Create zone_scores for all zones (resolved by property type)
@@ -73,6 +88,7 @@ router.post('/', async (req, res, next) => {
       assessment_id: string;
       zone_key: string;
       principle: string;
+      item_key: string;
       item_text: string;
       item_order: number;
       score: null;
@@ -83,13 +99,14 @@ router.post('/', async (req, res, next) => {
     let globalOrder = 0;
     for (const zone of propertyZones) {
       for (const principle of zone.principles) {
-        for (const itemText of principle.items) {
+        for (const item of principle.items) {
           itemRows.push({
             id: uuidv4(),
             assessment_id: id,
             zone_key: zone.key,
             principle: principle.key,
-            item_text: itemText,
+            item_key: item.key,
+            item_text: item.text,
             item_order: globalOrder++,
             score: null,
             is_na: false,
@@ -107,23 +124,31 @@ router.post('/', async (req, res, next) => {
   }
 });
 
-// GET /api/assessments — List all assessments
+// GET /api/assessments — List assessments
+//
+// Query: q, status, property_type, assessment_type, assessor, from, to,
+// min_score, max_score, ids, sort, order, limit, cursor (services/assessment-list.ts).
+//
+// With limit or cursor the answer is a page, { assessments, next_cursor, total },
+// of list columns only. Without either it is the old bare array of whole rows,
+// filtered and sorted the same way, for iPads still running a build from
+// before paging — a PWA that has not reloaded since the server was deployed.
 router.get('/', async (req, res, next) => {
   try {
-    const statusFilter = req.query.status as string | undefined;
-    let rows;
-    if (statusFilter) {
-      rows = await db
-        .select()
-        .from(assessments)
-        .where(eq(assessments.status, statusFilter))
-        .orderBy(assessments.created_at);
-    } else {
-      rows = await db
-        .select()
-        .from(assessments)
-        .orderBy(assessments.created_at);
+    const parsed = parseListQuery(req.query);
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    if (wantsPage(req.query)) {
+      res.json(await listAssessments(parsed.query));
+      return;
     }
+    const rows = await db
+      .select()
+      .from(assessments)
+      .where(listFilters(parsed.query))
+      .orderBy(...listOrder(parsed.query));
     res.json(rows);
   } catch (err) {
     next(err);
@@ -143,7 +168,7 @@ router.get('/:id', async (req, res, next) => {
       return;
     }
 
-    const [zones, items, photoRows, crimeReportRows, surveys, readings] = await Promise.all([
+    const [zones, items, photoRows, crimeReportRows, surveys, readings, comments] = await Promise.all([
       db.select().from(zoneScores).where(eq(zoneScores.assessment_id, req.params.id)),
       db.select().from(itemScores).where(eq(itemScores.assessment_id, req.params.id)),
       db
@@ -170,6 +195,11 @@ router.get('/:id', async (req, res, next) => {
         .where(eq(crimeReports.assessment_id, req.params.id)),
       db.select().from(lightSurveys).where(eq(lightSurveys.assessment_id, req.params.id)),
       db.select().from(lightReadings).where(eq(lightReadings.assessment_id, req.params.id)),
+      db
+        .select()
+        .from(reviewComments)
+        .where(eq(reviewComments.assessment_id, req.params.id))
+        .orderBy(reviewComments.created_at),
     ]);
 
     // School ratings ('yes'/'no'/'uto') are stored in the separate rating
@@ -189,6 +219,9 @@ router.get('/:id', async (req, res, next) => {
       crime_reports: crimeReportRows,
       light_surveys: surveys,
       light_readings: readings,
+      // Read-only on the device: comments are written through routes/review.ts
+      // and never ride the sync payload back up.
+      review_comments: comments,
     });
   } catch (err) {
     next(err);
@@ -196,24 +229,31 @@ router.get('/:id', async (req, res, next) => {
 });
 
 // PUT /api/assessments/:id — Update assessment metadata, scores, recommendations
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', requireRole('supervisor', 'admin'), async (req, res, next) => {
   try {
     const [existing] = await db
       .select()
       .from(assessments)
-      .where(eq(assessments.id, req.params.id));
+      .where(eq(assessments.id, req.params.id as string));
 
     if (!existing) {
       res.status(404).json({ error: 'Assessment not found' });
       return;
     }
 
+    // Submit, return and approve each have a route of their own that checks
+    // the transition; setting the status directly would skip that.
+    if (isReviewStatus(req.body.status) && req.body.status !== existing.status) {
+      res.status(400).json({ error: `Use the review endpoints to set status '${req.body.status}'` });
+      return;
+    }
+
     const updates: Record<string, unknown> = { updated_at: new Date() };
     const allowedFields = [
       'status', 'address', 'city', 'state', 'zip',
       'homeowner_name', 'homeowner_contact', 'contact_phone', 'assessor_name', 'assessor_badge_id',
       'assessment_type', 'weather_conditions', 'time_of_assessment', 'date_of_assessment',
-      'report_signed_on', 'school_profile',
+      'report_signed_on', 'school_profile', 'follows_assessment_id',
       'overall_score', 'top_recommendations', 'quick_wins', 'notes',
     ];
 
@@ -245,44 +285,63 @@ router.put('/:id', async (req, res, next) => {
       // clock is the honest edit time.
       updates.last_edited_at = new Date();
       updates.last_edited_by = (req.body.last_edited_by as string) ?? null;
+      // Same rule as sync (services/review.ts): an approval covers the content
+      // the supervisor read, and this is no longer it.
+      if (existing.status === 'approved') {
+        Object.assign(updates, CLEARED_APPROVAL);
+        if (updates.status === undefined || updates.status === 'approved') {
+          updates.status = 'completed';
+        }
+      }
     }
 
-    const [updated] = await db
-      .update(assessments)
-      .set(updates)
-      .where(eq(assessments.id, req.params.id))
-      .returning({ revision: assessments.revision });
-
-    // Update zone_scores if provided
-    if (req.body.zone_scores) {
-      for (const zs of req.body.zone_scores) {
-        await db
-          .update(zoneScores)
-          .set({
-            average_score: zs.average_score,
-            priority_findings: zs.priority_findings ?? '',
-            notes: zs.notes ?? '',
-            completed: zs.completed ?? false,
-          })
-          .where(eq(zoneScores.id, zs.id));
+    // One transaction with the history row, so the history cannot miss an
+    // edit that committed (services/revisions.ts).
+    const updated = await db.transaction(async (tx) => {
+      await ensureBaselineSnapshot(tx, req.params.id as string);
+
+      const [row] = await tx
+        .update(assessments)
+        .set(updates)
+        .where(eq(assessments.id, req.params.id as string))
+        .returning({ revision: assessments.revision });
+
+      // Update zone_scores if provided
+      if (req.body.zone_scores) {
+        for (const zs of req.body.zone_scores) {
+          await tx
+            .update(zoneScores)
+            .set({
+              average_score: zs.average_score,
+              priority_findings: zs.priority_findings ?? '',
+              notes: zs.notes ?? '',
+              completed: zs.completed ?? false,
+            })
+            .where(eq(zoneScores.id, zs.id));
+        }
       }
-    }
 
-    // Update item_scores if provided
-    if (req.body.item_scores) {
-      for (const is of req.body.item_scores) {
-        await db
-          .update(itemScores)
-          .set({
-            score: typeof is.score === 'number' ? is.score : null,
-            rating: typeof is.score === 'string' ? is.score : null,
-            is_na: is.is_na ?? false,
-            notes: is.notes ?? '',
-            photo_ids: is.photo_ids ?? [],
-          })
-          .where(eq(itemScores.id, is.id));
+      // Update item_scores if provided
+      if (req.body.item_scores) {
+        for (const is of req.body.item_scores) {
+          await tx
+            .update(itemScores)
+            .set({
+              score: typeof is.score === 'number' ? is.score : null,
+              rating: typeof is.score === 'string' ? is.score : null,
+              is_na: is.is_na ?? false,
+              notes: is.notes ?? '',
+              photo_ids: is.photo_ids ?? [],
+            })
+            .where(eq(itemScores.id, is.id));
+        }
       }
-    }
+
+      if (changedFields || changedScores) {
+        await snapshotAssessment(tx, req.params.id as string, 'edit', req.user);
+      }
+      return row;
+    });
 
     res.json({ updated: true, revision: updated?.revision ?? null });
   } catch (err) {
@@ -291,28 +350,28 @@ router.put('/:id', async (req, res, next) => {
 });
 
 // DELETE /api/assessments/:id — Cascade delete + remove photo/report files
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', requireRole('admin'), async (req, res, next) => {
   try {
     // Get photo and report paths before deleting
     const photoRows = await db
       .select({ blob_path: photos.blob_path })
       .from(photos)
-      .where(eq(photos.assessment_id, req.params.id));
+      .where(eq(photos.assessment_id, req.params.id as string));
 
     const reportRows = await db
       .select({ blob_path: reports.blob_path })
       .from(reports)
-      .where(eq(reports.assessment_id, req.params.id));
+      .where(eq(reports.assessment_id, req.params.id as string));
 
     const crimeRows = await db
       .select({ blob_path: crimeReports.blob_path })
       .from(crimeReports)
-      .where(eq(crimeReports.assessment_id, req.params.id));
+      .where(eq(crimeReports.assessment_id, req.params.id as string));
 
     // CASCADE delete handles all related rows
     const result = await db
       .delete(assessments)
-      .where(eq(assessments.id, req.params.id))
+      .where(eq(assessments.id, req.params.id as string))
       .returning({ id: assessments.id });
 
     if (result.length === 0) {
@@ -349,8 +408,8 @@ router.delete('/:id', async (req, res, next) => {
 
     // Try to remove the assessment photo and report directories
     for (const dir of [
-      path.join(config.photoDir, req.params.id),
-      path.join(config.reportDir, req.params.id),
+      path.join(config.photoDir, req.params.id as string),
+      path.join(config.reportDir, req.params.id as string),
     ]) {
       try {
         await fs.rmdir(dir);
@@ -0,0 +1,82 @@
+/**
+ * Sign in, sign out, and "who am I".
+ *
+ * Mounted ahead of requireAuth for /auth/login only; the other two need a
+ * session by definition.
+ */
+
+import { Router } from 'express';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { users } from '../db/schema.js';
+import {
+  createSession,
+  deleteSession,
+  getDecoyHash,
+  isRole,
+  normalizeUsername,
+  verifyPassword,
+} from '../services/auth.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = Router();
+
+// POST /api/auth/login — { username, password, device_name? } → token + account
+router.post('/auth/login', async (req, res, next) => {
+  try {
+    const username = typeof req.body?.username === 'string' ? normalizeUsername(req.body.username) : '';
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    if (!username || !password) {
+      res.status(400).json({ error: 'Username and password are required' });
+      return;
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+
+    // Verify against a decoy when there is no such account, so both paths
+    // cost one scrypt and the response time does not say which usernames exist.
+    const ok = await verifyPassword(password, user?.password_hash ?? (await getDecoyHash()));
+    if (!user || !ok || !user.active) {
+      res.status(401).json({ error: 'Incorrect username or password' });
+      return;
+    }
+
+    const deviceName =
+      typeof req.body.device_name === 'string' && req.body.device_name.trim()
+        ? req.body.device_name.trim()
+        : null;
+    const { token, expires_at } = await createSession(user.id, deviceName);
+    await db.update(users).set({ last_login_at: new Date() }).where(eq(users.id, user.id));
+
+    res.json({
+      token,
+      expires_at: expires_at.toISOString(),
+      user: {
+        id: user.id,
+        username: user.username,
+        display_name: user.display_name,
+        badge_id: user.badge_id,
+        role: isRole(user.role) ? user.role : 'analyst',
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/auth/logout — end this session (other devices stay signed in)
+router.post('/auth/logout', requireAuth, async (req, res, next) => {
+  try {
+    if (req.sessionId) await deleteSession(req.sessionId);
+    res.json({ signed_out: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/auth/me — the account behind this token
+router.get('/auth/me', requireAuth, (req, res) => {
+  res.json({ user: req.user });
+});
+
+export default router;
@@ -5,6 +5,9 @@
  * stored on disk and only its metadata in the database, because the report
  * merges the analyst's pages in byte-for-byte and a JSON round trip through
  * base64 would inflate it by a third for no gain.
+ *
+ * Open to every role, analyst included: attaching the crime report is the
+ * analyst's whole part in an assessment.
  */
 
 import { Router } from 'express';
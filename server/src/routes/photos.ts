@@ -7,6 +7,7 @@ import path from 'path';
 import { db } from '../db/connection.js';
 import { photos } from '../db/schema.js';
 import { config } from '../config.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -26,6 +27,7 @@ const upload = multer({
 // POST /api/assessments/:assessmentId/photos — Upload a photo
 router.post(
   '/assessments/:assessmentId/photos',
+  requireRole('assessor', 'supervisor', 'admin'),
   upload.single('photo'),
   async (req, res, next) => {
     try {
@@ -68,6 +70,15 @@ router.post(
           ? JSON.parse(req.body.annotation_data)
           : null,
         synced: true,
+        // The photo's own edit stamp (team mode). Absent from older PWAs, which
+        // leaves the column defaults: revision 1, unidentified device.
+        ...(req.body.revision
+          ? {
+              revision: Number(req.body.revision) || 1,
+              last_edited_by: req.body.last_edited_by || null,
+              last_edited_at: req.body.last_edited_at ? new Date(req.body.last_edited_at) : null,
+            }
+          : {}),
       };
 
       const [existing] = await db
@@ -120,12 +131,12 @@ router.get('/photos/:id', async (req, res, next) => {
 });
 
 // DELETE /api/photos/:id — Delete photo file + DB record
-router.delete('/photos/:id', async (req, res, next) => {
+router.delete('/photos/:id', requireRole('assessor', 'supervisor', 'admin'), async (req, res, next) => {
   try {
     const [photo] = await db
       .select()
       .from(photos)
-      .where(eq(photos.id, req.params.id));
+      .where(eq(photos.id, req.params.id as string));
 
     if (!photo) {
       res.status(404).json({ error: 'Photo not found' });
@@ -133,7 +144,7 @@ router.delete('/photos/:id', async (req, res, next) => {
     }
 
     // Delete from DB
-    await db.delete(photos).where(eq(photos.id, req.params.id));
+    await db.delete(photos).where(eq(photos.id, req.params.id as string));
 
     // Delete file from disk
     try {
@@ -0,0 +1,129 @@
+/**
+ * Recording what became of a recommendation, from the server: its status,
+ * target date and who is responsible (cpted-checklist's
+ * recommendation-status.ts). The follow-through usually arrives long after
+ * the iPad has moved on to other sites — a district emails to say the fence
+ * is in — so a supervisor records it here instead of finding the device.
+ *
+ * The fields live on the recommendation, inside the assessment's content, so
+ * this moves the revision like any edit — every iPad pulls it — and is
+ * snapshotted into the revision history. But it is follow-up, not a change to
+ * what the supervisor approved, so unlike the admin PUT it leaves an approval
+ * standing: a final report stays final at the new revision.
+ */
+
+import { Router } from 'express';
+import { eq, sql } from 'drizzle-orm';
+import { isRecommendationStatus, withRecommendationStatus } from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { assessments } from '../db/schema.js';
+import { requireRole } from '../middleware/auth.js';
+import { isApprovedFinal } from '../services/review.js';
+import { ensureBaselineSnapshot, snapshotAssessment } from '../services/revisions.js';
+import type { Recommendation } from '../types/index.js';
+
+const router = Router();
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// PATCH /api/assessments/:id/recommendations/:recId
+//   — { status?, note?, target_date?, responsible_party? }
+//
+// A status change is appended to the recommendation's history under the
+// signed-in user's name, with the note if one was given. A request that
+// changes nothing moves nothing.
+router.patch(
+  '/assessments/:id/recommendations/:recId',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const assessmentId = req.params.id as string;
+      const recId = req.params.recId as string;
+      const { status, note, target_date, responsible_party } = req.body ?? {};
+
+      if (status !== undefined && !isRecommendationStatus(status)) {
+        res.status(400).json({ error: `Unknown status '${status}'` });
+        return;
+      }
+      const validDate = target_date === null || (typeof target_date === 'string' && DATE_ONLY.test(target_date));
+      if (target_date !== undefined && !validDate) {
+        res.status(400).json({ error: 'target_date must be YYYY-MM-DD or null' });
+        return;
+      }
+      if (responsible_party !== undefined && typeof responsible_party !== 'string') {
+        res.status(400).json({ error: 'responsible_party must be text' });
+        return;
+      }
+
+      const result = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .select({
+            status: assessments.status,
+            revision: assessments.revision,
+            approved_revision: assessments.approved_revision,
+            top_recommendations: assessments.top_recommendations,
+            quick_wins: assessments.quick_wins,
+          })
+          .from(assessments)
+          .where(eq(assessments.id, assessmentId))
+          .for('update');
+        if (!row) return { error: 'Assessment not found' } as const;
+        // Under the row lock, as in sync, so a sync writing the first history
+        // row can't slip in between the check and the write.
+        await ensureBaselineSnapshot(tx, assessmentId);
+
+        const lists = {
+          top_recommendations: (row.top_recommendations as Recommendation[]) ?? [],
+          quick_wins: (row.quick_wins as Recommendation[]) ?? [],
+        };
+        const listKey = lists.top_recommendations.some((rec) => rec.id === recId)
+          ? 'top_recommendations'
+          : lists.quick_wins.some((rec) => rec.id === recId)
+            ? 'quick_wins'
+            : null;
+        if (!listKey) return { error: 'Recommendation not found' } as const;
+
+        const current = lists[listKey].find((rec) => rec.id === recId)!;
+        let updated: Recommendation = status
+          ? withRecommendationStatus(current, status, req.user!.display_name, typeof note === 'string' ? note : undefined)
+          : current;
+        if (target_date !== undefined && target_date !== (current.target_date ?? null)) {
+          updated = { ...updated, target_date };
+        }
+        if (responsible_party !== undefined && responsible_party.trim() !== (current.responsible_party ?? '')) {
+          updated = { ...updated, responsible_party: responsible_party.trim() };
+        }
+        if (updated === current) return { recommendation: current, revision: row.revision };
+
+        const updates: Record<string, unknown> = {
+          [listKey]: lists[listKey].map((rec) => (rec.id === recId ? updated : rec)),
+          revision: sql`${assessments.revision} + 1`,
+          updated_at: new Date(),
+          last_edited_at: new Date(),
+          last_edited_by: req.user!.display_name,
+        };
+        if (isApprovedFinal(row)) {
+          updates.approved_revision = sql`${assessments.revision} + 1`;
+        }
+
+        const [written] = await tx
+          .update(assessments)
+          .set(updates)
+          .where(eq(assessments.id, assessmentId))
+          .returning({ revision: assessments.revision });
+        await snapshotAssessment(tx, assessmentId, 'edit', req.user);
+        return { recommendation: updated, revision: written.revision };
+      });
+
+      if ('error' in result) {
+        res.status(404).json({ error: result.error });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -7,6 +7,7 @@ import { db } from '../db/connection.js';
 import { reports, assessments } from '../db/schema.js';
 import { config } from '../config.js';
 import { generatePDFBuffer } from '../services/pdf.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -30,7 +31,7 @@ router.get('/assessments/:id/report', async (req, res, next) => {
 });
 
 // POST /api/assessments/:id/report/save — Generate and save PDF to disk
-router.post('/assessments/:id/report/save', async (req, res, next) => {
+router.post('/assessments/:id/report/save', requireRole('assessor', 'supervisor', 'admin'), async (req, res, next) => {
   try {
     const assessmentId = req.params.id as string;
 
@@ -0,0 +1,309 @@
+/**
+ * Submit for review, return with comments, approve — and the comments.
+ *
+ * The only writers of the server-owned statuses (see services/review.ts).
+ * Each transition is one conditional UPDATE ... WHERE status = <from>, so two
+ * supervisors acting on the same assessment at once cannot both win: the
+ * second finds nothing to update and is told the status has moved.
+ *
+ * None of these bump the revision. Review is about the content, not part of
+ * it, and bumping would tell every iPad there was something new to pull the
+ * moment a supervisor clicked Approve — and would make approved_revision
+ * disagree with revision at the very instant it was recorded.
+ */
+
+import { Router, type Response } from 'express';
+import { and, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/connection.js';
+import { assessments, reviewComments } from '../db/schema.js';
+import { requireRole } from '../middleware/auth.js';
+import { CLEARED_APPROVAL } from '../services/review.js';
+
+const router = Router();
+
+/** The review fields the PWA mirrors locally. */
+const reviewFields = {
+  id: assessments.id,
+  status: assessments.status,
+  revision: assessments.revision,
+  submitted_at: assessments.submitted_at,
+  submitted_by: assessments.submitted_by,
+  approved_at: assessments.approved_at,
+  approved_by: assessments.approved_by,
+  approved_revision: assessments.approved_revision,
+};
+
+/**
+ * A transition that matched no row: say why, so the PWA can tell "sync first"
+ * from "somebody else already acted".
+ */
+async function explainRefusal(
+  res: Response,
+  assessmentId: string,
+  action: string,
+  revision: number | null,
+): Promise<void> {
+  const [row] = await db.select(reviewFields).from(assessments).where(eq(assessments.id, assessmentId));
+  if (!row) {
+    res.status(404).json({ error: 'Assessment not found' });
+  } else if (revision !== null && row.revision !== revision) {
+    res.status(409).json({
+      error: `The server holds revision ${row.revision}, not ${revision}. Sync first, then ${action}.`,
+      review: row,
+    });
+  } else {
+    res.status(409).json({ error: `Cannot ${action} an assessment that is ${row.status}`, review: row });
+  }
+}
+
+function revisionOf(body: unknown): number | null {
+  const value = (body as { revision?: unknown } | undefined)?.revision;
+  return typeof value === 'number' && Number.isInteger(value) ? value : null;
+}
+
+// POST /api/assessments/:id/submit — { revision } — hand it to a supervisor
+//
+// The revision is required and must be the server's: submitting asks a
+// supervisor to read what is on the server, so the device has to have pushed
+// everything it holds first.
+router.post(
+  '/assessments/:id/submit',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const assessmentId = req.params.id as string;
+      const revision = revisionOf(req.body);
+      if (revision === null) {
+        res.status(400).json({ error: 'revision is required' });
+        return;
+      }
+
+      const [row] = await db
+        .update(assessments)
+        .set({
+          status: 'submitted',
+          submitted_at: new Date(),
+          submitted_by: req.user!.display_name,
+        })
+        .where(
+          and(
+            eq(assessments.id, assessmentId),
+            eq(assessments.revision, revision),
+            inArray(assessments.status, ['completed', 'synced', 'returned']),
+          ),
+        )
+        .returning(reviewFields);
+
+      if (!row) {
+        await explainRefusal(res, assessmentId, 'submit', revision);
+        return;
+      }
+      res.json({ review: row });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// POST /api/assessments/:id/return — { comment } — send it back to the assessor
+//
+// A comment is required: "returned" with no reason leaves the assessor
+// guessing. It is stored as an ordinary whole-assessment comment, in the same
+// transaction, so the status never changes without the reason landing too.
+router.post('/assessments/:id/return', requireRole('supervisor', 'admin'), async (req, res, next) => {
+  try {
+    const assessmentId = req.params.id as string;
+    const body = typeof req.body?.comment === 'string' ? req.body.comment.trim() : '';
+    if (!body) {
+      res.status(400).json({ error: 'Say what needs changing' });
+      return;
+    }
+
+    const row = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(assessments)
+        .set({ status: 'returned' })
+        .where(and(eq(assessments.id, assessmentId), eq(assessments.status, 'submitted')))
+        .returning(reviewFields);
+      if (!updated) return null;
+      await tx.insert(reviewComments).values({
+        id: uuidv4(),
+        assessment_id: assessmentId,
+        body,
+        author_id: req.user!.id,
+        author_name: req.user!.display_name,
+      });
+      return updated;
+    });
+
+    if (!row) {
+      await explainRefusal(res, assessmentId, 'return', null);
+      return;
+    }
+    res.json({ review: row });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/assessments/:id/approve — { revision } — the report is final
+//
+// The revision is the one the supervisor read. If the assessor pushed again
+// while they were reading, the approval is refused rather than applied to
+// content they have not seen.
+router.post('/assessments/:id/approve', requireRole('supervisor', 'admin'), async (req, res, next) => {
+  try {
+    const assessmentId = req.params.id as string;
+    const revision = revisionOf(req.body);
+    if (revision === null) {
+      res.status(400).json({ error: 'revision is required' });
+      return;
+    }
+
+    const [row] = await db
+      .update(assessments)
+      .set({
+        status: 'approved',
+        approved_at: new Date(),
+        approved_by: req.user!.display_name,
+        approved_by_id: req.user!.id,
+        approved_revision: revision,
+      })
+      .where(
+        and(
+          eq(assessments.id, assessmentId),
+          eq(assessments.revision, revision),
+          eq(assessments.status, 'submitted'),
+        ),
+      )
+      .returning(reviewFields);
+
+    if (!row) {
+      await explainRefusal(res, assessmentId, 'approve', revision);
+      return;
+    }
+    res.json({ review: row });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/assessments/:id/reopen — take an approval back without an edit
+//
+// An edit revokes approval on its own; this is for the supervisor who wants
+// it back in review without anybody touching the content.
+router.post('/assessments/:id/reopen', requireRole('supervisor', 'admin'), async (req, res, next) => {
+  try {
+    const assessmentId = req.params.id as string;
+    const [row] = await db
+      .update(assessments)
+      .set({ status: 'submitted', ...CLEARED_APPROVAL })
+      .where(and(eq(assessments.id, assessmentId), eq(assessments.status, 'approved')))
+      .returning(reviewFields);
+
+    if (!row) {
+      await explainRefusal(res, assessmentId, 'reopen', null);
+      return;
+    }
+    res.json({ review: row });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/assessments/:id/review — status and comments, without the content
+router.get('/assessments/:id/review', async (req, res, next) => {
+  try {
+    const assessmentId = req.params.id as string;
+    const [row] = await db.select(reviewFields).from(assessments).where(eq(assessments.id, assessmentId));
+    if (!row) {
+      res.status(404).json({ error: 'Assessment not found' });
+      return;
+    }
+    const comments = await db
+      .select()
+      .from(reviewComments)
+      .where(eq(reviewComments.assessment_id, assessmentId))
+      .orderBy(reviewComments.created_at);
+    res.json({ review: row, comments });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/assessments/:id/comments — { body, zone_key?, item_score_id? }
+router.post('/assessments/:id/comments', requireRole('supervisor', 'admin'), async (req, res, next) => {
+  try {
+    const assessmentId = req.params.id as string;
+    const body = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
+    if (!body) {
+      res.status(400).json({ error: 'Comment is empty' });
+      return;
+    }
+    const zoneKey = typeof req.body.zone_key === 'string' && req.body.zone_key ? req.body.zone_key : null;
+    const itemScoreId =
+      typeof req.body.item_score_id === 'string' && req.body.item_score_id ? req.body.item_score_id : null;
+    if (itemScoreId && !zoneKey) {
+      res.status(400).json({ error: 'An item comment needs its zone_key too' });
+      return;
+    }
+
+    const [exists] = await db
+      .select({ id: assessments.id })
+      .from(assessments)
+      .where(eq(assessments.id, assessmentId));
+    if (!exists) {
+      res.status(404).json({ error: 'Assessment not found' });
+      return;
+    }
+
+    const [comment] = await db
+      .insert(reviewComments)
+      .values({
+        id: uuidv4(),
+        assessment_id: assessmentId,
+        zone_key: zoneKey,
+        item_score_id: itemScoreId,
+        body,
+        author_id: req.user!.id,
+        author_name: req.user!.display_name,
+      })
+      .returning();
+    res.status(201).json(comment);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PATCH /api/review-comments/:id — { resolved: boolean }
+//
+// The assessor may mark a comment addressed as well as the supervisor: it is
+// how they answer it.
+router.patch(
+  '/review-comments/:id',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const resolved = req.body?.resolved !== false;
+      const [comment] = await db
+        .update(reviewComments)
+        .set(
+          resolved
+            ? { resolved_at: new Date(), resolved_by: req.user!.display_name }
+            : { resolved_at: null, resolved_by: null },
+        )
+        .where(eq(reviewComments.id, req.params.id as string))
+        .returning();
+      if (!comment) {
+        res.status(404).json({ error: 'Comment not found' });
+        return;
+      }
+      res.json(comment);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,136 @@
+/**
+ * The server's revision history for an assessment, and restoring from it.
+ *
+ * See services/revisions.ts for how the history is written. A restore is an
+ * edit like any other: it writes the old content forward as a NEW revision, so
+ * every iPad sees the server move ahead and pulls it, and the state it
+ * replaced stays in the history to be restored in turn.
+ */
+
+import { Router } from 'express';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { assessments, assessmentRevisions } from '../db/schema.js';
+import { requireRole } from '../middleware/auth.js';
+import { CLEARED_APPROVAL, statusAfterSync } from '../services/review.js';
+import { restoreSnapshot, snapshotAssessment, type RevisionSnapshot } from '../services/revisions.js';
+
+const router = Router();
+
+// GET /api/assessments/:id/revisions — newest first, without the snapshots
+router.get('/assessments/:id/revisions', async (req, res, next) => {
+  try {
+    const rows = await db
+      .select({
+        id: assessmentRevisions.id,
+        revision: assessmentRevisions.revision,
+        last_edited_by: assessmentRevisions.last_edited_by,
+        last_edited_at: assessmentRevisions.last_edited_at,
+        source: assessmentRevisions.source,
+        pushed_by: assessmentRevisions.pushed_by,
+        overall_score: assessmentRevisions.overall_score,
+        scored_items: assessmentRevisions.scored_items,
+        created_at: assessmentRevisions.created_at,
+      })
+      .from(assessmentRevisions)
+      .where(eq(assessmentRevisions.assessment_id, req.params.id))
+      .orderBy(desc(assessmentRevisions.created_at));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/assessments/:id/revisions/:revisionId — one snapshot, in full
+router.get('/assessments/:id/revisions/:revisionId', async (req, res, next) => {
+  try {
+    const [row] = await db
+      .select()
+      .from(assessmentRevisions)
+      .where(
+        and(
+          eq(assessmentRevisions.id, req.params.revisionId),
+          eq(assessmentRevisions.assessment_id, req.params.id),
+        ),
+      );
+    if (!row) {
+      res.status(404).json({ error: 'Revision not found' });
+      return;
+    }
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/assessments/:id/revisions/:revisionId/restore — roll back to it
+//
+// Open to the same roles as sync: anybody who can overwrite the server's copy
+// with a push can already do everything a restore does, and a restore is the
+// safer of the two because the history keeps what it replaced.
+router.post(
+  '/assessments/:id/revisions/:revisionId/restore',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const assessmentId = req.params.id as string;
+      const revisionId = req.params.revisionId as string;
+
+      const result = await db.transaction(async (tx) => {
+        const [target] = await tx
+          .select({
+            revision: assessmentRevisions.revision,
+            snapshot: assessmentRevisions.snapshot,
+          })
+          .from(assessmentRevisions)
+          .where(
+            and(
+              eq(assessmentRevisions.id, revisionId),
+              eq(assessmentRevisions.assessment_id, assessmentId),
+            ),
+          );
+        const [current] = await tx
+          .select({ status: assessments.status })
+          .from(assessments)
+          .where(eq(assessments.id, assessmentId));
+        if (!target || !current) return null;
+
+        const snapshot = target.snapshot as RevisionSnapshot;
+        // Restoring changes the content, so review follows the sync rule: an
+        // approval is revoked, a submission stands.
+        const review = statusAfterSync(current.status, snapshot.assessment.status, true);
+        const now = new Date();
+
+        await restoreSnapshot(tx, assessmentId, snapshot, {
+          status: review.status,
+          ...(review.revokeApproval ? CLEARED_APPROVAL : {}),
+          updated_at: now,
+          // Moved past everything any device holds, never back to the old
+          // number: a device still on that number must read "server ahead",
+          // not "in sync", or it would never fetch the restore.
+          revision: sql`${assessments.revision} + 1`,
+          // Who, rather than which iPad: there is no device behind a restore.
+          last_edited_by: req.user!.display_name,
+          last_edited_at: now,
+        });
+        await snapshotAssessment(tx, assessmentId, 'restore', req.user);
+
+        const [row] = await tx
+          .select({ revision: assessments.revision })
+          .from(assessments)
+          .where(eq(assessments.id, assessmentId));
+        return { revision: row.revision, restored_from: target.revision };
+      });
+
+      if (!result) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+      res.json({ restored: true, ...result });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { districtCompliance } from '../services/school-compliance.js';
+
+const router = Router();
+
+// GET /api/schools/compliance — the district roll-up: each school's percent of
+// observable items met, from its latest assessment, and the district's overall,
+// by zone and by principle (services/school-compliance.ts).
+router.get('/schools/compliance', async (_req, res, next) => {
+  try {
+    res.json(await districtCompliance());
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
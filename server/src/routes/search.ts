@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { SEARCH_DEFAULT_LIMIT, SEARCH_MAX_LIMIT, searchAssessments } from '../services/search.js';
+import { queryList } from '../services/assessment-list.js';
+
+const router = Router();
+
+// GET /api/search?q=gate latch — findings, notes and recommendations
+//
+// Optional: property_type, status (comma lists), limit. Hits come back best
+// match first, each with the assessment, zone and item it was written against
+// (services/search.ts).
+router.get('/search', async (req, res, next) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q === '') {
+      res.status(400).json({ error: 'q is required' });
+      return;
+    }
+    if (q.length > 200) {
+      res.status(400).json({ error: 'q is too long' });
+      return;
+    }
+
+    let limit = SEARCH_DEFAULT_LIMIT;
+    if (req.query.limit !== undefined) {
+      limit = Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        res.status(400).json({ error: 'limit must be a positive whole number' });
+        return;
+      }
+      limit = Math.min(limit, SEARCH_MAX_LIMIT);
+    }
+
+    const hits = await searchAssessments({
+      q,
+      property_type: queryList(req.query.property_type),
+      status: queryList(req.query.status),
+      limit,
+    });
+    res.json({ hits });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
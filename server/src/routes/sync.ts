@@ -1,5 +1,5 @@
-import { Router } from 'express';
-import { eq, and } from 'drizzle-orm';
+import { Router, type Response } from 'express';
+import { eq, and, inArray, ne, or } from 'drizzle-orm';
 import { db } from '../db/connection.js';
 import {
   assessments,
@@ -9,7 +9,18 @@ import {
   lightSurveys,
   lightReadings,
 } from '../db/schema.js';
-import { calculateZoneAverage, isZoneComplete, calculateOverallScore } from '../services/scoring.js';
+import { carryRecommendationStatus, getItemKeyForText, isFollowUpChange } from 'cpted-checklist';
+import { CLEARED_APPROVAL, isApprovedFinal, statusAfterSync } from '../services/review.js';
+import { requireRole } from '../middleware/auth.js';
+import { ensureBaselineSnapshot, snapshotAssessment } from '../services/revisions.js';
+import { recalculateScores } from '../services/scores.js';
+import { migrateAssessmentTemplate } from '../services/template-migration.js';
+import type { AuthUser } from '../services/auth.js';
+import type { Recommendation } from '../types/index.js';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Row = Record<string, unknown>;
+type AssessmentWrite = Partial<typeof assessments.$inferInsert>;
 
 /**
  * Client-supplied instant -> Date, or null.
@@ -24,106 +35,586 @@ function toInstant(value: unknown): Date | null {
   return Number.isNaN(d.getTime()) ? null : d;
 }
 
+/**
+ * The revision an If-Match header says the push was built on, null when the
+ * header is absent, or undefined when it is present but names no revision.
+ *
+ * The PWA sends it as a strong ETag ("7"); a weak one or a bare number is
+ * accepted as well, since the value is only ever a revision number.
+ */
+function expectedRevision(header: string | undefined): number | null | undefined {
+  if (header === undefined) return null;
+  const match = /^\s*(?:W\/)?"?(\d+)"?\s*$/.exec(header);
+  return match ? Number(match[1]) : undefined;
+}
+
+interface ExistingAssessment {
+  id: string;
+  revision: number;
+  status: string;
+  approved_revision: number | null;
+  last_edited_by: string | null;
+  last_edited_at: Date | null;
+  top_recommendations: unknown;
+  quick_wins: unknown;
+}
+
+/** The server's side of the story when If-Match no longer holds. */
+interface SyncConflict {
+  revision: number;
+  last_edited_by: string | null;
+  last_edited_at: string | null;
+}
+
+/**
+ * Read the assessment row for a push, locked, and check If-Match against it.
+ *
+ * Locked, so that two pushes of the same assessment take turns: the second
+ * one's If-Match check then sees the first one's revision rather than both
+ * passing against the same stale number.
+ *
+ * Optimistic concurrency. The PWA already compares revisions before it pushes,
+ * but with a GET and then a POST: two iPads can both pass that check and the
+ * later push silently wins. If-Match carries the server revision the push was
+ * built on — the last one this device synced, or the one it just merged with
+ * or agreed to overwrite — and the check happens here, under the row lock,
+ * before anything is written.
+ *
+ * Only when the row exists: a push that names a base for an assessment the
+ * server no longer holds is recreating it, which is what sync has always done.
+ * A client that sends no If-Match (every build before this one) is not checked
+ * at all, exactly as before.
+ */
+async function lockForSync(
+  tx: Tx,
+  assessmentId: string,
+  expected: number | null,
+): Promise<{ existing: ExistingAssessment | undefined } | { conflict: SyncConflict }> {
+  const [existing] = await tx
+    .select({
+      id: assessments.id,
+      revision: assessments.revision,
+      status: assessments.status,
+      approved_revision: assessments.approved_revision,
+      last_edited_by: assessments.last_edited_by,
+      last_edited_at: assessments.last_edited_at,
+      top_recommendations: assessments.top_recommendations,
+      quick_wins: assessments.quick_wins,
+    })
+    .from(assessments)
+    .where(eq(assessments.id, assessmentId))
+    .for('update');
+
+  if (existing && expected !== null && existing.revision !== expected) {
+    return {
+      conflict: {
+        revision: existing.revision,
+        last_edited_by: existing.last_edited_by,
+        last_edited_at: existing.last_edited_at?.toISOString() ?? null,
+      },
+    };
+  }
+  return { existing };
+}
+
+/** What every delta sends, whatever changed (buildDelta in the PWA's sync.ts). */
+const DELTA_BOOKKEEPING = new Set(['id', 'status', 'revision', 'last_edited_by', 'last_edited_at']);
+
+/**
+ * Whether a delta records follow-up on the recommendations and nothing else:
+ * no rows, and no assessment field but the two lists, changed in their
+ * lifecycle fields alone (isFollowUpChange() in cpted-checklist). Such a push
+ * leaves an approval standing — see services/review.ts.
+ */
+function isFollowUpOnly(payload: Row, existing: ExistingAssessment): boolean {
+  const rows = ['zone_scores', 'item_scores', 'light_surveys'].some(
+    (key) => ((payload[key] as Row[] | undefined) ?? []).length > 0,
+  );
+  const deleted = Object.values((payload.deleted ?? {}) as Record<string, string[]>).some((ids) => ids.length > 0);
+  if (rows || deleted || Object.keys((payload.light_readings ?? {}) as Row).length > 0) return false;
+
+  const incoming = payload.assessment as Row;
+  return Object.keys(incoming).every((key) => {
+    if (DELTA_BOOKKEEPING.has(key)) return true;
+    if (key !== 'top_recommendations' && key !== 'quick_wins') return false;
+    return isFollowUpChange(
+      (existing[key] as Recommendation[] | null) ?? [],
+      (incoming[key] as Recommendation[] | null) ?? [],
+    );
+  });
+}
+
+/**
+ * The assessment columns a push writes, in two parts: the content the device
+ * sent, and the bookkeeping every push writes whatever it carries. The full
+ * sync writes both; the delta writes the bookkeeping and only the content
+ * columns whose keys it sent. `followUpOnly` is isFollowUpOnly()'s answer.
+ */
+function assessmentColumns(
+  incoming: Row,
+  existing: ExistingAssessment | undefined,
+  now: Date,
+  followUpOnly = false,
+): { content: AssessmentWrite; bookkeeping: AssessmentWrite } {
+  // Review statuses belong to the server — see services/review.ts. A push
+  // that carries no revision counts as a change, for the reason given at
+  // the revision fields below; one that only follows up on recommendations
+  // does not.
+  const review = statusAfterSync(
+    existing?.status ?? null,
+    (incoming.status as string) || 'in_progress',
+    !followUpOnly &&
+      (!existing || !('revision' in incoming) || Number(incoming.revision) !== existing.revision),
+  );
+  // And a final report stays final at the revision the follow-up makes.
+  const keptApproval =
+    followUpOnly && existing && isApprovedFinal(existing)
+      ? { approved_revision: Number(incoming.revision) || existing.revision }
+      : {};
+
+  const content = {
+    property_type: incoming.property_type || 'single_family_residential',
+    address: incoming.address,
+    city: incoming.city,
+    state: incoming.state,
+    zip: incoming.zip,
+    homeowner_name: incoming.homeowner_name,
+    homeowner_contact: incoming.homeowner_contact || '',
+    contact_phone: incoming.contact_phone || '',
+    assessor_name: incoming.assessor_name,
+    assessor_badge_id: incoming.assessor_badge_id || null,
+    assessment_type: incoming.assessment_type || 'initial',
+    weather_conditions: incoming.weather_conditions || '',
+    time_of_assessment: incoming.time_of_assessment || 'daytime',
+    date_of_assessment: incoming.date_of_assessment,
+    // Only touch the signature date when the device actually sent the key.
+    // A PWA older than v0.40.0 has no such field and omits it entirely;
+    // treating that as "clear it" would wipe a signed date off the server
+    // the moment a colleague on a stale iPad synced the same assessment.
+    // An explicit null — which is what clearing the field in Edit Info
+    // produces — still clears it. Same guard as light_surveys deletion.
+    // Straight through, never new Date(): it is a date-only string.
+    ...('report_signed_on' in incoming
+      ? { report_signed_on: incoming.report_signed_on ?? null }
+      : {}),
+    overall_score: incoming.overall_score ?? null,
+    // A PWA from before recommendation tracking sends no status fields, and
+    // must not wipe the ones recorded here (cpted-checklist's
+    // recommendation-status.ts).
+    top_recommendations: carryRecommendationStatus(
+      (incoming.top_recommendations as Recommendation[]) || [],
+      (existing?.top_recommendations as Recommendation[]) ?? [],
+    ),
+    quick_wins: carryRecommendationStatus(
+      (incoming.quick_wins as Recommendation[]) || [],
+      (existing?.quick_wins as Recommendation[]) ?? [],
+    ),
+    notes: incoming.notes || '',
+    assessor_signature: incoming.assessor_signature || null,
+    // Guarded like report_signed_on: a PWA older than v0.41.0 omits the key
+    // entirely, and treating that as "clear it" would wipe the district's
+    // page off the server the moment a stale iPad synced.
+    ...('school_profile' in incoming ? { school_profile: incoming.school_profile ?? null } : {}),
+    // Guarded the same way: an iPad that predates template versions sends no
+    // key, and its assessments stay on whatever version the server holds.
+    ...('template_version' in incoming
+      ? { template_version: Number(incoming.template_version) || 1 }
+      : {}),
+    // And again: an iPad from before buildings sends neither key, and must not
+    // strip a campus's buildings off an assessment a colleague set up.
+    ...('buildings' in incoming ? { buildings: incoming.buildings ?? [] } : {}),
+    ...('main_building_name' in incoming
+      ? { main_building_name: incoming.main_building_name ?? '' }
+      : {}),
+    // Nor before site facts: no key leaves the answers a colleague gave.
+    ...('site_facts' in incoming ? { site_facts: incoming.site_facts ?? {} } : {}),
+    // Nor before follow-ups named the assessment they follow.
+    ...('follows_assessment_id' in incoming
+      ? { follows_assessment_id: incoming.follows_assessment_id || null }
+      : {}),
+  } as AssessmentWrite;
+
+  const bookkeeping: AssessmentWrite = {
+    updated_at: now,
+    status: review.status,
+    ...(review.revokeApproval ? CLEARED_APPROVAL : {}),
+    ...keptApproval,
+    // Revision, device name, and edit time: the three fields that let a
+    // shared iPad tell whether the server's copy is ahead of, behind, or
+    // divergent from its own. They are one fact in three columns and are
+    // never written apart.
+    //
+    // Key-presence guarded like report_signed_on and school_profile — but
+    // unlike those, the fallback is NOT "leave it alone". A PWA older than
+    // this feature sends no revision and still overwrites the content
+    // wholesale, so leaving the stored revision put would leave a stale
+    // number against changed content: every up-to-date device would read
+    // "same revision I last pulled" and never fetch the old iPad's work.
+    // Invisible lost work is the exact failure this feature exists to
+    // prevent, so the server counts that push itself.
+    //
+    // The cost is accepted knowingly: the PWA pushes whole assessments
+    // rather than diffs, so an old iPad re-syncing UNCHANGED content also
+    // bumps the counter and briefly tells everyone else the server is
+    // ahead. That resolves on the next pull and stops entirely once every
+    // iPad is on this build. Telling "changed" from "unchanged" would need
+    // a content hash of the whole payload — more machinery than three
+    // iPads justify.
+    //
+    // Stored exactly as sent, never max(existing, incoming): sync is
+    // unconditional last-write-wins, so a device pushing an older revision
+    // over a newer one has genuinely won, and clamping upward would leave
+    // the server claiming a revision whose content it does not hold.
+    ...('revision' in incoming
+      ? {
+          revision: Number(incoming.revision) || 1,
+          last_edited_by: (incoming.last_edited_by as string) ?? null,
+          last_edited_at: toInstant(incoming.last_edited_at),
+        }
+      : existing
+        ? {
+            // Pre-feature client, existing row. Something may have changed
+            // and we know nothing about who or when, so the attribution is
+            // cleared to its unidentified-device value rather than left
+            // pointing at whichever iPad edited last — which would now be
+            // a lie. last_edited_by === null is the flag that says so.
+            revision: existing.revision + 1,
+            last_edited_by: null,
+            last_edited_at: now,
+          }
+        : { revision: 1, last_edited_by: null, last_edited_at: now }),
+    synced_at: now,
+  };
+
+  return { content, bookkeeping };
+}
+
+/**
+ * A row's own edit stamp, as the device sent it — what team mode merges item
+ * by item on. A PWA older than that sends none, and its rows go in as
+ * revision 1 from an unidentified device, the same reading 0019 gives every
+ * row that predates the columns.
+ */
+function rowRevision(row: Row) {
+  return {
+    revision: Number(row.revision) || 1,
+    last_edited_by: (row.last_edited_by as string) ?? null,
+    last_edited_at: toInstant(row.last_edited_at),
+  };
+}
+
+function zoneScoreRow(zs: Row, assessmentId: string) {
+  return {
+    id: zs.id as string,
+    assessment_id: assessmentId,
+    zone_key: zs.zone_key as string,
+    zone_name: zs.zone_name as string,
+    zone_order: zs.zone_order as number,
+    average_score: zs.average_score as number | null,
+    priority_findings: (zs.priority_findings as string) || '',
+    notes: (zs.notes as string) || '',
+    completed: (zs.completed as boolean) || false,
+    ...rowRevision(zs),
+  };
+}
+
+/**
+ * What the server already holds for the custom-item columns and an item's N/A
+ * reason. An iPad on a build from before custom items can still push a custom
+ * item it pulled — scored, say — and sends neither column; whole-row writes
+ * would turn the item into a template item with no key. One from before site
+ * facts would likewise wipe the reason off an N/A it never touched. Same
+ * key-presence rule as the light survey's aerial: a column the client did not
+ * mention keeps its value.
+ */
+type KeptItemColumns = Map<string, { is_custom: boolean; custom_guidance: string; na_reason: string }>;
+
+async function keptItemColumns(tx: Tx, assessmentId: string): Promise<KeptItemColumns> {
+  const rows = await tx
+    .select({
+      id: itemScores.id,
+      is_custom: itemScores.is_custom,
+      custom_guidance: itemScores.custom_guidance,
+      na_reason: itemScores.na_reason,
+    })
+    .from(itemScores)
+    .where(
+      and(
+        eq(itemScores.assessment_id, assessmentId),
+        or(eq(itemScores.is_custom, true), ne(itemScores.na_reason, '')),
+      ),
+    );
+  return new Map(rows.map(({ id, ...columns }) => [id, columns]));
+}
+
+/**
+ * Row ids in a delta that already belong to a different assessment — zones,
+ * items, light surveys and their readings. The full sync cannot touch such a
+ * row — its insert collides on the id and the push fails — but an upsert would
+ * take it over, rewriting its assessment_id to the pushing one, and a survey
+ * or reading insert would fail on the id as a 500. A delta naming any is
+ * refused whole.
+ */
+async function foreignRowIds(
+  tx: Tx,
+  assessmentId: string,
+  rows: { zones: Row[]; items: Row[]; surveys: Row[]; readings: Row[] },
+): Promise<string[]> {
+  const tables = [
+    [zoneScores, rows.zones],
+    [itemScores, rows.items],
+    [lightSurveys, rows.surveys],
+    [lightReadings, rows.readings],
+  ] as const;
+  const foreign: string[] = [];
+  for (const [table, sent] of tables) {
+    const ids = sent.map((row) => row.id as string);
+    if (ids.length === 0) continue;
+    const found = await tx
+      .select({ id: table.id })
+      .from(table)
+      .where(and(inArray(table.id, ids), ne(table.assessment_id, assessmentId)));
+    foreign.push(...found.map((row) => row.id));
+  }
+  return foreign;
+}
+
+function itemScoreRow(is: Row, assessmentId: string, kept: KeptItemColumns) {
+  const held = kept.get(is.id as string);
+  const custom =
+    'is_custom' in is
+      ? { is_custom: Boolean(is.is_custom), custom_guidance: (is.custom_guidance as string) || '' }
+      : { is_custom: held?.is_custom ?? false, custom_guidance: held?.custom_guidance ?? '' };
+  const isNa = (is.is_na as boolean) || false;
+  // A reason only ever sits on an N/A: an old build that un-marks the item
+  // takes the reason with it.
+  const naReason = 'na_reason' in is ? (is.na_reason as string) || '' : (held?.na_reason ?? '');
+  return {
+    id: is.id as string,
+    assessment_id: assessmentId,
+    zone_key: is.zone_key as string,
+    principle: is.principle as string,
+    // An iPad running a build from before item keys sends none; match its
+    // wording the way migration 0021 matched the rows already here. A custom
+    // item has no key to find, whatever its wording happens to be.
+    item_key: custom.is_custom
+      ? null
+      : ((is.item_key as string | null | undefined) ?? getItemKeyForText(is.item_text as string) ?? null),
+    item_text: is.item_text as string,
+    item_order: is.item_order as number,
+    // School assessments rate items 'yes'/'no'/'uto' (string) instead of 1-5
+    score: typeof is.score === 'number' ? is.score : null,
+    rating: typeof is.score === 'string' ? is.score : null,
+    is_na: isNa,
+    na_reason: isNa ? naReason : '',
+    notes: (is.notes as string) || '',
+    photo_ids: (is.photo_ids as string[]) || [],
+    ...custom,
+    ...rowRevision(is),
+  };
+}
+
+/** What the server already holds for the columns an older client may omit. */
+type KeptSurveyColumns = Map<string, { aerial_base: unknown; walk_position: number | null }>;
+
+function lightSurveyRow(ls: Row, assessmentId: string, kept: KeptSurveyColumns, now: Date) {
+  return {
+    id: ls.id as string,
+    assessment_id: assessmentId,
+    created_at: ls.created_at ? new Date(ls.created_at as string) : now,
+    updated_at: ls.updated_at ? new Date(ls.updated_at as string) : now,
+    area_name: (ls.area_name as string) || 'Parking Lot',
+    length_ft: (ls.length_ft as number) ?? 0,
+    width_ft: (ls.width_ft as number) ?? 0,
+    cols: (ls.cols as number) ?? 0,
+    rows: (ls.rows as number) ?? 0,
+    spacing_length_ft: (ls.spacing_length_ft as number) ?? 0,
+    spacing_width_ft: (ls.spacing_width_ft as number) ?? 0,
+    skipped_points: (ls.skipped_points as number[]) || [],
+    origin_lat: (ls.origin_lat as number) ?? null,
+    origin_lng: (ls.origin_lng as number) ?? null,
+    axis_lat: (ls.axis_lat as number) ?? null,
+    axis_lng: (ls.axis_lng as number) ?? null,
+    width_lat: (ls.width_lat as number) ?? null,
+    width_lng: (ls.width_lng as number) ?? null,
+    grid_flipped: (ls.grid_flipped as boolean) || false,
+    grid_origin: (ls.grid_origin as string | null) ?? null,
+    surveyed_at: (ls.surveyed_at as string) ?? null,
+    observers: (ls.observers as string) || '',
+    weather: (ls.weather as string) || '',
+    lamp_type: (ls.lamp_type as string) || '',
+    fixture_type: (ls.fixture_type as string) || '',
+    pole_height_ft: (ls.pole_height_ft as number) ?? null,
+    meter_type: (ls.meter_type as string) || '',
+    meter_calibrated_on: (ls.meter_calibrated_on as string) || '',
+    notes: (ls.notes as string) || '',
+    aerial_image: (ls.aerial_image as string) ?? null,
+    aerial_credit: (ls.aerial_credit as string) ?? null,
+    aerial_base:
+      'aerial_base' in ls
+        ? (ls.aerial_base ?? null)
+        : (kept.get(ls.id as string)?.aerial_base ?? null),
+    walk_position:
+      'walk_position' in ls
+        ? ((ls.walk_position as number) ?? null)
+        : (kept.get(ls.id as string)?.walk_position ?? null),
+    unit: (ls.unit as string) || 'fc',
+    imported_filename: (ls.imported_filename as string) ?? null,
+    imported_at: (ls.imported_at as string) ?? null,
+  };
+}
+
+function lightReadingRow(r: Row, assessmentId: string) {
+  return {
+    id: r.id as string,
+    survey_id: r.survey_id as string,
+    assessment_id: assessmentId,
+    point_index: r.point_index as number,
+    value_fc: r.value_fc as number,
+    raw_value: (r.raw_value as number) ?? (r.value_fc as number),
+    raw_unit: (r.raw_unit as string) || '',
+    measured_at: (r.measured_at as string) ?? null,
+    meter_place: (r.meter_place as number) ?? null,
+    source: (r.source as string) || 'imported',
+    ...rowRevision(r),
+  };
+}
+
+/**
+ * The columns of `row` whose keys the client actually sent. What a delta
+ * updates an existing row with, so that a column it left out — an aerial
+ * image that never changed, say — keeps the value the server already holds
+ * instead of the default the row builder fills in.
+ */
+function sentColumns<T extends object>(row: T, incoming: Row): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => key !== 'id' && key in incoming),
+  ) as Partial<T>;
+}
+
+/** Photo metadata; blob_path is never touched for a photo the server holds. */
+async function updatePhotoMetadata(tx: Tx, incoming: Row[]): Promise<void> {
+  for (const photo of incoming) {
+    const photoId = photo.id as string;
+    const [existingPhoto] = await tx
+      .select({ id: photos.id })
+      .from(photos)
+      .where(eq(photos.id, photoId));
+
+    if (existingPhoto) {
+      await tx
+        .update(photos)
+        .set({
+          item_score_id: (photo.item_score_id as string) || null,
+          zone_key: photo.zone_key as string,
+          gps_lat: photo.gps_lat as number | null,
+          gps_lng: photo.gps_lng as number | null,
+          gps_accuracy_m: photo.gps_accuracy_m as number | null,
+          compass_heading: photo.compass_heading as number | null,
+          annotation_data: photo.annotation_data as Record<string, unknown> | null,
+          // Only from a device that stamps its photos; an older one leaves the
+          // stamp where the last device to know about it put it.
+          ...('revision' in photo ? rowRevision(photo) : {}),
+        })
+        .where(eq(photos.id, photoId));
+    }
+  }
+}
+
+/**
+ * Recalculate the scores, stamp the sync and record it in the history: the
+ * last step of every push, full or delta. Returns the row as committed.
+ */
+async function finishSync(tx: Tx, assessmentId: string, now: Date, user: AuthUser | undefined) {
+  // A push from an iPad still on an older checklist: bring the server's copy
+  // onto the current one, as that iPad will its own once it updates.
+  await migrateAssessmentTemplate(tx, assessmentId);
+  await recalculateScores(tx, assessmentId);
+
+  // Deliberately does not touch revision. Bumping here would leave the
+  // server permanently one ahead of the device that just pushed, so every
+  // device would read "server is newer" straight after its own sync.
+  //
+  // Read the row back rather than reporting what we intended to write, so
+  // the reply cannot disagree with what actually committed.
+  const [row] = await tx
+    .update(assessments)
+    .set({ synced_at: now })
+    .where(eq(assessments.id, assessmentId))
+    .returning({
+      revision: assessments.revision,
+      last_edited_by: assessments.last_edited_by,
+      last_edited_at: assessments.last_edited_at,
+      overall_score: assessments.overall_score,
+      status: assessments.status,
+    });
+
+  // After the recalculation, so the history holds the scores as the server
+  // computed them — the same numbers a pull of this revision would get.
+  await snapshotAssessment(tx, assessmentId, 'sync', user, { skipIfUnchanged: true });
+  return row;
+}
+
+function sendConflict(res: Response, conflict: SyncConflict): void {
+  // The server's side of the story, in the same shape GET
+  // /api/assessments/:id gives the PWA's pre-push check, so the client's
+  // existing diverged handling takes it from here.
+  res.status(409).json({
+    error: 'The server copy has changed since this push was prepared',
+    current: conflict,
+  });
+}
+
+function sendSynced(
+  res: Response,
+  now: Date,
+  committed: Awaited<ReturnType<typeof finishSync>> | undefined,
+): void {
+  res.json({
+    success: true,
+    synced_at: now.toISOString(),
+    // What the server now holds, so the device can record it as the revision
+    // it has seen without a second round trip — and so it learns the number
+    // in the case where the server counted the push itself. Purely additive:
+    // a PWA that predates this reads only synced_at and ignores the rest.
+    revision: committed?.revision ?? null,
+    last_edited_by: committed?.last_edited_by ?? null,
+    last_edited_at: committed?.last_edited_at?.toISOString() ?? null,
+    overall_score: committed?.overall_score ?? null,
+    // Which may not be the status the device sent: a review status is kept
+    // or revoked here, and the device adopts whatever the server decided.
+    status: committed?.status ?? null,
+  });
+}
+
 const router = Router();
 
 // POST /api/sync — Accepts full assessment payload from the PWA
-router.post('/sync', async (req, res, next) => {
+router.post('/sync', requireRole('assessor', 'supervisor', 'admin'), async (req, res, next) => {
   try {
     const payload = req.body;
     const assessmentId = payload.assessment.id as string;
     const now = new Date();
 
-    const committed = await db.transaction(async (tx) => {
+    const expected = expectedRevision(req.get('If-Match'));
+    if (expected === undefined) {
+      res.status(400).json({ error: 'If-Match must name the revision this push is based on' });
+      return;
+    }
+
+    const outcome = await db.transaction(async (tx) => {
       // 1. Upsert assessment
-      const [existing] = await tx
-        .select({ id: assessments.id, revision: assessments.revision })
-        .from(assessments)
-        .where(eq(assessments.id, assessmentId));
-
-      const assessmentData = {
-        updated_at: now,
-        status: payload.assessment.status || 'in_progress',
-        property_type: payload.assessment.property_type || 'single_family_residential',
-        address: payload.assessment.address,
-        city: payload.assessment.city,
-        state: payload.assessment.state,
-        zip: payload.assessment.zip,
-        homeowner_name: payload.assessment.homeowner_name,
-        homeowner_contact: payload.assessment.homeowner_contact || '',
-        contact_phone: payload.assessment.contact_phone || '',
-        assessor_name: payload.assessment.assessor_name,
-        assessor_badge_id: payload.assessment.assessor_badge_id || null,
-        assessment_type: payload.assessment.assessment_type || 'initial',
-        weather_conditions: payload.assessment.weather_conditions || '',
-        time_of_assessment: payload.assessment.time_of_assessment || 'daytime',
-        date_of_assessment: payload.assessment.date_of_assessment,
-        // Only touch the signature date when the device actually sent the key.
-        // A PWA older than v0.40.0 has no such field and omits it entirely;
-        // treating that as "clear it" would wipe a signed date off the server
-        // the moment a colleague on a stale iPad synced the same assessment.
-        // An explicit null — which is what clearing the field in Edit Info
-        // produces — still clears it. Same guard as light_surveys deletion.
-        // Straight through, never new Date(): it is a date-only string.
-        ...('report_signed_on' in payload.assessment
-          ? { report_signed_on: payload.assessment.report_signed_on ?? null }
-          : {}),
-        overall_score: payload.assessment.overall_score ?? null,
-        top_recommendations: payload.assessment.top_recommendations || [],
-        quick_wins: payload.assessment.quick_wins || [],
-        notes: payload.assessment.notes || '',
-        assessor_signature: payload.assessment.assessor_signature || null,
-        // Guarded like report_signed_on: a PWA older than v0.41.0 omits the key
-        // entirely, and treating that as "clear it" would wipe the district's
-        // page off the server the moment a stale iPad synced.
-        ...('school_profile' in payload.assessment
-          ? { school_profile: payload.assessment.school_profile ?? null }
-          : {}),
-        // Revision, device name, and edit time: the three fields that let a
-        // shared iPad tell whether the server's copy is ahead of, behind, or
-        // divergent from its own. They are one fact in three columns and are
-        // never written apart.
-        //
-        // Key-presence guarded like report_signed_on and school_profile — but
-        // unlike those, the fallback is NOT "leave it alone". A PWA older than
-        // this feature sends no revision and still overwrites the content
-        // wholesale, so leaving the stored revision put would leave a stale
-        // number against changed content: every up-to-date device would read
-        // "same revision I last pulled" and never fetch the old iPad's work.
-        // Invisible lost work is the exact failure this feature exists to
-        // prevent, so the server counts that push itself.
-        //
-        // The cost is accepted knowingly: the PWA pushes whole assessments
-        // rather than diffs, so an old iPad re-syncing UNCHANGED content also
-        // bumps the counter and briefly tells everyone else the server is
-        // ahead. That resolves on the next pull and stops entirely once every
-        // iPad is on this build. Telling "changed" from "unchanged" would need
-        // a content hash of the whole payload — more machinery than three
-        // iPads justify.
-        //
-        // Stored exactly as sent, never max(existing, incoming): sync is
-        // unconditional last-write-wins, so a device pushing an older revision
-        // over a newer one has genuinely won, and clamping upward would leave
-        // the server claiming a revision whose content it does not hold.
-        ...('revision' in payload.assessment
-          ? {
-              revision: Number(payload.assessment.revision) || 1,
-              last_edited_by: (payload.assessment.last_edited_by as string) ?? null,
-              last_edited_at: toInstant(payload.assessment.last_edited_at),
-            }
-          : existing
-            ? {
-                // Pre-feature client, existing row. Something may have changed
-                // and we know nothing about who or when, so the attribution is
-                // cleared to its unidentified-device value rather than left
-                // pointing at whichever iPad edited last — which would now be
-                // a lie. last_edited_by === null is the flag that says so.
-                revision: existing.revision + 1,
-                last_edited_by: null,
-                last_edited_at: now,
-              }
-            : { revision: 1, last_edited_by: null, last_edited_at: now }),
-        synced_at: now,
-      };
+      const lock = await lockForSync(tx, assessmentId, expected);
+      if ('conflict' in lock) return lock;
+      const { existing } = lock;
+
+      // The wholesale replace below is about to destroy whatever is here. The
+      // history normally already holds it; for an assessment last written
+      // before the history existed, this is the one chance to keep it.
+      if (existing) await ensureBaselineSnapshot(tx, assessmentId);
+
+      const { content, bookkeeping } = assessmentColumns(payload.assessment, existing, now);
+      const assessmentData = { ...content, ...bookkeeping };
 
       // The fleet-upgrade progress bar: when this stops appearing in the
       // container logs, every iPad is on a build that names itself.
@@ -147,72 +638,29 @@ router.post('/sync', async (req, res, next) => {
             ? new Date(payload.assessment.created_at)
             : now,
           ...assessmentData,
-        });
+        } as typeof assessments.$inferInsert);
       }
 
       // 2. Delete + reinsert zone_scores
       await tx.delete(zoneScores).where(eq(zoneScores.assessment_id, assessmentId));
       if (payload.zone_scores?.length > 0) {
         await tx.insert(zoneScores).values(
-          payload.zone_scores.map((zs: Record<string, unknown>) => ({
-            id: zs.id as string,
-            assessment_id: assessmentId,
-            zone_key: zs.zone_key as string,
-            zone_name: zs.zone_name as string,
-            zone_order: zs.zone_order as number,
-            average_score: zs.average_score as number | null,
-            priority_findings: (zs.priority_findings as string) || '',
-            notes: (zs.notes as string) || '',
-            completed: (zs.completed as boolean) || false,
-          })),
+          payload.zone_scores.map((zs: Row) => zoneScoreRow(zs, assessmentId)),
         );
       }
 
       // 3. Delete + reinsert item_scores
+      const keptItems = await keptItemColumns(tx, assessmentId);
       await tx.delete(itemScores).where(eq(itemScores.assessment_id, assessmentId));
       if (payload.item_scores?.length > 0) {
         await tx.insert(itemScores).values(
-          payload.item_scores.map((is: Record<string, unknown>) => ({
-            id: is.id as string,
-            assessment_id: assessmentId,
-            zone_key: is.zone_key as string,
-            principle: is.principle as string,
-            item_text: is.item_text as string,
-            item_order: is.item_order as number,
-            // School assessments rate items 'yes'/'no'/'uto' (string) instead of 1-5
-            score: typeof is.score === 'number' ? is.score : null,
-            rating: typeof is.score === 'string' ? is.score : null,
-            is_na: (is.is_na as boolean) || false,
-            notes: (is.notes as string) || '',
-            photo_ids: (is.photo_ids as string[]) || [],
-          })),
+          payload.item_scores.map((is: Row) => itemScoreRow(is, assessmentId, keptItems)),
         );
       }
 
       // 4. Upsert photo metadata (don't touch blob_path for existing)
       if (payload.photos?.length > 0) {
-        for (const photo of payload.photos as Record<string, unknown>[]) {
-          const photoId = photo.id as string;
-          const [existingPhoto] = await tx
-            .select({ id: photos.id })
-            .from(photos)
-            .where(eq(photos.id, photoId));
-
-          if (existingPhoto) {
-            await tx
-              .update(photos)
-              .set({
-                item_score_id: (photo.item_score_id as string) || null,
-                zone_key: photo.zone_key as string,
-                gps_lat: photo.gps_lat as number | null,
-                gps_lng: photo.gps_lng as number | null,
-                gps_accuracy_m: photo.gps_accuracy_m as number | null,
-                compass_heading: photo.compass_heading as number | null,
-                annotation_data: photo.annotation_data as Record<string, unknown> | null,
-              })
-              .where(eq(photos.id, photoId));
-          }
-        }
+        await updatePhotoMetadata(tx, payload.photos);
       }
 
       // 4b. Delete + reinsert light surveys and their readings.
@@ -235,7 +683,7 @@ router.post('/sync', async (req, res, next) => {
         // forward anything the client did not mention -- the same key-presence
         // rule as report_signed_on, applied a field at a time because a survey
         // is replaced wholesale rather than updated.
-        const kept = new Map<string, { aerial_base: unknown; walk_position: number | null }>();
+        const kept: KeptSurveyColumns = new Map();
         for (const row of await tx
           .select({
             id: lightSurveys.id,
@@ -250,75 +698,21 @@ router.post('/sync', async (req, res, next) => {
         await tx.delete(lightReadings).where(eq(lightReadings.assessment_id, assessmentId));
         await tx.delete(lightSurveys).where(eq(lightSurveys.assessment_id, assessmentId));
 
-        const surveys = (payload.light_surveys as Record<string, unknown>[]) || [];
+        const surveys = (payload.light_surveys as Row[]) || [];
         if (surveys.length > 0) {
-          await tx.insert(lightSurveys).values(
-            surveys.map((ls) => ({
-              id: ls.id as string,
-              assessment_id: assessmentId,
-              created_at: ls.created_at ? new Date(ls.created_at as string) : now,
-              updated_at: ls.updated_at ? new Date(ls.updated_at as string) : now,
-              area_name: (ls.area_name as string) || 'Parking Lot',
-              length_ft: (ls.length_ft as number) ?? 0,
-              width_ft: (ls.width_ft as number) ?? 0,
-              cols: (ls.cols as number) ?? 0,
-              rows: (ls.rows as number) ?? 0,
-              spacing_length_ft: (ls.spacing_length_ft as number) ?? 0,
-              spacing_width_ft: (ls.spacing_width_ft as number) ?? 0,
-              skipped_points: (ls.skipped_points as number[]) || [],
-              origin_lat: (ls.origin_lat as number) ?? null,
-              origin_lng: (ls.origin_lng as number) ?? null,
-              axis_lat: (ls.axis_lat as number) ?? null,
-              axis_lng: (ls.axis_lng as number) ?? null,
-              width_lat: (ls.width_lat as number) ?? null,
-              width_lng: (ls.width_lng as number) ?? null,
-              grid_flipped: (ls.grid_flipped as boolean) || false,
-              grid_origin: (ls.grid_origin as string | null) ?? null,
-              surveyed_at: (ls.surveyed_at as string) ?? null,
-              observers: (ls.observers as string) || '',
-              weather: (ls.weather as string) || '',
-              lamp_type: (ls.lamp_type as string) || '',
-              fixture_type: (ls.fixture_type as string) || '',
-              pole_height_ft: (ls.pole_height_ft as number) ?? null,
-              meter_type: (ls.meter_type as string) || '',
-              meter_calibrated_on: (ls.meter_calibrated_on as string) || '',
-              notes: (ls.notes as string) || '',
-              aerial_image: (ls.aerial_image as string) ?? null,
-              aerial_credit: (ls.aerial_credit as string) ?? null,
-              aerial_base:
-                'aerial_base' in ls
-                  ? (ls.aerial_base ?? null)
-                  : (kept.get(ls.id as string)?.aerial_base ?? null),
-              walk_position:
-                'walk_position' in ls
-                  ? ((ls.walk_position as number) ?? null)
-                  : (kept.get(ls.id as string)?.walk_position ?? null),
-              unit: (ls.unit as string) || 'fc',
-              imported_filename: (ls.imported_filename as string) ?? null,
-              imported_at: (ls.imported_at as string) ?? null,
-            })),
-          );
+          await tx
+            .insert(lightSurveys)
+            .values(surveys.map((ls) => lightSurveyRow(ls, assessmentId, kept, now)));
         }
 
-        const readings = (payload.light_readings as Record<string, unknown>[]) || [];
+        const readings = (payload.light_readings as Row[]) || [];
         if (readings.length > 0) {
           const surveyIds = new Set(surveys.map((ls) => ls.id as string));
           const orphans = readings.filter((r) => !surveyIds.has(r.survey_id as string));
           await tx.insert(lightReadings).values(
             readings
               .filter((r) => surveyIds.has(r.survey_id as string))
-              .map((r) => ({
-                id: r.id as string,
-                survey_id: r.survey_id as string,
-                assessment_id: assessmentId,
-                point_index: r.point_index as number,
-                value_fc: r.value_fc as number,
-                raw_value: (r.raw_value as number) ?? (r.value_fc as number),
-                raw_unit: (r.raw_unit as string) || '',
-                measured_at: (r.measured_at as string) ?? null,
-                meter_place: (r.meter_place as number) ?? null,
-                source: (r.source as string) || 'imported',
-              })),
+              .map((r) => lightReadingRow(r, assessmentId)),
           );
           if (orphans.length > 0) {
             console.warn(
@@ -329,67 +723,230 @@ router.post('/sync', async (req, res, next) => {
       }
 
       // 5. Recalculate scores
-      const allItems = await tx
-        .select()
-        .from(itemScores)
-        .where(eq(itemScores.assessment_id, assessmentId));
-
-      const byZone = new Map<string, typeof allItems>();
-      for (const item of allItems) {
-        const list = byZone.get(item.zone_key) || [];
-        list.push(item);
-        byZone.set(item.zone_key, list);
-      }
-
-      for (const [zoneKey, items] of byZone) {
-        const avg = calculateZoneAverage(items);
-        const complete = isZoneComplete(items);
-        await tx
-          .update(zoneScores)
-          .set({ average_score: avg, completed: complete })
-          .where(
-            and(
-              eq(zoneScores.assessment_id, assessmentId),
-              eq(zoneScores.zone_key, zoneKey),
-            ),
-          );
-      }
-
-      const overall = calculateOverallScore(byZone);
-      // Deliberately does not touch revision. Bumping here would leave the
-      // server permanently one ahead of the device that just pushed, so every
-      // device would read "server is newer" straight after its own sync.
-      //
-      // Read the row back rather than reporting what we intended to write, so
-      // the reply cannot disagree with what actually committed.
-      const [row] = await tx
-        .update(assessments)
-        .set({ overall_score: overall, synced_at: now })
-        .where(eq(assessments.id, assessmentId))
-        .returning({
-          revision: assessments.revision,
-          last_edited_by: assessments.last_edited_by,
-          last_edited_at: assessments.last_edited_at,
-          overall_score: assessments.overall_score,
-        });
-      return row;
+      return { committed: await finishSync(tx, assessmentId, now, req.user) };
     });
 
-    res.json({
-      success: true,
-      synced_at: now.toISOString(),
-      // What the server now holds, so the device can record it as the revision
-      // it has seen without a second round trip — and so it learns the number
-      // in the case where the server counted the push itself. Purely additive:
-      // a PWA that predates this reads only synced_at and ignores the rest.
-      revision: committed?.revision ?? null,
-      last_edited_by: committed?.last_edited_by ?? null,
-      last_edited_at: committed?.last_edited_at?.toISOString() ?? null,
-      overall_score: committed?.overall_score ?? null,
-    });
+    if ('conflict' in outcome) {
+      sendConflict(res, outcome.conflict);
+      return;
+    }
+    sendSynced(res, now, outcome.committed);
   } catch (err) {
     next(err);
   }
 });
 
+// POST /api/sync/delta — Only the rows that changed since a revision the
+// server holds.
+//
+// The full sync above sends and rewrites everything every time: every item
+// score, each light survey with its inline aerials, the school photo — over a
+// phone hotspot, for an assessment whose only change may be one note. A device
+// whose change journal covers every edit since its last sync sends this
+// instead:
+//
+//   assessment      id, status and the revision fields always; a content
+//                   field only when it changed
+//   zone_scores,
+//   item_scores     changed rows, whole; upserted
+//   light_surveys   changed surveys; one the server already holds is updated
+//                   with only the keys sent, so an unchanged aerial never
+//                   travels, and a new one is inserted whole
+//   light_readings  { [survey_id]: readings } — each listed survey's readings
+//                   are replaced as a set, the way the device edits them
+//   deleted         { zone_scores, item_scores, light_surveys } — row ids
+//   photos          photo metadata, as in the full sync
+//
+// If-Match is required here, not optional: a delta only means anything
+// applied to the revision it was computed against. So is an existing row —
+// with nothing to apply the delta to, the 404 sends the device back to a
+// full sync.
+router.post(
+  '/sync/delta',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const payload = req.body;
+      const assessmentId = payload.assessment?.id as string | undefined;
+      const now = new Date();
+
+      if (!assessmentId) {
+        res.status(400).json({ error: 'assessment.id is required' });
+        return;
+      }
+      const expected = expectedRevision(req.get('If-Match'));
+      if (expected === undefined) {
+        res.status(400).json({ error: 'If-Match must name the revision this push is based on' });
+        return;
+      }
+      if (expected === null) {
+        res.status(428).json({ error: 'A delta sync must name the revision it applies to in If-Match' });
+        return;
+      }
+
+      const outcome = await db.transaction(async (tx) => {
+        const lock = await lockForSync(tx, assessmentId, expected);
+        if ('conflict' in lock) return lock;
+        const { existing } = lock;
+        if (!existing) return { missing: true as const };
+
+        const zoneRows = (payload.zone_scores as Row[] | undefined) ?? [];
+        const itemRows = (payload.item_scores as Row[] | undefined) ?? [];
+        const surveyRows = (payload.light_surveys as Row[] | undefined) ?? [];
+        const readingRows = Object.values((payload.light_readings ?? {}) as Record<string, Row[]>).flat();
+        const foreign = await foreignRowIds(tx, assessmentId, {
+          zones: zoneRows,
+          items: itemRows,
+          surveys: surveyRows,
+          readings: readingRows,
+        });
+        if (foreign.length > 0) return { foreign };
+
+        await ensureBaselineSnapshot(tx, assessmentId);
+
+        const { content, bookkeeping } = assessmentColumns(
+          payload.assessment,
+          existing,
+          now,
+          isFollowUpOnly(payload, existing),
+        );
+        await tx
+          .update(assessments)
+          .set({ ...sentColumns(content, payload.assessment), ...bookkeeping })
+          .where(eq(assessments.id, assessmentId));
+
+        const deleted = (payload.deleted ?? {}) as Partial<
+          Record<'zone_scores' | 'item_scores' | 'light_surveys', string[]>
+        >;
+
+        if (deleted.zone_scores?.length) {
+          await tx
+            .delete(zoneScores)
+            .where(
+              and(
+                eq(zoneScores.assessment_id, assessmentId),
+                inArray(zoneScores.id, deleted.zone_scores),
+              ),
+            );
+        }
+        // Checked above, and held here too: a conflicting row is only ever
+        // this assessment's own.
+        for (const zs of zoneRows) {
+          const row = zoneScoreRow(zs, assessmentId);
+          await tx
+            .insert(zoneScores)
+            .values(row)
+            .onConflictDoUpdate({
+              target: zoneScores.id,
+              set: row,
+              setWhere: eq(zoneScores.assessment_id, assessmentId),
+            });
+        }
+
+        if (deleted.item_scores?.length) {
+          await tx
+            .delete(itemScores)
+            .where(
+              and(
+                eq(itemScores.assessment_id, assessmentId),
+                inArray(itemScores.id, deleted.item_scores),
+              ),
+            );
+        }
+        const keptItems = await keptItemColumns(tx, assessmentId);
+        for (const is of itemRows) {
+          const row = itemScoreRow(is, assessmentId, keptItems);
+          await tx
+            .insert(itemScores)
+            .values(row)
+            .onConflictDoUpdate({
+              target: itemScores.id,
+              set: row,
+              setWhere: eq(itemScores.assessment_id, assessmentId),
+            });
+        }
+
+        await updatePhotoMetadata(tx, (payload.photos as Row[] | undefined) ?? []);
+
+        if (deleted.light_surveys?.length) {
+          await tx
+            .delete(lightReadings)
+            .where(
+              and(
+                eq(lightReadings.assessment_id, assessmentId),
+                inArray(lightReadings.survey_id, deleted.light_surveys),
+              ),
+            );
+          await tx
+            .delete(lightSurveys)
+            .where(
+              and(
+                eq(lightSurveys.assessment_id, assessmentId),
+                inArray(lightSurveys.id, deleted.light_surveys),
+              ),
+            );
+        }
+
+        const surveyIds = new Set(
+          (
+            await tx
+              .select({ id: lightSurveys.id })
+              .from(lightSurveys)
+              .where(eq(lightSurveys.assessment_id, assessmentId))
+          ).map((row) => row.id),
+        );
+        for (const ls of surveyRows) {
+          const row = lightSurveyRow(ls, assessmentId, new Map(), now);
+          if (surveyIds.has(row.id)) {
+            await tx
+              .update(lightSurveys)
+              .set(sentColumns(row, ls))
+              .where(eq(lightSurveys.id, row.id));
+          } else {
+            await tx.insert(lightSurveys).values(row);
+            surveyIds.add(row.id);
+          }
+        }
+
+        const readingSets = (payload.light_readings ?? {}) as Record<string, Row[]>;
+        for (const [surveyId, readings] of Object.entries(readingSets)) {
+          if (!surveyIds.has(surveyId)) {
+            console.warn(
+              `Sync ${assessmentId}: dropped ${readings.length} light readings with no matching survey`,
+            );
+            continue;
+          }
+          await tx.delete(lightReadings).where(eq(lightReadings.survey_id, surveyId));
+          if (readings.length > 0) {
+            await tx
+              .insert(lightReadings)
+              .values(readings.map((r) => lightReadingRow({ ...r, survey_id: surveyId }, assessmentId)));
+          }
+        }
+
+        return { committed: await finishSync(tx, assessmentId, now, req.user) };
+      });
+
+      if ('conflict' in outcome) {
+        sendConflict(res, outcome.conflict);
+        return;
+      }
+      if ('missing' in outcome) {
+        res.status(404).json({ error: 'Assessment not found' });
+        return;
+      }
+      if (outcome.foreign) {
+        res.status(400).json({
+          error: `${outcome.foreign.length} row${outcome.foreign.length === 1 ? ' belongs' : 's belong'} to another assessment`,
+          ids: outcome.foreign,
+        });
+        return;
+      }
+      sendSynced(res, now, outcome.committed);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
 export default router;
@@ -0,0 +1,310 @@
+/**
+ * Checklist template authoring: drafts, validation and publishing for admins,
+ * and the published templates for every signed-in iPad to download.
+ *
+ * A template is edited as one whole document (see TemplateDocument in
+ * cpted-checklist) in a draft — at most one per template — and publishing
+ * turns the draft into the template's next version. The revision it records
+ * is worked out here by diffing the draft against what is current, so an
+ * admin never writes add/retire/rename/move entries by hand; and in-flight
+ * assessments are brought onto the new version as soon as it is published,
+ * exactly as they are when a new build ships one.
+ */
+
+import { Router, type Response } from 'express';
+import { and, desc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  TEMPLATE_IDS,
+  diffTemplateDocuments,
+  getCurrentVersionOf,
+  getTemplateDocument,
+  validateTemplateDocument,
+} from 'cpted-checklist';
+import type { TemplateDocument, TemplateId } from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { checklistTemplates } from '../db/schema.js';
+import { requireRole } from '../middleware/auth.js';
+import { installStoredTemplates, loadPublishedTemplates } from '../services/checklist-templates.js';
+import { migrateInFlightAssessments } from '../services/template-migration.js';
+
+const router = Router();
+
+function templateIdOf(res: Response, value: unknown): TemplateId | null {
+  if (typeof value === 'string' && (TEMPLATE_IDS as string[]).includes(value)) {
+    return value as TemplateId;
+  }
+  res.status(404).json({ error: 'No such checklist template' });
+  return null;
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * The body's document, if it has the shape of one. Only the shape: whether it
+ * can be published is validateTemplateDocument's question, and a draft is
+ * allowed to be unfinished.
+ */
+function documentOf(value: unknown): TemplateDocument | null {
+  const zones = (value as TemplateDocument | undefined)?.zones;
+  if (!Array.isArray(zones)) return null;
+  const principleWeights = (value as TemplateDocument).principle_weights;
+  if (
+    principleWeights !== undefined &&
+    (typeof principleWeights !== 'object' ||
+      principleWeights === null ||
+      !Object.values(principleWeights).every((weight) => typeof weight === 'number'))
+  ) {
+    return null;
+  }
+  const rules = (value as TemplateDocument).completion_rules;
+  if (
+    rules !== undefined &&
+    !(Array.isArray(rules) && rules.every((rule) => isText(rule?.kind) && isText(rule.severity)))
+  ) {
+    return null;
+  }
+  const wellFormed = zones.every(
+    (zone) =>
+      isText(zone?.key) &&
+      isText(zone.name) &&
+      isText(zone.description) &&
+      typeof zone.order === 'number' &&
+      (zone.weight === undefined || typeof zone.weight === 'number') &&
+      Array.isArray(zone.principles) &&
+      zone.principles.every(
+        (principle) =>
+          isText(principle?.key) &&
+          isText(principle.name) &&
+          Array.isArray(principle.items) &&
+          principle.items.every(
+            (item) =>
+              isText(item?.key) &&
+              isText(item.text) &&
+              isText(item.guidance?.standard) &&
+              isText(item.guidance.improvement) &&
+              (item.phase === 'exterior' || item.phase === 'interior') &&
+              typeof item.night === 'boolean' &&
+              (item.hint === null || isText(item.hint)) &&
+              (item.critical === undefined || typeof item.critical === 'boolean') &&
+              (item.bands === undefined || Array.isArray(item.bands)),
+          ),
+      ),
+  );
+  return wellFormed ? (value as TemplateDocument) : null;
+}
+
+async function findDraft(templateId: TemplateId) {
+  const [draft] = await db
+    .select()
+    .from(checklistTemplates)
+    .where(and(eq(checklistTemplates.template_id, templateId), eq(checklistTemplates.status, 'draft')));
+  return draft;
+}
+
+// GET /api/templates/published — every published template, for the iPads to
+// keep. Any signed-in role: an assessor's iPad needs the checklist too.
+router.get('/templates/published', async (_req, res, next) => {
+  try {
+    res.json({ templates: await loadPublishedTemplates() });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/templates — each template's current version, last publish and
+// draft, for the editor's list.
+router.get('/templates', requireRole('admin'), async (_req, res, next) => {
+  try {
+    const rows = await db
+      .select({
+        template_id: checklistTemplates.template_id,
+        status: checklistTemplates.status,
+        base_version: checklistTemplates.base_version,
+        updated_at: checklistTemplates.updated_at,
+        created_by: checklistTemplates.created_by,
+        published_by: checklistTemplates.published_by,
+        published_at: checklistTemplates.published_at,
+      })
+      .from(checklistTemplates)
+      .orderBy(desc(checklistTemplates.published_at));
+
+    res.json({
+      templates: TEMPLATE_IDS.map((templateId) => {
+        const mine = rows.filter((row) => row.template_id === templateId);
+        const published = mine.find((row) => row.status === 'published');
+        const draft = mine.find((row) => row.status === 'draft');
+        return {
+          template_id: templateId,
+          version: getCurrentVersionOf(templateId),
+          published_at: published?.published_at ?? null,
+          published_by: published?.published_by ?? null,
+          draft: draft
+            ? { base_version: draft.base_version, updated_at: draft.updated_at, created_by: draft.created_by }
+            : null,
+        };
+      }),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/templates/:templateId/draft — the draft, with what stops it being
+// published.
+router.get('/templates/:templateId/draft', requireRole('admin'), async (req, res, next) => {
+  try {
+    const templateId = templateIdOf(res, req.params.templateId);
+    if (!templateId) return;
+    const draft = await findDraft(templateId);
+    if (!draft) {
+      res.status(404).json({ error: 'This template has no draft' });
+      return;
+    }
+    const document = draft.document as TemplateDocument;
+    res.json({ draft, errors: validateTemplateDocument(templateId, document) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/templates/:templateId/draft — start a draft from the current
+// template. An existing draft is returned as it is rather than replaced: it may
+// be a colleague's unfinished work.
+router.post('/templates/:templateId/draft', requireRole('admin'), async (req, res, next) => {
+  try {
+    const templateId = templateIdOf(res, req.params.templateId);
+    if (!templateId) return;
+    const existing = await findDraft(templateId);
+    if (existing) {
+      res.status(409).json({ error: 'This template already has a draft', draft: existing });
+      return;
+    }
+    const [draft] = await db
+      .insert(checklistTemplates)
+      .values({
+        id: uuidv4(),
+        template_id: templateId,
+        status: 'draft',
+        base_version: getCurrentVersionOf(templateId),
+        document: getTemplateDocument(templateId),
+        created_by: req.user!.display_name,
+      })
+      .returning();
+    res.status(201).json({ draft, errors: [] });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/templates/:templateId/draft — { document, summary } — save the
+// draft. Saved whether or not it would publish; the reply says what is left.
+router.put('/templates/:templateId/draft', requireRole('admin'), async (req, res, next) => {
+  try {
+    const templateId = templateIdOf(res, req.params.templateId);
+    if (!templateId) return;
+    const document = documentOf(req.body?.document);
+    if (!document) {
+      res.status(400).json({ error: 'document is not a checklist template' });
+      return;
+    }
+    const [draft] = await db
+      .update(checklistTemplates)
+      .set({
+        document,
+        summary: isText(req.body.summary) ? req.body.summary : '',
+        updated_at: new Date(),
+      })
+      .where(and(eq(checklistTemplates.template_id, templateId), eq(checklistTemplates.status, 'draft')))
+      .returning();
+    if (!draft) {
+      res.status(404).json({ error: 'This template has no draft' });
+      return;
+    }
+    res.json({ draft, errors: validateTemplateDocument(templateId, document) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /api/templates/:templateId/draft — throw the draft away.
+router.delete('/templates/:templateId/draft', requireRole('admin'), async (req, res, next) => {
+  try {
+    const templateId = templateIdOf(res, req.params.templateId);
+    if (!templateId) return;
+    await db
+      .delete(checklistTemplates)
+      .where(and(eq(checklistTemplates.template_id, templateId), eq(checklistTemplates.status, 'draft')));
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/templates/:templateId/publish — { summary } — make the draft the
+// template's next version.
+//
+// Refused while the draft fails validation, and refused if another version
+// was published after the draft was started: the draft was edited against a
+// checklist that is no longer current, and publishing it would quietly undo
+// the other change.
+router.post('/templates/:templateId/publish', requireRole('admin'), async (req, res, next) => {
+  try {
+    const templateId = templateIdOf(res, req.params.templateId);
+    if (!templateId) return;
+    const summary = isText(req.body?.summary) ? req.body.summary.trim() : '';
+    if (!summary) {
+      res.status(400).json({ error: 'Say what this version changes' });
+      return;
+    }
+
+    const outcome = await db.transaction(async (tx) => {
+      const [draft] = await tx
+        .select()
+        .from(checklistTemplates)
+        .where(and(eq(checklistTemplates.template_id, templateId), eq(checklistTemplates.status, 'draft')))
+        .for('update');
+      if (!draft) return { status: 404, body: { error: 'This template has no draft' } };
+
+      const current = getCurrentVersionOf(templateId);
+      if (draft.base_version !== current) {
+        return {
+          status: 409,
+          body: {
+            error: `Version ${current} was published after this draft was started from version ${draft.base_version}. Discard it and start again.`,
+          },
+        };
+      }
+      const document = draft.document as TemplateDocument;
+      const errors = validateTemplateDocument(templateId, document);
+      if (errors.length > 0) {
+        return { status: 400, body: { error: 'The draft is not ready to publish', errors } };
+      }
+
+      const changes = diffTemplateDocuments(getTemplateDocument(templateId), document);
+      await tx
+        .update(checklistTemplates)
+        .set({
+          status: 'published',
+          version: current + 1,
+          summary,
+          changes,
+          published_by: req.user!.display_name,
+          published_at: new Date(),
+          updated_at: new Date(),
+        })
+        .where(eq(checklistTemplates.id, draft.id));
+      return { status: 200, body: { template_id: templateId, version: current + 1, changes } };
+    });
+
+    if (outcome.status === 200) {
+      await installStoredTemplates();
+      await migrateInFlightAssessments();
+    }
+    res.status(outcome.status).json(outcome.body);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
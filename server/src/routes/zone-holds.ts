@@ -0,0 +1,176 @@
+/**
+ * Team mode: which device is walking which zone.
+ *
+ * A hold is advisory. It tells a colleague's iPad to pick a different zone,
+ * which is what keeps two assessors from scoring the same items and leaving
+ * the merge a conflict to ask about; it does not stop anybody syncing. So it
+ * can be taken over — an iPad that walks off with a zone and never releases it
+ * must not strand the zone — and it lapses on its own after HOLD_TTL_MS.
+ *
+ * Holds are not content. They live in their own table, outside the sync
+ * payload and the revision history, and taking or releasing one bumps nothing.
+ */
+
+import { Router } from 'express';
+import { and, eq, gt, lte, or } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { assessments, zoneHolds } from '../db/schema.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+/** Long enough for a full day's walk of a large site; a hold older is dropped. */
+const HOLD_TTL_MS = 12 * 60 * 60 * 1000;
+
+const holdFields = {
+  zone_key: zoneHolds.zone_key,
+  held_by: zoneHolds.held_by,
+  held_by_user: zoneHolds.held_by_user,
+  held_at: zoneHolds.held_at,
+};
+
+function deviceOf(body: unknown): string | null {
+  const value = (body as { device?: unknown } | undefined)?.device;
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function isFresh(heldAt: Date): boolean {
+  return Date.now() - heldAt.getTime() < HOLD_TTL_MS;
+}
+
+// GET /api/assessments/:id/zone-holds — every hold that has not lapsed
+router.get('/assessments/:id/zone-holds', async (req, res, next) => {
+  try {
+    const rows = await db
+      .select(holdFields)
+      .from(zoneHolds)
+      .where(
+        and(
+          eq(zoneHolds.assessment_id, req.params.id),
+          gt(zoneHolds.held_at, new Date(Date.now() - HOLD_TTL_MS)),
+        ),
+      );
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/assessments/:id/zone-holds/:zoneKey — { device, take_over? }
+//
+// Refused with 409 and the current hold when another device holds the zone,
+// unless take_over is set: the PWA asks the assessor first, naming the iPad.
+// Holding a zone this device already holds just renews it.
+router.put(
+  '/assessments/:id/zone-holds/:zoneKey',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const assessmentId = req.params.id as string;
+      const zoneKey = req.params.zoneKey as string;
+      const device = deviceOf(req.body);
+      if (!device) {
+        res.status(400).json({ error: 'device is required' });
+        return;
+      }
+      const takeOver = req.body?.take_over === true;
+
+      const outcome = await db.transaction(async (tx) => {
+        const [assessment] = await tx
+          .select({ id: assessments.id })
+          .from(assessments)
+          .where(eq(assessments.id, assessmentId));
+        if (!assessment) return { missing: true as const };
+
+        const [current] = await tx
+          .select(holdFields)
+          .from(zoneHolds)
+          .where(and(eq(zoneHolds.assessment_id, assessmentId), eq(zoneHolds.zone_key, zoneKey)))
+          .for('update');
+        if (current && current.held_by !== device && isFresh(current.held_at) && !takeOver) {
+          return { heldElsewhere: current };
+        }
+
+        const hold = {
+          held_by: device,
+          held_by_user: req.user?.display_name ?? null,
+          held_at: new Date(),
+        };
+        // The lock above holds nothing when there is no row yet, so two devices
+        // can both get this far for a free zone. The upsert checks again: the
+        // second one only overwrites a hold that is its own or has lapsed, and
+        // otherwise comes back empty.
+        const [row] = await tx
+          .insert(zoneHolds)
+          .values({ assessment_id: assessmentId, zone_key: zoneKey, ...hold })
+          .onConflictDoUpdate({
+            target: [zoneHolds.assessment_id, zoneHolds.zone_key],
+            set: hold,
+            ...(takeOver
+              ? {}
+              : {
+                  setWhere: or(
+                    eq(zoneHolds.held_by, device),
+                    lte(zoneHolds.held_at, new Date(Date.now() - HOLD_TTL_MS)),
+                  ),
+                }),
+          })
+          .returning(holdFields);
+        if (!row) {
+          const [winner] = await tx
+            .select(holdFields)
+            .from(zoneHolds)
+            .where(and(eq(zoneHolds.assessment_id, assessmentId), eq(zoneHolds.zone_key, zoneKey)));
+          return { heldElsewhere: winner };
+        }
+        return { hold: row };
+      });
+
+      if ('missing' in outcome) {
+        res.status(404).json({ error: 'Assessment not found' });
+      } else if ('heldElsewhere' in outcome) {
+        const held = outcome.heldElsewhere;
+        res.status(409).json({
+          error: held ? `${held.held_by} is walking this zone` : 'Another device is walking this zone',
+          hold: held ?? null,
+        });
+      } else {
+        res.json({ hold: outcome.hold });
+      }
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+// DELETE /api/assessments/:id/zone-holds/:zoneKey — { device } — let it go
+//
+// Only the holder's own release counts; releasing a zone somebody has since
+// taken over is a no-op rather than a way to knock them off it.
+router.delete(
+  '/assessments/:id/zone-holds/:zoneKey',
+  requireRole('assessor', 'supervisor', 'admin'),
+  async (req, res, next) => {
+    try {
+      const device = deviceOf(req.body);
+      if (!device) {
+        res.status(400).json({ error: 'device is required' });
+        return;
+      }
+      await db
+        .delete(zoneHolds)
+        .where(
+          and(
+            eq(zoneHolds.assessment_id, req.params.id as string),
+            eq(zoneHolds.zone_key, req.params.zoneKey as string),
+            eq(zoneHolds.held_by, device),
+          ),
+        );
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
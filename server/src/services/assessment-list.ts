@@ -0,0 +1,317 @@
+/**
+ * The assessment list behind GET /api/assessments: search, filters, sort, and
+ * keyset pagination.
+ *
+ * The list used to be every row in the table, which is fine for a season's
+ * work and not for a department's archive — the iPad downloaded each row,
+ * signature image and all, to show a card with an address on it. A page now
+ * carries only the columns a card shows (LIST_COLUMNS) and at most MAX_LIMIT
+ * of them.
+ *
+ * Pages are cut by cursor rather than offset. New assessments sync in while an
+ * assessor scrolls; with OFFSET each arrival shifts every later page by one,
+ * so a card is shown twice or never. A cursor is the sort value and id of the
+ * last row sent, and the next page starts strictly after that pair, so rows
+ * arriving elsewhere in the order cannot move the boundary. It names the sort
+ * it was cut under too: its value only compares against that column.
+ */
+
+import { and, asc, count, desc, gte, ilike, inArray, lte, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { assessments } from '../db/schema.js';
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 200;
+
+/**
+ * Recommendations and quick wins still open, or settled (implemented or
+ * declined) — countRecommendations() in cpted-checklist, in SQL, so the list
+ * need not carry the recommendations themselves.
+ */
+function recommendationCount(closed: boolean) {
+  return sql<number>`(
+    SELECT count(*) FROM jsonb_array_elements(${assessments.top_recommendations} || ${assessments.quick_wins}) AS rec
+    WHERE btrim(rec->>'description') <> ''
+      AND coalesce(rec->>'status', 'open') ${closed ? sql`IN` : sql`NOT IN`} ('implemented', 'declined')
+  )`.mapWith(Number);
+}
+
+/** What a list card needs, and the revision fields sync compares against. */
+export const LIST_COLUMNS = {
+  id: assessments.id,
+  address: assessments.address,
+  city: assessments.city,
+  state: assessments.state,
+  zip: assessments.zip,
+  property_type: assessments.property_type,
+  assessment_type: assessments.assessment_type,
+  homeowner_name: assessments.homeowner_name,
+  assessor_name: assessments.assessor_name,
+  date_of_assessment: assessments.date_of_assessment,
+  overall_score: assessments.overall_score,
+  compliance_pct: assessments.compliance_pct,
+  recommendations_open: recommendationCount(false),
+  recommendations_closed: recommendationCount(true),
+  status: assessments.status,
+  created_at: assessments.created_at,
+  updated_at: assessments.updated_at,
+  synced_at: assessments.synced_at,
+  revision: assessments.revision,
+  last_edited_by: assessments.last_edited_by,
+  last_edited_at: assessments.last_edited_at,
+};
+
+function selectList() {
+  return db.select(LIST_COLUMNS).from(assessments);
+}
+
+type ListRow = Awaited<ReturnType<typeof selectList>>[number];
+
+/**
+ * The orderings on offer, each as the expression sorted and compared on.
+ *
+ * Timestamps are truncated to the millisecond because the cursor carries the
+ * value through JavaScript, which has no finer clock: a row stamped by
+ * defaultNow() in microseconds would otherwise never equal its own cursor and
+ * could repeat at the top of the next page. Unscored assessments sort as -1,
+ * below every real score, rather than as NULL — a tuple comparison against
+ * NULL is never true, and they would fall out of the list.
+ */
+const SORTS = {
+  created_at: {
+    expr: sql`date_trunc('milliseconds', ${assessments.created_at})`,
+    cast: 'timestamptz',
+  },
+  updated_at: {
+    expr: sql`date_trunc('milliseconds', ${assessments.updated_at})`,
+    cast: 'timestamptz',
+  },
+  date_of_assessment: { expr: sql`${assessments.date_of_assessment}`, cast: 'text' },
+  address: { expr: sql`lower(${assessments.address})`, cast: 'text' },
+  overall_score: { expr: sql`coalesce(${assessments.overall_score}, -1)`, cast: 'real' },
+} as const;
+
+export type ListSort = keyof typeof SORTS;
+
+export interface ListQuery {
+  /** Free text, matched anywhere in the address, city or homeowner name. */
+  q: string | null;
+  status: string[] | null;
+  property_type: string[] | null;
+  assessment_type: string[] | null;
+  /** Matched anywhere in assessor_name, like q. */
+  assessor: string | null;
+  /** Inclusive YYYY-MM-DD bounds on date_of_assessment. */
+  from: string | null;
+  to: string | null;
+  /** Inclusive bounds on overall_score. An unscored assessment matches neither. */
+  min_score: number | null;
+  max_score: number | null;
+  /** Exactly these assessments — how the iPad checks the copies it holds. */
+  ids: string[] | null;
+  sort: ListSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor: ListCursor | null;
+}
+
+interface ListCursor {
+  sort: ListSort;
+  value: string | number;
+  id: string;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+/** A comma-separated list, or a repeated parameter; null when absent. */
+export function queryList(value: unknown): string[] | null {
+  const parts = (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+  return parts.length > 0 ? parts : null;
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+    const [sort, value, id] = parsed;
+    if (typeof sort !== 'string' || !(sort in SORTS)) return null;
+    // Scores are numbers, every other sort value text.
+    if (typeof value !== (sort === 'overall_score' ? 'number' : 'string')) return null;
+    if (typeof id !== 'string' || !UUID_RE.test(id)) return null;
+    return { sort: sort as ListSort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/** `%text%` for ILIKE, with the caller's own wildcards taken literally. */
+function contains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+/**
+ * Read the query string. Returns an error message rather than a query for
+ * anything malformed, so a typo answers 400 instead of quietly unfiltering.
+ */
+export function parseListQuery(raw: Record<string, unknown>): { query: ListQuery } | { error: string } {
+  const from = text(raw.from);
+  const to = text(raw.to);
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== null && !DATE_RE.test(value)) return { error: `${name} must be YYYY-MM-DD` };
+  }
+
+  const scores: Record<'min_score' | 'max_score', number | null> = { min_score: null, max_score: null };
+  for (const name of ['min_score', 'max_score'] as const) {
+    const value = text(raw[name]);
+    if (value === null) continue;
+    const n = Number(value);
+    if (!Number.isFinite(n)) return { error: `${name} must be a number` };
+    scores[name] = n;
+  }
+
+  const ids = queryList(raw.ids);
+  if (ids && !ids.every((id) => UUID_RE.test(id))) return { error: 'ids must be assessment ids' };
+
+  const sort = text(raw.sort) ?? 'created_at';
+  if (!(sort in SORTS)) return { error: `sort must be one of ${Object.keys(SORTS).join(', ')}` };
+  const order = text(raw.order) ?? 'asc';
+  if (order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' };
+
+  let limit = DEFAULT_LIMIT;
+  const rawLimit = text(raw.limit);
+  if (rawLimit !== null) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1) return { error: 'limit must be a positive whole number' };
+    limit = Math.min(limit, MAX_LIMIT);
+  }
+
+  let cursor: ListCursor | null = null;
+  const rawCursor = text(raw.cursor);
+  if (rawCursor !== null) {
+    cursor = decodeCursor(rawCursor);
+    if (!cursor) return { error: 'cursor is not one this server issued' };
+    if (cursor.sort !== sort) return { error: `cursor was issued for sort=${cursor.sort}, not ${sort}` };
+  }
+
+  return {
+    query: {
+      q: text(raw.q),
+      status: queryList(raw.status),
+      property_type: queryList(raw.property_type),
+      assessment_type: queryList(raw.assessment_type),
+      assessor: text(raw.assessor),
+      from,
+      to,
+      ...scores,
+      ids,
+      sort: sort as ListSort,
+      order,
+      limit,
+      cursor,
+    },
+  };
+}
+
+/** Whether the caller asked for a page rather than the old whole-table list. */
+export function wantsPage(raw: Record<string, unknown>): boolean {
+  return raw.limit !== undefined || raw.cursor !== undefined;
+}
+
+/** Every filter in the query, as one WHERE clause (cursor aside). */
+export function listFilters(query: ListQuery): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+  if (query.q) {
+    const pattern = contains(query.q);
+    conditions.push(
+      or(
+        ilike(assessments.address, pattern),
+        ilike(assessments.city, pattern),
+        ilike(assessments.homeowner_name, pattern),
+      ),
+    );
+  }
+  if (query.status) conditions.push(inArray(assessments.status, query.status));
+  if (query.property_type) conditions.push(inArray(assessments.property_type, query.property_type));
+  if (query.assessment_type) conditions.push(inArray(assessments.assessment_type, query.assessment_type));
+  if (query.assessor) conditions.push(ilike(assessments.assessor_name, contains(query.assessor)));
+  if (query.from) conditions.push(gte(assessments.date_of_assessment, query.from));
+  if (query.to) conditions.push(lte(assessments.date_of_assessment, query.to));
+  if (query.min_score !== null) conditions.push(gte(assessments.overall_score, query.min_score));
+  if (query.max_score !== null) conditions.push(lte(assessments.overall_score, query.max_score));
+  if (query.ids) conditions.push(inArray(assessments.id, query.ids));
+  return and(...conditions);
+}
+
+/** The order-by pair for a query: its sort expression, then id to break ties. */
+export function listOrder(query: ListQuery): SQL[] {
+  const direction = query.order === 'asc' ? asc : desc;
+  return [direction(SORTS[query.sort].expr), direction(assessments.id)];
+}
+
+/** Rows strictly after the cursor in the query's order. */
+function afterCursor(query: ListQuery, cursor: ListCursor): SQL {
+  const { expr, cast } = SORTS[query.sort];
+  const op = sql.raw(query.order === 'asc' ? '>' : '<');
+  return sql`(${expr}, ${assessments.id}) ${op} (${cursor.value}::${sql.raw(cast)}, ${cursor.id}::uuid)`;
+}
+
+function cursorValue(query: ListQuery, row: ListRow): string | number {
+  switch (query.sort) {
+    case 'created_at':
+    case 'updated_at':
+      return row[query.sort].toISOString();
+    case 'date_of_assessment':
+      return row.date_of_assessment;
+    case 'address':
+      return row.address.toLowerCase();
+    case 'overall_score':
+      return row.overall_score ?? -1;
+  }
+}
+
+export interface ListPage {
+  assessments: ListRow[];
+  /** Pass back as `cursor` for the next page; null on the last one. */
+  next_cursor: string | null;
+  /** How many assessments match the filters, across every page. */
+  total: number;
+}
+
+export async function listAssessments(query: ListQuery): Promise<ListPage> {
+  const filters = listFilters(query);
+  const where = query.cursor ? and(filters, afterCursor(query, query.cursor)) : filters;
+
+  // One row past the page, to learn whether there is another without a count.
+  const rows = await selectList()
+    .where(where)
+    .orderBy(...listOrder(query))
+    .limit(query.limit + 1);
+  const [{ total }] = await db.select({ total: count() }).from(assessments).where(filters);
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    assessments: page,
+    next_cursor:
+      rows.length > query.limit && last
+        ? encodeCursor({ sort: query.sort, value: cursorValue(query, last), id: last.id })
+        : null,
+    total,
+  };
+}
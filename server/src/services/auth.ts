@@ -0,0 +1,163 @@
+/**
+ * Password hashing and session tokens.
+ *
+ * node:crypto only — scrypt for passwords, SHA-256 for session tokens — so
+ * accounts add no native dependency to an image that has to build on the VM
+ * without a compiler toolchain.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { and, eq, gt } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/connection.js';
+import { users, sessions } from '../db/schema.js';
+import { config } from '../config.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+// OWASP's scrypt floor. Stored with every hash, so raising these later only
+// affects passwords set from then on; existing ones still verify.
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+// N=2^17, r=8 needs 128 MiB, which is exactly Node's default ceiling.
+const MAX_MEM = 256 * 1024 * 1024;
+
+/**
+ * What an account may do. Checked per route by requireRole():
+ *
+ *   assessor    create assessments, sync them, upload photos, submit for review
+ *   supervisor  everything an assessor can, plus edit on the server, comment,
+ *               return and approve
+ *   analyst     read everything; manage crime reports, and nothing else
+ *   admin       everything, including delete
+ */
+export const ROLES = ['assessor', 'supervisor', 'analyst', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/** The account fields that are safe to hand to a route or the PWA. */
+export interface AuthUser {
+  id: string;
+  username: string;
+  display_name: string;
+  badge_id: string | null;
+  role: Role;
+}
+
+export function normalizeUsername(raw: string): string {
+  return raw.trim().toLowerCase();
+}
+
+/** "scrypt$N$r$p$salt$hash", salt and hash base64. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: MAX_MEM,
+  });
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, saltB64, hashB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64'), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: MAX_MEM,
+  });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * A password hash that matches nothing, verified against when the username is
+ * unknown. Without it a login for a real account takes a full scrypt and one
+ * for a made-up account returns at once, and the difference lists the users.
+ */
+let decoyHash: Promise<string> | null = null;
+export function getDecoyHash(): Promise<string> {
+  decoyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+  return decoyHash;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/** Open a session for `userId`; the raw token is returned once and never stored. */
+export async function createSession(
+  userId: string,
+  deviceName: string | null,
+): Promise<{ token: string; expires_at: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expires_at = new Date(Date.now() + config.auth.sessionTtlHours * 60 * 60 * 1000);
+  await db.insert(sessions).values({
+    id: uuidv4(),
+    user_id: userId,
+    token_hash: hashToken(token),
+    expires_at,
+    device_name: deviceName,
+  });
+  return { token, expires_at };
+}
+
+/** The live, active account behind a bearer token, or null. */
+export async function resolveSession(
+  token: string,
+): Promise<{ user: AuthUser; sessionId: string; expires_at: Date } | null> {
+  const [row] = await db
+    .select({
+      sessionId: sessions.id,
+      expires_at: sessions.expires_at,
+      id: users.id,
+      username: users.username,
+      display_name: users.display_name,
+      badge_id: users.badge_id,
+      role: users.role,
+      active: users.active,
+    })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.user_id, users.id))
+    .where(and(eq(sessions.token_hash, hashToken(token)), gt(sessions.expires_at, new Date())));
+
+  if (!row || !row.active) return null;
+  return {
+    sessionId: row.sessionId,
+    expires_at: row.expires_at,
+    user: {
+      id: row.id,
+      username: row.username,
+      display_name: row.display_name,
+      badge_id: row.badge_id,
+      // A value typed into the table by hand that is not a role gets the
+      // narrowest one rather than a 500 on every request.
+      role: isRole(row.role) ? row.role : 'analyst',
+    },
+  };
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.id, sessionId));
+}
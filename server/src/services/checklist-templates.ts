@@ -0,0 +1,62 @@
+/**
+ * Published checklist templates: reading them out of checklist_templates in
+ * the shape the package installs and the iPads download, and installing them
+ * into this process so that sync, migrations and the PDF report all see the
+ * same checklist the iPads do.
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { installPublishedTemplates, scoreWeightsOf } from 'cpted-checklist';
+import type {
+  ItemMigration,
+  PublishedTemplate,
+  TemplateDocument,
+  TemplateId,
+  TemplateRevision,
+} from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { checklistTemplates } from '../db/schema.js';
+
+/**
+ * Every published template, with the revisions that led to its latest version.
+ * Each revision carries the weighting and completion rules of its own
+ * version's document, which is how an assessment pinned to an older version
+ * is still weighted and checked by it.
+ */
+export async function loadPublishedTemplates(): Promise<PublishedTemplate[]> {
+  const rows = await db
+    .select()
+    .from(checklistTemplates)
+    .where(eq(checklistTemplates.status, 'published'))
+    .orderBy(asc(checklistTemplates.template_id), asc(checklistTemplates.version));
+
+  const templates = new Map<string, PublishedTemplate>();
+  for (const row of rows) {
+    const revision: TemplateRevision = {
+      version: row.version!,
+      date: row.published_at?.toISOString().slice(0, 10) ?? '',
+      summary: row.summary,
+      changes: (row.changes as ItemMigration[] | null) ?? [],
+    };
+    const document = row.document as TemplateDocument;
+    const weights = scoreWeightsOf(document);
+    if (weights) revision.weights = weights;
+    if (document.completion_rules) revision.completion_rules = document.completion_rules;
+    const template = templates.get(row.template_id);
+    templates.set(row.template_id, {
+      template_id: row.template_id as TemplateId,
+      version: row.version!,
+      document,
+      revisions: [...(template?.revisions ?? []), revision],
+    });
+  }
+  return [...templates.values()];
+}
+
+/**
+ * Install what the database holds. At startup, and after every publish — this
+ * server is the only writer, so nothing else can make it stale.
+ */
+export async function installStoredTemplates(): Promise<void> {
+  installPublishedTemplates(await loadPublishedTemplates());
+}
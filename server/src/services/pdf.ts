@@ -1,14 +1,74 @@
-import { jsPDF } from 'jspdf';
+/**
+ * The assessment report, rendered on the server for
+ * GET /api/assessments/:id/report and the saved copies in routes/reports.ts.
+ *
+ * A port of the PWA's generator (cpted-assessor/src/services/pdf.ts), section
+ * for section: the same cover and CPTED front matter, table of contents, school
+ * profile, summary, zone findings — Yes/No/UTO for schools, 1-5 for everything
+ * else — recommendations and waiver. A supervisor printing from the server is
+ * handing the district the same document the assessor would have, so a change
+ * to one generator belongs in the other.
+ *
+ * What differs is where the data comes from. Rows are read with Drizzle rather
+ * than Dexie, photos are read off disk into photoBase64Map, and school ratings
+ * are folded back from the rating column into score, the shape the renderers
+ * were written against. The parking-lot light surveys and the merged crime
+ * analysis are not rendered here yet; the report goes out without them rather
+ * than with a half-drawn section.
+ */
+
+import { jsPDF, GState } from 'jspdf';
 import autoTableModule from 'jspdf-autotable';
 const autoTable = autoTableModule.default ?? autoTableModule;
 import fs from 'fs/promises';
 import { eq } from 'drizzle-orm';
 import { db } from '../db/connection.js';
 import { assessments, zoneScores, itemScores, photos } from '../db/schema.js';
-import { getZonesForType, getItemGuidanceForType } from '../data/zone-registry.js';
-import type { ZoneDefinition } from '../types/index.js';
-import type { ItemGuidance } from '../data/item-guidance.js';
-import { getScoreLabel, getCompletionCounts } from './scoring.js';
+import {
+  CRITICAL_SCORE_CAP,
+  buildPrincipleMatrix,
+  calculateBuildingScore,
+  calculateCompliance,
+  calculatePrincipleCompliance,
+  calculateWeightedScore,
+  describeScoreWeights,
+  groupItemsByZone,
+  expandZones,
+  getZonesForType,
+  groupZonesByBuilding,
+  getItemGuidanceForType,
+  isWorshipType,
+  isSchoolType,
+  isCommercialType,
+  getScoreLabel,
+  getCompletionCounts,
+  formatCompliance,
+  formatMatrixValue,
+  RECOMMENDATION_STATUS_LABELS,
+  countRecommendations,
+  recommendationStatus,
+} from 'cpted-checklist';
+import type {
+  Building,
+  BuildingGroup,
+  BuildingZone,
+  ItemGuidance,
+  PrincipleMatrixCell,
+  PropertyType,
+  RecommendationStatus,
+  SchoolRating,
+  TrackedRecommendation,
+  ZoneDefinition,
+} from 'cpted-checklist';
+import type { SchoolProfile } from '../types/index.js';
+import { isApprovedFinal } from './review.js';
+import {
+  SCHOOL_PROFILE_FIELDS,
+  STUDENT_TEACHER_RATIO_LABEL,
+  hasSchoolProfileContent,
+  readSchoolProfile,
+  studentTeacherRatio,
+} from './school-profile.js';
 
 // --- Design constants ---
 const NAVY = '#1B3A5C';
@@ -18,87 +78,73 @@ const WHITE = '#FFFFFF';
 const PAGE_MARGIN = 20;
 const PAGE_WIDTH = 210; // A4 mm
 const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+// Unnumbered front-matter pages before numbering starts: the cover and the
+// "Understanding CPTED" intro. Displayed page numbering begins on the TOC.
+const FRONT_MATTER_PAGES = 2;
 
-// --- Types for gathered data ---
-type AssessmentRow = typeof assessments.$inferSelect;
-type ZoneScoreRow = typeof zoneScores.$inferSelect;
-type ItemScoreRow = typeof itemScores.$inferSelect;
-type PhotoRow = typeof photos.$inferSelect;
-
-interface PDFData {
-  assessment: AssessmentRow;
-  zoneScores: ZoneScoreRow[];
-  itemScores: ItemScoreRow[];
-  photos: PhotoRow[];
-  photoBase64Map: Map<string, string>;
-  badgeLogo: string | null;
-  zones: ZoneDefinition[];
-  itemGuidance: Map<string, ItemGuidance>;
+// --- Score color helpers (hex for PDF, no Tailwind) ---
+function getScoreColorHex(score: number): string {
+  if (score < 2) return '#DC2626'; // red-600
+  if (score < 3) return '#EA580C'; // orange-600
+  if (score < 4) return '#CA8A04'; // yellow-600
+  if (score < 5) return '#16A34A'; // green-600
+  return '#059669'; // emerald-600
 }
 
-// --- Logo loading (reads from server/assets/) ---
-async function loadLogoBase64(filename: string): Promise<string | null> {
-  try {
-    // Resolve relative to this file's location: ../assets/logos/
-    const logoPath = new URL(`../../assets/logos/${filename}`, import.meta.url);
-    const buffer = await fs.readFile(logoPath);
-    return `data:image/png;base64,${buffer.toString('base64')}`;
-  } catch {
-    return null;
-  }
+function getScoreBgHex(score: number): string {
+  if (score < 2) return '#FEF2F2'; // red-50
+  if (score < 3) return '#FFF7ED'; // orange-50
+  if (score < 4) return '#FEFCE8'; // yellow-50
+  if (score < 5) return '#F0FDF4'; // green-50
+  return '#ECFDF5'; // emerald-50
 }
 
-interface Recommendation {
-  description: string;
-  priority: string;
+// Compliance percent on the same five steps, for school reports.
+function getComplianceColorHex(percent: number): string {
+  if (percent < 50) return '#DC2626'; // red-600
+  if (percent < 70) return '#EA580C'; // orange-600
+  if (percent < 85) return '#CA8A04'; // yellow-600
+  if (percent < 95) return '#16A34A'; // green-600
+  return '#059669'; // emerald-600
 }
 
-// --- Score color helpers (hex for PDF) ---
-function getScoreColorHex(score: number): string {
-  if (score < 2) return '#DC2626';
-  if (score < 3) return '#EA580C';
-  if (score < 4) return '#CA8A04';
-  if (score < 5) return '#16A34A';
-  return '#059669';
+function getComplianceBgHex(percent: number): string {
+  if (percent < 50) return '#FEF2F2'; // red-50
+  if (percent < 70) return '#FFF7ED'; // orange-50
+  if (percent < 85) return '#FEFCE8'; // yellow-50
+  if (percent < 95) return '#F0FDF4'; // green-50
+  return '#ECFDF5'; // emerald-50
 }
 
-function getScoreBgHex(score: number): string {
-  if (score < 2) return '#FEF2F2';
-  if (score < 3) return '#FFF7ED';
-  if (score < 4) return '#FEFCE8';
-  if (score < 5) return '#F0FDF4';
-  return '#ECFDF5';
+// --- School Yes/No/UTO rating color helper (hex for PDF) ---
+function getRatingColorHex(rating: SchoolRating): string {
+  if (rating === 'yes') return '#16A34A'; // green-600
+  if (rating === 'no') return '#DC2626'; // red-600
+  return '#6B7280'; // gray-500 (UTO)
 }
 
 // --- Filename generator ---
-function generateFilename(assessment: AssessmentRow): string {
+function generateFilename(assessment: ReportAssessment): string {
   const addr = assessment.address
     .replace(/[^a-zA-Z0-9]/g, '_')
     .replace(/_+/g, '_')
     .substring(0, 40);
-  const date =
-    assessment.date_of_assessment ||
-    (assessment.created_at instanceof Date
-      ? assessment.created_at.toISOString().slice(0, 10)
-      : String(assessment.created_at).slice(0, 10));
-  return `CPTED_Assessment_${addr}_${date}.pdf`;
+  const date = assessment.date_of_assessment || assessment.created_at.toISOString().slice(0, 10);
+  const typePrefix = isSchoolType(assessment.property_type)
+    ? 'CPTED_School'
+    : isCommercialType(assessment.property_type)
+      ? 'CPTED_CommercialOffice'
+      : isWorshipType(assessment.property_type)
+        ? 'CPTED_Worship'
+        : 'CPTED_Assessment';
+  return `${typePrefix}_${addr}_${date}.pdf`;
 }
 
 // --- Format helpers ---
-function formatAssessmentType(type: string): string {
-  return type
-    .split('_')
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(' ');
-}
-
-function formatTimeOfAssessment(time: string): string {
-  return time.charAt(0).toUpperCase() + time.slice(1);
-}
-
-function formatDate(isoString: string | Date): string {
+function formatDate(isoString: string): string {
   if (!isoString) return 'N/A';
-  const d = typeof isoString === 'string' ? new Date(isoString) : isoString;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(isoString);
+  const d = dateOnly ? new Date(isoString + 'T00:00:00') : new Date(isoString);
   return d.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -106,14 +152,77 @@ function formatDate(isoString: string | Date): string {
   });
 }
 
+// --- Types for gathered data ---
+type AssessmentRow = typeof assessments.$inferSelect;
+type ZoneScoreRow = typeof zoneScores.$inferSelect;
+type PhotoRow = typeof photos.$inferSelect;
+
+/** An item_scores row with a school's rating folded back into score. */
+type ItemScoreRow = Omit<typeof itemScores.$inferSelect, 'score' | 'rating'> & {
+  score: number | SchoolRating | null;
+};
+
+interface Recommendation extends TrackedRecommendation {
+  priority: string;
+}
+
+/** The assessment row with its jsonb and varchar columns read as the PWA types them. */
+type ReportAssessment = Omit<
+  AssessmentRow,
+  'property_type' | 'top_recommendations' | 'quick_wins' | 'school_profile' | 'buildings'
+> & {
+  property_type: PropertyType;
+  buildings: Building[];
+  top_recommendations: Recommendation[];
+  quick_wins: Recommendation[];
+  school_profile: SchoolProfile | null;
+};
+
+interface PDFData {
+  assessment: ReportAssessment;
+  /** Every zone, each further building's copies after the template's own. */
+  zones: BuildingZone[];
+  /** The zones by building; a single group unless the campus has several. */
+  buildingGroups: BuildingGroup[];
+  itemGuidance: Map<string, ItemGuidance>;
+  zoneScores: ZoneScoreRow[];
+  itemScores: ItemScoreRow[];
+  photos: PhotoRow[];
+  /** Photo id → data URL, for each referenced photo that could be read. */
+  photoBase64Map: Map<string, string>;
+  badgeLogo: string | null;
+  /** The assessment a follow-up follows, when it is linked and still on file. */
+  followed: FollowedAssessment | null;
+}
+
+/** What a follow-up report reads off the assessment it follows. */
+interface FollowedAssessment {
+  property_type: PropertyType;
+  date_of_assessment: string;
+  top_recommendations: Recommendation[];
+  quick_wins: Recommendation[];
+}
+
+// --- Logo loading (reads from server/assets/) ---
+async function loadLogoBase64(filename: string): Promise<string | null> {
+  try {
+    // Resolve relative to this file's location: ../assets/logos/
+    const logoPath = new URL(`../../assets/logos/${filename}`, import.meta.url);
+    const buffer = await fs.readFile(logoPath);
+    return `data:image/png;base64,${buffer.toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
 // --- Data gathering (Drizzle queries instead of Dexie) ---
 async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
-  const [assessment] = await db
+  const [row] = await db
     .select()
     .from(assessments)
     .where(eq(assessments.id, assessmentId));
 
-  if (!assessment) throw new Error('Assessment not found');
+  if (!row) throw new Error('Assessment not found');
 
   const [zones, items, photoRows] = await Promise.all([
     db
@@ -133,6 +242,13 @@ async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
   // Sort zones by zone_order
   zones.sort((a, b) => a.zone_order - b.zone_order);
 
+  // School ratings ('yes'/'no'/'uto') are stored in the separate rating column;
+  // merge them back into score, as GET /api/assessments/:id does.
+  const mergedItems: ItemScoreRow[] = items.map(({ rating, ...rest }) => ({
+    ...rest,
+    score: (rating as SchoolRating | null) ?? rest.score,
+  }));
+
   // Only include photos still referenced by an item_score's photo_ids
   const referencedIds = new Set(items.flatMap((s) => (s.photo_ids as string[]) || []));
   const validPhotos = photoRows.filter((p) => referencedIds.has(p.id));
@@ -150,53 +266,127 @@ async function gatherAssessmentData(assessmentId: string): Promise<PDFData> {
     }
   }
 
-  // Load logo
-  const badgeLogo = await loadLogoBase64('volusia_sheriff_badge_transparent.png');
+  const badgeLogo = await loadLogoBase64('volusia_sheriff_badge_star.png');
+
+  let followed: FollowedAssessment | null = null;
+  if (row.assessment_type === 'follow_up' && row.follows_assessment_id) {
+    const [earlier] = await db
+      .select({
+        property_type: assessments.property_type,
+        date_of_assessment: assessments.date_of_assessment,
+        top_recommendations: assessments.top_recommendations,
+        quick_wins: assessments.quick_wins,
+      })
+      .from(assessments)
+      .where(eq(assessments.id, row.follows_assessment_id));
+    if (earlier) {
+      followed = {
+        property_type: (earlier.property_type as PropertyType) || 'single_family_residential',
+        date_of_assessment: earlier.date_of_assessment,
+        top_recommendations: (earlier.top_recommendations as Recommendation[]) || [],
+        quick_wins: (earlier.quick_wins as Recommendation[]) || [],
+      };
+    }
+  }
 
   // Resolve zone definitions and item guidance by property type
-  const propertyType = (assessment.property_type as import('../types/index.js').PropertyType) || 'single_family_residential';
-  const zoneDefinitions = getZonesForType(propertyType);
-  const itemGuidance = getItemGuidanceForType(propertyType);
+  const propertyType = (row.property_type as PropertyType) || 'single_family_residential';
+  const assessment: ReportAssessment = {
+    ...row,
+    property_type: propertyType,
+    top_recommendations: (row.top_recommendations as Recommendation[]) || [],
+    quick_wins: (row.quick_wins as Recommendation[]) || [],
+    school_profile: readSchoolProfile(row.school_profile),
+    buildings: (row.buildings as Building[]) || [],
+  };
+  const expanded = expandZones(
+    getZonesForType(propertyType, row.template_version),
+    assessment.buildings,
+    row.main_building_name,
+  );
 
   return {
     assessment,
+    zones: expanded,
+    buildingGroups: groupZonesByBuilding(expanded, assessment.buildings, row.main_building_name),
+    itemGuidance: getItemGuidanceForType(propertyType),
     zoneScores: zones,
-    itemScores: items,
+    itemScores: mergedItems,
     photos: validPhotos,
     photoBase64Map,
     badgeLogo,
-    zones: zoneDefinitions,
-    itemGuidance,
+    followed,
   };
 }
 
-// --- Page helpers ---
-function getReportTitle(assessment: AssessmentRow): string {
-  return assessment.property_type === 'places_of_worship'
-    ? 'CPTED Places of Worship Assessment'
-    : 'CPTED Residential Assessment';
+/** Data URLs of the photos attached to an item, in the order they were taken. */
+function itemPhotoData(data: PDFData, itemId: string): string[] {
+  return data.photos
+    .filter((p) => p.item_score_id === itemId)
+    .map((p) => data.photoBase64Map.get(p.id))
+    .filter((b64): b64 is string => b64 !== undefined);
 }
 
-function addPageFooter(doc: jsPDF, pageNum: number, assessment?: AssessmentRow) {
+// --- Page helpers ---
+const FOOTER_TEXT = "CPTED Report - Volusia Sheriff's Office";
+
+// pageNum is the jsPDF page index. Front-matter pages (cover + CPTED intro)
+// carry no footer; displayed numbering starts at 1 on the table of contents,
+// so we show (pageNum - FRONT_MATTER_PAGES).
+function addPageFooter(doc: jsPDF, pageNum: number, frontMatter = FRONT_MATTER_PAGES) {
+  if (pageNum <= frontMatter) return;
   const pageHeight = doc.internal.pageSize.getHeight();
-  const title = assessment ? getReportTitle(assessment) : 'CPTED Assessment';
+  doc.setFont('helvetica', 'normal');
   doc.setFontSize(8);
   doc.setTextColor(150);
   doc.text(
-    `${title} Report — Volusia Sheriff's Office`,
+    FOOTER_TEXT,
     PAGE_MARGIN,
     pageHeight - 8,
   );
-  doc.text(`Page ${pageNum}`, PAGE_WIDTH - PAGE_MARGIN, pageHeight - 8, {
-    align: 'right',
+  doc.text(
+    `Page ${pageNum - frontMatter}`,
+    PAGE_WIDTH - PAGE_MARGIN,
+    pageHeight - 8,
+    { align: 'right' },
+  );
+}
+
+// Red "CONFIDENTIAL" marking centered at the top of every page except the cover
+// (whose navy banner would swallow it). The report contains security-system
+// details exempt from public disclosure.
+function addConfidentialHeader(doc: jsPDF, pageNum: number) {
+  if (pageNum <= 1) return; // skip the cover
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.setTextColor('#B91C1C'); // red-700
+  doc.text('CONFIDENTIAL', PAGE_WIDTH / 2, 8, { align: 'center' });
+}
+
+// A diagonal DRAFT across the page for any report a supervisor has not approved
+// at the revision being printed. Drawn over the content at low opacity, so the
+// findings stay readable underneath — a draft is printed to be reviewed.
+function addDraftWatermark(doc: jsPDF) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  doc.saveGraphicsState();
+  doc.setGState(new GState({ opacity: 0.12 }));
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(110);
+  doc.setTextColor('#DC2626'); // red-600
+  doc.text('DRAFT', PAGE_WIDTH / 2, pageHeight / 2, {
+    align: 'center',
+    baseline: 'middle',
+    angle: 45,
   });
+  doc.restoreGraphicsState();
 }
 
+// Footers are stamped in a single final pass in generatePDFBuffer, so page-adding
+// here doesn't need to footer — it just makes room.
 function ensureSpace(doc: jsPDF, needed: number, currentY: number): number {
   const pageHeight = doc.internal.pageSize.getHeight();
   if (currentY + needed > pageHeight - 20) {
     doc.addPage();
-    addPageFooter(doc, doc.getNumberOfPages());
     return 20;
   }
   return currentY;
@@ -204,112 +394,289 @@ function ensureSpace(doc: jsPDF, needed: number, currentY: number): number {
 
 // --- Section renderers ---
 
+// Formal document-style title page (applies to every report type). Kept minimal:
+// badge + agency at the top, the CPTED title, and the property/owner name above
+// its address. No footer/page number — page numbering starts on the TOC.
 function renderCoverPage(doc: jsPDF, data: PDFData): void {
   const { assessment } = data;
+  const titleLines = ['Crime Prevention Through', 'Environmental Design Report'];
+  const cx = PAGE_WIDTH / 2;
+  const DIV = 52; // half-width of the centered divider lines
 
-  doc.setFillColor(NAVY);
-  doc.rect(0, 0, PAGE_WIDTH, 60, 'F');
+  const pageHeight = doc.internal.pageSize.getHeight();
 
-  // Badge logo on the left
+  // Top band — navy, matching the report's section headers
+  doc.setFillColor(NAVY);
+  doc.rect(0, 0, PAGE_WIDTH, 16, 'F');
+
+  // Vertically center the whole masthead/title/address block in the area between
+  // the top and bottom bands. blockHeight sums the vertical advances below.
+  const badgeW = 44;
+  const badgeH = badgeW * (316 / 342);
+  const hasName = !!assessment.homeowner_name;
+  const blockHeight =
+    (data.badgeLogo ? badgeH : 0) + 12 + 10 + 18 + 9 + 16 + 18 + (hasName ? 6 : 0) + 6;
+  let y = 16 + ((pageHeight - 32) - blockHeight) / 2;
+
+  // Badge logo, centered (aspect ratio preserved — the star badge is ~342x316)
   if (data.badgeLogo) {
     try {
-      doc.addImage(data.badgeLogo, 'PNG', PAGE_MARGIN - 2, 6, 22, 22);
+      doc.addImage(data.badgeLogo, 'PNG', cx - badgeW / 2, y, badgeW, badgeH);
     } catch { /* skip if logo fails */ }
+    y += badgeH + 12;
+  } else {
+    y += 12;
   }
 
-  // Title text
-  doc.setTextColor(WHITE);
-  doc.setFontSize(22);
+  // Agency + unit, directly under the badge — the masthead, larger than the
+  // CPTED title below it. Unit text shares the navy of the rest of the text.
   doc.setFont('helvetica', 'bold');
-  doc.text(getReportTitle(assessment), PAGE_WIDTH / 2, 25, { align: 'center' });
-  doc.setFontSize(12);
+  doc.setFontSize(21);
+  doc.setTextColor(NAVY);
+  doc.text("Volusia Sheriff's Office", cx, y, { align: 'center' });
+  y += 10;
   doc.setFont('helvetica', 'normal');
-  doc.text('Crime Prevention Through Environmental Design', PAGE_WIDTH / 2, 35, {
-    align: 'center',
-  });
-  doc.setFontSize(10);
-  doc.text("Volusia Sheriff's Office", PAGE_WIDTH / 2, 45, { align: 'center' });
-
-  let y = 75;
+  doc.setFontSize(21);
   doc.setTextColor(NAVY);
-  doc.setFontSize(16);
+  doc.text('Domestic Security Unit', cx, y, { align: 'center' });
+  y += 18;
+
+  // CPTED report title — same size (21pt) as the masthead above, kept bold.
+  // Title case (not all-caps) so it doesn't read visually larger than the
+  // mixed-case agency/unit lines above it.
   doc.setFont('helvetica', 'bold');
-  doc.text(assessment.address, PAGE_WIDTH / 2, y, { align: 'center' });
-  y += 7;
+  doc.setFontSize(21);
+  doc.setTextColor(NAVY);
+  doc.text(titleLines[0], cx, y, { align: 'center' });
+  y += 9;
+  doc.text(titleLines[1], cx, y, { align: 'center' });
+  y += 16;
+
+  // Divider
+  doc.setDrawColor(MEDIUM_BLUE);
+  doc.setLineWidth(0.4);
+  doc.line(cx - DIV, y, cx + DIV, y);
+  y += 18;
+
+  // Property/owner name (bold) above the address; address lines uniform & not bold
+  doc.setFontSize(13);
+  doc.setTextColor(NAVY);
+  if (assessment.homeowner_name) {
+    doc.setFont('helvetica', 'bold');
+    doc.text(assessment.homeowner_name, cx, y, { align: 'center' });
+    y += 6;
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.text(assessment.address, cx, y, { align: 'center' });
+  y += 6;
+  doc.text(`${assessment.city}, ${assessment.state} ${assessment.zip}`, cx, y, { align: 'center' });
+
+  // Bottom band — navy, matching the top band and the report's section headers
+  doc.setFillColor(NAVY);
+  doc.rect(0, pageHeight - 16, PAGE_WIDTH, 16, 'F');
+
+  // No footer on the cover — page numbering begins on the table of contents.
+}
+
+// Brief "what is CPTED" explainer, placed between the cover and the table of
+// contents as unnumbered front matter. Mirrors the CPTED Concept framing from
+// the Volusia survey (five overlapping strategies).
+function renderCptedIntro(doc: jsPDF): void {
+  doc.addPage();
+  let y = 20;
+
+  // Header bar
+  doc.setFillColor(NAVY);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 12, 'F');
   doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(WHITE);
+  doc.text('Understanding CPTED', PAGE_MARGIN + 4, y + 8);
+  y += 22;
+
+  // Intro paragraph
+  doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(
-    `${assessment.city}, ${assessment.state} ${assessment.zip}`,
-    PAGE_WIDTH / 2,
-    y,
-    { align: 'center' },
-  );
+  doc.setTextColor(50);
+  const intro =
+    'Crime Prevention Through Environmental Design (CPTED) is based on the principle that the proper design and effective use of the built environment can lead to a reduction in both crime and the fear of crime, improving the overall quality of life. Rather than relying on security hardware alone, CPTED uses physical design, landscaping, lighting, and the everyday use of space to discourage offenders while supporting the people who legitimately use a property.';
+  const introLines = doc.splitTextToSize(intro, CONTENT_WIDTH);
+  doc.text(introLines, PAGE_MARGIN, y);
+  y += introLines.length * 5 + 6;
 
-  y += 15;
-  const leftX = PAGE_MARGIN + 5;
-  const rightX = PAGE_WIDTH / 2 + 10;
-  const lineHeight = 7;
-
-  const isWorship = assessment.property_type === 'places_of_worship';
-  const ownerLabel = isWorship ? 'Organization:' : 'Homeowner:';
-  const contactLabel = isWorship ? 'Contact Person:' : 'Contact:';
-
-  const metaItems: [string, string, number][] = [
-    [ownerLabel, assessment.homeowner_name, leftX],
-    ['Assessment Date:', formatDate(assessment.date_of_assessment), rightX],
-    [contactLabel, assessment.homeowner_contact || 'N/A', leftX],
-    ['Assessment Type:', formatAssessmentType(assessment.assessment_type), rightX],
-    ['Phone:', assessment.contact_phone || 'N/A', leftX],
-    ['Time:', formatTimeOfAssessment(assessment.time_of_assessment), rightX],
-    ['Assessor:', assessment.assessor_name, leftX],
-    ['Badge ID:', assessment.assessor_badge_id || 'N/A', rightX],
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('A CPTED review considers five overlapping strategies:', PAGE_MARGIN, y);
+  y += 8;
+
+  const strategies: [string, string][] = [
+    ['Natural Surveillance', 'Designing and maintaining spaces so that people and activity remain easily visible to others.'],
+    ['Natural Access Control', 'Using entrances, walkways, fencing, and landscaping to guide movement and control who can enter an area.'],
+    ['Territorial Reinforcement', 'Using boundaries, signage, and ownership cues to clearly distinguish private space from public space.'],
+    ['Maintenance & Image', 'Keeping a property clean and well maintained as an ongoing expression of active ownership and care.'],
+    ['Target Hardening', 'Strengthening physical security through locks, doors, lighting, alarms, cameras, and similar measures.'],
   ];
 
+  for (const [label, desc] of strategies) {
+    // Bullet + bold strategy name
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.setTextColor(NAVY);
+    doc.text(`•  ${label}`, PAGE_MARGIN + 2, y);
+    y += 5;
+    // Description, indented
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    const descLines = doc.splitTextToSize(desc, CONTENT_WIDTH - 8);
+    doc.text(descLines, PAGE_MARGIN + 7, y);
+    y += descLines.length * 4 + 4;
+  }
+
+  y += 4;
   doc.setFontSize(10);
-  for (let i = 0; i < metaItems.length; i += 2) {
-    const row = Math.floor(i / 2);
-    const rowY = y + row * lineHeight;
+  doc.setFont('helvetica', 'italic');
+  doc.setTextColor(80);
+  const closing =
+    'The findings and recommendations in this report identify opportunities to strengthen these strategies. They are offered as voluntary guidance to help reduce risk and cannot guarantee the prevention of all criminal activity.';
+  const closingLines = doc.splitTextToSize(closing, CONTENT_WIDTH);
+  doc.text(closingLines, PAGE_MARGIN, y);
+
+  // No footer — this is unnumbered front matter.
+}
 
-    for (let j = 0; j < 2 && i + j < metaItems.length; j++) {
-      const [label, value, x] = metaItems[i + j];
-      doc.setFont('helvetica', 'bold');
-      doc.setTextColor(NAVY);
-      doc.text(label, x, rowY);
-      doc.setFont('helvetica', 'normal');
-      doc.setTextColor(80);
-      doc.text(value, x + doc.getTextWidth(label) + 3, rowY);
-    }
-  }
+// School summary: no 1–5 scores — a narrative of findings with the compliance
+// figure (percent of observable items met), then zone and principle indexes
+// with compliance and the Unable to Observe counts kept apart.
+function renderSchoolSummaryPage(doc: jsPDF, data: PDFData): void {
+  doc.addPage();
+  let y = 20;
 
-  y += Math.ceil(metaItems.length / 2) * lineHeight + 15;
-  const overall = assessment.overall_score;
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Assessment Summary', PAGE_MARGIN, y);
+  y += 8;
 
-  doc.setFillColor(LIGHT_BLUE);
-  doc.roundedRect(PAGE_WIDTH / 2 - 40, y, 80, 45, 4, 4, 'F');
+  const rated = data.itemScores.filter((s) => s.score !== null && !s.is_na);
+  const noCount = rated.filter((s) => s.score === 'no').length;
+  const utoCount = rated.filter((s) => s.score === 'uto').length;
+
+  const zoneCountWord =
+    data.zones.length === 10
+      ? 'ten'
+      : data.zones.length === 11
+        ? 'eleven'
+        : String(data.zones.length);
+
+  let narrative = `This assessment evaluated ${data.assessment.address} across ${zoneCountWord} school security zones, covering ${rated.length} checklist item${rated.length === 1 ? '' : 's'} rated Yes, No, or Unable to Observe.`;
+  narrative += ` ${noCount} item${noCount === 1 ? ' was' : 's were'} marked "No" and ${noCount === 1 ? 'is' : 'are'} addressed in the zone findings and recommendations that follow.`;
+  if (utoCount > 0) {
+    narrative += ` ${utoCount} item${utoCount === 1 ? ' was' : 's were'} unable to be observed during the visit.`;
+  }
+  const compliance = calculateCompliance(data.itemScores);
+  if (compliance.percent !== null) {
+    narrative += ` Overall, ${formatCompliance(compliance.percent)} of the observable items were met (${compliance.met} of ${compliance.met + compliance.notMet}); items unable to be observed are not counted either way.`;
+  }
 
   doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60);
+  const narrativeLines = doc.splitTextToSize(narrative, CONTENT_WIDTH);
+  doc.text(narrativeLines, PAGE_MARGIN, y);
+  y += narrativeLines.length * 4 + 6;
+
+  doc.setDrawColor(LIGHT_BLUE);
+  doc.setLineWidth(0.3);
+  doc.line(PAGE_MARGIN, y, PAGE_WIDTH - PAGE_MARGIN, y);
+  y += 8;
+
+  doc.setFontSize(11);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(NAVY);
-  doc.text('OVERALL SCORE', PAGE_WIDTH / 2, y + 10, { align: 'center' });
+  doc.text('Zones', PAGE_MARGIN, y);
+  y += 3;
 
-  if (overall !== null) {
-    doc.setFontSize(28);
-    doc.setTextColor(getScoreColorHex(overall));
-    doc.text(overall.toFixed(1), PAGE_WIDTH / 2, y + 28, { align: 'center' });
-    doc.setFontSize(10);
-    doc.text(getScoreLabel(overall), PAGE_WIDTH / 2, y + 38, { align: 'center' });
-  } else {
-    doc.setFontSize(20);
-    doc.setTextColor(150);
-    doc.text('N/A', PAGE_WIDTH / 2, y + 30, { align: 'center' });
-  }
+  const zoneRows = data.zones.map((zone) => {
+    const zs = data.zoneScores.find((z) => z.zone_key === zone.key);
+    const zoneItems = data.itemScores.filter((s) => s.zone_key === zone.key);
+    const counts = getCompletionCounts(zoneItems);
+    const zoneCompliance = calculateCompliance(zoneItems);
+    return [
+      String(zone.order),
+      zone.name,
+      zoneCompliance.percent !== null ? formatCompliance(zoneCompliance.percent) : '\u2014',
+      `${counts.scored} / ${counts.total}`,
+      String(zoneCompliance.uto),
+      zs?.completed ? 'Complete' : counts.scored > 0 ? 'Partial' : 'Not Started',
+    ];
+  });
 
-  addPageFooter(doc, 1, assessment);
+  autoTable(doc, {
+    startY: y,
+    head: [['#', 'Zone', 'Compliance', 'Items Rated', 'UTO', 'Status']],
+    body: zoneRows,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 9 },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    columnStyles: {
+      0: { cellWidth: 10, halign: 'center' },
+      1: { cellWidth: 'auto' },
+      2: { cellWidth: 24, halign: 'center' },
+      3: { cellWidth: 24, halign: 'center' },
+      4: { cellWidth: 14, halign: 'center' },
+      5: { cellWidth: 24, halign: 'center' },
+    },
+  });
+  // @ts-expect-error — autoTable attaches lastAutoTable to the doc at runtime
+  y = (doc.lastAutoTable?.finalY ?? y) + 10;
+
+  // The same figure by principle, across every zone.
+  const principles = [...new Map(data.zones.flatMap((z) => z.principles.map((p) => [p.key, p.name] as const)))]
+    .map(([key, name]) => ({ name, ...calculatePrincipleCompliance(data.itemScores, key) }))
+    .filter((p) => p.met + p.notMet + p.uto > 0);
+  if (principles.length === 0) return;
+
+  y = ensureSpace(doc, 30, y);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Principles', PAGE_MARGIN, y);
+  y += 3;
+
+  autoTable(doc, {
+    startY: y,
+    head: [['Principle', 'Compliance', 'Met', 'Not Met', 'UTO']],
+    body: principles.map((p) => [
+      p.name,
+      p.percent !== null ? formatCompliance(p.percent) : '\u2014',
+      String(p.met),
+      String(p.notMet),
+      String(p.uto),
+    ]),
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 9 },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50] },
+    columnStyles: {
+      0: { cellWidth: 'auto' },
+      1: { cellWidth: 24, halign: 'center' },
+      2: { cellWidth: 18, halign: 'center' },
+      3: { cellWidth: 18, halign: 'center' },
+      4: { cellWidth: 18, halign: 'center' },
+    },
+  });
 }
 
 function renderSummaryPage(doc: jsPDF, data: PDFData): void {
+  // Schools use a score-free summary (no overall, no zone averages, no tallies).
+  if (isSchoolType(data.assessment.property_type)) {
+    renderSchoolSummaryPage(doc, data);
+    return;
+  }
+
   doc.addPage();
-  const pageNum = doc.getNumberOfPages();
   let y = 20;
 
   // Page title
@@ -325,10 +692,10 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
   ).length;
   const overall = data.assessment.overall_score;
   const attentionItems = data.itemScores.filter(
-    (s) => s.score !== null && !s.is_na && s.score! <= 2,
+    (s) => typeof s.score === 'number' && !s.is_na && s.score <= 2,
   );
   const strongItems = data.itemScores.filter(
-    (s) => s.score !== null && !s.is_na && s.score! >= 4,
+    (s) => typeof s.score === 'number' && !s.is_na && s.score >= 4,
   );
 
   const scoredZones = data.zones.map((zone) => {
@@ -340,9 +707,26 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
   const worstZones = scoredZones.filter((z) => z.score < 3).slice(0, 2);
   const bestZones = scoredZones.filter((z) => z.score >= 4).slice(-2).reverse();
 
-  let narrative = `This assessment evaluated ${data.assessment.address} across ${data.zones.length} security zones, covering ${totalScored} checklist items.`;
+  const zoneCountWord =
+    data.zones.length === 7
+      ? 'seven'
+      : data.zones.length === 8
+        ? 'eight'
+        : data.zones.length === 10
+          ? 'ten'
+          : data.zones.length === 11
+            ? 'eleven'
+            : String(data.zones.length);
+  const typeLabel = isSchoolType(data.assessment.property_type)
+    ? 'school security'
+    : isCommercialType(data.assessment.property_type)
+      ? 'commercial office security'
+      : isWorshipType(data.assessment.property_type)
+        ? 'facility security'
+        : 'residential security';
+  let narrative = `This assessment evaluated ${data.assessment.address} across ${zoneCountWord} ${typeLabel} zones, covering ${totalScored} checklist items.`;
   if (overall !== null) {
-    narrative += ` The property received an overall score of ${overall.toFixed(1)} (${getScoreLabel(overall)}).`;
+    narrative += ` The property received a weighted overall score of ${overall.toFixed(1)} (${getScoreLabel(overall)}).`;
   }
   narrative += ` ${attentionItems.length} item${attentionItems.length === 1 ? ' was' : 's were'} identified as requiring attention, while ${strongItems.length} item${strongItems.length === 1 ? '' : 's'} demonstrated strong security practices.`;
   if (worstZones.length > 0) {
@@ -359,6 +743,8 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
   doc.text(narrativeLines, PAGE_MARGIN, y);
   y += narrativeLines.length * 4 + 6;
 
+  y = renderScoreWeighting(doc, data, y);
+
   // Horizontal rule
   doc.setDrawColor(LIGHT_BLUE);
   doc.setLineWidth(0.3);
@@ -475,10 +861,74 @@ function renderSummaryPage(doc: jsPDF, data: PDFData): void {
     },
   });
 
-  addPageFooter(doc, pageNum, data.assessment);
 }
 
+// Zones down, CPTED principles across, each cell coloured like the zone table:
+// a principle weak throughout the site shows as a column, where the zone pages
+// spread it across a dozen findings. Its own page after the summary; skipped
+// until something is rated.
+function renderPrincipleMatrix(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
+  const matrix = buildPrincipleMatrix(data.assessment.property_type, data.zones, data.itemScores);
+  if (!matrix.totals.some((cell) => cell.value !== null)) return;
+  const compliance = matrix.mode === 'compliance';
+
+  doc.addPage();
+  toc.push({ label: 'Principles by Zone', page: doc.getNumberOfPages(), level: 0 });
+  let y = 20;
+
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Principles by Zone', PAGE_MARGIN, y);
+  y += 8;
+
+  let intro = compliance
+    ? "Each cell is the percent of the zone's observable items met under that CPTED principle; the last row is each principle across the whole campus."
+    : "Each cell is the average score of the zone's items under that CPTED principle; the last row is each principle across the whole property.";
+  intro += ' A column that runs low points to a strategy weak throughout the site, not just in one area.';
+  if (matrix.weakest) {
+    intro += ` The weakest principle overall is ${matrix.weakest.name}, at ${formatMatrixValue(matrix.mode, matrix.weakest.value)}${compliance ? ' met' : ''}.`;
+  }
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60);
+  const introLines = doc.splitTextToSize(intro, CONTENT_WIDTH);
+  doc.text(introLines, PAGE_MARGIN, y);
+  y += introLines.length * 4 + 4;
+
+  const cellText = (cell: PrincipleMatrixCell) =>
+    cell.value !== null ? formatMatrixValue(matrix.mode, cell.value) : '\u2014';
+  const body = [
+    ...matrix.rows.map((row) => [row.zone_name, ...row.cells.map(cellText)]),
+    ['All zones', ...matrix.totals.map(cellText)],
+  ];
+
+  autoTable(doc, {
+    startY: y,
+    head: [['Zone', ...matrix.principles.map((p) => p.name)]],
+    body,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 8, halign: 'center' },
+    bodyStyles: { fontSize: 9, textColor: [50, 50, 50], halign: 'center' },
+    columnStyles: { 0: { cellWidth: 50, halign: 'left' } },
+    didParseCell(hookData) {
+      if (hookData.section !== 'body') return;
+      const totalsRow = hookData.row.index === matrix.rows.length;
+      if (totalsRow) hookData.cell.styles.fontStyle = 'bold';
+      if (hookData.column.index === 0) return;
+      const cells = totalsRow ? matrix.totals : matrix.rows[hookData.row.index].cells;
+      const value = cells[hookData.column.index - 1].value;
+      if (value === null) return;
+      hookData.cell.styles.textColor = compliance ? getComplianceColorHex(value) : getScoreColorHex(value);
+      hookData.cell.styles.fillColor = compliance ? getComplianceBgHex(value) : getScoreBgHex(value);
+    },
+  });
+}
+
+// Resident-friendly zone descriptions (replaces assessor-facing instructions)
 const ZONE_RESIDENT_DESCRIPTIONS: Record<string, string> = {
+  // Residential
   street_approach:
     'This section evaluates how your property appears from the street, including visibility of your address and front entry, and how clearly defined the approach to your home is.',
   front_yard:
@@ -492,46 +942,442 @@ const ZONE_RESIDENT_DESCRIPTIONS: Record<string, string> = {
   exterior_lighting:
     'Good exterior lighting is one of the most effective security improvements for any home. This section reviews the quality, placement, and coverage of your outdoor lighting.',
   windows_interior:
-    "This section covers window security, interior visibility considerations, security systems, and daily routines that affect your home's overall safety profile.",
+    'This section covers window security, interior visibility considerations, security systems, and daily routines that affect your home\'s overall safety profile.',
+  // Places of Worship
+  perimeter_parking:
+    'This section evaluates the property perimeter, signage, parking areas, and how well access points are defined and monitored.',
+  building_exterior:
+    'This section reviews the building exterior, grounds maintenance, secondary doors, and utility areas for security and visibility.',
+  main_entry:
+    'This section covers the main entrance experience, greeting areas, and how well visitors are observed and welcomed upon arrival.',
+  sanctuary:
+    'This section assesses the primary worship space for sight lines, emergency preparedness, and security of sacred objects and clergy areas.',
+  fellowship_spaces:
+    'This section evaluates fellowship halls, kitchens, and meeting rooms used for community events — focusing on access control and emergency egress.',
+  education_children:
+    'Children\'s ministry areas require the highest level of access control and supervision. This section reviews check-in systems, classroom security, and child protection policies.',
+  admin_support:
+    'This section covers administrative offices, financial areas, and IT infrastructure — spaces that contain sensitive information and valuables.',
+  lighting_surveillance:
+    'Exterior lighting and surveillance systems are critical for places of worship, which are often unoccupied for extended periods. This section reviews coverage and functionality.',
 };
 
-// Render inline photos for a specific item (2 per row, compact) — server version
-function renderItemPhotosServer(doc: jsPDF, itemId: string, data: PDFData, y: number): number {
-  const itemPhotos = data.photos.filter((p) => p.item_score_id === itemId);
-  const hasAny = itemPhotos.some((p) => data.photoBase64Map.has(p.id));
-  if (!hasAny) return y;
+// Render inline photos for a specific item (2 per row, compact)
+function renderItemPhotos(doc: jsPDF, item: ItemScoreRow, data: PDFData, y: number): number {
+  const itemPhotos = itemPhotoData(data, item.id);
+  if (itemPhotos.length === 0) return y;
+
+  const photoWidth = (CONTENT_WIDTH - 10) / 2; // 2 per row with gap
+  const photoHeight = photoWidth * 0.65; // slightly shorter aspect ratio for inline
+  let col = 0;
+
+  for (const photo of itemPhotos) {
+    y = ensureSpace(doc, photoHeight + 5, y);
+    const x = PAGE_MARGIN + 3 + col * (photoWidth + 4);
+    try {
+      doc.addImage(photo, 'JPEG', x, y, photoWidth, photoHeight);
+    } catch {
+      // Skip photos that fail to render
+    }
+    col++;
+    if (col >= 2) {
+      col = 0;
+      y += photoHeight + 3;
+    }
+  }
+  // Advance past last partial row
+  if (col > 0) {
+    y += photoHeight + 3;
+  }
+  return y;
+}
+
+// An assessor's custom item is marked wherever its wording is printed, so the
+// reader can tell the assessor's own checks from the standard checklist's.
+// Kept in step with the PWA's pdf.ts.
+function printedItemText(item: ItemScoreRow): string {
+  return item.is_custom ? `${item.item_text} [Custom item]` : item.item_text;
+}
+
+// The CPTED guidance printed under a finding: the template's, looked up by
+// key, or for a custom item whatever the assessor wrote — which has no
+// standard half, only the action to take.
+function findingGuidance(item: ItemScoreRow, data: PDFData): ItemGuidance | undefined {
+  if (item.is_custom) {
+    return item.custom_guidance ? { standard: '', improvement: item.custom_guidance } : undefined;
+  }
+  return item.item_key ? data.itemGuidance.get(item.item_key) : undefined;
+}
+
+// Renders one deficient item as a red "finding" card: item row + rating badge,
+// optional assessor note callout, optional CPTED guidance block, inline photos.
+// Used for both numeric concerns (1-2) and school "No" items — the badge label
+// and color are passed in so the body is identical for both rating systems.
+function renderFindingCard(
+  doc: jsPDF,
+  data: PDFData,
+  item: ItemScoreRow,
+  y: number,
+  ratingLabel: string,
+  ratingColorHex: string,
+): number {
+  const guidance = findingGuidance(item, data);
+
+  // Item text — set size first so wrapping matches the rendered size
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  const itemLines = doc.splitTextToSize(printedItemText(item), CONTENT_WIDTH - 30);
+  const itemRowHeight = Math.max(itemLines.length * 4.3 + 5, 12);
+
+  // Estimate total height for the page-break check
+  const estimatedHeight =
+    itemRowHeight + (item.notes?.trim() ? 16 : 0) + (guidance ? 32 : 0);
+  y = ensureSpace(doc, estimatedHeight, y);
+
+  // Item row — light red background
+  doc.setFillColor('#FEE2E2');
+  doc.roundedRect(PAGE_MARGIN, y, CONTENT_WIDTH, itemRowHeight, 1, 1, 'F');
+  doc.setTextColor(50);
+  doc.text(itemLines, PAGE_MARGIN + 3, y + 6);
+
+  // Rating badge on right
+  const badgeWidth = 20;
+  const badgeX = PAGE_WIDTH - PAGE_MARGIN - badgeWidth - 2;
+  doc.setFillColor(ratingColorHex);
+  doc.roundedRect(badgeX, y + 2, badgeWidth, 5.5, 1, 1, 'F');
+  doc.setFontSize(6.5);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(WHITE);
+  doc.text(ratingLabel, badgeX + badgeWidth / 2, y + 5.8, { align: 'center' });
+
+  y += itemRowHeight + 1.5;
+
+  // Assessor notes (if present) — styled as a visible callout
+  if (item.notes.trim()) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    const noteLines = doc.splitTextToSize(item.notes.trim(), CONTENT_WIDTH - 18);
+    const noteBlockHeight = noteLines.length * 3.9 + 7;
+    y = ensureSpace(doc, noteBlockHeight, y);
+
+    doc.setFillColor('#FEF3C7'); // amber-100
+    doc.roundedRect(PAGE_MARGIN + 3, y, CONTENT_WIDTH - 6, noteBlockHeight, 1, 1, 'F');
+
+    doc.setFillColor('#D97706'); // amber-600
+    doc.rect(PAGE_MARGIN + 3, y, 1.5, noteBlockHeight, 'F');
+
+    doc.setFontSize(7.5);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#92400E'); // amber-800
+    doc.text('Assessor Note:', PAGE_MARGIN + 8, y + 4.5);
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor('#78350F'); // amber-900
+    doc.text(noteLines, PAGE_MARGIN + 8, y + 4.5 + 4);
+
+    y += noteBlockHeight + 2;
+  }
+
+  // CPTED Guidance block (if found)
+  if (guidance) {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    const standardLines: string[] = guidance.standard
+      ? doc.splitTextToSize(guidance.standard, CONTENT_WIDTH - 16)
+      : [];
+    const improvementLines = doc.splitTextToSize(guidance.improvement, CONTENT_WIDTH - 16);
+    const guidanceHeight =
+      (standardLines.length > 0 ? 4 + 4 + standardLines.length * 3.5 : 0) +
+      4 + 4 + improvementLines.length * 3.5 + 4;
+    y = ensureSpace(doc, guidanceHeight, y);
+
+    doc.setFillColor('#FFF5F5');
+    doc.roundedRect(PAGE_MARGIN + 3, y, CONTENT_WIDTH - 6, guidanceHeight, 1, 1, 'F');
+
+    doc.setFillColor('#DC2626');
+    doc.rect(PAGE_MARGIN + 3, y, 1.5, guidanceHeight, 'F');
+
+    let gy = y + 4.5;
+    doc.setFontSize(8);
+    if (standardLines.length > 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor('#991B1B');
+      doc.text('CPTED Standard:', PAGE_MARGIN + 8, gy);
+      gy += 4;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(60);
+      doc.text(standardLines, PAGE_MARGIN + 8, gy);
+      gy += standardLines.length * 3.5 + 4;
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#991B1B');
+    doc.text('How to Improve:', PAGE_MARGIN + 8, gy);
+    gy += 4;
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(60);
+    doc.text(improvementLines, PAGE_MARGIN + 8, gy);
+
+    y += guidanceHeight + 3;
+  }
+
+  // Inline photos for this item
+  y = renderItemPhotos(doc, item, data, y);
+
+  y += 3; // Gap before next item
+  return y;
+}
+
+// School (Yes/No/UTO) zone body — No findings (red, with guidance), then an
+// Unable-to-Observe list, then compliant items. Keeps the residential card look.
+function renderSchoolZoneBody(
+  doc: jsPDF,
+  data: PDFData,
+  zone: ZoneDefinition,
+  y: number,
+): number {
+  const zoneItems = data.itemScores.filter((s) => s.zone_key === zone.key);
+  const findings = zoneItems.filter((s) => s.score === 'no');
+  const utoItems = zoneItems.filter((s) => s.score === 'uto');
+  const compliant = zoneItems.filter((s) => s.score === 'yes');
+
+  let hasPriorSection = false;
+
+  // --- Findings (No) with CPTED guidance ---
+  if (findings.length > 0) {
+    y = ensureSpace(doc, 25, y);
+    doc.setFillColor('#FEF2F2');
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 8, 'F');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#991B1B');
+    doc.text(
+      `Findings — Not Met (${findings.length} item${findings.length === 1 ? '' : 's'})`,
+      PAGE_MARGIN + 3,
+      y + 5.5,
+    );
+    y += 12;
+
+    const sorted = [...findings].sort((a, b) => a.item_order - b.item_order);
+    for (const item of sorted) {
+      y = renderFindingCard(doc, data, item, y, 'No', getRatingColorHex('no'));
+    }
+    hasPriorSection = true;
+  }
 
-  const photoWidth = (CONTENT_WIDTH - 10) / 2;
-  const photoHeight = photoWidth * 0.65;
-  let col = 0;
+  // --- Unable to Observe ---
+  if (utoItems.length > 0) {
+    if (hasPriorSection) {
+      doc.setDrawColor(LIGHT_BLUE);
+      doc.setLineWidth(0.3);
+      doc.line(PAGE_MARGIN + 5, y, PAGE_WIDTH - PAGE_MARGIN - 5, y);
+      y += 6;
+    }
+    y = ensureSpace(doc, 20, y);
+    doc.setFillColor('#F3F4F6'); // gray-100
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 8, 'F');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#4B5563'); // gray-600
+    doc.text(
+      `Unable to Observe (${utoItems.length} item${utoItems.length === 1 ? '' : 's'})`,
+      PAGE_MARGIN + 3,
+      y + 5.5,
+    );
+    y += 10;
 
-  for (const photo of itemPhotos) {
-    const b64 = data.photoBase64Map.get(photo.id);
-    if (!b64) continue;
+    for (const item of utoItems.sort((a, b) => a.item_order - b.item_order)) {
+      y = ensureSpace(doc, 9, y);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(80);
+      const lines = doc.splitTextToSize(`•  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
+      doc.text(lines, PAGE_MARGIN + 2, y);
+      y += lines.length * 4.3 + 1.5;
+
+      if (item.notes.trim()) {
+        doc.setFontSize(8.5);
+        doc.setFont('helvetica', 'italic');
+        doc.setTextColor(120);
+        const noteLines = doc.splitTextToSize(`Note: ${item.notes.trim()}`, CONTENT_WIDTH - 12);
+        doc.text(noteLines, PAGE_MARGIN + 6, y);
+        y += noteLines.length * 3.6 + 1;
+      }
+      y = renderItemPhotos(doc, item, data, y);
+      y += 1;
+    }
+    hasPriorSection = true;
+  }
 
-    y = ensureSpace(doc, photoHeight + 5, y);
-    const x = PAGE_MARGIN + 3 + col * (photoWidth + 4);
-    try {
-      doc.addImage(b64, 'JPEG', x, y, photoWidth, photoHeight);
-    } catch {
-      // Skip photos that fail to render
+  // --- Compliant (Yes) ---
+  if (compliant.length > 0) {
+    if (hasPriorSection) {
+      doc.setDrawColor(LIGHT_BLUE);
+      doc.setLineWidth(0.3);
+      doc.line(PAGE_MARGIN + 5, y, PAGE_WIDTH - PAGE_MARGIN - 5, y);
+      y += 6;
     }
-    col++;
-    if (col >= 2) {
-      col = 0;
-      y += photoHeight + 3;
+    y = ensureSpace(doc, 25, y);
+    doc.setFillColor('#F0FDF4');
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 8, 'F');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor('#166534');
+    doc.text(
+      `Compliant — Standard Met (${compliant.length} item${compliant.length === 1 ? '' : 's'})`,
+      PAGE_MARGIN + 3,
+      y + 5.5,
+    );
+    y += 10;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(60);
+    for (const item of compliant.sort((a, b) => a.item_order - b.item_order)) {
+      y = ensureSpace(doc, 9, y);
+      const lines = doc.splitTextToSize(`•  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
+      doc.text(lines, PAGE_MARGIN + 2, y);
+      y += lines.length * 4.3 + 1.5;
+
+      if (item.notes.trim()) {
+        doc.setFontSize(8.5);
+        doc.setFont('helvetica', 'italic');
+        doc.setTextColor(100);
+        const noteLines = doc.splitTextToSize(item.notes.trim(), CONTENT_WIDTH - 12);
+        doc.text(noteLines, PAGE_MARGIN + 8, y);
+        y += noteLines.length * 3.6 + 1;
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(60);
+      }
+    }
+
+    // Grouped photos for compliant items at the end of the section
+    const compliantPhotos = compliant.flatMap((item) => itemPhotoData(data, item.id));
+    if (compliantPhotos.length > 0) {
+      y += 2;
+      const photoWidth = (CONTENT_WIDTH - 10) / 2;
+      const photoHeight = photoWidth * 0.65;
+      let col = 0;
+      for (const photo of compliantPhotos) {
+        y = ensureSpace(doc, photoHeight + 5, y);
+        const x = PAGE_MARGIN + 3 + col * (photoWidth + 4);
+        try {
+          doc.addImage(photo, 'JPEG', x, y, photoWidth, photoHeight);
+        } catch {
+          // Skip photos that fail to render
+        }
+        col++;
+        if (col >= 2) {
+          col = 0;
+          y += photoHeight + 3;
+        }
+      }
+      if (col > 0) y += photoHeight + 3;
     }
+    hasPriorSection = true;
   }
-  if (col > 0) {
-    y += photoHeight + 3;
+
+  if (!hasPriorSection) {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(120);
+    doc.text('No items have been rated in this zone yet.', PAGE_MARGIN, y);
+    y += 8;
   }
+
   return y;
 }
 
-function renderZoneDetails(doc: jsPDF, data: PDFData): void {
+// How the overall score was reached: the weighting in words, any critical
+// item that capped it, and the unweighted figure earlier reports printed as
+// their overall score, for anyone comparing the two.
+function renderScoreWeighting(doc: jsPDF, data: PDFData, y: number): number {
+  const weighting = calculateWeightedScore(
+    data.assessment.property_type,
+    groupItemsByZone(data.itemScores),
+    data.assessment.template_version,
+  );
+  if (weighting.score === null) return y;
+  const lines = describeScoreWeights(data.assessment.property_type, data.assessment.template_version);
+  if (weighting.cappedBy.length > 0) {
+    lines.push(
+      `This report's score is capped at ${CRITICAL_SCORE_CAP.toFixed(1)} by: ${weighting.cappedBy.map((s) => s.item_text).join('; ')}.`,
+    );
+  }
+  if (weighting.unweighted !== null) {
+    lines.push(
+      `Unweighted average of zone scores, as reports before weighting computed the overall score: ${weighting.unweighted.toFixed(1)}.`,
+    );
+  }
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('How the overall score is weighted', PAGE_MARGIN, y);
+  y += 4;
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(90);
+  for (const line of lines) {
+    const wrapped = doc.splitTextToSize(line, CONTENT_WIDTH);
+    doc.text(wrapped, PAGE_MARGIN, y);
+    y += wrapped.length * 3.5 + 1;
+  }
+  return y + 4;
+}
+
+// Opens a building's zone details on a multi-building campus: its name and its
+// roll-up, weighted like the overall score (schools: items rated).
+function renderBuildingBanner(doc: jsPDF, data: PDFData, group: BuildingGroup, y: number): number {
+  const keys = new Set(group.zones.map((z) => z.key));
+  const items = data.itemScores.filter((s) => keys.has(s.zone_key));
+  let rollup: string;
+  if (isSchoolType(data.assessment.property_type)) {
+    const { scored, total } = getCompletionCounts(items);
+    const { percent } = calculateCompliance(items);
+    rollup =
+      percent !== null
+        ? `${formatCompliance(percent)} met \u2014 ${scored} of ${total} items rated`
+        : `${scored} of ${total} items rated`;
+  } else {
+    const average = calculateBuildingScore(
+      data.assessment.property_type,
+      group,
+      items,
+      data.assessment.template_version,
+    );
+    rollup = average !== null ? `Building score ${average.toFixed(1)} \u2014 ${getScoreLabel(average)}` : 'Not scored';
+  }
+  doc.setFillColor(LIGHT_BLUE);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 9, 'F');
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text(group.name.toUpperCase(), PAGE_MARGIN + 4, y + 6);
+  doc.setFont('helvetica', 'normal');
+  doc.text(rollup, PAGE_WIDTH - PAGE_MARGIN - 4, y + 6, { align: 'right' });
+  return y + 12;
+}
+
+function renderZoneDetails(doc: jsPDF, data: PDFData, toc: TocEntry[]): void {
+  const pt = data.assessment.property_type;
+  const school = isSchoolType(pt);
+  // data.zones already runs building by building; on a campus with several,
+  // each building opens with its own contents entry and banner.
+  const opening = new Map(
+    data.buildingGroups.length > 1
+      ? data.buildingGroups.map((group) => [group.zones[0].key, group])
+      : [],
+  );
   for (const zone of data.zones) {
     doc.addPage();
+    const group = opening.get(zone.key);
+    if (group) toc.push({ label: group.name, page: doc.getNumberOfPages(), level: 0 });
+    // Record this zone's start page for the table of contents.
+    toc.push({ label: `${zone.order}. ${zone.name}`, page: doc.getNumberOfPages(), level: 1 });
     let y = 15;
+    if (group) y = renderBuildingBanner(doc, data, group, y);
 
     // Zone header bar
     doc.setFillColor(NAVY);
@@ -546,6 +1392,11 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
     if (zs?.average_score !== null && zs?.average_score !== undefined) {
       const scoreText = `${zs.average_score.toFixed(1)} \u2014 ${getScoreLabel(zs.average_score)}`;
       doc.text(scoreText, PAGE_WIDTH - PAGE_MARGIN - 4, y + 8, { align: 'right' });
+    } else if (school) {
+      const { percent } = calculateCompliance(data.itemScores.filter((s) => s.zone_key === zone.key));
+      if (percent !== null) {
+        doc.text(`${formatCompliance(percent)} met`, PAGE_WIDTH - PAGE_MARGIN - 4, y + 8, { align: 'right' });
+      }
     }
 
     // Accent line under header bar
@@ -555,7 +1406,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
     y += 18;
 
     // Resident-friendly zone description
-    const residentDesc = ZONE_RESIDENT_DESCRIPTIONS[zone.key];
+    const residentDesc = ZONE_RESIDENT_DESCRIPTIONS[zone.base_key];
     if (residentDesc) {
       doc.setFontSize(9);
       doc.setFont('helvetica', 'normal');
@@ -565,16 +1416,22 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       y += descLines.length * 4 + 6;
     }
 
+    // Schools render a Yes/No/UTO body instead of the 1-5 buckets.
+    if (school) {
+      renderSchoolZoneBody(doc, data, zone, y);
+      continue;
+    }
+
     // Categorize scored items for this zone
     const zoneItems = data.itemScores.filter((s) => s.zone_key === zone.key);
     const concerns = zoneItems.filter(
-      (s) => s.score !== null && !s.is_na && s.score! <= 2,
+      (s) => typeof s.score === 'number' && !s.is_na && s.score <= 2,
     );
     const improvements = zoneItems.filter(
-      (s) => s.score !== null && !s.is_na && s.score === 3,
+      (s) => s.score === 3 && !s.is_na,
     );
     const strengths = zoneItems.filter(
-      (s) => s.score !== null && !s.is_na && s.score! >= 4,
+      (s) => typeof s.score === 'number' && !s.is_na && s.score >= 4,
     );
     const naItems = zoneItems.filter((s) => s.is_na);
 
@@ -591,101 +1448,19 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       doc.text('Areas Requiring Attention', PAGE_MARGIN + 3, y + 5.5);
       y += 12;
 
-      const sortedConcerns = [...concerns].sort((a, b) => a.score! - b.score!);
+      const sortedConcerns = [...concerns].sort(
+        (a, b) => (a.score as number) - (b.score as number),
+      );
 
       for (const item of sortedConcerns) {
-        const guidance = data.itemGuidance.get(item.item_text);
-        const estimatedHeight = 14 + (item.notes?.trim() ? 14 : 0) + (guidance ? 28 : 0);
-        y = ensureSpace(doc, estimatedHeight, y);
-
-        // Item row — light red background
-        doc.setFillColor('#FEE2E2');
-        const itemLines = doc.splitTextToSize(item.item_text, CONTENT_WIDTH - 30);
-        const itemRowHeight = Math.max(itemLines.length * 3.5 + 4, 10);
-        doc.roundedRect(PAGE_MARGIN, y, CONTENT_WIDTH, itemRowHeight, 1, 1, 'F');
-
-        doc.setFontSize(8);
-        doc.setFont('helvetica', 'normal');
-        doc.setTextColor(50);
-        doc.text(itemLines, PAGE_MARGIN + 3, y + 4);
-
-        const ratingLabel = getScoreLabel(item.score!);
-        const badgeWidth = 20;
-        const badgeX = PAGE_WIDTH - PAGE_MARGIN - badgeWidth - 2;
-        doc.setFillColor(getScoreColorHex(item.score!));
-        doc.roundedRect(badgeX, y + 1.5, badgeWidth, 5, 1, 1, 'F');
-        doc.setFontSize(6);
-        doc.setFont('helvetica', 'bold');
-        doc.setTextColor('#FFFFFF');
-        doc.text(ratingLabel, badgeX + badgeWidth / 2, y + 4.8, { align: 'center' });
-
-        y += itemRowHeight + 1;
-
-        // Assessor notes callout
-        if (item.notes.trim()) {
-          const noteContent = item.notes.trim();
-          doc.setFontSize(8);
-          const noteLines = doc.splitTextToSize(noteContent, CONTENT_WIDTH - 18);
-          const noteBlockHeight = noteLines.length * 3.5 + 6;
-          y = ensureSpace(doc, noteBlockHeight, y);
-
-          doc.setFillColor('#FEF3C7');
-          doc.roundedRect(PAGE_MARGIN + 3, y, CONTENT_WIDTH - 6, noteBlockHeight, 1, 1, 'F');
-          doc.setFillColor('#D97706');
-          doc.rect(PAGE_MARGIN + 3, y, 1.5, noteBlockHeight, 'F');
-
-          doc.setFontSize(7);
-          doc.setFont('helvetica', 'bold');
-          doc.setTextColor('#92400E');
-          doc.text('Assessor Note:', PAGE_MARGIN + 8, y + 4);
-
-          doc.setFontSize(8);
-          doc.setFont('helvetica', 'normal');
-          doc.setTextColor('#78350F');
-          doc.text(noteLines, PAGE_MARGIN + 8, y + 4 + 3.5);
-
-          y += noteBlockHeight + 2;
-        }
-
-        // CPTED Guidance block
-        if (guidance) {
-          doc.setFontSize(7);
-          const standardLines = doc.splitTextToSize(guidance.standard, CONTENT_WIDTH - 16);
-          const improvementLines = doc.splitTextToSize(guidance.improvement, CONTENT_WIDTH - 16);
-          const guidanceHeight = 4 + 3.5 + standardLines.length * 3 + 4 + 3.5 + improvementLines.length * 3 + 4;
-          y = ensureSpace(doc, guidanceHeight, y);
-
-          doc.setFillColor('#FFF5F5');
-          doc.roundedRect(PAGE_MARGIN + 3, y, CONTENT_WIDTH - 6, guidanceHeight, 1, 1, 'F');
-          doc.setFillColor('#DC2626');
-          doc.rect(PAGE_MARGIN + 3, y, 1.5, guidanceHeight, 'F');
-
-          let gy = y + 4;
-          doc.setFontSize(7);
-          doc.setFont('helvetica', 'bold');
-          doc.setTextColor('#991B1B');
-          doc.text('CPTED Standard:', PAGE_MARGIN + 8, gy);
-          gy += 3.5;
-          doc.setFont('helvetica', 'normal');
-          doc.setTextColor(60);
-          doc.text(standardLines, PAGE_MARGIN + 8, gy);
-          gy += standardLines.length * 3 + 4;
-
-          doc.setFont('helvetica', 'bold');
-          doc.setTextColor('#991B1B');
-          doc.text('How to Improve:', PAGE_MARGIN + 8, gy);
-          gy += 3.5;
-          doc.setFont('helvetica', 'normal');
-          doc.setTextColor(60);
-          doc.text(improvementLines, PAGE_MARGIN + 8, gy);
-
-          y += guidanceHeight + 3;
-        }
-
-        // Inline photos for this item
-        y = renderItemPhotosServer(doc, item.id, data, y);
-
-        y += 3;
+        y = renderFindingCard(
+          doc,
+          data,
+          item,
+          y,
+          getScoreLabel(item.score as number),
+          getScoreColorHex(item.score as number),
+        );
       }
 
       hasPriorSection = true;
@@ -694,6 +1469,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
     // --- Opportunities for Enhancement (score 3, only if assessor added notes) ---
     const improvementsWithNotes = improvements.filter((s) => s.notes.trim());
     if (improvementsWithNotes.length > 0) {
+      // Divider between sections
       if (hasPriorSection) {
         doc.setDrawColor(LIGHT_BLUE);
         doc.setLineWidth(0.3);
@@ -703,6 +1479,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
 
       y = ensureSpace(doc, 20, y);
 
+      // Section header
       doc.setFillColor('#FEFCE8');
       doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 8, 'F');
       doc.setFontSize(9);
@@ -724,13 +1501,15 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       for (const item of improvementsWithNotes) {
         y = ensureSpace(doc, 14, y);
 
+        // Item text
         doc.setFontSize(8);
         doc.setFont('helvetica', 'normal');
         doc.setTextColor(50);
-        const itemLines = doc.splitTextToSize(`\u2022  ${item.item_text}`, CONTENT_WIDTH - 4);
+        const itemLines = doc.splitTextToSize(`\u2022  ${printedItemText(item)}`, CONTENT_WIDTH - 4);
         doc.text(itemLines, PAGE_MARGIN + 2, y);
         y += itemLines.length * 3.5 + 1;
 
+        // Assessor note
         if (item.notes.trim()) {
           doc.setFontSize(7);
           doc.setFont('helvetica', 'italic');
@@ -740,7 +1519,9 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
           y += noteLines.length * 3 + 2;
         }
 
-        y = renderItemPhotosServer(doc, item.id, data, y);
+        // Inline photos for this item
+        y = renderItemPhotos(doc, item, data, y);
+
         y += 2;
       }
 
@@ -749,6 +1530,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
 
     // --- Positive Observations (scores 4-5) ---
     if (strengths.length > 0) {
+      // Divider between sections
       if (hasPriorSection) {
         doc.setDrawColor(LIGHT_BLUE);
         doc.setLineWidth(0.3);
@@ -769,16 +1551,21 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       );
       y += 10;
 
+      // Intro sentence
       doc.setFontSize(8);
       doc.setFont('helvetica', 'italic');
       doc.setTextColor(80);
-      doc.text(
-        'Your property demonstrates strong security practices in these areas:',
-        PAGE_MARGIN + 2,
-        y,
-      );
+      const strengthsIntro = isSchoolType(pt)
+        ? 'This school demonstrates strong security practices in these areas:'
+        : isCommercialType(pt)
+          ? 'This facility demonstrates strong security practices in these areas:'
+          : isWorshipType(pt)
+            ? 'Your facility demonstrates strong security practices in these areas:'
+            : 'Your property demonstrates strong security practices in these areas:';
+      doc.text(strengthsIntro, PAGE_MARGIN + 2, y);
       y += 5;
 
+      // Group Excellent (5) first, then Good (4)
       const excellent = strengths.filter((s) => s.score === 5);
       const good = strengths.filter((s) => s.score === 4);
 
@@ -788,6 +1575,7 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       ]) {
         if (group.items.length === 0) continue;
 
+        // Sub-label
         doc.setFontSize(7);
         doc.setFont('helvetica', 'bold');
         doc.setTextColor(getScoreColorHex(group.score));
@@ -800,11 +1588,12 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
 
         for (const item of group.items) {
           y = ensureSpace(doc, 8, y);
-          const bulletText = `\u2022  ${item.item_text}`;
+          const bulletText = `\u2022  ${printedItemText(item)}`;
           const lines = doc.splitTextToSize(bulletText, CONTENT_WIDTH - 4);
           doc.text(lines, PAGE_MARGIN + 2, y);
           y += lines.length * 3.5 + 1;
 
+          // Show assessor notes inline if present
           if (item.notes.trim()) {
             doc.setFontSize(7);
             doc.setFont('helvetica', 'italic');
@@ -816,28 +1605,23 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
             doc.setFont('helvetica', 'normal');
             doc.setTextColor(60);
           }
-
         }
         y += 2;
       }
 
       // Grouped photos for all positive items at the end of the section
-      const strengthPhotoIds = strengths.flatMap((item) =>
-        data.photos.filter((p) => p.item_score_id === item.id && data.photoBase64Map.has(p.id)),
-      );
-      if (strengthPhotoIds.length > 0) {
+      const strengthPhotos = strengths.flatMap((item) => itemPhotoData(data, item.id));
+      if (strengthPhotos.length > 0) {
         y += 2;
         const photoWidth = (CONTENT_WIDTH - 10) / 2;
         const photoHeight = photoWidth * 0.65;
         let col = 0;
 
-        for (const photo of strengthPhotoIds) {
-          const b64 = data.photoBase64Map.get(photo.id);
-          if (!b64) continue;
+        for (const photo of strengthPhotos) {
           y = ensureSpace(doc, photoHeight + 5, y);
           const x = PAGE_MARGIN + 3 + col * (photoWidth + 4);
           try {
-            doc.addImage(b64, 'JPEG', x, y, photoWidth, photoHeight);
+            doc.addImage(photo, 'JPEG', x, y, photoWidth, photoHeight);
           } catch {
             // Skip photos that fail to render
           }
@@ -853,12 +1637,17 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       }
     }
 
+    // The site-fact answers behind any N/As, as the PWA's report prints them.
+    const naReasons = [...new Set(naItems.map((s) => s.na_reason).filter(Boolean))];
+
     // Summary line if nothing notable
-    if (
-      concerns.length === 0 &&
-      improvements.length === 0 &&
-      strengths.length === 0
-    ) {
+    if (zoneItems.length > 0 && naItems.length === zoneItems.length && naReasons.length > 0) {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'italic');
+      doc.setTextColor(120);
+      doc.text(`Not applicable to this site: ${naReasons.join('; ')}.`, PAGE_MARGIN, y);
+      y += 8;
+    } else if (concerns.length === 0 && improvements.length === 0 && strengths.length === 0) {
       doc.setFontSize(9);
       doc.setFont('helvetica', 'italic');
       doc.setTextColor(120);
@@ -868,23 +1657,114 @@ function renderZoneDetails(doc: jsPDF, data: PDFData): void {
       doc.setFontSize(7);
       doc.setFont('helvetica', 'italic');
       doc.setTextColor(140);
-      doc.text(
-        `${naItems.length} item${naItems.length === 1 ? '' : 's'} marked as not applicable to this property.`,
-        PAGE_MARGIN,
-        y,
+      const naLines = doc.splitTextToSize(
+        `${naItems.length} item${naItems.length === 1 ? '' : 's'} marked as not applicable to this ${isSchoolType(pt) ? 'school' : isCommercialType(pt) ? 'facility' : isWorshipType(pt) ? 'facility' : 'property'}${naReasons.length > 0 ? ` (${naReasons.join('; ')})` : ''}.`,
+        CONTENT_WIDTH,
       );
-      y += 6;
+      doc.text(naLines, PAGE_MARGIN, y);
+      y += naLines.length * 3 + 3;
+    }
+  }
+}
+
+// --- School site profile ---
+//
+// The roll, capacity and staffing figures the district asks to see on the front
+// of a school report, over an overall photo of the site. Field list and wording
+// come from services/school-profile.ts, the same source the entry form uses, so
+// the page and the form cannot disagree.
+
+function renderSchoolProfile(doc: jsPDF, data: PDFData): void {
+  const profile = data.assessment.school_profile;
+  if (!profile) return;
+
+  doc.addPage();
+  let y = 24;
+
+  // School name, centered and underlined, as on the district's own page. The
+  // name is already stored on the assessment, so it is never typed twice.
+  const name = (data.assessment.homeowner_name || data.assessment.address).toUpperCase();
+  doc.setFontSize(17);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  const cx = PAGE_WIDTH / 2;
+  const nameLines = doc.splitTextToSize(name, CONTENT_WIDTH);
+  doc.text(nameLines, cx, y, { align: 'center' });
+  y += nameLines.length * 7;
+
+  const ruleW = Math.min(doc.getTextWidth(nameLines[nameLines.length - 1]) + 4, CONTENT_WIDTH);
+  doc.setDrawColor(NAVY);
+  doc.setLineWidth(0.6);
+  doc.line(cx - ruleW / 2, y - 3.5, cx + ruleW / 2, y - 3.5);
+  y += 6;
+
+  // Overall photo. Height is capped so the figures below always share the page
+  // with it — a tall portrait shot renders narrower rather than pushing them off.
+  if (profile.photo) {
+    try {
+      const props = doc.getImageProperties(profile.photo);
+      const ratio = props.height / props.width;
+      const maxH = 105;
+      let w = CONTENT_WIDTH * 0.86;
+      let h = w * ratio;
+      if (h > maxH) {
+        h = maxH;
+        w = h / ratio;
+      }
+      doc.addImage(profile.photo, 'JPEG', cx - w / 2, y, w, h);
+      doc.setDrawColor(180);
+      doc.setLineWidth(0.3);
+      doc.rect(cx - w / 2, y, w, h);
+      y += h + 5;
+    } catch {
+      // A photo that can't be decoded shouldn't cost the district the page.
     }
+  }
+
+  if (profile.build_history.trim()) {
+    doc.setFontSize(9.5);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(60);
+    const caption = doc.splitTextToSize(profile.build_history.trim(), CONTENT_WIDTH * 0.86);
+    doc.text(caption, cx, y + 2, { align: 'center' });
+    y += caption.length * 4.6 + 6;
+  }
+
+  // Figures, label then value, exactly the order the approved page uses.
+  // Blank entries are left off rather than printed as an empty promise. The
+  // ratio comes last, worked out from the roll and the teacher count above it.
+  const ratio = studentTeacherRatio(profile);
+  const rows: [string, string][] = SCHOOL_PROFILE_FIELDS.map(
+    (f) => [f.label, (profile[f.key] ?? '').trim()] as [string, string],
+  );
+  if (ratio) rows.push([STUDENT_TEACHER_RATIO_LABEL, ratio]);
+
+  for (const [fieldLabel, value] of rows) {
+    if (!value) continue;
+
+    y = ensureSpace(doc, 8, y);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(NAVY);
+    const label = `${fieldLabel}:`;
+    doc.text(label, PAGE_MARGIN, y);
+    // Measure while the bold face is still active — bold is wider than normal,
+    // and measuring after the switch puts the value on top of the label.
+    const labelW = doc.getTextWidth(label);
 
-    addPageFooter(doc, doc.getNumberOfPages(), data.assessment);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(40);
+    doc.text(value, PAGE_MARGIN + labelW + 2, y);
+    y += 7;
   }
 }
 
 function renderRecommendations(doc: jsPDF, data: PDFData): void {
+  const school = isSchoolType(data.assessment.property_type);
   doc.addPage();
-  const pageNum = doc.getNumberOfPages();
   let y = 20;
 
+  // Header
   doc.setFillColor(NAVY);
   doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 12, 'F');
   doc.setFontSize(11);
@@ -893,24 +1773,22 @@ function renderRecommendations(doc: jsPDF, data: PDFData): void {
   doc.text('Recommendations', PAGE_MARGIN + 4, y + 8);
   y += 20;
 
-  const assessment = data.assessment;
-
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(NAVY);
-  doc.text('Top Recommendations', PAGE_MARGIN, y);
-  y += 7;
+  // Non-schools keep the "Top Recommendations" sub-heading; schools list them
+  // directly under the header (the header already reads "Recommendations").
+  if (!school) {
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(NAVY);
+    doc.text('Top Recommendations', PAGE_MARGIN, y);
+    y += 7;
+  }
 
-  const recs = (assessment.top_recommendations || []) as Recommendation[];
+  const recs = data.assessment.top_recommendations || [];
   if (recs.length === 0) {
     doc.setFontSize(10);
     doc.setFont('helvetica', 'italic');
     doc.setTextColor(150);
-    doc.text(
-      'No recommendations have been added for this assessment.',
-      PAGE_MARGIN,
-      y,
-    );
+    doc.text('No recommendations have been added for this assessment.', PAGE_MARGIN, y);
     y += 10;
   } else {
     for (let i = 0; i < recs.length; i++) {
@@ -920,38 +1798,41 @@ function renderRecommendations(doc: jsPDF, data: PDFData): void {
       const preCalcLines = doc.splitTextToSize(rec.description, CONTENT_WIDTH - 12);
       const itemHeight = 8 + preCalcLines.length * 4 + 4;
       y = ensureSpace(doc, itemHeight, y);
-      const actualHeight = renderRecommendationItem(doc, rec, i + 1, y);
+      const actualHeight = renderRecommendationItem(doc, rec, i + 1, y, school);
       y += actualHeight;
     }
   }
 
-  y = ensureSpace(doc, 25, y);
-  y += 5;
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(NAVY);
-  doc.text('Quick Wins', PAGE_MARGIN, y);
-  y += 7;
+  // Quick Wins — not used for school (Yes/No/UTO) assessments
+  if (!isSchoolType(data.assessment.property_type)) {
+    y = ensureSpace(doc, 25, y);
+    y += 5;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(NAVY);
+    doc.text('Quick Wins', PAGE_MARGIN, y);
+    y += 7;
 
-  const qw = (assessment.quick_wins || []) as Recommendation[];
-  if (qw.length === 0) {
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'italic');
-    doc.setTextColor(150);
-    doc.text(
-      'No quick wins have been added for this assessment.',
-      PAGE_MARGIN,
-      y,
-    );
-  } else {
-    for (const item of qw) {
-      y = ensureSpace(doc, 15, y);
-      renderQuickWinItem(doc, item, y);
-      y += 12;
+    const qw = data.assessment.quick_wins || [];
+    if (qw.length === 0) {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'italic');
+      doc.setTextColor(150);
+      doc.text('No quick wins have been added for this assessment.', PAGE_MARGIN, y);
+    } else {
+      for (const item of qw) {
+        // Pre-calculate height for ensureSpace
+        doc.setFontSize(9);
+        const preCalcLines = doc.splitTextToSize(item.description, CONTENT_WIDTH - 30);
+        const itemHeight = preCalcLines.length * 4 + 6;
+        y = ensureSpace(doc, itemHeight, y);
+        const actualHeight = renderQuickWinItem(doc, item, y);
+        y += actualHeight;
+      }
     }
   }
 
-  addPageFooter(doc, pageNum, data.assessment);
+  renderRecommendationStatus(doc, data, y);
 }
 
 function renderRecommendationItem(
@@ -959,7 +1840,9 @@ function renderRecommendationItem(
   rec: Recommendation,
   num: number,
   y: number,
+  school = false,
 ): number {
+  // Number circle
   doc.setFillColor(NAVY);
   doc.circle(PAGE_MARGIN + 4, y + 2, 3.5, 'F');
   doc.setFontSize(8);
@@ -967,19 +1850,36 @@ function renderRecommendationItem(
   doc.setTextColor(WHITE);
   doc.text(String(num), PAGE_MARGIN + 4, y + 3, { align: 'center' });
 
-  const priorityColors: Record<string, string> = {
-    high: '#DC2626',
-    medium: '#CA8A04',
-    low: '#16A34A',
-  };
-  const badgeX = PAGE_MARGIN + 12;
-  const badgeColor = priorityColors[rec.priority] || '#6B7280';
-  doc.setFillColor(badgeColor);
-  doc.roundedRect(badgeX, y - 2, 16, 6, 1, 1, 'F');
-  doc.setFontSize(6);
-  doc.setTextColor(WHITE);
-  doc.text(rec.priority.toUpperCase(), badgeX + 8, y + 2, { align: 'center' });
+  // Priority badge. Schools: only the high-priority items are badged ("HIGH
+  // PRIORITY") — the rest carry no badge, since being listed already means it's a
+  // priority. Other report types keep the High/Medium/Low colored badge.
+  const showBadge = !school || rec.priority === 'high';
+  if (showBadge) {
+    let label: string;
+    let badgeColor: string;
+    if (school) {
+      label = 'HIGH PRIORITY';
+      badgeColor = '#DC2626';
+    } else {
+      const priorityColors: Record<string, string> = {
+        high: '#DC2626',
+        medium: '#CA8A04',
+        low: '#16A34A',
+      };
+      badgeColor = priorityColors[rec.priority] || '#6B7280';
+      label = rec.priority.toUpperCase();
+    }
+    const badgeX = PAGE_MARGIN + 12;
+    doc.setFontSize(6);
+    doc.setFont('helvetica', 'bold');
+    const badgeW = Math.max(16, doc.getTextWidth(label) + 5);
+    doc.setFillColor(badgeColor);
+    doc.roundedRect(badgeX, y - 2, badgeW, 6, 1, 1, 'F');
+    doc.setTextColor(WHITE);
+    doc.text(label, badgeX + badgeW / 2, y + 2, { align: 'center' });
+  }
 
+  // Description
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(50);
@@ -990,29 +1890,123 @@ function renderRecommendationItem(
   return 8 + descLines.length * 4 + 4;
 }
 
-function renderQuickWinItem(doc: jsPDF, item: Recommendation, y: number): void {
+function renderQuickWinItem(doc: jsPDF, item: Recommendation, y: number): number {
+  // Bullet
   doc.setFillColor(MEDIUM_BLUE);
   doc.circle(PAGE_MARGIN + 3, y + 2, 1.5, 'F');
 
+  // Priority
   doc.setFontSize(7);
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(MEDIUM_BLUE);
   doc.text(`[${item.priority.toUpperCase()}]`, PAGE_MARGIN + 8, y + 3);
 
+  // Description
   doc.setFontSize(9);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(50);
   const descLines = doc.splitTextToSize(item.description, CONTENT_WIDTH - 30);
   doc.text(descLines, PAGE_MARGIN + 28, y + 3);
+
+  // Return total height: text lines + padding
+  return descLines.length * 4 + 4;
+}
+
+const STATUS_TEXT_HEX: Record<RecommendationStatus, string> = {
+  open: '#DC2626',
+  in_progress: '#CA8A04',
+  implemented: '#16A34A',
+  declined: '#6B7280',
+};
+
+// Where each recommendation stands since the report that made it — the one
+// page a homeowner or district is asked about on a return visit. A follow-up
+// linked to the assessment it follows reports on that assessment's
+// recommendations; any other report shows its own once one has been tracked,
+// so a re-print of the original carries the table too. An untracked report,
+// the usual first print, goes out without it.
+function renderRecommendationStatus(doc: jsPDF, data: PDFData, y: number): void {
+  const source = data.followed ?? data.assessment;
+  const school = isSchoolType(source.property_type);
+  const recs = (source.top_recommendations || []).filter((rec) => rec.description.trim());
+  const qw = school ? [] : (source.quick_wins || []).filter((rec) => rec.description.trim());
+  const all = [...recs, ...qw];
+  const shown =
+    data.assessment.assessment_type === 'follow_up' || all.some((rec) => rec.status !== undefined);
+  if (!shown) return;
+  if (all.length === 0) return;
+  const counts = countRecommendations(all);
+
+  y = ensureSpace(doc, 40, y);
+  y += 5;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(NAVY);
+  doc.text('Recommendation Status', PAGE_MARGIN, y);
+  y += 7;
+
+  doc.setFontSize(9);
+  if (data.followed) {
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(100);
+    doc.text(`Recommendations from the assessment of ${formatDate(data.followed.date_of_assessment)}.`, PAGE_MARGIN, y);
+    y += 5;
+  }
+
+  const { implemented, declined, in_progress } = counts.byStatus;
+  let summary = `${counts.closed} of ${all.length} recommendation${all.length === 1 ? '' : 's'} closed: ${implemented} implemented, ${declined} declined.`;
+  summary += ` ${counts.open} still open${in_progress > 0 ? `, ${in_progress} of them in progress` : ''}.`;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(60);
+  const summaryLines = doc.splitTextToSize(summary, CONTENT_WIDTH);
+  doc.text(summaryLines, PAGE_MARGIN, y);
+  y += summaryLines.length * 4 + 3;
+
+  const row = (rec: Recommendation, label: string) => [
+    label,
+    rec.description,
+    RECOMMENDATION_STATUS_LABELS[recommendationStatus(rec)],
+    rec.target_date ? formatDate(rec.target_date) : '—',
+    rec.responsible_party || '—',
+  ];
+  autoTable(doc, {
+    startY: y,
+    head: [['#', 'Recommendation', 'Status', 'Target', 'Responsible']],
+    body: [...recs.map((rec, i) => row(rec, String(i + 1))), ...qw.map((rec) => row(rec, 'QW'))],
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    theme: 'grid',
+    headStyles: { fillColor: NAVY, textColor: WHITE, fontStyle: 'bold', fontSize: 8 },
+    bodyStyles: { fontSize: 8, textColor: [50, 50, 50], valign: 'top' },
+    columnStyles: {
+      0: { cellWidth: 10, halign: 'center' },
+      2: { cellWidth: 24, fontStyle: 'bold' },
+      3: { cellWidth: 30 },
+      4: { cellWidth: 32 },
+    },
+    didParseCell(hookData) {
+      if (hookData.section !== 'body' || hookData.column.index !== 2) return;
+      hookData.cell.styles.textColor = STATUS_TEXT_HEX[recommendationStatus(all[hookData.row.index])];
+    },
+  });
 }
 
-const LIABILITY_WAIVER = `This CPTED assessment is provided solely for informational and preventative purposes. The observations and recommendations included in this report are offered as voluntary guidance and do not constitute mandated safety requirements, building code standards, or legal directives. The implementation of any recommendations is entirely at the discretion of the property owner and should be undertaken only with appropriate professional consultation when necessary. The Volusia Sheriff's Office, its employees, agents, and representatives make no warranties, guarantees, or assurances regarding the effectiveness of any recommended security measures. Crime prevention strategies reduce risk but cannot completely eliminate the possibility of criminal activity. By accepting this report, the property owner acknowledges that the Volusia Sheriff's Office shall not be held liable for any actions taken or not taken based on the information provided, nor for any damages, losses, or incidents that may occur on or near the property following this assessment.`;
+// Legal-advisor-approved disclaimer (2026-07-07). Two paragraphs, rendered with
+// a gap between them. Source: "CPTED Approve Disclaimer.docx" (repo root).
+const LIABILITY_WAIVER = `This CPTED assessment has been conducted by the Volusia Sheriff's Office according to the protocols of the National Institute of Crime Prevention. The information contained herein is based on guidelines set by the International Society of Crime Prevention Practitioners, the Florida Crime Prevention Training Institute, and the observations of the person conducting the survey. The assessment is intended to assist you in improving the overall level of security only. It is not intended to imply that existing security or CPTED measures are absolute or perfect. Any decisions based upon this assessment are solely your responsibility. Accordingly, Volusia Sheriff's Office makes no guarantee and accepts no liability for any security breaches or crimes after the completion and submission of the assessment.
+
+All new construction or retrofits should comply with existing building codes, zoning laws, and fire codes. Prior to installation or modifications the proper licensing and variances should be obtained and inspections should be conducted by the appropriate agency.`;
+
+// Verbatim Confidentiality-of-Report section from the Volusia school CPTED
+// survey — cites the Florida public-records security-system exemption. Rendered
+// on the same page as the liability waiver for school reports.
+const CONFIDENTIALITY_TEXT = `Security systems; records and meetings exempt from public access or disclosure.—Information relating to the security systems for any property owned by or leased to the state or any of its political subdivisions, and information relating to the security systems for any privately owned or leased property which is in the possession of any agency including all records, information, photographs, audio and visual presentations, schematic diagrams, surveys, recommendations, or consultations or portions thereof relating directly to or revealing such systems or information, and all meetings relating directly to or that would reveal such systems or information may be confidential and exempt from public access or disclosure. Please review local statutes to insure confidentiality.`;
 
 function renderLiabilityWaiver(doc: jsPDF, data: PDFData): void {
   doc.addPage();
-  const pageNum = doc.getNumberOfPages();
   let y = 20;
 
+  // Header
   doc.setFillColor(NAVY);
   doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 12, 'F');
   doc.setFontSize(11);
@@ -1021,12 +2015,35 @@ function renderLiabilityWaiver(doc: jsPDF, data: PDFData): void {
   doc.text('Liability Waiver & Acknowledgment', PAGE_MARGIN + 4, y + 8);
   y += 22;
 
+  // Waiver text
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(50);
-  const waiverLines = doc.splitTextToSize(LIABILITY_WAIVER, CONTENT_WIDTH);
-  doc.text(waiverLines, PAGE_MARGIN, y);
-  y += waiverLines.length * 5 + 20;
+  for (const para of LIABILITY_WAIVER.split('\n\n')) {
+    const waiverLines = doc.splitTextToSize(para, CONTENT_WIDTH);
+    doc.text(waiverLines, PAGE_MARGIN, y);
+    y += waiverLines.length * 5 + 4;
+  }
+
+  // Confidentiality of Report — folded onto this same page for school reports.
+  if (isSchoolType(data.assessment.property_type)) {
+    y += 10;
+    doc.setFillColor(NAVY);
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 9, 'F');
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(WHITE);
+    doc.text('Confidentiality of Report', PAGE_MARGIN + 4, y + 6);
+    y += 13;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(50);
+    const confLines = doc.splitTextToSize(CONFIDENTIALITY_TEXT, CONTENT_WIDTH);
+    doc.text(confLines, PAGE_MARGIN, y);
+    y += confLines.length * 4;
+  }
+
+  y += 20;
 
   // Assessor signature section
   const lineWidth = 70;
@@ -1050,7 +2067,8 @@ function renderLiabilityWaiver(doc: jsPDF, data: PDFData): void {
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(50);
-  // The signed date, falling back to the walk date for older assessments.
+  // The signed date, or the walk date for assessments predating that field —
+  // so reports generated before this existed keep printing what they printed.
   doc.text(
     formatDate(data.assessment.report_signed_on || data.assessment.date_of_assessment),
     rightSig,
@@ -1066,21 +2084,82 @@ function renderLiabilityWaiver(doc: jsPDF, data: PDFData): void {
   doc.setFont('helvetica', 'bold');
   doc.setTextColor(NAVY);
   doc.text('Assessor Signature', leftSig, y + 5);
-  doc.text('Date', rightSig, y + 5);
+  doc.text('Date Signed', rightSig, y + 5);
 
-  // Assessor info below label
+  // Assessor info below label — name, badge, and CPTED designation (moved here
+  // from the cover so "prepared by / date" all live with the signature).
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(100);
   doc.text(data.assessment.assessor_name, leftSig, y + 10);
+  let infoY = y + 14;
   if (data.assessment.assessor_badge_id) {
-    doc.text(`Badge: ${data.assessment.assessor_badge_id}`, leftSig, y + 14);
+    doc.text(`Badge: ${data.assessment.assessor_badge_id}`, leftSig, infoY);
+    infoY += 4;
   }
+  doc.setFontSize(7);
+  doc.setTextColor(120);
+  doc.text("Florida Attorney General's Office — CPTED Practitioner", leftSig, infoY);
+
+}
+
+// --- Table of contents ---
+interface TocEntry {
+  label: string;
+  page: number;
+  level: number; // 0 = top-level section, 1 = sub-item (zone)
+}
+
+// Fills the reserved TOC page (drawn last, once every section's page is known).
+function renderTableOfContents(
+  doc: jsPDF,
+  tocPage: number,
+  entries: TocEntry[],
+): void {
+  doc.setPage(tocPage);
+  let y = 20;
+
+  // Header bar
+  doc.setFillColor(NAVY);
+  doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, 12, 'F');
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(WHITE);
+  doc.text('Table of Contents', PAGE_MARGIN + 4, y + 8);
+  y += 22;
+
+  for (const entry of entries) {
+    const indent = entry.level === 0 ? 0 : 6;
+    const labelX = PAGE_MARGIN + indent;
+    // entry.page is the jsPDF page index; displayed numbering starts at 1 on the
+    // TOC, matching the footers (page index - FRONT_MATTER_PAGES).
+    const pageStr = String(entry.page - FRONT_MATTER_PAGES);
+
+    doc.setFontSize(entry.level === 0 ? 11 : 9.5);
+    doc.setFont('helvetica', entry.level === 0 ? 'bold' : 'normal');
+    doc.setTextColor(entry.level === 0 ? NAVY : '#374151');
+
+    doc.text(entry.label, labelX, y);
+    doc.text(pageStr, PAGE_WIDTH - PAGE_MARGIN, y, { align: 'right' });
+
+    // Dotted leader between label and page number
+    const labelW = doc.getTextWidth(entry.label);
+    const pageW = doc.getTextWidth(pageStr);
+    const dotsStart = labelX + labelW + 2;
+    const dotsEnd = PAGE_WIDTH - PAGE_MARGIN - pageW - 2;
+    if (dotsEnd > dotsStart) {
+      doc.setDrawColor(180);
+      doc.setLineWidth(0.2);
+      doc.setLineDashPattern([0.4, 1], 0);
+      doc.line(dotsStart, y - 0.8, dotsEnd, y - 0.8);
+      doc.setLineDashPattern([], 0);
+    }
 
-  addPageFooter(doc, pageNum, data.assessment);
+    y += entry.level === 0 ? 8 : 6;
+  }
 }
 
-// --- Main exports ---
 
+// --- Main export ---
 export async function generatePDFBuffer(assessmentId: string): Promise<{
   buffer: ArrayBuffer;
   filename: string;
@@ -1093,12 +2172,51 @@ export async function generatePDFBuffer(assessmentId: string): Promise<{
     format: 'a4',
   });
 
+  const pt = data.assessment.property_type;
+  const toc: TocEntry[] = [];
+
+  // Front matter: page 1 cover, page 2 CPTED intro (both unnumbered). Page 3 is
+  // reserved for the table of contents and filled in last, once every section's
+  // start page is known.
   renderCoverPage(doc, data);
+  renderCptedIntro(doc);
+  doc.addPage();
+  const tocPage = doc.getNumberOfPages();
+
+  if (isSchoolType(pt) && hasSchoolProfileContent(data.assessment.school_profile)) {
+    toc.push({ label: 'School Profile', page: doc.getNumberOfPages() + 1, level: 0 });
+    renderSchoolProfile(doc, data);
+  }
+
+  toc.push({ label: 'Assessment Summary', page: doc.getNumberOfPages() + 1, level: 0 });
   renderSummaryPage(doc, data);
-  renderZoneDetails(doc, data);
+  renderPrincipleMatrix(doc, data, toc);
+
+  renderZoneDetails(doc, data, toc); // pushes one entry per zone
+
+  toc.push({ label: 'Recommendations', page: doc.getNumberOfPages() + 1, level: 0 });
   renderRecommendations(doc, data);
+
+  const waiverPage = doc.getNumberOfPages() + 1;
+  toc.push({ label: 'Liability Waiver & Acknowledgment', page: waiverPage, level: 0 });
+  if (isSchoolType(pt)) {
+    toc.push({ label: 'Confidentiality of Report', page: waiverPage, level: 1 });
+  }
   renderLiabilityWaiver(doc, data);
 
+  renderTableOfContents(doc, tocPage, toc);
+
+  // Footers, the CONFIDENTIAL header and any DRAFT watermark in one final pass,
+  // so every page is covered exactly once however a section broke.
+  const draft = !isApprovedFinal(data.assessment);
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    addPageFooter(doc, i);
+    addConfidentialHeader(doc, i);
+    if (draft) addDraftWatermark(doc);
+  }
+
   return {
     buffer: doc.output('arraybuffer'),
     filename: generateFilename(data.assessment),
@@ -0,0 +1,71 @@
+/**
+ * Supervisor review: which statuses belong to the server, and what a sync may
+ * do to them.
+ *
+ * in_progress, completed and synced are the device's own — it sets them as
+ * the assessor works, and sync carries them up as it always has. submitted,
+ * returned and approved are the server's: they are set only by the routes in
+ * routes/review.ts, after a role check, and a push can never grant them. An
+ * iPad that simply sent status: 'approved' would otherwise be its own
+ * supervisor.
+ *
+ * Approval is pinned to a revision (approved_revision). The report is final
+ * only while the content is still the revision the supervisor read, so editing
+ * an approved assessment quietly puts it back in draft instead of shipping
+ * changes nobody signed off on. Follow-up on the recommendations — their
+ * status, target date and responsible party — is the exception: it is not
+ * what was approved, so it moves approved_revision along with the revision
+ * (routes/recommendations.ts, and a delta push carrying nothing else).
+ */
+
+export const REVIEW_STATUSES = ['submitted', 'returned', 'approved'] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return typeof value === 'string' && (REVIEW_STATUSES as readonly string[]).includes(value);
+}
+
+/** Cleared together whenever an approval stops applying. */
+export const CLEARED_APPROVAL = {
+  approved_at: null,
+  approved_by: null,
+  approved_by_id: null,
+  approved_revision: null,
+} as const;
+
+/**
+ * The status to store after a push.
+ *
+ *  - The stored status is the device's own: take the incoming one, unless
+ *    the device is claiming a review status it cannot grant itself.
+ *  - Approved, and the push changed the content: the approval no longer
+ *    describes what is on the server, so it is revoked and the device's own
+ *    status taken instead (completed, if the device was echoing 'approved'
+ *    back from an earlier pull). revokeApproval tells the caller to clear
+ *    the approved_* columns.
+ *  - Otherwise the review status stands. A push while submitted or returned
+ *    is the assessor answering the supervisor; the supervisor reads the new
+ *    revision, and it is the assessor who resubmits.
+ */
+export function statusAfterSync(
+  stored: string | null,
+  incoming: string,
+  contentChanged: boolean,
+): { status: string; revokeApproval: boolean } {
+  if (!stored || !isReviewStatus(stored)) {
+    return { status: isReviewStatus(incoming) ? (stored ?? 'completed') : incoming, revokeApproval: false };
+  }
+  if (stored === 'approved' && contentChanged) {
+    return { status: isReviewStatus(incoming) ? 'completed' : incoming, revokeApproval: true };
+  }
+  return { status: stored, revokeApproval: false };
+}
+
+/** Whether the report is final: approved, and nobody has edited it since. */
+export function isApprovedFinal(row: {
+  status: string;
+  revision: number;
+  approved_revision: number | null;
+}): boolean {
+  return row.status === 'approved' && row.approved_revision === row.revision;
+}
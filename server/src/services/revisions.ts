@@ -0,0 +1,259 @@
+/**
+ * Server-side revision history: an insert-only copy of every state the server
+ * accepts for an assessment, and the restore that writes one of them forward.
+ *
+ * Every writer of assessment content calls snapshotAssessment() inside its own
+ * transaction, after its writes: sync, the admin PUT, and restore itself. So
+ * the newest history row always describes exactly what the live tables hold,
+ * and a crash between the write and the snapshot is impossible rather than
+ * merely unlikely.
+ */
+
+import { eq, desc } from 'drizzle-orm';
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db/connection.js';
+import {
+  assessments,
+  zoneScores,
+  itemScores,
+  lightSurveys,
+  lightReadings,
+  assessmentRevisions,
+} from '../db/schema.js';
+import type { AuthUser } from './auth.js';
+import { recalculateScores } from './scores.js';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type AssessmentRow = typeof assessments.$inferSelect;
+type ZoneScoreRow = typeof zoneScores.$inferSelect;
+type ItemScoreRow = typeof itemScores.$inferSelect;
+type LightSurveyRow = typeof lightSurveys.$inferSelect;
+type LightReadingRow = typeof lightReadings.$inferSelect;
+
+export type RevisionSource = 'sync' | 'edit' | 'restore' | 'baseline' | 'migration';
+
+/**
+ * The assessment columns that are content, and so are captured and restored.
+ * Everything else on the row is bookkeeping about the content — who synced it
+ * when, which revision it is, what a supervisor decided about it — and a
+ * restore must not rewind any of that.
+ */
+const CONTENT_FIELDS = [
+  'status',
+  'property_type',
+  'template_version',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'homeowner_name',
+  'homeowner_contact',
+  'contact_phone',
+  'assessor_name',
+  'assessor_badge_id',
+  'assessment_type',
+  'follows_assessment_id',
+  'weather_conditions',
+  'time_of_assessment',
+  'date_of_assessment',
+  'report_signed_on',
+  'overall_score',
+  'compliance_pct',
+  'top_recommendations',
+  'quick_wins',
+  'notes',
+  'assessor_signature',
+  'school_profile',
+  'buildings',
+  'main_building_name',
+  'site_facts',
+] as const satisfies readonly (keyof AssessmentRow)[];
+
+type AssessmentContent = Pick<AssessmentRow, (typeof CONTENT_FIELDS)[number]>;
+
+/** What snapshot (jsonb) holds. Dates arrive back from jsonb as ISO strings. */
+export interface RevisionSnapshot {
+  assessment: AssessmentContent;
+  zone_scores: ZoneScoreRow[];
+  item_scores: ItemScoreRow[];
+  /** aerial_image left out — see drizzle/0018_add_assessment_revisions.sql. */
+  light_surveys: Omit<LightSurveyRow, 'aerial_image'>[];
+  light_readings: LightReadingRow[];
+}
+
+async function latestRevision(tx: Tx, assessmentId: string) {
+  const [latest] = await tx
+    .select({
+      revision: assessmentRevisions.revision,
+      last_edited_by: assessmentRevisions.last_edited_by,
+      last_edited_at: assessmentRevisions.last_edited_at,
+    })
+    .from(assessmentRevisions)
+    .where(eq(assessmentRevisions.assessment_id, assessmentId))
+    .orderBy(desc(assessmentRevisions.created_at))
+    .limit(1);
+  return latest ?? null;
+}
+
+/**
+ * Record what the live tables now hold for this assessment. Call after the
+ * write, in the same transaction.
+ *
+ * A sync that re-sends the revision the history already ends on — same number,
+ * same device, same edit time — is a re-sync of unchanged work (Re-sync after
+ * a photo upload failed, say), and is not recorded again. Pass
+ * skipIfUnchanged for that; every other writer records unconditionally.
+ */
+export async function snapshotAssessment(
+  tx: Tx,
+  assessmentId: string,
+  source: RevisionSource,
+  user: AuthUser | undefined,
+  options: { skipIfUnchanged?: boolean } = {},
+): Promise<void> {
+  const [row] = await tx.select().from(assessments).where(eq(assessments.id, assessmentId));
+  if (!row) return;
+
+  if (options.skipIfUnchanged) {
+    const latest = await latestRevision(tx, assessmentId);
+    if (
+      latest &&
+      latest.revision === row.revision &&
+      latest.last_edited_by === row.last_edited_by &&
+      latest.last_edited_at?.getTime() === row.last_edited_at?.getTime()
+    ) {
+      return;
+    }
+  }
+
+  const [zones, items, surveys, readings] = await Promise.all([
+    tx.select().from(zoneScores).where(eq(zoneScores.assessment_id, assessmentId)),
+    tx.select().from(itemScores).where(eq(itemScores.assessment_id, assessmentId)),
+    tx.select().from(lightSurveys).where(eq(lightSurveys.assessment_id, assessmentId)),
+    tx.select().from(lightReadings).where(eq(lightReadings.assessment_id, assessmentId)),
+  ]);
+
+  const content = Object.fromEntries(
+    CONTENT_FIELDS.map((field) => [field, row[field]]),
+  ) as AssessmentContent;
+
+  const snapshot: RevisionSnapshot = {
+    assessment: content,
+    zone_scores: zones,
+    item_scores: items,
+    light_surveys: surveys.map(({ aerial_image: _aerial, ...rest }) => rest),
+    light_readings: readings,
+  };
+
+  await tx.insert(assessmentRevisions).values({
+    id: uuidv4(),
+    assessment_id: assessmentId,
+    revision: row.revision,
+    last_edited_by: row.last_edited_by,
+    last_edited_at: row.last_edited_at,
+    source,
+    pushed_by: user?.display_name ?? null,
+    pushed_by_id: user?.id ?? null,
+    overall_score: row.overall_score,
+    scored_items: items.filter((i) => i.score !== null || i.rating !== null || i.is_na).length,
+    snapshot,
+  });
+}
+
+/**
+ * Before the first write that would replace content the history has never
+ * seen — an assessment synced before this feature existed — keep a copy of it
+ * as 'baseline'. Otherwise the first restore anybody needs would be the one
+ * thing that cannot be done.
+ */
+export async function ensureBaselineSnapshot(
+  tx: Tx,
+  assessmentId: string,
+): Promise<void> {
+  if (!(await latestRevision(tx, assessmentId))) {
+    await snapshotAssessment(tx, assessmentId, 'baseline', undefined);
+  }
+}
+
+/**
+ * A snapshot row's per-row edit time back to a Date: it went into jsonb as a
+ * string, and the driver only takes a Date for a timestamp column. Snapshots
+ * taken before rows had an edit stamp lack the field, which stays absent and
+ * takes the column default.
+ */
+function withEditInstant<T extends { last_edited_at?: Date | string | null }>(row: T): T {
+  return row.last_edited_at ? { ...row, last_edited_at: new Date(row.last_edited_at) } : row;
+}
+
+/**
+ * Write a snapshot's content back over the live tables.
+ *
+ * The caller decides the new revision and the status; this only moves the
+ * content. Light-survey aerial images are carried forward from the live row
+ * when the survey still exists, since the snapshot never held them.
+ */
+export async function restoreSnapshot(
+  tx: Tx,
+  assessmentId: string,
+  snapshot: RevisionSnapshot,
+  assessmentFields: PgUpdateSetSource<typeof assessments>,
+): Promise<void> {
+  await tx
+    .update(assessments)
+    // A snapshot taken before buildings existed has no building rows either,
+    // so it restores to none; likewise one from before site facts has no
+    // answers. Its item rows are those of the template version it was taken
+    // at, so that version comes back with them, or nothing would migrate the
+    // rows forward again; one that doesn't record it reads as 1, like an
+    // assessment from before versions did.
+    .set({
+      ...snapshot.assessment,
+      template_version: snapshot.assessment.template_version ?? 1,
+      buildings: snapshot.assessment.buildings ?? [],
+      main_building_name: snapshot.assessment.main_building_name ?? '',
+      site_facts: snapshot.assessment.site_facts ?? {},
+      ...assessmentFields,
+    })
+    .where(eq(assessments.id, assessmentId));
+
+  await tx.delete(zoneScores).where(eq(zoneScores.assessment_id, assessmentId));
+  if (snapshot.zone_scores.length > 0) {
+    await tx.insert(zoneScores).values(snapshot.zone_scores.map(withEditInstant));
+  }
+
+  await tx.delete(itemScores).where(eq(itemScores.assessment_id, assessmentId));
+  if (snapshot.item_scores.length > 0) {
+    await tx.insert(itemScores).values(snapshot.item_scores.map(withEditInstant));
+  }
+
+  const aerials = new Map<string, string | null>();
+  for (const row of await tx
+    .select({ id: lightSurveys.id, aerial_image: lightSurveys.aerial_image })
+    .from(lightSurveys)
+    .where(eq(lightSurveys.assessment_id, assessmentId))) {
+    aerials.set(row.id, row.aerial_image);
+  }
+
+  await tx.delete(lightReadings).where(eq(lightReadings.assessment_id, assessmentId));
+  await tx.delete(lightSurveys).where(eq(lightSurveys.assessment_id, assessmentId));
+  if (snapshot.light_surveys.length > 0) {
+    await tx.insert(lightSurveys).values(
+      snapshot.light_surveys.map((ls) => ({
+        ...ls,
+        // Timestamps went into jsonb as strings.
+        created_at: new Date(ls.created_at),
+        updated_at: new Date(ls.updated_at),
+        aerial_image: aerials.get(ls.id) ?? null,
+      })),
+    );
+  }
+  if (snapshot.light_readings.length > 0) {
+    await tx.insert(lightReadings).values(snapshot.light_readings.map(withEditInstant));
+  }
+
+  // The scores are derived, and a snapshot holds them as they were worked out
+  // when it was taken — before weighting, or before compliance, for an old
+  // one. Worked out again from the restored items, they read as today's do.
+  await recalculateScores(tx, assessmentId);
+}
@@ -0,0 +1,172 @@
+/**
+ * The district roll-up behind GET /api/schools/compliance: every school's
+ * compliance — percent of observable items met — and the district's, overall,
+ * by zone and by CPTED principle.
+ *
+ * One row per school, not per assessment: a school assessed in the autumn and
+ * re-assessed in the spring is counted once, from its latest visit, or the
+ * district figure would weigh it twice. A school is its address.
+ *
+ * District figures pool the items rather than averaging the schools'
+ * percentages, as each school's own figure pools its zones' (see
+ * calculateCompliance in cpted-checklist): a school with a handful of
+ * observable items should not count for as much as one with two hundred.
+ */
+
+import { and, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { baseZoneKey, getZonesForType } from 'cpted-checklist';
+import type { ComplianceSummary, PropertyType } from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { assessments, itemScores } from '../db/schema.js';
+
+const SCHOOL_TYPES: PropertyType[] = ['elementary_school', 'middle_school', 'high_school', 'combined_school'];
+
+export interface SchoolCompliance {
+  assessment_id: string;
+  school_name: string;
+  address: string;
+  city: string;
+  property_type: PropertyType;
+  date_of_assessment: string;
+  status: string;
+  compliance: ComplianceSummary;
+}
+
+export interface GroupCompliance {
+  key: string;
+  name: string;
+  compliance: ComplianceSummary;
+}
+
+export interface DistrictCompliance {
+  schools: SchoolCompliance[];
+  overall: ComplianceSummary;
+  zones: GroupCompliance[];
+  principles: GroupCompliance[];
+}
+
+interface Tally {
+  met: number;
+  notMet: number;
+  uto: number;
+}
+
+function emptyTally(): Tally {
+  return { met: 0, notMet: 0, uto: 0 };
+}
+
+function addTo(tally: Tally, row: Tally): void {
+  tally.met += row.met;
+  tally.notMet += row.notMet;
+  tally.uto += row.uto;
+}
+
+function summarise(tally: Tally): ComplianceSummary {
+  const observed = tally.met + tally.notMet;
+  return { ...tally, percent: observed > 0 ? (tally.met / observed) * 100 : null };
+}
+
+export async function districtCompliance(): Promise<DistrictCompliance> {
+  const candidates = await db
+    .select({
+      id: assessments.id,
+      school_name: assessments.homeowner_name,
+      address: assessments.address,
+      city: assessments.city,
+      property_type: assessments.property_type,
+      date_of_assessment: assessments.date_of_assessment,
+      created_at: assessments.created_at,
+      status: assessments.status,
+    })
+    .from(assessments)
+    .where(and(inArray(assessments.property_type, SCHOOL_TYPES), isNotNull(assessments.compliance_pct)));
+
+  // The latest visit per school, by the day walked and then the day created.
+  const latest = new Map<string, (typeof candidates)[number]>();
+  for (const row of candidates) {
+    const key = `${row.address.trim().toLowerCase()}|${row.city.trim().toLowerCase()}`;
+    const held = latest.get(key);
+    if (
+      !held ||
+      row.date_of_assessment > held.date_of_assessment ||
+      (row.date_of_assessment === held.date_of_assessment &&
+        row.created_at.getTime() > held.created_at.getTime())
+    ) {
+      latest.set(key, row);
+    }
+  }
+  const chosen = [...latest.values()];
+  if (chosen.length === 0) return { schools: [], overall: summarise(emptyTally()), zones: [], principles: [] };
+
+  const counts = await db
+    .select({
+      assessment_id: itemScores.assessment_id,
+      zone_key: itemScores.zone_key,
+      principle: itemScores.principle,
+      met: sql<number>`count(*) filter (where ${itemScores.rating} = 'yes')`.mapWith(Number),
+      notMet: sql<number>`count(*) filter (where ${itemScores.rating} = 'no')`.mapWith(Number),
+      uto: sql<number>`count(*) filter (where ${itemScores.rating} = 'uto')`.mapWith(Number),
+    })
+    .from(itemScores)
+    .where(
+      and(
+        inArray(itemScores.assessment_id, chosen.map((row) => row.id)),
+        eq(itemScores.is_na, false),
+      ),
+    )
+    .groupBy(itemScores.assessment_id, itemScores.zone_key, itemScores.principle);
+
+  const bySchool = new Map<string, Tally>();
+  const byZone = new Map<string, Tally>();
+  const byPrinciple = new Map<string, Tally>();
+  const overall = emptyTally();
+  for (const row of counts) {
+    const zoneKey = baseZoneKey(row.zone_key);
+    for (const [map, key] of [
+      [bySchool, row.assessment_id],
+      [byZone, zoneKey],
+      [byPrinciple, row.principle],
+    ] as const) {
+      const tally = map.get(key) ?? emptyTally();
+      addTo(tally, row);
+      map.set(key, tally);
+    }
+    addTo(overall, row);
+  }
+
+  // Names from the templates, in template order; a key only a retired
+  // version had falls to the end under its own key.
+  const zoneNames = new Map<string, string>();
+  const principleNames = new Map<string, string>();
+  for (const type of SCHOOL_TYPES) {
+    for (const zone of getZonesForType(type)) {
+      if (!zoneNames.has(zone.key)) zoneNames.set(zone.key, zone.name);
+      for (const p of zone.principles) if (!principleNames.has(p.key)) principleNames.set(p.key, p.name);
+    }
+  }
+  const groups = (tallies: Map<string, Tally>, names: Map<string, string>): GroupCompliance[] => {
+    const order = [...names.keys()];
+    const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+    return [...tallies]
+      .sort(([a], [b]) => rank(a) - rank(b))
+      .map(([key, tally]) => ({ key, name: names.get(key) ?? key, compliance: summarise(tally) }));
+  };
+
+  return {
+    schools: chosen
+      .map((row) => ({
+        assessment_id: row.id,
+        school_name: row.school_name,
+        address: row.address,
+        city: row.city,
+        property_type: row.property_type as PropertyType,
+        date_of_assessment: row.date_of_assessment,
+        status: row.status,
+        compliance: summarise(bySchool.get(row.id) ?? emptyTally()),
+      }))
+      .sort((a, b) => (a.compliance.percent ?? -1) - (b.compliance.percent ?? -1)),
+    overall: summarise(overall),
+    zones: groups(byZone, zoneNames),
+    principles: groups(byPrinciple, principleNames),
+  };
+}
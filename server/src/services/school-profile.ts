@@ -0,0 +1,80 @@
+/**
+ * The school's own site facts, printed as the first numbered page of a school
+ * report. The field list and wording are the PWA's
+ * (cpted-assessor/src/services/school-profile.ts) — approved content mirroring
+ * the page the district circulates — so a report from the server reads the
+ * same as one from the iPad.
+ */
+
+import type { SchoolProfile } from '../types/index.js';
+
+export type SchoolProfileFieldKey = Exclude<keyof SchoolProfile, 'photo' | 'build_history'>;
+
+export interface SchoolProfileField {
+  key: SchoolProfileFieldKey;
+  label: string;
+}
+
+export const SCHOOL_PROFILE_FIELDS: SchoolProfileField[] = [
+  { key: 'student_population', label: 'Current Student Population is Approximately' },
+  { key: 'max_occupancy', label: 'School Built Maximum Student Occupancy Approximately' },
+  { key: 'teachers_staff_total', label: 'Approximately Current Teachers / Staff' },
+  { key: 'admin_positions', label: 'Admin Positions' },
+  { key: 'counselors', label: 'School Counselors' },
+  { key: 'office_staff', label: 'Office Staff' },
+  { key: 'teachers', label: 'Teachers' },
+  { key: 'support_staff', label: 'Support Staff to Include SRO and Guardians' },
+  { key: 'kitchen_staff', label: 'Kitchen Staff' },
+];
+
+export const STUDENT_TEACHER_RATIO_LABEL = 'Student to Teacher Ratio';
+
+/**
+ * Roll divided by teachers, as "22 to 1". Null whenever either figure is
+ * missing or unreadable, or no teachers were entered. Staff counts are never
+ * added together: the school's own total covers categories this page does not
+ * itemise.
+ */
+export function studentTeacherRatio(profile: SchoolProfile): string | null {
+  const students = toCount(profile.student_population);
+  const teachers = toCount(profile.teachers);
+  if (students === null || teachers === null || teachers <= 0) return null;
+  return `${Math.round(students / teachers)} to 1`;
+}
+
+/** "1,500" and " 950 " are both what a school says. Anything else is not a count. */
+function toCount(raw: string): number | null {
+  const cleaned = (raw ?? '').replace(/[,\s]/g, '');
+  if (!/^\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+/**
+ * The stored profile with any key an older record predates filled in, or null
+ * when the column is empty.
+ */
+export function readSchoolProfile(value: unknown): SchoolProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  return {
+    photo: null,
+    build_history: '',
+    student_population: '',
+    max_occupancy: '',
+    teachers_staff_total: '',
+    admin_positions: '',
+    counselors: '',
+    office_staff: '',
+    teachers: '',
+    support_staff: '',
+    kitchen_staff: '',
+    ...(value as Partial<SchoolProfile>),
+  };
+}
+
+/** Whether there is anything worth printing; an empty profile gets no page. */
+export function hasSchoolProfileContent(profile: SchoolProfile | null): boolean {
+  if (!profile) return false;
+  if (profile.photo) return true;
+  if (profile.build_history.trim()) return true;
+  return SCHOOL_PROFILE_FIELDS.some((f) => (profile[f.key] ?? '').trim() !== '');
+}
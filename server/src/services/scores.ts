@@ -0,0 +1,66 @@
+/**
+ * The zone and overall scores the server stores for an assessment, derived
+ * from its item rows with the same package functions the PWA uses.
+ */
+
+import { eq, and } from 'drizzle-orm';
+import {
+  calculateCompliance,
+  calculateZoneAverage,
+  isZoneComplete,
+  calculateWeightedScore,
+  groupItemsByZone,
+} from 'cpted-checklist';
+import type { PropertyType, SchoolRating } from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { assessments, zoneScores, itemScores } from '../db/schema.js';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Recompute every zone's average, compliance and completeness and the weighted
+ * overall score and compliance from the stored items. Returns the overall score.
+ *
+ * Deliberately does not touch revision: the scores are a pure function of the
+ * items, which were counted when they changed.
+ */
+export async function recalculateScores(tx: Tx, assessmentId: string): Promise<number | null> {
+  // School ratings live in their own column; fold them back into score, as
+  // GET /api/assessments/:id does, or a school zone would never be complete.
+  const allItems = (
+    await tx.select().from(itemScores).where(eq(itemScores.assessment_id, assessmentId))
+  ).map(({ rating, ...rest }) => ({ ...rest, score: (rating as SchoolRating | null) ?? rest.score }));
+
+  const byZone = groupItemsByZone(allItems);
+
+  for (const [zoneKey, items] of byZone) {
+    const avg = calculateZoneAverage(items);
+    const compliance = calculateCompliance(items).percent;
+    const complete = isZoneComplete(items);
+    await tx
+      .update(zoneScores)
+      .set({ average_score: avg, compliance_pct: compliance, completed: complete })
+      .where(
+        and(
+          eq(zoneScores.assessment_id, assessmentId),
+          eq(zoneScores.zone_key, zoneKey),
+        ),
+      );
+  }
+
+  // Weighted by zone and principle as the assessment's template version
+  // weights them, as the PWA computes it; see score-weights.ts in
+  // cpted-checklist.
+  const [assessment] = await tx
+    .select({ property_type: assessments.property_type, template_version: assessments.template_version })
+    .from(assessments)
+    .where(eq(assessments.id, assessmentId));
+  const overall = assessment
+    ? calculateWeightedScore(assessment.property_type as PropertyType, byZone, assessment.template_version).score
+    : null;
+  await tx
+    .update(assessments)
+    .set({ overall_score: overall, compliance_pct: calculateCompliance(allItems).percent })
+    .where(eq(assessments.id, assessmentId));
+  return overall;
+}
@@ -0,0 +1,138 @@
+/**
+ * Full-text search over what assessors wrote: item notes, zone findings and
+ * notes, assessment notes, and recommendation descriptions.
+ *
+ * Each source is matched with the same expression its GIN index in
+ * drizzle/0020_add_full_text_search.sql was built on — that is the only way
+ * Postgres will use the index, so the vectors below and the migration change
+ * together or not at all. A recommendation is matched twice: once against the
+ * indexed vector of all of an assessment's descriptions, which finds the
+ * assessments cheaply, then against each description alone, which says which
+ * recommendation it was.
+ *
+ * The query is read by websearch_to_tsquery, which never rejects input: an
+ * assessor can type "gate latch", "vestibule -door" or a stray quote mark and
+ * get an answer rather than a syntax error.
+ */
+
+import { inArray, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from '../db/connection.js';
+import { assessments, itemScores, zoneScores } from '../db/schema.js';
+
+export const SEARCH_DEFAULT_LIMIT = 50;
+export const SEARCH_MAX_LIMIT = 200;
+
+const ITEM_VECTOR = sql`to_tsvector('english', ${itemScores.notes})`;
+const ZONE_TEXT = sql`${zoneScores.priority_findings} || ' ' || ${zoneScores.notes}`;
+const ZONE_VECTOR = sql`to_tsvector('english', ${ZONE_TEXT})`;
+const NOTES_VECTOR = sql`to_tsvector('english', ${assessments.notes})`;
+const RECOMMENDATIONS_VECTOR = sql`to_tsvector('english', jsonb_path_query_array(${assessments.top_recommendations} || ${assessments.quick_wins}, '$[*].description'))`;
+
+/**
+ * Matches come back wrapped in <mark></mark>. The PWA splits on the tags and
+ * renders the pieces as text, never as HTML, so notes that happen to contain
+ * markup stay inert.
+ */
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2';
+
+export type SearchHitKind = 'item' | 'zone' | 'assessment_notes' | 'recommendation' | 'quick_win';
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  assessment_id: string;
+  address: string;
+  city: string;
+  state: string;
+  property_type: string;
+  date_of_assessment: string;
+  status: string;
+  /** Set for item and zone hits. */
+  zone_key: string | null;
+  zone_name: string | null;
+  /** Set for item hits. */
+  item_score_id: string | null;
+  item_text: string | null;
+  principle: string | null;
+  /** The matching passage, matches in <mark></mark>. */
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchQuery {
+  q: string;
+  property_type: string[] | null;
+  status: string[] | null;
+  limit: number;
+}
+
+export async function searchAssessments(query: SearchQuery): Promise<SearchHit[]> {
+  const ts = sql`websearch_to_tsquery('english', ${query.q})`;
+
+  const filters: SQL[] = [];
+  if (query.property_type) filters.push(inArray(assessments.property_type, query.property_type));
+  if (query.status) filters.push(inArray(assessments.status, query.status));
+  const where = filters.length > 0 ? sql`WHERE ${sql.join(filters, sql` AND `)}` : sql``;
+
+  const result = await db.execute(sql`
+    SELECT hits.*,
+           ${assessments.address} AS address,
+           ${assessments.city} AS city,
+           ${assessments.state} AS state,
+           ${assessments.property_type} AS property_type,
+           ${assessments.date_of_assessment} AS date_of_assessment,
+           ${assessments.status} AS status
+    FROM (
+      SELECT 'item' AS kind, ${itemScores.assessment_id} AS assessment_id,
+             ${itemScores.zone_key} AS zone_key, ${zoneScores.zone_name} AS zone_name,
+             ${itemScores.id} AS item_score_id, ${itemScores.item_text} AS item_text,
+             ${itemScores.principle} AS principle,
+             ts_headline('english', ${itemScores.notes}, ${ts}, ${HEADLINE_OPTIONS}) AS snippet,
+             ts_rank(${ITEM_VECTOR}, ${ts}) AS rank
+      FROM ${itemScores}
+      LEFT JOIN ${zoneScores}
+        ON ${zoneScores.assessment_id} = ${itemScores.assessment_id}
+       AND ${zoneScores.zone_key} = ${itemScores.zone_key}
+      WHERE ${ITEM_VECTOR} @@ ${ts}
+
+      UNION ALL
+
+      SELECT 'zone', ${zoneScores.assessment_id}, ${zoneScores.zone_key}, ${zoneScores.zone_name},
+             NULL, NULL, NULL,
+             ts_headline('english', ${ZONE_TEXT}, ${ts}, ${HEADLINE_OPTIONS}),
+             ts_rank(${ZONE_VECTOR}, ${ts})
+      FROM ${zoneScores}
+      WHERE ${ZONE_VECTOR} @@ ${ts}
+
+      UNION ALL
+
+      SELECT 'assessment_notes', ${assessments.id}, NULL, NULL, NULL, NULL, NULL,
+             ts_headline('english', ${assessments.notes}, ${ts}, ${HEADLINE_OPTIONS}),
+             ts_rank(${NOTES_VECTOR}, ${ts})
+      FROM ${assessments}
+      WHERE ${NOTES_VECTOR} @@ ${ts}
+
+      UNION ALL
+
+      SELECT recs.kind, ${assessments.id}, NULL, NULL, NULL, NULL, NULL,
+             ts_headline('english', recs.description, ${ts}, ${HEADLINE_OPTIONS}),
+             ts_rank(to_tsvector('english', recs.description), ${ts})
+      FROM ${assessments}
+      CROSS JOIN LATERAL (
+        SELECT 'recommendation' AS kind, rec->>'description' AS description
+        FROM jsonb_array_elements(${assessments.top_recommendations}) AS rec
+        UNION ALL
+        SELECT 'quick_win', rec->>'description'
+        FROM jsonb_array_elements(${assessments.quick_wins}) AS rec
+      ) AS recs
+      WHERE ${RECOMMENDATIONS_VECTOR} @@ ${ts}
+        AND to_tsvector('english', coalesce(recs.description, '')) @@ ${ts}
+    ) AS hits
+    JOIN ${assessments} ON ${assessments.id} = hits.assessment_id
+    ${where}
+    ORDER BY hits.rank DESC, ${assessments.created_at} DESC
+    LIMIT ${query.limit}
+  `);
+
+  return result.rows as unknown as SearchHit[];
+}
@@ -0,0 +1,140 @@
+/**
+ * Moving the server's in-flight assessments onto the current version of their
+ * checklist template — the server half of what the PWA does at startup
+ * (migrateInFlightAssessments() in cpted-assessor/src/services/template-upgrade.ts).
+ *
+ * Both halves apply the same plan from cpted-checklist (planTemplateMigration),
+ * row ids included, so the server's copy and an iPad's land on the same rows
+ * without either telling the other, and neither counts it as an edit: the
+ * revision is left alone, exactly as a device's sync base expects. Finished
+ * assessments are never touched here; they move only when an assessor
+ * upgrades one, which arrives as an ordinary push.
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import { v5 as uuidv5 } from 'uuid';
+import {
+  getTemplateVersion,
+  isEmptyMigration,
+  migratesAutomatically,
+  planTemplateMigration,
+} from 'cpted-checklist';
+import type { PropertyType } from 'cpted-checklist';
+import { db } from '../db/connection.js';
+import { assessments, itemScores, photos } from '../db/schema.js';
+import { snapshotAssessment } from './revisions.js';
+import { recalculateScores } from './scores.js';
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Bring one assessment's rows onto the current template, if it is in flight.
+ * Returns whether anything was written; the caller recalculates the scores.
+ *
+ * Reconciles whenever the assessment is in flight, not only when its version
+ * is behind: an iPad on an older build can push a reworded or retired item
+ * straight back, and it is put right again here. An assessment on a version
+ * newer than this server knows — a PWA that updated before the server did —
+ * is left alone rather than migrated backwards.
+ */
+export async function migrateAssessmentTemplate(tx: Tx, assessmentId: string): Promise<boolean> {
+  const [assessment] = await tx
+    .select({
+      status: assessments.status,
+      property_type: assessments.property_type,
+      template_version: assessments.template_version,
+    })
+    .from(assessments)
+    .where(eq(assessments.id, assessmentId));
+  if (!assessment || !migratesAutomatically(assessment.status)) return false;
+  const propertyType = assessment.property_type as PropertyType;
+  if (assessment.template_version > getTemplateVersion(propertyType)) return false;
+
+  const items = (
+    await tx.select().from(itemScores).where(eq(itemScores.assessment_id, assessmentId))
+  ).map((row) => ({ ...row, photo_ids: (row.photo_ids as string[]) || [] }));
+  const plan = planTemplateMigration(propertyType, assessmentId, items, uuidv5);
+  const behind = assessment.template_version < plan.toVersion;
+  if (isEmptyMigration(plan) && !behind) return false;
+
+  for (const row of plan.updated) {
+    await tx
+      .update(itemScores)
+      .set({
+        zone_key: row.zone_key,
+        principle: row.principle,
+        item_text: row.item_text,
+        item_order: row.item_order,
+        photo_ids: row.photo_ids,
+      })
+      .where(eq(itemScores.id, row.id));
+  }
+  if (plan.added.length > 0) {
+    await tx.insert(itemScores).values(
+      plan.added.map((row) => ({
+        ...row,
+        assessment_id: assessmentId,
+        score: null,
+        rating: null,
+        is_na: false,
+        notes: '',
+        revision: 1,
+      })),
+    );
+  }
+  if (plan.removed.length > 0) {
+    await tx.delete(itemScores).where(inArray(itemScores.id, plan.removed));
+  }
+  for (const move of plan.photos) {
+    await tx
+      .update(photos)
+      .set({ item_score_id: move.item_score_id, zone_key: move.zone_key })
+      .where(eq(photos.id, move.photo_id));
+  }
+  if (behind) {
+    await tx
+      .update(assessments)
+      .set({ template_version: plan.toVersion })
+      .where(eq(assessments.id, assessmentId));
+  }
+  return true;
+}
+
+/**
+ * Migrate every in-flight assessment whose template has moved on. Run once at
+ * startup, after the schema migrations: a new checklist ships with a new
+ * server build, so this is the moment the server's copies fall behind. Each
+ * assessment is its own transaction, so one that fails leaves the rest done
+ * and is tried again at the next start.
+ */
+export async function migrateInFlightAssessments(): Promise<void> {
+  const behind = (
+    await db
+      .select({
+        id: assessments.id,
+        status: assessments.status,
+        property_type: assessments.property_type,
+        template_version: assessments.template_version,
+      })
+      .from(assessments)
+  ).filter(
+    (a) =>
+      migratesAutomatically(a.status) &&
+      a.template_version < getTemplateVersion(a.property_type as PropertyType),
+  );
+
+  for (const { id } of behind) {
+    try {
+      await db.transaction(async (tx) => {
+        if (!(await migrateAssessmentTemplate(tx, id))) return;
+        await recalculateScores(tx, id);
+        await snapshotAssessment(tx, id, 'migration', undefined);
+      });
+    } catch (err) {
+      console.warn(`Checklist migration of ${id} skipped:`, (err as Error).message);
+    }
+  }
+  if (behind.length > 0) {
+    console.log(`Moved ${behind.length} in-flight assessments onto the current checklist`);
+  }
+}
@@ -1,5 +1,8 @@
 export type AssessmentStatus = 'in_progress' | 'completed' | 'synced';
-export type PropertyType = 'single_family_residential' | 'places_of_worship';
+// The checklist types are the shared package's, so a template added there is a
+// property type here too.
+export type { PropertyType, SchoolRating, ZoneDefinition, ZonePrinciple } from 'cpted-checklist';
+import type { RecommendationStatus, RecommendationStatusChange } from 'cpted-checklist';
 export type AssessmentType = 'initial' | 'follow_up' | 're_assessment';
 export type TimeOfAssessment = 'daytime' | 'nighttime' | 'both';
 export type Priority = 'high' | 'medium' | 'low';
@@ -12,19 +15,29 @@ export interface Recommendation {
   description: string;
   priority: Priority;
   type: RecommendationType;
+  /** The item it was written for, if it was (see the PWA's Recommendation). */
+  item_id?: string;
+  /** Lifecycle — see cpted-checklist's recommendation-status.ts. */
+  status?: RecommendationStatus;
+  target_date?: string | null;
+  responsible_party?: string;
+  status_history?: RecommendationStatusChange[];
 }
 
-// Zone definition types (for the static checklist data)
-export interface ZonePrinciple {
-  key: string;
-  name: string;
-  items: string[];
-}
-
-export interface ZoneDefinition {
-  key: string;
-  name: string;
-  order: number;
-  description: string;
-  principles: ZonePrinciple[];
+/**
+ * A school's site facts, as the PWA stores them in assessments.school_profile.
+ * Every figure is the text the school gave — see services/school-profile.ts.
+ */
+export interface SchoolProfile {
+  photo: string | null;
+  build_history: string;
+  student_population: string;
+  max_occupancy: string;
+  teachers_staff_total: string;
+  admin_positions: string;
+  counselors: string;
+  office_staff: string;
+  teachers: string;
+  support_staff: string;
+  kitchen_staff: string;
 }